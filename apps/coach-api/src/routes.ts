@@ -1,12 +1,29 @@
 import { randomUUID } from "crypto";
+import { Chess } from "chess.js";
 import { z } from "zod";
-import type { AnalysisResult } from "../coach-worker/src/pipeline";
-import { AnalysisPipeline } from "../coach-worker/src/pipeline";
+import type {
+  AbilityInput,
+  AnalysisResult,
+} from "../../coach-worker/src/pipeline";
+import { AnalysisPipeline } from "../../coach-worker/src/pipeline";
+import {
+  InMemoryCheckpointStore,
+  type AnalysisProgress,
+  type CheckpointStore,
+} from "../../coach-worker/src/jobs";
+import {
+  InMemoryPersonalPuzzleStore,
+  type PersonalPuzzleStore,
+} from "../../coach-worker/src/puzzles";
+import type { VariantGameContext } from "../../coach-worker/src/variantEvaluator";
+import type { RuleJSON } from "@/engine/types";
 import { LLMProvider } from "packages/llm";
 
 export interface CoachApiOptions {
   readonly pipeline?: AnalysisPipeline;
   readonly service?: CoachService;
+  /** Receives the puzzles mined from each finished report. */
+  readonly puzzleStore?: PersonalPuzzleStore;
 }
 
 export interface HttpContext {
@@ -18,15 +35,18 @@ export interface HttpContext {
 export interface CoachService {
   ingestGame(payload: IngestBody, ownerId: string): Promise<{ gameId: string }>;
   queueAnalysis(gameId: string, ownerId: string): Promise<void>;
-  getAnalysisStatus(
-    gameId: string,
-    ownerId: string,
-  ): Promise<{ status: string }>;
+  getAnalysisStatus(gameId: string, ownerId: string): Promise<AnalysisStatus>;
   getReport(gameId: string, ownerId: string): Promise<AnalysisResult>;
   rebuild(gameId: string): Promise<void>;
   listMoves(gameId: string, ownerId: string): Promise<MoveRecord[]>;
 }
 
+export interface AnalysisStatus {
+  readonly status: "queued" | "running" | "done" | "error";
+  readonly progress?: AnalysisProgress;
+  readonly error?: string;
+}
+
 export interface MoveRecord {
   readonly ply: number;
   readonly san: string;
@@ -34,6 +54,7 @@ export interface MoveRecord {
   readonly fenBefore: string;
   readonly fenAfter: string;
   readonly timeSpentMs?: number;
+  readonly ability?: AbilityInput;
 }
 
 const ingestSchema = z.object({
@@ -46,14 +67,38 @@ const ingestSchema = z.object({
         fen_before: z.string(),
         fen_after: z.string(),
         time_ms: z.number().int().nonnegative().optional(),
+        ability: z
+          .object({ action_id: z.string().min(1), label: z.string() })
+          .optional(),
       }),
     )
     .optional(),
+  // Rule Architect games: positions are extended FEN played under these rules.
+  variant: z
+    .object({
+      rules: z.array(z.record(z.unknown())),
+      match_seed: z.string().optional(),
+    })
+    .optional(),
   source: z.string().optional(),
+  // Only this side's mistakes become personal puzzles when it is known.
+  player_color: z.enum(["white", "black"]).optional(),
 });
 
 type IngestBody = z.infer<typeof ingestSchema>;
 
+/** Expands a standard PGN into the per-move payload the pipeline analyses. */
+export function movesFromPgn(pgn: string): NonNullable<IngestBody["moves"]> {
+  const chess = new Chess();
+  chess.loadPgn(pgn);
+  return chess.history({ verbose: true }).map((move) => ({
+    san: move.san,
+    uci: move.lan,
+    fen_before: move.before,
+    fen_after: move.after,
+  }));
+}
+
 interface RouteDefinition {
   readonly method: string;
   readonly pattern: RegExp;
@@ -63,7 +108,8 @@ interface RouteDefinition {
 
 export function createCoachRouter(options: CoachApiOptions = {}) {
   const routes: RouteDefinition[] = [];
-  const service = options.service ?? new InMemoryCoachService();
+  const service =
+    options.service ?? new InMemoryCoachService(options.puzzleStore);
 
   routes.push(
     createRoute("POST", "/games/ingest", async (ctx) => {
@@ -76,8 +122,23 @@ export function createCoachRouter(options: CoachApiOptions = {}) {
         );
       }
 
+      const payload = parseResult.data;
+      if (payload.pgn && !payload.moves?.length) {
+        try {
+          payload.moves = movesFromPgn(payload.pgn);
+        } catch (error) {
+          return ctx.json(
+            {
+              error: "Invalid PGN",
+              details: error instanceof Error ? error.message : String(error),
+            },
+            { status: 400 },
+          );
+        }
+      }
+
       const ownerId = getOwnerFromRequest(ctx.request);
-      const result = await service.ingestGame(parseResult.data, ownerId);
+      const result = await service.ingestGame(payload, ownerId);
       return ctx.json(result, { status: 201 });
     }),
   );
@@ -198,14 +259,26 @@ function getOwnerFromRequest(request: Request): string {
   return header;
 }
 
+interface StoredGame {
+  ownerId: string;
+  moves: MoveRecord[];
+  variant?: VariantGameContext;
+  playerColor?: "white" | "black";
+  analysis?: AnalysisResult;
+  status: AnalysisStatus["status"];
+  progress?: AnalysisProgress;
+  error?: string;
+  job?: Promise<void>;
+}
+
 class InMemoryCoachService implements CoachService {
-  private readonly store = new Map<
-    string,
-    { ownerId: string; moves: MoveRecord[]; analysis?: AnalysisResult }
-  >();
+  private readonly store = new Map<string, StoredGame>();
+  private readonly checkpoints: CheckpointStore = new InMemoryCheckpointStore();
   private readonly pipeline: AnalysisPipeline;
 
-  public constructor() {
+  public constructor(
+    private readonly puzzleStore: PersonalPuzzleStore = new InMemoryPersonalPuzzleStore(),
+  ) {
     let llmProvider: LLMProvider | undefined;
     try {
       llmProvider = new LLMProvider({ order: ["local"] });
@@ -217,6 +290,7 @@ class InMemoryCoachService implements CoachService {
       multiPV: 3,
       threads: 1,
       hashMB: 32,
+      poolSize: 2,
       llmProvider,
     });
   }
@@ -236,9 +310,24 @@ class InMemoryCoachService implements CoachService {
       fenBefore: move.fen_before,
       fenAfter: move.fen_after,
       timeSpentMs: move.time_ms,
+      ability: move.ability
+        ? { actionId: move.ability.action_id, label: move.ability.label }
+        : undefined,
     }));
+    const variant = payload.variant
+      ? {
+          rules: payload.variant.rules as unknown as RuleJSON[],
+          matchSeed: payload.variant.match_seed,
+        }
+      : undefined;
 
-    this.store.set(gameId, { ownerId, moves });
+    this.store.set(gameId, {
+      ownerId,
+      moves,
+      variant,
+      playerColor: payload.player_color,
+      status: "queued",
+    });
     return { gameId };
   }
 
@@ -247,18 +336,18 @@ class InMemoryCoachService implements CoachService {
     if (!game || game.ownerId !== ownerId) {
       throw new Error("Forbidden");
     }
-    game.analysis = await this.pipeline.run(game.moves);
+    this.startJob(gameId, game);
   }
 
   public async getAnalysisStatus(
     gameId: string,
     ownerId: string,
-  ): Promise<{ status: string }> {
+  ): Promise<AnalysisStatus> {
     const game = this.store.get(gameId);
     if (!game || game.ownerId !== ownerId) {
       throw new Error("Forbidden");
     }
-    return { status: game.analysis ? "done" : "queued" };
+    return { status: game.status, progress: game.progress, error: game.error };
   }
 
   public async getReport(
@@ -277,7 +366,10 @@ class InMemoryCoachService implements CoachService {
     if (!game) {
       throw new Error("Game not found");
     }
-    game.analysis = await this.pipeline.run(game.moves);
+    await game.job;
+    await this.checkpoints.clear(gameId);
+    game.analysis = undefined;
+    await this.startJob(gameId, game);
   }
 
   public async listMoves(
@@ -290,4 +382,42 @@ class InMemoryCoachService implements CoachService {
     }
     return game.moves;
   }
+
+  /** Runs in the background; requeueing a failed job resumes its checkpoint. */
+  private startJob(gameId: string, game: StoredGame): Promise<void> {
+    if (game.job) {
+      return game.job;
+    }
+    game.status = "running";
+    game.error = undefined;
+    game.job = this.pipeline
+      .run(game.moves, game.variant, {
+        jobId: gameId,
+        checkpoints: this.checkpoints,
+        onProgress: (progress) => {
+          game.progress = progress;
+        },
+      })
+      .then(async (analysis) => {
+        game.analysis = analysis;
+        game.status = "done";
+        const puzzles = analysis.report.puzzles.filter(
+          (puzzle) => !game.playerColor || puzzle.side === game.playerColor,
+        );
+        try {
+          await this.puzzleStore.save(game.ownerId, gameId, puzzles);
+        } catch (error) {
+          // A storage outage must not fail an otherwise finished report.
+          console.warn(`Personal puzzles not stored for ${gameId}:`, error);
+        }
+      })
+      .catch((error: unknown) => {
+        game.status = "error";
+        game.error = error instanceof Error ? error.message : String(error);
+      })
+      .finally(() => {
+        game.job = undefined;
+      });
+    return game.job;
+  }
 }
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { CoachService } from "../src/routes";
+import { createCoachRouter } from "../src/routes";
+
+const createService = () => {
+  const ingested: Parameters<CoachService["ingestGame"]>[0][] = [];
+  const service = {
+    async ingestGame(payload) {
+      ingested.push(payload);
+      return { gameId: "game-1" };
+    },
+  } as CoachService;
+  return { ingested, service };
+};
+
+const ingest = (body: unknown) =>
+  new Request("http://coach.test/games/ingest", {
+    method: "POST",
+    headers: { "content-type": "application/json", "x-owner-id": "owner-1" },
+    body: JSON.stringify(body),
+  });
+
+describe("POST /games/ingest", () => {
+  it("expands a PGN into analysable moves", async () => {
+    const { ingested, service } = createService();
+    const router = createCoachRouter({ service });
+
+    const response = await router.handle(
+      ingest({
+        pgn: '[White "A"]\n[Black "B"]\n[RuleIds "preset_a"]\n\n1. e4 e5 2. Nf3 *',
+      }),
+    );
+
+    expect(response.status).toBe(201);
+    expect(ingested[0].moves).toEqual([
+      expect.objectContaining({ san: "e4", uci: "e2e4" }),
+      expect.objectContaining({ san: "e5", uci: "e7e5" }),
+      expect.objectContaining({
+        san: "Nf3",
+        uci: "g1f3",
+        fen_after:
+          "rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2",
+      }),
+    ]);
+  });
+
+  it("keeps explicit moves and rejects an unreadable PGN", async () => {
+    const { ingested, service } = createService();
+    const router = createCoachRouter({ service });
+    const moves = [
+      { san: "d4", uci: "d2d4", fen_before: "before", fen_after: "after" },
+    ];
+
+    await router.handle(ingest({ pgn: "1. e4 *", moves }));
+    expect(ingested[0].moves).toEqual(moves);
+
+    const rejected = await router.handle(ingest({ pgn: "1. e5 *" }));
+    expect(rejected.status).toBe(400);
+    expect(ingested).toHaveLength(1);
+  });
+
+  it("accepts Rule Architect games with their rules and ability uses", async () => {
+    const { ingested, service } = createService();
+    const router = createCoachRouter({ service });
+    const moves = [
+      {
+        san: "Freeze",
+        uci: "0000",
+        fen_before: "before",
+        fen_after: "after",
+        ability: { action_id: "freeze.fire", label: "Freeze" },
+      },
+    ];
+
+    const response = await router.handle(
+      ingest({ moves, variant: { rules: [{ meta: {} }], match_seed: "m-1" } }),
+    );
+
+    expect(response.status).toBe(201);
+    expect(ingested[0]).toMatchObject({
+      moves,
+      variant: { rules: [{ meta: {} }], match_seed: "m-1" },
+    });
+  });
+});
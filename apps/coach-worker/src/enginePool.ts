@@ -0,0 +1,52 @@
+import type { Engine, EngineInitOptions } from "packages/engine";
+
+/**
+ * Runs `task` over `items` on up to `size` engines at once. Engines are only
+ * started when there is work for them and are always disposed, even when a
+ * task fails; the first failure stops the pool and is rethrown.
+ */
+export async function runOnEnginePool<T>(
+  items: readonly T[],
+  size: number,
+  engineFactory: () => Engine,
+  initOptions: EngineInitOptions,
+  task: (engine: Engine, item: T) => Promise<void>,
+): Promise<void> {
+  const workerCount = Math.min(Math.max(1, Math.floor(size)), items.length);
+  if (workerCount === 0) {
+    return;
+  }
+
+  const engines: Engine[] = [];
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    const engine = engineFactory();
+    engines.push(engine);
+    await engine.init(initOptions);
+    while (!failed && next < items.length) {
+      const item = items[next];
+      next += 1;
+      await task(engine, item);
+    }
+  };
+
+  const outcomes = await Promise.allSettled(
+    Array.from({ length: workerCount }, () =>
+      worker().catch((error: unknown) => {
+        failed = true;
+        throw error;
+      }),
+    ),
+  );
+  await Promise.allSettled(engines.map((engine) => engine.dispose()));
+
+  const failure = outcomes.find(
+    (outcome): outcome is PromiseRejectedResult =>
+      outcome.status === "rejected",
+  );
+  if (failure) {
+    throw failure.reason;
+  }
+}
@@ -0,0 +1,65 @@
+import type { EngineEvaluation } from "packages/engine";
+import type { CoachExplanation } from "./pipeline";
+
+/** Raw result of one ply, before scores are chained across the game. */
+export interface PlyEvaluation {
+  /** Null when a variant position could not be read. */
+  readonly evaluation: EngineEvaluation | null;
+  readonly ruleDriven?: boolean;
+  readonly cooldownTurns?: number | null;
+}
+
+/** Everything a job has finished so far, keyed by ply. */
+export interface AnalysisCheckpoint {
+  readonly evaluations: Record<number, PlyEvaluation>;
+  readonly explanations: Record<number, CoachExplanation>;
+}
+
+export interface CheckpointStore {
+  load(jobId: string): Promise<AnalysisCheckpoint | null>;
+  save(jobId: string, checkpoint: AnalysisCheckpoint): Promise<void>;
+  clear(jobId: string): Promise<void>;
+}
+
+export type AnalysisPhase = "scoring" | "explaining" | "done";
+
+export interface AnalysisProgress {
+  readonly phase: AnalysisPhase;
+  readonly scoredPlies: number;
+  readonly totalPlies: number;
+  readonly explainedMoments: number;
+  readonly totalMoments: number;
+}
+
+export interface AnalysisJobOptions {
+  /** Checkpoints are stored under this id; a rerun resumes from them. */
+  readonly jobId: string;
+  readonly checkpoints: CheckpointStore;
+  readonly onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export const emptyCheckpoint = (): AnalysisCheckpoint => ({
+  evaluations: {},
+  explanations: {},
+});
+
+/** Keeps checkpoints in process memory; survives a failed run, not a restart. */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private readonly checkpoints = new Map<string, string>();
+
+  public async load(jobId: string): Promise<AnalysisCheckpoint | null> {
+    const stored = this.checkpoints.get(jobId);
+    return stored ? (JSON.parse(stored) as AnalysisCheckpoint) : null;
+  }
+
+  public async save(
+    jobId: string,
+    checkpoint: AnalysisCheckpoint,
+  ): Promise<void> {
+    this.checkpoints.set(jobId, JSON.stringify(checkpoint));
+  }
+
+  public async clear(jobId: string): Promise<void> {
+    this.checkpoints.delete(jobId);
+  }
+}
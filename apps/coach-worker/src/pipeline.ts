@@ -1,6 +1,17 @@
 import type { Engine, EngineEvaluation } from "packages/engine";
 import { StockfishWasmEngine } from "packages/engine";
 import { LLMProvider } from "packages/llm";
+import { classifyOpening, type OpeningClassification } from "@/lib/openingBook";
+import { runOnEnginePool } from "./enginePool";
+import {
+  emptyCheckpoint,
+  type AnalysisCheckpoint,
+  type AnalysisJobOptions,
+  type AnalysisProgress,
+  type PlyEvaluation,
+} from "./jobs";
+import { minePuzzles, type PuzzleCandidate } from "./puzzles";
+import { assessVariantMove, type VariantGameContext } from "./variantEvaluator";
 
 export type MoveQuality =
   | "brilliant"
@@ -10,7 +21,8 @@ export type MoveQuality =
   | "mistake"
   | "blunder"
   | "book"
-  | "forced";
+  | "forced"
+  | "rule-driven";
 
 export interface MoveInput {
   readonly ply: number;
@@ -18,6 +30,23 @@ export interface MoveInput {
   readonly uci: string;
   readonly fenBefore: string;
   readonly fenAfter: string;
+  /** Rule Architect action fired on this ply (variant games only). */
+  readonly ability?: AbilityInput;
+}
+
+export interface AbilityInput {
+  readonly actionId: string;
+  readonly label: string;
+}
+
+export interface AbilityUsage {
+  readonly ply: number;
+  readonly actionId: string;
+  readonly label: string;
+  /** Turns left on its cooldown once fired, null when the rule sets none. */
+  readonly cooldownTurns: number | null;
+  /** Evaluation change for the side that fired it, in centipawns. */
+  readonly swingCp: number;
 }
 
 export interface MoveEvaluation extends EngineEvaluation {
@@ -25,6 +54,7 @@ export interface MoveEvaluation extends EngineEvaluation {
   readonly classification: MoveQuality;
   readonly delta: number;
   readonly themes: string[];
+  readonly ability?: AbilityUsage;
   readonly explanation?: CoachExplanation;
 }
 
@@ -44,6 +74,14 @@ export interface CoachReport {
   readonly blundersBlack: number;
   readonly inaccuraciesWhite: number;
   readonly inaccuraciesBlack: number;
+  readonly variant: boolean;
+  /** Plies the engine could not judge because the rules shaped them. */
+  readonly ruleDrivenMoves: number;
+  readonly abilityUsage: AbilityUsage[];
+  /** Named ECO line for standard games; its plies are classified "book". */
+  readonly opening: OpeningClassification | null;
+  /** Costly moves turned into puzzles; empty for variant games. */
+  readonly puzzles: PuzzleCandidate[];
 }
 
 export interface AnalysisResult {
@@ -58,6 +96,12 @@ export interface PipelineOptions {
   readonly hashMB: number;
   readonly llmProvider?: LLMProvider;
   readonly engineFactory?: () => Engine;
+  /** Engines evaluating plies in parallel; 1 by default. */
+  readonly poolSize?: number;
+  /** Key moments explained per LLM call. */
+  readonly explanationBatchSize?: number;
+  /** Search budget per position for variant games. */
+  readonly variantTimeBudgetMs?: number;
 }
 
 const DEFAULT_THEMES = [
@@ -84,151 +128,332 @@ interface ScoredMove {
   readonly scoreBefore: number;
   readonly scoreAfter: number;
   readonly evaluation: EngineEvaluation;
+  readonly ruleDriven?: boolean;
+  readonly cooldownTurns?: number | null;
 }
 
+const UNREADABLE_POSITION: EngineEvaluation = {
+  depth: 0,
+  pv: [],
+  bestmove: "0000",
+  score: {},
+  nodes: 0,
+  timeMs: 0,
+};
+
+const DEFAULT_EXPLANATION_BATCH_SIZE = 4;
+
+/** Piece placement field of the standard initial FEN. */
+const START_BOARD = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR ";
+
 export class AnalysisPipeline {
   private readonly options: PipelineOptions;
-  private readonly engine: Engine;
+  private readonly engineFactory: () => Engine;
   private readonly llmProvider?: LLMProvider;
 
   public constructor(options: PipelineOptions) {
     this.options = options;
-    this.engine = options.engineFactory
-      ? options.engineFactory()
-      : new StockfishWasmEngine();
+    this.engineFactory =
+      options.engineFactory ?? (() => new StockfishWasmEngine());
     this.llmProvider = options.llmProvider;
   }
 
-  public async run(moves: MoveInput[]): Promise<AnalysisResult> {
-    await this.engine.init({
-      threads: this.options.threads,
-      hashMB: this.options.hashMB,
-    });
-
-    const scored: ScoredMove[] = [];
-    let previousScore = 0;
-
-    for (const move of moves) {
-      const evaluation = await this.engine.evalFen(move.fenAfter, {
-        depth: this.options.depth,
-        multiPV: this.options.multiPV,
-      });
-      const scoreCp =
-        evaluation.score.cp ??
-        convertMateScoreToCentipawns(evaluation.score.mate ?? 0, previousScore);
-      scored.push({
-        ply: move.ply,
-        scoreBefore: previousScore,
-        scoreAfter: scoreCp,
-        evaluation,
+  /**
+   * Analyses a game. With `variant`, positions are extended FEN and are scored
+   * by the rule-aware searcher instead of Stockfish. With `job`, every scored
+   * ply and explained moment is checkpointed, so a rerun after a crash only
+   * does the work that is left.
+   */
+  public async run(
+    moves: MoveInput[],
+    variant?: VariantGameContext,
+    job?: AnalysisJobOptions,
+  ): Promise<AnalysisResult> {
+    const checkpoint =
+      (job ? await job.checkpoints.load(job.jobId) : null) ?? emptyCheckpoint();
+    const evaluations = { ...checkpoint.evaluations };
+    const explanations = { ...checkpoint.explanations };
+
+    let saving = Promise.resolve();
+    const persist = (): Promise<void> => {
+      if (!job) {
+        return saving;
+      }
+      const snapshot: AnalysisCheckpoint = {
+        evaluations: { ...evaluations },
+        explanations: { ...explanations },
+      };
+      saving = saving.then(() => job.checkpoints.save(job.jobId, snapshot));
+      return saving;
+    };
+    const report = (
+      phase: AnalysisProgress["phase"],
+      explainedMoments = 0,
+      totalMoments = 0,
+    ) =>
+      job?.onProgress?.({
+        phase,
+        scoredPlies: moves.filter((move) => move.ply in evaluations).length,
+        totalPlies: moves.length,
+        explainedMoments,
+        totalMoments,
       });
-      previousScore = scoreCp;
-    }
-
-    await this.engine.dispose();
-
-    const moveEvaluations = await this.enrichMoves(moves, scored);
-    const report = await this.buildReport(moveEvaluations);
 
-    return { moveEvaluations, report };
-  }
+    const record = async (ply: number, evaluation: PlyEvaluation) => {
+      evaluations[ply] = evaluation;
+      await persist();
+      report("scoring");
+    };
 
-  private async enrichMoves(
-    moves: MoveInput[],
-    scored: ScoredMove[],
-  ): Promise<MoveEvaluation[]> {
-    const results: MoveEvaluation[] = [];
-
-    for (let i = 0; i < moves.length; i += 1) {
-      const move = moves[i];
-      const score = scored[i];
-      const delta = score.scoreAfter - score.scoreBefore;
-      const classification = classifyMove(delta, score, move.ply);
-      const themes = detectThemes(move);
-
-      let explanation: CoachExplanation | undefined;
-      if (this.llmProvider) {
-        explanation = await this.generateExplanation(
-          move,
-          score,
-          classification,
-          themes,
+    const pending = moves.filter((move) => !(move.ply in evaluations));
+    report("scoring");
+    if (variant) {
+      for (const move of pending) {
+        await record(
+          move.ply,
+          assessVariantMove(move, variant, {
+            depth: this.options.depth,
+            timeBudgetMs: this.options.variantTimeBudgetMs,
+          }),
         );
       }
+    } else {
+      await runOnEnginePool(
+        pending,
+        this.options.poolSize ?? 1,
+        this.engineFactory,
+        { threads: this.options.threads, hashMB: this.options.hashMB },
+        async (engine, move) => {
+          const evaluation = await engine.evalFen(move.fenAfter, {
+            depth: this.options.depth,
+            multiPV: this.options.multiPV,
+          });
+          await record(move.ply, { evaluation });
+        },
+      );
+    }
 
-      results.push({
-        ply: move.ply,
-        classification,
-        delta,
-        themes,
-        bestmove: score.evaluation.bestmove,
-        depth: score.evaluation.depth,
-        nodes: score.evaluation.nodes,
-        pv: score.evaluation.pv,
-        score: score.evaluation.score,
-        timeMs: score.evaluation.timeMs,
-        explanation,
-      });
+    const scored = chainScores(moves, evaluations);
+    const opening = variant ? null : findOpening(moves);
+    const classified = classifyMoves(moves, scored, opening?.bookPlies ?? 0);
+    const keyMoments = classified.filter(isKeyMoment);
+
+    if (this.llmProvider) {
+      const batchSize = Math.max(
+        1,
+        this.options.explanationBatchSize ?? DEFAULT_EXPLANATION_BATCH_SIZE,
+      );
+      const explained = () =>
+        keyMoments.filter((moment) => moment.ply in explanations).length;
+      const missing = keyMoments.filter(
+        (moment) => !(moment.ply in explanations),
+      );
+      report("explaining", explained(), keyMoments.length);
+
+      for (let start = 0; start < missing.length; start += batchSize) {
+        const batch = missing.slice(start, start + batchSize);
+        try {
+          const generated = await this.generateExplanations(batch, moves);
+          for (const [ply, explanation] of generated) {
+            explanations[ply] = explanation;
+          }
+          await persist();
+        } catch (error) {
+          // A rerun retries the batch; the rest of the report stands.
+          console.warn(
+            `Coach explanations skipped for plies ${batch.map((moment) => moment.ply).join(", ")}:`,
+            error,
+          );
+        }
+        report("explaining", explained(), keyMoments.length);
+      }
     }
 
-    return results;
-  }
+    await saving;
 
-  private async buildReport(
-    moveEvaluations: MoveEvaluation[],
-  ): Promise<CoachReport> {
-    const keyMoments = moveEvaluations.filter(
-      (move) =>
-        Math.abs(move.delta) >= 200 || move.classification === "brilliant",
+    const moveEvaluations = classified.map((move) =>
+      explanations[move.ply]
+        ? { ...move, explanation: explanations[move.ply] }
+        : move,
     );
-    const summary = buildSummaryMarkdown(moveEvaluations, keyMoments);
-
-    const accuracy = computeAccuracy(moveEvaluations);
-    const stats = summariseMistakes(moveEvaluations);
-
-    return {
-      summary,
-      keyMoments,
-      accuracyWhite: accuracy.white,
-      accuracyBlack: accuracy.black,
-      blundersWhite: stats.blundersWhite,
-      blundersBlack: stats.blundersBlack,
-      inaccuraciesWhite: stats.inaccuraciesWhite,
-      inaccuraciesBlack: stats.inaccuraciesBlack,
+    const result = {
+      moveEvaluations,
+      report: buildReport(moves, moveEvaluations, Boolean(variant), opening),
     };
+    report(
+      "done",
+      keyMoments.filter((moment) => moment.ply in explanations).length,
+      keyMoments.length,
+    );
+    return result;
   }
 
-  private async generateExplanation(
-    move: MoveInput,
-    score: ScoredMove,
-    classification: MoveQuality,
-    themes: string[],
-  ): Promise<CoachExplanation> {
+  /** One LLM call for a batch of key moments, answered as a JSON array. */
+  private async generateExplanations(
+    batch: MoveEvaluation[],
+    moves: MoveInput[],
+  ): Promise<Map<number, CoachExplanation>> {
     if (!this.llmProvider) {
       throw new Error("LLM provider not configured.");
     }
 
-    const delta = score.scoreAfter - score.scoreBefore;
-    const prompt = buildExplanationPrompt({
-      move,
-      delta,
-      classification,
-      themes,
-      evaluation: score.evaluation,
-    });
+    const byPly = new Map(moves.map((move) => [move.ply, move]));
+    const prompt = JSON.stringify(
+      {
+        role: "coach-explanation-batch",
+        moves: batch.map((moment) =>
+          buildExplanationRequest(byPly.get(moment.ply)!, moment),
+        ),
+      },
+      null,
+      2,
+    );
     const response = await this.llmProvider.complete({
       prompt,
-      maxTokens: 400,
+      maxTokens: 400 * batch.length,
       temperature: 0.3,
     });
 
+    let items: unknown;
     try {
       const json = JSON.parse(response.output);
-      return validateExplanation(json);
+      items = Array.isArray(json) ? json : json?.explanations;
     } catch (error) {
       throw new Error(`Failed to parse LLM response: ${String(error)}`);
     }
+    if (!Array.isArray(items)) {
+      throw new Error("LLM response must list one explanation per moment.");
+    }
+
+    const result = new Map<number, CoachExplanation>();
+    items.forEach((item: unknown, index) => {
+      const ply = Number(
+        (item as Record<string, unknown> | null)?.ply ?? batch[index]?.ply,
+      );
+      if (batch.some((moment) => moment.ply === ply)) {
+        result.set(ply, validateExplanation(item));
+      }
+    });
+    return result;
+  }
+}
+
+/** Chains raw per-ply evaluations into before/after scores. */
+function chainScores(
+  moves: MoveInput[],
+  evaluations: Record<number, PlyEvaluation>,
+): ScoredMove[] {
+  const scored: ScoredMove[] = [];
+  let previousScore = 0;
+
+  for (const move of moves) {
+    const entry = evaluations[move.ply];
+    const evaluation = entry?.evaluation ?? UNREADABLE_POSITION;
+    const scoreCp = entry?.evaluation
+      ? (evaluation.score.cp ??
+        convertMateScoreToCentipawns(evaluation.score.mate ?? 0, previousScore))
+      : previousScore;
+    scored.push({
+      ply: move.ply,
+      scoreBefore: previousScore,
+      scoreAfter: scoreCp,
+      evaluation,
+      ruleDriven: entry?.ruleDriven,
+      cooldownTurns: entry?.cooldownTurns,
+    });
+    previousScore = scoreCp;
+  }
+
+  return scored;
+}
+
+/** Only games from the standard initial position have a book opening. */
+function findOpening(moves: MoveInput[]): OpeningClassification | null {
+  const first = moves[0];
+  if (!first || first.ply !== 1 || !first.fenBefore.startsWith(START_BOARD)) {
+    return null;
   }
+  return classifyOpening(moves.map((move) => move.uci));
+}
+
+function classifyMoves(
+  moves: MoveInput[],
+  scored: ScoredMove[],
+  bookPlies: number,
+): MoveEvaluation[] {
+  return moves.map((move, index) => {
+    const score = scored[index];
+    const delta = score.scoreAfter - score.scoreBefore;
+    const classification = score.ruleDriven
+      ? "rule-driven"
+      : move.ply <= bookPlies
+        ? "book"
+        : classifyMove(delta, score, move.ply);
+    const ability = move.ability
+      ? {
+          ply: move.ply,
+          actionId: move.ability.actionId,
+          label: move.ability.label,
+          cooldownTurns: score.cooldownTurns ?? null,
+          swingCp: move.ply % 2 === 1 ? delta : -delta,
+        }
+      : undefined;
+
+    return {
+      ply: move.ply,
+      classification,
+      delta,
+      themes: detectThemes(move),
+      ability,
+      bestmove: score.evaluation.bestmove,
+      depth: score.evaluation.depth,
+      nodes: score.evaluation.nodes,
+      pv: score.evaluation.pv,
+      score: score.evaluation.score,
+      timeMs: score.evaluation.timeMs,
+    };
+  });
+}
+
+function isKeyMoment(move: MoveEvaluation): boolean {
+  return (
+    move.classification !== "rule-driven" &&
+    move.classification !== "book" &&
+    (Math.abs(move.delta) >= 200 || move.classification === "brilliant")
+  );
+}
+
+function buildReport(
+  moves: MoveInput[],
+  moveEvaluations: MoveEvaluation[],
+  variant: boolean,
+  opening: OpeningClassification | null,
+): CoachReport {
+  const keyMoments = moveEvaluations.filter(isKeyMoment);
+  const summary = buildSummaryMarkdown(moveEvaluations, keyMoments, opening);
+
+  const accuracy = computeAccuracy(moveEvaluations);
+  const stats = summariseMistakes(moveEvaluations);
+
+  return {
+    summary,
+    keyMoments,
+    accuracyWhite: accuracy.white,
+    accuracyBlack: accuracy.black,
+    blundersWhite: stats.blundersWhite,
+    blundersBlack: stats.blundersBlack,
+    inaccuraciesWhite: stats.inaccuraciesWhite,
+    inaccuraciesBlack: stats.inaccuraciesBlack,
+    variant,
+    ruleDrivenMoves: moveEvaluations.filter(
+      (move) => move.classification === "rule-driven",
+    ).length,
+    abilityUsage: moveEvaluations.flatMap((move) =>
+      move.ability ? [move.ability] : [],
+    ),
+    opening,
+    puzzles: variant ? [] : minePuzzles(moves, moveEvaluations),
+  };
 }
 
 function classifyMove(
@@ -246,10 +471,6 @@ function classifyMove(
     return "brilliant";
   }
 
-  if (Math.abs(scoreBefore) <= 20 && absDelta <= 20 && ply <= 20) {
-    return "book";
-  }
-
   if (delta > 80) {
     return "brilliant";
   }
@@ -287,36 +508,24 @@ function detectThemes(move: MoveInput): string[] {
   return [...new Set(selected)];
 }
 
-function buildExplanationPrompt({
-  move,
-  delta,
-  classification,
-  themes,
-  evaluation,
-}: {
-  readonly move: MoveInput;
-  readonly delta: number;
-  readonly classification: MoveQuality;
-  readonly themes: string[];
-  readonly evaluation: EngineEvaluation;
-}): string {
-  return JSON.stringify(
-    {
-      role: "coach-explanation",
-      fenBefore: move.fenBefore,
-      fenAfter: move.fenAfter,
-      san: move.san,
-      uci: move.uci,
-      bestmove: evaluation.bestmove,
-      delta,
-      classification,
-      depth: evaluation.depth,
-      pv: evaluation.pv,
-      themes,
-    },
-    null,
-    2,
-  );
+function buildExplanationRequest(
+  move: MoveInput,
+  moment: MoveEvaluation,
+): Record<string, unknown> {
+  return {
+    ply: move.ply,
+    fenBefore: move.fenBefore,
+    fenAfter: move.fenAfter,
+    san: move.san,
+    uci: move.uci,
+    bestmove: moment.bestmove,
+    delta: moment.delta,
+    classification: moment.classification,
+    depth: moment.depth,
+    pv: moment.pv,
+    themes: moment.themes,
+    ability: move.ability?.label ?? null,
+  };
 }
 
 function validateExplanation(payload: unknown): CoachExplanation {
@@ -354,6 +563,12 @@ function computeAccuracy(moves: MoveEvaluation[]): {
   let blackPenalty = 0;
 
   for (const move of moves) {
+    if (
+      move.classification === "rule-driven" ||
+      move.classification === "book"
+    ) {
+      continue;
+    }
     const penalty = Math.max(0, Math.abs(move.delta));
     if (move.ply % 2 === 1) {
       whitePenalty += penalty;
@@ -405,11 +620,17 @@ function summariseMistakes(moves: MoveEvaluation[]): {
 function buildSummaryMarkdown(
   moves: MoveEvaluation[],
   keyMoments: MoveEvaluation[],
+  opening: OpeningClassification | null,
 ): string {
   const lines: string[] = [];
   lines.push("# Post-game report");
   lines.push("");
   lines.push(`Total moves analysed: ${moves.length}`);
+  if (opening) {
+    lines.push(
+      `Opening: ${opening.eco} ${opening.name} (book for ${opening.bookPlies} plies)`,
+    );
+  }
   lines.push("");
   lines.push("## Key moments");
   for (const moment of keyMoments.slice(0, 5)) {
@@ -417,6 +638,23 @@ function buildSummaryMarkdown(
       `- Ply ${moment.ply}: ${moment.classification} (Δ ${moment.delta} cp)`,
     );
   }
+  const ruleDriven = moves.filter(
+    (move) => move.classification === "rule-driven",
+  ).length;
+  if (ruleDriven > 0) {
+    lines.push("");
+    lines.push(`Rule-driven moves not judged by the engine: ${ruleDriven}`);
+  }
+  const abilities = moves.flatMap((move) =>
+    move.ability ? [move.ability] : [],
+  );
+  if (abilities.length > 0) {
+    lines.push("");
+    lines.push("## Abilities");
+    for (const usage of abilities) {
+      lines.push(`- ${describeAbilityUsage(usage)}`);
+    }
+  }
   lines.push("");
   lines.push("## Highlights");
   lines.push("- Maintain initiative when advantage exceeds +150 cp.");
@@ -425,6 +663,19 @@ function buildSummaryMarkdown(
   return lines.join("\n");
 }
 
+/** "Ply 7: White fired Freeze with 2 turns left on cooldown; it cost 180 cp." */
+export function describeAbilityUsage(usage: AbilityUsage): string {
+  const side = usage.ply % 2 === 1 ? "White" : "Black";
+  let text = `Ply ${usage.ply}: ${side} fired ${usage.label}`;
+  if (usage.cooldownTurns && usage.cooldownTurns > 0) {
+    text += ` with ${usage.cooldownTurns} turn${usage.cooldownTurns > 1 ? "s" : ""} left on cooldown`;
+  }
+  if (Math.abs(usage.swingCp) >= 50) {
+    text += `; it ${usage.swingCp > 0 ? "gained" : "cost"} ${Math.abs(usage.swingCp)} cp`;
+  }
+  return `${text}.`;
+}
+
 function convertMateScoreToCentipawns(mate: number, fallback: number): number {
   if (mate === 0) {
     return fallback;
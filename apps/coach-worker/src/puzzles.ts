@@ -0,0 +1,161 @@
+import type { MoveEvaluation, MoveInput } from "./pipeline";
+
+/** The position before a costly move, solved by the engine's preferred move. */
+export interface PuzzleCandidate {
+  readonly ply: number;
+  /** Side to move in `fen`, i.e. the side that went wrong. */
+  readonly side: "white" | "black";
+  readonly fen: string;
+  /** Engine line from `fen`; the puzzle asks for its first move. */
+  readonly solution: string[];
+  readonly playedMove: string;
+  /** What the played move cost its side, in centipawns (negative). */
+  readonly swingCp: number;
+  readonly themes: string[];
+  readonly rating: number;
+}
+
+/** Where mined puzzles go once a report is done, keyed by the game's owner. */
+export interface PersonalPuzzleStore {
+  save(
+    ownerId: string,
+    gameId: string,
+    puzzles: readonly PuzzleCandidate[],
+  ): Promise<void>;
+}
+
+/** Minimal slice of a service-role Supabase client. */
+export interface PuzzleRpcClient {
+  rpc(
+    name: string,
+    args: Record<string, unknown>,
+  ): PromiseLike<{ error: { message: string } | null }>;
+}
+
+/** Smallest loss, for the side that moved, worth turning into a puzzle. */
+export const PUZZLE_MIN_SWING_CP = 200;
+
+const UCI_MOVE = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+
+/** Plies of the engine line kept with a puzzle. */
+const SOLUTION_PLIES = 5;
+
+/**
+ * Finds the plies where the mover lost at least `PUZZLE_MIN_SWING_CP` while
+ * the engine, looking at the position before, had a different move in mind.
+ * Book and rule-driven plies are skipped, and so is a ply whose previous
+ * position was never scored: there is no best move to ask for.
+ */
+export function minePuzzles(
+  moves: MoveInput[],
+  evaluations: MoveEvaluation[],
+): PuzzleCandidate[] {
+  const candidates: PuzzleCandidate[] = [];
+
+  moves.forEach((move, index) => {
+    const evaluation = evaluations[index];
+    const previous = evaluations[index - 1];
+    if (
+      !evaluation ||
+      !previous ||
+      evaluation.classification === "book" ||
+      evaluation.classification === "rule-driven" ||
+      previous.classification === "rule-driven"
+    ) {
+      return;
+    }
+
+    const isWhiteMove = move.ply % 2 === 1;
+    const swingCp = isWhiteMove ? evaluation.delta : -evaluation.delta;
+    const solution = previous.pv.length > 0 ? previous.pv : [previous.bestmove];
+    if (
+      swingCp > -PUZZLE_MIN_SWING_CP ||
+      !UCI_MOVE.test(solution[0]) ||
+      solution[0] === move.uci
+    ) {
+      return;
+    }
+
+    const themes = [
+      swingCp <= -300 ? "blunder" : "mistake",
+      ...evaluation.themes,
+    ];
+    const mate = previous.score.mate;
+    if (mate !== undefined && mate !== 0 && mate > 0 === isWhiteMove) {
+      themes.push(`mateIn${Math.abs(mate)}`);
+    }
+
+    candidates.push({
+      ply: move.ply,
+      side: isWhiteMove ? "white" : "black",
+      fen: move.fenBefore,
+      solution: solution.slice(0, SOLUTION_PLIES),
+      playedMove: move.uci,
+      swingCp,
+      themes: [...new Set(themes)],
+      // Bigger swings are easier to spot.
+      rating: Math.round(Math.min(1800, Math.max(800, 1800 + swingCp / 2))),
+    });
+  });
+
+  return candidates;
+}
+
+/** Keeps puzzles in process memory, per owner. */
+export class InMemoryPersonalPuzzleStore implements PersonalPuzzleStore {
+  private readonly puzzles = new Map<string, PuzzleCandidate[]>();
+
+  public async save(
+    ownerId: string,
+    _gameId: string,
+    puzzles: readonly PuzzleCandidate[],
+  ): Promise<void> {
+    const stored = this.puzzles.get(ownerId) ?? [];
+    const known = new Set(stored.map((puzzle) => puzzle.fen));
+    this.puzzles.set(ownerId, [
+      ...stored,
+      ...puzzles.filter((puzzle) => !known.has(puzzle.fen)),
+    ]);
+  }
+
+  public list(ownerId: string): PuzzleCandidate[] {
+    return this.puzzles.get(ownerId) ?? [];
+  }
+}
+
+/**
+ * Stores puzzles through `record_personal_chess_puzzles_server`, next to the
+ * daily set. The client must use the service role: the rows hold solutions.
+ */
+export class SupabasePersonalPuzzleStore implements PersonalPuzzleStore {
+  public constructor(private readonly client: PuzzleRpcClient) {}
+
+  public async save(
+    ownerId: string,
+    gameId: string,
+    puzzles: readonly PuzzleCandidate[],
+  ): Promise<void> {
+    if (puzzles.length === 0) {
+      return;
+    }
+    const { error } = await this.client.rpc(
+      "record_personal_chess_puzzles_server",
+      {
+        p_user_id: ownerId,
+        p_source_game_id: gameId,
+        p_puzzles: puzzles.map((puzzle) => ({
+          ply: puzzle.ply,
+          fen: puzzle.fen,
+          solution_moves: [puzzle.solution[0]],
+          played_move: puzzle.playedMove,
+          swing_cp: puzzle.swingCp,
+          themes: puzzle.themes,
+          rating: puzzle.rating,
+        })),
+      },
+    );
+    if (error) {
+      throw new Error(`Unable to store personal puzzles: ${error.message}`);
+    }
+  }
+}
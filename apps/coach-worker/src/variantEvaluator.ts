@@ -0,0 +1,199 @@
+import type { EngineEvaluation } from "packages/engine";
+import type { RuleJSON } from "@/engine/types";
+import {
+  chooseAiTurn,
+  DEFAULT_AI_TIME_BUDGET_MS,
+  MATE_SCORE,
+  MATE_THRESHOLD,
+  MAX_AI_SEARCH_DEPTH,
+} from "@/lib/aiOpponent";
+import { ChessEngine } from "@/lib/chessEngine";
+import {
+  parseExtendedPosition,
+  type ExtendedPosition,
+} from "@/lib/extendedFen";
+import { applyMoveToGameState } from "@/lib/gameMoveState";
+import type { ChessRule, GameState, PieceType, Position } from "@/types/chess";
+import type { MoveInput } from "./pipeline";
+
+/** Rules a Rule Architect game was played with; its positions are extended FEN. */
+export interface VariantGameContext {
+  readonly rules: RuleJSON[];
+  /** Move rules `ChessEngine` applies while generating moves. */
+  readonly activeRules?: ChessRule[];
+  readonly matchSeed?: string;
+}
+
+export interface VariantSearchOptions {
+  readonly depth: number;
+  readonly timeBudgetMs?: number;
+  /** Clock override, for deterministic tests. */
+  readonly now?: () => number;
+}
+
+export interface VariantMoveAssessment {
+  /** White-perspective evaluation after the move, null when the position is unreadable. */
+  readonly evaluation: EngineEvaluation | null;
+  /** The rules, not the board move alone, produced the position. */
+  readonly ruleDriven: boolean;
+  /** Turns left on the cooldown of the ability fired on this ply. */
+  readonly cooldownTurns: number | null;
+}
+
+/** A side already mated; matches the pipeline's mate conversion. */
+const MATED_CP = 10000;
+
+const PROMOTIONS: Record<string, PieceType> = {
+  q: "queen",
+  r: "rook",
+  b: "bishop",
+  n: "knight",
+};
+
+const parseSquare = (square: string): Position | null =>
+  /^[a-h][1-8]$/.test(square)
+    ? { row: 8 - Number(square[1]), col: square.charCodeAt(0) - 97 }
+    : null;
+
+const toSquare = (position: Position): string =>
+  `${String.fromCharCode(97 + position.col)}${8 - position.row}`;
+
+const readPosition = (
+  text: string,
+  game: VariantGameContext,
+): ExtendedPosition | null => {
+  try {
+    return parseExtendedPosition(text, game.activeRules ?? []);
+  } catch {
+    return null;
+  }
+};
+
+/** Whether the board move alone, with no rule effect, leads to `after`. */
+const replaysWithoutRules = (
+  before: GameState,
+  uci: string,
+  after: GameState,
+): boolean => {
+  const from = parseSquare(uci.slice(0, 2));
+  const to = parseSquare(uci.slice(2, 4));
+  if (!from || !to) return false;
+  const piece = ChessEngine.getPieceAt(before.board, from);
+  if (!piece) return false;
+  const applied = applyMoveToGameState(
+    before,
+    piece,
+    to,
+    undefined,
+    PROMOTIONS[uci.charAt(4)],
+  );
+  return (
+    applied !== null &&
+    ChessEngine.getBoardSignature(applied.state.board) ===
+      ChessEngine.getBoardSignature(after.board)
+  );
+};
+
+/** Cooldown entries are keyed `pieceId|actionId`; the longest one wins. */
+const cooldownTurnsFor = (
+  position: ExtendedPosition,
+  actionId: string,
+): number | null => {
+  if (!position.engine) return null;
+  let entries: unknown;
+  try {
+    entries = JSON.parse(position.engine.cooldowns);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(entries)) return null;
+  let turns: number | null = null;
+  for (const entry of entries) {
+    if (!Array.isArray(entry) || typeof entry[0] !== "string") continue;
+    if (!entry[0].endsWith(`|${actionId}`)) continue;
+    const value = Number(entry[1]);
+    if (Number.isFinite(value) && value > (turns ?? 0)) turns = value;
+  }
+  return turns;
+};
+
+const evaluatePosition = (
+  position: ExtendedPosition,
+  game: VariantGameContext,
+  options: VariantSearchOptions,
+): EngineEvaluation => {
+  const now = options.now ?? Date.now;
+  const startedAt = now();
+  const { state } = position;
+  const depth = Math.max(1, Math.min(options.depth, MAX_AI_SEARCH_DEPTH));
+  const choice = chooseAiTurn(state, depth, 1, {
+    timeBudgetMs: options.timeBudgetMs ?? DEFAULT_AI_TIME_BUDGET_MS,
+    now,
+    ruleContext:
+      game.rules.length > 0
+        ? {
+            rules: game.rules,
+            engineState: position.engine,
+            matchSeed: game.matchSeed,
+          }
+        : null,
+  });
+
+  const moverScore =
+    choice?.score ?? (state.gameStatus === "checkmate" ? -MATE_SCORE : 0);
+  const whiteScore = state.currentPlayer === "white" ? moverScore : -moverScore;
+  const sign = whiteScore < 0 ? -1 : 1;
+  const matePlies = MATE_SCORE - Math.abs(whiteScore);
+  const score =
+    Math.abs(whiteScore) < MATE_THRESHOLD
+      ? { cp: Math.round(whiteScore) }
+      : matePlies === 0
+        ? { cp: sign * MATED_CP }
+        : { mate: sign * Math.ceil(matePlies / 2) };
+
+  const bestmove = !choice
+    ? "0000"
+    : "piece" in choice
+      ? `${toSquare(choice.piece.position)}${toSquare(choice.to)}`
+      : choice.action.actionId;
+
+  return {
+    depth,
+    pv: choice ? [bestmove] : [],
+    bestmove,
+    score,
+    nodes: 0,
+    timeMs: Math.max(0, now() - startedAt),
+  };
+};
+
+/**
+ * Scores the position after `move` with the rule-aware searcher used by the
+ * AI opponent. A ply counts as rule-driven when an ability was fired or when
+ * the board move alone does not reproduce the recorded position (teleports,
+ * traps, extra moves): the searcher cannot tell whether that was a good idea.
+ */
+export function assessVariantMove(
+  move: MoveInput,
+  game: VariantGameContext,
+  options: VariantSearchOptions,
+): VariantMoveAssessment {
+  const after = readPosition(move.fenAfter, game);
+  if (!after) {
+    return { evaluation: null, ruleDriven: true, cooldownTurns: null };
+  }
+
+  const before = readPosition(move.fenBefore, game);
+  const ruleDriven =
+    Boolean(move.ability) ||
+    !before ||
+    !replaysWithoutRules(before.state, move.uci, after.state);
+
+  return {
+    evaluation: evaluatePosition(after, game, options),
+    ruleDriven,
+    cooldownTurns: move.ability
+      ? cooldownTurnsFor(after, move.ability.actionId)
+      : null,
+  };
+}
@@ -4,6 +4,12 @@ import type {
   EngineEvaluation,
   EvaluateFenOptions,
 } from "packages/engine";
+import {
+  parseExtendedPosition,
+  serializeExtendedPosition,
+} from "@/lib/extendedFen";
+import type { LLMProvider } from "packages/llm";
+import { InMemoryCheckpointStore, type AnalysisProgress } from "../src/jobs";
 import { AnalysisPipeline, type MoveInput } from "../src/pipeline";
 
 class DeterministicEngine implements Engine {
@@ -69,4 +75,355 @@ describe("AnalysisPipeline", () => {
     expect(result.report.accuracyWhite).toBeGreaterThan(0);
     expect(result.report.keyMoments.length).toBeGreaterThanOrEqual(0);
   });
+
+  it("labels the opening and leaves book moves out of mistakes", async () => {
+    const pipeline = new AnalysisPipeline({
+      depth: 12,
+      multiPV: 1,
+      threads: 1,
+      hashMB: 16,
+      engineFactory: () => new DeterministicEngine(),
+    });
+
+    const ucis = ["e2e4", "c7c5", "g1f3", "d7d6", "h2h4"];
+    const moves: MoveInput[] = ucis.map((uci, index) => ({
+      ply: index + 1,
+      san: uci,
+      uci,
+      fenBefore: index === 0 ? START : `fen ${index}`,
+      fenAfter: index % 2 === 0 ? "fen b" : "fen w",
+    }));
+
+    const result = await pipeline.run(moves);
+    expect(result.report.opening).toEqual({
+      eco: "B50",
+      name: "Sicilian Defence: Modern Variations",
+      bookPlies: 4,
+    });
+    expect(result.moveEvaluations.map((move) => move.classification)).toEqual([
+      "book",
+      "book",
+      "book",
+      "book",
+      "mistake",
+    ]);
+    expect(result.report.keyMoments.map((move) => move.ply)).toEqual([5]);
+    expect(result.report.summary).toContain(
+      "Opening: B50 Sicilian Defence: Modern Variations",
+    );
+  });
+});
+
+class UnusedEngine implements Engine {
+  public async init(): Promise<void> {
+    throw new Error("Stockfish must not run for variant games");
+  }
+
+  public async evalFen(): Promise<EngineEvaluation> {
+    throw new Error("Stockfish must not run for variant games");
+  }
+
+  public async dispose(): Promise<void> {}
+}
+
+const START = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const AFTER_E4 = "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1";
+
+const createVariantPipeline = () =>
+  new AnalysisPipeline({
+    depth: 1,
+    multiPV: 1,
+    threads: 1,
+    hashMB: 16,
+    variantTimeBudgetMs: 50,
+    engineFactory: () => new UnusedEngine(),
+  });
+
+describe("AnalysisPipeline on variant games", () => {
+  it("scores extended positions with the rule-aware searcher", async () => {
+    const result = await createVariantPipeline().run(
+      [
+        {
+          ply: 1,
+          san: "e4",
+          uci: "e2e4",
+          fenBefore: START,
+          fenAfter: AFTER_E4,
+        },
+      ],
+      { rules: [] },
+    );
+
+    expect(result.moveEvaluations[0].classification).not.toBe("rule-driven");
+    expect(result.moveEvaluations[0].bestmove).toMatch(
+      /^[a-h][1-8][a-h][1-8]$/,
+    );
+    expect(result.report.variant).toBe(true);
+    expect(result.report.ruleDrivenMoves).toBe(0);
+  });
+
+  it("flags moves the rules reshaped and keeps them out of accuracy", async () => {
+    // The knight left g1 for f3 but a teleport rule dropped it on e5.
+    const teleported =
+      "rnbqkbnr/pppppppp/8/4N3/8/8/PPPPPPPP/RNBQKB1R b KQkq - 1 1";
+    const result = await createVariantPipeline().run(
+      [
+        {
+          ply: 1,
+          san: "Nf3",
+          uci: "g1f3",
+          fenBefore: START,
+          fenAfter: teleported,
+        },
+      ],
+      { rules: [] },
+    );
+
+    expect(result.moveEvaluations[0].classification).toBe("rule-driven");
+    expect(result.report.ruleDrivenMoves).toBe(1);
+    expect(result.report.keyMoments).toEqual([]);
+    expect(result.report.accuracyWhite).toBe(100);
+  });
+
+  it("explains ability usage with the cooldown left", async () => {
+    const fired = serializeExtendedPosition(
+      parseExtendedPosition(AFTER_E4).state,
+      {
+        rules: "{}",
+        cooldowns: JSON.stringify([["white-pawn-e4|freeze.fire", 2]]),
+      },
+    );
+    const result = await createVariantPipeline().run(
+      [
+        {
+          ply: 1,
+          san: "Freeze",
+          uci: "0000",
+          fenBefore: START,
+          fenAfter: fired,
+          ability: { actionId: "freeze.fire", label: "Freeze" },
+        },
+      ],
+      { rules: [] },
+    );
+
+    expect(result.moveEvaluations[0].classification).toBe("rule-driven");
+    expect(result.report.abilityUsage).toEqual([
+      expect.objectContaining({
+        ply: 1,
+        actionId: "freeze.fire",
+        label: "Freeze",
+        cooldownTurns: 2,
+      }),
+    ]);
+    expect(result.report.summary).toContain(
+      "White fired Freeze with 2 turns left on cooldown",
+    );
+  });
+});
+
+class ScriptedEngine implements Engine {
+  public static inits = 0;
+  public static evaluated: string[] = [];
+
+  public constructor(
+    private readonly scores: Record<string, number>,
+    private readonly failOn?: string,
+  ) {}
+
+  public async init(): Promise<void> {
+    ScriptedEngine.inits += 1;
+  }
+
+  public async evalFen(fen: string): Promise<EngineEvaluation> {
+    if (fen === this.failOn) {
+      throw new Error("engine crashed");
+    }
+    ScriptedEngine.evaluated.push(fen);
+    return {
+      depth: 12,
+      pv: [],
+      bestmove: "0000",
+      score: { cp: this.scores[fen] ?? 0 },
+      nodes: 1,
+      timeMs: 1,
+    };
+  }
+
+  public async dispose(): Promise<void> {}
+}
+
+const scriptedMoves: MoveInput[] = [1, 2, 3, 4, 5, 6].map((ply) => ({
+  ply,
+  san: `m${ply}`,
+  uci: "0000",
+  fenBefore: `fen-${ply - 1}`,
+  fenAfter: `fen-${ply}`,
+}));
+// Plies 2 and 5 swing the evaluation by more than 200 cp.
+const scriptedScores = {
+  "fen-1": 20,
+  "fen-2": -300,
+  "fen-3": -280,
+  "fen-4": -260,
+  "fen-5": 200,
+  "fen-6": 210,
+};
+
+describe("AnalysisPipeline jobs", () => {
+  it("spreads plies over the engine pool and keeps them in game order", async () => {
+    ScriptedEngine.inits = 0;
+    ScriptedEngine.evaluated = [];
+    const pipeline = new AnalysisPipeline({
+      depth: 12,
+      multiPV: 1,
+      threads: 1,
+      hashMB: 16,
+      poolSize: 3,
+      engineFactory: () => new ScriptedEngine(scriptedScores),
+    });
+
+    const result = await pipeline.run(scriptedMoves);
+
+    expect(ScriptedEngine.inits).toBe(3);
+    expect(ScriptedEngine.evaluated).toHaveLength(6);
+    expect(result.moveEvaluations.map((move) => move.delta)).toEqual([
+      20, -320, 20, 20, 460, 10,
+    ]);
+  });
+
+  it("resumes a crashed job from its last checkpoint", async () => {
+    ScriptedEngine.evaluated = [];
+    const checkpoints = new InMemoryCheckpointStore();
+    const progress: AnalysisProgress[] = [];
+    const job = {
+      jobId: "game-1",
+      checkpoints,
+      onProgress: (value: AnalysisProgress) => progress.push(value),
+    };
+    const options = { depth: 12, multiPV: 1, threads: 1, hashMB: 16 };
+
+    await expect(
+      new AnalysisPipeline({
+        ...options,
+        engineFactory: () => new ScriptedEngine(scriptedScores, "fen-4"),
+      }).run(scriptedMoves, undefined, job),
+    ).rejects.toThrow("engine crashed");
+    expect(progress.at(-1)).toMatchObject({ scoredPlies: 3, totalPlies: 6 });
+
+    ScriptedEngine.evaluated = [];
+    const result = await new AnalysisPipeline({
+      ...options,
+      engineFactory: () => new ScriptedEngine(scriptedScores),
+    }).run(scriptedMoves, undefined, job);
+
+    expect(ScriptedEngine.evaluated).toEqual(["fen-4", "fen-5", "fen-6"]);
+    expect(result.moveEvaluations).toHaveLength(6);
+    expect(progress.at(-1)).toMatchObject({ phase: "done", scoredPlies: 6 });
+  });
+
+  it("explains only key moments, in batches", async () => {
+    const prompts: string[] = [];
+    const llmProvider = {
+      async complete({ prompt }: { prompt: string }) {
+        prompts.push(prompt);
+        const { moves } = JSON.parse(prompt) as {
+          moves: Array<{ ply: number }>;
+        };
+        return {
+          output: JSON.stringify(
+            moves.map(({ ply }) => ({
+              ply,
+              headline: `Ply ${ply}`,
+              why_bad_or_good: "",
+              what_to_learn: [],
+              best_line_explained: "",
+            })),
+          ),
+        };
+      },
+    } as unknown as LLMProvider;
+    const pipeline = new AnalysisPipeline({
+      depth: 12,
+      multiPV: 1,
+      threads: 1,
+      hashMB: 16,
+      explanationBatchSize: 4,
+      llmProvider,
+      engineFactory: () => new ScriptedEngine(scriptedScores),
+    });
+
+    const result = await pipeline.run(scriptedMoves);
+
+    expect(prompts).toHaveLength(1);
+    expect(
+      result.moveEvaluations
+        .filter((move) => move.explanation)
+        .map((move) => move.ply),
+    ).toEqual([2, 5]);
+    expect(result.moveEvaluations[1].explanation?.headline).toBe("Ply 2");
+  });
+});
+
+class LineEngine implements Engine {
+  public constructor(
+    private readonly lines: Record<string, { cp: number; pv: string[] }>,
+  ) {}
+
+  public async init(): Promise<void> {}
+
+  public async evalFen(fen: string): Promise<EngineEvaluation> {
+    const line = this.lines[fen] ?? { cp: 0, pv: [] };
+    return {
+      depth: 12,
+      pv: line.pv,
+      bestmove: line.pv[0] ?? "0000",
+      score: { cp: line.cp },
+      nodes: 1,
+      timeMs: 1,
+    };
+  }
+
+  public async dispose(): Promise<void> {}
+}
+
+describe("AnalysisPipeline puzzles", () => {
+  it("turns a costly move into a puzzle solved by the engine's move", async () => {
+    const pipeline = new AnalysisPipeline({
+      depth: 12,
+      multiPV: 1,
+      threads: 1,
+      hashMB: 16,
+      engineFactory: () =>
+        new LineEngine({
+          "fen-1": { cp: 30, pv: ["e7e5"] },
+          "fen-2": { cp: -20, pv: ["d2d4", "e5d4"] },
+          // White pushed h4 and dropped 380 cp; black's reply was fine.
+          "fen-3": { cp: -400, pv: ["d8h4"] },
+          "fen-4": { cp: -380, pv: [] },
+        }),
+    });
+    const moves = ["a2a3", "e7e5", "h2h4", "d8h4"].map((uci, index) => ({
+      ply: index + 1,
+      san: uci,
+      uci,
+      fenBefore: `fen-${index}`,
+      fenAfter: `fen-${index + 1}`,
+    }));
+
+    const result = await pipeline.run(moves);
+
+    expect(result.report.puzzles).toEqual([
+      {
+        ply: 3,
+        side: "white",
+        fen: "fen-2",
+        solution: ["d2d4", "e5d4"],
+        playedMove: "h2h4",
+        swingCp: -380,
+        themes: ["blunder"],
+        rating: 1610,
+      },
+    ]);
+  });
 });
@@ -8,14 +8,32 @@ export interface IngestGamePayload {
     readonly time_ms?: number;
   }>;
   readonly source?: string;
+  /** Side the owner played; only its mistakes become personal puzzles. */
+  readonly player_color?: "white" | "black";
 }
 
 export interface QueueAnalysisResponse {
   readonly ok: boolean;
 }
 
+export interface AnalysisProgressResponse {
+  readonly phase: "scoring" | "explaining" | "done";
+  readonly scoredPlies: number;
+  readonly totalPlies: number;
+  readonly explainedMoments: number;
+  readonly totalMoments: number;
+}
+
 export interface AnalysisStatusResponse {
   readonly status: "queued" | "running" | "done" | "error";
+  readonly progress?: AnalysisProgressResponse;
+  readonly error?: string;
+}
+
+export interface WaitForReportOptions {
+  readonly intervalMs?: number;
+  readonly onProgress?: (progress: AnalysisProgressResponse) => void;
+  readonly signal?: AbortSignal;
 }
 
 export interface CoachReportResponse {
@@ -83,6 +101,31 @@ export class CoachSdk {
     });
   }
 
+  /** Polls the job, forwarding its progress, until the report is ready. */
+  public async waitForReport(
+    gameId: string,
+    options: WaitForReportOptions = {},
+  ): Promise<CoachReportResponse> {
+    const intervalMs = options.intervalMs ?? 1200;
+
+    for (;;) {
+      options.signal?.throwIfAborted();
+      const status = await this.pollStatus(gameId);
+      if (status.progress) {
+        options.onProgress?.(status.progress);
+      }
+      if (status.status === "done") {
+        return this.getReport(gameId);
+      }
+      if (status.status === "error") {
+        throw new Error(
+          `Coach analysis failed: ${status.error ?? "unknown error"}`,
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  }
+
   private async request<T>(
     path: string,
     init: { method: string; body?: unknown },
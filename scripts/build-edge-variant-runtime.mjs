@@ -0,0 +1,55 @@
+import path from "node:path";
+import process from "node:process";
+import { build } from "vite";
+
+// The Edge validator must execute the exact RuleEngine shipped to browsers.
+// Rather than mirroring the engine by hand, this bundles the headless variant
+// runtime into one self-contained ES module that Deno imports as-is.
+const root = process.cwd();
+const outDir = path.join(root, "supabase", "functions", "_shared", "generated");
+
+// Each entry is built on its own: `inlineDynamicImports` needs a single input.
+const entries = [
+  ["variant-runtime", "variant-runtime.ts"],
+  ["variant-self-play", "variant-self-play.ts"],
+];
+
+for (const [name, source] of entries) {
+  await build({
+    root,
+    configFile: false,
+    logLevel: "warn",
+    mode: "production",
+    define: {
+      "import.meta.env.MODE": JSON.stringify("production"),
+      "import.meta.env.DEV": "false",
+      "import.meta.env.PROD": "true",
+    },
+    resolve: {
+      alias: {
+        "@": path.join(root, "src"),
+      },
+    },
+    build: {
+      outDir,
+      emptyOutDir: false,
+      minify: false,
+      sourcemap: false,
+      target: "es2022",
+      copyPublicDir: false,
+      reportCompressedSize: false,
+      lib: {
+        entry: path.join(root, "src", "features", "multiplayer", source),
+        formats: ["es"],
+        fileName: () => `${name}.js`,
+      },
+      rollupOptions: {
+        output: { inlineDynamicImports: true },
+      },
+    },
+  });
+
+  console.log(
+    `Runtime variante Edge générée: ${path.relative(root, path.join(outDir, `${name}.js`))}`,
+  );
+}
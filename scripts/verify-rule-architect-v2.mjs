@@ -17,6 +17,8 @@ const names = [
   "catalog.ts",
   "schema.ts",
   "compiler.ts",
+  "composition.ts",
+  "diff.ts",
   "hash.ts",
   "deterministic-rng.ts",
   "runtime-budget.ts",
@@ -177,6 +179,7 @@ const requiredRuntimeFiles = [
   "src/engine/registry.ts",
   "src/engine/builtins/conditions.ts",
   "src/hooks/useRuleEngine.ts",
+  "src/features/multiplayer/variant-runtime.ts",
   "src/pages/RuleArchitect.tsx",
   "src/pages/RuleLobby.tsx",
   "supabase/functions/compile-chess-rule/index.ts",
@@ -185,8 +188,11 @@ const requiredRuntimeFiles = [
   "supabase/functions/_shared/rule-blueprint-repair.ts",
   "supabase/functions/publish-rule-version/index.ts",
   "supabase/functions/create-rule-lobby-v2/index.ts",
+  "supabase/functions/upgrade-rule-lobby-v2/index.ts",
   "supabase/functions/join-rule-lobby-v2/index.ts",
   "supabase/functions/integration-health/index.ts",
+  "supabase/functions/process-chess-move/variant-engine.ts",
+  "scripts/build-edge-variant-runtime.mjs",
   "supabase/migrations/20260719230000_rule_architect_v2.sql",
   "supabase/migrations/20260722120000_rule_version_coverage_gate.sql",
   "supabase/migrations/20260722130000_harden_rule_version_coverage_gate.sql",
@@ -194,13 +200,16 @@ const requiredRuntimeFiles = [
   "supabase/migrations/20260722150000_secure_api_registry_for_integration_health.sql",
   "supabase/migrations/20260722160000_legacy_guidance_compat_sessions.sql",
   "supabase/migrations/20260722161000_harden_legacy_guidance_compat_session_grants.sql",
+  "supabase/migrations/20260723120000_variant_move_validation.sql",
   "supabase/rollbacks/20260722140000_fail_closed_custom_pvp_runtime.down.sql",
   "supabase/rollbacks/20260722150000_secure_api_registry_for_integration_health.down.sql",
   "supabase/rollbacks/20260722160000_legacy_guidance_compat_sessions.down.sql",
   "supabase/rollbacks/20260722161000_harden_legacy_guidance_compat_session_grants.down.sql",
+  "supabase/rollbacks/20260723120000_variant_move_validation.down.sql",
   "supabase/tests/api_registry_integration_health.sql",
   "supabase/tests/rule_version_coverage_gate.sql",
   "supabase/tests/legacy_guidance_compat_sessions.sql",
+  "supabase/tests/variant_move_validation.sql",
 ];
 
 for (const relative of requiredRuntimeFiles) {
@@ -41,6 +41,7 @@ const router = createBrowserRouter(
         { path: "/play", element: <Play /> },
         { path: "/play/:matchId", element: <Play /> },
         { path: "/match/:matchId", element: <MultiplayerMatch /> },
+        { path: "/watch/:matchId", element: <MultiplayerMatch spectate /> },
         { path: "/leaderboard", element: <Leaderboard /> },
         { path: "/signup", element: <SignUp /> },
         { path: "/profile", element: <Profile /> },
@@ -1,6 +1,8 @@
 import type { CSSProperties } from 'react';
 import { ChessPiece, Position, VisualEffect, SpecialAttackInstance, PieceColor, ChessMove } from '@/types/chess';
 import { cn } from '@/lib/utils';
+import FairyPieceGlyph from '@/components/FairyPieceGlyph';
+import { STANDARD_BOARD_GEOMETRY, boardPositionToTile, isBoardHole, type BoardGeometry } from '@/rules-v2/board-geometry';
 
 type MaybeMove =
   | Position
@@ -43,6 +45,8 @@ interface ChessBoardProps {
   currentPlayer?: PieceColor;
   readOnly?: boolean;
   highlightSquares?: Position[];
+  /** Dimensions et cases trouées ; le plateau standard 8×8 par défaut. */
+  geometry?: BoardGeometry;
 }
 
 const pieceSymbols: Record<ChessPiece['type'], { white: string; black: string }> = {
@@ -51,7 +55,8 @@ const pieceSymbols: Record<ChessPiece['type'], { white: string; black: string }>
   rook: { white: '♖', black: '♜' },
   bishop: { white: '♗', black: '♝' },
   knight: { white: '♘', black: '♞' },
-  pawn: { white: '♙', black: '♟' }
+  pawn: { white: '♙', black: '♟' },
+  fairy: { white: '✦', black: '✦' }
 };
 
 const pieceGradients: Record<ChessPiece['color'], string> = {
@@ -70,9 +75,10 @@ const ChessBoard = ({
   currentPlayer,
   readOnly = false,
   highlightSquares = [],
+  geometry = STANDARD_BOARD_GEOMETRY,
 }: ChessBoardProps) => {
-  // Protection : si board est undefined, on utilise un plateau vide 8x8
-  const safeBoard = board || Array.from({ length: 8 }, () => Array(8).fill(null));
+  // Protection : si board est undefined, on utilise un plateau vide aux dimensions attendues
+  const safeBoard = board || Array.from({ length: geometry.ranks }, () => Array(geometry.files).fill(null));
 
   const isValidMove = (row: number, col: number) =>
     (validMoves ?? []).some(m => samePos(getMovePos(m), { row, col }));
@@ -88,15 +94,23 @@ const ChessBoard = ({
   return (
     <div className="relative flex w-full justify-center">
       <div
-        className="relative mx-auto aspect-square w-full max-w-[min(92vw,520px)] sm:max-w-[min(85vw,560px)] lg:max-w-[520px]"
+        className="relative mx-auto w-full max-w-[min(92vw,520px)] sm:max-w-[min(85vw,560px)] lg:max-w-[520px]"
+        style={{ aspectRatio: `${geometry.files} / ${geometry.ranks}` }}
       >
         <div className="pointer-events-none absolute inset-0 rounded-[32px] bg-[conic-gradient(at_top,_rgba(34,211,238,0.55),rgba(236,72,153,0.4),rgba(129,140,248,0.45),rgba(34,211,238,0.55))] blur-3xl opacity-70 animate-neonPulse" />
         <div className="relative h-full w-full overflow-hidden rounded-[28px] border border-white/10 bg-[radial-gradient(circle_at_top,_rgba(14,165,233,0.18),rgba(2,6,23,0.92))] shadow-[0_24px_60px_-25px_rgba(236,72,153,0.55)]">
           <div className="pointer-events-none absolute inset-0 bg-gradient-to-br from-cyan-500/10 via-transparent to-fuchsia-500/10" />
           <div className="pointer-events-none absolute inset-0 -translate-x-full bg-white/10 mix-blend-screen animate-neonShimmer" />
-          <div className="relative grid h-full w-full grid-cols-8 gap-[2px] p-3 sm:p-4">
+          <div
+            className="relative grid h-full w-full gap-[2px] p-3 sm:p-4"
+            style={{ gridTemplateColumns: `repeat(${geometry.files}, minmax(0, 1fr))` }}
+          >
             {safeBoard.map((row, rowIndex) =>
               row.map((piece, colIndex) => {
+                if (isBoardHole({ row: rowIndex, col: colIndex }, geometry)) {
+                  return <div key={`${rowIndex}-${colIndex}`} aria-hidden="true" className="aspect-square" />;
+                }
+
                 const isLight = (rowIndex + colIndex) % 2 === 0;
                 const selectedSq = isSelected(rowIndex, colIndex);
                 const validSq = isValidMove(rowIndex, colIndex);
@@ -120,7 +134,7 @@ const ChessBoard = ({
                   <button
                     type="button"
                     key={`${rowIndex}-${colIndex}`}
-                    data-chess-cell={`${String.fromCharCode(97 + colIndex)}${8 - rowIndex}`}
+                    data-chess-cell={boardPositionToTile({ row: rowIndex, col: colIndex }, geometry)}
                     onClick={readOnly ? undefined : handleClick}
                     aria-disabled={readOnly}
                     className={cn(
@@ -204,7 +218,15 @@ const ChessBoard = ({
                             'drop-shadow-[0_0_18px_rgba(34,211,238,0.8)] group-hover:drop-shadow-[0_0_24px_rgba(236,72,153,0.75)]'
                           )}
                         >
-                          {pieceSymbols[piece.type][piece.color]}
+                          {piece.fairy ? (
+                            <FairyPieceGlyph
+                              definition={piece.fairy}
+                              color={piece.color}
+                              className={piece.color === 'white' ? 'text-cyan-300' : 'text-rose-400'}
+                            />
+                          ) : (
+                            pieceSymbols[piece.type][piece.color]
+                          )}
                         </span>
                         <span
                           className={cn(
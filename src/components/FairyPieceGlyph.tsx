@@ -0,0 +1,98 @@
+import { useMemo } from "react";
+import type { PieceColor } from "@/types/chess";
+import {
+  fairyReachPreview,
+  type FairyPieceDefinition,
+} from "@/rules-v2/fairy-pieces";
+import { cn } from "@/lib/utils";
+
+const REACH_RADIUS = 2;
+const CELL = 16;
+const CENTER = 50;
+
+interface FairyPieceGlyphProps {
+  definition: FairyPieceDefinition;
+  color: PieceColor;
+  className?: string;
+}
+
+/**
+ * Generated glyph for a piece declared by a rule: its letter over a small
+ * diagram of the squares it reaches. Filled dots move and capture, squares
+ * only move, rings only capture; faded marks need a piece to hop over.
+ */
+const FairyPieceGlyph = ({
+  definition,
+  color,
+  className,
+}: FairyPieceGlyphProps) => {
+  const marks = useMemo(
+    () => fairyReachPreview(definition.betza, REACH_RADIUS),
+    [definition.betza],
+  );
+  // Black moves down the board, so its diagram is flipped like its pieces.
+  const forwardSign = color === "white" ? -1 : 1;
+
+  return (
+    <svg
+      viewBox="0 0 100 100"
+      role="img"
+      aria-label={definition.name}
+      className={cn("h-[1em] w-[1em]", className)}
+    >
+      <title>{`${definition.name} (${definition.betza})`}</title>
+      {marks.map((mark) => {
+        const x = CENTER + mark.sideways * CELL;
+        const y = CENTER + forwardSign * mark.forward * CELL;
+        const opacity = mark.hop ? 0.45 : 0.9;
+        const key = `${mark.forward},${mark.sideways}`;
+        if (mark.mode === "move") {
+          return (
+            <rect
+              key={key}
+              x={x - 3.5}
+              y={y - 3.5}
+              width={7}
+              height={7}
+              fill="currentColor"
+              opacity={opacity}
+            />
+          );
+        }
+        return (
+          <circle
+            key={key}
+            cx={x}
+            cy={y}
+            r={4}
+            fill={mark.mode === "capture" ? "none" : "currentColor"}
+            stroke="currentColor"
+            strokeWidth={mark.mode === "capture" ? 2 : 0}
+            opacity={opacity}
+          />
+        );
+      })}
+      <circle
+        cx={CENTER}
+        cy={CENTER}
+        r={13}
+        fill={color === "white" ? "#f8fafc" : "#1e1b4b"}
+        stroke="currentColor"
+        strokeWidth={2.5}
+      />
+      <text
+        x={CENTER}
+        y={CENTER}
+        textAnchor="middle"
+        dominantBaseline="central"
+        fontSize={18}
+        fontWeight={900}
+        fill={color === "white" ? "#0f172a" : "#fde68a"}
+      >
+        {definition.glyph}
+      </text>
+    </svg>
+  );
+};
+
+export default FairyPieceGlyph;
@@ -286,6 +286,22 @@ function versionedRule(
   } as RuleJSON;
 }
 
+function listeningRule(
+  ruleId: string,
+  listeners: Array<{ when: string; path: string; value: string }>,
+): RuleJSON {
+  return {
+    ...versionedRule(ruleId, []),
+    logic: {
+      effects: listeners.map(({ when, path, value }) => ({
+        id: `${path}-step`,
+        when,
+        do: [{ action: "state.set", params: { path, value } }],
+      })),
+    },
+  } as RuleJSON;
+}
+
 describe("Rule Architect V2 catalog contracts", () => {
   it("enregistre et exécute chaque condition exposée", () => {
     const registry = createRegistry();
@@ -794,6 +810,107 @@ describe("Rule Architect V2 catalog contracts", () => {
     expect(positionalEngine.getRules()).toHaveLength(0);
   });
 
+  it("émet capture, échec, menace, fin de tour et fin de partie avec leur contexte", () => {
+    const registry = createRegistry();
+    const { contracts, state } = createHarness();
+    const engine = new RuleEngine(contracts, registry, {
+      matchSeed: "events",
+    });
+    engine.loadRules([
+      listeningRule("events@v1", [
+        {
+          when: "lifecycle.onCapture",
+          path: "captured",
+          value: "$ctx.capturedType",
+        },
+        { when: "lifecycle.onCheck", path: "checked", value: "$pieceId" },
+        {
+          when: "lifecycle.onAttacked",
+          path: "attacker",
+          value: "$targetPieceId",
+        },
+        { when: "lifecycle.onTurnEnd", path: "ended", value: "$ctx.side" },
+        { when: "lifecycle.onGameEnd", path: "winner", value: "$ctx.side" },
+      ]),
+    ]);
+
+    engine.onMoveCommitted({ pieceId: "source", from: "a2", to: "a3" });
+    expect(state.getOrInit("rules.shared::events@v1", {})).toEqual({});
+
+    engine.onMoveCommitted({
+      pieceId: "source",
+      from: "a2",
+      to: "a3",
+      targetPieceId: "captured_1_a3",
+      capturedType: "bishop",
+    });
+    engine.onCheck("enemy");
+    engine.onAttacked("enemy", "source");
+    engine.onTurnEnd("black");
+    engine.onGameEnd("checkmate", "white");
+
+    expect(state.getOrInit("rules.shared::events@v1", {})).toEqual({
+      captured: "bishop",
+      checked: "enemy",
+      attacker: "source",
+      ended: "black",
+      winner: "white",
+    });
+  });
+
+  it("ignore les nouveaux événements sans pièce source ou hors portée", () => {
+    const registry = createRegistry();
+    const { contracts, state } = createHarness();
+    const rule = listeningRule("scoped@v1", [
+      { when: "lifecycle.onCheck", path: "checked", value: "$pieceId" },
+      { when: "lifecycle.onGameEnd", path: "winner", value: "$ctx.side" },
+    ]);
+    rule.scope = { affectedPieces: ["king"], sides: ["black"] };
+    const engine = new RuleEngine(contracts, registry);
+    engine.loadRules([rule]);
+
+    engine.onCheck("missing");
+    engine.onCheck("enemy");
+    engine.onGameEnd("checkmate", "white");
+    expect(state.getOrInit("rules.shared::scoped@v1", {})).toEqual({});
+
+    engine.onGameEnd("timeout", "black");
+    expect(state.getOrInit("rules.shared::scoped@v1", {})).toEqual({
+      winner: "black",
+    });
+  });
+
+  it("n'émet les nouveaux événements qu'aux règles qui les écoutent", () => {
+    const registry = createRegistry();
+    const { contracts, state } = createHarness();
+    // Legacy rules may still declare `always` steps.
+    const always: RuleJSON = {
+      ...listeningRule("always@v1", [
+        { when: "always", path: "runs", value: "$ctx.event" },
+      ]),
+      integration: undefined,
+    };
+    const engine = new RuleEngine(contracts, registry);
+    engine.loadRules([always]);
+
+    expect(engine.getRules()).toHaveLength(1);
+    expect(engine.hasListener("lifecycle.onTurnEnd")).toBe(false);
+    engine.onTurnEnd("white");
+    engine.onGameEnd("stalemate");
+    expect(state.getOrInit("rules.shared", {})).toEqual({});
+
+    engine.loadRules([
+      always,
+      listeningRule("listener@v1", [
+        { when: "lifecycle.onTurnEnd", path: "ended", value: "$ctx.side" },
+      ]),
+    ]);
+    engine.onTurnEnd("white");
+    expect(state.getOrInit("rules.shared", {})).toEqual({
+      runs: "lifecycle.onTurnEnd",
+    });
+  });
+
   it("refuse une règle V2 altérée avec un effet hors catalogue", () => {
     const registry = createRegistry();
     const { contracts } = createHarness();
@@ -0,0 +1,273 @@
+import { describe, expect, it, vi } from "vitest";
+import { RuleEngine } from "../engine";
+import { Registry } from "../registry";
+import { Cooldown } from "../cooldown";
+import { StateStore } from "../stateStore";
+import { captureTraceSnapshot, RuleTraceRecorder } from "../trace";
+import type { EngineContracts, LogicStep, RuleJSON } from "../types";
+
+function createContracts() {
+  const state = new StateStore();
+  const cooldown = new Cooldown();
+  const contracts = {
+    board: {
+      getPiece: (id: string) => ({
+        id,
+        type: "knight",
+        side: "white",
+        tile: "b1",
+        statuses: {},
+      }),
+      getPieceAt: () => null,
+      isEmpty: () => true,
+      withinBoard: () => true,
+      serialize: () => "{}",
+      deserialize: vi.fn(),
+    },
+    ui: {
+      registerAction: vi.fn(),
+      unregisterAction: vi.fn(),
+      toast: vi.fn(),
+    },
+    vfx: {},
+    match: {
+      endTurn: vi.fn(),
+      get: () => ({ ply: 3, turnSide: "white" }),
+    },
+    cooldown,
+    state,
+    eventBus: { on: vi.fn(), emit: vi.fn() },
+    util: { uuid: () => "00000000-0000-4000-8000-000000000001" },
+    capturePiece: vi.fn(),
+  } as unknown as EngineContracts;
+  return { contracts, state, cooldown };
+}
+
+function createRegistry(): Registry {
+  const registry = new Registry();
+  registry.registerCondition("always", () => true);
+  registry.registerCondition("piece.isType", (ctx, type) =>
+    Boolean(ctx.piece && ctx.piece.type === type),
+  );
+  registry.registerEffect("test.mark", (ctx, params) => {
+    ctx.state.marked = params?.pieceId ?? true;
+  });
+  registry.registerEffect("test.refuse", () => false);
+  registry.registerEffect("test.loop", (ctx) => {
+    for (let index = 0; index < 10; index += 1) {
+      ctx.budget?.charge();
+    }
+  });
+  return registry;
+}
+
+function rule(effects: LogicStep[]): RuleJSON {
+  return {
+    meta: {
+      ruleId: "trace-test@v1",
+      ruleName: "Trace test",
+      version: "2.0.0",
+      description: "Test",
+      category: "special",
+      priority: 1,
+      isActive: true,
+      tags: [],
+    },
+    scope: { affectedPieces: ["knight"], sides: ["white"] },
+    ui: { actions: [] },
+    state: {
+      namespace: "rules.trace-test",
+      schema: {},
+      initial: {},
+      serialize: true,
+    },
+    logic: { effects },
+  } as unknown as RuleJSON;
+}
+
+function tracedEngine(effects: LogicStep[], maxEffectsPerRuleEvent = 128) {
+  const { contracts, cooldown } = createContracts();
+  const recorder = new RuleTraceRecorder();
+  const engine = new RuleEngine(contracts, createRegistry(), {
+    matchSeed: "trace",
+    maxEffectsPerRuleEvent,
+  });
+  engine.loadRules([rule(effects)]);
+  engine.setTracer(recorder);
+  return { engine, recorder, cooldown, contracts };
+}
+
+describe("RuleEngine trace", () => {
+  it("décrit le déclencheur, les conditions niées et les effets résolus", () => {
+    const { engine, recorder } = tracedEngine([
+      {
+        id: "mark",
+        when: "lifecycle.onEnterTile",
+        if: ["and", "always", ["not", ["piece.isType", "pawn"]]],
+        do: { action: "test.mark", params: { pieceId: "$pieceId" } },
+      },
+    ]);
+
+    engine.onEnterTile("knight-b1", "c3");
+
+    const [event] = recorder.getEvents();
+    expect(event).toMatchObject({
+      event: "lifecycle.onEnterTile",
+      ply: 3,
+      turnSide: "white",
+      payload: { pieceId: "knight-b1", to: "c3" },
+    });
+    const [ruleTrace] = event.rules;
+    expect(ruleTrace.outcome).toBe("committed");
+    expect(ruleTrace.rollback).toBeNull();
+    expect(ruleTrace.budget).toEqual({ consumed: 5, limit: 128, maxDepth: 8 });
+
+    const [step] = ruleTrace.steps;
+    expect(step).toMatchObject({
+      stepId: "mark",
+      trigger: "event",
+      passed: true,
+    });
+    expect(step.conditions).toEqual([
+      {
+        op: "and",
+        negate: false,
+        args: [],
+        result: true,
+        children: [
+          { op: "always", negate: false, args: [], result: true, children: [] },
+          {
+            op: "piece.isType",
+            negate: true,
+            args: ["pawn"],
+            result: true,
+            children: [],
+          },
+        ],
+      },
+    ]);
+    expect(step.effects).toEqual([
+      {
+        action: "test.mark",
+        params: { pieceId: "knight-b1" },
+        succeeded: true,
+        budgetConsumed: 1,
+      },
+    ]);
+    expect(step.after.state["rules.trace-test"]).toEqual({
+      marked: "knight-b1",
+    });
+  });
+
+  it("indique la raison du rollback et l'état restauré", () => {
+    const { engine, recorder } = tracedEngine([
+      {
+        id: "mark-then-refuse",
+        when: "lifecycle.onEnterTile",
+        do: [{ action: "test.mark" }, { action: "test.refuse" }],
+        onFail: "blockAction",
+      },
+    ]);
+
+    engine.onEnterTile("knight-b1", "c3");
+
+    const [ruleTrace] = recorder.getEvents()[0].rules;
+    expect(ruleTrace.outcome).toBe("blocked");
+    expect(ruleTrace.rollback).toEqual({
+      reason: "effect-failed",
+      message: "test.refuse",
+      stepId: "mark-then-refuse",
+      restore: "restored",
+    });
+    expect(
+      ruleTrace.steps[0].effects.map((effect) => effect.succeeded),
+    ).toEqual([true, false]);
+    expect(ruleTrace.steps[0].after.state["rules.trace-test"]).toEqual({
+      marked: true,
+    });
+  });
+
+  it("signale un dépassement de budget", () => {
+    const { engine, recorder } = tracedEngine(
+      [
+        {
+          id: "loop",
+          when: "lifecycle.onEnterTile",
+          do: { action: "test.loop" },
+        },
+      ],
+      4,
+    );
+
+    engine.onEnterTile("knight-b1", "c3");
+
+    const [ruleTrace] = recorder.getEvents()[0].rules;
+    expect(ruleTrace.rollback?.reason).toBe("budget-exceeded");
+    expect(ruleTrace.budget.consumed).toBeGreaterThan(ruleTrace.budget.limit);
+  });
+
+  it("distingue les règles hors portée", () => {
+    const { engine, recorder } = tracedEngine([
+      {
+        id: "mark",
+        when: "lifecycle.onTurnStart",
+        do: { action: "test.mark" },
+      },
+    ]);
+
+    engine.onUndo();
+    engine.onTurnStart("black");
+
+    const [undo, turnStart] = recorder.getEvents();
+    expect(undo.rules[0].outcome).toBe("no-effect");
+    expect(turnStart.side).toBe("black");
+    expect(turnStart.rules[0].outcome).toBe("out-of-scope");
+  });
+
+  it("garde le résultat d'une action refusée avant évaluation", () => {
+    const { engine, recorder } = tracedEngine([]);
+
+    const result = engine.runUIAction("inconnue");
+
+    expect(recorder.getEvents()[0]).toMatchObject({
+      event: "ui.inconnue",
+      rules: [],
+      result,
+    });
+  });
+
+  it("n'enregistre rien sans traceur et borne l'historique", () => {
+    const { engine, recorder } = tracedEngine([]);
+    engine.setTracer(null);
+    engine.onUndo();
+    expect(recorder.getEvents()).toHaveLength(0);
+
+    const bounded = new RuleTraceRecorder(2);
+    const listener = vi.fn();
+    bounded.subscribe(listener);
+    engine.setTracer(bounded);
+    engine.onUndo();
+    engine.onUndo();
+    engine.onUndo();
+
+    expect(bounded.getEvents().map((event) => event.id)).toEqual([2, 3]);
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(bounded.toJSON()).toMatchObject({
+      version: 1,
+      events: [{ id: 2 }, { id: 3 }],
+    });
+  });
+});
+
+describe("captureTraceSnapshot", () => {
+  it("lit les espaces du StateStore et les recharges", () => {
+    const { state, cooldown } = createContracts();
+    state.getOrInit("rules.a", { charges: 2 });
+    cooldown.set("knight-b1", "rule.dash", 2);
+
+    expect(captureTraceSnapshot({ state, cooldown })).toEqual({
+      state: { "rules.a": { charges: 2 } },
+      cooldowns: [{ pieceId: "knight-b1", actionId: "rule.dash", turns: 2 }],
+    });
+  });
+});
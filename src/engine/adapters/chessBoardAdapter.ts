@@ -1,5 +1,13 @@
 import type { BoardAPI, Piece, PieceID, Side, SpriteId, Tile } from "../types";
 import type { ChessPiece, Position } from "@/types/chess";
+import {
+  STANDARD_BOARD_GEOMETRY,
+  boardPositionToTile,
+  boardTileToPosition,
+  isPlayableSquare,
+  type BoardGeometry,
+} from "@/rules-v2/board-geometry";
+import type { FairyPieceDefinition } from "@/rules-v2/fairy-pieces";
 
 type ChessPieceWithEngineId = ChessPiece & { __engineId?: PieceID };
 export type ChessBoardSnapshot = (ChessPiece | null)[][];
@@ -14,9 +22,15 @@ interface PieceEntry {
   position: Position;
 }
 
-const BOARD_SIZE = 8;
-const TILE_PATTERN = /^[a-h][1-8]$/;
 const PIECE_ID_PATTERN = /^piece_(\d+)$/;
+const ORTHODOX_PIECE_TYPES = new Set<string>([
+  "king",
+  "queen",
+  "rook",
+  "bishop",
+  "knight",
+  "pawn",
+]);
 
 const clonePosition = (position: Position): Position => ({
   row: position.row,
@@ -32,9 +46,12 @@ const clonePiece = (piece: ChessPieceWithEngineId): ChessPieceWithEngineId => ({
       : piece.specialState,
 });
 
-const cloneBoard = (board: ChessBoardSnapshot): ChessBoardSnapshot =>
-  Array.from({ length: BOARD_SIZE }, (_, rowIndex) =>
-    Array.from({ length: BOARD_SIZE }, (_, colIndex) => {
+const cloneBoard = (
+  board: ChessBoardSnapshot,
+  geometry: BoardGeometry,
+): ChessBoardSnapshot =>
+  Array.from({ length: geometry.ranks }, (_, rowIndex) =>
+    Array.from({ length: geometry.files }, (_, colIndex) => {
       const piece = board[rowIndex]?.[colIndex] ?? null;
       return piece ? clonePiece(piece as ChessPieceWithEngineId) : null;
     }),
@@ -43,18 +60,45 @@ const cloneBoard = (board: ChessBoardSnapshot): ChessBoardSnapshot =>
 /** Stable bridge between React state and the deterministic rule runtime. */
 export class ChessBoardAdapter implements BoardAPI {
   private board: ChessBoardSnapshot;
+  private geometry: BoardGeometry;
   private readonly pieceMap = new Map<PieceID, PieceEntry>();
   private readonly positionMap = new Map<Tile, PieceID>();
   private readonly decals = new Map<Tile, SpriteId>();
+  private readonly fairyPieces = new Map<string, FairyPieceDefinition>();
   private nextId = 1;
   private boardChangeListener?: BoardChangeListener;
   private decalChangeListener?: DecalChangeListener;
 
-  constructor(board: ChessBoardSnapshot) {
+  constructor(
+    board: ChessBoardSnapshot,
+    geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
+  ) {
     this.board = board;
+    this.geometry = geometry;
     this.rebuildPieceMap(board);
   }
 
+  getGeometry(): BoardGeometry {
+    return this.geometry;
+  }
+
+  /** Pieces the active rules declare, so effects can spawn them by id. */
+  setFairyPieces(definitions: readonly FairyPieceDefinition[]): void {
+    this.fairyPieces.clear();
+    for (const definition of definitions) {
+      this.fairyPieces.set(definition.id, definition);
+    }
+  }
+
+  private resolveFairyPiece(id: string): FairyPieceDefinition | undefined {
+    const declared = this.fairyPieces.get(id);
+    if (declared) return declared;
+    for (const entry of this.pieceMap.values()) {
+      if (entry.piece.fairy?.id === id) return entry.piece.fairy;
+    }
+    return undefined;
+  }
+
   setBoardChangeListener(listener?: BoardChangeListener): void {
     this.boardChangeListener = listener;
   }
@@ -68,7 +112,7 @@ export class ChessBoardAdapter implements BoardAPI {
   }
 
   private emitBoardChange(): void {
-    this.boardChangeListener?.(cloneBoard(this.board));
+    this.boardChangeListener?.(cloneBoard(this.board, this.geometry));
   }
 
   private generatePieceId(): PieceID {
@@ -102,8 +146,8 @@ export class ChessBoardAdapter implements BoardAPI {
     this.pieceMap.clear();
     this.positionMap.clear();
 
-    for (let row = 0; row < BOARD_SIZE; row += 1) {
-      for (let col = 0; col < BOARD_SIZE; col += 1) {
+    for (let row = 0; row < this.geometry.ranks; row += 1) {
+      for (let col = 0; col < this.geometry.files; col += 1) {
         const clonedPiece = this.board[row]?.[col] as
           | ChessPieceWithEngineId
           | null
@@ -124,31 +168,34 @@ export class ChessBoardAdapter implements BoardAPI {
   }
 
   private assertTile(tile: Tile): Position {
-    if (!TILE_PATTERN.test(String(tile))) {
+    if (!this.withinBoard(tile)) {
       throw new Error(`Invalid board tile: ${String(tile)}`);
     }
     return this.tileToPosition(tile);
   }
 
   private positionToTile(position: Position): Tile {
-    const file = String.fromCharCode(97 + position.col);
-    const rank = String(BOARD_SIZE - position.row);
-    return `${file}${rank}` as Tile;
+    return boardPositionToTile(position, this.geometry) as Tile;
   }
 
   tileToPosition(tile: Tile): Position {
-    if (!TILE_PATTERN.test(String(tile))) return { row: -1, col: -1 };
-    return {
-      row: BOARD_SIZE - Number(String(tile)[1]),
-      col: String(tile).charCodeAt(0) - 97,
-    };
+    return (
+      boardTileToPosition(String(tile), this.geometry) ?? { row: -1, col: -1 }
+    );
+  }
+
+  private get boardSpan(): number {
+    return Math.max(this.geometry.files, this.geometry.ranks);
   }
 
   getPiecesInRadius(center: Position, radius: number): PieceID[] {
-    const safeRadius = Math.max(0, Math.min(BOARD_SIZE, Math.floor(radius)));
+    const safeRadius = Math.max(
+      0,
+      Math.min(this.boardSpan, Math.floor(radius)),
+    );
     const result: PieceID[] = [];
-    for (let row = 0; row < BOARD_SIZE; row += 1) {
-      for (let col = 0; col < BOARD_SIZE; col += 1) {
+    for (let row = 0; row < this.geometry.ranks; row += 1) {
+      for (let col = 0; col < this.geometry.files; col += 1) {
         if (
           Math.max(Math.abs(row - center.row), Math.abs(col - center.col)) >
           safeRadius
@@ -164,16 +211,20 @@ export class ChessBoardAdapter implements BoardAPI {
 
   tiles(): Tile[] {
     const result: Tile[] = [];
-    for (let row = 0; row < BOARD_SIZE; row += 1) {
-      for (let col = 0; col < BOARD_SIZE; col += 1) {
-        result.push(this.positionToTile({ row, col }));
+    for (let row = 0; row < this.geometry.ranks; row += 1) {
+      for (let col = 0; col < this.geometry.files; col += 1) {
+        if (isPlayableSquare({ row, col }, this.geometry)) {
+          result.push(this.positionToTile({ row, col }));
+        }
       }
     }
     return result;
   }
 
+  /** Holes are outside the board: no piece, decal or target may use them. */
   withinBoard(tile: Tile): boolean {
-    return TILE_PATTERN.test(String(tile));
+    const position = boardTileToPosition(String(tile), this.geometry);
+    return position !== null && isPlayableSquare(position, this.geometry);
   }
 
   isEmpty(tile: Tile): boolean {
@@ -198,7 +249,7 @@ export class ChessBoardAdapter implements BoardAPI {
 
     const view: Piece = {
       id,
-      type: entry.piece.type,
+      type: entry.piece.fairy?.id ?? entry.piece.type,
       side: entry.piece.color as Side,
       tile: this.positionToTile(entry.position),
       hasMoved: entry.piece.hasMoved,
@@ -250,14 +301,21 @@ export class ChessBoardAdapter implements BoardAPI {
   spawnPiece(type: string, side: Side, tile: Tile): PieceID {
     const position = this.assertTile(tile);
     if (!this.isEmpty(tile)) throw new Error(`Destination occupied: ${tile}`);
+    const fairy = ORTHODOX_PIECE_TYPES.has(type)
+      ? undefined
+      : this.resolveFairyPiece(type);
+    if (!ORTHODOX_PIECE_TYPES.has(type) && !fairy) {
+      throw new Error(`Unknown piece type: ${type}`);
+    }
 
     const piece: ChessPieceWithEngineId = {
-      type: type as ChessPiece["type"],
+      type: fairy ? "fairy" : (type as ChessPiece["type"]),
       color: side as ChessPiece["color"],
       position: clonePosition(position),
       hasMoved: false,
       isHidden: false,
       specialState: {},
+      ...(fairy ? { fairy } : {}),
     };
     const id = this.generatePieceId();
     piece.__engineId = id;
@@ -308,7 +366,7 @@ export class ChessBoardAdapter implements BoardAPI {
     const origin = this.assertTile(tile);
     const safeRadius = Math.max(
       1,
-      Math.min(BOARD_SIZE - 1, Math.floor(radius)),
+      Math.min(this.boardSpan - 1, Math.floor(radius)),
     );
     const result: Tile[] = [];
     for (let rowDelta = -safeRadius; rowDelta <= safeRadius; rowDelta += 1) {
@@ -318,12 +376,7 @@ export class ChessBoardAdapter implements BoardAPI {
           row: origin.row + rowDelta,
           col: origin.col + colDelta,
         };
-        if (
-          candidate.row >= 0 &&
-          candidate.row < BOARD_SIZE &&
-          candidate.col >= 0 &&
-          candidate.col < BOARD_SIZE
-        ) {
+        if (isPlayableSquare(candidate, this.geometry)) {
           result.push(this.positionToTile(candidate));
         }
       }
@@ -349,8 +402,40 @@ export class ChessBoardAdapter implements BoardAPI {
     return this.decals.get(tile) ?? null;
   }
 
+  getDecals(): Array<[Tile, SpriteId]> {
+    return Array.from(this.decals.entries());
+  }
+
+  /** Swaps every decal at once, notifying each tile whose sprite changed. */
+  replaceDecals(entries: ReadonlyArray<readonly [string, unknown]>): void {
+    const previous = new Map(this.decals);
+    this.restoreDecals(entries);
+    for (const tile of new Set([...previous.keys(), ...this.decals.keys()])) {
+      const spriteId = this.decals.get(tile) ?? null;
+      if (previous.get(tile) !== (spriteId ?? undefined)) {
+        this.decalChangeListener?.(tile, spriteId);
+      }
+    }
+  }
+
+  private restoreDecals(
+    entries: ReadonlyArray<readonly [string, unknown]>,
+  ): void {
+    this.decals.clear();
+    for (const entry of entries) {
+      if (
+        Array.isArray(entry) &&
+        entry.length === 2 &&
+        this.withinBoard(entry[0]) &&
+        typeof entry[1] === "string"
+      ) {
+        this.decals.set(entry[0], entry[1]);
+      }
+    }
+  }
+
   getBoard(): ChessBoardSnapshot {
-    return cloneBoard(this.board);
+    return cloneBoard(this.board, this.geometry);
   }
 
   serialize(): string {
@@ -369,31 +454,21 @@ export class ChessBoardAdapter implements BoardAPI {
     };
     if (
       !Array.isArray(parsed.board) ||
-      parsed.board.length !== BOARD_SIZE ||
+      parsed.board.length !== this.geometry.ranks ||
       parsed.board.some(
-        (row) => !Array.isArray(row) || row.length !== BOARD_SIZE,
+        (row) => !Array.isArray(row) || row.length !== this.geometry.files,
       )
     ) {
       throw new Error("Invalid board snapshot.");
     }
 
-    const restoredBoard = cloneBoard(parsed.board);
-    for (let row = 0; row < BOARD_SIZE; row += 1) {
-      for (let col = 0; col < BOARD_SIZE; col += 1) {
+    const restoredBoard = cloneBoard(parsed.board, this.geometry);
+    for (let row = 0; row < this.geometry.ranks; row += 1) {
+      for (let col = 0; col < this.geometry.files; col += 1) {
         this.board[row][col] = restoredBoard[row][col];
       }
     }
-    this.decals.clear();
-    for (const entry of parsed.decals ?? []) {
-      if (
-        Array.isArray(entry) &&
-        entry.length === 2 &&
-        TILE_PATTERN.test(String(entry[0])) &&
-        typeof entry[1] === "string"
-      ) {
-        this.decals.set(entry[0], entry[1]);
-      }
-    }
+    this.restoreDecals(parsed.decals ?? []);
     this.nextId =
       Number.isInteger(parsed.nextId) && Number(parsed.nextId) > 0
         ? Number(parsed.nextId)
@@ -402,8 +477,12 @@ export class ChessBoardAdapter implements BoardAPI {
     this.emitBoardChange();
   }
 
-  updateBoard(newBoard: ChessBoardSnapshot): void {
+  updateBoard(
+    newBoard: ChessBoardSnapshot,
+    geometry: BoardGeometry = this.geometry,
+  ): void {
     this.board = newBoard;
+    this.geometry = geometry;
     this.rebuildPieceMap(newBoard);
   }
 }
@@ -60,6 +60,18 @@ export function createRuleEngine(
   engineContracts.eventBus.on("lifecycle.onTurnStart", (payload) =>
     ruleEngine.onTurnStart(payload.side),
   );
+  engineContracts.eventBus.on("lifecycle.onTurnEnd", (payload) =>
+    ruleEngine.onTurnEnd(payload.side),
+  );
+  engineContracts.eventBus.on("lifecycle.onCheck", (payload) =>
+    ruleEngine.onCheck(payload.pieceId),
+  );
+  engineContracts.eventBus.on("lifecycle.onAttacked", (payload) =>
+    ruleEngine.onAttacked(payload.pieceId, payload.attackerId),
+  );
+  engineContracts.eventBus.on("lifecycle.onGameEnd", (payload) =>
+    ruleEngine.onGameEnd(payload.reason, payload.winner),
+  );
   engineContracts.eventBus.on("ui.runAction", (payload) =>
     ruleEngine.runUIAction(
       payload.actionId,
@@ -77,3 +89,14 @@ export { RuleEngine, type RuleEngineOptions } from "./engine";
 export { EventBus } from "./eventBus";
 export { Cooldown } from "./cooldown";
 export { StateStore } from "./stateStore";
+export {
+  captureTraceSnapshot,
+  RuleTraceRecorder,
+  type ConditionTrace,
+  type EffectTrace,
+  type RuleEvaluationTrace,
+  type RuleEventTrace,
+  type RuleTraceExport,
+  type RuleTraceSnapshot,
+  type StepTrace,
+} from "./trace";
@@ -1,8 +1,9 @@
+import { BOARD_TILE_PATTERN } from "../../rules-v2/board-geometry";
 import { STATE_PATH_PATTERN } from "../../rules-v2/catalog";
+import { FAIRY_PIECE_ID_PATTERN } from "../../rules-v2/fairy-pieces";
 import { Registry, type EngineContext } from "../registry";
 import type { Piece, PieceID, Side, Tile } from "../types";
 
-const BOARD_TILE = /^[a-h][1-8]$/;
 // The V2 compiler applies the narrower lowercase form. Runtime keeps safe
 // camelCase compatibility for already-published legacy rules.
 const STATUS_KEY = /^[a-zA-Z][a-zA-Z0-9_-]{0,79}$/;
@@ -57,7 +58,7 @@ const tileParam = (
   params: Record<string, unknown> | undefined,
   name: string,
 ): Tile => {
-  const tile = stringParam(params, name, BOARD_TILE);
+  const tile = stringParam(params, name, BOARD_TILE_PATTERN);
   if (!ctx.engine.board.withinBoard(tile)) {
     return fail(`Case ${tile} hors plateau.`);
   }
@@ -229,7 +230,11 @@ export function registerBuiltinEffects(registry: Registry): void {
     const type = stringParam(params, "type");
     const side = stringParam(params, "side") as Side;
     const tile = tileParam(ctx, params, "tile");
-    if (!PIECE_TYPES.has(type) || (side !== "white" && side !== "black")) {
+    // The board adapter rejects fairy ids the active rules do not declare.
+    const spawnable =
+      PIECE_TYPES.has(type) ||
+      (type !== "king" && FAIRY_PIECE_ID_PATTERN.test(type));
+    if (!spawnable || (side !== "white" && side !== "black")) {
       return fail("Type ou camp de pièce invalide.");
     }
     if (!ctx.engine.board.isEmpty(tile))
@@ -1,11 +1,16 @@
 import { Registry, type EngineContext } from "../registry";
 import type { PieceID, Tile } from "../types";
-
-const BOARD_TILE = /^[a-h][1-8]$/;
+import {
+  BOARD_FILE_LETTERS,
+  BOARD_TILE_PATTERN,
+  MAX_BOARD_SIZE,
+} from "../../rules-v2/board-geometry";
 
 const sourceTile = (ctx: EngineContext): Tile | null => {
   const tile = ctx.piece?.tile;
-  return typeof tile === "string" && BOARD_TILE.test(tile) ? tile : null;
+  return typeof tile === "string" && BOARD_TILE_PATTERN.test(tile)
+    ? tile
+    : null;
 };
 
 const allPieceIds = (ctx: EngineContext): PieceID[] => {
@@ -90,7 +95,7 @@ export function registerBuiltinProviders(registry: Registry): void {
     if (!center || !ctx.piece) return [];
 
     const board = ctx.engine.board;
-    const start = tileToPosition(center);
+    const start = tileToCoordinates(center);
     const targets: PieceID[] = [];
     const directions = [
       [0, 1],
@@ -104,12 +109,15 @@ export function registerBuiltinProviders(registry: Registry): void {
     ] as const;
 
     for (const [rowDelta, columnDelta] of directions) {
-      for (let distance = 1; distance <= 8; distance += 1) {
-        const row = start.row + rowDelta * distance;
-        const column = start.column + columnDelta * distance;
-        if (row < 0 || row >= 8 || column < 0 || column >= 8) break;
-
-        const targetTile = positionToTile(row, column);
+      for (let distance = 1; distance <= MAX_BOARD_SIZE; distance += 1) {
+        const rank = start.rank + rowDelta * distance;
+        const file = start.file + columnDelta * distance;
+        if (rank < 1 || rank > MAX_BOARD_SIZE) break;
+        if (file < 0 || file >= MAX_BOARD_SIZE) break;
+
+        // Holes and squares past the board edge block the line of sight.
+        const targetTile = coordinatesToTile(file, rank);
+        if (!board.withinBoard(targetTile)) break;
         const pieceId = board.getPieceAt(targetTile);
         if (!pieceId) continue;
 
@@ -124,13 +132,14 @@ export function registerBuiltinProviders(registry: Registry): void {
   });
 }
 
-function tileToPosition(tile: Tile): { row: number; column: number } {
+// Rank/file coordinates do not depend on the board height, unlike rows.
+function tileToCoordinates(tile: Tile): { file: number; rank: number } {
   return {
-    row: 8 - Number.parseInt(tile[1], 10),
-    column: tile.charCodeAt(0) - 97,
+    file: BOARD_FILE_LETTERS.indexOf(tile[0]),
+    rank: Number.parseInt(tile.slice(1), 10),
   };
 }
 
-function positionToTile(row: number, column: number): Tile {
-  return `${String.fromCharCode(97 + column)}${8 - row}`;
+function coordinatesToTile(file: number, rank: number): Tile {
+  return `${BOARD_FILE_LETTERS[file]}${rank}`;
 }
@@ -1,5 +1,10 @@
 import type { PieceID, Tile } from "./types";
-import type { ChessMove, ChessPiece, Position } from "@/types/chess";
+import type { ChessMove, ChessPiece } from "@/types/chess";
+import {
+  STANDARD_BOARD_GEOMETRY,
+  boardPositionToTile,
+  type BoardGeometry,
+} from "@/rules-v2/board-geometry";
 
 type ChessPieceWithEngineId = ChessPiece & { __engineId?: PieceID };
 
@@ -8,11 +13,9 @@ export interface MoveCommittedPayload {
   from: Tile;
   to: Tile;
   targetPieceId?: PieceID;
+  capturedType?: string;
 }
 
-const positionToTile = (position: Position): Tile =>
-  `${String.fromCharCode(97 + position.col)}${8 - position.row}` as Tile;
-
 /**
  * Adds the captured piece to the deterministic lifecycle context. The fallback
  * identifier is opaque and stable for the committed move; it is never used as a
@@ -22,11 +25,12 @@ export function resolveCapturedTargetPieceId(
   lastMove: ChessMove | undefined,
   moveNumber: number,
   payload: MoveCommittedPayload,
+  geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
 ): PieceID | undefined {
   if (
     !lastMove?.captured ||
-    positionToTile(lastMove.from) !== payload.from ||
-    positionToTile(lastMove.to) !== payload.to
+    boardPositionToTile(lastMove.from, geometry) !== payload.from ||
+    boardPositionToTile(lastMove.to, geometry) !== payload.to
   ) {
     return undefined;
   }
@@ -25,6 +25,11 @@ import {
   RuntimeBudget,
   RuntimeBudgetExceededError,
 } from "../rules-v2";
+import type {
+  RuleEventTraceBuilder,
+  RuleTraceBuilder,
+  RuleTraceRecorder,
+} from "./trace";
 
 export interface RuleEngineOptions {
   matchSeed?: string | number;
@@ -51,6 +56,9 @@ class RuleRollbackError extends Error {
   }
 }
 
+const traceErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
 const BLOCKED_LEGACY_EFFECTS = new Set([
   "area.forEachTile",
   "board.areaEffect",
@@ -147,6 +155,7 @@ export class RuleEngine {
   private readonly actionOwners = new Map<string, RuleJSON>();
   private eventSequence = 0;
   private readonly options: Required<RuleEngineOptions>;
+  private tracer: RuleTraceRecorder | null = null;
 
   constructor(
     private readonly engine: EngineContracts,
@@ -160,6 +169,11 @@ export class RuleEngine {
     };
   }
 
+  /** Records every following event in `tracer`; `null` stops tracing. */
+  setTracer(tracer: RuleTraceRecorder | null): void {
+    this.tracer = tracer;
+  }
+
   loadRules(rules: RuleJSON[]): void {
     const previousActions = [...this.uiActions];
     const uiWithUnregister = this.engine.ui as EngineContracts["ui"] & {
@@ -381,11 +395,28 @@ export class RuleEngine {
     });
   }
 
-  onMoveCommitted(move: { pieceId: PieceID; from: Tile; to: Tile }): void {
+  onMoveCommitted(move: {
+    pieceId: PieceID;
+    from: Tile;
+    to: Tile;
+    targetPieceId?: PieceID;
+    capturedType?: string;
+  }): void {
     this.dispatchLifecycle("lifecycle.onMoveCommitted", {
       ...move,
       targetTile: move.to,
     });
+    if (!move.targetPieceId) return;
+    // The captured piece has already left the board: it is exposed as
+    // `capturedPieceId` rather than as a target piece.
+    this.dispatchListenedLifecycle("lifecycle.onCapture", {
+      pieceId: move.pieceId,
+      from: move.from,
+      to: move.to,
+      targetTile: move.to,
+      capturedPieceId: move.targetPieceId,
+      capturedType: move.capturedType,
+    });
   }
 
   onUndo(): void {
@@ -435,10 +466,60 @@ export class RuleEngine {
     this.dispatchLifecycle("lifecycle.onTurnStart", { side });
   }
 
+  onTurnEnd(side: Side): void {
+    this.dispatchListenedLifecycle("lifecycle.onTurnEnd", { side });
+  }
+
+  onCheck(kingId: PieceID): void {
+    this.dispatchListenedLifecycle("lifecycle.onCheck", { pieceId: kingId });
+  }
+
+  onAttacked(pieceId: PieceID, attackerId: PieceID): void {
+    this.dispatchListenedLifecycle("lifecycle.onAttacked", {
+      pieceId,
+      targetPieceId: attackerId,
+    });
+  }
+
+  onGameEnd(reason: string, winner?: Side): void {
+    this.dispatchListenedLifecycle("lifecycle.onGameEnd", {
+      reason,
+      winner,
+      side: winner,
+    });
+  }
+
+  /** True when at least one loaded rule has a step bound to `eventId`. */
+  hasListener(eventId: string): boolean {
+    return this.rules.some((rule) =>
+      (rule.logic?.effects ?? []).some((step) => step.when === eventId),
+    );
+  }
+
   runUIAction(
     actionId: string,
     pieceId?: PieceID,
     targetTile?: Tile,
+  ): RuleActionExecutionResult {
+    const trace = this.beginTrace(`ui.${actionId}`, {
+      actionId,
+      pieceId,
+      targetTile,
+    });
+    let result: RuleActionExecutionResult | undefined;
+    try {
+      result = this.executeUIAction(actionId, pieceId, targetTile, trace);
+      return result;
+    } finally {
+      trace?.end(result);
+    }
+  }
+
+  private executeUIAction(
+    actionId: string,
+    pieceId: PieceID | undefined,
+    targetTile: Tile | undefined,
+    trace: RuleEventTraceBuilder | undefined,
   ): RuleActionExecutionResult {
     const action = this.uiActions.find(
       (candidate) => candidate.id === actionId,
@@ -572,6 +653,7 @@ export class RuleEngine {
 
     this.eventSequence = sequence;
 
+    const ruleTrace = trace?.beginRule(rule, budget);
     const outcome = this.evaluateLogicBlock(
       `ui.${actionId}`,
       context,
@@ -590,7 +672,9 @@ export class RuleEngine {
         }
         if (action.consumesTurn) context.turnEnded = true;
       },
+      ruleTrace,
     );
+    ruleTrace?.finish(outcome.executed);
 
     if (outcome.blocked || outcome.executed === 0) {
       if (outcome.executed === 0 && !outcome.blocked) {
@@ -617,49 +701,161 @@ export class RuleEngine {
     );
   }
 
+  /**
+   * Tiles `runUIAction` would accept as a target, without running the action.
+   * Piece ids returned by the provider are resolved to their tile.
+   */
+  getActionTargets(actionId: string, pieceId?: PieceID): Tile[] {
+    const action = this.uiActions.find(
+      (candidate) => candidate.id === actionId,
+    );
+    const rule = this.actionOwners.get(actionId);
+    if (!action || !rule || (action.targeting?.mode ?? "none") === "none") {
+      return [];
+    }
+
+    const provider = action.targeting?.validTilesProvider;
+    if (!provider) return this.engine.board.tiles();
+
+    const effectivePieceId =
+      isRuleArchitectRule(rule) &&
+      action.availability?.requiresSelection !== true
+        ? undefined
+        : pieceId;
+    let side: Side = this.engine.match.get().turnSide;
+    if (effectivePieceId) {
+      try {
+        side = this.engine.board.getPiece(effectivePieceId).side;
+      } catch {
+        return [];
+      }
+    }
+
+    const context = this.buildContext(
+      {
+        event: `ui.${actionId}`,
+        pieceId: effectivePieceId,
+        side,
+        baseActionId: actionId,
+      },
+      rule,
+      this.eventSequence + 1,
+      new RuntimeBudget(
+        this.options.maxEffectsPerRuleEvent,
+        this.options.maxNestedDepth,
+      ),
+    );
+
+    let provided: unknown;
+    try {
+      provided = this.registry.runProvider(provider, context);
+    } catch (error) {
+      this.reportRuntimeError(error);
+      return [];
+    }
+
+    const targets = new Set<Tile>();
+    for (const entry of Array.isArray(provided) ? provided : []) {
+      if (typeof entry !== "string") continue;
+      if (this.engine.board.withinBoard(entry)) {
+        targets.add(entry);
+        continue;
+      }
+      try {
+        targets.add(this.engine.board.getPiece(entry).tile);
+      } catch {
+        // Neither a tile nor a live piece: the provider result is ignored.
+      }
+    }
+    return [...targets];
+  }
+
   private dispatchLifecycle(
     eventId: string,
     base: Record<string, unknown>,
   ): void {
     const sequence = ++this.eventSequence;
+    const trace = this.beginTrace(eventId, base);
 
-    for (const rule of this.rules) {
-      const budget = new RuntimeBudget(
-        this.options.maxEffectsPerRuleEvent,
-        this.options.maxNestedDepth,
-      );
-      const context = this.buildContext(
-        { ...base, event: eventId },
-        rule,
-        sequence,
-        budget,
-      );
-      if (!this.lifecycleScopeAllows(rule, context)) {
-        continue;
-      }
-      const outcome = this.evaluateLogicBlock(
-        eventId,
-        context,
-        rule.logic?.effects,
-      );
+    try {
+      for (const rule of this.rules) {
+        const budget = new RuntimeBudget(
+          this.options.maxEffectsPerRuleEvent,
+          this.options.maxNestedDepth,
+        );
+        const context = this.buildContext(
+          { ...base, event: eventId },
+          rule,
+          sequence,
+          budget,
+        );
+        if (!this.lifecycleScopeAllows(rule, context)) {
+          trace?.skipRule(rule);
+          continue;
+        }
+        const ruleTrace = trace?.beginRule(rule, budget);
+        const outcome = this.evaluateLogicBlock(
+          eventId,
+          context,
+          rule.logic?.effects,
+          undefined,
+          ruleTrace,
+        );
+        ruleTrace?.finish(outcome.executed);
 
-      if (outcome.blocked) {
-        break;
+        if (outcome.blocked) {
+          break;
+        }
       }
+    } finally {
+      trace?.end();
     }
   }
 
+  /**
+   * Events added after the first lifecycle set are only dispatched when a rule
+   * listens to them explicitly. Skipping them keeps `always` steps and the
+   * event sequence (hence the random seeds) of existing matches unchanged.
+   */
+  private dispatchListenedLifecycle(
+    eventId: string,
+    base: Record<string, unknown>,
+  ): void {
+    if (!this.hasListener(eventId)) return;
+    this.dispatchLifecycle(eventId, base);
+  }
+
+  private beginTrace(
+    eventId: string,
+    payload: Record<string, unknown>,
+  ): RuleEventTraceBuilder | undefined {
+    if (!this.tracer) return undefined;
+    const match = this.engine.match.get();
+    return this.tracer.beginEvent(
+      eventId,
+      {
+        ply: match.ply,
+        turnSide: match.turnSide,
+        side: isSide(payload.side) ? payload.side : undefined,
+        payload,
+      },
+      this.engine,
+    );
+  }
+
   private evaluateLogicBlock(
     eventId: string,
     context: EngineContext,
     steps?: LogicStep[],
     onLogicalSuccess?: () => void,
+    trace?: RuleTraceBuilder,
   ): EvaluationOutcome {
     const outcome: EvaluationOutcome = {
       blocked: false,
       executed: 0,
       turnEnded: false,
     };
+    if (trace) context.tracer = trace;
 
     if (!steps) {
       return outcome;
@@ -693,6 +889,12 @@ export class RuleEngine {
           }.`,
         );
         if (step.message) this.engine.ui.toast(step.message);
+        trace?.block({
+          reason: "invalid-effect",
+          message: invalidAction?.action ?? "(forme inconnue)",
+          stepId: step.id,
+          restore: "not-needed",
+        });
         outcome.blocked = true;
         return outcome;
       }
@@ -703,6 +905,11 @@ export class RuleEngine {
       snapshot = this.captureMutableState(context.rule as RuleJSON, context);
     } catch (error) {
       this.reportRuntimeError(error);
+      trace?.block({
+        reason: "snapshot-unavailable",
+        message: traceErrorMessage(error),
+        restore: "not-needed",
+      });
       outcome.blocked = true;
       return outcome;
     }
@@ -712,16 +919,24 @@ export class RuleEngine {
 
     try {
       for (const step of candidates) {
+        trace?.beginStep(step, eventId);
         const conditions = this.normaliseConditions(step.if);
         const passes = conditions.every((condition) =>
           this.registry.runCondition(condition, context),
         );
 
         if (!passes) {
+          trace?.endStep(false);
           if (step.onFail === "blockAction") {
             if (step.message) {
               failureMessage = step.message;
             }
+            trace?.block({
+              reason: "condition-blocked",
+              message: step.message,
+              stepId: step.id,
+              restore: "not-needed",
+            });
             outcome.blocked = true;
             break;
           }
@@ -733,12 +948,19 @@ export class RuleEngine {
           const succeeded = this.registry.runEffect(action, context);
           if (!succeeded) {
             failureMessage = step.message;
+            trace?.block({
+              reason: "effect-failed",
+              message: action.action,
+              stepId: step.id,
+              restore: "not-needed",
+            });
             outcome.blocked = true;
             break;
           } else {
             outcome.executed += 1;
           }
         }
+        trace?.endStep(true);
 
         if (outcome.blocked) break;
       }
@@ -747,14 +969,24 @@ export class RuleEngine {
       }
     } catch (error) {
       this.reportRuntimeError(error);
+      trace?.block({
+        reason:
+          error instanceof RuntimeBudgetExceededError
+            ? "budget-exceeded"
+            : "runtime-error",
+        message: traceErrorMessage(error),
+        restore: "not-needed",
+      });
       outcome.blocked = true;
     }
 
     if (outcome.blocked) {
       try {
         this.restoreMutableState(snapshot);
+        trace?.restored("restored");
       } catch (error) {
         this.reportRuntimeError(error);
+        trace?.restored("failed");
       }
       context.postCommit.length = 0;
       context.turnEnded = false;
@@ -768,10 +1000,16 @@ export class RuleEngine {
       try {
         this.engine.match.endTurn();
       } catch (error) {
+        trace?.block({
+          reason: "end-turn-failed",
+          message: traceErrorMessage(error),
+          restore: "restored",
+        });
         try {
           this.restoreMutableState(snapshot);
         } catch (restoreError) {
           this.reportRuntimeError(restoreError);
+          trace?.restored("failed");
         }
         context.postCommit.length = 0;
         context.turnEnded = false;
@@ -1009,7 +1247,10 @@ export class RuleEngine {
     const requiresSourcePiece =
       event === "lifecycle.onEnterTile" ||
       event === "lifecycle.onMoveCommitted" ||
-      event === "lifecycle.onPromote";
+      event === "lifecycle.onPromote" ||
+      event === "lifecycle.onCapture" ||
+      event === "lifecycle.onCheck" ||
+      event === "lifecycle.onAttacked";
     if (requiresSourcePiece && !context.piece) {
       return false;
     }
@@ -1037,11 +1278,16 @@ export class RuleEngine {
         ? context.fromType
         : context.piece?.type;
 
-    // Turn-start and undo events intentionally have no source piece. Their
+    // Turn, undo and game-end events intentionally have no source piece. Their
     // side scope still applies, while piece-specific effects remain protected
     // by their own required piece parameters/conditions.
     if (!scopedPieceType) {
-      return event === "lifecycle.onTurnStart" || event === "lifecycle.onUndo";
+      return (
+        event === "lifecycle.onTurnStart" ||
+        event === "lifecycle.onTurnEnd" ||
+        event === "lifecycle.onUndo" ||
+        event === "lifecycle.onGameEnd"
+      );
     }
     return affectedPieces.includes(scopedPieceType);
   }
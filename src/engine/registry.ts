@@ -26,6 +26,7 @@ export interface EngineContext extends Record<string, unknown> {
   baseActionId?: string;
   random?: () => number;
   budget?: RuntimeBudget;
+  tracer?: ExecutionTracer;
   turnEnded?: boolean;
   statePersistenceValid?: boolean;
   /** Side effects that must run only after the logical transaction commits. */
@@ -42,6 +43,18 @@ export type ConditionDescriptor =
   | LogicalConditionNode
   | ParameterizedConditionNode;
 
+/** Observes condition and effect evaluation; see `RuleTraceBuilder`. */
+export interface ExecutionTracer {
+  enterCondition(descriptor: ConditionDescriptor): void;
+  leaveCondition(result: boolean): void;
+  recordEffect(
+    step: ActionStep,
+    params: unknown,
+    succeeded: boolean,
+    budgetConsumed: number,
+  ): void;
+}
+
 export type ConditionFn = (ctx: EngineContext, ...args: unknown[]) => boolean;
 
 export type EffectFn = (
@@ -81,6 +94,25 @@ export class Registry {
   }
 
   runCondition(descriptor: ConditionDescriptor, ctx: EngineContext): boolean {
+    const tracer = ctx.tracer;
+    if (!tracer) {
+      return this.evaluateCondition(descriptor, ctx);
+    }
+
+    let result = false;
+    tracer.enterCondition(descriptor);
+    try {
+      result = this.evaluateCondition(descriptor, ctx);
+      return result;
+    } finally {
+      tracer.leaveCondition(result);
+    }
+  }
+
+  private evaluateCondition(
+    descriptor: ConditionDescriptor,
+    ctx: EngineContext,
+  ): boolean {
     let entered = false;
     try {
       ctx.budget?.charge();
@@ -154,9 +186,14 @@ export class Registry {
     const fn = this.effects.get(step.action);
     if (!fn) {
       console.error(`[RuleEngine] Effet inconnu: ${step.action}`);
+      ctx.tracer?.recordEffect(step, step.params, false, 0);
       return false;
     }
 
+    const consumedBefore = ctx.budget?.consumed ?? 0;
+    let tracedParams: unknown = step.params;
+    let succeeded = false;
+
     ctx.budget?.charge();
     ctx.budget?.enter();
 
@@ -171,6 +208,7 @@ export class Registry {
           return false;
         }
         resolvedParams = resolved;
+        tracedParams = resolved;
       }
 
       if (resolvedParams && !this.areResolvedParamsSafe(resolvedParams)) {
@@ -181,7 +219,7 @@ export class Registry {
       }
 
       const result = fn(ctx, resolvedParams);
-      const succeeded = result !== false;
+      succeeded = result !== false;
 
       if (succeeded && step.action === "turn.end") {
         ctx.turnEnded = true;
@@ -196,6 +234,12 @@ export class Registry {
       return false;
     } finally {
       ctx.budget?.leave();
+      ctx.tracer?.recordEffect(
+        step,
+        tracedParams,
+        succeeded,
+        (ctx.budget?.consumed ?? 0) - consumedBefore,
+      );
     }
   }
 
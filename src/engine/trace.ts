@@ -0,0 +1,391 @@
+import type {
+  ActionStep,
+  CooldownAPI,
+  LogicStep,
+  PersistenceAPI,
+  RuleJSON,
+  Side,
+} from "./types";
+import type { ConditionDescriptor, ExecutionTracer } from "./registry";
+import type { RuntimeBudget } from "../rules-v2/runtime-budget";
+
+export const RULE_TRACE_FORMAT_VERSION = 1;
+
+export interface RuleTraceCooldownEntry {
+  pieceId: string;
+  actionId: string;
+  turns: number;
+}
+
+export interface RuleTraceSnapshot {
+  /** StateStore namespaces, as persisted by `serialize()`. */
+  state: Record<string, unknown>;
+  cooldowns: RuleTraceCooldownEntry[];
+}
+
+export interface ConditionTrace {
+  op: string;
+  /** Set when the descriptor was wrapped in `["not", …]` by the compiler. */
+  negate: boolean;
+  args: unknown[];
+  /** Final value, after `negate` was applied. */
+  result: boolean;
+  children: ConditionTrace[];
+}
+
+export interface EffectTrace {
+  action: string;
+  /** Parameters after `$ctx`/`$params` resolution, or the raw ones if refused. */
+  params: unknown;
+  succeeded: boolean;
+  budgetConsumed: number;
+}
+
+export interface StepTrace {
+  stepId: string;
+  when: string;
+  trigger: "event" | "always";
+  priority: number;
+  onFail: "blockAction" | "skip";
+  conditions: ConditionTrace[];
+  passed: boolean;
+  effects: EffectTrace[];
+  after: RuleTraceSnapshot;
+}
+
+export type RuleRollbackReason =
+  | "invalid-effect"
+  | "snapshot-unavailable"
+  | "condition-blocked"
+  | "effect-failed"
+  | "budget-exceeded"
+  | "runtime-error"
+  | "end-turn-failed";
+
+export interface RuleRollbackTrace {
+  reason: RuleRollbackReason;
+  message?: string;
+  stepId?: string;
+  /** `failed` means `RuleRollbackError`: the snapshot could not be restored. */
+  restore: "not-needed" | "restored" | "failed";
+}
+
+export type RuleTraceOutcome =
+  | "committed"
+  | "no-effect"
+  | "blocked"
+  | "out-of-scope";
+
+export interface RuleEvaluationTrace {
+  ruleId: string;
+  outcome: RuleTraceOutcome;
+  steps: StepTrace[];
+  budget: { consumed: number; limit: number; maxDepth: number };
+  rollback: RuleRollbackTrace | null;
+  after: RuleTraceSnapshot;
+}
+
+export interface RuleEventTrace {
+  id: number;
+  event: string;
+  ply: number;
+  turnSide: Side;
+  side?: Side;
+  payload: Record<string, unknown>;
+  timestamp: string;
+  before: RuleTraceSnapshot;
+  rules: RuleEvaluationTrace[];
+  /** UI actions only: what `runUIAction` returned to the player. */
+  result?: { ok: boolean; reason?: string };
+}
+
+export interface RuleTraceExport {
+  version: typeof RULE_TRACE_FORMAT_VERSION;
+  exportedAt: string;
+  events: RuleEventTrace[];
+}
+
+export interface RuleTraceEventStart {
+  ply: number;
+  turnSide: Side;
+  side?: Side;
+  payload: Record<string, unknown>;
+}
+
+type SnapshotSource = {
+  state: Pick<PersistenceAPI, "serialize">;
+  cooldown: Pick<CooldownAPI, "serialize">;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const cloneForTrace = (value: unknown): unknown => {
+  try {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  } catch {
+    return String(value);
+  }
+};
+
+/** Reads the StateStore namespaces and Cooldown entries without mutating them. */
+export function captureTraceSnapshot(
+  source: SnapshotSource,
+): RuleTraceSnapshot {
+  let state: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(source.state.serialize());
+    if (isRecord(parsed)) state = parsed;
+  } catch {
+    state = {};
+  }
+
+  const cooldowns: RuleTraceCooldownEntry[] = [];
+  try {
+    const entries: unknown = JSON.parse(source.cooldown.serialize());
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      if (!Array.isArray(entry) || typeof entry[0] !== "string") continue;
+      // Cooldown keys are `${pieceId}|${actionId}`.
+      const key = entry[0];
+      const separator = key.indexOf("|");
+      if (separator <= 0) continue;
+      cooldowns.push({
+        pieceId: key.slice(0, separator),
+        actionId: key.slice(separator + 1),
+        turns: typeof entry[1] === "number" ? entry[1] : 0,
+      });
+    }
+  } catch {
+    // An unreadable cooldown store is shown as empty.
+  }
+
+  return { state, cooldowns };
+}
+
+const LOGICAL_OPERATORS = new Set(["not", "and", "or"]);
+
+const describeCondition = (
+  descriptor: ConditionDescriptor,
+): Pick<ConditionTrace, "op" | "args"> => {
+  if (!Array.isArray(descriptor)) return { op: descriptor, args: [] };
+  const op = String(descriptor[0]);
+  // Logical operands are traced as children, not as arguments.
+  return LOGICAL_OPERATORS.has(op)
+    ? { op, args: [] }
+    : { op, args: descriptor.slice(1).map(cloneForTrace) };
+};
+
+/** Collects one rule's evaluation for the event currently being traced. */
+export class RuleTraceBuilder implements ExecutionTracer {
+  private readonly steps: StepTrace[] = [];
+  private currentStep: StepTrace | null = null;
+  private readonly conditionStack: ConditionTrace[] = [];
+  private rollback: RuleRollbackTrace | null = null;
+
+  constructor(
+    private readonly ruleId: string,
+    private readonly budget: RuntimeBudget | undefined,
+    private readonly snapshot: () => RuleTraceSnapshot,
+    private readonly onFinish: (trace: RuleEvaluationTrace) => void,
+  ) {}
+
+  beginStep(step: LogicStep, eventId: string): void {
+    this.currentStep = {
+      stepId: step.id,
+      when: step.when,
+      trigger: step.when === eventId ? "event" : "always",
+      priority: step.priority ?? 0,
+      onFail: step.onFail ?? "skip",
+      conditions: [],
+      passed: false,
+      effects: [],
+      after: { state: {}, cooldowns: [] },
+    };
+  }
+
+  endStep(passed: boolean): void {
+    if (!this.currentStep) return;
+    this.currentStep.passed = passed;
+    this.currentStep.after = this.snapshot();
+    this.steps.push(this.currentStep);
+    this.currentStep = null;
+    this.conditionStack.length = 0;
+  }
+
+  enterCondition(descriptor: ConditionDescriptor): void {
+    this.conditionStack.push({
+      ...describeCondition(descriptor),
+      negate: false,
+      result: false,
+      children: [],
+    });
+  }
+
+  leaveCondition(result: boolean): void {
+    let node = this.conditionStack.pop();
+    if (!node) return;
+    node.result = result;
+    if (node.op === "not" && node.children.length === 1) {
+      const [child] = node.children;
+      node = { ...child, negate: !child.negate, result };
+    }
+
+    const parent = this.conditionStack[this.conditionStack.length - 1];
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      this.currentStep?.conditions.push(node);
+    }
+  }
+
+  recordEffect(
+    step: ActionStep,
+    params: unknown,
+    succeeded: boolean,
+    budgetConsumed: number,
+  ): void {
+    this.currentStep?.effects.push({
+      action: step.action,
+      params: cloneForTrace(params),
+      succeeded,
+      budgetConsumed,
+    });
+  }
+
+  block(rollback: RuleRollbackTrace): void {
+    this.rollback = rollback;
+  }
+
+  restored(restore: RuleRollbackTrace["restore"]): void {
+    if (this.rollback) this.rollback.restore = restore;
+  }
+
+  finish(executed: number): void {
+    if (this.currentStep) this.endStep(this.currentStep.passed);
+    this.onFinish({
+      ruleId: this.ruleId,
+      outcome: this.rollback
+        ? "blocked"
+        : executed > 0
+          ? "committed"
+          : "no-effect",
+      steps: this.steps,
+      budget: {
+        consumed: this.budget?.consumed ?? 0,
+        limit: this.budget?.limit ?? 0,
+        maxDepth: this.budget?.maxDepth ?? 0,
+      },
+      rollback: this.rollback,
+      after: this.snapshot(),
+    });
+  }
+}
+
+/** One engine event (lifecycle dispatch or UI action) under trace. */
+export class RuleEventTraceBuilder {
+  private readonly trace: RuleEventTrace;
+
+  constructor(
+    id: number,
+    event: string,
+    start: RuleTraceEventStart,
+    private readonly snapshot: () => RuleTraceSnapshot,
+    private readonly onEnd: (trace: RuleEventTrace) => void,
+  ) {
+    this.trace = {
+      id,
+      event,
+      ply: start.ply,
+      turnSide: start.turnSide,
+      side: start.side,
+      payload: cloneForTrace(start.payload) as Record<string, unknown>,
+      timestamp: new Date().toISOString(),
+      before: snapshot(),
+      rules: [],
+    };
+  }
+
+  beginRule(rule: RuleJSON, budget?: RuntimeBudget): RuleTraceBuilder {
+    return new RuleTraceBuilder(
+      rule.meta.ruleId,
+      budget,
+      this.snapshot,
+      (ruleTrace) => this.trace.rules.push(ruleTrace),
+    );
+  }
+
+  skipRule(rule: RuleJSON): void {
+    this.trace.rules.push({
+      ruleId: rule.meta.ruleId,
+      outcome: "out-of-scope",
+      steps: [],
+      budget: { consumed: 0, limit: 0, maxDepth: 0 },
+      rollback: null,
+      after: this.trace.before,
+    });
+  }
+
+  end(result?: { ok: boolean; reason?: string }): void {
+    if (result) this.trace.result = { ...result };
+    this.onEnd(this.trace);
+  }
+}
+
+/**
+ * Keeps the most recent engine events for the developer panel. Events are
+ * published once they end, so a subscriber never sees a half-built trace.
+ */
+export class RuleTraceRecorder {
+  private events: readonly RuleEventTrace[] = [];
+  private readonly listeners = new Set<() => void>();
+  private nextId = 1;
+
+  constructor(private readonly capacity = 200) {}
+
+  beginEvent(
+    event: string,
+    start: RuleTraceEventStart,
+    source: SnapshotSource,
+  ): RuleEventTraceBuilder {
+    return new RuleEventTraceBuilder(
+      this.nextId++,
+      event,
+      start,
+      () => captureTraceSnapshot(source),
+      (trace) => this.publish(trace),
+    );
+  }
+
+  getEvents(): readonly RuleEventTrace[] {
+    return this.events;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.events = [];
+    this.notify();
+  }
+
+  toJSON(): RuleTraceExport {
+    return {
+      version: RULE_TRACE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      events: [...this.events].sort((left, right) => left.id - right.id),
+    };
+  }
+
+  private publish(trace: RuleEventTrace): void {
+    this.events = [...this.events, trace].slice(-this.capacity);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -78,6 +78,7 @@ export interface EngineEventMap {
     from: Tile;
     to: Tile;
     targetPieceId?: PieceID;
+    capturedType?: string;
   };
   "lifecycle.onUndo": Record<string, never>;
   "lifecycle.onPromote": {
@@ -86,6 +87,10 @@ export interface EngineEventMap {
     toType: string;
   };
   "lifecycle.onTurnStart": { side: Side };
+  "lifecycle.onTurnEnd": { side: Side };
+  "lifecycle.onCheck": { pieceId: PieceID };
+  "lifecycle.onAttacked": { pieceId: PieceID; attackerId: PieceID };
+  "lifecycle.onGameEnd": { reason: string; winner?: Side };
   "ui.runAction": { actionId: string; pieceId?: PieceID; targetTile?: Tile };
   "status.expired": { pieceId: PieceID; statusKey: string; tile: Tile };
 }
@@ -0,0 +1,123 @@
+import { CreditCard, ExternalLink, Loader2, Sparkles } from "lucide-react";
+import { Link } from "react-router-dom";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  billingPlanLabel,
+  describeBillingStatus,
+  hasPremiumAccess,
+} from "./billing-api";
+import {
+  useBillingEntitlement,
+  useBillingPortal,
+} from "./useBillingEntitlement";
+
+interface BillingPlanCardProps {
+  userId: string;
+  className?: string;
+}
+
+export function BillingPlanCard({ userId, className }: BillingPlanCardProps) {
+  const { toast } = useToast();
+  const entitlementQuery = useBillingEntitlement(userId);
+  const portal = useBillingPortal();
+  const entitlement = entitlementQuery.data;
+
+  const openPortal = () =>
+    portal.mutate(undefined, {
+      onError: (error) =>
+        toast({
+          title: "Portail indisponible",
+          description:
+            error instanceof Error
+              ? error.message
+              : "Impossible d'ouvrir le portail de facturation.",
+          variant: "destructive",
+        }),
+    });
+
+  return (
+    <Card
+      className={cn(
+        "border-cyan-500/30 bg-[#0a1124]/80 text-blue-100 backdrop-blur",
+        className,
+      )}
+    >
+      <CardHeader className="gap-2">
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2 text-white">
+            <CreditCard className="h-5 w-5 text-cyan-200" aria-hidden="true" />
+            Abonnement
+          </CardTitle>
+          {entitlement && hasPremiumAccess(entitlement) && (
+            <Badge className="border-fuchsia-400/40 bg-fuchsia-500/15 text-fuchsia-100">
+              <Sparkles className="mr-1.5 h-3.5 w-3.5" aria-hidden="true" />
+              Premium
+            </Badge>
+          )}
+        </div>
+        <CardDescription className="text-blue-100/60">
+          Plan et renouvellement synchronisés avec Stripe.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        {entitlementQuery.isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-cyan-200" />
+        ) : entitlementQuery.isError || !entitlement ? (
+          <p className="text-sm text-red-200">
+            Abonnement indisponible pour le moment.
+          </p>
+        ) : (
+          <div>
+            <p className="text-2xl font-semibold text-white">
+              {billingPlanLabel(entitlement.plan)}
+              {entitlement.billingInterval && (
+                <span className="ml-2 text-sm font-medium text-blue-100/60">
+                  {entitlement.billingInterval === "yearly"
+                    ? "annuel"
+                    : "mensuel"}
+                </span>
+              )}
+            </p>
+            <p className="text-sm text-blue-100/70">
+              {describeBillingStatus(entitlement)}
+            </p>
+          </div>
+        )}
+        {entitlement?.manageable ? (
+          <Button
+            onClick={openPortal}
+            disabled={portal.isPending}
+            variant="outline"
+            className="border-cyan-500/40 bg-cyan-500/10 text-cyan-100 hover:bg-cyan-500/20"
+          >
+            {portal.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ExternalLink className="mr-2 h-4 w-4" aria-hidden="true" />
+            )}
+            Gérer l'abonnement
+          </Button>
+        ) : (
+          <Button
+            asChild
+            variant="outline"
+            className="border-cyan-500/40 bg-cyan-500/10 text-cyan-100 hover:bg-cyan-500/20"
+          >
+            <Link to="/pricing">Voir les offres</Link>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const maybeSingle = vi.hoisted(() => vi.fn());
+const eq = vi.hoisted(() => vi.fn(() => ({ maybeSingle })));
+const select = vi.hoisted(() => vi.fn(() => ({ eq })));
+const from = vi.hoisted(() => vi.fn(() => ({ select })));
+const invoke = vi.hoisted(() => vi.fn());
+
+vi.mock("@/integrations/supabase/client", () => ({
+  requireSupabaseClient: () => ({ from, functions: { invoke } }),
+}));
+
+import {
+  type BillingEntitlement,
+  createBillingPortalSession,
+  describeBillingStatus,
+  FREE_ENTITLEMENT,
+  getBillingEntitlement,
+  hasPremiumAccess,
+} from "./billing-api";
+
+const userId = "5a1d7c3e-2b4f-4c8a-9e61-0f3b2d4a6c71";
+
+const proEntitlement = (
+  overrides: Partial<BillingEntitlement> = {},
+): BillingEntitlement => ({
+  plan: "pro",
+  status: "active",
+  billingInterval: "monthly",
+  source: "stripe",
+  currentPeriodEnd: "2026-11-09T08:53:20+00:00",
+  cancelAtPeriodEnd: false,
+  manageable: true,
+  ...overrides,
+});
+
+describe("billing API", () => {
+  beforeEach(() => {
+    maybeSingle.mockReset();
+    invoke.mockReset();
+    from.mockClear();
+  });
+
+  it("reads the player's own entitlement row", async () => {
+    maybeSingle.mockResolvedValue({
+      data: {
+        plan: "pro",
+        status: "past_due",
+        billing_interval: "yearly",
+        source: "stripe",
+        stripe_customer_id: "cus_QvTestCustomer01",
+        current_period_end: "2026-11-09T08:53:20+00:00",
+        cancel_at_period_end: false,
+      },
+      error: null,
+    });
+
+    await expect(getBillingEntitlement(userId)).resolves.toEqual(
+      proEntitlement({ status: "past_due", billingInterval: "yearly" }),
+    );
+    expect(from).toHaveBeenCalledWith("billing_entitlements");
+    expect(eq).toHaveBeenCalledWith("user_id", userId);
+  });
+
+  it("treats a missing row as the free plan", async () => {
+    maybeSingle.mockResolvedValue({ data: null, error: null });
+    await expect(getBillingEntitlement(userId)).resolves.toEqual(
+      FREE_ENTITLEMENT,
+    );
+  });
+
+  it("rejects an unknown plan from the server", async () => {
+    maybeSingle.mockResolvedValue({
+      data: { plan: "platinum", status: "active" },
+      error: null,
+    });
+    await expect(getBillingEntitlement(userId)).rejects.toThrow(
+      "plan invalide",
+    );
+  });
+
+  it("returns the billing portal URL", async () => {
+    invoke.mockResolvedValue({
+      data: { url: "https://billing.stripe.com/p/session/test_123" },
+      error: null,
+    });
+    await expect(createBillingPortalSession()).resolves.toBe(
+      "https://billing.stripe.com/p/session/test_123",
+    );
+    expect(invoke).toHaveBeenCalledWith("create-billing-portal-session", {
+      body: {},
+    });
+  });
+
+  it("surfaces a portal without Stripe customer", async () => {
+    invoke.mockResolvedValue({
+      data: { error: "Aucun abonnement Stripe n'est associé à ce compte." },
+      error: null,
+    });
+    await expect(createBillingPortalSession()).rejects.toThrow(
+      "Aucun abonnement Stripe",
+    );
+  });
+});
+
+describe("premium access", () => {
+  const now = Date.parse("2026-10-20T00:00:00Z");
+
+  it("follows the server rules", () => {
+    expect(hasPremiumAccess(proEntitlement(), now)).toBe(true);
+    expect(hasPremiumAccess(proEntitlement({ plan: "starter" }), now)).toBe(
+      false,
+    );
+    expect(hasPremiumAccess(proEntitlement({ status: "canceled" }), now)).toBe(
+      false,
+    );
+    expect(hasPremiumAccess(FREE_ENTITLEMENT, now)).toBe(false);
+  });
+
+  it("keeps a past-due plan until the paid period ends", () => {
+    const pastDue = proEntitlement({ status: "past_due" });
+    expect(hasPremiumAccess(pastDue, now)).toBe(true);
+    expect(hasPremiumAccess(pastDue, Date.parse("2026-11-10T00:00:00Z"))).toBe(
+      false,
+    );
+  });
+});
+
+describe("billing status line", () => {
+  it("announces the renewal or the end of the plan", () => {
+    expect(describeBillingStatus(proEntitlement())).toBe(
+      "Renouvellement le 9 novembre 2026.",
+    );
+    expect(
+      describeBillingStatus(proEntitlement({ cancelAtPeriodEnd: true })),
+    ).toBe("Se termine le 9 novembre 2026.");
+    expect(describeBillingStatus(FREE_ENTITLEMENT)).toBe(
+      "Accès gratuit, sans engagement.",
+    );
+    expect(
+      describeBillingStatus(
+        proEntitlement({ source: "manual", currentPeriodEnd: null }),
+      ),
+    ).toBe("Accès attribué par l'équipe Voltus.");
+  });
+});
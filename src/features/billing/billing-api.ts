@@ -0,0 +1,207 @@
+import { requireSupabaseClient } from "@/integrations/supabase/client";
+
+export type BillingPlan = "freemium" | "starter" | "pro" | "club";
+export type BillingStatus =
+  | "active"
+  | "trialing"
+  | "past_due"
+  | "unpaid"
+  | "incomplete"
+  | "canceled";
+export type BillingInterval = "monthly" | "yearly";
+
+/**
+ * The player's own `billing_entitlements` row as written by the Stripe
+ * webhook. Players without a row are on the free plan.
+ */
+export interface BillingEntitlement {
+  plan: BillingPlan;
+  status: BillingStatus;
+  billingInterval: BillingInterval | null;
+  source: "stripe" | "manual" | "none";
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  /** A Stripe customer exists, so the billing portal can be opened. */
+  manageable: boolean;
+}
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+interface DynamicBillingClient {
+  from(name: string): {
+    select(columns: string): {
+      eq(
+        column: string,
+        value: unknown,
+      ): { maybeSingle(): PromiseLike<QueryResult> };
+    };
+  };
+}
+
+export const FREE_ENTITLEMENT: BillingEntitlement = {
+  plan: "freemium",
+  status: "active",
+  billingInterval: null,
+  source: "none",
+  currentPeriodEnd: null,
+  cancelAtPeriodEnd: false,
+  manageable: false,
+};
+
+const PLANS: readonly BillingPlan[] = ["freemium", "starter", "pro", "club"];
+const STATUSES: readonly BillingStatus[] = [
+  "active",
+  "trialing",
+  "past_due",
+  "unpaid",
+  "incomplete",
+  "canceled",
+];
+
+const PLAN_LABELS: Record<BillingPlan, string> = {
+  freemium: "Freemium",
+  starter: "Starter",
+  pro: "Pro",
+  club: "Club / Équipe",
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function enumValue<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  label: string,
+): T {
+  const match = allowed.find((candidate) => candidate === value);
+  if (!match) {
+    throw new Error(`${label} invalide dans la réponse serveur.`);
+  }
+  return match;
+}
+
+export function parseBillingEntitlement(value: unknown): BillingEntitlement {
+  if (!isRecord(value)) {
+    return FREE_ENTITLEMENT;
+  }
+  const periodEnd = value.current_period_end;
+  return {
+    plan: enumValue(value.plan, PLANS, "plan"),
+    status: enumValue(value.status, STATUSES, "status"),
+    billingInterval:
+      value.billing_interval === "monthly" ||
+      value.billing_interval === "yearly"
+        ? value.billing_interval
+        : null,
+    source: value.source === "manual" ? "manual" : "stripe",
+    currentPeriodEnd:
+      typeof periodEnd === "string" && !Number.isNaN(Date.parse(periodEnd))
+        ? periodEnd
+        : null,
+    cancelAtPeriodEnd: value.cancel_at_period_end === true,
+    manageable:
+      typeof value.stripe_customer_id === "string" &&
+      value.stripe_customer_id.length > 0,
+  };
+}
+
+export async function getBillingEntitlement(
+  userId: string,
+): Promise<BillingEntitlement> {
+  const client = requireSupabaseClient() as unknown as DynamicBillingClient;
+  const { data, error } = await client
+    .from("billing_entitlements")
+    .select(
+      "plan,status,billing_interval,source,stripe_customer_id,current_period_end,cancel_at_period_end",
+    )
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Chargement de l'abonnement impossible: ${error.message}`);
+  }
+  return parseBillingEntitlement(data);
+}
+
+/** Returns the Stripe billing portal URL for the signed-in player. */
+export async function createBillingPortalSession(): Promise<string> {
+  const { data, error } = await requireSupabaseClient().functions.invoke<{
+    url?: string;
+    error?: string;
+  }>("create-billing-portal-session", { body: {} });
+  if (error) {
+    throw new Error(
+      error.message ?? "Impossible d'ouvrir le portail de facturation.",
+    );
+  }
+  if (!data?.url) {
+    throw new Error(data?.error ?? "Portail de facturation indisponible.");
+  }
+  return data.url;
+}
+
+/**
+ * Mirrors `isPremiumEntitlement` in the edge functions so the UI never
+ * promises premium features the server will refuse.
+ */
+export function hasPremiumAccess(
+  entitlement: BillingEntitlement,
+  now: number = Date.now(),
+): boolean {
+  if (entitlement.plan !== "pro" && entitlement.plan !== "club") {
+    return false;
+  }
+  if (entitlement.status === "active" || entitlement.status === "trialing") {
+    return true;
+  }
+  return (
+    entitlement.status === "past_due" &&
+    entitlement.currentPeriodEnd !== null &&
+    Date.parse(entitlement.currentPeriodEnd) > now
+  );
+}
+
+export const billingPlanLabel = (plan: BillingPlan): string =>
+  PLAN_LABELS[plan];
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString("fr-FR", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+/** One-line status shown under the plan name. */
+export function describeBillingStatus(entitlement: BillingEntitlement): string {
+  const periodEnd = entitlement.currentPeriodEnd;
+  switch (entitlement.status) {
+    case "past_due":
+      return periodEnd
+        ? `Paiement en échec — accès maintenu jusqu'au ${formatDate(periodEnd)}.`
+        : "Paiement en échec — mettez à jour votre moyen de paiement.";
+    case "unpaid":
+      return "Abonnement suspendu faute de paiement.";
+    case "incomplete":
+      return "Paiement en cours de confirmation.";
+    case "canceled":
+      return "Abonnement résilié.";
+    default:
+      break;
+  }
+  if (entitlement.source === "manual") {
+    return "Accès attribué par l'équipe Voltus.";
+  }
+  if (!periodEnd) {
+    return entitlement.plan === "freemium"
+      ? "Accès gratuit, sans engagement."
+      : "Abonnement actif.";
+  }
+  if (entitlement.cancelAtPeriodEnd) {
+    return `Se termine le ${formatDate(periodEnd)}.`;
+  }
+  return entitlement.status === "trialing"
+    ? `Essai jusqu'au ${formatDate(periodEnd)}.`
+    : `Renouvellement le ${formatDate(periodEnd)}.`;
+}
@@ -0,0 +1,31 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { isSupabaseConfigured } from "@/integrations/supabase/client";
+import {
+  createBillingPortalSession,
+  FREE_ENTITLEMENT,
+  getBillingEntitlement,
+} from "./billing-api";
+
+export const billingEntitlementQueryKey = (userId: string | undefined) =>
+  ["billing-entitlement", userId ?? "anonymous"] as const;
+
+export const useBillingEntitlement = (userId: string | undefined) =>
+  useQuery({
+    queryKey: billingEntitlementQueryKey(userId),
+    queryFn: () =>
+      userId
+        ? getBillingEntitlement(userId)
+        : Promise.resolve(FREE_ENTITLEMENT),
+    enabled: isSupabaseConfigured && Boolean(userId),
+    staleTime: 30_000,
+  });
+
+/** Sends the player to the Stripe billing portal. */
+export const useBillingPortal = () =>
+  useMutation({
+    mutationFn: createBillingPortalSession,
+    onSuccess: (url) => {
+      window.location.href = url;
+    },
+  });
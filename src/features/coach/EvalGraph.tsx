@@ -25,6 +25,8 @@ export const EvalGraph: React.FC<{
       ? "#faad14"
       : quality === "inaccuracy"
       ? "#fadb14"
+      : quality === "rule-driven"
+      ? "#a78bfa"
       : "#52c41a";
 
   return (
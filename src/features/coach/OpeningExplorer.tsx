@@ -0,0 +1,89 @@
+import React, { useMemo } from "react";
+import {
+  exploreOpeningLine,
+  summariseOpenings,
+  type OpeningExplorerGame,
+  type OpeningLine,
+} from "@/lib/openingBook";
+
+const formatMove = (move: string) => `${move.slice(0, 2)}-${move.slice(2)}`;
+
+const formatScore = (score: number) => `${Math.round(score * 100)} %`;
+
+export const OpeningExplorer: React.FC<{
+  opening: OpeningLine | null;
+  /** UCI moves played up to the replayed position. */
+  line: string[];
+  /** The player's past games with the same colour. */
+  games: OpeningExplorerGame[];
+}> = ({ opening, line, games }) => {
+  const nextMoves = useMemo(
+    () => exploreOpeningLine(games, line).slice(0, 5),
+    [games, line],
+  );
+  const openings = useMemo(() => summariseOpenings(games).slice(0, 4), [games]);
+
+  return (
+    <div className="space-y-4 text-xs text-cyan-100/80">
+      <div className="text-sm font-semibold text-white">
+        {opening
+          ? `${opening.eco} · ${opening.name}`
+          : "Ouverture hors répertoire"}
+      </div>
+      <div className="space-y-2">
+        <div className="uppercase tracking-[0.2em] text-cyan-100/60">
+          Suites jouées dans tes parties
+        </div>
+        {nextMoves.length === 0 && (
+          <p className="text-cyan-100/60">
+            Aucune de tes parties n'a atteint cette position.
+          </p>
+        )}
+        {nextMoves.map((entry) => (
+          <div
+            key={entry.move}
+            className="flex items-center justify-between rounded-xl bg-white/5 px-3 py-2"
+          >
+            <div>
+              <div className="font-semibold text-white">
+                {formatMove(entry.move)}
+              </div>
+              {entry.opening && (
+                <div className="opacity-70">{entry.opening.name}</div>
+              )}
+            </div>
+            <div className="text-right">
+              <div className="font-semibold text-cyan-100">
+                {formatScore(entry.score)}
+              </div>
+              <div className="opacity-70">
+                {entry.games} parties · +{entry.wins} ={entry.draws} −
+                {entry.losses}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+      {openings.length > 0 && (
+        <div className="space-y-2">
+          <div className="uppercase tracking-[0.2em] text-cyan-100/60">
+            Tes ouvertures
+          </div>
+          {openings.map((entry) => (
+            <div
+              key={`${entry.eco} ${entry.name}`}
+              className="flex items-center justify-between gap-3"
+            >
+              <span>
+                {entry.eco} · {entry.name}
+              </span>
+              <span className="whitespace-nowrap font-semibold text-cyan-100">
+                {formatScore(entry.score)} ({entry.games})
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,10 @@
 import { useEffect, useMemo, useState } from "react";
 import { cn } from "@/lib/utils";
+import { BOARD_FILE_LETTERS } from "@/rules-v2/board-geometry";
 import type { MatchMove, MatchSide } from "./contracts";
 import {
   buildMoveUci,
-  parseFenBoard,
+  parseFenPosition,
   squaresForPerspective,
   type BoardSquare,
 } from "./fen";
@@ -35,10 +36,16 @@ export function MultiplayerBoard({
   const [selected, setSelected] = useState<BoardSquare | null>(null);
   const parsed = useMemo(() => {
     try {
-      return { board: parseFenBoard(fen), error: null };
+      const position = parseFenPosition(fen);
+      return {
+        board: position.board,
+        geometry: position.geometry,
+        error: null,
+      };
     } catch (error) {
       return {
         board: null,
+        geometry: null,
         error:
           error instanceof Error
             ? error.message
@@ -46,16 +53,17 @@ export function MultiplayerBoard({
       };
     }
   }, [fen]);
+  const geometry = parsed.geometry;
   const squares = useMemo(
-    () => squaresForPerspective(perspective),
-    [perspective],
+    () => (geometry ? squaresForPerspective(perspective, geometry) : []),
+    [geometry, perspective],
   );
 
   useEffect(() => {
     setSelected(null);
   }, [disabled, fen]);
 
-  if (!parsed.board) {
+  if (!parsed.board || !geometry) {
     return (
       <div
         className="flex aspect-square w-full items-center justify-center rounded-2xl border border-red-400/40 bg-red-950/30 p-8 text-center text-sm text-red-100"
@@ -91,27 +99,39 @@ export function MultiplayerBoard({
       return;
     }
 
-    onMoveIntent(buildMoveUci(selected, square, selectedPiece));
+    onMoveIntent(buildMoveUci(selected, square, selectedPiece, geometry.ranks));
     setSelected(null);
   };
 
   return (
-    <div className="relative mx-auto aspect-square w-full max-w-[680px] rounded-2xl border border-cyan-300/25 bg-slate-950/80 p-2 shadow-[0_20px_80px_-35px_rgba(34,211,238,0.8)] sm:p-3">
+    <div
+      className="relative mx-auto w-full max-w-[680px] rounded-2xl border border-cyan-300/25 bg-slate-950/80 p-2 shadow-[0_20px_80px_-35px_rgba(34,211,238,0.8)] sm:p-3"
+      style={{ aspectRatio: `${geometry.files} / ${geometry.ranks}` }}
+    >
       <div
-        className="grid h-full w-full grid-cols-8 overflow-hidden rounded-xl border border-white/10"
+        className="grid h-full w-full overflow-hidden rounded-xl border border-white/10"
+        style={{
+          gridTemplateColumns: `repeat(${geometry.files}, minmax(0, 1fr))`,
+        }}
         aria-label={`Échiquier, perspective ${perspective === "white" ? "blanche" : "noire"}`}
         role="group"
       >
         {squares.map((square, index) => {
+          const row = Math.floor(index / geometry.files);
+          const column = index % geometry.files;
+          if (geometry.holes.includes(square)) {
+            return <div key={square} aria-hidden="true" data-hole={square} />;
+          }
           const piece = parsed.board?.[square];
+          const rank = square.slice(1);
           const isLight =
-            (square.charCodeAt(0) - 97 + Number(square[1])) % 2 === 0;
+            (BOARD_FILE_LETTERS.indexOf(square[0] as never) + Number(rank)) %
+              2 ===
+            0;
           const isSelected = selected === square;
           const isLastMove =
             lastMove?.from === square || lastMove?.to === square;
           const canSelect = !disabled && piece?.color === perspective;
-          const row = Math.floor(index / 8);
-          const column = index % 8;
           const pieceLabel = piece
             ? `${PIECE_LABELS[piece.kind]} ${piece.color === "white" ? "blanc" : "noir"}`
             : "case vide";
@@ -137,10 +157,10 @@ export function MultiplayerBoard({
             >
               {column === 0 && (
                 <span className="pointer-events-none absolute left-1 top-0.5 text-[9px] font-bold text-slate-950/65 sm:text-[11px]">
-                  {square[1]}
+                  {rank}
                 </span>
               )}
-              {row === 7 && (
+              {row === geometry.ranks - 1 && (
                 <span className="pointer-events-none absolute bottom-0.5 right-1 text-[9px] font-bold text-slate-950/65 sm:text-[11px]">
                   {square[0]}
                 </span>
@@ -2,14 +2,20 @@ import { useState } from "react";
 import {
   AlertTriangle,
   CheckCircle2,
+  Download,
+  Eye,
   Flag,
+  Handshake,
   History,
   Loader2,
   Radio,
   RefreshCw,
+  Undo2,
   ShieldCheck,
   TimerOff,
+  Users,
   WifiOff,
+  X,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -32,13 +38,17 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { downloadPgn } from "@/lib/pgn";
 import { cn } from "@/lib/utils";
 import { formatClock } from "./clock";
 import type {
+  DrawCommand,
   MatchIdentity,
   MatchParticipant,
   MatchSide,
+  MatchViewerRole,
   RealtimeConnectionStatus,
+  TakebackCommand,
 } from "./contracts";
 import { canonicalFenFromMoves } from "./fen";
 import { truncateServerIdentity } from "./match-bootstrap";
@@ -48,8 +58,13 @@ import {
   type ProcessMoveFunctionsClient,
 } from "./move-api";
 import { MultiplayerBoard } from "./MultiplayerBoard";
+import { buildMatchPgn } from "./pgn-export";
 import type { SupabaseMultiplayerAdapter } from "./supabase-adapter";
-import { canClaimDisplayedTimeout } from "./terminal-actions";
+import {
+  canClaimDisplayedTimeout,
+  displayedDrawActions,
+  displayedTakebackActions,
+} from "./terminal-actions";
 import { useMultiplayerMatch } from "./useMultiplayerMatch";
 
 interface MultiplayerMatchSessionViewProps {
@@ -57,6 +72,9 @@ interface MultiplayerMatchSessionViewProps {
   functionsClient: ProcessMoveFunctionsClient;
   identity: MatchIdentity;
   userId: string;
+  /** Spectators get the same board without any command. */
+  viewerRole?: MatchViewerRole;
+  spectatorDelayMs?: number;
 }
 
 const CONNECTION_LABELS: Readonly<Record<RealtimeConnectionStatus, string>> =
@@ -86,7 +104,9 @@ const sideLabel = (side: MatchSide): string =>
 const participantLabel = (
   participant: MatchParticipant,
   userId: string,
-): string => (participant.userId === userId ? "Vous" : "Adversaire");
+  spectating: boolean,
+): string =>
+  spectating ? "Joueur" : participant.userId === userId ? "Vous" : "Adversaire";
 
 const identityMatches = (left: MatchIdentity, right: MatchIdentity): boolean =>
   left.matchId === right.matchId &&
@@ -100,14 +120,18 @@ export function MultiplayerMatchSessionView({
   functionsClient,
   identity,
   userId,
+  viewerRole = "player",
+  spectatorDelayMs = 0,
 }: MultiplayerMatchSessionViewProps) {
   const {
     state,
     connection,
     clock,
     presence,
+    spectatorCount,
     bufferedEvents,
     missingSequence,
+    submitCommand,
     claimTimeout,
     resignMatch,
     recover,
@@ -124,21 +148,30 @@ export function MultiplayerMatchSessionView({
   const [notice, setNotice] = useState<string | null>(null);
   const [resignationPending, setResignationPending] = useState(false);
   const [timeoutClaimPending, setTimeoutClaimPending] = useState(false);
+  const [drawPending, setDrawPending] = useState(false);
+  const [takebackPending, setTakebackPending] = useState(false);
   const [customRulesUnavailable, setCustomRulesUnavailable] = useState(false);
+  const [pgnError, setPgnError] = useState<string | null>(null);
 
   const player = state.participants.find(
     (participant) => participant.userId === userId,
   );
-  const playerSide = player?.side ?? null;
+  const spectating = viewerRole === "spectator";
+  const playerSide = spectating ? null : (player?.side ?? null);
   const identityMismatch = !identityMatches(identity, state.identity);
   const participantIdentityMissing =
-    state.phase !== "synchronizing" && playerSide === null;
-  const canonicalFen = canonicalFenFromMoves(state.moves);
+    !spectating && state.phase !== "synchronizing" && playerSide === null;
+  const canonicalFen = canonicalFenFromMoves(state.moves, state.initialFen);
   const lastMove = state.moves.length
     ? state.moves[state.moves.length - 1]
     : null;
 
   const interactionBlockReason = (() => {
+    if (spectating) {
+      return spectatorDelayMs > 0 && state.phase === "playing"
+        ? `Mode spectateur : la partie est diffusée avec ${Math.round(spectatorDelayMs / 1000)} s de différé.`
+        : "Mode spectateur : la partie est en lecture seule.";
+    }
     if (customRulesUnavailable) {
       return "Le validateur serveur des règles personnalisées n'est pas encore disponible. Aucun coup local ne sera appliqué.";
     }
@@ -162,7 +195,13 @@ export function MultiplayerMatchSessionView({
         ? "La partie est en pause côté serveur."
         : "La partie n'a pas encore commencé.";
     }
-    if (movePending || resignationPending || timeoutClaimPending) {
+    if (
+      movePending ||
+      resignationPending ||
+      timeoutClaimPending ||
+      drawPending ||
+      takebackPending
+    ) {
       return "Le serveur traite l'action. L'échiquier attend l'événement canonique.";
     }
     if (playerSide === null || state.currentSide !== playerSide) {
@@ -213,6 +252,28 @@ export function MultiplayerMatchSessionView({
     }
   };
 
+  const exportPgn = (): void => {
+    setPgnError(null);
+    const playerName = (side: MatchSide): string =>
+      state.participants.find((participant) => participant.side === side)
+        ?.displayName ?? sideLabel(side);
+    try {
+      downloadPgn(
+        `partie-${identity.matchId.slice(0, 8)}`,
+        buildMatchPgn(state, {
+          white: playerName("white"),
+          black: playerName("black"),
+        }),
+      );
+    } catch (error) {
+      setPgnError(
+        error instanceof Error
+          ? error.message
+          : "Cette partie ne peut pas être exportée en PGN.",
+      );
+    }
+  };
+
   const submitResignation = async (): Promise<void> => {
     if (
       connection !== "connected" ||
@@ -221,6 +282,8 @@ export function MultiplayerMatchSessionView({
       movePending ||
       resignationPending ||
       timeoutClaimPending ||
+      drawPending ||
+      takebackPending ||
       (state.phase !== "playing" && state.phase !== "paused")
     ) {
       return;
@@ -261,7 +324,9 @@ export function MultiplayerMatchSessionView({
       participantIdentityMissing ||
       movePending ||
       resignationPending ||
-      timeoutClaimPending
+      timeoutClaimPending ||
+      drawPending ||
+      takebackPending
     ) {
       return;
     }
@@ -293,6 +358,110 @@ export function MultiplayerMatchSessionView({
     }
   };
 
+  const submitDrawCommand = async (
+    type: DrawCommand["type"],
+  ): Promise<void> => {
+    if (
+      connection !== "connected" ||
+      identityMismatch ||
+      participantIdentityMissing ||
+      movePending ||
+      resignationPending ||
+      timeoutClaimPending ||
+      drawPending ||
+      takebackPending ||
+      state.phase !== "playing"
+    ) {
+      return;
+    }
+    setDrawPending(true);
+    setMoveError(null);
+    setNotice(null);
+    try {
+      await submitCommand({
+        type,
+        clientCommandId: crypto.randomUUID(),
+        identity,
+        expectedRevision: state.lastRevision,
+        createdAtClient: new Date().toISOString(),
+      });
+      setNotice(
+        type === "draw.offer"
+          ? "Nulle proposée. L'adversaire peut l'accepter jusqu'à son prochain coup."
+          : type === "draw.accept"
+            ? "Nulle acceptée par le serveur. Resynchronisation du résultat…"
+            : "Proposition de nulle refusée.",
+      );
+    } catch (error) {
+      setMoveError({
+        code: "DRAW_COMMAND_FAILED",
+        message:
+          error instanceof Error
+            ? error.message
+            : "Le serveur a refusé la commande de nulle.",
+      });
+    } finally {
+      try {
+        await recover();
+      } catch {
+        // The canonical session exposes recovery failures.
+      }
+      setDrawPending(false);
+    }
+  };
+
+  const submitTakebackCommand = async (
+    type: TakebackCommand["type"],
+  ): Promise<void> => {
+    if (
+      connection !== "connected" ||
+      identityMismatch ||
+      participantIdentityMissing ||
+      movePending ||
+      resignationPending ||
+      timeoutClaimPending ||
+      drawPending ||
+      takebackPending ||
+      state.phase !== "playing"
+    ) {
+      return;
+    }
+    setTakebackPending(true);
+    setMoveError(null);
+    setNotice(null);
+    try {
+      await submitCommand({
+        type,
+        clientCommandId: crypto.randomUUID(),
+        identity,
+        expectedRevision: state.lastRevision,
+        createdAtClient: new Date().toISOString(),
+      });
+      setNotice(
+        type === "takeback.request"
+          ? "Reprise demandée. Elle expire si l'adversaire joue."
+          : type === "takeback.accept"
+            ? "Reprise acceptée. Le serveur rétablit la position précédente…"
+            : "Demande de reprise refusée.",
+      );
+    } catch (error) {
+      setMoveError({
+        code: "TAKEBACK_COMMAND_FAILED",
+        message:
+          error instanceof Error
+            ? error.message
+            : "Le serveur a refusé la commande de reprise.",
+      });
+    } finally {
+      try {
+        await recover();
+      } catch {
+        // The canonical session exposes recovery failures.
+      }
+      setTakebackPending(false);
+    }
+  };
+
   const orderedParticipants = [...state.participants].sort((left, right) => {
     if (left.userId === userId) return 1;
     if (right.userId === userId) return -1;
@@ -304,7 +473,28 @@ export function MultiplayerMatchSessionView({
     clock,
   });
   const terminalActionPending =
-    movePending || resignationPending || timeoutClaimPending;
+    movePending ||
+    resignationPending ||
+    timeoutClaimPending ||
+    drawPending ||
+    takebackPending;
+  const drawActions = displayedDrawActions({
+    phase: state.phase,
+    playerSide,
+    drawOffer: state.drawOffer,
+  });
+  const takebackActions = displayedTakebackActions({
+    phase: state.phase,
+    playerSide,
+    rated: state.rated,
+    lastMove,
+    takebackRequest: state.takebackRequest,
+  });
+  const drawDisabled =
+    terminalActionPending ||
+    connection !== "connected" ||
+    identityMismatch ||
+    participantIdentityMissing;
   const resignDisabled =
     terminalActionPending ||
     connection !== "connected" ||
@@ -339,6 +529,26 @@ export function MultiplayerMatchSessionView({
             >
               {PHASE_LABELS[state.phase]}
             </Badge>
+            {spectating && (
+              <Badge
+                variant="outline"
+                className="border-sky-300/30 text-sky-100"
+              >
+                <Eye className="mr-1 h-3 w-3" aria-hidden="true" />
+                Spectateur
+                {spectatorDelayMs > 0 &&
+                  ` · différé ${Math.round(spectatorDelayMs / 1000)} s`}
+              </Badge>
+            )}
+            {spectatorCount > 0 && (
+              <Badge
+                variant="outline"
+                className="border-white/20 text-slate-200"
+              >
+                <Users className="mr-1 h-3 w-3" aria-hidden="true" />
+                {spectatorCount} spectateur{spectatorCount > 1 ? "s" : ""}
+              </Badge>
+            )}
           </div>
           <h1 className="text-2xl font-black tracking-tight text-white sm:text-3xl">
             Partie multijoueur
@@ -379,46 +589,162 @@ export function MultiplayerMatchSessionView({
               Réclamer au temps
             </Button>
           )}
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
+          {drawActions === "offer" && (
+            <Button
+              type="button"
+              variant="outline"
+              className="border-white/20 bg-slate-950/70 text-white hover:bg-white/10 hover:text-white"
+              onClick={() => void submitDrawCommand("draw.offer")}
+              disabled={drawDisabled}
+            >
+              {drawPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <Handshake className="h-4 w-4" aria-hidden="true" />
+              )}
+              Proposer nulle
+            </Button>
+          )}
+          {drawActions === "awaiting" && (
+            <Button
+              type="button"
+              variant="outline"
+              className="border-white/20 bg-slate-950/70 text-white"
+              disabled
+            >
+              <Handshake className="h-4 w-4" aria-hidden="true" />
+              Nulle proposée
+            </Button>
+          )}
+          {drawActions === "respond" && (
+            <>
+              <Button
+                type="button"
+                className="bg-emerald-500 text-slate-950 hover:bg-emerald-400"
+                onClick={() => void submitDrawCommand("draw.accept")}
+                disabled={drawDisabled}
+              >
+                {drawPending ? (
+                  <Loader2
+                    className="h-4 w-4 animate-spin"
+                    aria-hidden="true"
+                  />
+                ) : (
+                  <Handshake className="h-4 w-4" aria-hidden="true" />
+                )}
+                Accepter la nulle
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="border-white/20 bg-slate-950/70 text-white hover:bg-white/10 hover:text-white"
+                onClick={() => void submitDrawCommand("draw.decline")}
+                disabled={drawDisabled}
+              >
+                <X className="h-4 w-4" aria-hidden="true" />
+                Refuser
+              </Button>
+            </>
+          )}
+          {takebackActions === "request" && (
+            <Button
+              type="button"
+              variant="outline"
+              className="border-white/20 bg-slate-950/70 text-white hover:bg-white/10 hover:text-white"
+              onClick={() => void submitTakebackCommand("takeback.request")}
+              disabled={drawDisabled}
+            >
+              {takebackPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <Undo2 className="h-4 w-4" aria-hidden="true" />
+              )}
+              Demander à reprendre
+            </Button>
+          )}
+          {takebackActions === "awaiting" && (
+            <Button
+              type="button"
+              variant="outline"
+              className="border-white/20 bg-slate-950/70 text-white"
+              disabled
+            >
+              <Undo2 className="h-4 w-4" aria-hidden="true" />
+              Reprise demandée
+            </Button>
+          )}
+          {takebackActions === "respond" && (
+            <>
               <Button
                 type="button"
-                variant="destructive"
-                disabled={resignDisabled}
+                className="bg-sky-400 text-slate-950 hover:bg-sky-300"
+                onClick={() => void submitTakebackCommand("takeback.accept")}
+                disabled={drawDisabled}
               >
-                {resignationPending ? (
+                {takebackPending ? (
                   <Loader2
                     className="h-4 w-4 animate-spin"
                     aria-hidden="true"
                   />
                 ) : (
-                  <Flag className="h-4 w-4" aria-hidden="true" />
+                  <Undo2 className="h-4 w-4" aria-hidden="true" />
                 )}
-                Abandonner
+                Accepter la reprise
               </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent className="border-white/10 bg-slate-950 text-white">
-              <AlertDialogHeader>
-                <AlertDialogTitle>Abandonner la partie ?</AlertDialogTitle>
-                <AlertDialogDescription className="text-slate-300">
-                  Le serveur enregistrera immédiatement une défaite par abandon
-                  si la partie et sa révision sont encore valides. Le navigateur
-                  ne produit jamais le résultat localement.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel className="border-white/20 bg-transparent text-white hover:bg-white/10 hover:text-white">
-                  Continuer la partie
-                </AlertDialogCancel>
-                <AlertDialogAction
-                  className="bg-red-600 text-white hover:bg-red-500"
-                  onClick={() => void submitResignation()}
+              <Button
+                type="button"
+                variant="outline"
+                className="border-white/20 bg-slate-950/70 text-white hover:bg-white/10 hover:text-white"
+                onClick={() => void submitTakebackCommand("takeback.decline")}
+                disabled={drawDisabled}
+              >
+                <X className="h-4 w-4" aria-hidden="true" />
+                Refuser la reprise
+              </Button>
+            </>
+          )}
+          {!spectating && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  type="button"
+                  variant="destructive"
+                  disabled={resignDisabled}
                 >
-                  Confirmer l'abandon
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+                  {resignationPending ? (
+                    <Loader2
+                      className="h-4 w-4 animate-spin"
+                      aria-hidden="true"
+                    />
+                  ) : (
+                    <Flag className="h-4 w-4" aria-hidden="true" />
+                  )}
+                  Abandonner
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent className="border-white/10 bg-slate-950 text-white">
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Abandonner la partie ?</AlertDialogTitle>
+                  <AlertDialogDescription className="text-slate-300">
+                    Le serveur enregistrera immédiatement une défaite par
+                    abandon si la partie et sa révision sont encore valides. Le
+                    navigateur ne produit jamais le résultat localement.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel className="border-white/20 bg-transparent text-white hover:bg-white/10 hover:text-white">
+                    Continuer la partie
+                  </AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-red-600 text-white hover:bg-red-500"
+                    onClick={() => void submitResignation()}
+                  >
+                    Confirmer l'abandon
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
         </div>
       </div>
 
@@ -477,7 +803,7 @@ export function MultiplayerMatchSessionView({
                 >
                   <div>
                     <p className="font-semibold text-white">
-                      {participantLabel(participant, userId)} ·{" "}
+                      {participantLabel(participant, userId, spectating)} ·{" "}
                       {sideLabel(participant.side)}
                     </p>
                     <p className="text-xs text-slate-400">
@@ -557,7 +883,23 @@ export function MultiplayerMatchSessionView({
                 Uniquement les coups commités par le serveur.
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-3">
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="w-full border-cyan-500/40 text-cyan-200 hover:bg-cyan-500/10"
+                disabled={state.moves.length === 0}
+                onClick={exportPgn}
+              >
+                <Download className="mr-2 h-4 w-4" aria-hidden="true" />
+                Exporter PGN
+              </Button>
+              {pgnError && (
+                <p className="text-xs text-amber-200" role="alert">
+                  {pgnError}
+                </p>
+              )}
               <ScrollArea className="h-64 pr-3">
                 {state.moves.length === 0 ? (
                   <p className="text-sm text-slate-400">Aucun coup commité.</p>
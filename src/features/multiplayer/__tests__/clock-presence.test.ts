@@ -29,6 +29,18 @@ describe("server-anchored multiplayer clock", () => {
     expect(derived.timedOutSide).toBe("black");
   });
 
+  it("only holds the clock for what remains of a simple delay", () => {
+    const derived = deriveClock(
+      clock("white", {
+        turnStartedAt: new Date(Date.parse(T0) - 2_000).toISOString(),
+        delayMs: 5_000,
+        delayMode: "simple",
+      }),
+      Date.parse(T0) + 4_000,
+    );
+    expect(derived.whiteRemainingMs).toBe(299_000);
+  });
+
   it("uses a median server offset to resist one latency outlier", () => {
     const estimator = new ServerTimeEstimator(5);
     estimator.observe({
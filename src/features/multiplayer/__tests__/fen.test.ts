@@ -4,6 +4,7 @@ import {
   buildMoveUci,
   canonicalFenFromMoves,
   parseFenBoard,
+  parseFenPosition,
   squaresForPerspective,
 } from "../fen";
 
@@ -47,6 +48,38 @@ describe("canonical multiplayer FEN", () => {
     expect(squaresForPerspective("black")[63]).toBe("a8");
   });
 
+  it("reads variant boards with wide ranks and holes", () => {
+    const wide = parseFenPosition(
+      "rnabqkbcnr/pppppppppp/10/10/10/10/PPPPPPPPPP/RNABQKBCNR w KQkq - 0 1",
+    );
+    expect(wide.geometry).toMatchObject({ files: 10, ranks: 8, holes: [] });
+    expect(wide.board.j1).toMatchObject({ color: "white", kind: "rook" });
+    expect(wide.board.c8).toEqual({
+      color: "black",
+      kind: "fairy",
+      symbol: "A",
+    });
+
+    const holed = parseFenPosition(
+      "rnbqkbnr/pppppppp/8/3**3/3**3/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+    );
+    expect(holed.geometry.holes).toEqual(["d5", "e5", "d4", "e4"]);
+    expect(() => parseFenBoard(holed.geometry.holes.join(""))).toThrow();
+    expect(() => parseFenPosition("rnqknr/pppppp/6/5/PPPPPP/RNQKNR")).toThrow(
+      /rangée incomplète/,
+    );
+  });
+
+  it("orients and promotes on the declared geometry", () => {
+    const { board, geometry } = parseFenPosition("6/P5/6/6/5p/6 w - - 0 1");
+    const squares = squaresForPerspective("white", geometry);
+    expect(squares).toHaveLength(36);
+    expect(squares[0]).toBe("a6");
+    expect(squaresForPerspective("black", geometry)[0]).toBe("f1");
+    expect(buildMoveUci("a5", "a6", board.a5!, geometry.ranks)).toBe("a5a6q");
+    expect(buildMoveUci("a5", "a6", board.a5!)).toBe("a5a6");
+  });
+
   it("defaults server promotion intents to a queen", () => {
     const board = parseFenBoard("8/P7/8/8/8/8/7p/8 w - - 0 1");
     expect(buildMoveUci("a7", "a8", board.a7!)).toBe("a7a8q");
@@ -32,6 +32,9 @@ export const clock = (
   turnStartedAt: activeSide ? T0 : null,
   pausedAt: null,
   serverNow: T0,
+  incrementMs: 0,
+  delayMs: 0,
+  delayMode: "none",
   ...overrides,
 });
 
@@ -11,6 +11,9 @@ describe("multiplayer match bootstrap errors", () => {
         new Error("Chargement a échoué (42501): MATCH_NOT_ACCESSIBLE"),
       ),
     ).toBe("forbidden");
+    expect(
+      classifyMatchBootstrapFailure(new Error("SPECTATORS_NOT_ALLOWED")),
+    ).toBe("forbidden");
     expect(classifyMatchBootstrapFailure(new Error("MATCH_NOT_FOUND"))).toBe(
       "not-found",
     );
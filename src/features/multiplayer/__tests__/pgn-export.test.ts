@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { PgnError } from "@/lib/pgn";
+import { buildMatchPgn } from "../pgn-export";
+import { createInitialMatchState } from "../state-machine";
+import { HASH, identity, move } from "./fixtures";
+
+const players = { white: "Alice", black: "Bob" };
+
+describe("buildMatchPgn", () => {
+  it("writes the committed moves, the server result and the ruleset hash", () => {
+    const state = {
+      ...createInitialMatchState(identity),
+      phase: "finished" as const,
+      moves: [
+        move(1, "white", "f2", "f3"),
+        move(2, "black", "e7", "e5"),
+        move(3, "white", "g2", "g4"),
+        move(4, "black", "d8", "h4"),
+      ],
+      result: { winner: "black" as const, reason: "checkmate" as const },
+    };
+
+    const pgn = buildMatchPgn(state, players, new Date(Date.UTC(2026, 6, 20)));
+
+    expect(pgn).toContain('[Date "2026.07.20"]');
+    expect(pgn).toContain('[White "Alice"]');
+    expect(pgn).toContain(`[RulesetHash "${HASH}"]`);
+    expect(pgn.trim().endsWith("1. f3 e5 2. g4 Qh4# 0-1")).toBe(true);
+  });
+
+  it("refuses a Rule Architect match instead of replaying it without its rules", () => {
+    const state = {
+      ...createInitialMatchState(identity),
+      moves: [
+        {
+          ...move(1, "white", "e2", "e4"),
+          ruleState: { cooldowns: {} },
+          ruleStateHash: "b".repeat(64),
+        },
+      ],
+    };
+
+    expect(() => buildMatchPgn(state, players)).toThrow(PgnError);
+    expect(() => buildMatchPgn(state, players)).toThrow(
+      /règles personnalisées/,
+    );
+  });
+});
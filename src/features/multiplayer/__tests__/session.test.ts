@@ -56,6 +56,7 @@ class FakeStore implements MatchEventStore {
       serverNow: T0,
       authoritativeRevision: 0,
       eventSequence: 1,
+      spectatorCount: 0,
       participants,
     };
   }
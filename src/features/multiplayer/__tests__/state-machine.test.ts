@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import { STANDARD_START_FEN } from "../fen";
 import {
   createInitialMatchState,
   hydrateMatchState,
@@ -85,13 +86,22 @@ describe("multiplayer state machine", () => {
       revision: 11,
       phase: "paused",
       currentSide: "black",
+      initialFen: STANDARD_START_FEN,
       moves: [move(1, "white", "e2", "e4")],
       clock: clock(null, { pausedAt: T0 }),
       participants,
       result: null,
+      rated: false,
+      drawOffer: { side: "white", expiresAtPly: 2 },
+      takebackRequest: null,
+      viewerRole: "spectator",
+      spectatorDelayMs: 30_000,
+      spectatorCount: 2,
       capturedAt: T0,
     });
     expect(state.phase).toBe("paused");
+    expect(state.spectatorCount).toBe(2);
+    expect(state.drawOffer).toEqual({ side: "white", expiresAtPly: 2 });
     expect(state.lastSequence).toBe(12);
     expect(state.moves).toHaveLength(1);
   });
@@ -110,4 +120,163 @@ describe("multiplayer state machine", () => {
     expect(state.phase).toBe("finished");
     expect(state.result).toEqual({ winner: "white", reason: "checkmate" });
   });
+
+  it("tracks a draw offer until the opponent answers it", () => {
+    let state = reduceMatchEvent(
+      startedState(),
+      asAnyEvent(event(3, "draw.offered", { side: "white", expiresAtPly: 2 })),
+    );
+    expect(state.drawOffer).toEqual({ side: "white", expiresAtPly: 2 });
+    expect(() =>
+      reduceMatchEvent(
+        state,
+        asAnyEvent(event(4, "draw.declined", { side: "white" })),
+      ),
+    ).toThrow(MatchStateTransitionError);
+
+    state = reduceMatchEvent(
+      state,
+      asAnyEvent(event(4, "draw.declined", { side: "black" })),
+    );
+    expect(state.drawOffer).toBeNull();
+  });
+
+  it("lets an unanswered draw offer lapse after the opponent moves", () => {
+    let state = reduceMatchEvent(
+      startedState(),
+      asAnyEvent(event(3, "draw.offered", { side: "white", expiresAtPly: 2 })),
+    );
+    state = reduceMatchEvent(
+      state,
+      asAnyEvent(
+        event(4, "move.committed", {
+          move: move(1, "white", "e2", "e4"),
+          nextSide: "black",
+          clock: clock("black"),
+        }),
+      ),
+    );
+    expect(state.drawOffer).not.toBeNull();
+
+    state = reduceMatchEvent(
+      state,
+      asAnyEvent(
+        event(5, "move.committed", {
+          move: move(2, "black", "e7", "e5"),
+          nextSide: "white",
+          clock: clock("white"),
+        }),
+      ),
+    );
+    expect(state.drawOffer).toBeNull();
+  });
+
+  it("clears a pending offer when the match finishes by agreement", () => {
+    let state = reduceMatchEvent(
+      startedState(),
+      asAnyEvent(event(3, "draw.offered", { side: "black", expiresAtPly: 1 })),
+    );
+    state = reduceMatchEvent(
+      state,
+      asAnyEvent(
+        event(4, "match.finished", {
+          result: { winner: null, reason: "agreement" },
+          clock: clock(null),
+          finalPositionHash: "final",
+        }),
+      ),
+    );
+    expect(state.drawOffer).toBeNull();
+    expect(state.result).toEqual({ winner: null, reason: "agreement" });
+  });
+
+  it("rewinds the latest move once the opponent accepts a takeback", () => {
+    let state = reduceMatchEvent(
+      startedState(),
+      asAnyEvent(
+        event(3, "move.committed", {
+          move: move(1, "white", "e2", "e4"),
+          nextSide: "black",
+          clock: clock("black", { whiteRemainingMs: 298_000 }),
+        }),
+      ),
+    );
+    state = reduceMatchEvent(
+      state,
+      asAnyEvent(event(4, "draw.offered", { side: "white", expiresAtPly: 2 })),
+    );
+    expect(() =>
+      reduceMatchEvent(
+        state,
+        asAnyEvent(event(5, "takeback.requested", { side: "black", ply: 1 })),
+      ),
+    ).toThrow(MatchStateTransitionError);
+
+    state = reduceMatchEvent(
+      state,
+      asAnyEvent(event(5, "takeback.requested", { side: "white", ply: 1 })),
+    );
+    expect(state.takebackRequest).toEqual({ side: "white", ply: 1 });
+    state = reduceMatchEvent(
+      state,
+      asAnyEvent(
+        event(6, "takeback.applied", {
+          ply: 1,
+          currentSide: "white",
+          clock: clock("white"),
+        }),
+      ),
+    );
+    expect(state.moves).toEqual([]);
+    expect(state.currentSide).toBe("white");
+    expect(state.clock?.whiteRemainingMs).toBe(300_000);
+    expect(state.takebackRequest).toBeNull();
+    expect(state.drawOffer).toBeNull();
+  });
+
+  it("closes a takeback request on decline or when the opponent moves", () => {
+    let state = reduceMatchEvent(
+      startedState(),
+      asAnyEvent(
+        event(3, "move.committed", {
+          move: move(1, "white", "e2", "e4"),
+          nextSide: "black",
+          clock: clock("black"),
+        }),
+      ),
+    );
+    state = reduceMatchEvent(
+      state,
+      asAnyEvent(event(4, "takeback.requested", { side: "white", ply: 1 })),
+    );
+    const declined = reduceMatchEvent(
+      state,
+      asAnyEvent(event(5, "takeback.declined", { side: "black" })),
+    );
+    expect(declined.takebackRequest).toBeNull();
+    expect(() =>
+      reduceMatchEvent(
+        declined,
+        asAnyEvent(
+          event(6, "takeback.applied", {
+            ply: 1,
+            currentSide: "white",
+            clock: clock("white"),
+          }),
+        ),
+      ),
+    ).toThrow(MatchStateTransitionError);
+
+    const answered = reduceMatchEvent(
+      state,
+      asAnyEvent(
+        event(5, "move.committed", {
+          move: move(2, "black", "e7", "e5"),
+          nextSide: "white",
+          clock: clock("white"),
+        }),
+      ),
+    );
+    expect(answered.takebackRequest).toBeNull();
+  });
 });
@@ -26,6 +26,7 @@ const snapshotRow = {
   shared_seed: identity.matchSeed,
   engine_version: identity.engineVersion,
   current_fen: "fen-after",
+  initial_fen: STANDARD_START_FEN,
   position_hash: "position-after",
   rule_state: { rulesetHash: HASH },
   rule_state_hash: "rule-state-after",
@@ -56,6 +57,10 @@ const snapshotRow = {
     },
   ],
   verification_status: "pending",
+  rated: false,
+  viewer_role: "player",
+  spectator_delay_seconds: 0,
+  spectator_count: 0,
 };
 
 const eventRows = [
@@ -191,6 +196,30 @@ class FakeSupabaseClient {
           ],
           error: null,
         };
+      case "submit_chess_draw_command":
+        return {
+          data: [
+            {
+              command_id: COMMAND_ID,
+              command_sequence: 3,
+              command_status: "accepted",
+              authoritative_revision: 2,
+            },
+          ],
+          error: null,
+        };
+      case "submit_chess_takeback_command":
+        return {
+          data: [
+            {
+              command_id: COMMAND_ID,
+              command_sequence: 3,
+              command_status: "accepted",
+              authoritative_revision: 2,
+            },
+          ],
+          error: null,
+        };
       case "heartbeat_chess_room":
         return {
           data: [
@@ -206,6 +235,18 @@ class FakeSupabaseClient {
           ],
           error: null,
         };
+      case "watch_chess_match":
+        return {
+          data: [
+            {
+              room_id: LOBBY_ID,
+              match_id: MATCH_ID,
+              viewer_role: "spectator",
+              spectator_delay_seconds: 15,
+            },
+          ],
+          error: null,
+        };
       case "claim_chess_timeout":
         return {
           data: this.finalizations.claimTimeout ?? [
@@ -267,9 +308,12 @@ describe("SupabaseMultiplayerAdapter", () => {
         loadSnapshot: "get_chess_match_snapshot",
         listEventsAfter: "get_chess_match_events_since",
         submitCommand: "submit_chess_move_command",
+        drawCommand: "submit_chess_draw_command",
+        takebackCommand: "submit_chess_takeback_command",
         heartbeat: "heartbeat_chess_room",
         claimTimeout: "claim_chess_timeout",
         resignMatch: "resign_chess_match",
+        watchMatch: "watch_chess_match",
       },
     });
   });
@@ -404,6 +448,22 @@ describe("SupabaseMultiplayerAdapter", () => {
     await expect(invalidInitial.adapter.loadSnapshot(MATCH_ID)).rejects.toThrow(
       /position initiale standard incompatible/,
     );
+
+    const losAlamos = "rnqknr/pppppp/6/6/PPPPPP/RNQKNR w - - 0 1";
+    const variantInitial = createAdapter(
+      { ...initialSnapshot, initial_fen: losAlamos, current_fen: losAlamos },
+      [eventRows[0]],
+    );
+    await expect(
+      variantInitial.adapter.loadSnapshot(MATCH_ID),
+    ).resolves.toMatchObject({ initialFen: losAlamos, moves: [] });
+    const driftedVariant = createAdapter(
+      { ...initialSnapshot, initial_fen: losAlamos },
+      [eventRows[0]],
+    );
+    await expect(driftedVariant.adapter.loadSnapshot(MATCH_ID)).rejects.toThrow(
+      /position initiale incompatible/,
+    );
   });
 
   it("maps sequence cursors and persists a pending command without projecting it", async () => {
@@ -443,10 +503,172 @@ describe("SupabaseMultiplayerAdapter", () => {
         p_client_command_id: CLIENT_COMMAND_ID,
         p_uci: "e7e5",
         p_submitted_clock_ms: 299_000,
+        p_rule_action: null,
       },
     });
   });
 
+  it("routes draw commands and restores an open offer from the journal", async () => {
+    const drawEvents = [
+      ...eventRows,
+      {
+        event_id: "cccccccc-cccc-4ccc-8ccc-cccccccccccc",
+        match_id: MATCH_ID,
+        revision: 2,
+        sequence: 3,
+        event_type: "draw_offered",
+        actor_id: WHITE_ID,
+        payload: { side: "white", offeredAtPly: 1, expiresAtPly: 2 },
+        created_at: T2,
+        server_now: T2,
+      },
+    ] as unknown as typeof eventRows;
+    const { adapter, client } = createAdapter(
+      { ...snapshotRow, revision: 2, event_sequence: 3, command_sequence: 2 },
+      drawEvents,
+    );
+
+    await expect(adapter.loadSnapshot(MATCH_ID)).resolves.toMatchObject({
+      revision: 2,
+      drawOffer: { side: "white", expiresAtPly: 2 },
+    });
+
+    await expect(
+      adapter.submitCommand({
+        type: "draw.accept",
+        clientCommandId: CLIENT_COMMAND_ID,
+        identity,
+        expectedRevision: 2,
+        createdAtClient: T2,
+      }),
+    ).resolves.toMatchObject({ status: "accepted", authoritativeRevision: 2 });
+    expect(client.calls[client.calls.length - 1]).toEqual({
+      name: "submit_chess_draw_command",
+      args: {
+        p_match_id: MATCH_ID,
+        p_expected_revision: 2,
+        p_client_command_id: CLIENT_COMMAND_ID,
+        p_action: "accept",
+      },
+    });
+  });
+
+  it("rewinds a taken-back move and routes takeback commands", async () => {
+    const takebackEvents = [
+      ...eventRows,
+      {
+        event_id: "dddddddd-dddd-4ddd-8ddd-dddddddddddd",
+        match_id: MATCH_ID,
+        revision: 2,
+        sequence: 3,
+        event_type: "takeback_requested",
+        actor_id: WHITE_ID,
+        payload: { side: "white", ply: 1 },
+        created_at: T2,
+        server_now: T2,
+      },
+      {
+        event_id: "eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee",
+        match_id: MATCH_ID,
+        revision: 3,
+        sequence: 4,
+        event_type: "takeback_applied",
+        actor_id: BLACK_ID,
+        payload: {
+          side: "black",
+          ply: 1,
+          sideToMove: "white",
+          fen: STANDARD_START_FEN,
+          positionHash: "position-initial",
+          ruleStateHash: "rule-state-initial",
+          ruleState: null,
+          clockState: { whiteMs: 300_000, blackMs: 300_000, incrementMs: 0 },
+          turnStartedAt: T2,
+          serverNow: T2,
+        },
+        created_at: T2,
+        server_now: T2,
+      },
+    ] as unknown as typeof eventRows;
+    const { adapter, client } = createAdapter(
+      {
+        ...snapshotRow,
+        current_fen: STANDARD_START_FEN,
+        position_hash: "position-initial",
+        side_to_move: "white",
+        ply_count: 0,
+        revision: 3,
+        event_sequence: 4,
+        command_sequence: 3,
+      },
+      takebackEvents,
+    );
+
+    const snapshot = await adapter.loadSnapshot(MATCH_ID);
+    expect(snapshot).toMatchObject({
+      revision: 3,
+      currentSide: "white",
+      moves: [],
+      rated: false,
+      takebackRequest: null,
+    });
+    const replay = await adapter.listEventsAfter(MATCH_ID, 3, 50);
+    expect(replay[replay.length - 1]).toMatchObject({
+      type: "takeback.applied",
+      payload: {
+        ply: 1,
+        currentSide: "white",
+        clock: { whiteRemainingMs: 300_000, activeSide: "white" },
+      },
+    });
+
+    await adapter.submitCommand({
+      type: "takeback.request",
+      clientCommandId: CLIENT_COMMAND_ID,
+      identity,
+      expectedRevision: 3,
+      createdAtClient: T2,
+    });
+    expect(client.calls[client.calls.length - 1]).toEqual({
+      name: "submit_chess_takeback_command",
+      args: {
+        p_match_id: MATCH_ID,
+        p_expected_revision: 3,
+        p_client_command_id: CLIENT_COMMAND_ID,
+        p_action: "request",
+      },
+    });
+  });
+
+  it("restores a pending takeback request and refuses snapshots without the rated flag", async () => {
+    const requestEvents = [
+      ...eventRows,
+      {
+        event_id: "dddddddd-dddd-4ddd-8ddd-dddddddddddd",
+        match_id: MATCH_ID,
+        revision: 2,
+        sequence: 3,
+        event_type: "takeback_requested",
+        actor_id: WHITE_ID,
+        payload: { side: "white", ply: 1 },
+        created_at: T2,
+        server_now: T2,
+      },
+    ] as unknown as typeof eventRows;
+    const pending = { ...snapshotRow, revision: 2, event_sequence: 3 };
+    await expect(
+      createAdapter(pending, requestEvents).adapter.loadSnapshot(MATCH_ID),
+    ).resolves.toMatchObject({ takebackRequest: { side: "white", ply: 1 } });
+
+    const { rated: _rated, ...unrated } = pending;
+    await expect(
+      createAdapter(
+        unrated as unknown as typeof snapshotRow,
+        requestEvents,
+      ).adapter.loadSnapshot(MATCH_ID),
+    ).rejects.toThrow("snapshot.rated invalide.");
+  });
+
   it("refreshes presence and delegates terminal actions to authoritative RPCs", async () => {
     const { adapter, client } = createAdapter();
     const heartbeat = await adapter.heartbeat(identity, 1);
@@ -454,6 +676,7 @@ describe("SupabaseMultiplayerAdapter", () => {
       serverNow: T2,
       authoritativeRevision: 1,
       eventSequence: 2,
+      spectatorCount: 0,
       participants: [
         { userId: WHITE_ID, connected: true },
         { userId: BLACK_ID, connected: false },
@@ -489,6 +712,40 @@ describe("SupabaseMultiplayerAdapter", () => {
     ]);
   });
 
+  it("joins as a delayed spectator and exposes the viewer role", async () => {
+    const { adapter, client } = createAdapter({
+      ...snapshotRow,
+      viewer_role: "spectator",
+      spectator_delay_seconds: 15,
+      spectator_count: 3,
+    });
+    await expect(adapter.watchMatch(MATCH_ID)).resolves.toEqual({
+      matchId: MATCH_ID,
+      lobbyId: LOBBY_ID,
+      viewerRole: "spectator",
+      spectatorDelayMs: 15_000,
+    });
+    expect(client.calls[0]).toEqual({
+      name: "watch_chess_match",
+      args: { p_match_id: MATCH_ID },
+    });
+    await expect(adapter.loadSnapshot(MATCH_ID)).resolves.toMatchObject({
+      viewerRole: "spectator",
+      spectatorDelayMs: 15_000,
+      spectatorCount: 3,
+    });
+    await expect(adapter.heartbeat(identity, 1)).resolves.toMatchObject({
+      spectatorCount: 3,
+    });
+
+    await expect(
+      createAdapter({
+        ...snapshotRow,
+        viewer_role: "arbiter",
+      }).adapter.loadSnapshot(MATCH_ID),
+    ).rejects.toThrow("viewer_role invalide.");
+  });
+
   it("rejects malformed terminal receipts without projecting a result", async () => {
     const { adapter } = createAdapter(snapshotRow, eventRows, {
       resignMatch: [
@@ -1,6 +1,11 @@
 import { describe, expect, it } from "vitest";
 import type { DerivedClock } from "../clock";
-import { canClaimDisplayedTimeout } from "../terminal-actions";
+import {
+  canClaimDisplayedTimeout,
+  displayedDrawActions,
+  displayedTakebackActions,
+} from "../terminal-actions";
+import { move } from "./fixtures";
 
 const clock = (
   activeSide: "white" | "black",
@@ -57,3 +62,111 @@ describe("timeout claim visibility", () => {
     ).toBe(false);
   });
 });
+
+describe("draw action visibility", () => {
+  it("lets the opponent answer and the offerer wait", () => {
+    const drawOffer = { side: "white" as const, expiresAtPly: 4 };
+    expect(
+      displayedDrawActions({
+        phase: "playing",
+        playerSide: "black",
+        drawOffer,
+      }),
+    ).toBe("respond");
+    expect(
+      displayedDrawActions({
+        phase: "playing",
+        playerSide: "white",
+        drawOffer,
+      }),
+    ).toBe("awaiting");
+    expect(
+      displayedDrawActions({
+        phase: "playing",
+        playerSide: "white",
+        drawOffer: null,
+      }),
+    ).toBe("offer");
+  });
+
+  it("hides draw actions outside an active game or without identity", () => {
+    expect(
+      displayedDrawActions({
+        phase: "finished",
+        playerSide: "white",
+        drawOffer: null,
+      }),
+    ).toBe("none");
+    expect(
+      displayedDrawActions({
+        phase: "playing",
+        playerSide: null,
+        drawOffer: { side: "black", expiresAtPly: 2 },
+      }),
+    ).toBe("none");
+  });
+});
+
+describe("takeback action visibility", () => {
+  const lastWhiteMove = move(1, "white", "e2", "e4");
+
+  it("lets the mover ask and the opponent answer", () => {
+    expect(
+      displayedTakebackActions({
+        phase: "playing",
+        playerSide: "white",
+        rated: false,
+        lastMove: lastWhiteMove,
+        takebackRequest: null,
+      }),
+    ).toBe("request");
+    expect(
+      displayedTakebackActions({
+        phase: "playing",
+        playerSide: "black",
+        rated: false,
+        lastMove: lastWhiteMove,
+        takebackRequest: null,
+      }),
+    ).toBe("none");
+    expect(
+      displayedTakebackActions({
+        phase: "playing",
+        playerSide: "black",
+        rated: false,
+        lastMove: lastWhiteMove,
+        takebackRequest: { side: "white", ply: 1 },
+      }),
+    ).toBe("respond");
+    expect(
+      displayedTakebackActions({
+        phase: "playing",
+        playerSide: "white",
+        rated: false,
+        lastMove: lastWhiteMove,
+        takebackRequest: { side: "white", ply: 1 },
+      }),
+    ).toBe("awaiting");
+  });
+
+  it("never offers a takeback in a rated game or before the first move", () => {
+    expect(
+      displayedTakebackActions({
+        phase: "playing",
+        playerSide: "white",
+        rated: true,
+        lastMove: lastWhiteMove,
+        takebackRequest: null,
+      }),
+    ).toBe("none");
+    expect(
+      displayedTakebackActions({
+        phase: "playing",
+        playerSide: "white",
+        rated: false,
+        lastMove: null,
+        takebackRequest: null,
+      }),
+    ).toBe("none");
+  });
+});
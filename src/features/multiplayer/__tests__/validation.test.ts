@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { parsePersistedMatchEvent } from "../validation";
+import { parseMatchMove, parsePersistedMatchEvent } from "../validation";
 import { HASH, LOBBY_ID, MATCH_ID, T0 } from "./fixtures";
 
 const row = {
@@ -70,4 +70,32 @@ describe("multiplayer wire validation", () => {
       }),
     ).toThrow("coordonnées");
   });
+
+  it("binds rule actions to the UCI null move", () => {
+    const move = {
+      ply: 3,
+      side: "white",
+      from: "g1",
+      to: "d4",
+      uci: "0000",
+      positionHash: "position-3",
+    };
+    const ruleAction = {
+      actionId: "teleport",
+      pieceTile: "G1",
+      targetTile: "d4",
+    };
+
+    expect(parseMatchMove({ ...move, rule_action: ruleAction })).toMatchObject({
+      uci: "0000",
+      ruleAction: { actionId: "teleport", pieceTile: "g1", targetTile: "d4" },
+    });
+    expect(() => parseMatchMove(move)).toThrow("coup nul");
+    expect(() => parseMatchMove({ ...move, uci: "g1f3", ruleAction })).toThrow(
+      "coup nul",
+    );
+    expect(() =>
+      parseMatchMove({ ...move, from: "00", to: "00", uci: "e2e4" }),
+    ).toThrow();
+  });
 });
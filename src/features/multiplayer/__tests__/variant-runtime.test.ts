@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+import type { RuleJSON } from "@/engine/types";
+import { compileRuleBlueprint, type RuleBlueprintV2 } from "@/rules-v2";
+import { BOARD_PRESETS, createStartFen } from "@/rules-v2/board-geometry";
+import {
+  NULL_MOVE_UCI,
+  replayVariantMatch,
+  variantGenesisRuleStateHash,
+  VariantMatchRuntime,
+  VariantRuntimeError,
+} from "../variant-runtime";
+import { STANDARD_START_FEN } from "../fen";
+import { identity } from "./fixtures";
+
+const token = (name: string, value: string) => ({
+  name,
+  kind: "token" as const,
+  stringValue: value,
+  numberValue: 0,
+  booleanValue: false,
+  stringListValue: [],
+});
+
+const teleportBlueprint: RuleBlueprintV2 = {
+  schemaVersion: "2.0.0",
+  ruleKey: "teleport-knight",
+  title: "Cavalier quantique",
+  summary: "Un cavalier peut se téléporter sur une case vide.",
+  category: "movement",
+  tags: ["teleportation"],
+  affectedPieces: ["knight"],
+  sides: ["white", "black"],
+  stateNamespace: "teleport-knight",
+  initialStateJson: "{}",
+  actions: [
+    {
+      id: "teleport",
+      label: "Téléporter",
+      description: "Déplace le cavalier sélectionné sur une case vide.",
+      targetingMode: "tile",
+      validTilesProvider: "provider.anyEmptyTile",
+      consumesTurn: true,
+      cooldownTurns: 3,
+      maxPerPiece: 4,
+      requiresSelection: true,
+      pieceTypes: ["knight"],
+    },
+  ],
+  triggers: [
+    {
+      id: "teleport-action",
+      event: "ui.action",
+      actionId: "teleport",
+      priority: 10,
+      conditions: [
+        {
+          id: "has-tile",
+          op: "ctx.hasTargetTile",
+          arguments: [],
+          negate: false,
+        },
+        { id: "tile-empty", op: "tile.isEmpty", arguments: [], negate: false },
+      ],
+      effects: [
+        {
+          id: "move",
+          op: "piece.move",
+          arguments: [token("pieceId", "$pieceId"), token("to", "$targetTile")],
+        },
+      ],
+      onFailure: "blockAction",
+      message: "Choisis une case vide.",
+    },
+  ],
+  balance: {
+    powerLevel: 3,
+    counterplay: ["Forcer le cavalier à utiliser son pouvoir tôt."],
+    limitations: ["Trois tours de recharge."],
+  },
+  explanation: {
+    plainLanguage: "Sélectionne un cavalier puis une case vide.",
+    examples: ["Le cavalier de b1 peut rejoindre e5."],
+  },
+};
+
+const compiledRules = (): RuleJSON[] => {
+  const result = compileRuleBlueprint(teleportBlueprint);
+  if (!result.compiledRule) throw new Error("fixture must compile");
+  return [result.compiledRule as RuleJSON];
+};
+
+const teleportActionId = (runtime: VariantMatchRuntime): string => {
+  const action = runtime.getUIActions()[0];
+  if (!action) throw new Error("teleport action must be registered");
+  return action.id;
+};
+
+describe("VariantMatchRuntime", () => {
+  it("starts from the genesis hash written by the match bootstrap", async () => {
+    const runtime = new VariantMatchRuntime(identity, compiledRules());
+
+    expect(runtime.fen).toBe(STANDARD_START_FEN);
+    await expect(runtime.ruleStateHash()).resolves.toBe(
+      await variantGenesisRuleStateHash(identity),
+    );
+  });
+
+  it("starts from the board declared by the pinned rules", async () => {
+    const result = compileRuleBlueprint({
+      ...teleportBlueprint,
+      board: BOARD_PRESETS["los-alamos"].layout,
+    });
+    if (!result.compiledRule) throw new Error("fixture must compile");
+    const rules = [result.compiledRule as RuleJSON];
+    const runtime = new VariantMatchRuntime(identity, rules);
+
+    expect(runtime.initialFen).toBe(
+      createStartFen(BOARD_PRESETS["los-alamos"].layout),
+    );
+    expect(runtime.fen).toBe(runtime.initialFen);
+    await expect(runtime.ruleStateHash()).resolves.toBe(
+      await variantGenesisRuleStateHash(identity, runtime.initialFen),
+    );
+
+    const replayed = await replayVariantMatch(identity, rules, [
+      { uci: "c2c3" },
+      { uci: "d5d4" },
+    ]);
+    expect(replayed.fen).toBe("rnqknr/ppp1pp/3p2/2P3/PP1PPP/RNQKNR w - - 0 2");
+    await expect(
+      replayVariantMatch(identity, rules, [{ uci: "c2c4" }]),
+    ).rejects.toBeInstanceOf(VariantRuntimeError);
+  });
+
+  it("replays journaled moves and rule actions to the same state hash", async () => {
+    const opening = new VariantMatchRuntime(identity, compiledRules());
+    const actionId = teleportActionId(opening);
+    const commands = [
+      { uci: "e2e4" },
+      { uci: "e7e5" },
+      {
+        uci: NULL_MOVE_UCI,
+        ruleAction: { actionId, pieceTile: "g1", targetTile: "d4" },
+      },
+    ];
+
+    const first = await replayVariantMatch(identity, compiledRules(), commands);
+    const second = await replayVariantMatch(
+      identity,
+      compiledRules(),
+      commands,
+    );
+
+    expect(first.ply).toBe(3);
+    expect(first.sideToMove).toBe("black");
+    expect(first.fen.split(" ")[0]).toBe(
+      "rnbqkbnr/pppp1ppp/8/4p3/3NP3/8/PPPP1PPP/RNBQKB1R",
+    );
+    await expect(first.ruleStateHash()).resolves.toBe(
+      await second.ruleStateHash(),
+    );
+  });
+
+  it("reports SAN, check and the hash of the transition", async () => {
+    const runtime = await replayVariantMatch(identity, compiledRules(), [
+      { uci: "f2f3" },
+      { uci: "e7e5" },
+      { uci: "g2g4" },
+    ]);
+
+    const transition = await runtime.apply({ uci: "d8h4" });
+
+    expect(transition.san).toBe("Qh4#");
+    expect(transition.isCheck).toBe(true);
+    expect(transition.terminal).toEqual({
+      result: "0-1",
+      termination: "checkmate",
+    });
+    expect(transition.ruleStateHash).toBe(await runtime.ruleStateHash());
+  });
+
+  it("diverges when a different seed drives the same commands", async () => {
+    const other = { ...identity, matchSeed: "42" };
+    const left = await replayVariantMatch(identity, compiledRules(), [
+      { uci: "e2e4" },
+    ]);
+    const right = await replayVariantMatch(other, compiledRules(), [
+      { uci: "e2e4" },
+    ]);
+
+    expect(left.fen).toBe(right.fen);
+    expect(await left.ruleStateHash()).not.toBe(await right.ruleStateHash());
+  });
+
+  it("rejects illegal moves and rule actions without mutating the state", async () => {
+    const runtime = new VariantMatchRuntime(identity, compiledRules());
+    const actionId = teleportActionId(runtime);
+    const before = await runtime.ruleStateHash();
+
+    await expect(runtime.apply({ uci: "e2e5" })).rejects.toMatchObject({
+      code: "ILLEGAL_MOVE",
+    });
+    await expect(runtime.apply({ uci: "e2e4q" })).rejects.toMatchObject({
+      code: "ILLEGAL_MOVE",
+    });
+    await expect(
+      runtime.apply({
+        uci: NULL_MOVE_UCI,
+        ruleAction: { actionId, pieceTile: "g8", targetTile: "d5" },
+      }),
+    ).rejects.toBeInstanceOf(VariantRuntimeError);
+    await expect(
+      runtime.apply({
+        uci: "g1f3",
+        ruleAction: { actionId, pieceTile: "g1", targetTile: "d4" },
+      }),
+    ).rejects.toMatchObject({ code: "INVALID_COMMAND" });
+
+    expect(runtime.ply).toBe(0);
+    await expect(runtime.ruleStateHash()).resolves.toBe(before);
+  });
+});
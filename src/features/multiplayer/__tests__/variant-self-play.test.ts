@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import type { RuleJSON } from "@/engine/types";
+import {
+  measureVariantBalance,
+  SELF_PLAY_HARNESS_ID,
+} from "../variant-self-play";
+
+// Black knights may remove any white piece instead of moving: a rule that
+// would score well on paper if its blueprint simply claimed to be fair.
+const sniperRule: RuleJSON = {
+  meta: { ruleId: "sniper@v1", ruleName: "Cavalier tireur", isActive: true },
+  scope: { affectedPieces: ["knight"], sides: ["black"] },
+  ui: {
+    actions: [
+      {
+        id: "sniper.shot",
+        label: "Tir du cavalier",
+        availability: { requiresSelection: true, pieceTypes: ["knight"] },
+        targeting: {
+          mode: "piece",
+          validTilesProvider: "provider.enemyPieces",
+        },
+        consumesTurn: true,
+      },
+    ],
+  },
+  logic: {
+    effects: [
+      {
+        id: "sniper-shot",
+        when: "ui.sniper.shot",
+        do: [
+          { action: "piece.capture", params: { pieceId: "$targetPieceId" } },
+        ],
+      },
+    ],
+  },
+};
+
+const quickRun = { games: 2, depth: 1, maxPlies: 16, openingPlies: 2 };
+
+describe("measureVariantBalance", () => {
+  it("reports outcomes and ability usage of seeded self-play games", async () => {
+    const report = await measureVariantBalance([sniperRule], {
+      ...quickRun,
+      seed: "sniper",
+    });
+
+    expect(report).toMatchObject({
+      harness: SELF_PLAY_HARNESS_ID,
+      seed: "sniper",
+      gamesRequested: 2,
+      gamesPlayed: 2,
+      truncated: false,
+    });
+    expect(
+      report.whiteWins + report.blackWins + report.draws + report.unfinished,
+    ).toBe(2);
+    expect(report.averagePlies).toBeGreaterThan(quickRun.openingPlies);
+    expect(report.abilityUsage.white).toBe(0);
+    expect(report.abilityUsage.black).toBeGreaterThan(0);
+    expect(report.abilityUsage.byAction["sniper.shot"]).toBe(
+      report.abilityUsage.black,
+    );
+  });
+
+  it("replays the same games for the same seed", async () => {
+    const first = await measureVariantBalance([sniperRule], {
+      ...quickRun,
+      seed: "replay",
+    });
+    const second = await measureVariantBalance([sniperRule], {
+      ...quickRun,
+      seed: "replay",
+    });
+
+    expect(second).toEqual(first);
+  });
+
+  it("stops starting games once the time budget is spent", async () => {
+    let clock = 0;
+    const report = await measureVariantBalance([], {
+      ...quickRun,
+      games: 5,
+      timeBudgetMs: 10,
+      now: () => (clock += 6),
+    });
+
+    expect(report.gamesPlayed).toBe(1);
+    expect(report.truncated).toBe(true);
+    expect(report.abilityUsage).toEqual({ white: 0, black: 0, byAction: {} });
+  });
+
+  it("cuts off a game still running when the time budget is spent", async () => {
+    let calls = 0;
+    const report = await measureVariantBalance([], {
+      ...quickRun,
+      games: 1,
+      timeBudgetMs: 100,
+      // The clock jumps past the deadline during the first searched ply.
+      now: () => ((calls += 1) <= 5 ? 0 : 1_000),
+    });
+
+    expect(report.gamesPlayed).toBe(1);
+    expect(report.unfinished).toBe(1);
+    expect(report.averagePlies).toBeGreaterThan(quickRun.openingPlies);
+    expect(report.averagePlies).toBeLessThan(quickRun.maxPlies);
+    expect(report.truncated).toBe(true);
+  });
+
+  it("leaves the balance unmeasured when no game finishes", async () => {
+    const report = await measureVariantBalance([], {
+      ...quickRun,
+      maxPlies: 4,
+    });
+
+    expect(report).toMatchObject({
+      gamesPlayed: 2,
+      unfinished: 2,
+      whiteWinRate: 0,
+      blackWinRate: 0,
+      drawRate: 0,
+      balanceScore: null,
+    });
+  });
+
+  it("adjudicates games stopped at the ply cap on material", async () => {
+    const balanced = await measureVariantBalance([], {
+      ...quickRun,
+      maxPlies: 4,
+      adjudicationMargin: 3,
+    });
+    expect(balanced).toMatchObject({ draws: 2, unfinished: 0 });
+    expect(balanced.balanceScore).toBe(100);
+
+    const sniper = await measureVariantBalance([sniperRule], {
+      ...quickRun,
+      maxPlies: 12,
+      adjudicationMargin: 3,
+    });
+    expect(sniper.blackWins).toBe(2);
+    expect(sniper.balanceScore).toBe(0);
+  });
+});
@@ -1,4 +1,5 @@
 import type { MatchSide, ServerClockAnchor } from "./contracts";
+import { chargedElapsedMs } from "@/lib/chessClock";
 
 export interface DerivedClock {
   whiteRemainingMs: number;
@@ -19,16 +20,29 @@ const timestampMs = (value: string, label: string): number => {
 /**
  * Computes display time from an authoritative server anchor. No interval ever
  * mutates the stored clock; renders can be delayed without accumulating drift.
+ * A simple delay already partly consumed at `serverNow` only holds the clock
+ * for what is left of it.
  */
 export const deriveClock = (
   anchor: ServerClockAnchor,
   evaluatedAtServerMs: number,
 ): DerivedClock => {
   const anchorServerMs = timestampMs(anchor.serverNow, "clock.serverNow");
-  const elapsedMs =
+  const sinceAnchorMs =
     anchor.activeSide === null || anchor.pausedAt !== null
       ? 0
       : Math.max(0, Math.floor(evaluatedAtServerMs - anchorServerMs));
+  const turnElapsedAtAnchorMs =
+    anchor.turnStartedAt === null
+      ? anchor.delayMs
+      : Math.max(
+          0,
+          anchorServerMs -
+            timestampMs(anchor.turnStartedAt, "clock.turnStartedAt"),
+        );
+  const elapsedMs =
+    chargedElapsedMs(turnElapsedAtAnchorMs + sinceAnchorMs, anchor) -
+    chargedElapsedMs(turnElapsedAtAnchorMs, anchor);
 
   const whiteRemainingMs = Math.max(
     0,
@@ -1,5 +1,10 @@
+import type { ClockDelayMode } from "@/types/timeControl";
+
 export type MatchSide = "white" | "black";
 
+/** Spectators read the same journal, possibly behind a tape delay. */
+export type MatchViewerRole = "player" | "spectator";
+
 export type MultiplayerPhase =
   | "synchronizing"
   | "waiting"
@@ -54,6 +59,10 @@ export interface ServerClockAnchor {
   turnStartedAt: string | null;
   pausedAt: string | null;
   serverNow: string;
+  /** Fischer increment credited after each move. */
+  incrementMs: number;
+  delayMs: number;
+  delayMode: ClockDelayMode;
 }
 
 export interface MatchParticipant {
@@ -64,6 +73,13 @@ export interface MatchParticipant {
   lastSeenAt: string | null;
 }
 
+/** Rule Architect action journaled as one ply on the UCI null move `0000`. */
+export interface MatchRuleAction {
+  actionId: string;
+  pieceTile?: string;
+  targetTile?: string;
+}
+
 export interface MatchMove {
   ply: number;
   side: MatchSide;
@@ -76,6 +92,7 @@ export interface MatchMove {
   fenBefore?: string;
   fenAfter?: string;
   positionHash: string;
+  ruleAction?: MatchRuleAction;
   /** Serialized deterministic Rule Architect engine state after the move. */
   ruleState?: JsonValue;
   ruleStateHash?: string;
@@ -87,6 +104,9 @@ export interface MatchResult {
     | "checkmate"
     | "stalemate"
     | "draw"
+    | "agreement"
+    | "repetition"
+    | "fifty-move"
     | "timeout"
     | "resignation"
     | "abandonment"
@@ -128,6 +148,28 @@ export interface MatchEventPayloadMap {
     currentSide: MatchSide;
     clock: ServerClockAnchor;
   };
+  "draw.offered": {
+    side: MatchSide;
+    /** The offer lapses once `moves.length` reaches this ply. */
+    expiresAtPly: number;
+  };
+  "draw.declined": {
+    side: MatchSide;
+  };
+  "takeback.requested": {
+    side: MatchSide;
+    /** Ply the requester wants to undo; always their latest move. */
+    ply: number;
+  };
+  "takeback.declined": {
+    side: MatchSide;
+  };
+  "takeback.applied": {
+    /** Undone ply; the position, rule state and clock rewind to `ply - 1`. */
+    ply: number;
+    currentSide: MatchSide;
+    clock: ServerClockAnchor;
+  };
   "match.finished": {
     result: MatchResult;
     clock: ServerClockAnchor;
@@ -167,11 +209,29 @@ export interface SubmitMoveCommand {
   identity: MatchIdentity;
   expectedRevision: number;
   uci: string;
+  ruleAction?: MatchRuleAction;
   submittedClockMs?: number;
   createdAtClient: string;
 }
 
-export type MatchCommand = SubmitMoveCommand;
+export interface DrawCommand {
+  type: "draw.offer" | "draw.accept" | "draw.decline";
+  clientCommandId: string;
+  identity: MatchIdentity;
+  expectedRevision: number;
+  createdAtClient: string;
+}
+
+/** Only casual matches accept takebacks; rated ones are refused server-side. */
+export interface TakebackCommand {
+  type: "takeback.request" | "takeback.accept" | "takeback.decline";
+  clientCommandId: string;
+  identity: MatchIdentity;
+  expectedRevision: number;
+  createdAtClient: string;
+}
+
+export type MatchCommand = SubmitMoveCommand | DrawCommand | TakebackCommand;
 
 export interface MatchCommandReceipt {
   commandId: string;
@@ -187,26 +247,53 @@ export interface MatchHeartbeat {
   eventSequence: number;
   /** Refreshed server observations used only for presence leases. */
   participants: MatchParticipant[];
+  spectatorCount: number;
 }
 
 export interface MatchFinalizationReceipt {
   finalized: boolean;
   result: "1-0" | "0-1" | "1/2-1/2";
-  termination: "timeout" | "resignation";
+  termination: "timeout" | "resignation" | "draw-agreement";
   authoritativeRevision: number;
   serverNow: string;
 }
 
+export interface MatchWatchReceipt {
+  matchId: string;
+  lobbyId: string;
+  viewerRole: MatchViewerRole;
+  spectatorDelayMs: number;
+}
+
+export interface MatchDrawOffer {
+  side: MatchSide;
+  expiresAtPly: number;
+}
+
+export interface MatchTakebackRequest {
+  side: MatchSide;
+  ply: number;
+}
+
 export interface MultiplayerMatchSnapshot {
   identity: MatchIdentity;
   sequence: number;
   revision: number;
   phase: Exclude<MultiplayerPhase, "synchronizing" | "error">;
   currentSide: MatchSide | null;
+  /** Position before the first ply; variants may declare their own board. */
+  initialFen: string;
   moves: MatchMove[];
   clock: ServerClockAnchor | null;
   participants: MatchParticipant[];
   result: MatchResult | null;
+  rated: boolean;
+  drawOffer: MatchDrawOffer | null;
+  takebackRequest: MatchTakebackRequest | null;
+  viewerRole: MatchViewerRole;
+  /** How far behind the live game this reader is kept; 0 for players. */
+  spectatorDelayMs: number;
+  spectatorCount: number;
   capturedAt: string;
 }
 
@@ -214,10 +301,15 @@ export interface MultiplayerMatchState {
   identity: MatchIdentity;
   phase: MultiplayerPhase;
   currentSide: MatchSide | null;
+  initialFen: string;
   moves: MatchMove[];
   clock: ServerClockAnchor | null;
   participants: MatchParticipant[];
   result: MatchResult | null;
+  rated: boolean;
+  drawOffer: MatchDrawOffer | null;
+  takebackRequest: MatchTakebackRequest | null;
+  spectatorCount: number;
   lastSequence: number;
   lastRevision: number;
   appliedEventIds: Readonly<Record<string, true>>;
@@ -1,30 +1,43 @@
+import {
+  BOARD_FILE_LETTERS,
+  BOARD_TILE_PATTERN,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  STANDARD_BOARD_GEOMETRY,
+  isStandardBoardGeometry,
+  type BoardGeometry,
+} from "@/rules-v2/board-geometry";
 import type { MatchMove, MatchSide } from "./contracts";
 
 export const STANDARD_START_FEN =
   "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
 
-export const BOARD_FILES = ["a", "b", "c", "d", "e", "f", "g", "h"] as const;
-export const BOARD_RANKS = ["1", "2", "3", "4", "5", "6", "7", "8"] as const;
-
-export type BoardFile = (typeof BOARD_FILES)[number];
-export type BoardRank = (typeof BOARD_RANKS)[number];
-export type BoardSquare = `${BoardFile}${BoardRank}`;
+/** Square name such as `e4` or `j10`, bounded by the match geometry. */
+export type BoardSquare = string;
 export type ServerPieceKind =
   | "king"
   | "queen"
   | "rook"
   | "bishop"
   | "knight"
-  | "pawn";
+  | "pawn"
+  | "fairy";
 
 export interface ServerPiece {
   color: MatchSide;
   kind: ServerPieceKind;
+  /** Unicode piece, or the glyph letter of a piece declared by a rule. */
   symbol: string;
 }
 
 export type FenBoard = Readonly<Record<BoardSquare, ServerPiece | undefined>>;
 
+export interface FenPosition {
+  board: FenBoard;
+  /** Dimensions and holes (`*`) read from the placement; FEN has no wrap flag. */
+  geometry: BoardGeometry;
+}
+
 const KIND_BY_FEN: Readonly<Record<string, ServerPieceKind>> = Object.freeze({
   k: "king",
   q: "queen",
@@ -35,7 +48,7 @@ const KIND_BY_FEN: Readonly<Record<string, ServerPieceKind>> = Object.freeze({
 });
 
 const SYMBOL_BY_PIECE: Readonly<
-  Record<ServerPieceKind, Readonly<Record<MatchSide, string>>>
+  Record<Exclude<ServerPieceKind, "fairy">, Readonly<Record<MatchSide, string>>>
 > = Object.freeze({
   king: Object.freeze({ white: "♔", black: "♚" }),
   queen: Object.freeze({ white: "♕", black: "♛" }),
@@ -45,82 +58,131 @@ const SYMBOL_BY_PIECE: Readonly<
   pawn: Object.freeze({ white: "♙", black: "♟" }),
 });
 
-const isBoardSquare = (value: string): value is BoardSquare =>
-  /^[a-h][1-8]$/.test(value);
-
-export const parseFenBoard = (fen: string): FenBoard => {
+export const parseFenPosition = (fen: string): FenPosition => {
   if (typeof fen !== "string" || fen.length > 512) {
     throw new Error("FEN serveur invalide.");
   }
 
   const [placement] = fen.trim().split(/\s+/);
   const fenRanks = placement?.split("/") ?? [];
-  if (fenRanks.length !== 8) {
-    throw new Error("FEN serveur invalide: huit rangées sont requises.");
+  const ranks = fenRanks.length;
+  if (ranks < MIN_BOARD_SIZE || ranks > MAX_BOARD_SIZE) {
+    throw new Error(
+      `FEN serveur invalide: ${MIN_BOARD_SIZE} à ${MAX_BOARD_SIZE} rangées sont requises.`,
+    );
   }
 
   const board: Partial<Record<BoardSquare, ServerPiece>> = {};
+  const holes: BoardSquare[] = [];
+  let files: number | null = null;
   fenRanks.forEach((rank, rankIndex) => {
     let fileIndex = 0;
-    for (const token of rank) {
-      if (/^[1-8]$/.test(token)) {
+    const squareAt = (): BoardSquare => {
+      const square = `${BOARD_FILE_LETTERS[fileIndex] ?? "?"}${ranks - rankIndex}`;
+      if (!BOARD_TILE_PATTERN.test(square)) {
+        throw new Error("FEN serveur invalide: case hors plateau.");
+      }
+      return square;
+    };
+
+    for (const token of rank.match(/\d+|./g) ?? []) {
+      if (/^\d+$/.test(token)) {
         fileIndex += Number(token);
         continue;
       }
+      if (token === "*") {
+        holes.push(squareAt());
+        fileIndex += 1;
+        continue;
+      }
 
-      const kind = KIND_BY_FEN[token.toLowerCase()];
-      if (!kind || fileIndex >= BOARD_FILES.length) {
+      // Any other letter is the glyph of a fairy piece declared by a rule.
+      const kind =
+        KIND_BY_FEN[token.toLowerCase()] ??
+        (/^[a-z]$/i.test(token) ? "fairy" : undefined);
+      if (!kind || fileIndex >= MAX_BOARD_SIZE) {
         throw new Error("FEN serveur invalide: pièce ou colonne inconnue.");
       }
 
-      const square = `${BOARD_FILES[fileIndex]}${8 - rankIndex}`;
-      if (!isBoardSquare(square)) {
-        throw new Error("FEN serveur invalide: case hors plateau.");
-      }
+      const square = squareAt();
       const color: MatchSide =
         token === token.toUpperCase() ? "white" : "black";
       board[square] = {
         color,
         kind,
-        symbol: SYMBOL_BY_PIECE[kind][color],
+        symbol:
+          kind === "fairy" ? token.toUpperCase() : SYMBOL_BY_PIECE[kind][color],
       };
       fileIndex += 1;
     }
 
-    if (fileIndex !== BOARD_FILES.length) {
+    files ??= fileIndex;
+    if (
+      fileIndex !== files ||
+      fileIndex < MIN_BOARD_SIZE ||
+      fileIndex > MAX_BOARD_SIZE
+    ) {
       throw new Error("FEN serveur invalide: rangée incomplète.");
     }
   });
 
-  return Object.freeze(board) as FenBoard;
+  return {
+    board: Object.freeze(board) as FenBoard,
+    geometry: Object.freeze({
+      files: files ?? 0,
+      ranks,
+      holes: Object.freeze(holes),
+      wrapFiles: false,
+    }),
+  };
+};
+
+/** Standard 8×8 placement only; variant boards go through `parseFenPosition`. */
+export const parseFenBoard = (fen: string): FenBoard => {
+  const position = parseFenPosition(fen);
+  if (position.geometry.ranks !== STANDARD_BOARD_GEOMETRY.ranks) {
+    throw new Error("FEN serveur invalide: huit rangées sont requises.");
+  }
+  if (!isStandardBoardGeometry(position.geometry)) {
+    throw new Error("FEN serveur invalide: rangée incomplète.");
+  }
+  return position.board;
 };
 
 export const squaresForPerspective = (
   perspective: MatchSide,
+  geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
 ): readonly BoardSquare[] => {
+  const boardFiles = [...BOARD_FILE_LETTERS.slice(0, geometry.files)];
+  const boardRanks = Array.from({ length: geometry.ranks }, (_, index) =>
+    String(index + 1),
+  );
   const files =
-    perspective === "white" ? BOARD_FILES : [...BOARD_FILES].reverse();
+    perspective === "white" ? boardFiles : [...boardFiles].reverse();
   const ranks =
-    perspective === "white" ? [...BOARD_RANKS].reverse() : BOARD_RANKS;
+    perspective === "white" ? [...boardRanks].reverse() : boardRanks;
 
-  return ranks.flatMap((rank) =>
-    files.map((file) => `${file}${rank}` as BoardSquare),
-  );
+  return ranks.flatMap((rank) => files.map((file) => `${file}${rank}`));
 };
 
-export const canonicalFenFromMoves = (moves: readonly MatchMove[]): string => {
+export const canonicalFenFromMoves = (
+  moves: readonly MatchMove[],
+  initialFen: string = STANDARD_START_FEN,
+): string => {
   const latestFen = moves[moves.length - 1]?.fenAfter?.trim();
-  return latestFen || STANDARD_START_FEN;
+  return latestFen || initialFen;
 };
 
 export const buildMoveUci = (
   from: BoardSquare,
   to: BoardSquare,
   piece: ServerPiece,
+  ranks: number = STANDARD_BOARD_GEOMETRY.ranks,
 ): string => {
+  const rank = to.slice(1);
   const reachesPromotionRank =
     piece.kind === "pawn" &&
-    ((piece.color === "white" && to[1] === "8") ||
-      (piece.color === "black" && to[1] === "1"));
+    ((piece.color === "white" && rank === String(ranks)) ||
+      (piece.color === "black" && rank === "1"));
   return `${from}${to}${reachesPromotionRank ? "q" : ""}`;
 };
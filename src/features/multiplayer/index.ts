@@ -7,6 +7,7 @@ export * from "./identity";
 export * from "./match-bootstrap";
 export * from "./move-api";
 export * from "./MultiplayerMatchSessionView";
+export * from "./pgn-export";
 export * from "./presence";
 export * from "./rule-architect-bridge";
 export * from "./runtime-rng";
@@ -16,3 +17,4 @@ export * from "./supabase-adapter";
 export * from "./terminal-actions";
 export * from "./useMultiplayerMatch";
 export * from "./validation";
+export * from "./variant-runtime";
@@ -14,6 +14,7 @@ export const classifyMatchBootstrapFailure = (
   if (
     normalized.includes("MATCH_NOT_ACCESSIBLE") ||
     normalized.includes("ROOM_MEMBERSHIP_REQUIRED") ||
+    normalized.includes("SPECTATORS_NOT_ALLOWED") ||
     normalized.includes("AUTH_REQUIRED") ||
     normalized.includes("42501") ||
     normalized.includes("FORBIDDEN")
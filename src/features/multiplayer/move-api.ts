@@ -1,6 +1,11 @@
+import type { MatchRuleAction } from "./contracts";
+
 const UUID_PATTERN =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-const UCI_PATTERN = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+/** Up to 12×12 boards: files a–l, ranks 1–12. */
+const UCI_PATTERN = /^[a-l](?:1[0-2]|[1-9])[a-l](?:1[0-2]|[1-9])[qrbn]?$/;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+const NULL_MOVE_UCI = "0000";
 
 export type ProcessMoveErrorCode =
   | "INVALID_REQUEST"
@@ -10,6 +15,8 @@ export type ProcessMoveErrorCode =
   | "ILLEGAL_MOVE"
   | "CLOCK_EXPIRED"
   | "CUSTOM_RULES_VALIDATOR_NOT_AVAILABLE"
+  | "RULE_ACTION_REJECTED"
+  | "RULE_STATE_HASH_MISMATCH"
   | "MATCH_STATE_INTEGRITY_FAILED"
   | "PROCESSING_FAILED"
   | string;
@@ -19,6 +26,10 @@ export interface ProcessChessMoveRequest {
   expectedRevision: number;
   clientCommandId: string;
   uci: string;
+  /** Custom matches: a Rule Architect action, submitted on the null move `0000`. */
+  ruleAction?: MatchRuleAction;
+  /** Custom matches: the rule state hash projected by the local runtime. */
+  ruleStateHash?: string;
 }
 
 export interface ProcessChessMoveResult {
@@ -114,7 +125,11 @@ const assertRequest = (request: ProcessChessMoveRequest): void => {
     !UUID_PATTERN.test(request.clientCommandId) ||
     !Number.isSafeInteger(request.expectedRevision) ||
     request.expectedRevision < 0 ||
-    !UCI_PATTERN.test(request.uci)
+    (request.ruleAction
+      ? request.uci !== NULL_MOVE_UCI
+      : !UCI_PATTERN.test(request.uci)) ||
+    (request.ruleStateHash !== undefined &&
+      !HASH_PATTERN.test(request.ruleStateHash))
   ) {
     throw new ProcessChessMoveError(
       "INVALID_REQUEST",
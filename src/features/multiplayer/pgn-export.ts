@@ -0,0 +1,61 @@
+import { formatPgnDate, PgnError, writePgn, type PgnResult } from "@/lib/pgn";
+import { boardTileToPosition } from "@/rules-v2/board-geometry";
+import type { MatchResult, MultiplayerMatchState } from "./contracts";
+import { STANDARD_START_FEN } from "./fen";
+
+const pgnResultFor = (result: MatchResult | null): PgnResult => {
+  if (!result) return "*";
+  if (result.winner === "white") return "1-0";
+  if (result.winner === "black") return "0-1";
+  return "1/2-1/2";
+};
+
+/**
+ * A Rule Architect match journals its rule state with every move, and may
+ * start from its own board: the local engine cannot replay it without the
+ * pinned rules.
+ */
+export const isReplayableMatch = (state: MultiplayerMatchState): boolean =>
+  state.initialFen === STANDARD_START_FEN &&
+  state.moves.every(
+    (move) => move.ruleAction === undefined && move.ruleState === undefined,
+  );
+
+/**
+ * PGN of the moves committed by the server, with the shared ruleset hash as
+ * the `RulesetHash` tag.
+ */
+export function buildMatchPgn(
+  state: MultiplayerMatchState,
+  players: { white: string; black: string },
+  playedAt: Date = new Date(),
+): string {
+  if (!isReplayableMatch(state)) {
+    throw new PgnError(
+      "Export PGN indisponible pour une partie à règles personnalisées : ses coups ne peuvent pas être rejoués sans ses règles.",
+    );
+  }
+
+  return writePgn({
+    headers: {
+      event: "Partie en ligne",
+      site: "Chess Rules Engine",
+      date: formatPgnDate(playedAt),
+      white: players.white,
+      black: players.black,
+      result: pgnResultFor(state.result),
+      rulesetHash: state.identity.rulesetHash,
+    },
+    moves: state.moves.map((move) => {
+      const from = boardTileToPosition(move.from);
+      const to = boardTileToPosition(move.to);
+      if (!from || !to) {
+        throw new PgnError(
+          `Coup ${move.ply} illisible : « ${move.uci} ».`,
+          move.ply,
+        );
+      }
+      return { from, to, promotion: move.promotion };
+    }),
+  });
+}
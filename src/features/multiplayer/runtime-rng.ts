@@ -3,18 +3,22 @@ import { createDeterministicRandom } from "@/rules-v2";
 import type { ChessPiece } from "@/types/chess";
 import type { MatchIdentity } from "./contracts";
 
-export const createMatchRandom = (
+/** Seed material shared by every deterministic consumer of one match scope. */
+export const matchRuntimeSeed = (
   identity: MatchIdentity,
   scope: string,
-): (() => number) => {
+): string => {
   if (!/^[a-zA-Z0-9._:-]{1,80}$/.test(scope)) {
     throw new Error("Le scope RNG du match est invalide.");
   }
-  return createDeterministicRandom(
-    `${identity.matchSeed}|${identity.rulesetHash}|${identity.engineVersion}|${scope}`,
-  );
+  return `${identity.matchSeed}|${identity.rulesetHash}|${identity.engineVersion}|${scope}`;
 };
 
+export const createMatchRandom = (
+  identity: MatchIdentity,
+  scope: string,
+): (() => number) => createDeterministicRandom(matchRuntimeSeed(identity, scope));
+
 export const applyDeterministicSecretSetup = (
   board: (ChessPiece | null)[][],
   identity: MatchIdentity,
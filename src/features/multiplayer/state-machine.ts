@@ -5,6 +5,7 @@ import type {
   MultiplayerMatchSnapshot,
   MultiplayerMatchState,
 } from "./contracts";
+import { STANDARD_START_FEN } from "./fen";
 import { assertCompatibleMatchIdentity } from "./identity";
 
 export class MatchStateTransitionError extends Error {
@@ -20,10 +21,15 @@ export const createInitialMatchState = (
   identity,
   phase: "synchronizing",
   currentSide: null,
+  initialFen: STANDARD_START_FEN,
   moves: [],
   clock: null,
   participants: [],
   result: null,
+  rated: false,
+  drawOffer: null,
+  takebackRequest: null,
+  spectatorCount: 0,
   lastSequence: 0,
   lastRevision: -1,
   appliedEventIds: {},
@@ -56,10 +62,15 @@ export const hydrateMatchState = (
     identity: expectedIdentity,
     phase: snapshot.phase,
     currentSide: snapshot.currentSide,
+    initialFen: snapshot.initialFen,
     moves: [...snapshot.moves],
     clock: snapshot.clock,
     participants: [...snapshot.participants],
     result: snapshot.result,
+    rated: snapshot.rated,
+    drawOffer: snapshot.drawOffer,
+    takebackRequest: snapshot.takebackRequest,
+    spectatorCount: snapshot.spectatorCount,
     lastSequence: snapshot.sequence,
     lastRevision: snapshot.revision,
     appliedEventIds: {},
@@ -175,15 +186,128 @@ export const reduceMatchEvent = (
           `Coup ${event.payload.move.side} refusé pendant le tour ${current.currentSide}.`,
         );
       }
+      const moves = [...current.moves, event.payload.move];
       state = {
         ...current,
-        moves: [...current.moves, event.payload.move],
+        moves,
         currentSide: event.payload.nextSide,
         clock: event.payload.clock,
+        drawOffer:
+          current.drawOffer && moves.length < current.drawOffer.expiresAtPly
+            ? current.drawOffer
+            : null,
+        // Replying to the requested ply answers the takeback implicitly.
+        takebackRequest: null,
       };
       break;
     }
 
+    case "draw.offered":
+      if (current.phase !== "playing" && current.phase !== "paused") {
+        throw new MatchStateTransitionError(
+          `Proposition de nulle interdite depuis ${current.phase}.`,
+        );
+      }
+      if (current.drawOffer !== null) {
+        throw new MatchStateTransitionError(
+          "Une proposition de nulle est déjà en attente.",
+        );
+      }
+      if (event.payload.expiresAtPly <= current.moves.length) {
+        throw new MatchStateTransitionError(
+          `Proposition de nulle expirée au ply ${event.payload.expiresAtPly}.`,
+        );
+      }
+      state = {
+        ...current,
+        drawOffer: {
+          side: event.payload.side,
+          expiresAtPly: event.payload.expiresAtPly,
+        },
+      };
+      break;
+
+    case "draw.declined":
+      if (
+        current.drawOffer === null ||
+        current.drawOffer.side === event.payload.side
+      ) {
+        throw new MatchStateTransitionError(
+          "Refus de nulle sans proposition adverse en attente.",
+        );
+      }
+      state = { ...current, drawOffer: null };
+      break;
+
+    case "takeback.requested": {
+      if (current.phase !== "playing" && current.phase !== "paused") {
+        throw new MatchStateTransitionError(
+          `Demande de reprise interdite depuis ${current.phase}.`,
+        );
+      }
+      if (current.takebackRequest !== null) {
+        throw new MatchStateTransitionError(
+          "Une demande de reprise est déjà en attente.",
+        );
+      }
+      const lastMove = current.moves[current.moves.length - 1];
+      if (
+        !lastMove ||
+        lastMove.ply !== event.payload.ply ||
+        lastMove.side !== event.payload.side
+      ) {
+        throw new MatchStateTransitionError(
+          `Reprise du ply ${event.payload.ply} refusée: ce n'est pas le dernier coup du demandeur.`,
+        );
+      }
+      state = {
+        ...current,
+        takebackRequest: {
+          side: event.payload.side,
+          ply: event.payload.ply,
+        },
+      };
+      break;
+    }
+
+    case "takeback.declined":
+      if (
+        current.takebackRequest === null ||
+        current.takebackRequest.side === event.payload.side
+      ) {
+        throw new MatchStateTransitionError(
+          "Refus de reprise sans demande adverse en attente.",
+        );
+      }
+      state = { ...current, takebackRequest: null };
+      break;
+
+    case "takeback.applied":
+      if (current.phase !== "playing" && current.phase !== "paused") {
+        throw new MatchStateTransitionError(
+          `Reprise interdite depuis ${current.phase}.`,
+        );
+      }
+      if (
+        current.takebackRequest === null ||
+        current.takebackRequest.ply !== event.payload.ply ||
+        event.payload.ply !== current.moves.length
+      ) {
+        throw new MatchStateTransitionError(
+          `Reprise du ply ${event.payload.ply} sans demande acceptée.`,
+        );
+      }
+      // Offers made before the rewind answered a position that no longer exists.
+      state = {
+        ...current,
+        moves: current.moves.slice(0, -1),
+        currentSide: event.payload.currentSide,
+        clock: event.payload.clock,
+        drawOffer: null,
+        takebackRequest: null,
+      };
+      break;
+
     case "participant.connected":
       state = {
         ...current,
@@ -247,6 +371,8 @@ export const reduceMatchEvent = (
         currentSide: null,
         clock: event.payload.clock,
         result: event.payload.result,
+        drawOffer: null,
+        takebackRequest: null,
       };
       break;
 
@@ -266,6 +392,8 @@ export const reduceMatchEvent = (
         currentSide: null,
         clock: event.payload.clock,
         result: event.payload.result,
+        drawOffer: null,
+        takebackRequest: null,
       };
       break;
   }
@@ -13,6 +13,7 @@ import type {
   MatchRealtimeSource,
   MatchRealtimeSubscription,
   MatchResult,
+  MatchWatchReceipt,
   MultiplayerMatchSnapshot,
   RealtimeConnectionStatus,
   ServerClockAnchor,
@@ -25,8 +26,11 @@ import { STANDARD_START_FEN } from "./fen";
 import {
   isRecord,
   parseIsoTimestamp,
+  parseMatchRuleAction,
   parsePersistedMatchEvent,
 } from "./validation";
+import { chargedElapsedMs } from "@/lib/chessClock";
+import type { ClockDelayMode } from "@/types/timeControl";
 
 export interface MultiplayerSupabaseContract {
   schema: string;
@@ -35,9 +39,12 @@ export interface MultiplayerSupabaseContract {
     loadSnapshot: string;
     listEventsAfter: string;
     submitCommand: string;
+    drawCommand: string;
+    takebackCommand: string;
     heartbeat: string;
     claimTimeout: string;
     resignMatch: string;
+    watchMatch: string;
   };
 }
 
@@ -50,9 +57,12 @@ export const DEFAULT_MULTIPLAYER_SUPABASE_CONTRACT: MultiplayerSupabaseContract
       loadSnapshot: "get_chess_match_snapshot",
       listEventsAfter: "get_chess_match_events_since",
       submitCommand: "submit_chess_move_command",
+      drawCommand: "submit_chess_draw_command",
+      takebackCommand: "submit_chess_takeback_command",
       heartbeat: "heartbeat_chess_room",
       claimTimeout: "claim_chess_timeout",
       resignMatch: "resign_chess_match",
+      watchMatch: "watch_chess_match",
     }),
   });
 
@@ -177,6 +187,13 @@ const safeInteger = (value: unknown, label: string, minimum = 0): number => {
   return number;
 };
 
+const viewerRole = (value: unknown): MatchWatchReceipt["viewerRole"] => {
+  if (value !== "player" && value !== "spectator") {
+    throw new Error("viewer_role invalide.");
+  }
+  return value;
+};
+
 const platformIdentity = (row: Record<string, unknown>): MatchIdentity =>
   normalizeMatchIdentity({
     matchId: requiredString(row.match_id, "match_id"),
@@ -235,6 +252,15 @@ const clockValue = (
   snake: string,
 ): number => safeInteger(clockState[camel] ?? clockState[snake] ?? 0, camel);
 
+/** Clocks stored before delays existed carry no mode. */
+const clockDelayMode = (value: unknown): ClockDelayMode => {
+  if (value === undefined || value === null) return "none";
+  if (value === "none" || value === "simple" || value === "bronstein") {
+    return value;
+  }
+  throw new Error("clock_state.delayMode invalide.");
+};
+
 const platformClock = (
   clockStateValue: unknown,
   activeSide: "white" | "black" | null,
@@ -254,19 +280,26 @@ const platformClock = (
       : 0;
   const storedWhiteMs = clockValue(clockState, "whiteMs", "white_ms");
   const storedBlackMs = clockValue(clockState, "blackMs", "black_ms");
+  const rules = {
+    incrementMs: clockValue(clockState, "incrementMs", "increment_ms"),
+    delayMs: clockValue(clockState, "delayMs", "delay_ms"),
+    delayMode: clockDelayMode(clockState.delayMode ?? clockState.delay_mode),
+  };
+  const chargedMs = chargedElapsedMs(elapsedSinceStoredClockMs, rules);
   return {
     whiteRemainingMs: Math.max(
       0,
-      storedWhiteMs - (activeSide === "white" ? elapsedSinceStoredClockMs : 0),
+      storedWhiteMs - (activeSide === "white" ? chargedMs : 0),
     ),
     blackRemainingMs: Math.max(
       0,
-      storedBlackMs - (activeSide === "black" ? elapsedSinceStoredClockMs : 0),
+      storedBlackMs - (activeSide === "black" ? chargedMs : 0),
     ),
     activeSide: paused ? null : activeSide,
     turnStartedAt,
     pausedAt: paused ? serverNow : null,
     serverNow,
+    ...rules,
   };
 };
 
@@ -281,7 +314,13 @@ const resultFromPlatform = (
     result === "1/2-1/2"
       ? label.includes("stale")
         ? "stalemate"
-        : "draw"
+        : label.includes("agreement")
+          ? "agreement"
+          : label.includes("repetition")
+            ? "repetition"
+            : label.includes("fifty")
+              ? "fifty-move"
+              : "draw"
       : label.includes("checkmate") || label.includes("mat")
         ? "checkmate"
         : label.includes("timeout") || label.includes("time")
@@ -294,8 +333,11 @@ const resultFromPlatform = (
   return { winner, reason };
 };
 
+const UCI_SQUARES_PATTERN =
+  /^([a-l](?:1[0-2]|[1-9]))([a-l](?:1[0-2]|[1-9]))([qrbn])?$/i;
+
 const promotionFromUci = (uci: string): MatchMove["promotion"] => {
-  switch (uci[4]?.toLowerCase()) {
+  switch (UCI_SQUARES_PATTERN.exec(uci)?.[3]?.toLowerCase()) {
     case "q":
       return "queen";
     case "r":
@@ -438,6 +480,13 @@ const platformEvent = (
       throw new Error("Camp de move_committed invalide.");
     }
     const ruleState = payload.ruleState;
+    const ruleAction =
+      payload.ruleAction === undefined || payload.ruleAction === null
+        ? undefined
+        : parseMatchRuleAction(payload.ruleAction);
+    // The journal stores rule actions on "0000"; highlight the acted tiles.
+    const from = ruleAction?.pieceTile ?? ruleAction?.targetTile;
+    const to = ruleAction?.targetTile ?? ruleAction?.pieceTile;
     return parsePersistedMatchEvent({
       eventId,
       clientEventId:
@@ -451,9 +500,20 @@ const platformEvent = (
         move: {
           ply: safeInteger(payload.ply, "move.ply", 1),
           side,
-          from: requiredString(payload.from ?? uci.slice(0, 2), "move.from"),
-          to: requiredString(payload.to ?? uci.slice(2, 4), "move.to"),
+          from:
+            from ??
+            requiredString(
+              payload.from ?? UCI_SQUARES_PATTERN.exec(uci)?.[1],
+              "move.from",
+            ),
+          to:
+            to ??
+            requiredString(
+              payload.to ?? UCI_SQUARES_PATTERN.exec(uci)?.[2],
+              "move.to",
+            ),
           uci,
+          ruleAction,
           san: typeof payload.san === "string" ? payload.san : undefined,
           promotion: promotionFromUci(uci),
           durationMs: safeInteger(payload.durationMs ?? 0, "move.durationMs"),
@@ -476,6 +536,91 @@ const platformEvent = (
     });
   }
 
+  if (eventType === "draw_offered" || eventType === "draw_declined") {
+    const side = requiredString(payload.side, "draw.side");
+    if (side !== "white" && side !== "black") {
+      throw new Error("Camp de proposition de nulle invalide.");
+    }
+    return parsePersistedMatchEvent({
+      eventId,
+      clientEventId: null,
+      sequence,
+      revision,
+      identity: context.identity,
+      actorId: row.actor_id ?? null,
+      ...(eventType === "draw_offered"
+        ? {
+            type: "draw.offered",
+            payload: {
+              side,
+              expiresAtPly: safeInteger(
+                payload.expiresAtPly,
+                "draw.expiresAtPly",
+                1,
+              ),
+            },
+          }
+        : { type: "draw.declined", payload: { side } }),
+      occurredAt,
+    });
+  }
+
+  if (
+    eventType === "takeback_requested" ||
+    eventType === "takeback_declined" ||
+    eventType === "takeback_applied"
+  ) {
+    const side = requiredString(payload.side, "takeback.side");
+    if (side !== "white" && side !== "black") {
+      throw new Error("Camp de demande de reprise invalide.");
+    }
+    const base = {
+      eventId,
+      clientEventId: null,
+      sequence,
+      revision,
+      identity: context.identity,
+      actorId: row.actor_id ?? null,
+      occurredAt,
+    };
+    if (eventType === "takeback_requested") {
+      return parsePersistedMatchEvent({
+        ...base,
+        type: "takeback.requested",
+        payload: { side, ply: safeInteger(payload.ply, "takeback.ply", 1) },
+      });
+    }
+    if (eventType === "takeback_declined") {
+      return parsePersistedMatchEvent({
+        ...base,
+        type: "takeback.declined",
+        payload: { side },
+      });
+    }
+    const currentSide = requiredString(
+      payload.sideToMove,
+      "takeback.sideToMove",
+    );
+    if (currentSide !== "white" && currentSide !== "black") {
+      throw new Error("Camp au trait après reprise invalide.");
+    }
+    return parsePersistedMatchEvent({
+      ...base,
+      type: "takeback.applied",
+      payload: {
+        ply: safeInteger(payload.ply, "takeback.ply", 1),
+        currentSide,
+        clock: platformClock(
+          payload.clockState,
+          currentSide,
+          serverNow,
+          payload.turnStartedAt ?? occurredAt,
+          false,
+        ),
+      },
+    });
+  }
+
   if (eventType === "match_verified" || eventType === "match_abandoned") {
     const result = resultFromPlatform(payload.result, payload.termination);
     const clock = platformClock(
@@ -554,6 +699,14 @@ export class SupabaseMultiplayerAdapter
           contract.rpc.submitCommand,
           "RPC commande",
         ),
+        drawCommand: validateSqlIdentifier(
+          contract.rpc.drawCommand,
+          "RPC nulle",
+        ),
+        takebackCommand: validateSqlIdentifier(
+          contract.rpc.takebackCommand,
+          "RPC reprise",
+        ),
         heartbeat: validateSqlIdentifier(
           contract.rpc.heartbeat,
           "RPC heartbeat",
@@ -566,6 +719,10 @@ export class SupabaseMultiplayerAdapter
           contract.rpc.resignMatch,
           "RPC abandon",
         ),
+        watchMatch: validateSqlIdentifier(
+          contract.rpc.watchMatch,
+          "RPC spectateur",
+        ),
       },
     };
     this.rpcClient = client as unknown as DynamicRpcClient;
@@ -611,16 +768,12 @@ export class SupabaseMultiplayerAdapter
     ) {
       throw new SnapshotWatermarkMismatchError();
     }
-    const moves = allEvents
-      .filter(
-        (
-          event,
-        ): event is Extract<
-          AnyPersistedMatchEvent,
-          { type: "move.committed" }
-        > => event.type === "move.committed",
-      )
-      .map((event) => event.payload.move);
+    // An applied takeback removes the latest committed move from the line.
+    const moves = allEvents.reduce<MatchMove[]>((line, event) => {
+      if (event.type === "move.committed") return [...line, event.payload.move];
+      if (event.type === "takeback.applied") return line.slice(0, -1);
+      return line;
+    }, []);
     const plyCount = safeInteger(snapshot.ply_count, "snapshot.ply_count");
     if (moves.length !== plyCount) {
       throw new Error(
@@ -631,6 +784,12 @@ export class SupabaseMultiplayerAdapter
       snapshot.current_fen,
       "snapshot.current_fen",
     );
+    // Older snapshots predate custom boards and always start from the
+    // standard position.
+    const initialFen =
+      snapshot.initial_fen === undefined || snapshot.initial_fen === null
+        ? STANDARD_START_FEN
+        : requiredString(snapshot.initial_fen, "snapshot.initial_fen");
     const positionHash = requiredString(
       snapshot.position_hash,
       "snapshot.position_hash",
@@ -645,9 +804,11 @@ export class SupabaseMultiplayerAdapter
           "Snapshot refusé: position finale incompatible avec le dernier coup.",
         );
       }
-    } else if (currentFen !== STANDARD_START_FEN) {
+    } else if (currentFen !== initialFen) {
       throw new Error(
-        "Snapshot refusé: position initiale standard incompatible.",
+        initialFen === STANDARD_START_FEN
+          ? "Snapshot refusé: position initiale standard incompatible."
+          : "Snapshot refusé: position initiale incompatible.",
       );
     }
     const terminal = [...allEvents]
@@ -656,6 +817,48 @@ export class SupabaseMultiplayerAdapter
         (event) =>
           event.type === "match.finished" || event.type === "match.abandoned",
       );
+    // Declines and terminal events close an offer; later moves let it lapse.
+    const lastDrawEvent = [...allEvents]
+      .reverse()
+      .find(
+        (event) =>
+          event.type === "draw.offered" ||
+          event.type === "draw.declined" ||
+          event.type === "takeback.applied" ||
+          event.type === "match.finished" ||
+          event.type === "match.abandoned",
+      );
+    const drawOffer =
+      lastDrawEvent?.type === "draw.offered" &&
+      moves.length < lastDrawEvent.payload.expiresAtPly
+        ? {
+            side: lastDrawEvent.payload.side,
+            expiresAtPly: lastDrawEvent.payload.expiresAtPly,
+          }
+        : null;
+    // A move, an answer or a terminal event closes the latest request.
+    const lastTakebackEvent = [...allEvents]
+      .reverse()
+      .find(
+        (event) =>
+          event.type === "takeback.requested" ||
+          event.type === "takeback.declined" ||
+          event.type === "takeback.applied" ||
+          event.type === "move.committed" ||
+          event.type === "match.finished" ||
+          event.type === "match.abandoned",
+      );
+    const takebackRequest =
+      lastTakebackEvent?.type === "takeback.requested" &&
+      lastTakebackEvent.payload.ply === moves.length
+        ? {
+            side: lastTakebackEvent.payload.side,
+            ply: lastTakebackEvent.payload.ply,
+          }
+        : null;
+    if (typeof snapshot.rated !== "boolean") {
+      throw new Error("snapshot.rated invalide.");
+    }
     const status = requiredString(snapshot.match_status, "match_status");
     const phase: MultiplayerMatchSnapshot["phase"] =
       status === "active"
@@ -677,6 +880,7 @@ export class SupabaseMultiplayerAdapter
       revision,
       phase,
       currentSide: phase === "playing" ? currentSide : null,
+      initialFen,
       moves,
       clock: platformClock(
         snapshot.clock_state,
@@ -691,6 +895,19 @@ export class SupabaseMultiplayerAdapter
         terminal?.type === "match.abandoned"
           ? terminal.payload.result
           : null,
+      rated: snapshot.rated,
+      drawOffer: phase === "playing" ? drawOffer : null,
+      takebackRequest: phase === "playing" ? takebackRequest : null,
+      viewerRole: viewerRole(snapshot.viewer_role),
+      spectatorDelayMs:
+        safeInteger(
+          snapshot.spectator_delay_seconds,
+          "snapshot.spectator_delay_seconds",
+        ) * 1000,
+      spectatorCount: safeInteger(
+        snapshot.spectator_count,
+        "snapshot.spectator_count",
+      ),
       capturedAt: serverNow,
     };
   }
@@ -718,13 +935,29 @@ export class SupabaseMultiplayerAdapter
       (await this.loadContext(command.identity.matchId));
     if (!context) throw new Error("Match introuvable pour la commande.");
     assertCompatibleMatchIdentity(command.identity, context.identity);
-    const result = await this.rpcClient.rpc(this.contract.rpc.submitCommand, {
-      p_match_id: command.identity.matchId,
-      p_expected_revision: command.expectedRevision,
-      p_client_command_id: command.clientCommandId,
-      p_uci: command.uci,
-      p_submitted_clock_ms: command.submittedClockMs ?? null,
-    });
+    const result =
+      command.type === "move"
+        ? await this.rpcClient.rpc(this.contract.rpc.submitCommand, {
+            p_match_id: command.identity.matchId,
+            p_expected_revision: command.expectedRevision,
+            p_client_command_id: command.clientCommandId,
+            p_uci: command.uci,
+            p_submitted_clock_ms: command.submittedClockMs ?? null,
+            p_rule_action: command.ruleAction ?? null,
+          })
+        : command.type.startsWith("draw.")
+          ? await this.rpcClient.rpc(this.contract.rpc.drawCommand, {
+              p_match_id: command.identity.matchId,
+              p_expected_revision: command.expectedRevision,
+              p_client_command_id: command.clientCommandId,
+              p_action: command.type.slice("draw.".length),
+            })
+          : await this.rpcClient.rpc(this.contract.rpc.takebackCommand, {
+              p_match_id: command.identity.matchId,
+              p_expected_revision: command.expectedRevision,
+              p_client_command_id: command.clientCommandId,
+              p_action: command.type.slice("takeback.".length),
+            });
     throwRpcError("Soumission de la commande", result);
     const row = requiredRecord(firstRow(result.data), "Receipt de commande");
     const status = requiredString(row.command_status, "command_status");
@@ -779,6 +1012,34 @@ export class SupabaseMultiplayerAdapter
         context.snapshot.players_presence,
         context.snapshot,
       ),
+      spectatorCount: safeInteger(
+        context.snapshot.spectator_count,
+        "snapshot.spectator_count",
+      ),
+    };
+  }
+
+  /**
+   * Joins the room read-only. Players get their seat back; everybody else
+   * becomes a spectator, possibly behind the room's tape delay.
+   */
+  async watchMatch(matchId: string): Promise<MatchWatchReceipt> {
+    const result = await this.rpcClient.rpc(this.contract.rpc.watchMatch, {
+      p_match_id: matchId,
+    });
+    throwRpcError("Accès spectateur", result);
+    const row = requiredRecord(firstRow(result.data), "Réponse spectateur");
+    const watchedMatchId = requiredString(row.match_id, "match_id");
+    if (watchedMatchId.toLowerCase() !== matchId.toLowerCase()) {
+      throw new Error("L'accès spectateur concerne un autre match.");
+    }
+    return {
+      matchId: watchedMatchId.toLowerCase(),
+      lobbyId: requiredString(row.room_id, "room_id").toLowerCase(),
+      viewerRole: viewerRole(row.viewer_role),
+      spectatorDelayMs:
+        safeInteger(row.spectator_delay_seconds, "spectator_delay_seconds") *
+        1000,
     };
   }
 
@@ -1,5 +1,11 @@
 import type { DerivedClock } from "./clock";
-import type { MatchSide, MultiplayerPhase } from "./contracts";
+import type {
+  MatchDrawOffer,
+  MatchMove,
+  MatchSide,
+  MatchTakebackRequest,
+  MultiplayerPhase,
+} from "./contracts";
 
 export interface TimeoutClaimVisibilityInput {
   phase: MultiplayerPhase;
@@ -22,3 +28,57 @@ export const canClaimDisplayedTimeout = ({
   clock.activeSide !== null &&
   clock.activeSide !== playerSide &&
   clock.timedOutSide === clock.activeSide;
+
+export interface DrawActionVisibilityInput {
+  phase: MultiplayerPhase;
+  playerSide: MatchSide | null;
+  drawOffer: MatchDrawOffer | null;
+}
+
+export type DisplayedDrawActions = "offer" | "respond" | "awaiting" | "none";
+
+/**
+ * Display guard only. PostgreSQL decides whether an offer is still open and
+ * rejects a second offer by the same side at the same ply.
+ */
+export const displayedDrawActions = ({
+  phase,
+  playerSide,
+  drawOffer,
+}: DrawActionVisibilityInput): DisplayedDrawActions => {
+  if (phase !== "playing" || playerSide === null) return "none";
+  if (drawOffer === null) return "offer";
+  return drawOffer.side === playerSide ? "awaiting" : "respond";
+};
+
+export interface TakebackActionVisibilityInput {
+  phase: MultiplayerPhase;
+  playerSide: MatchSide | null;
+  rated: boolean;
+  lastMove: MatchMove | null;
+  takebackRequest: MatchTakebackRequest | null;
+}
+
+export type DisplayedTakebackActions =
+  | "request"
+  | "respond"
+  | "awaiting"
+  | "none";
+
+/**
+ * Display guard only. PostgreSQL refuses rated matches, checks that the
+ * requester undoes their own latest ply and limits requests per ply.
+ */
+export const displayedTakebackActions = ({
+  phase,
+  playerSide,
+  rated,
+  lastMove,
+  takebackRequest,
+}: TakebackActionVisibilityInput): DisplayedTakebackActions => {
+  if (phase !== "playing" || playerSide === null || rated) return "none";
+  if (takebackRequest !== null) {
+    return takebackRequest.side === playerSide ? "awaiting" : "respond";
+  }
+  return lastMove?.side === playerSide ? "request" : "none";
+};
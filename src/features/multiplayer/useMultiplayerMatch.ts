@@ -37,6 +37,9 @@ export const useMultiplayerMatch = ({
   );
   const [view, setView] = useState<MatchSyncView>(session.view);
   const [displayNow, setDisplayNow] = useState(() => Date.now());
+  const [heartbeatSpectatorCount, setHeartbeatSpectatorCount] = useState<
+    number | null
+  >(null);
   const estimator = useMemo(() => {
     if (!identity.matchId) {
       throw new Error("matchId manquant pour l'estimation du temps serveur.");
@@ -93,6 +96,7 @@ export const useMultiplayerMatch = ({
             serverNow: response.serverNow,
           });
           presence.seed(response.participants);
+          setHeartbeatSpectatorCount(response.spectatorCount);
           if (response.authoritativeRevision > view.state.lastRevision) {
             void session.recover();
           }
@@ -153,6 +157,7 @@ export const useMultiplayerMatch = ({
     ...view,
     clock,
     presence: participantPresence,
+    spectatorCount: heartbeatSpectatorCount ?? view.state.spectatorCount,
     submitCommand,
     claimTimeout,
     resignMatch,
@@ -1,18 +1,24 @@
 import type {
   AnyPersistedMatchEvent,
   JsonValue,
+  MatchDrawOffer,
   MatchEventPayloadMap,
   MatchEventType,
   MatchIdentity,
   MatchMove,
   MatchParticipant,
   MatchResult,
+  MatchRuleAction,
   MatchSide,
+  MatchTakebackRequest,
+  MatchViewerRole,
   MultiplayerMatchSnapshot,
   MultiplayerPhase,
   ServerClockAnchor,
 } from "./contracts";
+import { STANDARD_START_FEN } from "./fen";
 import { normalizeMatchIdentity } from "./identity";
+import type { ClockDelayMode } from "@/types/timeControl";
 
 export class MatchContractError extends Error {
   constructor(message: string) {
@@ -29,6 +35,11 @@ const EVENT_TYPES = new Set<MatchEventType>([
   "participant.disconnected",
   "match.paused",
   "match.resumed",
+  "draw.offered",
+  "draw.declined",
+  "takeback.requested",
+  "takeback.declined",
+  "takeback.applied",
   "match.finished",
   "match.abandoned",
 ]);
@@ -41,6 +52,8 @@ const SNAPSHOT_PHASES = new Set<MultiplayerMatchSnapshot["phase"]>([
   "abandoned",
 ]);
 
+const VIEWER_ROLES = new Set<MatchViewerRole>(["player", "spectator"]);
+
 export const isRecord = (value: unknown): value is Record<string, unknown> =>
   value !== null && typeof value === "object" && !Array.isArray(value);
 
@@ -164,10 +177,24 @@ export const parseMatchIdentity = (value: unknown): MatchIdentity => {
   });
 };
 
+const CLOCK_DELAY_MODES = new Set<ClockDelayMode>([
+  "none",
+  "simple",
+  "bronstein",
+]);
+
 export const parseServerClockAnchor = (value: unknown): ServerClockAnchor => {
   if (!isRecord(value)) {
     throw new MatchContractError("L'ancre d'horloge est absente.");
   }
+  const delayMode = field(value, "delayMode", "delay_mode");
+  const delayMs = integerField(field(value, "delayMs", "delay_ms"), "delayMs");
+  if (
+    !CLOCK_DELAY_MODES.has(delayMode as ClockDelayMode) ||
+    (delayMode === "none") !== (delayMs === 0)
+  ) {
+    throw new MatchContractError("Délai d'horloge invalide.");
+  }
   return {
     whiteRemainingMs: integerField(
       field(value, "whiteRemainingMs", "white_remaining_ms"),
@@ -193,6 +220,12 @@ export const parseServerClockAnchor = (value: unknown): ServerClockAnchor => {
       field(value, "serverNow", "server_now"),
       "serverNow",
     ),
+    incrementMs: integerField(
+      field(value, "incrementMs", "increment_ms"),
+      "incrementMs",
+    ),
+    delayMs,
+    delayMode: delayMode as ClockDelayMode,
   };
 };
 
@@ -240,6 +273,38 @@ const parseParticipants = (value: unknown): MatchParticipant[] => {
   return participants;
 };
 
+const TILE_PATTERN = /^[a-l](?:1[0-2]|[1-9])$/i;
+const RULE_ACTION_ID_PATTERN = /^[a-zA-Z0-9._@:-]{1,160}$/;
+
+export const parseMatchRuleAction = (value: unknown): MatchRuleAction => {
+  if (!isRecord(value)) {
+    throw new MatchContractError("L'action de règle est invalide.");
+  }
+  const actionId = stringField(field(value, "actionId"), "ruleAction.actionId");
+  const pieceTile = nullableString(
+    field(value, "pieceTile"),
+    "ruleAction.pieceTile",
+    3,
+  );
+  const targetTile = nullableString(
+    field(value, "targetTile"),
+    "ruleAction.targetTile",
+    3,
+  );
+  if (
+    !RULE_ACTION_ID_PATTERN.test(actionId) ||
+    (pieceTile !== null && !TILE_PATTERN.test(pieceTile)) ||
+    (targetTile !== null && !TILE_PATTERN.test(targetTile))
+  ) {
+    throw new MatchContractError("L'action de règle est invalide.");
+  }
+  return {
+    actionId,
+    ...(pieceTile !== null ? { pieceTile: pieceTile.toLowerCase() } : {}),
+    ...(targetTile !== null ? { targetTile: targetTile.toLowerCase() } : {}),
+  };
+};
+
 export const parseMatchMove = (value: unknown): MatchMove => {
   if (!isRecord(value)) {
     throw new MatchContractError("Le coup est invalide.");
@@ -259,9 +324,24 @@ export const parseMatchMove = (value: unknown): MatchMove => {
     );
   }
 
+  const rawRuleAction = field(value, "ruleAction", "rule_action");
+  const ruleAction =
+    rawRuleAction === undefined || rawRuleAction === null
+      ? undefined
+      : parseMatchRuleAction(rawRuleAction);
+  const uci = stringField(field(value, "uci"), "move.uci", 8).toLowerCase();
+  if ((ruleAction !== undefined) !== (uci === "0000")) {
+    throw new MatchContractError(
+      "Une action de règle doit être journalisée sur le coup nul.",
+    );
+  }
+
+  // A rule action without a selected piece or tile keeps the UCI null squares.
+  const isSquare = (square: string) =>
+    TILE_PATTERN.test(square) || (ruleAction !== undefined && square === "00");
   const from = stringField(field(value, "from"), "move.from", 8);
   const to = stringField(field(value, "to"), "move.to", 8);
-  if (!/^[a-h][1-8]$/i.test(from) || !/^[a-h][1-8]$/i.test(to)) {
+  if (!isSquare(from) || !isSquare(to)) {
     throw new MatchContractError("Les coordonnées du coup sont invalides.");
   }
 
@@ -270,7 +350,8 @@ export const parseMatchMove = (value: unknown): MatchMove => {
     side: parseSide(field(value, "side"), "move.side"),
     from: from.toLowerCase(),
     to: to.toLowerCase(),
-    uci: stringField(field(value, "uci"), "move.uci", 8).toLowerCase(),
+    uci,
+    ...(ruleAction ? { ruleAction } : {}),
     san: nullableString(field(value, "san"), "move.san", 32) ?? undefined,
     promotion:
       promotion === undefined || promotion === null
@@ -319,6 +400,9 @@ const parseResult = (value: unknown): MatchResult => {
     "checkmate",
     "stalemate",
     "draw",
+    "agreement",
+    "repetition",
+    "fifty-move",
     "timeout",
     "resignation",
     "abandonment",
@@ -333,6 +417,32 @@ const parseResult = (value: unknown): MatchResult => {
   };
 };
 
+const parseDrawOffer = (value: unknown): MatchDrawOffer | null => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) {
+    throw new MatchContractError("La proposition de nulle est invalide.");
+  }
+  return {
+    side: parseSide(field(value, "side"), "drawOffer.side"),
+    expiresAtPly: integerField(
+      field(value, "expiresAtPly", "expires_at_ply"),
+      "drawOffer.expiresAtPly",
+      1,
+    ),
+  };
+};
+
+const parseTakebackRequest = (value: unknown): MatchTakebackRequest | null => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) {
+    throw new MatchContractError("La demande de reprise est invalide.");
+  }
+  return {
+    side: parseSide(field(value, "side"), "takebackRequest.side"),
+    ply: integerField(field(value, "ply"), "takebackRequest.ply", 1),
+  };
+};
+
 const parsePayload = <Type extends MatchEventType>(
   type: Type,
   value: unknown,
@@ -418,6 +528,42 @@ const parsePayload = <Type extends MatchEventType>(
         clock: parseServerClockAnchor(field(value, "clock")),
       };
       break;
+    case "draw.offered":
+      parsed = {
+        side: parseSide(field(value, "side"), "side"),
+        expiresAtPly: integerField(
+          field(value, "expiresAtPly", "expires_at_ply"),
+          "expiresAtPly",
+          1,
+        ),
+      };
+      break;
+    case "draw.declined":
+      parsed = {
+        side: parseSide(field(value, "side"), "side"),
+      };
+      break;
+    case "takeback.requested":
+      parsed = {
+        side: parseSide(field(value, "side"), "side"),
+        ply: integerField(field(value, "ply"), "ply", 1),
+      };
+      break;
+    case "takeback.declined":
+      parsed = {
+        side: parseSide(field(value, "side"), "side"),
+      };
+      break;
+    case "takeback.applied":
+      parsed = {
+        ply: integerField(field(value, "ply"), "ply", 1),
+        currentSide: parseSide(
+          field(value, "currentSide", "current_side"),
+          "currentSide",
+        ),
+        clock: parseServerClockAnchor(field(value, "clock")),
+      };
+      break;
     case "match.finished":
       parsed = {
         result: parseResult(field(value, "result")),
@@ -524,6 +670,17 @@ export const parseMatchSnapshot = (
       "La séquence du snapshot est incompatible avec sa révision.",
     );
   }
+  const rated = field(value, "rated");
+  if (typeof rated !== "boolean") {
+    throw new MatchContractError("Le mode classé du snapshot est invalide.");
+  }
+  const viewerRole = field(value, "viewerRole", "viewer_role");
+  if (
+    typeof viewerRole !== "string" ||
+    !VIEWER_ROLES.has(viewerRole as MatchViewerRole)
+  ) {
+    throw new MatchContractError("Le rôle du lecteur est invalide.");
+  }
   return {
     identity: identityFromRow(value),
     sequence,
@@ -533,6 +690,12 @@ export const parseMatchSnapshot = (
       field(value, "currentSide", "current_side"),
       "currentSide",
     ),
+    initialFen:
+      nullableString(
+        field(value, "initialFen", "initial_fen"),
+        "snapshot.initialFen",
+        256,
+      ) ?? STANDARD_START_FEN,
     moves: rawMoves.map(parseMatchMove),
     clock:
       field(value, "clock") === null || field(value, "clock") === undefined
@@ -543,6 +706,20 @@ export const parseMatchSnapshot = (
       field(value, "result") === null || field(value, "result") === undefined
         ? null
         : parseResult(field(value, "result")),
+    rated,
+    drawOffer: parseDrawOffer(field(value, "drawOffer", "draw_offer")),
+    takebackRequest: parseTakebackRequest(
+      field(value, "takebackRequest", "takeback_request"),
+    ),
+    viewerRole: viewerRole as MatchViewerRole,
+    spectatorDelayMs: integerField(
+      field(value, "spectatorDelayMs", "spectator_delay_ms"),
+      "snapshot.spectatorDelayMs",
+    ),
+    spectatorCount: integerField(
+      field(value, "spectatorCount", "spectator_count"),
+      "snapshot.spectatorCount",
+    ),
     capturedAt: parseIsoTimestamp(
       field(value, "capturedAt", "captured_at"),
       "capturedAt",
@@ -0,0 +1,855 @@
+import { ChessBoardAdapter } from "@/engine/adapters/chessBoardAdapter";
+import { MatchAdapter } from "@/engine/adapters/matchAdapter";
+import { registerBuiltinConditions } from "@/engine/builtins/conditions";
+import { registerBuiltinEffects } from "@/engine/builtins/effects";
+import { registerBuiltinProviders } from "@/engine/builtins/providers";
+import {
+  resolveCapturedTargetPieceId,
+  type MoveCommittedPayload,
+} from "@/engine/capture-context";
+import { Cooldown } from "@/engine/cooldown";
+import { RuleEngine } from "@/engine/engine";
+import { EventBus } from "@/engine/eventBus";
+import { Registry } from "@/engine/registry";
+import { StateStore } from "@/engine/stateStore";
+import type {
+  EngineContracts,
+  RuleJSON,
+  UIAPI,
+  UIActionSpec,
+  VFXAPI,
+} from "@/engine/types";
+import { ChessEngine } from "@/lib/chessEngine";
+import { applyMoveToGameState } from "@/lib/gameMoveState";
+import {
+  createDeterministicIdGenerator,
+  pieceFenLetter,
+  resolveRulesFairyPieces,
+  sha256Hex,
+} from "@/rules-v2";
+import {
+  BOARD_FILE_LETTERS,
+  BOARD_TILE_PATTERN,
+  STANDARD_BOARD_LAYOUT,
+  allowsCastling,
+  boardGeometryForGame,
+  boardPositionToTile,
+  boardTileToPosition,
+  createStartFen,
+  isBoardHole,
+  resolveRulesBoardLayout,
+  type BoardGeometry,
+  type BoardLayout,
+} from "@/rules-v2/board-geometry";
+import type { ChessMove, ChessPiece, GameState, Position } from "@/types/chess";
+import type { JsonValue, MatchIdentity, MatchSide } from "./contracts";
+import { STANDARD_START_FEN } from "./fen";
+import { matchRuntimeSeed } from "./runtime-rng";
+
+export const VARIANT_RUNTIME_ID = "rule-architect-variant-v1";
+export const VARIANT_RULE_STATE_VERSION = "variant-rule-state-v1";
+/** UCI null move used to journal a Rule Architect action as one ply. */
+export const NULL_MOVE_UCI = "0000";
+
+const RUNTIME_SCOPE = "rule-engine-v1";
+const MAX_EFFECTS_PER_RULE_EVENT = 128;
+const MAX_NESTED_DEPTH = 8;
+const MAX_TURN_HANDOFFS = 4;
+const UCI_PATTERN = /^([a-l](?:1[0-2]|[1-9]))([a-l](?:1[0-2]|[1-9]))(q)?$/;
+const ACTION_ID_PATTERN = /^[a-zA-Z0-9._@:-]{1,160}$/;
+
+export type VariantRuntimeErrorCode =
+  | "INVALID_COMMAND"
+  | "ILLEGAL_MOVE"
+  | "RULE_ACTION_REJECTED"
+  | "RUNTIME_INTEGRITY_FAILED";
+
+export class VariantRuntimeError extends Error {
+  constructor(
+    public readonly code: VariantRuntimeErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "VariantRuntimeError";
+  }
+}
+
+export interface VariantRuleAction {
+  actionId: string;
+  pieceTile?: string;
+  targetTile?: string;
+}
+
+/** One journaled ply: a regular move, or a rule action on `NULL_MOVE_UCI`. */
+export interface VariantCommand {
+  uci: string;
+  ruleAction?: VariantRuleAction | null;
+}
+
+export interface VariantTerminal {
+  result: "1-0" | "0-1" | "1/2-1/2";
+  termination: "checkmate" | "stalemate";
+}
+
+export interface VariantRuleState {
+  version: typeof VARIANT_RULE_STATE_VERSION;
+  ply: number;
+  sideToMove: MatchSide;
+  board: JsonValue;
+  rules: JsonValue;
+  cooldowns: JsonValue;
+  match: JsonValue;
+}
+
+export interface VariantTransition {
+  ply: number;
+  uci: string;
+  ruleAction: VariantRuleAction | null;
+  san: string | null;
+  side: MatchSide;
+  nextSide: MatchSide;
+  fenBefore: string;
+  fenAfter: string;
+  isCheck: boolean;
+  terminal: VariantTerminal | null;
+  ruleState: VariantRuleState;
+  ruleStateHash: string;
+  /** Rule toasts raised while the command ran, in emission order. */
+  messages: string[];
+}
+
+const SAN_LETTERS: Readonly<Record<ChessPiece["type"], string>> = Object.freeze(
+  {
+    king: "K",
+    queen: "Q",
+    rook: "R",
+    bishop: "B",
+    knight: "N",
+    pawn: "",
+    fairy: "",
+  },
+);
+
+const tileToPosition = (tile: string, geometry: BoardGeometry): Position =>
+  boardTileToPosition(tile, geometry) ?? { row: -1, col: -1 };
+
+const opposite = (side: MatchSide): MatchSide =>
+  side === "white" ? "black" : "white";
+
+const parseJson = (payload: string): JsonValue =>
+  JSON.parse(payload) as JsonValue;
+
+/** Headless UI port: actions are registered, toasts are collected. */
+class HeadlessRuleUI implements UIAPI {
+  private readonly actions = new Map<string, UIActionSpec>();
+  private messages: string[] = [];
+
+  toast(message: string): void {
+    const safeMessage = String(message ?? "")
+      .trim()
+      .slice(0, 500);
+    if (safeMessage) this.messages.push(safeMessage);
+  }
+
+  registerAction(actionSpec: UIActionSpec): void {
+    if (!actionSpec?.id || !actionSpec?.label) return;
+    this.actions.set(actionSpec.id, structuredClone(actionSpec));
+  }
+
+  unregisterAction(actionId: string): void {
+    this.actions.delete(actionId);
+  }
+
+  getAction(actionId: string): UIActionSpec | undefined {
+    const action = this.actions.get(actionId);
+    return action ? structuredClone(action) : undefined;
+  }
+
+  getAllActions(): UIActionSpec[] {
+    return [...this.actions.values()]
+      .map((action) => structuredClone(action))
+      .sort((left, right) => left.id.localeCompare(right.id));
+  }
+
+  drainMessages(): string[] {
+    const drained = this.messages;
+    this.messages = [];
+    return drained;
+  }
+}
+
+const SILENT_VFX: VFXAPI = Object.freeze({
+  spawnDecal: () => undefined,
+  clearDecal: () => undefined,
+  playAnimation: () => undefined,
+  playAudio: () => undefined,
+});
+
+export const createVariantGameState = (
+  layout: BoardLayout = STANDARD_BOARD_LAYOUT,
+): GameState => {
+  const board = ChessEngine.initializeBoard(layout);
+  return {
+    board,
+    geometry: boardGeometryForGame(layout),
+    currentPlayer: "white",
+    turnNumber: 1,
+    movesThisTurn: 0,
+    selectedPiece: null,
+    validMoves: [],
+    gameStatus: "active",
+    capturedPieces: [],
+    moveHistory: [],
+    activeRules: [],
+    extraMoves: 0,
+    pendingExtraMoves: { white: 0, black: 0 },
+    freezeEffects: [],
+    freezeUsage: { white: false, black: false },
+    positionHistory: { [ChessEngine.getBoardSignature(board)]: 1 },
+    pendingTransformations: { white: false, black: false },
+    lastMoveByColor: {},
+    replayOpportunities: {},
+    vipTokens: { white: 0, black: 0 },
+    forcedMirrorResponse: null,
+    secretSetupApplied: false,
+    blindOpeningRevealed: { white: false, black: false },
+    specialAttacks: [],
+    visualEffects: [],
+  };
+};
+
+const castlingRights = (
+  board: GameState["board"],
+  layout: BoardLayout,
+): string => {
+  if (!allowsCastling(layout)) return "-";
+  const kingCol = layout.backRank.indexOf("king");
+  const lastRow = layout.ranks - 1;
+  const lastCol = layout.files - 1;
+  const unmoved = (
+    row: number,
+    col: number,
+    type: ChessPiece["type"],
+    color: MatchSide,
+  ): boolean => {
+    const piece = board[row]?.[col];
+    return Boolean(
+      piece && piece.type === type && piece.color === color && !piece.hasMoved,
+    );
+  };
+  let rights = "";
+  if (unmoved(lastRow, kingCol, "king", "white")) {
+    if (unmoved(lastRow, lastCol, "rook", "white")) rights += "K";
+    if (unmoved(lastRow, 0, "rook", "white")) rights += "Q";
+  }
+  if (unmoved(0, kingCol, "king", "black")) {
+    if (unmoved(0, lastCol, "rook", "black")) rights += "k";
+    if (unmoved(0, 0, "rook", "black")) rights += "q";
+  }
+  return rights || "-";
+};
+
+const enPassantSquare = (
+  lastMove: ChessMove | undefined,
+  geometry: BoardGeometry,
+): string => {
+  if (
+    !lastMove ||
+    lastMove.piece.type !== "pawn" ||
+    Math.abs(lastMove.from.row - lastMove.to.row) !== 2
+  ) {
+    return "-";
+  }
+  return boardPositionToTile(
+    {
+      row: (lastMove.from.row + lastMove.to.row) / 2,
+      col: lastMove.to.col,
+    },
+    geometry,
+  );
+};
+
+/**
+ * Deterministic FEN projection of a variant position. Rule statuses are not
+ * representable in FEN; they are covered by the rule state hash instead.
+ * Holes are written `*`, as in `createStartFen`.
+ */
+export const variantFen = (
+  state: GameState,
+  halfmoveClock: number,
+  enPassant: string,
+  layout: BoardLayout = STANDARD_BOARD_LAYOUT,
+): string => {
+  const placement = state.board
+    .map((row, rowIndex) => {
+      let result = "";
+      let empty = 0;
+      row.forEach((piece, colIndex) => {
+        const hole = isBoardHole({ row: rowIndex, col: colIndex }, layout);
+        if (!piece && !hole) {
+          empty += 1;
+          return;
+        }
+        if (empty > 0) {
+          result += String(empty);
+          empty = 0;
+        }
+        if (!piece) {
+          result += "*";
+          return;
+        }
+        result += pieceFenLetter(piece);
+      });
+      return empty > 0 ? result + String(empty) : result;
+    })
+    .join("/");
+  return [
+    placement,
+    state.currentPlayer === "white" ? "w" : "b",
+    castlingRights(state.board, layout),
+    enPassant,
+    String(halfmoveClock),
+    String(state.turnNumber),
+  ].join(" ");
+};
+
+const moveNotation = (
+  previous: GameState,
+  move: ChessMove,
+  next: GameState,
+  geometry: BoardGeometry,
+): string => {
+  if (move.isCastling) {
+    return move.to.col > move.from.col ? "O-O" : "O-O-O";
+  }
+  const capture = move.captured ? "x" : "";
+  const destination = boardPositionToTile(move.to, geometry);
+  let prefix = move.piece.fairy?.glyph ?? SAN_LETTERS[move.piece.type];
+  if (move.piece.type === "pawn") {
+    prefix = capture ? BOARD_FILE_LETTERS[move.from.col] : "";
+  } else {
+    const rivals = previous.board.flatMap((row) =>
+      row.filter(
+        (piece): piece is ChessPiece =>
+          piece !== null &&
+          piece.type === move.piece.type &&
+          piece.fairy?.id === move.piece.fairy?.id &&
+          piece.color === move.piece.color &&
+          (piece.position.row !== move.from.row ||
+            piece.position.col !== move.from.col) &&
+          ChessEngine.getValidMoves(previous.board, piece, {
+            ...previous,
+            selectedPiece: piece,
+          }).some(
+            (candidate) =>
+              candidate.row === move.to.row && candidate.col === move.to.col,
+          ),
+      ),
+    );
+    if (rivals.length > 0) {
+      const sameFile = rivals.some(
+        (piece) => piece.position.col === move.from.col,
+      );
+      const sameRank = rivals.some(
+        (piece) => piece.position.row === move.from.row,
+      );
+      prefix += !sameFile
+        ? BOARD_FILE_LETTERS[move.from.col]
+        : !sameRank
+          ? String(geometry.ranks - move.from.row)
+          : boardPositionToTile(move.from, geometry);
+    }
+  }
+  const promotion = move.promotion
+    ? `=${SAN_LETTERS[move.promotion] || "Q"}`
+    : "";
+  const suffix =
+    next.gameStatus === "checkmate"
+      ? "#"
+      : next.gameStatus === "check"
+        ? "+"
+        : "";
+  return `${prefix}${capture}${destination}${promotion}${suffix}`;
+};
+
+const parseRuleAction = (value: VariantRuleAction): VariantRuleAction => {
+  if (
+    typeof value?.actionId !== "string" ||
+    !ACTION_ID_PATTERN.test(value.actionId) ||
+    (value.pieceTile !== undefined &&
+      !BOARD_TILE_PATTERN.test(value.pieceTile)) ||
+    (value.targetTile !== undefined &&
+      !BOARD_TILE_PATTERN.test(value.targetTile))
+  ) {
+    throw new VariantRuntimeError(
+      "INVALID_COMMAND",
+      "L'action de règle est invalide.",
+    );
+  }
+  return {
+    actionId: value.actionId,
+    ...(value.pieceTile ? { pieceTile: value.pieceTile } : {}),
+    ...(value.targetTile ? { targetTile: value.targetTile } : {}),
+  };
+};
+
+/**
+ * Hash of the initial position, identical to the one written by
+ * `create_chess_match_internal` before any rule has run.
+ */
+export const variantGenesisRuleStateHash = async (
+  identity: MatchIdentity,
+  initialFen = STANDARD_START_FEN,
+): Promise<string> =>
+  await sha256Hex(
+    `${initialFen}:${identity.rulesetHash}:${identity.matchSeed}`,
+  );
+
+export const variantRuleStateHash = async (
+  identity: MatchIdentity,
+  fen: string,
+  ruleState: VariantRuleState,
+): Promise<string> =>
+  await sha256Hex({
+    version: VARIANT_RULE_STATE_VERSION,
+    rulesetHash: identity.rulesetHash,
+    matchSeed: identity.matchSeed,
+    engineVersion: identity.engineVersion,
+    fen,
+    ruleState,
+  });
+
+/**
+ * Headless Rule Architect match: the same `RuleEngine`, builtins and board
+ * adapter as the browser runtime, driven by journaled commands only. Lifecycle
+ * events follow the order used by `Play.tsx` so both sides replay identically.
+ */
+export class VariantMatchRuntime {
+  /** Board declared by the pinned rules, the standard one otherwise. */
+  readonly layout: BoardLayout;
+  /** Position before the first ply, as stored in `chess_matches.initial_fen`. */
+  readonly initialFen: string;
+  private state: GameState;
+  private plyCount = 0;
+  private halfmoveClock = 0;
+  private pendingTurnEnds = 0;
+  private readonly board: ChessBoardAdapter;
+  private readonly match: MatchAdapter;
+  private readonly cooldown = new Cooldown();
+  private readonly ruleState = new StateStore();
+  private readonly ui = new HeadlessRuleUI();
+  private readonly engine: RuleEngine;
+
+  constructor(
+    private readonly identity: MatchIdentity,
+    rules: readonly RuleJSON[],
+  ) {
+    const seed = matchRuntimeSeed(identity, RUNTIME_SCOPE);
+    this.layout = resolveRulesBoardLayout(rules) ?? STANDARD_BOARD_LAYOUT;
+    this.initialFen = createStartFen(this.layout);
+    this.state = createVariantGameState(this.layout);
+    this.board = new ChessBoardAdapter(this.state.board, this.layout);
+    this.board.setFairyPieces(resolveRulesFairyPieces(rules));
+    this.state = { ...this.state, board: this.board.getBoard() };
+    this.match = new MatchAdapter(this.state.currentPlayer);
+    this.match.setTurnEndCallback(() => {
+      this.pendingTurnEnds += 1;
+    });
+
+    const registry = new Registry();
+    registerBuiltinConditions(registry);
+    registerBuiltinEffects(registry);
+    registerBuiltinProviders(registry);
+
+    const nextDeterministicId = createDeterministicIdGenerator(
+      `${seed}|entities`,
+    );
+    const contracts: EngineContracts = {
+      board: this.board,
+      ui: this.ui,
+      vfx: SILENT_VFX,
+      match: this.match,
+      cooldown: this.cooldown,
+      state: this.ruleState,
+      eventBus: new EventBus(),
+      util: { uuid: nextDeterministicId },
+      capturePiece: (pieceId) => {
+        // Same soft failure as the browser runtime: a stale capture is a no-op.
+        try {
+          this.board.removePiece(pieceId);
+        } catch {
+          this.ui.toast("La capture demandée par la règle a échoué.");
+        }
+      },
+    };
+    this.engine = new RuleEngine(contracts, registry, {
+      matchSeed: seed,
+      maxEffectsPerRuleEvent: MAX_EFFECTS_PER_RULE_EVENT,
+      maxNestedDepth: MAX_NESTED_DEPTH,
+    });
+    // Versions pinned to a match are active by construction; the published
+    // `isActive` flag only drives the authoring UI.
+    this.engine.loadRules(
+      rules
+        .filter(
+          (rule) =>
+            Array.isArray(rule.logic?.effects) && rule.logic.effects.length > 0,
+        )
+        .map((rule) => ({ ...rule, meta: { ...rule.meta, isActive: true } })),
+    );
+    this.ui.drainMessages();
+  }
+
+  /** Journaled plies, rule actions included. */
+  get ply(): number {
+    return this.plyCount;
+  }
+
+  get sideToMove(): MatchSide {
+    return this.state.currentPlayer;
+  }
+
+  get fen(): string {
+    return variantFen(
+      this.state,
+      this.halfmoveClock,
+      enPassantSquare(
+        this.state.moveHistory[this.state.moveHistory.length - 1],
+        this.layout,
+      ),
+      this.layout,
+    );
+  }
+
+  /** Copy of the current position, for bots that search it. */
+  get gameState(): GameState {
+    return structuredClone(this.state);
+  }
+
+  getUIActions(): UIActionSpec[] {
+    return this.ui.getAllActions();
+  }
+
+  /** Square of a rule engine piece, or `null` once it has left the board. */
+  pieceTile(pieceId: string): string | null {
+    try {
+      return this.board.getPiece(pieceId).tile;
+    } catch {
+      return null;
+    }
+  }
+
+  snapshot(): VariantRuleState {
+    return {
+      version: VARIANT_RULE_STATE_VERSION,
+      ply: this.plyCount,
+      sideToMove: this.state.currentPlayer,
+      board: parseJson(this.board.serialize()),
+      rules: parseJson(this.ruleState.serialize()),
+      cooldowns: parseJson(this.cooldown.serialize()),
+      match: parseJson(this.match.serialize()),
+    };
+  }
+
+  async ruleStateHash(): Promise<string> {
+    return this.plyCount === 0
+      ? await variantGenesisRuleStateHash(this.identity, this.initialFen)
+      : await variantRuleStateHash(this.identity, this.fen, this.snapshot());
+  }
+
+  async apply(command: VariantCommand): Promise<VariantTransition> {
+    const statusBefore = this.status();
+    if (statusBefore === "checkmate" || statusBefore === "stalemate") {
+      throw new VariantRuntimeError(
+        "ILLEGAL_MOVE",
+        "La partie est déjà terminée.",
+      );
+    }
+
+    const side = this.state.currentPlayer;
+    const fenBefore = this.fen;
+    const ruleAction = command.ruleAction
+      ? parseRuleAction(command.ruleAction)
+      : null;
+    let san: string | null = null;
+
+    if (ruleAction) {
+      if (command.uci !== NULL_MOVE_UCI) {
+        throw new VariantRuntimeError(
+          "INVALID_COMMAND",
+          "Une action de règle doit être journalisée comme coup nul.",
+        );
+      }
+      this.runRuleAction(ruleAction);
+    } else {
+      san = this.runMove(command.uci);
+    }
+    this.drainTurnEnds();
+    this.refreshStatus();
+    this.notifyGameEnd();
+    this.plyCount += 1;
+
+    const fenAfter = this.fen;
+    const ruleState = this.snapshot();
+    const status = this.status();
+    const terminal: VariantTerminal | null =
+      status === "checkmate"
+        ? {
+            result: this.state.currentPlayer === "white" ? "0-1" : "1-0",
+            termination: "checkmate",
+          }
+        : status === "stalemate"
+          ? { result: "1/2-1/2", termination: "stalemate" }
+          : null;
+
+    return {
+      ply: this.plyCount,
+      uci: command.uci,
+      ruleAction,
+      san,
+      side,
+      nextSide: this.state.currentPlayer,
+      fenBefore,
+      fenAfter,
+      isCheck: status === "check" || status === "checkmate",
+      terminal,
+      ruleState,
+      ruleStateHash: await variantRuleStateHash(
+        this.identity,
+        fenAfter,
+        ruleState,
+      ),
+      messages: this.ui.drainMessages(),
+    };
+  }
+
+  private runMove(uci: string): string {
+    const parsed = UCI_PATTERN.exec(uci);
+    if (!parsed) {
+      throw new VariantRuntimeError(
+        "INVALID_COMMAND",
+        "La notation UCI est invalide.",
+      );
+    }
+    const [, fromTile, toTile, promotion] = parsed;
+    const piece = ChessEngine.getPieceAt(
+      this.state.board,
+      tileToPosition(fromTile, this.layout),
+    );
+    const applied = piece
+      ? applyMoveToGameState(
+          this.state,
+          piece,
+          tileToPosition(toTile, this.layout),
+        )
+      : null;
+    if (!applied || Boolean(applied.move.promotion) !== Boolean(promotion)) {
+      throw new VariantRuntimeError(
+        "ILLEGAL_MOVE",
+        "Ce coup n'est pas légal dans la position courante.",
+      );
+    }
+
+    const previous = this.state;
+    const { move } = applied;
+    // Wall-clock metadata never enters the replayed state.
+    delete move.timestamp;
+    const san = moveNotation(previous, move, applied.state, this.layout);
+    this.halfmoveClock =
+      move.piece.type === "pawn" || move.captured ? 0 : this.halfmoveClock + 1;
+    this.state = applied.state;
+    this.board.updateBoard(this.state.board);
+    this.match.setCurrentTurn(this.state.currentPlayer);
+
+    this.engine.onTurnEnd(previous.currentPlayer);
+    this.engine.onTurnStart(this.state.currentPlayer);
+    this.syncBoard();
+
+    const pieceId = this.board.getPieceAt(toTile);
+    if (!pieceId) {
+      throw new VariantRuntimeError(
+        "RUNTIME_INTEGRITY_FAILED",
+        "La pièce déplacée est introuvable dans le moteur de règles.",
+      );
+    }
+    this.match.syncCommittedMoves(this.state.moveHistory.length);
+    const committed: MoveCommittedPayload = {
+      pieceId,
+      from: fromTile,
+      to: toTile,
+    };
+    committed.targetPieceId = resolveCapturedTargetPieceId(
+      move,
+      this.state.moveHistory.length,
+      committed,
+      this.layout,
+    );
+    if (committed.targetPieceId) committed.capturedType = move.captured?.type;
+    this.engine.onMoveCommitted(committed);
+    this.engine.onEnterTile(pieceId, toTile);
+    if (move.promotion) {
+      this.engine.onPromote(pieceId, "pawn", move.promotion);
+    }
+    this.notifyThreats(applied.state, pieceId, toTile);
+    this.syncBoard();
+    return san;
+  }
+
+  /** Mirrors Play.tsx: attacks by the moved piece, then check on the king. */
+  private notifyThreats(
+    state: GameState,
+    pieceId: string,
+    toTile: string,
+  ): void {
+    const movedPiece = ChessEngine.getPieceAt(
+      state.board,
+      tileToPosition(toTile, this.layout),
+    );
+    if (movedPiece && this.engine.hasListener("lifecycle.onAttacked")) {
+      for (const square of ChessEngine.getAttackSquares(
+        state.board,
+        movedPiece,
+        this.layout,
+      )) {
+        const attackedId = this.board.getPieceAt(
+          boardPositionToTile(square, this.layout),
+        );
+        if (attackedId) this.engine.onAttacked(attackedId, pieceId);
+      }
+    }
+
+    if (state.gameStatus !== "check" && state.gameStatus !== "checkmate") {
+      return;
+    }
+    state.board.forEach((row, rowIndex) =>
+      row.forEach((piece, colIndex) => {
+        if (piece?.type !== "king" || piece.color !== state.currentPlayer) {
+          return;
+        }
+        const kingId = this.board.getPieceAt(
+          boardPositionToTile({ row: rowIndex, col: colIndex }, this.layout),
+        );
+        if (kingId) this.engine.onCheck(kingId);
+      }),
+    );
+  }
+
+  private runRuleAction(action: VariantRuleAction): void {
+    const spec = this.ui.getAction(action.actionId);
+    if (!spec) {
+      throw new VariantRuntimeError(
+        "RULE_ACTION_REJECTED",
+        "Action inconnue ou inactive.",
+      );
+    }
+    const pieceId = action.pieceTile
+      ? this.board.getPieceAt(action.pieceTile)
+      : null;
+    if (action.pieceTile && !pieceId) {
+      throw new VariantRuntimeError(
+        "RULE_ACTION_REJECTED",
+        "La pièce sélectionnée n'existe plus.",
+      );
+    }
+    if (pieceId && this.board.getPiece(pieceId).side !== this.sideToMove) {
+      throw new VariantRuntimeError(
+        "RULE_ACTION_REJECTED",
+        "Cette pièce n'appartient pas au joueur actif.",
+      );
+    }
+    const targetMode = spec.targeting?.mode ?? "none";
+    const result = this.engine.runUIAction(
+      action.actionId,
+      pieceId ?? undefined,
+      targetMode === "none" ? undefined : action.targetTile,
+    );
+    if (!result.ok) {
+      throw new VariantRuntimeError(
+        "RULE_ACTION_REJECTED",
+        result.reason ?? "L'action a été refusée par le moteur de règles.",
+      );
+    }
+    this.syncBoard();
+  }
+
+  /** Mirrors Play.tsx: a rule-ended turn flips the side, then starts it. */
+  private drainTurnEnds(): void {
+    for (let handoff = 0; this.pendingTurnEnds > 0; handoff += 1) {
+      if (handoff >= MAX_TURN_HANDOFFS) {
+        throw new VariantRuntimeError(
+          "RUNTIME_INTEGRITY_FAILED",
+          "Les règles ont terminé trop de tours pour un seul coup.",
+        );
+      }
+      this.pendingTurnEnds -= 1;
+      const nextPlayer = opposite(this.state.currentPlayer);
+      this.state = {
+        ...this.state,
+        currentPlayer: nextPlayer,
+        turnNumber:
+          this.state.currentPlayer === "black"
+            ? this.state.turnNumber + 1
+            : this.state.turnNumber,
+        movesThisTurn: 0,
+      };
+      this.match.setCurrentTurn(nextPlayer);
+      this.engine.onTurnEnd(opposite(nextPlayer));
+      this.engine.onTurnStart(nextPlayer);
+      this.syncBoard();
+    }
+  }
+
+  /** Mirrors Play.tsx: the mated side is the one to move. */
+  private notifyGameEnd(): void {
+    const status = this.status();
+    if (status !== "checkmate" && status !== "stalemate") return;
+    this.engine.onGameEnd(
+      status,
+      status === "checkmate" ? opposite(this.state.currentPlayer) : undefined,
+    );
+    this.syncBoard();
+  }
+
+  private status(): GameState["gameStatus"] {
+    return this.state.gameStatus;
+  }
+
+  private syncBoard(): void {
+    this.state = { ...this.state, board: this.board.getBoard() };
+    this.board.updateBoard(this.state.board);
+  }
+
+  private refreshStatus(): void {
+    const side = this.state.currentPlayer;
+    const inCheck = ChessEngine.isInCheck(this.state.board, side, this.state);
+    const hasMoves = ChessEngine.hasAnyLegalMoves(
+      this.state.board,
+      side,
+      this.state,
+    );
+    this.state = {
+      ...this.state,
+      gameStatus:
+        inCheck && !hasMoves
+          ? "checkmate"
+          : !hasMoves
+            ? "stalemate"
+            : inCheck
+              ? "check"
+              : "active",
+    };
+  }
+}
+
+/** Rebuilds the canonical runtime from the journaled commands of a match. */
+export const replayVariantMatch = async (
+  identity: MatchIdentity,
+  rules: readonly RuleJSON[],
+  commands: readonly VariantCommand[],
+): Promise<VariantMatchRuntime> => {
+  const runtime = new VariantMatchRuntime(identity, rules);
+  for (const command of commands) {
+    await runtime.apply(command);
+  }
+  return runtime;
+};
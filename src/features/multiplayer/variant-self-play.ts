@@ -0,0 +1,370 @@
+import type { RuleJSON } from "@/engine/types";
+import {
+  chooseAiMove,
+  chooseAiTurn,
+  type AiSearchOptions,
+} from "@/lib/aiOpponent";
+import { ChessEngine } from "@/lib/chessEngine";
+import { applyMoveToGameState } from "@/lib/gameMoveState";
+import {
+  createDeterministicIdGenerator,
+  createDeterministicRandom,
+  sha256Hex,
+  type MeasuredBalanceReport,
+} from "@/rules-v2";
+import {
+  STANDARD_BOARD_GEOMETRY,
+  boardPositionToTile,
+} from "@/rules-v2/board-geometry";
+import type { ChessPiece, GameState, PieceType, Position } from "@/types/chess";
+import { normalizeMatchIdentity } from "./identity";
+import {
+  NULL_MOVE_UCI,
+  VariantMatchRuntime,
+  type VariantCommand,
+  type VariantTerminal,
+} from "./variant-runtime";
+
+export const SELF_PLAY_HARNESS_ID = "rule-architect-self-play-v1";
+
+const SELF_PLAY_ENGINE_VERSION = "2.0.0";
+const MAX_SELF_PLAY_GAMES = 64;
+
+export interface SelfPlayOptions {
+  /** Seeded games to play; each one gets its own match seed. */
+  games?: number;
+  seed?: string;
+  /** Search depth of both bots. */
+  depth?: number;
+  /** Plies after which a game is stopped and counted as unfinished. */
+  maxPlies?: number;
+  /**
+   * Material lead, in pawns, that wins a game stopped at `maxPlies`; a smaller
+   * lead draws it. Without it such a game stays unfinished.
+   */
+  adjudicationMargin?: number;
+  /** Random legal plies played first, so seeds lead to different games. */
+  openingPlies?: number;
+  /**
+   * Wall-clock budget for the whole run. Every bot search gets what is left of
+   * it; a game still running when it ends is counted as unfinished and games
+   * not started are skipped.
+   */
+  timeBudgetMs?: number;
+  now?: () => number;
+}
+
+interface GameOutcome {
+  result: VariantTerminal["result"] | null;
+  plies: number;
+  actions: { white: number; black: number; byAction: Map<string, number> };
+  /** The time budget ran out before the game ended. */
+  cutOff: boolean;
+}
+
+interface SelfPlayClock {
+  deadline: number;
+  now: () => number;
+}
+
+/** Searches stop at the run's deadline; depth 1 always completes. */
+const searchOptions = ({ deadline, now }: SelfPlayClock): AiSearchOptions => ({
+  timeBudgetMs: Math.max(0, deadline - now()),
+  now,
+});
+
+const uciFor = (state: GameState, piece: ChessPiece, to: Position): string => {
+  const applied = applyMoveToGameState(state, piece, to);
+  const geometry = state.geometry ?? STANDARD_BOARD_GEOMETRY;
+  const tileOf = (position: Position) =>
+    boardPositionToTile(position, geometry);
+  return `${tileOf(piece.position)}${tileOf(to)}${applied?.move.promotion ? "q" : ""}`;
+};
+
+const legalMoves = (state: GameState): Array<[ChessPiece, Position]> => {
+  const moves: Array<[ChessPiece, Position]> = [];
+  for (const row of state.board) {
+    for (const piece of row) {
+      if (!piece || piece.color !== state.currentPlayer) continue;
+      for (const to of ChessEngine.getValidMoves(state.board, piece, {
+        ...state,
+        selectedPiece: piece,
+      })) {
+        moves.push([piece, to]);
+      }
+    }
+  }
+  return moves;
+};
+
+const MATERIAL: Record<Exclude<PieceType, "fairy">, number> = {
+  pawn: 1,
+  knight: 3,
+  bishop: 3,
+  rook: 5,
+  queen: 9,
+  king: 0,
+};
+
+/** White's material lead in pawns. */
+const materialLead = (state: GameState): number => {
+  let lead = 0;
+  for (const row of state.board) {
+    for (const piece of row) {
+      if (!piece) continue;
+      const value =
+        piece.type === "fairy"
+          ? (piece.fairy?.value ?? 3)
+          : MATERIAL[piece.type];
+      lead += piece.color === "white" ? value : -value;
+    }
+  }
+  return lead;
+};
+
+const adjudicate = (
+  state: GameState,
+  margin: number | undefined,
+): GameOutcome["result"] => {
+  if (margin === undefined) return null;
+  const lead = materialLead(state);
+  if (lead >= margin) return "1-0";
+  if (lead <= -margin) return "0-1";
+  return "1/2-1/2";
+};
+
+const rate = (count: number, total: number): number =>
+  total === 0 ? 0 : Math.round((count / total) * 1000) / 1000;
+
+/**
+ * Picks the next command: a seeded random move during the opening, then the
+ * AI opponent with the variant's UI actions in reach. An action the runtime
+ * cannot map back to squares falls back to the best board move.
+ */
+const chooseCommand = (
+  runtime: VariantMatchRuntime,
+  rules: RuleJSON[],
+  matchSeed: string,
+  depth: number,
+  random: () => number,
+  opening: boolean,
+  clock: SelfPlayClock,
+): VariantCommand | null => {
+  const state = runtime.gameState;
+  if (opening) {
+    const moves = legalMoves(state);
+    if (moves.length === 0) return null;
+    const [piece, to] = moves[Math.floor(random() * moves.length)];
+    return { uci: uciFor(state, piece, to) };
+  }
+
+  const snapshot = runtime.snapshot();
+  const board = snapshot.board as { decals?: Array<[string, string]> };
+  const choice = chooseAiTurn(state, depth, 1, {
+    ...searchOptions(clock),
+    ruleContext: {
+      rules,
+      engineState: {
+        rules: JSON.stringify(snapshot.rules),
+        cooldowns: JSON.stringify(snapshot.cooldowns),
+        decals: board.decals ?? [],
+      },
+      matchSeed,
+    },
+  });
+  if (choice && "action" in choice) {
+    const { actionId, pieceId, targetTile } = choice.action;
+    const pieceTile = pieceId ? runtime.pieceTile(pieceId) : undefined;
+    if (pieceTile !== null) {
+      return {
+        uci: NULL_MOVE_UCI,
+        ruleAction: {
+          actionId,
+          ...(pieceTile ? { pieceTile } : {}),
+          ...(targetTile ? { targetTile } : {}),
+        },
+      };
+    }
+  }
+  const move =
+    choice && "piece" in choice
+      ? choice
+      : chooseAiMove(state, depth, 1, searchOptions(clock));
+  return move ? { uci: uciFor(state, move.piece, move.to) } : null;
+};
+
+const playGame = async (
+  rules: RuleJSON[],
+  seed: string,
+  rulesetHash: string,
+  options: Required<
+    Pick<SelfPlayOptions, "depth" | "maxPlies" | "openingPlies">
+  > &
+    Pick<SelfPlayOptions, "adjudicationMargin">,
+  clock: SelfPlayClock,
+): Promise<GameOutcome> => {
+  const nextId = createDeterministicIdGenerator(seed);
+  const random = createDeterministicRandom(`${seed}|opening`);
+  const identity = normalizeMatchIdentity({
+    matchId: nextId(),
+    lobbyId: nextId(),
+    rulesetHash,
+    matchSeed: String(Math.floor(random() * Number.MAX_SAFE_INTEGER)),
+    engineVersion: SELF_PLAY_ENGINE_VERSION,
+  });
+  const runtime = new VariantMatchRuntime(identity, rules);
+  const actions: GameOutcome["actions"] = {
+    white: 0,
+    black: 0,
+    byAction: new Map(),
+  };
+
+  while (runtime.ply < options.maxPlies) {
+    if (clock.now() >= clock.deadline) {
+      return { result: null, plies: runtime.ply, actions, cutOff: true };
+    }
+    const command = chooseCommand(
+      runtime,
+      rules,
+      identity.matchSeed,
+      options.depth,
+      random,
+      runtime.ply < options.openingPlies,
+      clock,
+    );
+    if (!command) break;
+    let transition;
+    try {
+      transition = await runtime.apply(command);
+    } catch (error) {
+      // A refused action costs nothing: the bot plays a board move instead.
+      if (!command.ruleAction) throw error;
+      const state = runtime.gameState;
+      const move = chooseAiMove(state, options.depth, 1, searchOptions(clock));
+      if (!move) break;
+      transition = await runtime.apply({
+        uci: uciFor(state, move.piece, move.to),
+      });
+    }
+    if (transition.ruleAction) {
+      actions[transition.side] += 1;
+      const { actionId } = transition.ruleAction;
+      actions.byAction.set(actionId, (actions.byAction.get(actionId) ?? 0) + 1);
+    }
+    if (transition.terminal) {
+      return {
+        result: transition.terminal.result,
+        plies: runtime.ply,
+        actions,
+        cutOff: false,
+      };
+    }
+  }
+  return {
+    result:
+      runtime.ply >= options.maxPlies
+        ? adjudicate(runtime.gameState, options.adjudicationMargin)
+        : null,
+    plies: runtime.ply,
+    actions,
+    cutOff: false,
+  };
+};
+
+/**
+ * Plays seeded games between two AI opponents on the shared headless
+ * `VariantMatchRuntime`, so a compiled rule is judged by what it does on the
+ * board rather than by the balance its blueprint claims.
+ */
+export async function measureVariantBalance(
+  rules: readonly RuleJSON[],
+  options: SelfPlayOptions = {},
+): Promise<MeasuredBalanceReport> {
+  const gamesRequested = Math.max(
+    0,
+    Math.min(MAX_SELF_PLAY_GAMES, Math.floor(options.games ?? 8)),
+  );
+  const seed = options.seed ?? "self-play";
+  const depth = Math.max(1, Math.floor(options.depth ?? 2));
+  const maxPlies = Math.max(1, Math.floor(options.maxPlies ?? 120));
+  const openingPlies = Math.max(0, Math.floor(options.openingPlies ?? 4));
+  const now = options.now ?? (() => Date.now());
+  const deadline =
+    now() + Math.max(0, options.timeBudgetMs ?? Number.POSITIVE_INFINITY);
+  // Pinned versions are active by construction, as in a real match.
+  const activeRules = rules.map((rule) => ({
+    ...rule,
+    meta: { ...rule.meta, isActive: true },
+  }));
+  const rulesetHash = await sha256Hex(activeRules);
+
+  const byAction = new Map<string, number>();
+  let gamesPlayed = 0;
+  let whiteWins = 0;
+  let blackWins = 0;
+  let draws = 0;
+  let unfinished = 0;
+  let cutOff = false;
+  let totalPlies = 0;
+  let whiteActions = 0;
+  let blackActions = 0;
+
+  for (let game = 0; game < gamesRequested && now() < deadline; game += 1) {
+    const outcome = await playGame(
+      activeRules,
+      `${seed}|game-${game}`,
+      rulesetHash,
+      {
+        depth,
+        maxPlies,
+        openingPlies,
+        adjudicationMargin: options.adjudicationMargin,
+      },
+      { deadline, now },
+    );
+    gamesPlayed += 1;
+    cutOff ||= outcome.cutOff;
+    totalPlies += outcome.plies;
+    whiteActions += outcome.actions.white;
+    blackActions += outcome.actions.black;
+    for (const [actionId, count] of outcome.actions.byAction) {
+      byAction.set(actionId, (byAction.get(actionId) ?? 0) + count);
+    }
+    if (!outcome.result) unfinished += 1;
+    else if (outcome.result === "1-0") whiteWins += 1;
+    else if (outcome.result === "0-1") blackWins += 1;
+    else draws += 1;
+  }
+
+  // Unfinished games say nothing about who a rule favours.
+  const finished = gamesPlayed - unfinished;
+  const whiteWinRate = rate(whiteWins, finished);
+  const blackWinRate = rate(blackWins, finished);
+  return {
+    harness: SELF_PLAY_HARNESS_ID,
+    seed,
+    gamesRequested,
+    gamesPlayed,
+    whiteWins,
+    blackWins,
+    draws,
+    unfinished,
+    whiteWinRate,
+    blackWinRate,
+    drawRate: rate(draws, finished),
+    averagePlies:
+      gamesPlayed === 0 ? 0 : Math.round((totalPlies / gamesPlayed) * 10) / 10,
+    abilityUsage: {
+      white: whiteActions,
+      black: blackActions,
+      byAction: Object.fromEntries(
+        [...byAction].sort(([left], [right]) => left.localeCompare(right)),
+      ),
+    },
+    balanceScore:
+      finished === 0
+        ? null
+        : Math.round(100 * (1 - Math.abs(whiteWinRate - blackWinRate))),
+    truncated: cutOff || gamesPlayed < gamesRequested,
+  };
+}
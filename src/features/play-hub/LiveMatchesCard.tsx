@@ -0,0 +1,146 @@
+import {
+  AlertCircle,
+  Eye,
+  Loader2,
+  RefreshCw,
+  Timer,
+  Tv,
+  Users,
+} from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  listLiveChessMatches,
+  neutralPlayerLabel,
+  type LiveChessMatch,
+} from "@/features/play-hub/platform-api";
+import { formatTimeControl } from "@/types/timeControl";
+
+interface LiveMatchesCardProps {
+  isAuthenticated: boolean;
+}
+
+const ratingLabel = (rating: number | null): string =>
+  rating == null ? "non classé" : `${rating}`;
+
+function MatchRow({ match }: { match: LiveChessMatch }) {
+  return (
+    <li className="flex flex-col gap-3 rounded-xl border border-white/10 bg-white/[0.035] p-3 sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0">
+        <p className="truncate font-semibold text-white">
+          {neutralPlayerLabel(match.whitePlayerId)} (
+          {ratingLabel(match.whiteRating)}) ·{" "}
+          {neutralPlayerLabel(match.blackPlayerId)} (
+          {ratingLabel(match.blackRating)})
+        </p>
+        <p className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px] text-white/45">
+          <span>{formatTimeControl(match)}</span>
+          <span className="inline-flex items-center gap-1">
+            <Users className="h-3 w-3" aria-hidden="true" />
+            {match.spectatorCount}
+          </span>
+          {match.spectatorDelaySeconds > 0 && (
+            <span className="inline-flex items-center gap-1">
+              <Timer className="h-3 w-3" aria-hidden="true" />
+              différé {match.spectatorDelaySeconds} s
+            </span>
+          )}
+        </p>
+      </div>
+      <Button asChild size="sm" variant="outline" className="shrink-0">
+        <Link to={`/watch/${encodeURIComponent(match.matchId)}`}>
+          <Eye className="mr-1.5 h-3.5 w-3.5" aria-hidden="true" />
+          Regarder
+        </Link>
+      </Button>
+    </li>
+  );
+}
+
+export function LiveMatchesCard({ isAuthenticated }: LiveMatchesCardProps) {
+  const query = useQuery<LiveChessMatch[], Error>({
+    queryKey: ["play-hub", "live-matches"],
+    queryFn: () => listLiveChessMatches(5),
+    enabled: isAuthenticated,
+    refetchInterval: isAuthenticated ? 15_000 : false,
+    staleTime: 5_000,
+  });
+
+  return (
+    <Card className="border-cyan-300/20 bg-[#07101a]/85">
+      <CardHeader className="gap-3">
+        <div className="flex items-center justify-between gap-3">
+          <Badge className="border-cyan-300/30 bg-cyan-300/10 text-cyan-100">
+            <Tv className="mr-1.5 h-3.5 w-3.5" aria-hidden="true" />
+            En direct
+          </Badge>
+          {query.isFetching && !query.isLoading && (
+            <Loader2
+              className="h-4 w-4 animate-spin text-cyan-200/60"
+              aria-label="Actualisation"
+            />
+          )}
+        </div>
+        <CardTitle>Parties à regarder</CardTitle>
+        <CardDescription className="text-cyan-50/55">
+          Les parties publiques ouvertes aux spectateurs, les mieux classées
+          d'abord.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!isAuthenticated ? (
+          <div className="rounded-xl border border-dashed border-white/15 bg-black/20 p-4 text-sm text-white/60">
+            <p>Connecte-toi pour regarder les parties en cours.</p>
+            <Button asChild size="sm" className="mt-4">
+              <Link to="/signup">Connexion ou inscription</Link>
+            </Button>
+          </div>
+        ) : query.isLoading ? (
+          <div className="space-y-2" aria-label="Chargement des parties">
+            {["one", "two", "three"].map((key) => (
+              <Skeleton key={key} className="h-[68px] w-full bg-white/10" />
+            ))}
+          </div>
+        ) : query.isError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" aria-hidden="true" />
+            <AlertTitle>Parties indisponibles</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>{query.error.message || "Le chargement a échoué."}</p>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => void query.refetch()}
+              >
+                <RefreshCw className="mr-2 h-3.5 w-3.5" aria-hidden="true" />
+                Réessayer
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (query.data ?? []).length === 0 ? (
+          <div className="rounded-xl border border-dashed border-white/15 bg-black/20 p-4 text-sm text-white/60">
+            <p>Aucune partie publique n'est diffusée actuellement.</p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {(query.data ?? []).map((match) => (
+              <MatchRow key={match.matchId} match={match} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
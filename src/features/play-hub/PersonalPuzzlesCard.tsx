@@ -0,0 +1,218 @@
+import { useRef, useState } from "react";
+import {
+  AlertCircle,
+  ArrowRight,
+  CheckCircle2,
+  History,
+  Loader2,
+  XCircle,
+} from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { chessBoardFromFen, sideToMoveFromFen } from "./daily-puzzles";
+import {
+  submitPersonalPuzzle,
+  type PersonalPuzzle,
+  type PersonalPuzzleReview,
+} from "./platform-api";
+import { PuzzleBoard } from "./PuzzleBoard";
+
+interface PersonalPuzzlesCardProps {
+  puzzles: PersonalPuzzle[];
+  onReviewed: () => Promise<void>;
+}
+
+const nextReviewLabel = (review: PersonalPuzzleReview) => {
+  if (!review.solved) return "Il reviendra dans quelques minutes.";
+  return review.intervalDays <= 1
+    ? "Prochaine révision demain."
+    : `Prochaine révision dans ${review.intervalDays} jours.`;
+};
+
+export function PersonalPuzzlesCard({
+  puzzles,
+  onReviewed,
+}: PersonalPuzzlesCardProps) {
+  const puzzle = puzzles[0] ?? null;
+  const startedAtRef = useRef(Date.now());
+  const [selectedMove, setSelectedMove] = useState<string | null>(null);
+  const [review, setReview] = useState<PersonalPuzzleReview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!puzzle) {
+    return (
+      <Card className="border-white/10 bg-black/35 text-center">
+        <CardHeader>
+          <CardTitle>Aucune révision en attente</CardTitle>
+          <CardDescription>
+            Les positions où tu as laissé filer l’avantage dans tes parties
+            analysées reviennent ici au bon moment.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  let perspective: "white" | "black" | null;
+  try {
+    perspective = sideToMoveFromFen(puzzle.fen);
+    chessBoardFromFen(puzzle.fen, perspective);
+  } catch {
+    perspective = null;
+  }
+
+  const submitMove = async (move: string) => {
+    if (busy || review) return;
+    setBusy(true);
+    setSelectedMove(move);
+    setError(null);
+    try {
+      const elapsed = Math.min(
+        86_400_000,
+        Math.max(0, Date.now() - startedAtRef.current),
+      );
+      setReview(await submitPersonalPuzzle(puzzle.puzzleId, [move], elapsed));
+    } catch (caught) {
+      setError(
+        caught instanceof Error
+          ? caught.message
+          : "La tentative n’a pas pu être validée.",
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const showNext = async () => {
+    setBusy(true);
+    try {
+      await onReviewed();
+      setReview(null);
+      setSelectedMove(null);
+      setError(null);
+      startedAtRef.current = Date.now();
+    } catch (caught) {
+      setError(
+        caught instanceof Error
+          ? caught.message
+          : "Le chargement de la révision suivante a échoué.",
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden border-fuchsia-300/20 bg-[#0b0a18]/90">
+      <CardHeader className="gap-3 border-b border-white/10">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Badge className="border-fuchsia-300/30 bg-fuchsia-300/10 text-fuchsia-100">
+            <History className="mr-1.5 h-3.5 w-3.5" aria-hidden="true" />
+            Tiré de tes parties · coup {puzzle.sourcePly}
+          </Badge>
+          <span className="text-xs font-semibold text-fuchsia-100/60">
+            {`${puzzles.length} à réviser · difficulté ${puzzle.rating}`}
+          </span>
+        </div>
+        <CardTitle className="text-2xl">Corrige ton erreur</CardTitle>
+        <CardDescription className="text-fuchsia-50/65">
+          {perspective
+            ? `${perspective === "white" ? "Les Blancs" : "Les Noirs"} jouent.${
+                puzzle.playedMove
+                  ? ` En partie, tu avais joué ${puzzle.playedMove}.`
+                  : ""
+              }`
+            : "La position enregistrée est invalide. Aucun coup ne sera envoyé."}
+        </CardDescription>
+        {puzzle.themes.length > 0 && (
+          <div
+            className="flex flex-wrap gap-2 pt-1"
+            aria-label="Thèmes du puzzle"
+          >
+            {puzzle.themes.map((theme) => (
+              <Badge
+                key={theme}
+                variant="outline"
+                className="text-[10px] text-white/60"
+              >
+                {theme}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+
+      <CardContent className="grid gap-5 p-5 sm:p-6 lg:grid-cols-[minmax(220px,0.9fr)_minmax(240px,1.1fr)]">
+        <PuzzleBoard
+          fen={puzzle.fen}
+          perspective={perspective ?? "white"}
+          selectedMove={selectedMove}
+          disabled={busy || Boolean(review)}
+          onMoveSelected={
+            perspective ? (move) => void submitMove(move) : undefined
+          }
+        />
+
+        <div className="flex min-w-0 flex-col justify-center gap-4">
+          {busy && !review && (
+            <p className="flex items-center gap-2 text-sm text-fuchsia-100/70">
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              Validation serveur…
+            </p>
+          )}
+
+          {review?.solved && (
+            <Alert className="border-emerald-300/25 bg-emerald-400/10 text-emerald-50">
+              <CheckCircle2 className="h-4 w-4" aria-hidden="true" />
+              <AlertTitle>Bien vu</AlertTitle>
+              <AlertDescription>{nextReviewLabel(review)}</AlertDescription>
+            </Alert>
+          )}
+
+          {review && !review.solved && (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" aria-hidden="true" />
+              <AlertTitle>Ce n’était pas le meilleur coup</AlertTitle>
+              <AlertDescription>
+                Le moteur jouait{" "}
+                <span className="font-mono">
+                  {review.solutionMoves.join(" ")}
+                </span>
+                . {nextReviewLabel(review)}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" aria-hidden="true" />
+              <AlertTitle>Révision non enregistrée</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {(review || error) && (
+            <Button
+              variant="outline"
+              onClick={() => void showNext()}
+              disabled={busy}
+            >
+              Suivant
+              <ArrowRight className="ml-2 h-4 w-4" aria-hidden="true" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
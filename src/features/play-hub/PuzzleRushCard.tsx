@@ -0,0 +1,413 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Flag,
+  Loader2,
+  Timer,
+  Trophy,
+  XCircle,
+  Zap,
+} from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { sideToMoveFromFen } from "./daily-puzzles";
+import {
+  finishPuzzleRun,
+  getPuzzleRushLeaderboard,
+  getServerPuzzleRating,
+  neutralPlayerLabel,
+  startPuzzleRun,
+  submitPuzzleRunMove,
+  type PuzzleRunState,
+  type PuzzleRunStep,
+  type PuzzleRushMode,
+  type PuzzleRushTheme,
+} from "./platform-api";
+import { PuzzleBoard } from "./PuzzleBoard";
+import {
+  formatRushClock,
+  PUZZLE_RUSH_MODE_OPTIONS,
+  PUZZLE_RUSH_THEME_OPTIONS,
+  puzzleFenAfterMoves,
+  puzzleRuleNames,
+  puzzleRushModeOption,
+  remainingRushMs,
+} from "./puzzle-rush";
+
+interface PuzzleRushCardProps {
+  userId: string;
+  /** Called once a run ends, so that XP and progression can be refreshed. */
+  onRunFinished: () => Promise<void>;
+}
+
+const errorMessage = (caught: unknown, fallback: string) =>
+  caught instanceof Error ? caught.message : fallback;
+
+export function PuzzleRushCard({ userId, onRunFinished }: PuzzleRushCardProps) {
+  const [mode, setMode] = useState<PuzzleRushMode>("three_minutes");
+  const [theme, setTheme] = useState<PuzzleRushTheme | null>(null);
+  const [run, setRun] = useState<PuzzleRunState | null>(null);
+  const [line, setLine] = useState<string[]>([]);
+  const [lastStep, setLastStep] = useState<PuzzleRunStep | null>(null);
+  const [xpAwarded, setXpAwarded] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ratingQuery = useQuery({
+    queryKey: ["chess-platform", "puzzle-rating", userId],
+    queryFn: () => getServerPuzzleRating(userId),
+    staleTime: 15_000,
+    retry: 1,
+  });
+  const leaderboardQuery = useQuery({
+    queryKey: ["chess-platform", "puzzle-rush-leaderboard", mode, theme],
+    queryFn: () => getPuzzleRushLeaderboard(mode, theme, 10),
+    staleTime: 30_000,
+    retry: 1,
+  });
+
+  const refetchRating = ratingQuery.refetch;
+  const refetchLeaderboard = leaderboardQuery.refetch;
+  const active = run?.status === "active";
+  const modeOption = puzzleRushModeOption(run?.mode ?? mode);
+  const remainingMs = active ? remainingRushMs(run.expiresAt, now) : null;
+
+  const position = useMemo(() => {
+    if (!run?.puzzle) return null;
+    try {
+      return {
+        fen: puzzleFenAfterMoves(run.puzzle.fen, line),
+        perspective: sideToMoveFromFen(run.puzzle.fen),
+      };
+    } catch {
+      return null;
+    }
+  }, [run?.puzzle, line]);
+
+  const settle = useCallback(
+    async (next: PuzzleRunState, xp: number) => {
+      setRun(next);
+      setLine([]);
+      if (next.status !== "finished") return;
+      setXpAwarded(xp);
+      await Promise.all([
+        onRunFinished(),
+        refetchRating(),
+        refetchLeaderboard(),
+      ]);
+    },
+    [onRunFinished, refetchRating, refetchLeaderboard],
+  );
+
+  const finishRun = useCallback(async () => {
+    if (!run || busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await finishPuzzleRun(run.runId);
+      await settle(result.run, result.xpAwarded);
+    } catch (caught) {
+      setError(errorMessage(caught, "La série n’a pas pu être terminée."));
+    } finally {
+      setBusy(false);
+    }
+  }, [run, busy, settle]);
+
+  useEffect(() => {
+    if (!active || !run.expiresAt) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(timer);
+  }, [active, run?.expiresAt]);
+
+  useEffect(() => {
+    if (remainingMs === 0) void finishRun();
+  }, [remainingMs, finishRun]);
+
+  const startRun = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setRun(await startPuzzleRun(mode, theme));
+      setLine([]);
+      setLastStep(null);
+      setXpAwarded(0);
+      setNow(Date.now());
+    } catch (caught) {
+      setError(errorMessage(caught, "La série n’a pas pu démarrer."));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitMove = async (move: string) => {
+    if (!run || !active || busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const step = await submitPuzzleRunMove(run.runId, [...line, move]);
+      if (step.outcome === "continue" && step.replyMove) {
+        setLine([...line, move, step.replyMove]);
+        return;
+      }
+      setLastStep(step);
+      await settle(step.run, step.xpAwarded);
+    } catch (caught) {
+      setError(errorMessage(caught, "Le coup n’a pas pu être validé."));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const ruleNames = run?.puzzle ? puzzleRuleNames(run.puzzle.ruleIds) : [];
+
+  return (
+    <Card className="overflow-hidden border-cyan-300/20 bg-[#0b0a18]/90">
+      <CardHeader className="gap-3 border-b border-white/10">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Badge className="border-cyan-300/30 bg-cyan-300/10 text-cyan-100">
+            <Zap className="mr-1.5 h-3.5 w-3.5" aria-hidden="true" />
+            Puzzle rush
+          </Badge>
+          <span className="text-xs font-semibold text-cyan-100/60">
+            {`Classement puzzles ${run?.playerRating ?? ratingQuery.data?.rating ?? 1500}`}
+          </span>
+        </div>
+        <CardTitle className="text-2xl">Séries chronométrées</CardTitle>
+        <CardDescription className="text-cyan-50/65">
+          Chaque coup est validé par le serveur. Le classement puzzles est
+          distinct de ton classement en partie.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-5 p-5 sm:p-6">
+        {!active && (
+          <div className="space-y-4">
+            <div
+              className="grid gap-2 sm:grid-cols-3"
+              role="radiogroup"
+              aria-label="Mode"
+            >
+              {PUZZLE_RUSH_MODE_OPTIONS.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={mode === option.id}
+                  onClick={() => setMode(option.id)}
+                  className={cn(
+                    "rounded-xl border p-3 text-left transition",
+                    mode === option.id
+                      ? "border-cyan-300/60 bg-cyan-300/10"
+                      : "border-white/10 bg-white/[0.035] hover:border-white/25",
+                  )}
+                >
+                  <span className="block font-semibold text-white">
+                    {option.label}
+                  </span>
+                  <span className="mt-1 block text-xs text-white/55">
+                    {option.description}
+                  </span>
+                </button>
+              ))}
+            </div>
+            <div
+              className="flex flex-wrap gap-2"
+              role="radiogroup"
+              aria-label="Thème"
+            >
+              {PUZZLE_RUSH_THEME_OPTIONS.map((option) => (
+                <Button
+                  key={option.id ?? "mixed"}
+                  type="button"
+                  size="sm"
+                  role="radio"
+                  aria-checked={theme === option.id}
+                  variant={theme === option.id ? "default" : "outline"}
+                  onClick={() => setTheme(option.id)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+
+            {run && (
+              <Alert className="border-cyan-300/25 bg-cyan-400/10 text-cyan-50">
+                <Trophy className="h-4 w-4" aria-hidden="true" />
+                <AlertTitle>{`Série terminée : ${run.score} puzzle${run.score > 1 ? "s" : ""}`}</AlertTitle>
+                <AlertDescription>
+                  {xpAwarded > 0
+                    ? `+${xpAwarded} XP. `
+                    : "Aucun XP pour cette série. "}
+                  {lastStep?.outcome === "failed" &&
+                    `Il fallait jouer ${lastStep.solutionMoves.join(" ")}.`}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button onClick={() => void startRun()} disabled={busy}>
+              {busy ? (
+                <Loader2
+                  className="mr-2 h-4 w-4 animate-spin"
+                  aria-hidden="true"
+                />
+              ) : (
+                <Zap className="mr-2 h-4 w-4" aria-hidden="true" />
+              )}
+              {run ? "Rejouer" : "Lancer la série"}
+            </Button>
+
+            <div className="space-y-2">
+              <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-cyan-100/60">
+                Meilleurs scores · {puzzleRushModeOption(mode).label}
+              </h3>
+              {leaderboardQuery.isError ? (
+                <p className="text-sm text-white/50">
+                  Classement indisponible pour le moment.
+                </p>
+              ) : leaderboardQuery.data?.length === 0 ? (
+                <p className="text-sm text-white/50">
+                  Aucune série terminée dans ce mode.
+                </p>
+              ) : (
+                <ol className="space-y-1 text-sm">
+                  {leaderboardQuery.data?.map((entry) => (
+                    <li
+                      key={entry.userId}
+                      className={cn(
+                        "flex items-center justify-between rounded-lg px-3 py-1.5",
+                        entry.userId === userId
+                          ? "bg-cyan-300/10 text-cyan-50"
+                          : "bg-white/[0.035] text-white/70",
+                      )}
+                    >
+                      <span>
+                        {entry.rank}.{" "}
+                        {entry.userId === userId
+                          ? "Toi"
+                          : neutralPlayerLabel(entry.userId)}
+                      </span>
+                      <span className="font-semibold">{entry.bestScore}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+
+        {active && run.puzzle && (
+          <div className="grid gap-5 lg:grid-cols-[minmax(220px,0.9fr)_minmax(240px,1.1fr)]">
+            {position ? (
+              <PuzzleBoard
+                key={`${run.puzzle.puzzleId}-${line.length}`}
+                fen={position.fen}
+                perspective={position.perspective}
+                disabled={busy}
+                onMoveSelected={(move) => void submitMove(move)}
+              />
+            ) : (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" aria-hidden="true" />
+                <AlertTitle>Position illisible</AlertTitle>
+                <AlertDescription>
+                  Termine la série et relance-la.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex min-w-0 flex-col justify-center gap-4">
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="font-semibold text-white">
+                  Score {run.score}
+                </span>
+                <span
+                  className="flex items-center gap-1"
+                  aria-label={`${run.strikes} erreur(s) sur ${modeOption.strikes}`}
+                >
+                  {Array.from({ length: modeOption.strikes }, (_, index) => (
+                    <XCircle
+                      key={index}
+                      className={cn(
+                        "h-4 w-4",
+                        index < run.strikes ? "text-red-400" : "text-white/20",
+                      )}
+                      aria-hidden="true"
+                    />
+                  ))}
+                </span>
+                {remainingMs !== null && (
+                  <span className="flex items-center gap-1 font-mono text-cyan-100">
+                    <Timer className="h-4 w-4" aria-hidden="true" />
+                    {formatRushClock(remainingMs)}
+                  </span>
+                )}
+              </div>
+
+              <p className="text-sm text-cyan-50/70">
+                {`${position?.perspective === "black" ? "Les Noirs" : "Les Blancs"} jouent · difficulté ${run.puzzle.rating}`}
+              </p>
+              {ruleNames.length > 0 && (
+                <p className="text-sm text-fuchsia-100/80">
+                  Règles actives : {ruleNames.join(", ")}
+                </p>
+              )}
+
+              {lastStep?.outcome === "solved" && (
+                <Alert className="border-emerald-300/25 bg-emerald-400/10 text-emerald-50">
+                  <CheckCircle2 className="h-4 w-4" aria-hidden="true" />
+                  <AlertTitle>Résolu</AlertTitle>
+                  <AlertDescription>
+                    {`Classement puzzles ${lastStep.ratingChange >= 0 ? "+" : ""}${lastStep.ratingChange}.`}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {lastStep?.outcome === "failed" && (
+                <Alert variant="destructive">
+                  <XCircle className="h-4 w-4" aria-hidden="true" />
+                  <AlertTitle>Manqué</AlertTitle>
+                  <AlertDescription>
+                    Il fallait jouer{" "}
+                    <span className="font-mono">
+                      {lastStep.solutionMoves.join(" ")}
+                    </span>
+                    .
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Button
+                variant="outline"
+                onClick={() => void finishRun()}
+                disabled={busy}
+              >
+                <Flag className="mr-2 h-4 w-4" aria-hidden="true" />
+                Terminer la série
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" aria-hidden="true" />
+            <AlertTitle>Série interrompue</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
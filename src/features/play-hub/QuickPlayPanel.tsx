@@ -25,8 +25,10 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { BOARD_PRESETS, type BoardPresetId } from "@/rules-v2/board-geometry";
 import {
   TIME_CONTROL_SETTINGS,
+  formatTimeControl,
   type TimeControlOption,
 } from "@/types/timeControl";
 import {
@@ -46,10 +48,14 @@ interface QuickPlayPanelProps {
 const timeControls: readonly TimeControlOption[] = [
   "bullet",
   "blitz",
+  "bronstein",
+  "rapid",
   "long",
   "untimed",
 ] as const;
 
+const boardPresets = Object.keys(BOARD_PRESETS) as BoardPresetId[];
+
 const errorMessage = (error: unknown, fallback: string) =>
   error instanceof Error ? error.message : fallback;
 
@@ -60,6 +66,7 @@ export function QuickPlayPanel({
 }: QuickPlayPanelProps) {
   const navigate = useNavigate();
   const [timeControl, setTimeControl] = useState<TimeControlOption>("blitz");
+  const [boardPreset, setBoardPreset] = useState<BoardPresetId>("standard");
   const [pendingResult, setPendingResult] =
     useState<ChessMatchmakingResult | null>(null);
   const [enqueueError, setEnqueueError] = useState<string | null>(null);
@@ -106,6 +113,7 @@ export function QuickPlayPanel({
         opponentType: "ai",
         playerName,
         timeControl,
+        boardPreset,
       },
     });
   };
@@ -133,7 +141,9 @@ export function QuickPlayPanel({
       const result = await enqueueStandardMatchmaking({
         requestKey,
         initialSeconds: selectedTimeControl.initialSeconds,
-        incrementSeconds: 0,
+        incrementSeconds: selectedTimeControl.incrementSeconds,
+        delaySeconds: selectedTimeControl.delaySeconds,
+        delayMode: selectedTimeControl.delayMode,
       });
       setPendingResult(result);
       if (result.status === "matched" && result.matchId) {
@@ -204,7 +214,7 @@ export function QuickPlayPanel({
           <legend className="mb-3 text-sm font-semibold text-white">
             Cadence
           </legend>
-          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
             {timeControls.map((option) => {
               const details = TIME_CONTROL_SETTINGS[option];
               const selected = option === timeControl;
@@ -227,7 +237,7 @@ export function QuickPlayPanel({
                   <span className="mt-1 block text-[11px] text-current/70">
                     {details.initialSeconds === 0
                       ? "IA uniquement"
-                      : `${Math.floor(details.initialSeconds / 60)} min`}
+                      : formatTimeControl(details)}
                   </span>
                 </button>
               );
@@ -235,6 +245,34 @@ export function QuickPlayPanel({
           </div>
         </fieldset>
 
+        <fieldset>
+          <legend className="mb-3 text-sm font-semibold text-white">
+            Plateau contre l’IA
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {boardPresets.map((preset) => {
+              const selected = preset === boardPreset;
+              return (
+                <button
+                  key={preset}
+                  type="button"
+                  aria-pressed={selected}
+                  title={BOARD_PRESETS[preset].description}
+                  onClick={() => setBoardPreset(preset)}
+                  className={cn(
+                    "rounded-full border px-3 py-1.5 text-xs font-semibold transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300",
+                    selected
+                      ? "border-cyan-300/60 bg-cyan-400/15 text-white"
+                      : "border-white/10 bg-white/[0.035] text-white/60 hover:border-white/20 hover:text-white",
+                  )}
+                >
+                  {BOARD_PRESETS[preset].label}
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+
         <div className="grid gap-3 sm:grid-cols-2">
           <Button
             size="lg"
@@ -247,7 +285,7 @@ export function QuickPlayPanel({
             <span>
               <span className="block font-bold">Jouer contre l’IA</span>
               <span className="block text-xs font-medium opacity-75">
-                Échecs classiques · démarrage immédiat
+                {BOARD_PRESETS[boardPreset].label} · démarrage immédiat
               </span>
             </span>
           </Button>
@@ -37,9 +37,11 @@ import {
 } from "@/components/ui/select";
 import {
   TIME_CONTROL_SETTINGS,
+  formatTimeControl,
   type TimeControlOption,
 } from "@/types/timeControl";
 import {
+  configureChessRoomSpectators,
   createChessRoomInvitation,
   createStandardChessRoom,
   getChessMatchByRoom,
@@ -48,7 +50,6 @@ import {
   listOpenChessRooms,
   type ChessRoomInvitation,
   type CreatedChessRoom,
-  type OpenChessRoom,
 } from "./platform-api";
 import {
   buildStandardRoomInviteUrl,
@@ -68,12 +69,15 @@ type StandardTimeControl = Exclude<TimeControlOption, "untimed">;
 const standardTimeControls: readonly StandardTimeControl[] = [
   "bullet",
   "blitz",
+  "bronstein",
+  "rapid",
   "long",
 ];
 
-const formatTimeControl = (
-  room: Pick<OpenChessRoom, "initialSeconds" | "incrementSeconds">,
-) => `${Math.floor(room.initialSeconds / 60)}+${room.incrementSeconds}`;
+type SpectatorMode = "live" | "delayed" | "closed";
+
+/** Delayed rooms stay one minute behind the board for spectators. */
+const DELAYED_SPECTATOR_SECONDS = 60;
 
 const messageFromError = (error: unknown, fallback: string) =>
   error instanceof Error ? error.message : fallback;
@@ -88,6 +92,7 @@ export function StandardRoomsCard({
   const [roomName, setRoomName] = useState(`${playerName} · Partie`);
   const [visibility, setVisibility] = useState<RoomVisibility>("public");
   const [timeControl, setTimeControl] = useState<StandardTimeControl>("blitz");
+  const [spectatorMode, setSpectatorMode] = useState<SpectatorMode>("live");
   const [creating, setCreating] = useState(false);
   const [createError, setCreateError] = useState<string | null>(null);
   const [createdRoom, setCreatedRoom] = useState<CreatedChessRoom | null>(null);
@@ -191,9 +196,18 @@ export function StandardRoomsCard({
         visibility,
         requestKey,
         initialSeconds: settings.initialSeconds,
-        incrementSeconds: 0,
+        incrementSeconds: settings.incrementSeconds,
+        delaySeconds: settings.delaySeconds,
+        delayMode: settings.delayMode,
         ownerColor: "random",
       });
+      if (visibility === "public" && spectatorMode !== "live") {
+        await configureChessRoomSpectators(
+          room.roomId,
+          spectatorMode === "delayed",
+          spectatorMode === "delayed" ? DELAYED_SPECTATOR_SECONDS : 0,
+        );
+      }
       setCreatedRoom(room);
       setWatchedRoomId(room.roomId);
       await roomsQuery.refetch();
@@ -375,6 +389,35 @@ export function StandardRoomsCard({
                     </SelectContent>
                   </Select>
                 </div>
+
+                {visibility === "public" && (
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="standard-room-spectators">
+                      Spectateurs
+                    </Label>
+                    <Select
+                      value={spectatorMode}
+                      onValueChange={(value: SpectatorMode) =>
+                        setSpectatorMode(value)
+                      }
+                      disabled={creating || Boolean(createdRoom)}
+                    >
+                      <SelectTrigger
+                        id="standard-room-spectators"
+                        className="border-white/10 bg-black/30"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="live">En direct</SelectItem>
+                        <SelectItem value="delayed">
+                          Différé de {DELAYED_SPECTATOR_SECONDS} s
+                        </SelectItem>
+                        <SelectItem value="closed">Interdits</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
 
               <Button
@@ -43,6 +43,8 @@ describe("QuickPlay matchmaking state", () => {
           rated: false,
           initialSeconds: 300,
           incrementSeconds: 0,
+          delaySeconds: 0,
+          delayMode: "none",
           createdAt: "2026-07-20T12:00:00Z",
           expiresAt: "2026-07-20T12:10:00Z",
           status: "matched",
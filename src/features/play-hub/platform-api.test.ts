@@ -17,19 +17,31 @@ vi.mock("@/integrations/supabase/client", () => ({
 
 import {
   cancelChessMatchmaking,
+  chessRatingPool,
+  configureChessRoomSpectators,
   createChessRoomInvitation,
   createStandardChessRoom,
   enqueueStandardMatchmaking,
+  finishPuzzleRun,
   getChessMatchByRoom,
   getChessLeaderboard,
   getChessRoom,
+  getDuePersonalPuzzles,
   getLatestChessMatchmakingTicket,
+  getPuzzleRushLeaderboard,
   getServerDailyPuzzle,
   getServerPlayerProgress,
   joinChessRoom,
+  listLiveChessMatches,
   listOpenChessRooms,
+  MATCHMAKING_BASE_RATING_WINDOW,
   neutralPlayerLabel,
+  startPuzzleRun,
+  submitPuzzleRunMove,
+  submitPersonalPuzzle,
   submitServerDailyPuzzle,
+  type ChessRatingPool,
+  type PuzzleRushMode,
 } from "./platform-api";
 
 const userId = "907500fe-e417-42d7-9d82-514e4ed9dd30";
@@ -59,7 +71,9 @@ describe("chess platform API", () => {
         {
           rank: 1,
           user_id: userId,
+          pool: "bullet",
           rating: 1325,
+          rating_deviation: 187.4,
           games_played: 4,
           wins: 2,
           draws: 1,
@@ -70,11 +84,13 @@ describe("chess platform API", () => {
       error: null,
     });
 
-    await expect(getChessLeaderboard(50)).resolves.toEqual([
+    await expect(getChessLeaderboard(50, "bullet")).resolves.toEqual([
       {
         rank: 1,
         userId,
+        pool: "bullet",
         rating: 1325,
+        ratingDeviation: 187.4,
         gamesPlayed: 4,
         wins: 2,
         draws: 1,
@@ -84,6 +100,7 @@ describe("chess platform API", () => {
     ]);
     expect(rpc).toHaveBeenCalledWith("get_chess_leaderboard", {
       p_season_id: null,
+      p_pool: "bullet",
       p_limit: 50,
     });
     expect(neutralPlayerLabel(userId)).toBe("Joueur 9075-DD30");
@@ -95,7 +112,9 @@ describe("chess platform API", () => {
         {
           rank: 1,
           user_id: userId,
+          pool: "blitz",
           rating: 1200,
+          rating_deviation: 90,
           games_played: 3,
           wins: 3,
           draws: 1,
@@ -109,6 +128,38 @@ describe("chess platform API", () => {
     await expect(getChessLeaderboard()).rejects.toThrow(/incohérentes/);
   });
 
+  it("classifies rating pools like the server", async () => {
+    expect(
+      chessRatingPool({ rulesetType: "standard", initialSeconds: 60 }),
+    ).toBe("bullet");
+    expect(
+      chessRatingPool({
+        rulesetType: "standard",
+        initialSeconds: 120,
+        incrementSeconds: 2,
+      }),
+    ).toBe("blitz");
+    expect(
+      chessRatingPool({
+        rulesetType: "standard",
+        initialSeconds: 300,
+        incrementSeconds: 8,
+      }),
+    ).toBe("long");
+    expect(
+      chessRatingPool({
+        rulesetType: "custom",
+        rulesetHash: "ABCDEF0123456789",
+        initialSeconds: 60,
+      }),
+    ).toBe("variant:abcdef0123456789");
+
+    await expect(
+      getChessLeaderboard(10, "rapid" as ChessRatingPool),
+    ).rejects.toThrow(/Catégorie de classement invalide/);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
   it("maps only the public daily puzzle projection without leaking a solution", async () => {
     rpc.mockResolvedValue({
       data: [
@@ -171,6 +222,205 @@ describe("chess platform API", () => {
     });
   });
 
+  it("lists due personal puzzles without their solutions", async () => {
+    rpc.mockResolvedValue({
+      data: [
+        {
+          puzzle_id: puzzleId,
+          fen: "7k/5Q2/6K1/8/8/8/8/8 w - - 0 1",
+          themes: ["blunder"],
+          rating: 1400,
+          source_game_id: "game-1",
+          source_ply: 31,
+          played_move: "f7f8",
+          repetitions: 2,
+          interval_days: 6,
+          due_at: "2026-08-02T12:00:00.000Z",
+          solution_moves: ["f7g7"],
+        },
+      ],
+      error: null,
+    });
+
+    const [puzzle] = await getDuePersonalPuzzles();
+
+    expect(rpc).toHaveBeenCalledWith("get_due_personal_chess_puzzles", {
+      p_limit: 10,
+    });
+    expect(puzzle).toEqual({
+      puzzleId,
+      fen: "7k/5Q2/6K1/8/8/8/8/8 w - - 0 1",
+      themes: ["blunder"],
+      rating: 1400,
+      sourceGameId: "game-1",
+      sourcePly: 31,
+      playedMove: "f7f8",
+      repetitions: 2,
+      intervalDays: 6,
+      dueAt: "2026-08-02T12:00:00.000Z",
+    });
+  });
+
+  it("submits a personal puzzle review and returns its next schedule", async () => {
+    rpc.mockResolvedValue({
+      data: [
+        {
+          solved: false,
+          solution_moves: ["f7g7"],
+          repetitions: 0,
+          interval_days: 0,
+          ease_factor: "2.18",
+          due_at: "2026-08-02T12:10:00.000Z",
+        },
+      ],
+      error: null,
+    });
+
+    await expect(
+      submitPersonalPuzzle(puzzleId, ["f7f8"], 5000),
+    ).resolves.toEqual({
+      solved: false,
+      solutionMoves: ["f7g7"],
+      repetitions: 0,
+      intervalDays: 0,
+      easeFactor: 2.18,
+      dueAt: "2026-08-02T12:10:00.000Z",
+    });
+    expect(rpc).toHaveBeenCalledWith("submit_personal_chess_puzzle", {
+      p_puzzle_id: puzzleId,
+      p_moves: ["f7f8"],
+      p_duration_ms: 5000,
+    });
+  });
+
+  it("starts a themed rush run and replays a multi-move line", async () => {
+    const runRow = {
+      run_id: requestKey,
+      mode: "survival",
+      theme: "mateIn2",
+      status: "active",
+      score: 0,
+      strikes: 0,
+      expires_at: null,
+      puzzle_id: puzzleId,
+      fen: "7k/8/8/8/8/8/1R6/R3K3 w - - 0 1",
+      themes: ["mateIn2"],
+      rule_ids: [],
+      rating: 1150,
+      player_rating: 1500,
+    };
+    rpc.mockResolvedValueOnce({ data: [runRow], error: null });
+
+    const run = await startPuzzleRun("survival", "mateIn2");
+
+    expect(rpc).toHaveBeenCalledWith("start_chess_puzzle_run", {
+      p_mode: "survival",
+      p_theme: "mateIn2",
+    });
+    expect(run).toMatchObject({
+      runId: requestKey,
+      theme: "mateIn2",
+      expiresAt: null,
+      puzzle: { puzzleId, ruleIds: [], rating: 1150 },
+      playerRating: 1500,
+    });
+    expect(run).not.toHaveProperty("solution_moves");
+
+    rpc.mockResolvedValueOnce({
+      data: [
+        {
+          ...runRow,
+          outcome: "failed",
+          reply_move: null,
+          solution_moves: ["b2b7", "h8g8", "a1a8"],
+          rating_change: -28,
+          xp_awarded: 0,
+          status: "finished",
+          strikes: 1,
+          puzzle_id: null,
+          player_rating: 1472,
+        },
+      ],
+      error: null,
+    });
+
+    const step = await submitPuzzleRunMove(requestKey, ["a1a8"]);
+
+    expect(rpc).toHaveBeenLastCalledWith("submit_chess_puzzle_run_move", {
+      p_run_id: requestKey,
+      p_moves: ["a1a8"],
+    });
+    expect(step).toMatchObject({
+      outcome: "failed",
+      solutionMoves: ["b2b7", "h8g8", "a1a8"],
+      ratingChange: -28,
+      run: { status: "finished", strikes: 1, puzzle: null },
+    });
+    await expect(
+      submitPuzzleRunMove(requestKey, ["b2b7", "h8g8"]),
+    ).rejects.toThrow(/se terminer par ton coup/);
+    await expect(
+      startPuzzleRun("five_minutes" as PuzzleRushMode),
+    ).rejects.toThrow(/Mode de puzzle rush invalide/);
+    expect(rpc).toHaveBeenCalledTimes(2);
+  });
+
+  it("finishes a run and reads the leaderboard of its mode", async () => {
+    rpc.mockResolvedValueOnce({
+      data: [
+        {
+          xp_awarded: 24,
+          run_id: requestKey,
+          mode: "three_minutes",
+          theme: null,
+          status: "finished",
+          score: 12,
+          strikes: 1,
+          expires_at: "2026-08-03T12:03:00.000Z",
+          puzzle_id: null,
+          player_rating: 1610,
+        },
+      ],
+      error: null,
+    });
+
+    await expect(finishPuzzleRun(requestKey)).resolves.toMatchObject({
+      xpAwarded: 24,
+      run: { mode: "three_minutes", theme: null, score: 12, puzzle: null },
+    });
+    expect(rpc).toHaveBeenCalledWith("finish_chess_puzzle_run", {
+      p_run_id: requestKey,
+    });
+
+    rpc.mockResolvedValueOnce({
+      data: [
+        {
+          rank: 1,
+          user_id: userId,
+          best_score: 12,
+          runs_played: 3,
+          achieved_at: "2026-08-03T12:03:00.000Z",
+        },
+      ],
+      error: null,
+    });
+
+    await expect(getPuzzleRushLeaderboard("three_minutes")).resolves.toEqual([
+      {
+        rank: 1,
+        userId,
+        bestScore: 12,
+        runsPlayed: 3,
+        achievedAt: "2026-08-03T12:03:00.000Z",
+      },
+    ]);
+    expect(rpc).toHaveBeenLastCalledWith("get_chess_puzzle_rush_leaderboard", {
+      p_mode: "three_minutes",
+      p_theme: null,
+      p_limit: 10,
+    });
+  });
+
   it("reads only the authenticated player's RLS progression row", async () => {
     maybeSingle.mockResolvedValue({
       data: {
@@ -224,13 +474,22 @@ describe("chess platform API", () => {
       p_rated: false,
       p_initial_seconds: 300,
       p_increment_seconds: 0,
-      p_rating_window: 200,
+      p_rating_window: MATCHMAKING_BASE_RATING_WINDOW,
+      p_delay_seconds: 0,
+      p_delay_mode: "none",
     });
 
     rpc.mockClear();
     await expect(
       enqueueStandardMatchmaking({ requestKey, initialSeconds: 0 }),
     ).rejects.toThrow(/Cadence invalide/);
+    await expect(
+      enqueueStandardMatchmaking({
+        requestKey,
+        initialSeconds: 300,
+        delaySeconds: 3,
+      }),
+    ).rejects.toThrow(/Cadence invalide/);
     expect(rpc).not.toHaveBeenCalled();
   });
 
@@ -245,6 +504,8 @@ describe("chess platform API", () => {
         rated: false,
         initial_seconds: 300,
         increment_seconds: 0,
+        delay_seconds: 0,
+        delay_mode: "none",
         matched_room_id: null,
         matched_match_id: null,
         created_at: "2026-07-20T12:00:00Z",
@@ -282,6 +543,8 @@ describe("chess platform API", () => {
         rated: false,
         initial_seconds: 300,
         increment_seconds: 0,
+        delay_seconds: 0,
+        delay_mode: "none",
         matched_room_id: roomId,
         matched_match_id: matchId,
         created_at: "2026-07-20T12:00:00Z",
@@ -305,6 +568,8 @@ describe("chess platform API", () => {
         rated: false,
         initial_seconds: 300,
         increment_seconds: 0,
+        delay_seconds: 0,
+        delay_mode: "none",
         matched_room_id: null,
         matched_match_id: null,
         created_at: "2020-07-20T12:00:00Z",
@@ -329,6 +594,8 @@ describe("chess platform API", () => {
             rated: false,
             initial_seconds: 300,
             increment_seconds: 0,
+            delay_seconds: 0,
+            delay_mode: "none",
             waiting_since: "2026-07-20T12:00:00Z",
           },
         ],
@@ -385,6 +652,8 @@ describe("chess platform API", () => {
       p_initial_seconds: 300,
       p_increment_seconds: 0,
       p_owner_color: "random",
+      p_delay_seconds: 0,
+      p_delay_mode: "none",
     });
     await expect(createChessRoomInvitation(roomId)).resolves.toMatchObject({
       invitationId,
@@ -403,6 +672,73 @@ describe("chess platform API", () => {
     });
   });
 
+  it("lists watchable live matches and configures the spectator delay", async () => {
+    rpc
+      .mockResolvedValueOnce({
+        data: [
+          {
+            match_id: matchId,
+            room_id: roomId,
+            room_name: "Salle publique",
+            white_player_id: userId,
+            black_player_id: ticketId,
+            white_rating: 1720,
+            black_rating: null,
+            rated: false,
+            initial_seconds: 300,
+            increment_seconds: 2,
+            delay_seconds: 0,
+            delay_mode: "none",
+            spectator_delay_seconds: 30,
+            spectator_count: 4,
+            started_at: "2026-07-20T12:00:00Z",
+          },
+        ],
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: [
+          {
+            room_id: roomId,
+            allow_spectators: true,
+            spectator_delay_seconds: 30,
+          },
+        ],
+        error: null,
+      });
+
+    await expect(listLiveChessMatches()).resolves.toEqual([
+      expect.objectContaining({
+        matchId,
+        whiteRating: 1720,
+        blackRating: null,
+        spectatorDelaySeconds: 30,
+        spectatorCount: 4,
+      }),
+    ]);
+    expect(rpc).toHaveBeenNthCalledWith(1, "list_live_chess_matches", {
+      p_limit: 20,
+    });
+    await expect(
+      configureChessRoomSpectators(roomId, true, 30),
+    ).resolves.toEqual({
+      roomId,
+      allowSpectators: true,
+      spectatorDelaySeconds: 30,
+    });
+    expect(rpc).toHaveBeenLastCalledWith("configure_chess_room_spectators", {
+      p_room_id: roomId,
+      p_allow_spectators: true,
+      p_spectator_delay_seconds: 30,
+    });
+
+    await expect(
+      configureChessRoomSpectators(roomId, true, 901),
+    ).rejects.toThrow("différé spectateur");
+    await expect(listLiveChessMatches(51)).rejects.toThrow("entre 1 et 50");
+    expect(rpc).toHaveBeenCalledTimes(2);
+  });
+
   it("reads the protected room and match rows without a simulation fallback", async () => {
     maybeSingle
       .mockResolvedValueOnce({
@@ -416,6 +752,8 @@ describe("chess platform API", () => {
           rated: false,
           initial_seconds: 300,
           increment_seconds: 0,
+          delay_seconds: 0,
+          delay_mode: "none",
         },
         error: null,
       })
@@ -1,4 +1,5 @@
 import { requireSupabaseClient } from "@/integrations/supabase/client";
+import type { ClockDelayMode } from "@/types/timeControl";
 
 interface SupabaseErrorLike {
   message: string;
@@ -28,10 +29,16 @@ interface DynamicPlatformClient {
   from(name: string): DynamicQueryBuilder;
 }
 
+/** Glicko-2 pools: one per cadence, plus one per Rule Architect ruleset. */
+export type ChessRatingPool = "bullet" | "blitz" | "long" | `variant:${string}`;
+
 export interface ChessLeaderboardEntry {
   rank: number;
   userId: string;
+  pool: ChessRatingPool;
   rating: number;
+  /** Glicko-2 RD; the rating stays provisional above 110. */
+  ratingDeviation: number;
   gamesPlayed: number;
   wins: number;
   draws: number;
@@ -58,6 +65,84 @@ export interface DailyPuzzleSubmission {
   xpAwarded: number;
 }
 
+/** A puzzle mined from one of the player's own games; no solution included. */
+export interface PersonalPuzzle {
+  puzzleId: string;
+  fen: string;
+  themes: string[];
+  rating: number;
+  sourceGameId: string;
+  sourcePly: number;
+  playedMove: string | null;
+  repetitions: number;
+  intervalDays: number;
+  dueAt: string;
+}
+
+/** Outcome of one spaced-repetition review. */
+export interface PersonalPuzzleReview {
+  solved: boolean;
+  solutionMoves: string[];
+  repetitions: number;
+  intervalDays: number;
+  easeFactor: number;
+  dueAt: string;
+}
+
+export type PuzzleRushMode = "three_minutes" | "three_strikes" | "survival";
+
+/** Themed sets; a run without a theme mixes every standard puzzle. */
+export type PuzzleRushTheme = "fork" | "pin" | "mateIn2" | "variant";
+
+export interface PuzzleRunPuzzle {
+  puzzleId: string;
+  fen: string;
+  themes: string[];
+  /** Preset rules the position is played under; empty for standard chess. */
+  ruleIds: string[];
+  rating: number;
+}
+
+export interface PuzzleRunState {
+  runId: string;
+  mode: PuzzleRushMode;
+  theme: PuzzleRushTheme | null;
+  status: "active" | "finished";
+  score: number;
+  strikes: number;
+  /** Server deadline of a timed run; null for strike-based modes. */
+  expiresAt: string | null;
+  /** Null once the run is over. */
+  puzzle: PuzzleRunPuzzle | null;
+  /** Puzzle rating, separate from the game ratings. */
+  playerRating: number;
+}
+
+export interface PuzzleRunStep {
+  /** `continue` means the line so far is right and `replyMove` was played. */
+  outcome: "continue" | "solved" | "failed" | "timeout";
+  replyMove: string | null;
+  /** Revealed on a miss only. */
+  solutionMoves: string[];
+  ratingChange: number;
+  xpAwarded: number;
+  run: PuzzleRunState;
+}
+
+export interface PuzzleRushLeaderboardEntry {
+  rank: number;
+  userId: string;
+  bestScore: number;
+  runsPlayed: number;
+  achievedAt: string;
+}
+
+export interface ServerPuzzleRating {
+  rating: number;
+  puzzlesAttempted: number;
+  puzzlesSolved: number;
+}
+
 export interface ServerPlayerProgress {
   totalXp: number;
   level: number;
@@ -91,6 +176,8 @@ export interface ChessMatchmakingTicket extends ChessMatchmakingResult {
   rated: boolean;
   initialSeconds: number;
   incrementSeconds: number;
+  delaySeconds: number;
+  delayMode: ClockDelayMode;
   createdAt: string;
   expiresAt: string;
 }
@@ -104,6 +191,8 @@ export interface OpenChessRoom {
   rated: boolean;
   initialSeconds: number;
   incrementSeconds: number;
+  delaySeconds: number;
+  delayMode: ClockDelayMode;
   waitingSince: string;
 }
 
@@ -137,6 +226,32 @@ export interface ChessRoomState {
   rated: boolean;
   initialSeconds: number;
   incrementSeconds: number;
+  delaySeconds: number;
+  delayMode: ClockDelayMode;
+}
+
+export interface LiveChessMatch {
+  matchId: string;
+  roomId: string;
+  roomName: string;
+  whitePlayerId: string;
+  blackPlayerId: string;
+  whiteRating: number | null;
+  blackRating: number | null;
+  rated: boolean;
+  initialSeconds: number;
+  incrementSeconds: number;
+  delaySeconds: number;
+  delayMode: ClockDelayMode;
+  spectatorDelaySeconds: number;
+  spectatorCount: number;
+  startedAt: string | null;
+}
+
+export interface ChessRoomSpectatorSettings {
+  roomId: string;
+  allowSpectators: boolean;
+  spectatorDelaySeconds: number;
 }
 
 export interface ChessMatchState {
@@ -146,11 +261,14 @@ export interface ChessMatchState {
   startedAt: string | null;
 }
 
+export const MAX_SPECTATOR_DELAY_SECONDS = 900;
+
 const UUID_PATTERN =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 const HASH_PATTERN = /^[0-9a-f]{16,128}$/i;
 const INVITATION_TOKEN_PATTERN = /^[0-9a-f]{64}$/i;
+const RATING_POOL_PATTERN = /^(bullet|blitz|long|variant:[0-9a-f]{16,128})$/;
 
 const dynamicClient = (): DynamicPlatformClient =>
   requireSupabaseClient() as unknown as DynamicPlatformClient;
@@ -179,6 +297,19 @@ const safeInteger = (value: unknown, label: string, minimum = 0): number => {
   return parsed;
 };
 
+const finiteNumber = (value: unknown, label: string): number => {
+  const parsed =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim().length > 0
+        ? Number(value)
+        : Number.NaN;
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${label} invalide dans la réponse serveur.`);
+  }
+  return parsed;
+};
+
 const nullableInteger = (value: unknown, label: string): number | null =>
   value == null ? null : safeInteger(value, label);
 
@@ -257,17 +388,52 @@ export function neutralPlayerLabel(userId: string): string {
   return `Joueur ${compact.slice(0, 4)}-${compact.slice(-4)}`;
 }
 
+/**
+ * Pool a game is rated in, as `private.chess_rating_pool` decides it: the
+ * estimated duration (base + 40 increments) picks the cadence.
+ */
+export function chessRatingPool(input: {
+  rulesetType: "standard" | "custom";
+  rulesetHash?: string;
+  initialSeconds: number;
+  incrementSeconds?: number;
+}): ChessRatingPool {
+  if (input.rulesetType === "custom") {
+    if (!input.rulesetHash || !HASH_PATTERN.test(input.rulesetHash)) {
+      throw new Error("Empreinte de variante invalide.");
+    }
+    return `variant:${input.rulesetHash.toLowerCase()}`;
+  }
+  const estimate = input.initialSeconds + 40 * (input.incrementSeconds ?? 0);
+  if (estimate < 180) return "bullet";
+  if (estimate < 600) return "blitz";
+  return "long";
+}
+
+const ratingPoolValue = (value: unknown, label: string): ChessRatingPool => {
+  const parsed = stringValue(value, label);
+  if (!RATING_POOL_PATTERN.test(parsed)) {
+    throw new Error(`${label} invalide dans la réponse serveur.`);
+  }
+  return parsed as ChessRatingPool;
+};
+
 export async function getChessLeaderboard(
   limit = 100,
+  pool: ChessRatingPool = "blitz",
 ): Promise<ChessLeaderboardEntry[]> {
   if (!Number.isSafeInteger(limit) || limit < 1 || limit > 200) {
     throw new Error(
       "La limite du classement doit être comprise entre 1 et 200.",
     );
   }
+  if (!RATING_POOL_PATTERN.test(pool)) {
+    throw new Error("Catégorie de classement invalide.");
+  }
 
   const result = await dynamicClient().rpc("get_chess_leaderboard", {
     p_season_id: null,
+    p_pool: pool,
     p_limit: limit,
   });
   throwIfError(result.error, "Chargement du classement impossible");
@@ -285,7 +451,9 @@ export async function getChessLeaderboard(
     return {
       rank: safeInteger(row.rank, "rank", 1),
       userId,
+      pool: ratingPoolValue(row.pool, "pool"),
       rating: safeInteger(row.rating, "rating"),
+      ratingDeviation: finiteNumber(row.rating_deviation, "rating_deviation"),
       gamesPlayed,
       wins,
       draws,
@@ -387,6 +555,254 @@ export async function submitServerDailyPuzzle(
   };
 }
 
+export async function getDuePersonalPuzzles(
+  limit = 10,
+): Promise<PersonalPuzzle[]> {
+  if (!Number.isSafeInteger(limit) || limit < 1 || limit > 50) {
+    throw new Error("La limite de puzzles doit être comprise entre 1 et 50.");
+  }
+
+  const result = await dynamicClient().rpc("get_due_personal_chess_puzzles", {
+    p_limit: limit,
+  });
+  throwIfError(result.error, "Chargement des puzzles personnels impossible");
+
+  return rows(result.data).map((row) => ({
+    puzzleId: uuidValue(row.puzzle_id, "puzzle_id"),
+    fen: stringValue(row.fen, "fen"),
+    themes: Array.isArray(row.themes)
+      ? row.themes.filter((theme): theme is string => typeof theme === "string")
+      : [],
+    rating: safeInteger(row.rating, "rating"),
+    sourceGameId: stringValue(row.source_game_id, "source_game_id"),
+    sourcePly: safeInteger(row.source_ply, "source_ply", 1),
+    playedMove: nullableString(row.played_move),
+    repetitions: safeInteger(row.repetitions, "repetitions"),
+    intervalDays: safeInteger(row.interval_days, "interval_days"),
+    dueAt: stringValue(row.due_at, "due_at"),
+  }));
+}
+
+export async function submitPersonalPuzzle(
+  puzzleId: string,
+  moves: string[],
+  durationMs: number | null,
+): Promise<PersonalPuzzleReview> {
+  if (!UUID_PATTERN.test(puzzleId))
+    throw new Error("Identifiant de puzzle invalide.");
+  if (moves.length < 1 || moves.length > 64) {
+    throw new Error("Une tentative doit contenir entre 1 et 64 coups.");
+  }
+  if (
+    durationMs !== null &&
+    (!Number.isSafeInteger(durationMs) ||
+      durationMs < 0 ||
+      durationMs > 86_400_000)
+  ) {
+    throw new Error("Durée de tentative invalide.");
+  }
+
+  const result = await dynamicClient().rpc("submit_personal_chess_puzzle", {
+    p_puzzle_id: puzzleId,
+    p_moves: moves,
+    p_duration_ms: durationMs,
+  });
+  throwIfError(result.error, "Validation du puzzle impossible");
+  const row = firstRow(result.data);
+  if (!row || typeof row.solved !== "boolean") {
+    throw new Error("Réponse de validation du puzzle invalide.");
+  }
+
+  return {
+    solved: row.solved,
+    solutionMoves: Array.isArray(row.solution_moves)
+      ? row.solution_moves.filter(
+          (move): move is string => typeof move === "string",
+        )
+      : [],
+    repetitions: safeInteger(row.repetitions, "repetitions"),
+    intervalDays: safeInteger(row.interval_days, "interval_days"),
+    easeFactor: finiteNumber(row.ease_factor, "ease_factor"),
+    dueAt: stringValue(row.due_at, "due_at"),
+  };
+}
+
+const PUZZLE_RUSH_MODES = [
+  "three_minutes",
+  "three_strikes",
+  "survival",
+] as const;
+const PUZZLE_RUSH_THEMES = ["fork", "pin", "mateIn2", "variant"] as const;
+const PUZZLE_RUN_STATUSES = ["active", "finished"] as const;
+const PUZZLE_RUN_OUTCOMES = [
+  "continue",
+  "solved",
+  "failed",
+  "timeout",
+] as const;
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string")
+    : [];
+
+const validatePuzzleRushSelection = (
+  mode: PuzzleRushMode,
+  theme: PuzzleRushTheme | null,
+) => {
+  if (!PUZZLE_RUSH_MODES.includes(mode)) {
+    throw new Error("Mode de puzzle rush invalide.");
+  }
+  if (theme !== null && !PUZZLE_RUSH_THEMES.includes(theme)) {
+    throw new Error("Thème de puzzles invalide.");
+  }
+};
+
+const puzzleRunStateFromRow = (
+  row: Record<string, unknown>,
+): PuzzleRunState => ({
+  runId: uuidValue(row.run_id, "run_id"),
+  mode: enumValue(row.mode, PUZZLE_RUSH_MODES, "mode"),
+  theme:
+    row.theme == null
+      ? null
+      : enumValue(row.theme, PUZZLE_RUSH_THEMES, "theme"),
+  status: enumValue(row.status, PUZZLE_RUN_STATUSES, "status"),
+  score: safeInteger(row.score, "score"),
+  strikes: safeInteger(row.strikes, "strikes"),
+  expiresAt:
+    row.expires_at == null ? null : dateTimeValue(row.expires_at, "expires_at"),
+  puzzle:
+    row.puzzle_id == null
+      ? null
+      : {
+          puzzleId: uuidValue(row.puzzle_id, "puzzle_id"),
+          fen: stringValue(row.fen, "fen"),
+          themes: stringList(row.themes),
+          ruleIds: stringList(row.rule_ids),
+          rating: safeInteger(row.rating, "rating"),
+        },
+  playerRating: safeInteger(row.player_rating, "player_rating"),
+});
+
+export async function startPuzzleRun(
+  mode: PuzzleRushMode,
+  theme: PuzzleRushTheme | null = null,
+): Promise<PuzzleRunState> {
+  validatePuzzleRushSelection(mode, theme);
+
+  const result = await dynamicClient().rpc("start_chess_puzzle_run", {
+    p_mode: mode,
+    p_theme: theme,
+  });
+  throwIfError(result.error, "Démarrage de la série impossible");
+  const row = firstRow(result.data);
+  if (!row) throw new Error("Réponse de démarrage de série invalide.");
+  return puzzleRunStateFromRow(row);
+}
+
+/** `moves` is the whole line played on the current puzzle, replies included. */
+export async function submitPuzzleRunMove(
+  runId: string,
+  moves: string[],
+): Promise<PuzzleRunStep> {
+  if (!UUID_PATTERN.test(runId))
+    throw new Error("Identifiant de série invalide.");
+  if (moves.length < 1 || moves.length > 63 || moves.length % 2 === 0) {
+    throw new Error("La ligne jouée doit se terminer par ton coup.");
+  }
+
+  const result = await dynamicClient().rpc("submit_chess_puzzle_run_move", {
+    p_run_id: runId,
+    p_moves: moves,
+  });
+  throwIfError(result.error, "Validation du coup impossible");
+  const row = firstRow(result.data);
+  if (!row) throw new Error("Réponse de validation de série invalide.");
+
+  return {
+    outcome: enumValue(row.outcome, PUZZLE_RUN_OUTCOMES, "outcome"),
+    replyMove: nullableString(row.reply_move),
+    solutionMoves: stringList(row.solution_moves),
+    ratingChange: safeInteger(row.rating_change, "rating_change", -4000),
+    xpAwarded: safeInteger(row.xp_awarded, "xp_awarded"),
+    run: puzzleRunStateFromRow(row),
+  };
+}
+
+/** Ends the run now; its score counts and the run's XP is granted. */
+export async function finishPuzzleRun(
+  runId: string,
+): Promise<{ xpAwarded: number; run: PuzzleRunState }> {
+  if (!UUID_PATTERN.test(runId))
+    throw new Error("Identifiant de série invalide.");
+
+  const result = await dynamicClient().rpc("finish_chess_puzzle_run", {
+    p_run_id: runId,
+  });
+  throwIfError(result.error, "Fin de série impossible");
+  const row = firstRow(result.data);
+  if (!row) throw new Error("Réponse de fin de série invalide.");
+  return {
+    xpAwarded: safeInteger(row.xp_awarded, "xp_awarded"),
+    run: puzzleRunStateFromRow(row),
+  };
+}
+
+export async function getPuzzleRushLeaderboard(
+  mode: PuzzleRushMode,
+  theme: PuzzleRushTheme | null = null,
+  limit = 10,
+): Promise<PuzzleRushLeaderboardEntry[]> {
+  validatePuzzleRushSelection(mode, theme);
+  if (!Number.isSafeInteger(limit) || limit < 1 || limit > 200) {
+    throw new Error(
+      "La limite du classement doit être comprise entre 1 et 200.",
+    );
+  }
+
+  const result = await dynamicClient().rpc(
+    "get_chess_puzzle_rush_leaderboard",
+    { p_mode: mode, p_theme: theme, p_limit: limit },
+  );
+  throwIfError(result.error, "Chargement du classement de puzzles impossible");
+
+  return rows(result.data).map((row) => ({
+    rank: safeInteger(row.rank, "rank", 1),
+    userId: uuidValue(row.user_id, "user_id"),
+    bestScore: safeInteger(row.best_score, "best_score"),
+    runsPlayed: safeInteger(row.runs_played, "runs_played", 1),
+    achievedAt: dateTimeValue(row.achieved_at, "achieved_at"),
+  }));
+}
+
+export async function getServerPuzzleRating(
+  userId: string,
+): Promise<ServerPuzzleRating | null> {
+  if (!UUID_PATTERN.test(userId))
+    throw new Error("Identifiant joueur invalide.");
+
+  const result = await dynamicClient()
+    .from("chess_player_puzzle_ratings")
+    .select("rating, puzzles_attempted, puzzles_solved")
+    .eq("user_id", userId)
+    .maybeSingle();
+  throwIfError(result.error, "Chargement du classement puzzle impossible");
+  if (result.data == null) return null;
+  if (!isRecord(result.data)) {
+    throw new Error("Réponse de classement puzzle invalide.");
+  }
+
+  return {
+    rating: safeInteger(result.data.rating, "rating"),
+    puzzlesAttempted: safeInteger(
+      result.data.puzzles_attempted,
+      "puzzles_attempted",
+    ),
+    puzzlesSolved: safeInteger(result.data.puzzles_solved, "puzzles_solved"),
+  };
+}
+
 export async function getServerPlayerProgress(
   userId: string,
 ): Promise<ServerPlayerProgress | null> {
@@ -443,6 +859,7 @@ const RULESET_TYPES = ["standard", "custom"] as const;
 const ROOM_VISIBILITIES = ["public", "private", "unlisted"] as const;
 const PLAYER_COLORS = ["white", "black"] as const;
 const MATCH_STATUSES = ["pending", "active", "completed", "aborted"] as const;
+const CLOCK_DELAY_MODES = ["none", "simple", "bronstein"] as const;
 
 const validateRequestKey = (requestKey: string) => {
   if (!UUID_PATTERN.test(requestKey)) {
@@ -450,20 +867,33 @@ const validateRequestKey = (requestKey: string) => {
   }
 };
 
-const validateTimeControl = (
-  initialSeconds: number,
-  incrementSeconds: number,
-) => {
+interface TimeControlInput {
+  initialSeconds: number;
+  incrementSeconds?: number;
+  delaySeconds?: number;
+  delayMode?: ClockDelayMode;
+}
+
+const validateTimeControl = (input: TimeControlInput) => {
+  const incrementSeconds = input.incrementSeconds ?? 0;
+  const delaySeconds = input.delaySeconds ?? 0;
+  const delayMode = input.delayMode ?? "none";
   if (
-    !Number.isSafeInteger(initialSeconds) ||
-    initialSeconds < 30 ||
-    initialSeconds > 604_800 ||
+    !Number.isSafeInteger(input.initialSeconds) ||
+    input.initialSeconds < 30 ||
+    input.initialSeconds > 604_800 ||
     !Number.isSafeInteger(incrementSeconds) ||
     incrementSeconds < 0 ||
-    incrementSeconds > 3_600
+    incrementSeconds > 3_600 ||
+    !Number.isSafeInteger(delaySeconds) ||
+    delaySeconds < 0 ||
+    delaySeconds > 300 ||
+    !CLOCK_DELAY_MODES.includes(delayMode) ||
+    (delayMode === "none") !== (delaySeconds === 0)
   ) {
     throw new Error("Cadence invalide pour le serveur multijoueur.");
   }
+  return { incrementSeconds, delaySeconds, delayMode };
 };
 
 const matchmakingResultFromRow = (
@@ -500,18 +930,24 @@ const matchmakingTicketFromRow = (
   rated: booleanValue(row.rated, "rated"),
   initialSeconds: safeInteger(row.initial_seconds, "initial_seconds", 30),
   incrementSeconds: safeInteger(row.increment_seconds, "increment_seconds"),
+  delaySeconds: safeInteger(row.delay_seconds, "delay_seconds"),
+  delayMode: enumValue(row.delay_mode, CLOCK_DELAY_MODES, "delay_mode"),
   createdAt: dateTimeValue(row.created_at, "created_at"),
   expiresAt: dateTimeValue(row.expires_at, "expires_at"),
 });
 
-export async function enqueueStandardMatchmaking(input: {
-  requestKey: string;
-  initialSeconds: number;
-  incrementSeconds?: number;
-}): Promise<ChessMatchmakingResult> {
-  const incrementSeconds = input.incrementSeconds ?? 0;
+/**
+ * Narrowest pairing window. The server widens it with both players' rating
+ * deviations and with the time the waiting ticket has spent in the queue.
+ */
+export const MATCHMAKING_BASE_RATING_WINDOW = 100;
+
+export async function enqueueStandardMatchmaking(
+  input: TimeControlInput & { requestKey: string },
+): Promise<ChessMatchmakingResult> {
   validateRequestKey(input.requestKey);
-  validateTimeControl(input.initialSeconds, incrementSeconds);
+  const { incrementSeconds, delaySeconds, delayMode } =
+    validateTimeControl(input);
 
   const result = await dynamicClient().rpc("enqueue_chess_matchmaking", {
     p_request_key: input.requestKey,
@@ -519,7 +955,9 @@ export async function enqueueStandardMatchmaking(input: {
     p_rated: false,
     p_initial_seconds: input.initialSeconds,
     p_increment_seconds: incrementSeconds,
-    p_rating_window: 200,
+    p_rating_window: MATCHMAKING_BASE_RATING_WINDOW,
+    p_delay_seconds: delaySeconds,
+    p_delay_mode: delayMode,
   });
   throwIfError(result.error, "Entrée dans la file impossible");
   return matchmakingResultFromRow(firstRow(result.data));
@@ -539,7 +977,7 @@ export async function cancelChessMatchmaking(
 }
 
 const MATCHMAKING_TICKET_COLUMNS =
-  "id, player_id, request_key, status, ruleset_type, rated, initial_seconds, increment_seconds, matched_room_id, matched_match_id, created_at, expires_at";
+  "id, player_id, request_key, status, ruleset_type, rated, initial_seconds, increment_seconds, delay_seconds, delay_mode, matched_room_id, matched_match_id, created_at, expires_at";
 
 export async function getChessMatchmakingTicket(
   ticketId: string,
@@ -595,27 +1033,98 @@ export async function listOpenChessRooms(limit = 50): Promise<OpenChessRoom[]> {
     rated: booleanValue(row.rated, "rated"),
     initialSeconds: safeInteger(row.initial_seconds, "initial_seconds", 30),
     incrementSeconds: safeInteger(row.increment_seconds, "increment_seconds"),
+    delaySeconds: safeInteger(row.delay_seconds, "delay_seconds"),
+    delayMode: enumValue(row.delay_mode, CLOCK_DELAY_MODES, "delay_mode"),
     waitingSince: dateTimeValue(row.waiting_since, "waiting_since"),
   }));
 }
 
-export async function createStandardChessRoom(input: {
-  name: string;
-  visibility: "public" | "private";
-  requestKey: string;
-  initialSeconds: number;
-  incrementSeconds?: number;
-  ownerColor?: "white" | "black" | "random";
-}): Promise<CreatedChessRoom> {
+export async function listLiveChessMatches(
+  limit = 20,
+): Promise<LiveChessMatch[]> {
+  if (!Number.isSafeInteger(limit) || limit < 1 || limit > 50) {
+    throw new Error("La limite des parties doit être comprise entre 1 et 50.");
+  }
+  const result = await dynamicClient().rpc("list_live_chess_matches", {
+    p_limit: limit,
+  });
+  throwIfError(result.error, "Chargement des parties en direct impossible");
+  return rows(result.data).map((row) => ({
+    matchId: uuidValue(row.match_id, "match_id"),
+    roomId: uuidValue(row.room_id, "room_id"),
+    roomName: stringValue(row.room_name, "room_name"),
+    whitePlayerId: uuidValue(row.white_player_id, "white_player_id"),
+    blackPlayerId: uuidValue(row.black_player_id, "black_player_id"),
+    whiteRating: nullableInteger(row.white_rating, "white_rating"),
+    blackRating: nullableInteger(row.black_rating, "black_rating"),
+    rated: booleanValue(row.rated, "rated"),
+    initialSeconds: safeInteger(row.initial_seconds, "initial_seconds", 30),
+    incrementSeconds: safeInteger(row.increment_seconds, "increment_seconds"),
+    delaySeconds: safeInteger(row.delay_seconds, "delay_seconds"),
+    delayMode: enumValue(row.delay_mode, CLOCK_DELAY_MODES, "delay_mode"),
+    spectatorDelaySeconds: safeInteger(
+      row.spectator_delay_seconds,
+      "spectator_delay_seconds",
+    ),
+    spectatorCount: safeInteger(row.spectator_count, "spectator_count"),
+    startedAt:
+      row.started_at == null
+        ? null
+        : dateTimeValue(row.started_at, "started_at"),
+  }));
+}
+
+export async function configureChessRoomSpectators(
+  roomId: string,
+  allowSpectators: boolean,
+  spectatorDelaySeconds = 0,
+): Promise<ChessRoomSpectatorSettings> {
+  if (!UUID_PATTERN.test(roomId))
+    throw new Error("Identifiant de salle invalide.");
+  if (
+    !Number.isSafeInteger(spectatorDelaySeconds) ||
+    spectatorDelaySeconds < 0 ||
+    spectatorDelaySeconds > MAX_SPECTATOR_DELAY_SECONDS
+  ) {
+    throw new Error(
+      "Le différé spectateur doit être compris entre 0 et 900 secondes.",
+    );
+  }
+  const result = await dynamicClient().rpc("configure_chess_room_spectators", {
+    p_room_id: roomId,
+    p_allow_spectators: allowSpectators,
+    p_spectator_delay_seconds: spectatorDelaySeconds,
+  });
+  throwIfError(result.error, "Réglage des spectateurs impossible");
+  const row = firstRow(result.data);
+  if (!row) throw new Error("Réponse de réglage des spectateurs vide.");
+  return {
+    roomId: uuidValue(row.room_id, "room_id"),
+    allowSpectators: booleanValue(row.allow_spectators, "allow_spectators"),
+    spectatorDelaySeconds: safeInteger(
+      row.spectator_delay_seconds,
+      "spectator_delay_seconds",
+    ),
+  };
+}
+
+export async function createStandardChessRoom(
+  input: TimeControlInput & {
+    name: string;
+    visibility: "public" | "private";
+    requestKey: string;
+    ownerColor?: "white" | "black" | "random";
+  },
+): Promise<CreatedChessRoom> {
   const name = input.name.trim();
-  const incrementSeconds = input.incrementSeconds ?? 0;
   if (name.length < 3 || name.length > 80) {
     throw new Error(
       "Le nom de la salle doit contenir entre 3 et 80 caractères.",
     );
   }
   validateRequestKey(input.requestKey);
-  validateTimeControl(input.initialSeconds, incrementSeconds);
+  const { incrementSeconds, delaySeconds, delayMode } =
+    validateTimeControl(input);
 
   const result = await dynamicClient().rpc("create_chess_room", {
     p_name: name,
@@ -626,6 +1135,8 @@ export async function createStandardChessRoom(input: {
     p_initial_seconds: input.initialSeconds,
     p_increment_seconds: incrementSeconds,
     p_owner_color: input.ownerColor ?? "random",
+    p_delay_seconds: delaySeconds,
+    p_delay_mode: delayMode,
   });
   throwIfError(result.error, "Création de la salle impossible");
   const row = firstRow(result.data);
@@ -702,7 +1213,7 @@ export async function getChessRoom(
   const result = await dynamicClient()
     .from("chess_rooms")
     .select(
-      "id, owner_id, name, visibility, status, ruleset_type, rated, initial_seconds, increment_seconds",
+      "id, owner_id, name, visibility, status, ruleset_type, rated, initial_seconds, increment_seconds, delay_seconds, delay_mode",
     )
     .eq("id", roomId)
     .maybeSingle();
@@ -720,6 +1231,8 @@ export async function getChessRoom(
     rated: booleanValue(row.rated, "rated"),
     initialSeconds: safeInteger(row.initial_seconds, "initial_seconds", 30),
     incrementSeconds: safeInteger(row.increment_seconds, "increment_seconds"),
+    delaySeconds: safeInteger(row.delay_seconds, "delay_seconds"),
+    delayMode: enumValue(row.delay_mode, CLOCK_DELAY_MODES, "delay_mode"),
   };
 }
 
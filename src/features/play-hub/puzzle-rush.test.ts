@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  formatRushClock,
+  puzzleFenAfterMoves,
+  puzzleRuleNames,
+  puzzleRushModeOption,
+  remainingRushMs,
+} from "./puzzle-rush";
+
+describe("puzzle rush", () => {
+  it("counts the timed run down against the server deadline", () => {
+    const now = Date.parse("2026-08-03T12:00:00.000Z");
+
+    expect(remainingRushMs("2026-08-03T12:02:05.500Z", now)).toBe(125_500);
+    expect(remainingRushMs("2026-08-03T11:59:00.000Z", now)).toBe(0);
+    expect(remainingRushMs(null, now)).toBeNull();
+    expect(formatRushClock(125_500)).toBe("2:06");
+    expect(formatRushClock(0)).toBe("0:00");
+  });
+
+  it("ends survival on the first miss and the other modes on the third", () => {
+    expect(puzzleRushModeOption("survival").strikes).toBe(1);
+    expect(puzzleRushModeOption("three_strikes").strikes).toBe(3);
+    expect(puzzleRushModeOption("three_minutes").durationMs).toBe(180_000);
+  });
+
+  it("replays the line of a multi-move puzzle", () => {
+    expect(
+      puzzleFenAfterMoves("7k/8/8/8/8/8/1R6/R3K3 w - - 0 1", ["b2b7", "h8g8"]),
+    ).toBe("6k1/1R6/8/8/8/8/8/R3K3 w - - 2 2");
+    expect(() =>
+      puzzleFenAfterMoves("7k/8/8/8/8/8/1R6/R3K3 w - - 0 1", ["b2c3"]),
+    ).toThrow(/b2c3 impossible/);
+  });
+
+  it("names the preset rules of a variant puzzle", () => {
+    expect(puzzleRuleNames(["preset_atk_06", "unknown_rule"])).toEqual([
+      "Pion Agressif",
+      "unknown_rule",
+    ]);
+  });
+});
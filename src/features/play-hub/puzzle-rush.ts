@@ -0,0 +1,99 @@
+import { Chess } from "chess.js";
+
+import { allPresetRules } from "@/lib/presetRules";
+import type { PuzzleRushMode, PuzzleRushTheme } from "./platform-api";
+
+export interface PuzzleRushModeOption {
+  id: PuzzleRushMode;
+  label: string;
+  description: string;
+  /** Misses that end the run. */
+  strikes: number;
+  durationMs: number | null;
+}
+
+export const PUZZLE_RUSH_MODE_OPTIONS: readonly PuzzleRushModeOption[] = [
+  {
+    id: "three_minutes",
+    label: "3 minutes",
+    description: "Un maximum de puzzles avant la fin du chrono.",
+    strikes: 3,
+    durationMs: 180_000,
+  },
+  {
+    id: "three_strikes",
+    label: "3 erreurs",
+    description: "Pas de chrono, la série s’arrête à la troisième erreur.",
+    strikes: 3,
+    durationMs: null,
+  },
+  {
+    id: "survival",
+    label: "Survie",
+    description: "Une seule erreur et la série est terminée.",
+    strikes: 1,
+    durationMs: null,
+  },
+];
+
+export const PUZZLE_RUSH_THEME_OPTIONS: ReadonlyArray<{
+  id: PuzzleRushTheme | null;
+  label: string;
+}> = [
+  { id: null, label: "Mélange" },
+  { id: "fork", label: "Fourchettes" },
+  { id: "pin", label: "Clouages" },
+  { id: "mateIn2", label: "Mats en 2" },
+  { id: "variant", label: "Règles variantes" },
+];
+
+export function puzzleRushModeOption(
+  mode: PuzzleRushMode,
+): PuzzleRushModeOption {
+  return (
+    PUZZLE_RUSH_MODE_OPTIONS.find((option) => option.id === mode) ??
+    PUZZLE_RUSH_MODE_OPTIONS[0]
+  );
+}
+
+export function remainingRushMs(
+  expiresAt: string | null,
+  now: number,
+): number | null {
+  if (!expiresAt) return null;
+  const deadline = Date.parse(expiresAt);
+  return Number.isNaN(deadline) ? null : Math.max(0, deadline - now);
+}
+
+export function formatRushClock(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Position after the UCI moves already played on a standard puzzle. Variant
+ * puzzles are single-move, so their position never has to be replayed.
+ */
+export function puzzleFenAfterMoves(fen: string, moves: string[]): string {
+  const game = new Chess(fen);
+  for (const move of moves) {
+    try {
+      game.move({
+        from: move.slice(0, 2),
+        to: move.slice(2, 4),
+        promotion: move[4],
+      });
+    } catch {
+      throw new Error(`Coup ${move} impossible dans la position du puzzle.`);
+    }
+  }
+  return game.fen();
+}
+
+/** Names of the preset rules a variant puzzle is played under. */
+export function puzzleRuleNames(ruleIds: string[]): string[] {
+  return ruleIds.map(
+    (ruleId) =>
+      allPresetRules.find((rule) => rule.ruleId === ruleId)?.ruleName ?? ruleId,
+  );
+}
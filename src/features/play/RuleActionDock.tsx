@@ -7,6 +7,10 @@ import type { ChessBoardAdapter } from "@/engine/adapters/chessBoardAdapter";
 import type { PieceID, Tile, UIActionSpec } from "@/engine/types";
 import type { PieceColor, Position } from "@/types/chess";
 import type { RuleActionRunResult } from "@/hooks/useRuleEngine";
+import {
+  boardPositionToTile,
+  isPlayableSquare,
+} from "@/rules-v2/board-geometry";
 
 interface RuleActionDockProps {
   actions: UIActionSpec[];
@@ -21,9 +25,6 @@ interface RuleActionDockProps {
   ) => RuleActionRunResult;
 }
 
-const positionToTile = (position: Position): Tile =>
-  `${String.fromCharCode(97 + position.col)}${8 - position.row}` as Tile;
-
 const actionRequiresTarget = (action: UIActionSpec): boolean =>
   (action.targeting?.mode ?? "none") !== "none";
 
@@ -36,6 +37,7 @@ export default function RuleActionDock({
   runAction,
 }: RuleActionDockProps) {
   const { toast } = useToast();
+  const geometry = boardAdapter.getGeometry();
   const [targetingAction, setTargetingAction] =
     useState<UIActionSpec | null>(null);
   const [submitting, setSubmitting] = useState<string | null>(null);
@@ -44,13 +46,14 @@ export default function RuleActionDock({
     if (!selectedPiecePosition) return undefined;
     try {
       return (
-        boardAdapter.getPieceAt(positionToTile(selectedPiecePosition)) ??
-        undefined
+        boardAdapter.getPieceAt(
+          boardPositionToTile(selectedPiecePosition, geometry),
+        ) ?? undefined
       );
     } catch {
       return undefined;
     }
-  }, [boardAdapter, selectedPiecePosition]);
+  }, [boardAdapter, geometry, selectedPiecePosition]);
 
   const visibleActions = useMemo(
     () =>
@@ -166,11 +169,19 @@ export default function RuleActionDock({
               </Button>
             </div>
 
-            <div className="grid grid-cols-8 overflow-hidden rounded-xl border border-white/15">
-              {Array.from({ length: 64 }, (_, index) => {
-                const row = Math.floor(index / 8);
-                const col = index % 8;
-                const tile = `${String.fromCharCode(97 + col)}${8 - row}` as Tile;
+            <div
+              className="grid overflow-hidden rounded-xl border border-white/15"
+              style={{
+                gridTemplateColumns: `repeat(${geometry.files}, minmax(0, 1fr))`,
+              }}
+            >
+              {Array.from({ length: geometry.files * geometry.ranks }, (_, index) => {
+                const row = Math.floor(index / geometry.files);
+                const col = index % geometry.files;
+                if (!isPlayableSquare({ row, col }, geometry)) {
+                  return <div key={index} className="aspect-square" />;
+                }
+                const tile = boardPositionToTile({ row, col }, geometry) as Tile;
                 const occupied = boardAdapter.getPieceAt(tile) !== null;
                 const mode = targetingAction.targeting?.mode ?? "tile";
                 const selectable = mode !== "piece" || occupied;
@@ -0,0 +1,324 @@
+import { useCallback, useMemo, useState, useSyncExternalStore } from "react";
+import { Bug, ChevronLeft, ChevronRight, Download, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type {
+  ConditionTrace,
+  RuleRollbackReason,
+  RuleTraceOutcome,
+  RuleTraceRecorder,
+} from "@/engine/trace";
+import { buildTraceFrames, listTracedPlies } from "./rule-trace-frames";
+
+interface RuleTracePanelProps {
+  recorder: RuleTraceRecorder;
+}
+
+const OUTCOME_LABELS: Record<RuleTraceOutcome, string> = {
+  committed: "Appliquée",
+  "no-effect": "Sans effet",
+  blocked: "Bloquée",
+  "out-of-scope": "Hors portée",
+};
+
+const ROLLBACK_LABELS: Record<RuleRollbackReason, string> = {
+  "invalid-effect": "Effet invalide",
+  "snapshot-unavailable": "Instantané impossible",
+  "condition-blocked": "Condition bloquante",
+  "effect-failed": "Effet refusé",
+  "budget-exceeded": "Budget dépassé",
+  "runtime-error": "Erreur d’exécution",
+  "end-turn-failed": "Fin de tour impossible",
+};
+
+const formatJson = (value: unknown): string =>
+  JSON.stringify(value, null, 2) ?? "undefined";
+
+function downloadTrace(recorder: RuleTraceRecorder): void {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(recorder.toJSON(), null, 2)], {
+      type: "application/json",
+    }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `rule-trace-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function ConditionNode({ condition }: { condition: ConditionTrace }) {
+  return (
+    <li>
+      <span className={condition.result ? "text-emerald-300" : "text-red-300"}>
+        {condition.result ? "✓" : "✗"}
+      </span>{" "}
+      {condition.negate && <span className="text-amber-300">NON </span>}
+      <code>{condition.op}</code>
+      {condition.args.length > 0 && (
+        <code className="text-white/50"> {JSON.stringify(condition.args)}</code>
+      )}
+      {condition.children.length > 0 && (
+        <ul className="ml-4 border-l border-white/10 pl-2">
+          {condition.children.map((child, index) => (
+            <ConditionNode key={index} condition={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/** Developer view of the rule engine trace: step through a turn, export it. */
+export default function RuleTracePanel({ recorder }: RuleTracePanelProps) {
+  const subscribe = useCallback(
+    (listener: () => void) => recorder.subscribe(listener),
+    [recorder],
+  );
+  const events = useSyncExternalStore(subscribe, () => recorder.getEvents());
+  const [open, setOpen] = useState(false);
+  const [selectedPly, setSelectedPly] = useState<number | null>(null);
+  const [frameIndex, setFrameIndex] = useState<number | null>(null);
+
+  const plies = useMemo(() => listTracedPlies(events), [events]);
+  const ply =
+    selectedPly !== null && plies.includes(selectedPly)
+      ? selectedPly
+      : plies[plies.length - 1];
+  const frames = useMemo(
+    () => (ply === undefined ? [] : buildTraceFrames(events, ply)),
+    [events, ply],
+  );
+  const index = Math.min(frameIndex ?? frames.length - 1, frames.length - 1);
+  const frame = frames[index];
+  const plyPosition = ply === undefined ? -1 : plies.indexOf(ply);
+
+  const selectPly = (nextPly: number) => {
+    setSelectedPly(nextPly);
+    setFrameIndex(0);
+  };
+
+  return (
+    <section className="rounded-2xl border border-amber-400/30 bg-slate-950/70 p-4 text-white shadow-xl">
+      <div className="flex items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={() => setOpen((value) => !value)}
+          className="flex items-center gap-2 font-semibold"
+          aria-expanded={open}
+        >
+          <Bug className="h-4 w-4 text-amber-300" />
+          Débogueur de règles
+        </button>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{events.length}</Badge>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            disabled={events.length === 0}
+            onClick={() => downloadTrace(recorder)}
+            aria-label="Exporter la trace en JSON"
+            title="Exporter la trace en JSON"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            disabled={events.length === 0}
+            onClick={() => {
+              recorder.clear();
+              setSelectedPly(null);
+              setFrameIndex(null);
+            }}
+            aria-label="Effacer la trace"
+            title="Effacer la trace"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {open &&
+        (!frame || ply === undefined ? (
+          <p className="mt-3 text-xs text-white/55">
+            Aucun événement tracé pour le moment.
+          </p>
+        ) : (
+          <div className="mt-3 space-y-3 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={plyPosition <= 0}
+                onClick={() => selectPly(plies[plyPosition - 1])}
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Demi-coup
+              </Button>
+              <span className="text-white/70">Demi-coup {ply}</span>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={plyPosition >= plies.length - 1}
+                onClick={() => selectPly(plies[plyPosition + 1])}
+              >
+                Demi-coup
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                disabled={index <= 0}
+                onClick={() => setFrameIndex(index - 1)}
+                aria-label="Étape précédente"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-white/70">
+                Étape {index + 1} / {frames.length}
+              </span>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                disabled={index >= frames.length - 1}
+                onClick={() => setFrameIndex(index + 1)}
+                aria-label="Étape suivante"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-1 rounded-lg border border-white/10 p-3">
+              <p>
+                <code>{frame.event.event}</code>
+                {frame.event.result && (
+                  <span
+                    className={
+                      frame.event.result.ok
+                        ? "text-emerald-300"
+                        : "text-red-300"
+                    }
+                  >
+                    {" "}
+                    ·{" "}
+                    {frame.event.result.ok
+                      ? "accepté"
+                      : frame.event.result.reason}
+                  </span>
+                )}
+              </p>
+              {frame.rule ? (
+                <>
+                  <p className="flex flex-wrap items-center gap-2">
+                    <code>{frame.rule.ruleId}</code>
+                    <Badge variant="outline">
+                      {OUTCOME_LABELS[frame.rule.outcome]}
+                    </Badge>
+                    <span className="text-white/55">
+                      Budget {frame.rule.budget.consumed}/
+                      {frame.rule.budget.limit}
+                    </span>
+                  </p>
+                  {frame.rule.rollback && !frame.step && (
+                    <p className="text-red-200">
+                      {ROLLBACK_LABELS[frame.rule.rollback.reason]}
+                      {frame.rule.rollback.message &&
+                        ` · ${frame.rule.rollback.message}`}
+                      {frame.rule.rollback.restore === "failed" &&
+                        " · restauration échouée"}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-white/55">Aucune règle concernée.</p>
+              )}
+            </div>
+
+            {frame.step && (
+              <div className="space-y-2 rounded-lg border border-white/10 p-3">
+                <p>
+                  Bloc <code>{frame.step.stepId}</code> · déclencheur{" "}
+                  <code>{frame.step.when}</code>
+                </p>
+                {frame.step.conditions.length > 0 ? (
+                  <ul>
+                    {frame.step.conditions.map((condition, conditionIndex) => (
+                      <ConditionNode
+                        key={conditionIndex}
+                        condition={condition}
+                      />
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-white/55">Sans condition.</p>
+                )}
+                {frame.step.effects.map((effect, effectIndex) => (
+                  <div key={effectIndex}>
+                    <p>
+                      <span
+                        className={
+                          effect.succeeded ? "text-emerald-300" : "text-red-300"
+                        }
+                      >
+                        {effect.succeeded ? "✓" : "✗"}
+                      </span>{" "}
+                      <code>{effect.action}</code>
+                      <span className="text-white/55">
+                        {" "}
+                        · {effect.budgetConsumed} u.
+                      </span>
+                    </p>
+                    {effect.params !== undefined && (
+                      <pre className="max-h-32 overflow-auto text-white/60">
+                        {formatJson(effect.params)}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <details className="rounded-lg border border-white/10 p-3">
+              <summary className="cursor-pointer">
+                StateStore · {Object.keys(frame.snapshot.state).length} espaces
+              </summary>
+              {Object.entries(frame.snapshot.state).map(
+                ([namespace, value]) => (
+                  <div key={namespace} className="mt-2">
+                    <code className="text-cyan-200">{namespace}</code>
+                    <pre className="max-h-40 overflow-auto text-white/60">
+                      {formatJson(value)}
+                    </pre>
+                  </div>
+                ),
+              )}
+            </details>
+
+            <details className="rounded-lg border border-white/10 p-3">
+              <summary className="cursor-pointer">
+                Recharges · {frame.snapshot.cooldowns.length}
+              </summary>
+              <ul className="mt-2 space-y-1">
+                {frame.snapshot.cooldowns.map((entry) => (
+                  <li key={`${entry.pieceId}|${entry.actionId}`}>
+                    <code>{entry.pieceId}</code> · <code>{entry.actionId}</code>{" "}
+                    · {entry.turns} tour(s)
+                  </li>
+                ))}
+              </ul>
+            </details>
+          </div>
+        ))}
+    </section>
+  );
+}
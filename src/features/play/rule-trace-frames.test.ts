@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { RuleEvaluationTrace, RuleEventTrace } from "@/engine/trace";
+import { buildTraceFrames, listTracedPlies } from "./rule-trace-frames";
+
+const emptySnapshot = { state: {}, cooldowns: [] };
+
+const step = (stepId: string) => ({
+  stepId,
+  when: "lifecycle.onMoveCommitted",
+  trigger: "event" as const,
+  priority: 0,
+  onFail: "skip" as const,
+  conditions: [],
+  passed: true,
+  effects: [],
+  after: { state: { [stepId]: true }, cooldowns: [] },
+});
+
+const ruleTrace = (
+  ruleId: string,
+  overrides: Partial<RuleEvaluationTrace> = {},
+): RuleEvaluationTrace => ({
+  ruleId,
+  outcome: "committed",
+  steps: [],
+  budget: { consumed: 0, limit: 128, maxDepth: 8 },
+  rollback: null,
+  after: emptySnapshot,
+  ...overrides,
+});
+
+const eventTrace = (
+  id: number,
+  ply: number,
+  rules: RuleEvaluationTrace[],
+): RuleEventTrace => ({
+  id,
+  event: "lifecycle.onMoveCommitted",
+  ply,
+  turnSide: "white",
+  payload: {},
+  timestamp: "2026-10-19T10:00:00.000Z",
+  before: emptySnapshot,
+  rules,
+});
+
+describe("rule trace frames", () => {
+  it("lists traced plies in order", () => {
+    expect(
+      listTracedPlies([
+        eventTrace(1, 4, []),
+        eventTrace(2, 2, []),
+        eventTrace(3, 4, []),
+      ]),
+    ).toEqual([2, 4]);
+  });
+
+  it("steps through rules and closes blocked ones with the restored state", () => {
+    const restored = { state: { restored: true }, cooldowns: [] };
+    const frames = buildTraceFrames(
+      [
+        eventTrace(2, 1, [
+          ruleTrace("skipped", { outcome: "out-of-scope" }),
+          ruleTrace("blocked", {
+            outcome: "blocked",
+            steps: [step("b1")],
+            rollback: {
+              reason: "effect-failed",
+              restore: "restored",
+            },
+            after: restored,
+          }),
+        ]),
+        eventTrace(1, 1, [
+          ruleTrace("first", { steps: [step("a1"), step("a2")] }),
+        ]),
+        eventTrace(3, 2, []),
+      ],
+      1,
+    );
+
+    expect(frames.map((frame) => frame.key)).toEqual([
+      "1:0:0",
+      "1:0:1",
+      "2:0:0",
+      "2:0:end",
+    ]);
+    expect(frames[1].snapshot.state).toEqual({ a2: true });
+    expect(frames[3].step).toBeNull();
+    expect(frames[3].snapshot).toBe(restored);
+  });
+
+  it("keeps events without evaluated rules as a single frame", () => {
+    const frames = buildTraceFrames(
+      [eventTrace(1, 0, [ruleTrace("skipped", { outcome: "out-of-scope" })])],
+      0,
+    );
+    expect(frames).toHaveLength(1);
+    expect(frames[0].rule).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import type {
+  RuleEvaluationTrace,
+  RuleEventTrace,
+  RuleTraceSnapshot,
+  StepTrace,
+} from "@/engine/trace";
+
+/** One position of the step debugger: an event, a rule, optionally a step. */
+export interface RuleTraceFrame {
+  key: string;
+  event: RuleEventTrace;
+  rule: RuleEvaluationTrace | null;
+  step: StepTrace | null;
+  snapshot: RuleTraceSnapshot;
+}
+
+/** Plies that have at least one traced event, oldest first. */
+export function listTracedPlies(events: readonly RuleEventTrace[]): number[] {
+  return [...new Set(events.map((event) => event.ply))].sort(
+    (left, right) => left - right,
+  );
+}
+
+/**
+ * Flattens the events of one ply into frames. Out-of-scope rules are skipped;
+ * a blocked rule or a rule without matching step ends with a frame showing
+ * the state after rollback.
+ */
+export function buildTraceFrames(
+  events: readonly RuleEventTrace[],
+  ply: number,
+): RuleTraceFrame[] {
+  const frames: RuleTraceFrame[] = [];
+
+  for (const event of [...events]
+    .filter((candidate) => candidate.ply === ply)
+    .sort((left, right) => left.id - right.id)) {
+    const rules = event.rules.filter((rule) => rule.outcome !== "out-of-scope");
+    if (rules.length === 0) {
+      frames.push({
+        key: `${event.id}`,
+        event,
+        rule: null,
+        step: null,
+        snapshot: event.before,
+      });
+      continue;
+    }
+
+    rules.forEach((rule, ruleIndex) => {
+      rule.steps.forEach((step, stepIndex) =>
+        frames.push({
+          key: `${event.id}:${ruleIndex}:${stepIndex}`,
+          event,
+          rule,
+          step,
+          snapshot: step.after,
+        }),
+      );
+      if (rule.rollback || rule.steps.length === 0) {
+        frames.push({
+          key: `${event.id}:${ruleIndex}:end`,
+          event,
+          rule,
+          step: null,
+          snapshot: rule.after,
+        });
+      }
+    });
+  }
+
+  return frames;
+}
@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { GitCompare, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import {
+  diffRuleBlueprints,
+  type BlueprintChange,
+  type BlueprintCompatibility,
+  type RuleBlueprintV2,
+} from "@/rules-v2";
+import { upgradeRuleLobbyVersion } from "./api";
+import {
+  listRuleVersionHistory,
+  type RuleVersionHistoryEntry,
+} from "./version-api";
+
+const DRAFT = "draft";
+
+const compatibilityLabel: Record<BlueprintCompatibility, string> = {
+  identical: "Identique",
+  cosmetic: "Textes uniquement",
+  compatible: "Compatible",
+  breaking: "Incompatible",
+};
+
+const kindSymbol: Record<BlueprintChange["kind"], string> = {
+  added: "+",
+  removed: "−",
+  changed: "~",
+};
+
+const impactLabel: Record<BlueprintChange["impact"], string> = {
+  cosmetic: "texte",
+  gameplay: "jeu",
+  breaking: "rupture",
+};
+
+const preview = (value: unknown): string => {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+};
+
+const verdict = (
+  compatibility: BlueprintCompatibility,
+  baseNumber: number,
+): string => {
+  switch (compatibility) {
+    case "identical":
+    case "cosmetic":
+      return `Les lobbies ouverts sur la v${baseNumber} peuvent adopter cette version sans changer le jeu.`;
+    case "compatible":
+      return `Les lobbies ouverts sur la v${baseNumber} peuvent être mis à jour : le jeu change et l'empreinte du ruleset sera recalculée.`;
+    case "breaking":
+      return `Les lobbies ouverts sur la v${baseNumber} doivent être recréés : cette version retire une action ou change l'état de la règle.`;
+  }
+};
+
+/**
+ * Compares two versions of the author's rule, or the last published version
+ * with the compilation being reviewed, and moves open lobbies forward when
+ * the change allows it.
+ */
+export function BlueprintDiffCard({
+  blueprint,
+  publishedVersionId,
+}: {
+  blueprint: RuleBlueprintV2;
+  publishedVersionId: string | null;
+}) {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<RuleVersionHistoryEntry[]>([]);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string>(DRAFT);
+  const [upgrading, setUpgrading] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const entries = await listRuleVersionHistory(blueprint.ruleKey);
+      setHistory(entries);
+      const target = publishedVersionId ?? DRAFT;
+      setTargetId(target);
+      setBaseId(
+        entries.find((entry) => entry.versionId !== target)?.versionId ?? null,
+      );
+    } catch {
+      // The history is an aid: without it the panel still compiles and
+      // publishes.
+      setHistory([]);
+    }
+  }, [blueprint.ruleKey, publishedVersionId]);
+
+  useEffect(() => {
+    void loadHistory();
+  }, [loadHistory]);
+
+  const base = history.find((entry) => entry.versionId === baseId) ?? null;
+  const target =
+    targetId === DRAFT
+      ? null
+      : (history.find((entry) => entry.versionId === targetId) ?? null);
+  const diff = useMemo(
+    () =>
+      base
+        ? diffRuleBlueprints(base.blueprint, target?.blueprint ?? blueprint)
+        : null,
+    [base, blueprint, target],
+  );
+
+  if (!base || !diff) {
+    return null;
+  }
+
+  const upgradableLobbies =
+    target &&
+    target.versionNumber > base.versionNumber &&
+    diff.lobbyUpgradeAllowed
+      ? base.openLobbyIds
+      : [];
+
+  const upgradeLobbies = async () => {
+    if (!target) return;
+    setUpgrading(true);
+    try {
+      for (const lobbyId of upgradableLobbies) {
+        await upgradeRuleLobbyVersion({
+          lobbyId,
+          fromVersionId: base.versionId,
+          toVersionId: target.versionId,
+        });
+      }
+      toast({
+        title: "Lobbies mis à jour",
+        description: `${upgradableLobbies.length} lobby(s) utilisent maintenant la v${target.versionNumber}.`,
+      });
+    } catch (caught) {
+      toast({
+        title: "Mise à jour impossible",
+        description:
+          caught instanceof Error ? caught.message : "Erreur inconnue.",
+        variant: "destructive",
+      });
+    } finally {
+      setUpgrading(false);
+      await loadHistory();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5 text-primary" />
+              Évolution de la règle
+            </CardTitle>
+            <CardDescription>
+              {verdict(diff.compatibility, base.versionNumber)}
+            </CardDescription>
+          </div>
+          <Badge
+            variant={
+              diff.compatibility === "breaking" ? "destructive" : "secondary"
+            }
+          >
+            {compatibilityLabel[diff.compatibility]}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <select
+            aria-label="Version de départ"
+            value={base.versionId}
+            onChange={(event) => setBaseId(event.target.value)}
+            className="h-11 w-full rounded-xl border bg-background px-3 text-sm"
+          >
+            {history.map((entry) => (
+              <option key={entry.versionId} value={entry.versionId}>
+                v{entry.versionNumber}
+                {entry.openLobbyIds.length > 0
+                  ? ` · ${entry.openLobbyIds.length} lobby(s) ouvert(s)`
+                  : ""}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Version comparée"
+            value={targetId}
+            onChange={(event) => setTargetId(event.target.value)}
+            className="h-11 w-full rounded-xl border bg-background px-3 text-sm"
+          >
+            {!publishedVersionId && (
+              <option value={DRAFT}>Compilation en cours</option>
+            )}
+            {history.map((entry) => (
+              <option key={entry.versionId} value={entry.versionId}>
+                v{entry.versionNumber}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {diff.changes.length === 0 ? (
+          <p className="rounded-2xl border p-4 text-sm text-muted-foreground">
+            Aucune différence entre ces deux versions.
+          </p>
+        ) : (
+          <div className="max-h-80 space-y-2 overflow-y-auto">
+            {diff.changes.map((change) => (
+              <div
+                key={`${change.kind}-${change.path}`}
+                className="flex gap-3 rounded-xl border p-3 text-sm"
+              >
+                <span className="w-4 shrink-0 font-mono font-bold">
+                  {kindSymbol[change.kind]}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="break-all font-mono text-xs">{change.path}</p>
+                  {change.kind === "changed" && (
+                    <p className="mt-1 break-all text-xs text-muted-foreground">
+                      {preview(change.before)} → {preview(change.after)}
+                    </p>
+                  )}
+                </div>
+                <Badge
+                  variant={
+                    change.impact === "breaking" ? "destructive" : "outline"
+                  }
+                >
+                  {impactLabel[change.impact]}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {upgradableLobbies.length > 0 && target && (
+          <Button
+            className="w-full gap-2"
+            disabled={upgrading}
+            onClick={() => void upgradeLobbies()}
+          >
+            {upgrading && <Loader2 className="h-4 w-4 animate-spin" />}
+            Passer {upgradableLobbies.length} lobby(s) ouvert(s) en v
+            {target.versionNumber}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
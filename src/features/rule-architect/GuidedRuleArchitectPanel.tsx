@@ -30,6 +30,7 @@ import {
   type RuleGuidanceQuestion,
   type RuleGuidanceResponse,
 } from "./guidance-api";
+import { BlueprintDiffCard } from "./BlueprintDiffCard";
 import { CompilationRecoveryActions } from "./CompilationRecoveryActions";
 import {
   clearRuleArchitectSession,
@@ -1050,6 +1051,13 @@ export default function GuidedRuleArchitectPanel() {
               </CardContent>
             </Card>
           )}
+
+          {architect.compilation?.blueprint && (
+            <BlueprintDiffCard
+              blueprint={architect.compilation.blueprint}
+              publishedVersionId={architect.publication?.versionId ?? null}
+            />
+          )}
         </div>
       </div>
 
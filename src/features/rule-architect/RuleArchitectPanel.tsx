@@ -21,7 +21,8 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import type { RuleDiagnostic } from "@/rules-v2";
+import type { MeasuredBalanceReport, RuleDiagnostic } from "@/rules-v2";
+import { BlueprintDiffCard } from "./BlueprintDiffCard";
 import { CompilationRecoveryActions } from "./CompilationRecoveryActions";
 import { useRuleArchitect } from "./useRuleArchitect";
 
@@ -72,6 +73,33 @@ const MetricBar = ({
   </div>
 );
 
+const percent = (rate: number): string => `${Math.round(rate * 100)} %`;
+
+const MeasuredBalanceSummary = ({
+  report,
+}: {
+  report: MeasuredBalanceReport;
+}) => (
+  <div className="space-y-2 rounded-xl border p-3">
+    {report.balanceScore === null ? (
+      <p className="text-sm text-muted-foreground">
+        Équilibrage non mesuré : aucune partie IA contre IA n'est allée au bout.
+      </p>
+    ) : (
+      <MetricBar label="Équilibrage mesuré" value={report.balanceScore} />
+    )}
+    <p className="text-xs text-muted-foreground">
+      {report.gamesPlayed} partie(s) IA contre IA : Blancs{" "}
+      {percent(report.whiteWinRate)}, Noirs {percent(report.blackWinRate)},
+      nulles {percent(report.drawRate)}
+      {report.unfinished > 0 ? `, ${report.unfinished} inachevée(s)` : ""}.
+      Durée moyenne {report.averagePlies} demi-coups, pouvoirs utilisés{" "}
+      {report.abilityUsage.white} fois par les Blancs et{" "}
+      {report.abilityUsage.black} fois par les Noirs.
+    </p>
+  </div>
+);
+
 export default function RuleArchitectPanel() {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -410,6 +438,12 @@ export default function RuleArchitectPanel() {
                       inverse
                     />
                   </div>
+                  {architect.compilation.metrics.measuredBalance?.status ===
+                    "measured" && (
+                    <MeasuredBalanceSummary
+                      report={architect.compilation.metrics.measuredBalance}
+                    />
+                  )}
                   <div className="grid grid-cols-3 gap-3 text-center">
                     {[
                       ["Actions", architect.compilation.metrics.actionCount],
@@ -495,6 +529,13 @@ export default function RuleArchitectPanel() {
                 </CardContent>
               </Card>
 
+              {architect.compilation.blueprint && (
+                <BlueprintDiffCard
+                  blueprint={architect.compilation.blueprint}
+                  publishedVersionId={architect.publication?.versionId ?? null}
+                />
+              )}
+
               {architect.compilation.ok && !architect.publication && (
                 <Card>
                   <CardHeader>
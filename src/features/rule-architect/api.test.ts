@@ -14,6 +14,7 @@ import {
   createRuleLobby,
   publishRuleVersion,
   RuleArchitectApiError,
+  upgradeRuleLobbyVersion,
 } from "./api";
 
 const rejectedCompilation = {
@@ -134,6 +135,46 @@ describe("Rule Architect API idempotency contract", () => {
     });
   });
 
+  it("relays a composition conflict refused by the lobby upgrade", async () => {
+    invoke.mockResolvedValue({
+      data: null,
+      error: new FunctionsHttpError(
+        new Response(
+          JSON.stringify({
+            success: false,
+            code: "RULE_COMPOSITION_CONFLICT",
+            error:
+              "Cette version ne peut pas rejoindre les autres règles du lobby : deux règles terminent le tour.",
+          }),
+          {
+            status: 409,
+            headers: {
+              "content-type": "application/json",
+            },
+          },
+        ),
+      ),
+    });
+
+    const failure = await upgradeRuleLobbyVersion({
+      lobbyId: "00000000-0000-4000-8000-000000000206",
+      fromVersionId: "00000000-0000-4000-8000-000000000207",
+      toVersionId: "00000000-0000-4000-8000-000000000208",
+    }).catch((error: unknown) => error);
+
+    expect(invoke).toHaveBeenCalledWith("upgrade-rule-lobby-v2", {
+      body: {
+        lobbyId: "00000000-0000-4000-8000-000000000206",
+        fromVersionId: "00000000-0000-4000-8000-000000000207",
+        toVersionId: "00000000-0000-4000-8000-000000000208",
+      },
+    });
+    expect(failure).toMatchObject({
+      code: "RULE_COMPOSITION_CONFLICT",
+      status: 409,
+    });
+  });
+
   it("accepts the deterministic legacy id returned by publication", async () => {
     const publication = {
       blueprintId: "00000000-0000-4000-8000-000000000204",
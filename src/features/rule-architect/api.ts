@@ -11,12 +11,19 @@ import {
   createdRuleLobbyResponseSchema,
   functionEnvelopeSchema,
   publishedRuleVersionSchema,
+  upgradedRuleLobbySchema,
 } from "./edge-response-schemas";
 
 export type CreatedRuleLobbyResponse = Omit<CreatedRuleLobby, "matchSeed"> & {
   matchSeed: number | null;
 };
 
+export interface UpgradedRuleLobby {
+  rulesetHash: string;
+  legacyRuleIds: string[];
+  compositionDiagnostics?: CreatedRuleLobby["compositionDiagnostics"];
+}
+
 export type RuleArchitectApiErrorDetails = {
   code?: string | null;
   retryable?: boolean | null;
@@ -233,3 +240,34 @@ export async function createRuleLobby(input: {
     "La création du lobby a échoué.",
   );
 }
+
+/**
+ * Repins a waiting lobby to a newer version of one of its rules. The Edge
+ * function refuses versions that conflict with the other rules of the lobby.
+ */
+export async function upgradeRuleLobbyVersion(input: {
+  lobbyId: string;
+  fromVersionId: string;
+  toVersionId: string;
+}): Promise<UpgradedRuleLobby> {
+  const supabase = requireSupabaseClient();
+  const { data, error } = await supabase.functions.invoke(
+    "upgrade-rule-lobby-v2",
+    {
+      body: input,
+    },
+  );
+
+  if (error) {
+    throw await parseFunctionInvokeError(
+      error,
+      "La mise à jour du lobby a échoué.",
+    );
+  }
+
+  return unwrap<UpgradedRuleLobby>(
+    data,
+    (value) => upgradedRuleLobbySchema.safeParse(value),
+    "La mise à jour du lobby a échoué.",
+  );
+}
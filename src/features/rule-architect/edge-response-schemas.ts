@@ -3,6 +3,7 @@ import {
   ARGUMENT_KINDS,
   CONDITION_OPS,
   EFFECT_OPS,
+  FAIRY_PIECE_ID_PATTERN,
   PIECE_TYPES,
   PROVIDERS,
   RULE_CATEGORIES,
@@ -163,6 +164,11 @@ const ruleArgumentSchema = z
   })
   .passthrough();
 
+const pieceScopeSchema = z.union([
+  z.enum(PIECE_TYPES),
+  z.string().regex(FAIRY_PIECE_ID_PATTERN),
+]);
+
 const blueprintSchema = z
   .object({
     schemaVersion: z.literal(RULE_SCHEMA_VERSION),
@@ -171,7 +177,7 @@ const blueprintSchema = z
     summary: z.string().min(1),
     category: z.enum(RULE_CATEGORIES),
     tags: z.array(z.string()),
-    affectedPieces: z.array(z.enum(PIECE_TYPES)).min(1),
+    affectedPieces: z.array(pieceScopeSchema).min(1),
     sides: z.array(z.enum(SIDES)).min(1),
     stateNamespace: identifierSchema,
     initialStateJson: z.string(),
@@ -187,7 +193,7 @@ const blueprintSchema = z
           cooldownTurns: z.number().int().nonnegative(),
           maxPerPiece: z.number().int().nonnegative(),
           requiresSelection: z.boolean(),
-          pieceTypes: z.array(z.enum(PIECE_TYPES)).min(1),
+          pieceTypes: z.array(pieceScopeSchema).min(1),
         })
         .passthrough(),
     ),
@@ -249,6 +255,42 @@ const diagnosticSchema = z
   })
   .passthrough();
 
+const rateSchema = z.number().finite().min(0).max(1);
+const countSchema = z.number().int().nonnegative();
+
+const measuredBalanceSchema = z.discriminatedUnion("status", [
+  z
+    .object({
+      status: z.literal("measured"),
+      harness: z.string().min(1),
+      seed: z.string(),
+      gamesRequested: countSchema,
+      gamesPlayed: countSchema,
+      whiteWins: countSchema,
+      blackWins: countSchema,
+      draws: countSchema,
+      unfinished: countSchema,
+      whiteWinRate: rateSchema,
+      blackWinRate: rateSchema,
+      drawRate: rateSchema,
+      averagePlies: z.number().finite().nonnegative(),
+      abilityUsage: z.object({
+        white: countSchema,
+        black: countSchema,
+        byAction: z.record(countSchema),
+      }),
+      balanceScore: z.number().finite().min(0).max(100).nullable(),
+      truncated: z.boolean(),
+    })
+    .passthrough(),
+  z
+    .object({
+      status: z.enum(["skipped", "unavailable"]),
+      reason: z.string().min(1),
+    })
+    .passthrough(),
+]);
+
 const metricsSchema = z
   .object({
     riskScore: z.number().finite(),
@@ -257,6 +299,7 @@ const metricsSchema = z
     triggerCount: z.number().int().nonnegative(),
     effectCount: z.number().int().nonnegative(),
     actionCount: z.number().int().nonnegative(),
+    measuredBalance: measuredBalanceSchema.nullish(),
   })
   .passthrough();
 
@@ -359,5 +402,14 @@ export const createdRuleLobbyResponseSchema = z
     rulesetHash: z.string().min(1),
     matchSeed: z.number().int().safe().nullable(),
     legacyRuleIds: z.array(legacyRuleIdSchema).min(1),
+    compositionDiagnostics: z.array(diagnosticSchema).optional(),
+  })
+  .passthrough();
+
+export const upgradedRuleLobbySchema = z
+  .object({
+    rulesetHash: z.string().min(1),
+    legacyRuleIds: z.array(legacyRuleIdSchema).min(1),
+    compositionDiagnostics: z.array(diagnosticSchema).optional(),
   })
   .passthrough();
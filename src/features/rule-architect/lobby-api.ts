@@ -1,5 +1,9 @@
 import { requireSupabaseClient } from "@/integrations/supabase/client";
-import type { CreatedRuleLobby } from "@/rules-v2";
+import {
+  analyzeRuleComposition,
+  type CreatedRuleLobby,
+  type RuleDiagnostic,
+} from "@/rules-v2";
 
 interface RpcError {
   message: string;
@@ -237,3 +241,31 @@ export async function getRuleLobbyRuntime(
     rules,
   };
 }
+
+/**
+ * Reruns the composition analysis on the blueprints pinned in a lobby. The
+ * lobby was only created without errors, so this surfaces the warnings the
+ * host should read before launching.
+ */
+export async function getRuleLobbyComposition(
+  lobbyId: string,
+): Promise<RuleDiagnostic[]> {
+  const { data, error } = await dynamicClient().rpc(
+    "get_rule_lobby_blueprints_v2",
+    {
+      p_lobby_id: lobbyId,
+    },
+  );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = (Array.isArray(data) ? data : [])
+    .filter((row): row is Record<string, unknown> =>
+      Boolean(row && typeof row === "object"),
+    )
+    .sort((left, right) => Number(left.ordinal) - Number(right.ordinal));
+
+  return analyzeRuleComposition(rows.map((row) => row.blueprint_json));
+}
@@ -0,0 +1,76 @@
+import { requireSupabaseClient } from "@/integrations/supabase/client";
+import { validateBlueprintShape, type RuleBlueprintV2 } from "@/rules-v2";
+
+interface RpcError {
+  message: string;
+}
+
+interface DynamicRpcClient {
+  rpc(
+    name: string,
+    args?: Record<string, unknown>,
+  ): PromiseLike<{
+    data: unknown;
+    error: RpcError | null;
+  }>;
+}
+
+export interface RuleVersionHistoryEntry {
+  versionId: string;
+  versionNumber: number;
+  legacyRuleId: string;
+  contentHash: string;
+  blueprint: RuleBlueprintV2;
+  publishedAt: string;
+  /** Waiting lobbies of the caller still pinned to this version. */
+  openLobbyIds: string[];
+}
+
+const dynamicClient = (): DynamicRpcClient =>
+  requireSupabaseClient() as unknown as DynamicRpcClient;
+
+const stringArray = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+
+/** Published versions of one of the caller's rules, newest first. */
+export async function listRuleVersionHistory(
+  ruleKey: string,
+): Promise<RuleVersionHistoryEntry[]> {
+  const { data, error } = await dynamicClient().rpc(
+    "get_rule_version_history_v2",
+    {
+      p_rule_key: ruleKey,
+    },
+  );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (Array.isArray(data) ? data : [])
+    .filter((row): row is Record<string, unknown> =>
+      Boolean(row && typeof row === "object"),
+    )
+    .flatMap((row) => {
+      // A version whose blueprint no longer parses cannot be diffed.
+      const blueprint = validateBlueprintShape(row.blueprint_json).value;
+      if (!blueprint) {
+        return [];
+      }
+
+      return [
+        {
+          versionId: String(row.version_id ?? ""),
+          versionNumber: Number(row.version_number ?? 0),
+          legacyRuleId: String(row.legacy_rule_id ?? ""),
+          contentHash: String(row.content_hash ?? ""),
+          blueprint,
+          publishedAt: String(row.published_at ?? ""),
+          openLobbyIds: stringArray(row.open_lobby_ids),
+        },
+      ];
+    })
+    .sort((left, right) => right.versionNumber - left.versionNumber);
+}
@@ -4,8 +4,8 @@ import {
   RULE_ASSET_BUCKET,
   type ManagedCinematicMotion,
 } from "./managed-asset-ids";
+import { BOARD_TILE_PATTERN } from "@/rules-v2/board-geometry";
 
-const TILE_PATTERN = /^[a-h][1-8]$/;
 const MAX_CONCURRENT = 3;
 let activeAnimations = 0;
 
@@ -174,7 +174,7 @@ export async function playProceduralCinematicDom(
   if (
     typeof document === "undefined" ||
     typeof window === "undefined" ||
-    !TILE_PATTERN.test(tile) ||
+    !BOARD_TILE_PATTERN.test(tile) ||
     activeAnimations >= MAX_CONCURRENT
   ) {
     return;
@@ -211,7 +211,7 @@ export async function playManagedCinematicDom(
   if (
     typeof document === "undefined" ||
     typeof window === "undefined" ||
-    !TILE_PATTERN.test(tile) ||
+    !BOARD_TILE_PATTERN.test(tile) ||
     activeAnimations >= MAX_CONCURRENT
   ) {
     return;
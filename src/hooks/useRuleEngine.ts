@@ -3,6 +3,7 @@ import {
   Cooldown,
   createRuleEngine,
   EventBus,
+  RuleTraceRecorder,
   StateStore,
   type RuleEngineOptions,
 } from "@/engine/bootstrap";
@@ -28,20 +29,29 @@ import {
   resolveCapturedTargetPieceId,
   type MoveCommittedPayload,
 } from "@/engine/capture-context";
+import type { RuleEngineSnapshot } from "@/lib/extendedFen";
 import type { ChessMove, GameState } from "@/types/chess";
-import { createDeterministicIdGenerator } from "@/rules-v2";
+import {
+  createDeterministicIdGenerator,
+  resolveRulesFairyPieces,
+} from "@/rules-v2";
+import {
+  BOARD_TILE_PATTERN,
+  STANDARD_BOARD_GEOMETRY,
+} from "@/rules-v2/board-geometry";
 import { useSoundEffects } from "./useSoundEffects";
 
 export interface UseRuleEngineOptions extends RuleEngineOptions {
   onBoardChange?: (board: ChessBoardSnapshot) => void;
   onRuntimeError?: (message: string) => void;
   onTurnEnd?: () => void;
+  /** Records a per-event execution trace for the rule debugger panel. */
+  trace?: boolean;
 }
 
 export type RuleActionRunResult = RuleActionExecutionResult;
 
 const ACTION_LOCK_MS = 450;
-const TILE_PATTERN = /^[a-h][1-8]$/;
 
 const safeRuntimeMessage = (error: unknown): string =>
   error instanceof Error && error.message.trim()
@@ -58,6 +68,11 @@ export const useRuleEngine = (
     typeof createRuleEngine
   > | null>(null);
   const [uiActions, setUiActions] = useState<UIActionSpec[]>([]);
+  // Read once: the recorder outlives engine rebuilds so the history survives
+  // rule edits during a match.
+  const [traceRecorder] = useState(() =>
+    options.trace ? new RuleTraceRecorder() : null,
+  );
 
   const engineRef = useRef<ReturnType<typeof createRuleEngine> | null>(null);
   const contractsRef = useRef<EngineContracts | null>(null);
@@ -71,7 +86,7 @@ export const useRuleEngine = (
   const onTurnEndRef = useRef(options.onTurnEnd);
 
   const boardAdapter = useMemo(
-    () => new ChessBoardAdapter(gameState.board),
+    () => new ChessBoardAdapter(gameState.board, gameState.geometry),
     // Adapter identity must remain stable for the whole mounted match.
     // eslint-disable-next-line react-hooks/exhaustive-deps
     [],
@@ -123,8 +138,11 @@ export const useRuleEngine = (
   }, [playSound, vfxAdapter]);
 
   useEffect(() => {
-    boardAdapter.updateBoard(gameState.board);
-  }, [boardAdapter, gameState.board]);
+    boardAdapter.updateBoard(
+      gameState.board,
+      gameState.geometry ?? STANDARD_BOARD_GEOMETRY,
+    );
+  }, [boardAdapter, gameState.board, gameState.geometry]);
 
   useEffect(() => {
     matchAdapter.setCurrentTurn(gameState.currentPlayer);
@@ -143,6 +161,7 @@ export const useRuleEngine = (
       `${String(matchSeed)}|entities`,
     );
     uiAdapter.clearActions(false);
+    boardAdapter.setFairyPieces(resolveRulesFairyPieces(rules));
 
     const contracts: EngineContracts = {
       board: boardAdapter,
@@ -176,6 +195,7 @@ export const useRuleEngine = (
       maxEffectsPerRuleEvent,
       maxNestedDepth,
     });
+    nextEngine.setTracer(traceRecorder);
     engineRef.current = nextEngine;
     setEngine(nextEngine);
     uiAdapter.flush();
@@ -193,6 +213,7 @@ export const useRuleEngine = (
     maxEffectsPerRuleEvent,
     maxNestedDepth,
     rulesSignature,
+    traceRecorder,
     uiAdapter,
     vfxAdapter,
   ]);
@@ -235,13 +256,19 @@ export const useRuleEngine = (
           latestMoveRef.current.move,
           latestMoveRef.current.moveNumber,
           payload,
+          boardAdapter.getGeometry(),
         );
       return triggerLifecycleEvent("lifecycle.onMoveCommitted", {
         ...payload,
         targetPieceId,
+        capturedType:
+          payload.capturedType ??
+          (targetPieceId
+            ? latestMoveRef.current.move?.captured?.type
+            : undefined),
       });
     },
-    [matchAdapter, triggerLifecycleEvent],
+    [boardAdapter, matchAdapter, triggerLifecycleEvent],
   );
 
   const onUndo = useCallback(
@@ -264,6 +291,29 @@ export const useRuleEngine = (
     [triggerLifecycleEvent],
   );
 
+  const onTurnEnd = useCallback(
+    (side: Side) => triggerLifecycleEvent("lifecycle.onTurnEnd", { side }),
+    [triggerLifecycleEvent],
+  );
+
+  const onCheck = useCallback(
+    (kingId: PieceID) =>
+      triggerLifecycleEvent("lifecycle.onCheck", { pieceId: kingId }),
+    [triggerLifecycleEvent],
+  );
+
+  const onAttacked = useCallback(
+    (pieceId: PieceID, attackerId: PieceID) =>
+      triggerLifecycleEvent("lifecycle.onAttacked", { pieceId, attackerId }),
+    [triggerLifecycleEvent],
+  );
+
+  const onGameEnd = useCallback(
+    (reason: string, winner?: Side) =>
+      triggerLifecycleEvent("lifecycle.onGameEnd", { reason, winner }),
+    [triggerLifecycleEvent],
+  );
+
   const runUIAction = useCallback(
     (
       actionId: string,
@@ -289,7 +339,7 @@ export const useRuleEngine = (
 
       const targetMode = action.targeting?.mode ?? "none";
       if (targetMode !== "none") {
-        if (!targetTile || !TILE_PATTERN.test(String(targetTile))) {
+        if (!targetTile || !BOARD_TILE_PATTERN.test(String(targetTile))) {
           return { ok: false, reason: "Choisis une case valide." };
         }
         if (!boardAdapter.withinBoard(targetTile)) {
@@ -331,26 +381,37 @@ export const useRuleEngine = (
     [uiAdapter],
   );
 
-  const serializeState = useCallback(() => {
+  const serializeState = useCallback((): RuleEngineSnapshot | null => {
     const contracts = contractsRef.current;
     if (!contracts) return null;
     return {
       rules: contracts.state.serialize(),
       cooldowns: contracts.cooldown.serialize(),
+      decals: boardAdapter.getDecals(),
     };
-  }, []);
+  }, [boardAdapter]);
 
-  const deserializeState = useCallback((state: unknown) => {
-    const contracts = contractsRef.current;
-    if (!contracts || !state || typeof state !== "object") return;
-    const payload = state as { rules?: unknown; cooldowns?: unknown };
-    if (typeof payload.rules === "string") {
-      contracts.state.deserialize(payload.rules);
-    }
-    if (typeof payload.cooldowns === "string") {
-      contracts.cooldown.deserialize(payload.cooldowns);
-    }
-  }, []);
+  const deserializeState = useCallback(
+    (state: unknown) => {
+      const contracts = contractsRef.current;
+      if (!contracts || !state || typeof state !== "object") return;
+      const payload = state as {
+        rules?: unknown;
+        cooldowns?: unknown;
+        decals?: unknown;
+      };
+      if (typeof payload.rules === "string") {
+        contracts.state.deserialize(payload.rules);
+      }
+      if (typeof payload.cooldowns === "string") {
+        contracts.cooldown.deserialize(payload.cooldowns);
+      }
+      if (Array.isArray(payload.decals)) {
+        boardAdapter.replaceDecals(payload.decals);
+      }
+    },
+    [boardAdapter],
+  );
 
   return {
     engine,
@@ -359,6 +420,10 @@ export const useRuleEngine = (
     onUndo,
     onPromote,
     onTurnStart,
+    onTurnEnd,
+    onCheck,
+    onAttacked,
+    onGameEnd,
     runUIAction,
     getUIActions,
     uiActions,
@@ -367,5 +432,6 @@ export const useRuleEngine = (
     boardAdapter,
     uiAdapter,
     vfxAdapter,
+    traceRecorder,
   };
 };
@@ -1,6 +1,10 @@
 import { describe, expect, it } from "vitest";
 import { ChessEngine } from "@/lib/chessEngine";
-import { chooseAiMove } from "@/lib/aiOpponent";
+import { chooseAiMove, chooseAiTurn } from "@/lib/aiOpponent";
+import { requestAiMove } from "@/lib/aiOpponentClient";
+import { simulateRuleActions } from "@/lib/aiRuleActions";
+import { parseExtendedPosition } from "@/lib/extendedFen";
+import type { RuleJSON } from "@/engine/types";
 import { applyMoveToGameState } from "@/lib/gameMoveState";
 import type { GameState } from "@/types/chess";
 
@@ -102,4 +106,117 @@ describe("deterministic AI opponent", () => {
     } as GameState;
     expect(chooseAiMove(state, 3, 1)).toBeNull();
   });
+
+  it("finds a mate in one", () => {
+    const { state } = parseExtendedPosition(
+      "6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1",
+    );
+    const choice = chooseAiMove(state, 3, 1);
+    expect(choice?.piece.type).toBe("rook");
+    expect(choice?.to).toEqual({ row: 0, col: 0 });
+  });
+
+  it("does not trade its queen for a defended pawn", () => {
+    const { state } = parseExtendedPosition(
+      "4k3/8/8/3q4/4P3/3P4/8/4K3 b - - 0 1",
+    );
+    const choice = chooseAiMove(state, 1, 1);
+    expect(choice).not.toBeNull();
+    expect(
+      choice!.piece.type === "queen" &&
+        choice!.to.row === 4 &&
+        choice!.to.col === 4,
+    ).toBe(false);
+  });
+
+  it("keeps honouring rule constraints on candidate moves", () => {
+    const { state } = parseExtendedPosition("4k3/8/8/3q4/8/8/8/3QK3 w - - 0 1");
+    state.board[7][3]!.specialState = { frozen: { active: true, duration: 2 } };
+    const choice = chooseAiMove(state, 2, 1);
+    expect(choice).not.toBeNull();
+    expect(choice?.piece.type).toBe("king");
+  });
+
+  it("stops deepening once the time budget is spent", () => {
+    let clock = 0;
+    const choice = chooseAiMove(createState("black"), 6, 1, {
+      timeBudgetMs: 5,
+      now: () => (clock += 1),
+    });
+    expect(choice?.piece.color).toBe("black");
+  });
+
+  it("searches on the main thread when workers are unavailable", async () => {
+    const choice = await requestAiMove(createState("black"), 1, 1);
+    expect(choice && "piece" in choice ? choice.piece.color : null).toBe(
+      "black",
+    );
+  });
+});
+
+const sniperRule: RuleJSON = {
+  meta: { ruleId: "sniper@v1", ruleName: "Cavalier tireur", isActive: true },
+  scope: { affectedPieces: ["knight"], sides: ["black"] },
+  ui: {
+    actions: [
+      {
+        id: "sniper.shot",
+        label: "Tir du cavalier",
+        availability: { requiresSelection: true, pieceTypes: ["knight"] },
+        targeting: {
+          mode: "piece",
+          validTilesProvider: "provider.enemyPieces",
+        },
+        consumesTurn: true,
+      },
+    ],
+  },
+  logic: {
+    effects: [
+      {
+        id: "sniper-shot",
+        when: "ui.sniper.shot",
+        do: [
+          { action: "piece.capture", params: { pieceId: "$targetPieceId" } },
+        ],
+      },
+    ],
+  },
+};
+
+describe("AI opponent with Rule Architect actions", () => {
+  it("simulates actions without touching the live position", () => {
+    const state = createState("black");
+    const before = JSON.stringify(state.board);
+
+    const simulated = simulateRuleActions(state, { rules: [sniperRule] });
+
+    expect(JSON.stringify(state.board)).toBe(before);
+    // 2 knights x 15 capturable pieces: shooting the king is left out.
+    expect(simulated).toHaveLength(30);
+    expect(
+      simulated.every(({ state: next }) => next.currentPlayer === "white"),
+    ).toBe(true);
+  });
+
+  it("prefers an action that wins the queen over any board move", () => {
+    const choice = chooseAiTurn(createState("black"), 1, 1, {
+      ruleContext: { rules: [sniperRule] },
+    });
+
+    expect(choice && "action" in choice ? choice.action : null).toMatchObject({
+      actionId: "sniper.shot",
+      targetTile: "d1",
+    });
+  });
+
+  it("ignores actions the side to move is not allowed to use", () => {
+    const choice = chooseAiTurn(createState("white"), 1, 1, {
+      ruleContext: { rules: [sniperRule] },
+    });
+
+    expect(choice && "piece" in choice ? choice.piece.color : null).toBe(
+      "white",
+    );
+  });
 });
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { ChessEngine } from "@/lib/chessEngine";
+import { applyMoveToGameState } from "@/lib/gameMoveState";
+import {
+  BOARD_PRESETS,
+  boardGeometryForGame,
+  type BoardLayout,
+} from "@/rules-v2/board-geometry";
+import { FAIRY_PIECE_PRESETS } from "@/rules-v2/fairy-pieces";
+import type { GameState, Position } from "@/types/chess";
+
+const createState = (layout: BoardLayout): GameState => {
+  const board = ChessEngine.initializeBoard(layout);
+  return {
+    board,
+    geometry: boardGeometryForGame(layout),
+    currentPlayer: "white",
+    turnNumber: 1,
+    movesThisTurn: 0,
+    selectedPiece: null,
+    validMoves: [],
+    gameStatus: "active",
+    capturedPieces: [],
+    moveHistory: [],
+    activeRules: [],
+    extraMoves: 0,
+    pendingExtraMoves: { white: 0, black: 0 },
+    freezeEffects: [],
+    freezeUsage: { white: false, black: false },
+    positionHistory: { [ChessEngine.getBoardSignature(board)]: 1 },
+    pendingTransformations: { white: false, black: false },
+    specialAttacks: [],
+    visualEffects: [],
+    lastMoveByColor: { white: null, black: null },
+  } as GameState;
+};
+
+const clear = (state: GameState, squares: Position[]) => {
+  for (const { row, col } of squares) state.board[row][col] = null;
+};
+
+const movesOf = (state: GameState, position: Position) => {
+  const piece = state.board[position.row][position.col]!;
+  return ChessEngine.getValidMoves(state.board, piece, state);
+};
+
+describe("ChessEngine board geometry", () => {
+  it("castles towards the corner rooks of a 10×8 board", () => {
+    const state = createState(BOARD_PRESETS.capablanca.layout);
+    clear(state, [
+      { row: 7, col: 6 },
+      { row: 7, col: 7 },
+      { row: 7, col: 8 },
+    ]);
+    expect(state.board[7][5]?.type).toBe("king");
+    expect(movesOf(state, { row: 7, col: 5 })).toContainEqual({
+      row: 7,
+      col: 7,
+    });
+
+    const result = applyMoveToGameState(state, state.board[7][5]!, {
+      row: 7,
+      col: 7,
+    });
+    expect(result?.state.board[7][7]?.type).toBe("king");
+    expect(result?.state.board[7][6]?.type).toBe("rook");
+    expect(result?.state.board[7][9]).toBeNull();
+  });
+
+  it("drops the pawn double step and castling on a 6×6 board", () => {
+    const state = createState(BOARD_PRESETS["los-alamos"].layout);
+    expect(state.board).toHaveLength(6);
+    expect(state.board[0]).toHaveLength(6);
+    expect(movesOf(state, { row: 4, col: 2 })).toEqual([{ row: 3, col: 2 }]);
+
+    clear(state, [
+      { row: 5, col: 4 },
+      { row: 5, col: 2 },
+      { row: 5, col: 1 },
+    ]);
+    expect(
+      movesOf(state, { row: 5, col: 3 }).filter(
+        (move) => Math.abs(move.col - 3) === 2,
+      ),
+    ).toEqual([]);
+  });
+
+  it("stops sliders in front of holes", () => {
+    const state = createState(BOARD_PRESETS["holed-centre"].layout);
+    clear(state, [{ row: 6, col: 3 }]);
+
+    const queenMoves = movesOf(state, { row: 7, col: 3 });
+    expect(queenMoves).toContainEqual({ row: 5, col: 3 });
+    expect(queenMoves).not.toContainEqual({ row: 4, col: 3 });
+    expect(queenMoves).not.toContainEqual({ row: 3, col: 3 });
+    expect(
+      ChessEngine.isValidPosition(
+        { row: 4, col: 3 },
+        BOARD_PRESETS["holed-centre"].layout,
+      ),
+    ).toBe(false);
+  });
+
+  it("lets pieces cross from the last file to the a-file on a cylinder", () => {
+    const state = createState(BOARD_PRESETS.cylinder.layout);
+    clear(state, [{ row: 6, col: 7 }]);
+
+    expect(movesOf(state, { row: 7, col: 1 })).toContainEqual({
+      row: 6,
+      col: 7,
+    });
+    expect(
+      movesOf(createState(BOARD_PRESETS.standard.layout), {
+        row: 7,
+        col: 1,
+      }),
+    ).not.toContainEqual({ row: 6, col: 7 });
+  });
+});
+
+describe("ChessEngine fairy pieces", () => {
+  it("sets up and moves the Capablanca archbishop and chancellor", () => {
+    const state = createState(BOARD_PRESETS.capablanca.layout);
+    expect(state.board[7][2]).toMatchObject({
+      type: "fairy",
+      fairy: FAIRY_PIECE_PRESETS.archbishop,
+    });
+    expect(state.board[0][7]?.fairy?.id).toBe("chancellor");
+
+    expect(movesOf(state, { row: 7, col: 2 })).toEqual(
+      expect.arrayContaining([
+        { row: 5, col: 1 },
+        { row: 5, col: 3 },
+      ]),
+    );
+    clear(state, [{ row: 6, col: 7 }]);
+    expect(movesOf(state, { row: 7, col: 7 })).toHaveLength(8);
+  });
+
+  it("lets a fairy piece give check unless it only moves that way", () => {
+    const state = createState(BOARD_PRESETS.standard.layout);
+    state.board = ChessEngine.createEmptyBoard();
+    state.board[7][4] = {
+      type: "king",
+      color: "white",
+      position: { row: 7, col: 4 },
+    };
+    state.board[0][0] = {
+      type: "king",
+      color: "black",
+      position: { row: 0, col: 0 },
+    };
+    state.board[4][5] = {
+      type: "fairy",
+      color: "black",
+      position: { row: 4, col: 5 },
+      fairy: FAIRY_PIECE_PRESETS.camel,
+    };
+    expect(ChessEngine.isInCheck(state.board, "white", state)).toBe(true);
+
+    state.board[4][5]!.fairy = { ...FAIRY_PIECE_PRESETS.camel, betza: "mC" };
+    expect(ChessEngine.isInCheck(state.board, "white", state)).toBe(false);
+  });
+});
@@ -1,11 +1,8 @@
 import { ChessEngine } from "@/lib/chessEngine";
-import { applyMoveToGameState } from "@/lib/gameMoveState";
-import type {
-  ChessPiece,
-  GameState,
-  PieceColor,
-  Position,
-} from "@/types/chess";
+import { simulateRuleActions, type AiRuleAction, type AiRuleContext, type SimulatedRuleAction } from "@/lib/aiRuleActions";
+import { applyMoveToGameState, canPlayFromState } from "@/lib/gameMoveState";
+import type { ChessPiece, GameState, PieceColor, PieceType, Position } from "@/types/chess";
+import { MAX_BOARD_SIZE, STANDARD_BOARD_GEOMETRY, type BoardGeometry } from "@/rules-v2/board-geometry";
 
 export interface AiMoveChoice {
   piece: ChessPiece;
@@ -13,25 +10,253 @@ export interface AiMoveChoice {
   score: number;
 }
 
-interface SearchBudget {
-  visited: number;
-  max: number;
+/** A Rule Architect UI action the AI wants to trigger instead of moving. */
+export interface AiActionChoice {
+  action: AiRuleAction;
+  score: number;
+}
+
+export type AiTurnChoice = AiMoveChoice | AiActionChoice;
+
+export interface AiSearchOptions {
+  /** Wall-clock budget for iterative deepening; the deepest completed iteration wins. */
+  timeBudgetMs?: number;
+  /** Clock override, for deterministic tests. */
+  now?: () => number;
+}
+
+export interface AiTurnOptions extends AiSearchOptions {
+  /** Live rules and engine storage; without it only board moves are considered. */
+  ruleContext?: AiRuleContext | null;
+}
+
+export const MAX_AI_SEARCH_DEPTH = 6;
+export const DEFAULT_AI_TIME_BUDGET_MS = 1_500;
+
+interface Candidate {
+  piece: ChessPiece;
+  to: Position;
+  key: string;
+  /** Value of the captured piece, 0 for a quiet move. */
+  victim: number;
+}
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  bound: "exact" | "lower" | "upper";
+  best?: string;
+}
+
+interface SearchContext {
+  deadline: number;
+  now: () => number;
+  nodes: number;
+  aborted: boolean;
+  table: Map<number, TableEntry>;
+  killers: Array<string[]>;
+  history: Map<string, number>;
+  geometry: BoardGeometry;
 }
 
-const PIECE_VALUE: Record<ChessPiece["type"], number> = {
+const PIECE_VALUE: Record<PieceType, number> = {
   pawn: 100,
   knight: 320,
   bishop: 330,
   rook: 500,
   queen: 900,
   king: 20_000,
+  /** Fallback for a fairy piece that lost its definition. */
+  fairy: 300,
 };
 
+/** Centipawns; a fairy piece is worth the value its rule declares in pawns. */
+const pieceValue = (piece: Pick<ChessPiece, "type" | "fairy">): number =>
+  piece.fairy ? piece.fairy.value * 100 : PIECE_VALUE[piece.type];
+
+export const MATE_SCORE = 1_000_000;
+export const MATE_THRESHOLD = MATE_SCORE - 1_000;
+const QUIESCENCE_DEPTH = 4;
+const TABLE_LIMIT = 200_000;
+const CLOCK_CHECK_INTERVAL = 64;
+/** Simulated actions kept at the root, best static outcome first. */
+const MAX_ROOT_RULE_ACTIONS = 8;
+const PIECE_TYPES: readonly PieceType[] = ["pawn", "knight", "bishop", "rook", "queen", "king"];
+
 const samePosition = (left: Position, right: Position): boolean =>
   left.row === right.row && left.col === right.col;
 
-const enumerateLegalMoves = (state: GameState): AiMoveChoice[] => {
-  const result: AiMoveChoice[] = [];
+const moveKey = (from: Position, to: Position): string =>
+  `${from.row}.${from.col}.${to.row}.${to.col}`;
+
+const geometryOf = (state: GameState): BoardGeometry => state.geometry ?? STANDARD_BOARD_GEOMETRY;
+
+const centerDistance = (position: Position, geometry: BoardGeometry): number =>
+  Math.abs((geometry.ranks - 1) / 2 - position.row) + Math.abs((geometry.files - 1) / 2 - position.col);
+
+/* -------------------------------------------------------------------------- */
+/*                                  Zobrist                                   */
+/* -------------------------------------------------------------------------- */
+
+const createKeyStream = (seed: number) => {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let mixed = Math.imul(value ^ (value >>> 15), value | 1);
+    mixed ^= mixed + Math.imul(mixed ^ (mixed >>> 7), mixed | 61);
+    return (mixed ^ (mixed >>> 14)) >>> 0;
+  };
+};
+
+const nextKey = createKeyStream(0x5eed_c4e5);
+const pairKey = (): [number, number] => [nextKey(), nextKey()];
+/** Squares are indexed on the largest board so one key set fits every geometry. */
+const SQUARE_COUNT = MAX_BOARD_SIZE * MAX_BOARD_SIZE;
+/** [color][type][square], then per-square piece flags and the side to move. */
+const PIECE_KEYS = [0, 1].map(() => PIECE_TYPES.map(() => Array.from({ length: SQUARE_COUNT }, pairKey)));
+const MOVED_KEYS = Array.from({ length: SQUARE_COUNT }, pairKey);
+const HIDDEN_KEYS = Array.from({ length: SQUARE_COUNT }, pairKey);
+const SIDE_KEY = pairKey();
+const EN_PASSANT_KEYS = Array.from({ length: MAX_BOARD_SIZE }, pairKey);
+/** [color][glyph A-Z][square]; drawn last so the orthodox keys never change. */
+const FAIRY_KEYS = [0, 1].map(() =>
+  Array.from({ length: 26 }, () => Array.from({ length: SQUARE_COUNT }, pairKey)),
+);
+
+const hashText = (text: string, seed: number): number => {
+  let hash = seed >>> 0;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Zobrist key of everything legality may depend on. Rule state the board
+ * cannot express (freezes, statuses, pending bonuses) is folded in as a hash,
+ * so two positions differing only there never share a table entry.
+ */
+const positionKey = (state: GameState): number => {
+  let high = 0;
+  let low = 0;
+  const variantParts: unknown[] = [];
+  state.board.forEach((row, rowIndex) => {
+    row.forEach((piece, colIndex) => {
+      if (!piece) return;
+      const square = rowIndex * MAX_BOARD_SIZE + colIndex;
+      const colorIndex = piece.color === "white" ? 0 : 1;
+      const [pieceHigh, pieceLow] = piece.fairy
+        ? FAIRY_KEYS[colorIndex][piece.fairy.glyph.charCodeAt(0) - 65][square]
+        : PIECE_KEYS[colorIndex][PIECE_TYPES.indexOf(piece.type)][square];
+      high ^= pieceHigh;
+      low ^= pieceLow;
+      if (piece.hasMoved) {
+        high ^= MOVED_KEYS[square][0];
+        low ^= MOVED_KEYS[square][1];
+      }
+      if (piece.isHidden) {
+        high ^= HIDDEN_KEYS[square][0];
+        low ^= HIDDEN_KEYS[square][1];
+      }
+      if (piece.specialState && Object.keys(piece.specialState).length > 0) {
+        variantParts.push(square, piece.specialState);
+      }
+    });
+  });
+  if (state.currentPlayer === "black") {
+    high ^= SIDE_KEY[0];
+    low ^= SIDE_KEY[1];
+  }
+  const lastMove = state.moveHistory[state.moveHistory.length - 1];
+  if (lastMove?.piece.type === "pawn" && Math.abs(lastMove.from.row - lastMove.to.row) === 2) {
+    high ^= EN_PASSANT_KEYS[lastMove.to.col][0];
+    low ^= EN_PASSANT_KEYS[lastMove.to.col][1];
+  }
+  if (
+    variantParts.length > 0 ||
+    state.freezeEffects.length > 0 ||
+    state.specialAttacks.length > 0 ||
+    state.movesThisTurn > 0 ||
+    state.pendingExtraMoves.white > 0 ||
+    state.pendingExtraMoves.black > 0
+  ) {
+    const text = JSON.stringify([
+      variantParts,
+      state.freezeEffects,
+      state.specialAttacks,
+      state.movesThisTurn,
+      state.pendingExtraMoves,
+    ]);
+    high ^= hashText(text, 2166136261);
+    low ^= hashText(text, 0x811c9dc5 ^ 0x9e3779b9);
+  }
+  // 21 + 32 bits stay an exact integer key.
+  return (high & 0x1fffff) * 0x1_0000_0000 + (low >>> 0);
+};
+
+/* -------------------------------------------------------------------------- */
+/*                          Evaluation and ordering                           */
+/* -------------------------------------------------------------------------- */
+
+const hasQueens = (state: GameState): boolean =>
+  state.board.some((row) => row.some((piece) => piece?.type === "queen"));
+
+const positionalBonus = (
+  piece: ChessPiece,
+  row: number,
+  col: number,
+  middlegame: boolean,
+  geometry: BoardGeometry,
+) => {
+  const center = Math.round(12 - centerDistance({ row, col }, geometry) * 2);
+  // Ranks gained from the pawn row: 0 at the start, ranks - 3 on the seventh rank.
+  const advance = piece.color === "white" ? geometry.ranks - 2 - row : row - 1;
+  switch (piece.type) {
+    case "pawn":
+      return advance * 8 + (col >= 2 && col <= geometry.files - 3 ? advance * 4 : 0);
+    case "knight":
+      return center * 2;
+    case "bishop":
+      return center;
+    case "rook":
+      return advance === geometry.ranks - 3 ? 15 : 0;
+    case "queen":
+      return Math.round(center / 2);
+    case "fairy":
+      return center;
+    case "king":
+      // Sheltered on the back rank while queens remain, centralised afterwards.
+      return middlegame ? (advance <= -1 ? 10 : -advance * 15) : center;
+    default:
+      return 0;
+  }
+};
+
+/** Static score from the side to move's point of view. */
+const evaluate = (state: GameState): number => {
+  const middlegame = hasQueens(state);
+  const geometry = geometryOf(state);
+  let score = 0;
+  state.board.forEach((row, rowIndex) => {
+    row.forEach((piece, colIndex) => {
+      if (!piece) return;
+      const value = pieceValue(piece) + positionalBonus(piece, rowIndex, colIndex, middlegame, geometry);
+      score += piece.color === state.currentPlayer ? value : -value;
+    });
+  });
+  if (state.gameStatus === "check") score -= 45;
+  return score;
+};
+
+const terminalScore = (state: GameState, ply: number): number | null => {
+  if (state.gameStatus === "checkmate") return -MATE_SCORE + ply;
+  if (state.gameStatus === "stalemate" || state.gameStatus === "draw") return 0;
+  return null;
+};
+
+const generateMoves = (state: GameState): Candidate[] => {
+  const result: Candidate[] = [];
   for (const row of state.board) {
     for (const piece of row) {
       if (!piece || piece.color !== state.currentPlayer) continue;
@@ -40,152 +265,320 @@ const enumerateLegalMoves = (state: GameState): AiMoveChoice[] => {
         selectedPiece: piece,
       });
       for (const to of moves) {
-        const captured = ChessEngine.getPieceAt(state.board, to);
-        const centerDistance = Math.abs(3.5 - to.row) + Math.abs(3.5 - to.col);
-        const orderingScore =
-          (captured ? PIECE_VALUE[captured.type] * 10 : 0) - centerDistance;
-        result.push({ piece, to, score: orderingScore });
+        const target = ChessEngine.getPieceAt(state.board, to);
+        const enPassant =
+          !target && piece.type === "pawn" && to.col !== piece.position.col;
+        result.push({
+          piece,
+          to,
+          key: moveKey(piece.position, to),
+          victim:
+            target && target.color !== piece.color
+              ? pieceValue(target)
+              : enPassant
+                ? PIECE_VALUE.pawn
+                : 0,
+        });
       }
     }
   }
-  return result.sort((left, right) => {
-    if (right.score !== left.score) return right.score - left.score;
-    const leftKey = `${left.piece.position.row}${left.piece.position.col}${left.to.row}${left.to.col}`;
-    const rightKey = `${right.piece.position.row}${right.piece.position.col}${right.to.row}${right.to.col}`;
-    return leftKey.localeCompare(rightKey);
-  });
+  return result;
 };
 
-const evaluatePosition = (state: GameState, perspective: PieceColor): number => {
-  if (state.gameStatus === "checkmate") {
-    return state.currentPlayer === perspective ? -1_000_000 : 1_000_000;
+const orderMoves = (
+  moves: Candidate[],
+  context: SearchContext,
+  ply: number,
+  tableMove?: string,
+): Candidate[] => {
+  const killers = context.killers[ply] ?? [];
+  const priority = (move: Candidate): number => {
+    if (move.key === tableMove) return 1e9;
+    if (move.victim > 0) return 1e8 + move.victim * 10 - pieceValue(move.piece) / 100;
+    const killerIndex = killers.indexOf(move.key);
+    if (killerIndex >= 0) return 1e7 - killerIndex;
+    return (context.history.get(move.key) ?? 0) - centerDistance(move.to, context.geometry);
+  };
+  return moves
+    .map((move) => ({ move, priority: priority(move) }))
+    .sort(
+      (left, right) =>
+        right.priority - left.priority || left.move.key.localeCompare(right.move.key),
+    )
+    .map(({ move }) => move);
+};
+
+const rememberQuietCutoff = (context: SearchContext, move: Candidate, depth: number, ply: number) => {
+  const killers = (context.killers[ply] ??= []);
+  if (killers[0] !== move.key) {
+    killers.unshift(move.key);
+    killers.length = Math.min(killers.length, 2);
   }
-  if (state.gameStatus === "stalemate") return 0;
+  context.history.set(move.key, (context.history.get(move.key) ?? 0) + depth * depth);
+};
 
-  let score = 0;
-  for (const row of state.board) {
-    for (const piece of row) {
-      if (!piece) continue;
-      const direction = piece.color === perspective ? 1 : -1;
-      const centerBonus = Math.round(
-        12 - (Math.abs(3.5 - piece.position.row) + Math.abs(3.5 - piece.position.col)) * 2,
-      );
-      score += direction * (PIECE_VALUE[piece.type] + centerBonus);
-    }
+/* -------------------------------------------------------------------------- */
+/*                                   Search                                   */
+/* -------------------------------------------------------------------------- */
+
+const tick = (context: SearchContext): boolean => {
+  context.nodes += 1;
+  if (context.nodes % CLOCK_CHECK_INTERVAL === 0 && context.now() >= context.deadline) {
+    context.aborted = true;
+  }
+  return context.aborted;
+};
+
+// Mate scores are stored relative to the node so a transposition reached at
+// another ply still reports the right distance to mate.
+const toTableScore = (score: number, ply: number): number =>
+  score >= MATE_THRESHOLD ? score + ply : score <= -MATE_THRESHOLD ? score - ply : score;
+
+const fromTableScore = (score: number, ply: number): number =>
+  score >= MATE_THRESHOLD ? score - ply : score <= -MATE_THRESHOLD ? score + ply : score;
+
+const quiesce = (
+  state: GameState,
+  alpha: number,
+  beta: number,
+  ply: number,
+  depthLeft: number,
+  context: SearchContext,
+): number => {
+  if (tick(context)) return 0;
+  const terminal = terminalScore(state, ply);
+  if (terminal !== null) return terminal;
+
+  const inCheck = state.gameStatus === "check";
+  const standPat = evaluate(state);
+  if (!inCheck) {
+    if (standPat >= beta) return standPat;
+    alpha = Math.max(alpha, standPat);
   }
+  if (depthLeft <= 0) return standPat;
 
-  const currentMoves = enumerateLegalMoves(state).length;
-  score += (state.currentPlayer === perspective ? 1 : -1) * currentMoves * 2;
-  if (state.gameStatus === "check") {
-    score += state.currentPlayer === perspective ? -45 : 45;
+  // Out of check every evasion is searched, otherwise only captures.
+  const moves = generateMoves(state).filter((move) => inCheck || move.victim > 0);
+  for (const move of orderMoves(moves, context, ply)) {
+    const applied = applyMoveToGameState(state, move.piece, move.to);
+    if (!applied) continue;
+    const score = -quiesce(applied.state, -beta, -alpha, ply + 1, depthLeft - 1, context);
+    if (context.aborted) return 0;
+    if (score >= beta) return score;
+    alpha = Math.max(alpha, score);
   }
-  return score;
+  return alpha;
 };
 
-const minimax = (
+const negamax = (
   state: GameState,
   depth: number,
   alpha: number,
   beta: number,
-  perspective: PieceColor,
-  budget: SearchBudget,
+  ply: number,
+  context: SearchContext,
 ): number => {
-  budget.visited += 1;
-  if (
-    depth <= 0 ||
-    budget.visited >= budget.max ||
-    state.gameStatus === "checkmate" ||
-    state.gameStatus === "stalemate"
-  ) {
-    return evaluatePosition(state, perspective);
-  }
+  if (tick(context)) return 0;
+  const terminal = terminalScore(state, ply);
+  if (terminal !== null) return terminal;
+  if (depth <= 0) return quiesce(state, alpha, beta, ply, QUIESCENCE_DEPTH, context);
 
-  const candidates = enumerateLegalMoves(state);
-  if (candidates.length === 0) return evaluatePosition(state, perspective);
-  const maximizing = state.currentPlayer === perspective;
-  let best = maximizing ? Number.NEGATIVE_INFINITY : Number.POSITIVE_INFINITY;
+  const key = positionKey(state);
+  const entry = context.table.get(key);
+  if (entry && entry.depth >= depth) {
+    const stored = fromTableScore(entry.score, ply);
+    if (entry.bound === "exact") return stored;
+    if (entry.bound === "lower" && stored >= beta) return stored;
+    if (entry.bound === "upper" && stored <= alpha) return stored;
+  }
 
-  for (const candidate of candidates) {
-    const applied = applyMoveToGameState(state, candidate.piece, candidate.to);
+  const alphaOriginal = alpha;
+  let best = Number.NEGATIVE_INFINITY;
+  let bestKey: string | undefined;
+  for (const move of orderMoves(generateMoves(state), context, ply, entry?.best)) {
+    const applied = applyMoveToGameState(state, move.piece, move.to);
     if (!applied) continue;
-    const value = minimax(
-      applied.state,
-      depth - 1,
-      alpha,
-      beta,
-      perspective,
-      budget,
-    );
-    if (maximizing) {
-      best = Math.max(best, value);
-      alpha = Math.max(alpha, best);
-    } else {
-      best = Math.min(best, value);
-      beta = Math.min(beta, best);
+    const score = -negamax(applied.state, depth - 1, -beta, -alpha, ply + 1, context);
+    if (context.aborted) return 0;
+    if (score > best) {
+      best = score;
+      bestKey = move.key;
+    }
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) {
+      if (move.victim === 0) rememberQuietCutoff(context, move, depth, ply);
+      break;
     }
-    if (beta <= alpha || budget.visited >= budget.max) break;
   }
+  if (!Number.isFinite(best)) return evaluate(state);
 
-  return Number.isFinite(best) ? best : evaluatePosition(state, perspective);
+  if (context.table.size >= TABLE_LIMIT) context.table.clear();
+  context.table.set(key, {
+    depth,
+    score: toTableScore(best, ply),
+    bound: best <= alphaOriginal ? "upper" : best >= beta ? "lower" : "exact",
+    best: bestKey,
+  });
+  return best;
 };
 
 const deterministicSelectionIndex = (state: GameState, length: number): number => {
   if (length <= 1) return 0;
   const text = `${ChessEngine.getBoardSignature(state.board)}|${state.turnNumber}|${state.moveHistory.length}`;
-  let hash = 2166136261;
-  for (let index = 0; index < text.length; index += 1) {
-    hash ^= text.charCodeAt(index);
-    hash = Math.imul(hash, 16777619);
+  return hashText(text, 2166136261) % length;
+};
+
+interface RootCandidate {
+  key: string;
+  next: GameState;
+  /** A rule action that keeps the turn is searched from the mover's side. */
+  sameSide: boolean;
+  choice: Omit<AiMoveChoice, "score"> | Omit<AiActionChoice, "score">;
+}
+
+interface ScoredRoot {
+  key: string;
+  choice: AiTurnChoice;
+}
+
+const isMoveChoice = (choice: AiTurnChoice): choice is AiMoveChoice => "piece" in choice;
+
+const compareScored = (left: ScoredRoot, right: ScoredRoot): number => {
+  if (right.choice.score !== left.choice.score) return right.choice.score - left.choice.score;
+  const leftMove = isMoveChoice(left.choice) ? left.choice : null;
+  const rightMove = isMoveChoice(right.choice) ? right.choice : null;
+  // On a tie a plain move wins: an action has to earn its place.
+  if (!leftMove || !rightMove) {
+    return Number(!leftMove) - Number(!rightMove) || left.key.localeCompare(right.key);
+  }
+  if (!samePosition(leftMove.piece.position, rightMove.piece.position)) {
+    return (
+      leftMove.piece.position.row - rightMove.piece.position.row ||
+      leftMove.piece.position.col - rightMove.piece.position.col
+    );
   }
-  return (hash >>> 0) % length;
+  return leftMove.to.row - rightMove.to.row || leftMove.to.col - rightMove.to.col;
+};
+
+const searchTurn = (
+  state: GameState,
+  requestedDepth: number,
+  selectionRange: number,
+  options: AiSearchOptions,
+  actions: SimulatedRuleAction[],
+): AiTurnChoice | null => {
+  if (!canPlayFromState(state)) return null;
+  const maxDepth = Math.max(1, Math.min(MAX_AI_SEARCH_DEPTH, Math.floor(requestedDepth)));
+  const range = Math.max(1, Math.floor(selectionRange));
+  const now = options.now ?? (() => Date.now());
+  const budget = Math.max(0, options.timeBudgetMs ?? DEFAULT_AI_TIME_BUDGET_MS);
+  const deadline = now() + budget;
+  const context: SearchContext = {
+    deadline: Number.POSITIVE_INFINITY,
+    now,
+    nodes: 0,
+    aborted: false,
+    table: new Map(),
+    killers: [],
+    history: new Map(),
+    geometry: geometryOf(state),
+  };
+
+  let rootCandidates: RootCandidate[] = [];
+  for (const move of orderMoves(generateMoves(state), context, 0)) {
+    const applied = applyMoveToGameState(state, move.piece, move.to);
+    if (!applied) continue;
+    rootCandidates.push({
+      key: move.key,
+      next: applied.state,
+      sameSide: false,
+      choice: { piece: move.piece, to: move.to },
+    });
+  }
+  const scoredActions = actions.map(({ action, state: next }) => {
+    const sameSide = next.currentPlayer === state.currentPlayer;
+    return { action, next, sameSide, outlook: sameSide ? evaluate(next) : -evaluate(next) };
+  });
+  scoredActions.sort((left, right) => right.outlook - left.outlook);
+  for (const { action, next, sameSide } of scoredActions.slice(0, MAX_ROOT_RULE_ACTIONS)) {
+    rootCandidates.push({
+      key: `action:${action.actionId}:${action.pieceId ?? "-"}:${action.targetTile ?? "-"}`,
+      next,
+      sameSide,
+      choice: { action },
+    });
+  }
+  if (rootCandidates.length === 0) return null;
+  let completed: AiTurnChoice[] | null = null;
+
+  for (let depth = 1; depth <= maxDepth; depth += 1) {
+    // The first iteration always completes so a move is available.
+    context.deadline = depth === 1 ? Number.POSITIVE_INFINITY : deadline;
+    const scored: ScoredRoot[] = [];
+    let alpha = Number.NEGATIVE_INFINITY;
+    for (const candidate of rootCandidates) {
+      const floor = range > 1 ? Number.NEGATIVE_INFINITY : alpha;
+      const score = candidate.sameSide
+        ? negamax(candidate.next, depth - 1, floor, Number.POSITIVE_INFINITY, 1, context)
+        : -negamax(candidate.next, depth - 1, Number.NEGATIVE_INFINITY, -floor, 1, context);
+      if (context.aborted) break;
+      // A fail-low only proves "no better": rank it below the move
+      // that set alpha instead of tying with it.
+      const bounded = range === 1 && scored.length > 0 && score <= alpha;
+      scored.push({
+        key: candidate.key,
+        choice: { ...candidate.choice, score: bounded ? Math.min(score, alpha - 1) : score } as AiTurnChoice,
+      });
+      alpha = Math.max(alpha, score);
+    }
+    if (context.aborted) break;
+
+    scored.sort(compareScored);
+    completed = scored.map(({ choice }) => choice);
+    const order = new Map(scored.map((entry, index) => [entry.key, index]));
+    rootCandidates = [...rootCandidates].sort(
+      (left, right) => (order.get(left.key) ?? Infinity) - (order.get(right.key) ?? Infinity),
+    );
+    if (Math.abs(scored[0]?.choice.score ?? 0) >= MATE_THRESHOLD || now() >= deadline) break;
+  }
+
+  if (!completed || completed.length === 0) return null;
+  const selectable = Math.min(completed.length, range);
+  return completed[deterministicSelectionIndex(state, selectable)] ?? completed[0] ?? null;
 };
 
 /**
- * Deterministic, bounded alpha-beta opponent. It never invents a move: every
- * candidate comes from ChessEngine.getValidMoves and is revalidated by the same
- * transition used for human moves.
+ * Rule-aware alpha-beta opponent: iterative deepening under a time budget,
+ * a Zobrist transposition table, quiescence on captures and killer/history
+ * ordering. It never invents a move: every candidate comes from
+ * ChessEngine.getValidMoves and is revalidated by the same transition used for
+ * human moves, so custom `activeRules` keep applying.
+ *
+ * `selectionRange` > 1 scores every root move exactly and picks
+ * deterministically among the best ones, for weaker difficulty levels.
  */
 export function chooseAiMove(
   state: GameState,
   requestedDepth: number,
   selectionRange = 1,
+  options: AiSearchOptions = {},
 ): AiMoveChoice | null {
-  if (state.gameStatus !== "active" && state.gameStatus !== "check") return null;
-  const perspective = state.currentPlayer;
-  const depth = Math.max(1, Math.min(3, Math.floor(requestedDepth)));
-  const candidates = enumerateLegalMoves(state);
-  if (candidates.length === 0) return null;
-  const budget: SearchBudget = {
-    visited: 0,
-    max: depth === 1 ? 1_200 : depth === 2 ? 4_000 : 8_000,
-  };
-
-  const scored = candidates.map((candidate) => {
-    const applied = applyMoveToGameState(state, candidate.piece, candidate.to);
-    if (!applied) return { ...candidate, score: Number.NEGATIVE_INFINITY };
-    return {
-      ...candidate,
-      score: minimax(
-        applied.state,
-        depth - 1,
-        Number.NEGATIVE_INFINITY,
-        Number.POSITIVE_INFINITY,
-        perspective,
-        budget,
-      ),
-    };
-  });
-  scored.sort((left, right) => {
-    if (right.score !== left.score) return right.score - left.score;
-    if (!samePosition(left.piece.position, right.piece.position)) {
-      return (
-        left.piece.position.row - right.piece.position.row ||
-        left.piece.position.col - right.piece.position.col
-      );
-    }
-    return left.to.row - right.to.row || left.to.col - right.to.col;
-  });
+  return searchTurn(state, requestedDepth, selectionRange, options, []) as AiMoveChoice | null;
+}
 
-  const range = Math.max(1, Math.min(scored.length, Math.floor(selectionRange)));
-  return scored[deterministicSelectionIndex(state, range)] ?? scored[0] ?? null;
+/**
+ * `chooseAiMove` plus the Rule Architect UI actions open to the side to move.
+ * Each action is played once in a sandbox engine (see `simulateRuleActions`)
+ * and the resulting position joins the root of the search; the opponent's own
+ * actions are not modelled deeper in the tree.
+ */
+export function chooseAiTurn(
+  state: GameState,
+  requestedDepth: number,
+  selectionRange = 1,
+  options: AiTurnOptions = {},
+): AiTurnChoice | null {
+  if (!canPlayFromState(state)) return null;
+  const actions = options.ruleContext ? simulateRuleActions(state, options.ruleContext) : [];
+  return searchTurn(state, requestedDepth, selectionRange, options, actions);
 }
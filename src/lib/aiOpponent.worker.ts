@@ -0,0 +1,28 @@
+import { chooseAiTurn } from "@/lib/aiOpponent";
+import type { AiWorkerRequest, AiWorkerResponse } from "@/lib/aiOpponentClient";
+
+self.onmessage = (event: MessageEvent<AiWorkerRequest>) => {
+  const { id, state, depth, selectionRange, timeBudgetMs, ruleContext } =
+    event.data;
+  let response: AiWorkerResponse;
+  try {
+    const choice = chooseAiTurn(state, depth, selectionRange, {
+      timeBudgetMs,
+      ruleContext,
+    });
+    response = {
+      id,
+      choice: !choice
+        ? null
+        : "action" in choice
+          ? choice
+          : { from: choice.piece.position, to: choice.to, score: choice.score },
+    };
+  } catch (error) {
+    response = {
+      id,
+      error: error instanceof Error ? error.message : "AI search failed",
+    };
+  }
+  self.postMessage(response);
+};
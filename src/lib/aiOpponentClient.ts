@@ -0,0 +1,170 @@
+import { chooseAiTurn, type AiTurnChoice } from "@/lib/aiOpponent";
+import type { AiRuleAction, AiRuleContext } from "@/lib/aiRuleActions";
+import { ChessEngine } from "@/lib/chessEngine";
+import type { GameState, Position } from "@/types/chess";
+
+export interface AiMoveRequestOptions {
+  timeBudgetMs?: number;
+  /** Aborting resolves the request with `null` and stops the search. */
+  signal?: AbortSignal;
+  /** Lets the AI weigh the variant's UI actions against board moves. */
+  ruleContext?: AiRuleContext | null;
+}
+
+export interface AiWorkerRequest {
+  id: number;
+  state: GameState;
+  depth: number;
+  selectionRange: number;
+  timeBudgetMs?: number;
+  ruleContext?: AiRuleContext | null;
+}
+
+export type AiWorkerResponse =
+  | {
+      id: number;
+      choice:
+        | { from: Position; to: Position; score: number }
+        | { action: AiRuleAction; score: number }
+        | null;
+    }
+  | { id: number; error: string };
+
+interface PendingRequest {
+  request: AiWorkerRequest;
+  resolve: (choice: AiTurnChoice | null) => void;
+}
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+/** Same search on the main thread, yielding first so the UI can paint. */
+const searchLocally = (
+  request: AiWorkerRequest,
+): Promise<AiTurnChoice | null> =>
+  new Promise((resolve) => {
+    setTimeout(() => {
+      resolve(
+        chooseAiTurn(request.state, request.depth, request.selectionRange, {
+          timeBudgetMs: request.timeBudgetMs,
+          ruleContext: request.ruleContext,
+        }),
+      );
+    }, 0);
+  });
+
+const failOverToLocalSearch = () => {
+  workerUnavailable = true;
+  worker?.terminate();
+  worker = null;
+  const stranded = [...pending.values()];
+  pending.clear();
+  for (const entry of stranded) {
+    void searchLocally(entry.request).then(entry.resolve);
+  }
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || workerUnavailable) return worker;
+  if (typeof Worker === "undefined") {
+    workerUnavailable = true;
+    return null;
+  }
+  try {
+    worker = new Worker(new URL("./aiOpponent.worker.ts", import.meta.url), {
+      type: "module",
+    });
+  } catch {
+    workerUnavailable = true;
+    return null;
+  }
+  worker.onmessage = (event: MessageEvent<AiWorkerResponse>) => {
+    const entry = pending.get(event.data.id);
+    if (!entry) return;
+    pending.delete(event.data.id);
+    if ("error" in event.data) {
+      console.warn("[ai-opponent] worker search failed", event.data.error);
+      void searchLocally(entry.request).then(entry.resolve);
+      return;
+    }
+    const { choice } = event.data;
+    if (!choice) {
+      entry.resolve(null);
+      return;
+    }
+    if ("action" in choice) {
+      entry.resolve(choice);
+      return;
+    }
+    const piece = ChessEngine.getPieceAt(
+      entry.request.state.board,
+      choice.from,
+    );
+    entry.resolve(piece ? { piece, to: choice.to, score: choice.score } : null);
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    console.warn("[ai-opponent] worker crashed, searching on the main thread");
+    failOverToLocalSearch();
+  };
+  return worker;
+};
+
+/**
+ * Runs `chooseAiTurn` in a Web Worker so deep searches never freeze the page.
+ * Falls back to the main thread where workers are unavailable (tests, SSR,
+ * a state that cannot be structured-cloned).
+ */
+export function requestAiMove(
+  state: GameState,
+  depth: number,
+  selectionRange: number,
+  options: AiMoveRequestOptions = {},
+): Promise<AiTurnChoice | null> {
+  if (options.signal?.aborted) return Promise.resolve(null);
+  const request: AiWorkerRequest = {
+    id: nextRequestId++,
+    // Transient UI fields are dropped: they are irrelevant to the search and
+    // keep the payload cloneable.
+    state: {
+      ...state,
+      selectedPiece: null,
+      validMoves: [],
+      visualEffects: [],
+      events: undefined,
+    },
+    depth,
+    selectionRange,
+    timeBudgetMs: options.timeBudgetMs,
+    ruleContext: options.ruleContext,
+  };
+
+  const target = getWorker();
+  if (!target) return searchLocally(request);
+
+  return new Promise((resolve) => {
+    pending.set(request.id, { request, resolve });
+    try {
+      target.postMessage(request);
+    } catch {
+      pending.delete(request.id);
+      void searchLocally(request).then(resolve);
+      return;
+    }
+    options.signal?.addEventListener(
+      "abort",
+      () => {
+        if (!pending.delete(request.id)) return;
+        resolve(null);
+        // A worker busy with an abandoned search is replaced rather than awaited.
+        if (pending.size === 0 && worker) {
+          worker.terminate();
+          worker = null;
+        }
+      },
+      { once: true },
+    );
+  });
+}
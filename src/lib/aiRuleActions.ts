@@ -0,0 +1,238 @@
+import {
+  Cooldown,
+  createRuleEngine,
+  EventBus,
+  StateStore,
+} from "@/engine/bootstrap";
+import { ChessBoardAdapter } from "@/engine/adapters/chessBoardAdapter";
+import { MatchAdapter } from "@/engine/adapters/matchAdapter";
+import type {
+  EngineContracts,
+  PieceID,
+  RuleJSON,
+  Tile,
+  UIActionSpec,
+} from "@/engine/types";
+import { ChessEngine } from "@/lib/chessEngine";
+import type { RuleEngineSnapshot } from "@/lib/extendedFen";
+import {
+  createDeterministicIdGenerator,
+  resolveRulesFairyPieces,
+} from "@/rules-v2";
+import type { GameState } from "@/types/chess";
+
+/** What the AI needs to rebuild the live rule engine off-screen. */
+export interface AiRuleContext {
+  rules: RuleJSON[];
+  engineState?: RuleEngineSnapshot | null;
+  matchSeed?: string;
+}
+
+/** Arguments for `runUIAction`, as chosen by the AI. */
+export interface AiRuleAction {
+  actionId: string;
+  label: string;
+  pieceId?: PieceID;
+  targetTile?: Tile;
+}
+
+export interface SimulatedRuleAction {
+  action: AiRuleAction;
+  /** Position once the action resolved; the turn has passed if it was consumed. */
+  state: GameState;
+}
+
+/** Upper bound on `runUIAction` calls per simulation, whatever the variant. */
+export const MAX_SIMULATED_RULE_ACTIONS = 96;
+
+const hasBothKings = (state: GameState): boolean => {
+  const kings = new Set<string>();
+  for (const row of state.board) {
+    for (const piece of row) {
+      if (piece?.type === "king") kings.add(piece.color);
+    }
+  }
+  return kings.size === 2;
+};
+
+const withGameStatus = (state: GameState): GameState => {
+  const { board, currentPlayer } = state;
+  const inCheck = ChessEngine.isInCheck(board, currentPlayer, state);
+  const hasMoves = ChessEngine.hasAnyLegalMoves(board, currentPlayer, state);
+  return {
+    ...state,
+    gameStatus:
+      inCheck && !hasMoves
+        ? "checkmate"
+        : !hasMoves
+          ? "stalemate"
+          : inCheck
+            ? "check"
+            : "active",
+  };
+};
+
+/**
+ * Sandbox engine loaded with the live rules and storage. It never touches the
+ * UI: toasts, sounds and decal animations are dropped.
+ */
+const createSandbox = (state: GameState, context: AiRuleContext) => {
+  const board = new ChessBoardAdapter(
+    ChessEngine.createEmptyBoard(state.geometry),
+    state.geometry,
+  );
+  board.setFairyPieces(resolveRulesFairyPieces(context.rules));
+  board.deserialize(
+    JSON.stringify({
+      board: state.board,
+      decals: context.engineState?.decals ?? [],
+    }),
+  );
+  const match = new MatchAdapter(state.currentPlayer);
+  match.syncCommittedMoves(state.moveHistory.length);
+  const matchSeed = context.matchSeed ?? "local-match";
+  const contracts: EngineContracts = {
+    board,
+    ui: { toast: () => undefined, registerAction: () => undefined },
+    vfx: {
+      spawnDecal: () => undefined,
+      clearDecal: () => undefined,
+      playAnimation: () => undefined,
+      playAudio: () => undefined,
+    },
+    match,
+    cooldown: new Cooldown(),
+    state: new StateStore(),
+    eventBus: new EventBus(),
+    util: { uuid: createDeterministicIdGenerator(`${matchSeed}|entities`) },
+    capturePiece: (pieceId: PieceID) => {
+      try {
+        board.removePiece(pieceId);
+      } catch {
+        // Already gone: the capture is a no-op, as in the live runtime.
+      }
+    },
+  };
+  const engine = createRuleEngine(contracts, context.rules, { matchSeed });
+  if (context.engineState) {
+    contracts.state.deserialize(context.engineState.rules);
+    contracts.cooldown.deserialize(context.engineState.cooldowns);
+  }
+  return { engine, contracts, board, match };
+};
+
+const sourcePieces = (
+  action: UIActionSpec,
+  board: ChessBoardAdapter,
+  side: GameState["currentPlayer"],
+): Array<PieceID | undefined> => {
+  if (!action.availability?.requiresSelection) return [undefined];
+  const allowed = action.availability.pieceTypes ?? [];
+  const result: PieceID[] = [];
+  for (const tile of board.tiles()) {
+    const id = board.getPieceAt(tile);
+    if (!id) continue;
+    const piece = board.getPiece(id);
+    if (piece.side !== side) continue;
+    if (
+      allowed.length > 0 &&
+      !allowed.includes("any") &&
+      !allowed.includes(piece.type)
+    ) {
+      continue;
+    }
+    result.push(id);
+  }
+  return result;
+};
+
+/**
+ * Plays every UI action the side to move could trigger right now against a
+ * sandbox copy of the rule engine, rolling back through the adapters'
+ * `serialize`/`deserialize` after each try. Actions the engine refuses, and
+ * actions that leave the board untouched, are not returned: the search has
+ * no way to value them.
+ */
+export function simulateRuleActions(
+  state: GameState,
+  context: AiRuleContext,
+  limit = MAX_SIMULATED_RULE_ACTIONS,
+): SimulatedRuleAction[] {
+  if (context.rules.length === 0) return [];
+  const sandbox = createSandbox(state, context);
+  const { engine, contracts, board, match } = sandbox;
+  let turnEnded = false;
+  match.setTurnEndCallback(() => {
+    turnEnded = true;
+  });
+
+  const initialBoard = JSON.stringify(board.getBoard());
+  const results: SimulatedRuleAction[] = [];
+  let attempts = 0;
+
+  for (const spec of engine.getUIActions()) {
+    const targeted = (spec.targeting?.mode ?? "none") !== "none";
+    for (const pieceId of sourcePieces(spec, board, state.currentPlayer)) {
+      const targets: Array<Tile | undefined> = targeted
+        ? engine.getActionTargets(spec.id, pieceId)
+        : [undefined];
+      for (const targetTile of targets) {
+        if (attempts >= limit) return results;
+        attempts += 1;
+
+        const snapshot = {
+          board: board.serialize(),
+          cooldown: contracts.cooldown.serialize(),
+          state: contracts.state.serialize(),
+          match: match.serialize(),
+        };
+        turnEnded = false;
+        let outcome: { ok: boolean };
+        try {
+          outcome = engine.runUIAction(spec.id, pieceId, targetTile);
+        } catch {
+          outcome = { ok: false };
+        }
+        const nextBoard = board.getBoard();
+        const consumed = turnEnded;
+        board.deserialize(snapshot.board);
+        contracts.cooldown.deserialize(snapshot.cooldown);
+        contracts.state.deserialize(snapshot.state);
+        match.deserialize(snapshot.match);
+
+        if (!outcome.ok || JSON.stringify(nextBoard) === initialBoard) {
+          continue;
+        }
+        const nextPlayer = consumed
+          ? state.currentPlayer === "white"
+            ? "black"
+            : "white"
+          : state.currentPlayer;
+        const next: GameState = {
+          ...state,
+          board: nextBoard,
+          currentPlayer: nextPlayer,
+          turnNumber:
+            consumed && state.currentPlayer === "black"
+              ? state.turnNumber + 1
+              : state.turnNumber,
+          movesThisTurn: consumed ? 0 : state.movesThisTurn,
+          selectedPiece: null,
+          validMoves: [],
+        };
+        // A variant that removes a king ends the game outside the chess rules.
+        if (!hasBothKings(next)) continue;
+        results.push({
+          action: {
+            actionId: spec.id,
+            label: spec.label,
+            pieceId,
+            targetTile,
+          },
+          state: withGameStatus(next),
+        });
+      }
+    }
+  }
+  return results;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  chargedElapsedMs,
+  clockRulesFromSeconds,
+  NO_CLOCK_RULES,
+  settleMoveClock,
+} from "./chessClock";
+import { TIME_CONTROL_SETTINGS } from "@/types/timeControl";
+
+describe("settleMoveClock", () => {
+  it("adds the Fischer increment after a move", () => {
+    const rules = clockRulesFromSeconds(TIME_CONTROL_SETTINGS.blitz);
+
+    expect(settleMoveClock(180_000, 4_250, rules)).toEqual({
+      expired: false,
+      remainingMs: 177_750,
+    });
+  });
+
+  it("never saves a player whose clock already reached zero", () => {
+    const rules = { ...NO_CLOCK_RULES, incrementMs: 5_000 };
+
+    expect(settleMoveClock(3_000, 3_000, rules)).toEqual({
+      expired: true,
+      remainingMs: 0,
+    });
+  });
+
+  it("holds the clock during a simple delay", () => {
+    const rules = clockRulesFromSeconds({
+      incrementSeconds: 0,
+      delaySeconds: 5,
+      delayMode: "simple",
+    });
+
+    expect(chargedElapsedMs(4_000, rules)).toBe(0);
+    expect(chargedElapsedMs(7_000, rules)).toBe(2_000);
+    expect(settleMoveClock(10_000, 4_000, rules).remainingMs).toBe(10_000);
+    expect(settleMoveClock(10_000, 15_000, rules).expired).toBe(true);
+  });
+
+  it("refunds at most the Bronstein delay", () => {
+    const rules = clockRulesFromSeconds(TIME_CONTROL_SETTINGS.bronstein);
+
+    expect(chargedElapsedMs(2_000, rules)).toBe(2_000);
+    expect(settleMoveClock(10_000, 2_000, rules).remainingMs).toBe(10_000);
+    expect(settleMoveClock(10_000, 7_000, rules).remainingMs).toBe(6_000);
+  });
+});
@@ -0,0 +1,66 @@
+import type { ClockDelayMode } from "@/types/timeControl";
+
+export interface ClockRules {
+  incrementMs: number;
+  delayMs: number;
+  delayMode: ClockDelayMode;
+}
+
+export interface SettledMoveClock {
+  expired: boolean;
+  remainingMs: number;
+}
+
+export const NO_CLOCK_RULES: ClockRules = {
+  incrementMs: 0,
+  delayMs: 0,
+  delayMode: "none",
+};
+
+/**
+ * Time actually taken from the running clock `elapsedMs` into a turn. Only a
+ * simple delay holds the clock; a Bronstein delay is refunded once the move
+ * lands.
+ */
+export const chargedElapsedMs = (
+  elapsedMs: number,
+  rules: ClockRules,
+): number => {
+  const elapsed = Math.max(0, Math.floor(elapsedMs));
+  return rules.delayMode === "simple"
+    ? Math.max(0, elapsed - rules.delayMs)
+    : elapsed;
+};
+
+/**
+ * Mirrors `computeAuthoritativeClock` in the move edge function: a move played
+ * at or after zero loses on time, otherwise the delay refund and the Fischer
+ * increment are credited.
+ */
+export const settleMoveClock = (
+  remainingAtTurnStartMs: number,
+  elapsedMs: number,
+  rules: ClockRules,
+): SettledMoveClock => {
+  const elapsed = Math.max(0, Math.floor(elapsedMs));
+  const remainingMs = remainingAtTurnStartMs - chargedElapsedMs(elapsed, rules);
+  if (remainingMs <= 0) {
+    return { expired: true, remainingMs: 0 };
+  }
+  const refundMs =
+    rules.delayMode === "bronstein" ? Math.min(elapsed, rules.delayMs) : 0;
+  return {
+    expired: false,
+    remainingMs: remainingMs + refundMs + rules.incrementMs,
+  };
+};
+
+export const clockRulesFromSeconds = (control: {
+  incrementSeconds: number;
+  delaySeconds: number;
+  delayMode: ClockDelayMode;
+}): ClockRules => ({
+  incrementMs: control.incrementSeconds * 1000,
+  delayMs: control.delayMode === "none" ? 0 : control.delaySeconds * 1000,
+  delayMode: control.delaySeconds > 0 ? control.delayMode : "none",
+});
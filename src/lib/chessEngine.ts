@@ -9,6 +9,18 @@ import {
   RuleCondition,
 } from "@/types/chess";
 import { isRuntimeStatusActive } from "@/engine/runtime-status";
+import {
+  STANDARD_BOARD_GEOMETRY,
+  STANDARD_BOARD_LAYOUT,
+  allowsCastling,
+  backRankFairyPiece,
+  allowsOpeningPawnDoubleStep,
+  isPlayableSquare,
+  resolveBoardPosition,
+  type BoardGeometry,
+  type BoardLayout,
+} from "@/rules-v2/board-geometry";
+import { fairyMoveTargets, fairyMoves } from "@/rules-v2/fairy-pieces";
 
 type MoveGenerationPurpose = "movement" | "attack";
 
@@ -19,75 +31,42 @@ interface MoveGenerationOptions {
 
 export class ChessEngine {
   // Initialize empty board
-  static createEmptyBoard(): (ChessPiece | null)[][] {
-    return Array(8)
+  static createEmptyBoard(
+    geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
+  ): (ChessPiece | null)[][] {
+    return Array(geometry.ranks)
       .fill(null)
-      .map(() => Array(8).fill(null));
+      .map(() => Array(geometry.files).fill(null));
   }
 
-  // Initialize standard chess starting position
-  static initializeBoard(): (ChessPiece | null)[][] {
-    const board = this.createEmptyBoard();
-
-    // White pieces
-    const whiteBackRow: PieceType[] = [
-      "rook",
-      "knight",
-      "bishop",
-      "queen",
-      "king",
-      "bishop",
-      "knight",
-      "rook",
+  // Initialize the starting position; black mirrors white's back rank
+  static initializeBoard(
+    layout: BoardLayout = STANDARD_BOARD_LAYOUT,
+  ): (ChessPiece | null)[][] {
+    const board = this.createEmptyBoard(layout);
+    const rows: { row: number; color: PieceColor; type?: PieceType }[] = [
+      { row: layout.ranks - 1, color: "white" },
+      { row: layout.ranks - 2, color: "white", type: "pawn" },
+      { row: 0, color: "black" },
+      { row: 1, color: "black", type: "pawn" },
     ];
-    whiteBackRow.forEach((type, col) => {
-      board[7][col] = {
-        type,
-        color: "white",
-        position: { row: 7, col },
-        hasMoved: false,
-        isHidden: false,
-      };
-    });
-    for (let col = 0; col < 8; col++) {
-      board[6][col] = {
-        type: "pawn",
-        color: "white",
-        position: { row: 6, col },
-        hasMoved: false,
-        isHidden: false,
-      };
-    }
 
-    // Black pieces
-    const blackBackRow: PieceType[] = [
-      "rook",
-      "knight",
-      "bishop",
-      "queen",
-      "king",
-      "bishop",
-      "knight",
-      "rook",
-    ];
-    blackBackRow.forEach((type, col) => {
-      board[0][col] = {
-        type,
-        color: "black",
-        position: { row: 0, col },
-        hasMoved: false,
-        isHidden: false,
-      };
+    rows.forEach(({ row, color, type }) => {
+      for (let col = 0; col < layout.files; col++) {
+        if (!this.isValidPosition({ row, col }, layout)) continue;
+        const fairy = type
+          ? undefined
+          : backRankFairyPiece(layout, layout.backRank[col]);
+        board[row][col] = {
+          type: type ?? (fairy ? "fairy" : (layout.backRank[col] as PieceType)),
+          color,
+          position: { row, col },
+          hasMoved: false,
+          isHidden: false,
+          ...(fairy ? { fairy } : {}),
+        };
+      }
     });
-    for (let col = 0; col < 8; col++) {
-      board[1][col] = {
-        type: "pawn",
-        color: "black",
-        position: { row: 1, col },
-        hasMoved: false,
-        isHidden: false,
-      };
-    }
 
     return board;
   }
@@ -140,7 +119,7 @@ export class ChessEngine {
         majorPieces.length,
       );
 
-      for (let col = 0; col < 8; col++) {
+      for (let col = 0; col < rowPieces.length; col++) {
         const occupant = clonedBoard[rowIndex][col];
         if (occupant && occupant.color === color) {
           clonedBoard[rowIndex][col] = null;
@@ -165,7 +144,7 @@ export class ChessEngine {
       });
     };
 
-    rearrange(7, "white");
+    rearrange(clonedBoard.length - 1, "white");
     rearrange(0, "black");
 
     return clonedBoard;
@@ -175,8 +154,8 @@ export class ChessEngine {
     board: (ChessPiece | null)[][],
     color: PieceColor,
   ): void {
-    const targetRow = color === "white" ? 7 : 0;
-    for (let col = 0; col < 8; col++) {
+    const targetRow = color === "white" ? board.length - 1 : 0;
+    for (let col = 0; col < board[targetRow].length; col++) {
       const piece = board[targetRow][col];
       if (piece && piece.color === color && piece.type !== "pawn") {
         board[targetRow][col] = { ...piece, isHidden: false };
@@ -192,8 +171,9 @@ export class ChessEngine {
         const specialTag = piece.specialState?.carnivorousPlant?.active
           ? "-carnivorous"
           : "";
+        const type = piece.fairy?.id ?? piece.type;
         pieces.push(
-          `${piece.color}-${piece.type}${specialTag}-${rowIndex}-${colIndex}`,
+          `${piece.color}-${type}${specialTag}-${rowIndex}-${colIndex}`,
         );
       });
     });
@@ -203,9 +183,12 @@ export class ChessEngine {
   static getAttackSquares(
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
+    geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
   ): Position[] {
-    const { row, col } = piece.position;
-    const inBounds = (pos: Position) => this.isValidPosition(pos);
+    const offsetsFrom = (offsets: number[][]) =>
+      offsets
+        .map(([dRow, dCol]) => this.step(piece.position, dRow, dCol, geometry))
+        .filter((pos): pos is Position => pos !== null);
     const opponentsOnly = (positions: Position[]) =>
       positions.filter((pos) => {
         const target = this.getPieceAt(board, pos);
@@ -215,11 +198,12 @@ export class ChessEngine {
     switch (piece.type) {
       case "pawn": {
         const direction = piece.color === "white" ? -1 : 1;
-        const diagonals = [
-          { row: row + direction, col: col - 1 },
-          { row: row + direction, col: col + 1 },
-        ].filter(inBounds);
-        return opponentsOnly(diagonals);
+        return opponentsOnly(
+          offsetsFrom([
+            [direction, -1],
+            [direction, 1],
+          ]),
+        );
       }
       case "knight": {
         const offsets = [
@@ -232,41 +216,53 @@ export class ChessEngine {
           [2, -1],
           [2, 1],
         ];
-        const potential = offsets
-          .map(([dRow, dCol]) => ({ row: row + dRow, col: col + dCol }))
-          .filter(inBounds);
-        return opponentsOnly(potential);
+        return opponentsOnly(offsetsFrom(offsets));
       }
       case "bishop":
         return opponentsOnly(
-          this.getDirectionalMoves(board, piece, [
-            [-1, -1],
-            [-1, 1],
-            [1, -1],
-            [1, 1],
-          ]),
+          this.getDirectionalMoves(
+            board,
+            piece,
+            [
+              [-1, -1],
+              [-1, 1],
+              [1, -1],
+              [1, 1],
+            ],
+            geometry,
+          ),
         );
       case "rook":
         return opponentsOnly(
-          this.getDirectionalMoves(board, piece, [
-            [-1, 0],
-            [1, 0],
-            [0, -1],
-            [0, 1],
-          ]),
+          this.getDirectionalMoves(
+            board,
+            piece,
+            [
+              [-1, 0],
+              [1, 0],
+              [0, -1],
+              [0, 1],
+            ],
+            geometry,
+          ),
         );
       case "queen":
         return opponentsOnly(
-          this.getDirectionalMoves(board, piece, [
-            [-1, -1],
-            [-1, 0],
-            [-1, 1],
-            [0, -1],
-            [0, 1],
-            [1, -1],
-            [1, 0],
-            [1, 1],
-          ]),
+          this.getDirectionalMoves(
+            board,
+            piece,
+            [
+              [-1, -1],
+              [-1, 0],
+              [-1, 1],
+              [0, -1],
+              [0, 1],
+              [1, -1],
+              [1, 0],
+              [1, 1],
+            ],
+            geometry,
+          ),
         );
       case "king": {
         const offsets = [
@@ -279,19 +275,23 @@ export class ChessEngine {
           [1, 0],
           [1, 1],
         ];
-        const potential = offsets
-          .map(([dRow, dCol]) => ({ row: row + dRow, col: col + dCol }))
-          .filter(inBounds);
-        return opponentsOnly(potential);
+        return opponentsOnly(offsetsFrom(offsets));
       }
+      case "fairy":
+        return opponentsOnly(
+          this.getFairyMoves(board, piece, geometry, "attack"),
+        );
       default:
         return [];
     }
   }
 
-  // Check if position is valid
-  static isValidPosition(pos: Position): boolean {
-    return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8;
+  // Check if a piece may stand on the position (inside the board, not a hole)
+  static isValidPosition(
+    pos: Position,
+    geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
+  ): boolean {
+    return isPlayableSquare(pos, geometry);
   }
 
   // Get piece at position
@@ -299,8 +299,30 @@ export class ChessEngine {
     board: (ChessPiece | null)[][],
     pos: Position,
   ): ChessPiece | null {
-    if (!this.isValidPosition(pos)) return null;
-    return board[pos.row][pos.col];
+    if (!Number.isInteger(pos.row) || !Number.isInteger(pos.col)) return null;
+    return board[pos.row]?.[pos.col] ?? null;
+  }
+
+  private static geometryOf(gameState: GameState): BoardGeometry {
+    return gameState.geometry ?? STANDARD_BOARD_GEOMETRY;
+  }
+
+  // Square reached by an offset: wraps files on a cylinder, null off the board
+  private static step(
+    from: Position,
+    dRow: number,
+    dCol: number,
+    geometry: BoardGeometry,
+  ): Position | null {
+    return resolveBoardPosition(
+      { row: from.row + dRow, col: from.col + dCol },
+      geometry,
+    );
+  }
+
+  // Longest ray a slider can travel before leaving the board or looping back
+  private static maxRayLength(geometry: BoardGeometry): number {
+    return Math.max(geometry.files, geometry.ranks);
   }
 
   // Get valid moves for a piece (traditional rules with legality checks)
@@ -338,19 +360,27 @@ export class ChessEngine {
     gameState: GameState,
     options: MoveGenerationOptions,
   ): Position[] {
+    const geometry = this.geometryOf(gameState);
     switch (piece.type) {
       case "pawn":
         return this.getPawnMoves(board, piece, gameState, options);
       case "knight":
-        return this.getKnightMoves(board, piece);
+        return this.getKnightMoves(board, piece, geometry);
       case "bishop":
-        return this.getBishopMoves(board, piece);
+        return this.getBishopMoves(board, piece, geometry);
       case "rook":
-        return this.getRookMoves(board, piece);
+        return this.getRookMoves(board, piece, geometry);
       case "queen":
-        return this.getQueenMoves(board, piece);
+        return this.getQueenMoves(board, piece, geometry);
       case "king":
         return this.getKingMoves(board, piece, gameState, options);
+      case "fairy":
+        return this.getFairyMoves(
+          board,
+          piece,
+          geometry,
+          options.purpose ?? "movement",
+        );
       default:
         return [];
     }
@@ -387,21 +417,18 @@ export class ChessEngine {
     }
 
     const moves: Position[] = [];
-    const { row, col } = piece.position;
+    const geometry = this.geometryOf(gameState);
     const direction = piece.color === "white" ? -1 : 1;
     const purpose = options.purpose ?? "movement";
 
     if (purpose !== "attack") {
-      const forward = { row: row + direction, col };
-      if (this.isValidPosition(forward) && !this.getPieceAt(board, forward)) {
+      const forward = this.step(piece.position, direction, 0, geometry);
+      if (forward && !this.getPieceAt(board, forward)) {
         moves.push(forward);
 
-        if (!piece.hasMoved) {
-          const doubleForward = { row: row + direction * 2, col };
-          if (
-            this.isValidPosition(doubleForward) &&
-            !this.getPieceAt(board, doubleForward)
-          ) {
+        if (!piece.hasMoved && allowsOpeningPawnDoubleStep(geometry)) {
+          const doubleForward = this.step(forward, direction, 0, geometry);
+          if (doubleForward && !this.getPieceAt(board, doubleForward)) {
             moves.push(doubleForward);
           }
         }
@@ -409,14 +436,14 @@ export class ChessEngine {
     }
 
     const capturePositions = [
-      { row: row + direction, col: col - 1 },
-      { row: row + direction, col: col + 1 },
+      this.step(piece.position, direction, -1, geometry),
+      this.step(piece.position, direction, 1, geometry),
     ];
 
     const enPassantTarget = this.getEnPassantTarget(gameState, piece.color);
 
     capturePositions.forEach((pos) => {
-      if (!this.isValidPosition(pos)) return;
+      if (!pos) return;
 
       const target = this.getPieceAt(board, pos);
       if (target && target.color !== piece.color) {
@@ -466,9 +493,9 @@ export class ChessEngine {
   private static getKnightMoves(
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
+    geometry: BoardGeometry,
   ): Position[] {
     const moves: Position[] = [];
-    const { row, col } = piece.position;
     const offsets = [
       [-2, -1],
       [-2, 1],
@@ -481,8 +508,8 @@ export class ChessEngine {
     ];
 
     offsets.forEach(([dRow, dCol]) => {
-      const pos = { row: row + dRow, col: col + dCol };
-      if (this.isValidPosition(pos)) {
+      const pos = this.step(piece.position, dRow, dCol, geometry);
+      if (pos) {
         const target = this.getPieceAt(board, pos);
         if (!target || target.color !== piece.color) {
           moves.push(pos);
@@ -496,41 +523,59 @@ export class ChessEngine {
   private static getBishopMoves(
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
+    geometry: BoardGeometry,
   ): Position[] {
-    return this.getDirectionalMoves(board, piece, [
-      [-1, -1],
-      [-1, 1],
-      [1, -1],
-      [1, 1],
-    ]);
+    return this.getDirectionalMoves(
+      board,
+      piece,
+      [
+        [-1, -1],
+        [-1, 1],
+        [1, -1],
+        [1, 1],
+      ],
+      geometry,
+    );
   }
 
   private static getRookMoves(
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
+    geometry: BoardGeometry,
   ): Position[] {
-    return this.getDirectionalMoves(board, piece, [
-      [-1, 0],
-      [1, 0],
-      [0, -1],
-      [0, 1],
-    ]);
+    return this.getDirectionalMoves(
+      board,
+      piece,
+      [
+        [-1, 0],
+        [1, 0],
+        [0, -1],
+        [0, 1],
+      ],
+      geometry,
+    );
   }
 
   private static getQueenMoves(
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
+    geometry: BoardGeometry,
   ): Position[] {
-    return this.getDirectionalMoves(board, piece, [
-      [-1, -1],
-      [-1, 0],
-      [-1, 1],
-      [0, -1],
-      [0, 1],
-      [1, -1],
-      [1, 0],
-      [1, 1],
-    ]);
+    return this.getDirectionalMoves(
+      board,
+      piece,
+      [
+        [-1, -1],
+        [-1, 0],
+        [-1, 1],
+        [0, -1],
+        [0, 1],
+        [1, -1],
+        [1, 0],
+        [1, 1],
+      ],
+      geometry,
+    );
   }
 
   private static getKingMoves(
@@ -541,6 +586,7 @@ export class ChessEngine {
   ): Position[] {
     const moves: Position[] = [];
     const { row, col } = piece.position;
+    const geometry = this.geometryOf(gameState);
     const offsets = [
       [-1, -1],
       [-1, 0],
@@ -553,8 +599,8 @@ export class ChessEngine {
     ];
 
     offsets.forEach(([dRow, dCol]) => {
-      const pos = { row: row + dRow, col: col + dCol };
-      if (!this.isValidPosition(pos)) return;
+      const pos = this.step(piece.position, dRow, dCol, geometry);
+      if (!pos) return;
 
       const target = this.getPieceAt(board, pos);
       if (!target || target.color !== piece.color) {
@@ -566,7 +612,7 @@ export class ChessEngine {
     const includeCastling =
       options.includeCastling !== false && purpose !== "attack";
 
-    if (includeCastling && !piece.hasMoved) {
+    if (includeCastling && !piece.hasMoved && allowsCastling(geometry)) {
       const opponentColor: PieceColor =
         piece.color === "white" ? "black" : "white";
       const isSquareSafe = (position: Position) =>
@@ -575,17 +621,23 @@ export class ChessEngine {
           purpose: "attack",
         });
 
-      const rookPositions: {
-        side: "king" | "queen";
-        rookCol: number;
-        path: number[];
-      }[] = [
-        { side: "king", rookCol: 7, path: [col + 1, col + 2] },
-        { side: "queen", rookCol: 0, path: [col - 1, col - 2, col - 3] },
-      ];
+      // Rooks start in the corners; every square between king and rook must
+      // be empty and the king always travels two files towards the rook.
+      const rookPositions = [geometry.files - 1, 0];
 
       if (isSquareSafe(piece.position)) {
-        rookPositions.forEach(({ side, rookCol, path }) => {
+        rookPositions.forEach((rookCol) => {
+          const direction = rookCol > col ? 1 : -1;
+          if (Math.abs(rookCol - col) < 3) return;
+          const path: number[] = [];
+          for (
+            let target = col + direction;
+            target !== rookCol;
+            target += direction
+          ) {
+            path.push(target);
+          }
+
           const rook = this.getPieceAt(board, { row, col: rookCol });
           if (
             !rook ||
@@ -597,19 +649,21 @@ export class ChessEngine {
           }
 
           const squaresEmpty = path.every(
-            (targetCol) => !this.getPieceAt(board, { row, col: targetCol }),
+            (targetCol) =>
+              this.isValidPosition({ row, col: targetCol }, geometry) &&
+              !this.getPieceAt(board, { row, col: targetCol }),
           );
 
           if (!squaresEmpty) return;
 
-          const kingPath = side === "king" ? path : path.slice(0, 2);
+          const kingPath = path.slice(0, 2);
           const squaresSafe = kingPath.every((targetCol) =>
             isSquareSafe({ row, col: targetCol }),
           );
 
           if (!squaresSafe) return;
 
-          moves.push({ row, col: side === "king" ? col + 2 : col - 2 });
+          moves.push({ row, col: col + direction * 2 });
         });
       }
     }
@@ -617,39 +671,61 @@ export class ChessEngine {
     return this.ensureUniquePositions(moves);
   }
 
+  // Squares a piece declared by a rule reaches with its Betza movement
+  private static getFairyMoves(
+    board: (ChessPiece | null)[][],
+    piece: ChessPiece,
+    geometry: BoardGeometry,
+    purpose: MoveGenerationPurpose,
+  ): Position[] {
+    if (!piece.fairy) return [];
+    return fairyMoveTargets(fairyMoves(piece.fairy.betza), {
+      from: piece.position,
+      color: piece.color,
+      step: (from, dRow, dCol) => this.step(from, dRow, dCol, geometry),
+      occupant: (square) => {
+        const target = this.getPieceAt(board, square);
+        if (!target) return "empty";
+        return target.color === piece.color ? "friend" : "enemy";
+      },
+      maxRange: this.maxRayLength(geometry),
+      purpose,
+    });
+  }
+
   private static getDirectionalMoves(
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
     directions: number[][],
+    geometry: BoardGeometry,
   ): Position[] {
     const moves: Position[] = [];
     const { row, col } = piece.position;
+    const limit = this.maxRayLength(geometry);
 
     directions.forEach(([dRow, dCol]) => {
-      let currentRow = row + dRow;
-      let currentCol = col + dCol;
+      let current = this.step(piece.position, dRow, dCol, geometry);
 
-      while (this.isValidPosition({ row: currentRow, col: currentCol })) {
-        const target = this.getPieceAt(board, {
-          row: currentRow,
-          col: currentCol,
-        });
+      for (let distance = 0; current && distance < limit; distance++) {
+        // A ray that wraps all the way round a cylinder stops at its origin
+        if (current.row === row && current.col === col) break;
+
+        const target = this.getPieceAt(board, current);
 
         if (!target) {
-          moves.push({ row: currentRow, col: currentCol });
+          moves.push(current);
         } else {
           if (target.color !== piece.color) {
-            moves.push({ row: currentRow, col: currentCol });
+            moves.push(current);
           }
           break;
         }
 
-        currentRow += dRow;
-        currentCol += dCol;
+        current = this.step(current, dRow, dCol, geometry);
       }
     });
 
-    return moves;
+    return this.ensureUniquePositions(moves);
   }
 
   // Apply custom rules to modify valid moves
@@ -851,6 +927,7 @@ export class ChessEngine {
     }
 
     let modifiedMoves = [...moves];
+    const geometry = this.geometryOf(gameState);
 
     rule.effects.forEach((effect) => {
       const params = effect.parameters;
@@ -865,6 +942,7 @@ export class ChessEngine {
               params.range,
               params.direction,
               modifiedMoves,
+              geometry,
             );
           }
           // Bonus range to all moves
@@ -874,18 +952,29 @@ export class ChessEngine {
               piece,
               modifiedMoves,
               params.bonusRange,
+              geometry,
             );
           }
           // Double move for pawns
           if (params.doubleMove && piece.type === "pawn") {
-            modifiedMoves = this.addPawnDoubleMove(board, piece, modifiedMoves);
+            modifiedMoves = this.addPawnDoubleMove(
+              board,
+              piece,
+              modifiedMoves,
+              geometry,
+            );
           }
           break;
 
         case "addAbility":
           // Jump ability for rooks
           if (params.ability === "jump") {
-            modifiedMoves = this.addJumpMoves(board, piece, modifiedMoves);
+            modifiedMoves = this.addJumpMoves(
+              board,
+              piece,
+              modifiedMoves,
+              geometry,
+            );
           }
           // Teleport for queen
           if (params.ability === "teleport" && params.frequency) {
@@ -894,6 +983,7 @@ export class ChessEngine {
                 board,
                 piece,
                 modifiedMoves,
+                geometry,
               );
             }
           }
@@ -901,42 +991,52 @@ export class ChessEngine {
           if (params.ability === "straightMove") {
             modifiedMoves = [
               ...modifiedMoves,
-              ...this.getStraightMoves(board, piece, params.range || 3),
+              ...this.getStraightMoves(
+                board,
+                piece,
+                params.range || 3,
+                geometry,
+              ),
             ];
           }
           // Diagonal move for rook
           if (params.ability === "diagonalMove") {
             modifiedMoves = [
               ...modifiedMoves,
-              ...this.getDiagonalMoves(board, piece, params.range || 2),
+              ...this.getDiagonalMoves(
+                board,
+                piece,
+                params.range || 2,
+                geometry,
+              ),
             ];
           }
           // Lateral move for pawn
           if (params.ability === "lateralMove") {
             modifiedMoves = [
               ...modifiedMoves,
-              ...this.getLateralMoves(board, piece),
+              ...this.getLateralMoves(board, piece, geometry),
             ];
           }
           // Forward capture for pawn
           if (params.ability === "forwardCapture") {
             modifiedMoves = [
               ...modifiedMoves,
-              ...this.getForwardCaptures(board, piece),
+              ...this.getForwardCaptures(board, piece, geometry),
             ];
           }
           // Lateral capture for pawn
           if (params.ability === "lateralCapture") {
             modifiedMoves = [
               ...modifiedMoves,
-              ...this.getLateralCaptures(board, piece),
+              ...this.getLateralCaptures(board, piece, geometry),
             ];
           }
           // Backward move for pawn
           if (params.ability === "backward") {
             modifiedMoves = [
               ...modifiedMoves,
-              ...this.getBackwardMoves(board, piece),
+              ...this.getBackwardMoves(board, piece, geometry),
             ];
           }
           break;
@@ -950,26 +1050,28 @@ export class ChessEngine {
             const squares =
               typeof params.squares === "number" ? params.squares : 3;
             const direction = piece.color === "white" ? -1 : 1;
-            const target: Position = {
-              row: piece.position.row + direction * squares,
-              col: piece.position.col,
-            };
+            const target = this.step(
+              piece.position,
+              direction * squares,
+              0,
+              geometry,
+            );
 
             const pathClear = () => {
               for (let step = 1; step < squares; step++) {
-                const intermediate = {
-                  row: piece.position.row + direction * step,
-                  col: piece.position.col,
-                };
-                if (!this.isValidPosition(intermediate)) return false;
+                const intermediate = this.step(
+                  piece.position,
+                  direction * step,
+                  0,
+                  geometry,
+                );
+                if (!intermediate) return false;
                 if (this.getPieceAt(board, intermediate)) return false;
               }
-              return (
-                this.isValidPosition(target) && !this.getPieceAt(board, target)
-              );
+              return target !== null && !this.getPieceAt(board, target);
             };
 
-            if (pathClear()) {
+            if (target && pathClear()) {
               modifiedMoves.push(target);
             }
 
@@ -987,10 +1089,11 @@ export class ChessEngine {
             (!piece.hasMoved || params.usage === 1)
           ) {
             if (params.pattern === "knight") {
-              const knightMoves = this.getKnightMoves(board, {
-                ...piece,
-                type: "knight",
-              });
+              const knightMoves = this.getKnightMoves(
+                board,
+                { ...piece, type: "knight" },
+                geometry,
+              );
               modifiedMoves.push(...knightMoves);
             }
           }
@@ -1007,7 +1110,12 @@ export class ChessEngine {
           if (params.captureRange && piece.type === "pawn") {
             modifiedMoves = [
               ...modifiedMoves,
-              ...this.getExtendedCaptures(board, piece, params.captureRange),
+              ...this.getExtendedCaptures(
+                board,
+                piece,
+                params.captureRange,
+                geometry,
+              ),
             ];
           }
           break;
@@ -1030,6 +1138,7 @@ export class ChessEngine {
     range: number,
     direction: string | undefined,
     existingMoves: Position[],
+    geometry: BoardGeometry,
   ): Position[] {
     const moves: Position[] = [...existingMoves];
     const vectors = this.resolveDirections(piece, direction);
@@ -1037,8 +1146,13 @@ export class ChessEngine {
 
     vectors.forEach(([dRow, dCol]) => {
       for (let step = 1; step <= range; step++) {
-        const pos = { row: row + dRow * step, col: col + dCol * step };
-        if (!this.isValidPosition(pos)) break;
+        const pos = this.step(
+          piece.position,
+          dRow * step,
+          dCol * step,
+          geometry,
+        );
+        if (!pos || (pos.row === row && pos.col === col)) break;
 
         const target = this.getPieceAt(board, pos);
         if (!target) {
@@ -1060,6 +1174,7 @@ export class ChessEngine {
     piece: ChessPiece,
     existingMoves: Position[],
     bonus: number,
+    geometry: BoardGeometry,
   ): Position[] {
     const moves = [...existingMoves];
     const { row, col } = piece.position;
@@ -1074,8 +1189,8 @@ export class ChessEngine {
       }, 0);
 
       for (let i = maxDist + 1; i <= maxDist + bonus; i++) {
-        const pos = { row: row + dRow * i, col: col + dCol * i };
-        if (this.isValidPosition(pos)) {
+        const pos = this.step(piece.position, dRow * i, dCol * i, geometry);
+        if (pos) {
           const target = this.getPieceAt(board, pos);
           if (!target || target.color !== piece.color) {
             moves.push(pos);
@@ -1210,19 +1325,19 @@ export class ChessEngine {
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
     existingMoves: Position[],
+    geometry: BoardGeometry,
   ): Position[] {
     const moves = [...existingMoves];
-    const { row, col } = piece.position;
     const direction = piece.color === "white" ? -1 : 1;
 
     // Allow double move even after first move
-    const singleForward = { row: row + direction, col };
-    const doubleForward = { row: row + direction * 2, col };
+    const singleForward = this.step(piece.position, direction, 0, geometry);
+    const doubleForward = this.step(piece.position, direction * 2, 0, geometry);
 
     if (
-      this.isValidPosition(singleForward) &&
+      singleForward &&
       !this.getPieceAt(board, singleForward) &&
-      this.isValidPosition(doubleForward) &&
+      doubleForward &&
       !this.getPieceAt(board, doubleForward)
     ) {
       if (
@@ -1241,6 +1356,7 @@ export class ChessEngine {
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
     existingMoves: Position[],
+    geometry: BoardGeometry,
   ): Position[] {
     // For rooks, allow jumping over one allied piece
     const moves = [...existingMoves];
@@ -1254,9 +1370,9 @@ export class ChessEngine {
 
     directions.forEach(([dRow, dCol]) => {
       let jumped = false;
-      for (let i = 1; i < 8; i++) {
-        const pos = { row: row + dRow * i, col: col + dCol * i };
-        if (!this.isValidPosition(pos)) break;
+      for (let i = 1; i < this.maxRayLength(geometry); i++) {
+        const pos = this.step(piece.position, dRow * i, dCol * i, geometry);
+        if (!pos || (pos.row === row && pos.col === col)) break;
 
         const target = this.getPieceAt(board, pos);
         if (target) {
@@ -1282,11 +1398,13 @@ export class ChessEngine {
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
     existingMoves: Position[],
+    geometry: BoardGeometry,
   ): Position[] {
     // Queen can teleport anywhere on board except onto kings
     const moves: Position[] = [...existingMoves];
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
+    for (let row = 0; row < board.length; row++) {
+      for (let col = 0; col < board[row].length; col++) {
+        if (!this.isValidPosition({ row, col }, geometry)) continue;
         if (row !== piece.position.row || col !== piece.position.col) {
           const target = this.getPieceAt(board, { row, col });
           if (target?.type === "king") {
@@ -1305,9 +1423,9 @@ export class ChessEngine {
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
     range: number,
+    geometry: BoardGeometry,
   ): Position[] {
     const moves: Position[] = [];
-    const { row, col } = piece.position;
     const directions = [
       [-1, 0],
       [1, 0],
@@ -1317,8 +1435,8 @@ export class ChessEngine {
 
     directions.forEach(([dRow, dCol]) => {
       for (let i = 1; i <= range; i++) {
-        const pos = { row: row + dRow * i, col: col + dCol * i };
-        if (this.isValidPosition(pos)) {
+        const pos = this.step(piece.position, dRow * i, dCol * i, geometry);
+        if (pos) {
           const target = this.getPieceAt(board, pos);
           if (!target || target.color !== piece.color) {
             moves.push(pos);
@@ -1335,9 +1453,9 @@ export class ChessEngine {
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
     range: number,
+    geometry: BoardGeometry,
   ): Position[] {
     const moves: Position[] = [];
-    const { row, col } = piece.position;
     const directions = [
       [-1, -1],
       [-1, 1],
@@ -1347,8 +1465,8 @@ export class ChessEngine {
 
     directions.forEach(([dRow, dCol]) => {
       for (let i = 1; i <= range; i++) {
-        const pos = { row: row + dRow * i, col: col + dCol * i };
-        if (this.isValidPosition(pos)) {
+        const pos = this.step(piece.position, dRow * i, dCol * i, geometry);
+        if (pos) {
           const target = this.getPieceAt(board, pos);
           if (!target || target.color !== piece.color) {
             moves.push(pos);
@@ -1364,18 +1482,18 @@ export class ChessEngine {
   private static getLateralMoves(
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
+    geometry: BoardGeometry,
   ): Position[] {
     const moves: Position[] = [];
-    const { row, col } = piece.position;
 
     // Lateral (horizontal) moves for pawns
     const lateralPositions = [
-      { row, col: col - 1 },
-      { row, col: col + 1 },
+      this.step(piece.position, 0, -1, geometry),
+      this.step(piece.position, 0, 1, geometry),
     ];
 
     lateralPositions.forEach((pos) => {
-      if (this.isValidPosition(pos)) {
+      if (pos) {
         const target = this.getPieceAt(board, pos);
         if (!target) {
           moves.push(pos);
@@ -1389,15 +1507,15 @@ export class ChessEngine {
   private static getBackwardMoves(
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
+    geometry: BoardGeometry,
   ): Position[] {
     if (piece.type !== "pawn") return [];
 
     const moves: Position[] = [];
-    const { row, col } = piece.position;
     const direction = piece.color === "white" ? 1 : -1;
-    const backward = { row: row + direction, col };
+    const backward = this.step(piece.position, direction, 0, geometry);
 
-    if (this.isValidPosition(backward) && !this.getPieceAt(board, backward)) {
+    if (backward && !this.getPieceAt(board, backward)) {
       moves.push(backward);
     }
 
@@ -1408,20 +1526,20 @@ export class ChessEngine {
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
     range: number,
+    geometry: BoardGeometry,
   ): Position[] {
     const moves: Position[] = [];
-    const { row, col } = piece.position;
     const direction = piece.color === "white" ? -1 : 1;
 
     // Extended diagonal captures for pawns
     for (let i = 1; i <= range; i++) {
       const capturePositions = [
-        { row: row + direction * i, col: col - i },
-        { row: row + direction * i, col: col + i },
+        this.step(piece.position, direction * i, -i, geometry),
+        this.step(piece.position, direction * i, i, geometry),
       ];
 
       capturePositions.forEach((pos) => {
-        if (this.isValidPosition(pos)) {
+        if (pos) {
           const target = this.getPieceAt(board, pos);
           if (target && target.color !== piece.color) {
             moves.push(pos);
@@ -1437,13 +1555,13 @@ export class ChessEngine {
   private static getForwardCaptures(
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
+    geometry: BoardGeometry,
   ): Position[] {
     const moves: Position[] = [];
-    const { row, col } = piece.position;
     const direction = piece.color === "white" ? -1 : 1;
 
-    const forwardPos = { row: row + direction, col };
-    if (this.isValidPosition(forwardPos)) {
+    const forwardPos = this.step(piece.position, direction, 0, geometry);
+    if (forwardPos) {
       const target = this.getPieceAt(board, forwardPos);
       if (target && target.color !== piece.color) {
         moves.push(forwardPos);
@@ -1457,17 +1575,17 @@ export class ChessEngine {
   private static getLateralCaptures(
     board: (ChessPiece | null)[][],
     piece: ChessPiece,
+    geometry: BoardGeometry,
   ): Position[] {
     const moves: Position[] = [];
-    const { row, col } = piece.position;
 
     const lateralPositions = [
-      { row, col: col - 1 },
-      { row, col: col + 1 },
+      this.step(piece.position, 0, -1, geometry),
+      this.step(piece.position, 0, 1, geometry),
     ];
 
     lateralPositions.forEach((pos) => {
-      if (this.isValidPosition(pos)) {
+      if (pos) {
         const target = this.getPieceAt(board, pos);
         if (target && target.color !== piece.color) {
           moves.push(pos);
@@ -1518,7 +1636,7 @@ export class ChessEngine {
         }
       }
 
-      if (destination.row === 0 || destination.row === 7) {
+      if (destination.row === 0 || destination.row === board.length - 1) {
         move.promotion = "queen";
       }
     }
@@ -1528,7 +1646,10 @@ export class ChessEngine {
       Math.abs(destination.col - piece.position.col) === 2
     ) {
       move.isCastling = true;
-      const rookCol = destination.col > piece.position.col ? 7 : 0;
+      const rookCol =
+        destination.col > piece.position.col
+          ? board[destination.row].length - 1
+          : 0;
       const rookTargetCol =
         destination.col > piece.position.col
           ? destination.col - 1
@@ -1640,8 +1761,8 @@ export class ChessEngine {
     gameState: GameState,
     options: MoveGenerationOptions = {},
   ): boolean {
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
+    for (let row = 0; row < board.length; row++) {
+      for (let col = 0; col < board[row].length; col++) {
         const piece = board[row][col];
         if (!piece || piece.color !== byColor) continue;
 
@@ -1679,8 +1800,8 @@ export class ChessEngine {
   ): boolean {
     // Find king
     let kingPos: Position | null = null;
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
+    for (let row = 0; row < board.length; row++) {
+      for (let col = 0; col < board[row].length; col++) {
         const piece = board[row][col];
         if (piece && piece.type === "king" && piece.color === color) {
           kingPos = { row, col };
@@ -1705,8 +1826,8 @@ export class ChessEngine {
     color: PieceColor,
     gameState: GameState,
   ): boolean {
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
+    for (let row = 0; row < board.length; row++) {
+      for (let col = 0; col < board[row].length; col++) {
         const piece = board[row][col];
         if (!piece || piece.color !== color) continue;
 
@@ -1,26 +1,14 @@
 import type { PieceColor, PieceType } from '@/types/chess';
+import { pieceFenLetter, type FairyPieceDefinition } from '@/rules-v2/fairy-pieces';
 
 export type SerializedBoardState = {
-  pieces: Array<{ type: PieceType; color: PieceColor; row: number; col: number }>;
-};
-
-const PIECE_SYMBOLS: Record<PieceColor, Record<PieceType, string>> = {
-  white: {
-    king: 'K',
-    queen: 'Q',
-    rook: 'R',
-    bishop: 'B',
-    knight: 'N',
-    pawn: 'P',
-  },
-  black: {
-    king: 'k',
-    queen: 'q',
-    rook: 'r',
-    bishop: 'b',
-    knight: 'n',
-    pawn: 'p',
-  },
+  pieces: Array<{
+    type: PieceType;
+    color: PieceColor;
+    row: number;
+    col: number;
+    fairy?: FairyPieceDefinition;
+  }>;
 };
 
 const EMPTY_BOARD = () => Array.from({ length: 8 }, () => Array<string | null>(8).fill(null));
@@ -56,8 +44,7 @@ export const boardStateToFen = (
   const board = EMPTY_BOARD();
 
   snapshot.pieces.forEach(piece => {
-    const symbol = PIECE_SYMBOLS[piece.color][piece.type];
-    board[piece.row][piece.col] = symbol;
+    board[piece.row][piece.col] = pieceFenLetter(piece);
   });
 
   const ranks = board.map(row => serializeRow(row));
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+
+import { ChessEngine } from "./chessEngine";
+import {
+  ExtendedFenError,
+  parseExtendedPosition,
+  serializeExtendedPosition,
+} from "./extendedFen";
+import { applyMoveToGameState, createStandardGameState } from "./gameMoveState";
+import type { GameState, Position } from "@/types/chess";
+
+const STANDARD_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+const square = (name: string): Position => ({
+  row: 8 - Number(name[1]),
+  col: name.charCodeAt(0) - 97,
+});
+
+const play = (state: GameState, from: string, to: string): GameState => {
+  const piece = ChessEngine.getPieceAt(state.board, square(from));
+  const applied = piece && applyMoveToGameState(state, piece, square(to));
+  if (!applied) throw new Error(`coup refusé : ${from}${to}`);
+  return applied.state;
+};
+
+describe("serializeExtendedPosition", () => {
+  it("writes a plain FEN when no variant state is present", () => {
+    expect(serializeExtendedPosition(createStandardGameState())).toBe(
+      STANDARD_FEN,
+    );
+
+    const afterE4 = play(createStandardGameState(), "e2", "e4");
+    expect(serializeExtendedPosition(afterE4)).toMatch(
+      /^rnbqkbnr\/pppppppp\/8\/8\/4P3\/8\/PPPP1PPP\/RNBQKBNR b KQkq e3 0 1 x1:/,
+    );
+  });
+});
+
+describe("parseExtendedPosition", () => {
+  it("round-trips variant state and the rule engine storage", () => {
+    const state = play(createStandardGameState(), "e2", "e4");
+    const knight = state.board[0][1]!;
+    knight.isHidden = true;
+    knight.specialState = { carnivorousPlant: { active: true } };
+    (knight as typeof knight & { __engineId?: string }).__engineId = "piece_7";
+    state.freezeEffects = [
+      { color: "black", position: square("d7"), remainingTurns: 2 },
+    ];
+    state.freezeUsage = { white: true, black: false };
+    state.pendingExtraMoves = { white: 1, black: 0 };
+    state.vipTokens = { white: 0, black: 3 };
+    state.specialAttacks = [
+      {
+        id: "bomb-1",
+        ability: "deployBomb",
+        owner: "white",
+        position: square("e5"),
+        radius: 1,
+        countdown: 3,
+        remaining: 2,
+        damage: 1,
+        trigger: "countdown",
+        animation: "explosion",
+        sound: "explosion",
+        ruleName: "Bombe à retardement",
+      },
+    ];
+    const engine = {
+      rules: JSON.stringify({
+        traps: { e5: { kind: "mine", owner: "white" } },
+      }),
+      cooldowns: JSON.stringify([["piece_7|dash", 2]]),
+      decals: [["e5", "trap_icon"]] as Array<[string, string]>,
+    };
+
+    const loaded = parseExtendedPosition(
+      serializeExtendedPosition(state, engine),
+    );
+
+    expect(loaded.engine).toEqual(engine);
+    expect(loaded.state.currentPlayer).toBe("black");
+    expect(loaded.state.board[0][1]).toMatchObject({
+      type: "knight",
+      isHidden: true,
+      specialState: { carnivorousPlant: { active: true } },
+      __engineId: "piece_7",
+    });
+    expect(loaded.state.freezeEffects).toEqual(state.freezeEffects);
+    expect(loaded.state.freezeUsage).toEqual(state.freezeUsage);
+    expect(loaded.state.pendingExtraMoves).toEqual(state.pendingExtraMoves);
+    expect(loaded.state.vipTokens).toEqual(state.vipTokens);
+    expect(loaded.state.specialAttacks).toEqual(state.specialAttacks);
+    expect(loaded.state.positionHistory).toEqual(state.positionHistory);
+    expect(loaded.state.moveHistory).toHaveLength(1);
+    expect(loaded.state.lastMoveByColor.white?.to).toEqual(square("e4"));
+    expect(serializeExtendedPosition(loaded.state, loaded.engine)).toBe(
+      serializeExtendedPosition(state, engine),
+    );
+  });
+
+  it("derives castling and en passant from a plain FEN", () => {
+    const { state, engine, ruleIds } = parseExtendedPosition(
+      "rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w Kq f6 0 3",
+    );
+
+    expect(engine).toBeNull();
+    expect(ruleIds).toEqual([]);
+    expect(state.turnNumber).toBe(3);
+    expect(state.board[7][4]?.hasMoved).toBe(false);
+    expect(state.board[7][0]?.hasMoved).toBe(true);
+    expect(state.board[7][7]?.hasMoved).toBe(false);
+    expect(state.board[0][7]?.hasMoved).toBe(true);
+    const pawn = ChessEngine.getPieceAt(state.board, square("e5"))!;
+    expect(
+      ChessEngine.getValidMoves(state.board, pawn, {
+        ...state,
+        selectedPiece: pawn,
+      }),
+    ).toContainEqual(square("f6"));
+  });
+
+  it("rejects malformed positions instead of guessing", () => {
+    const reject = (text: string) =>
+      expect(() => parseExtendedPosition(text)).toThrow(ExtendedFenError);
+
+    reject("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP w KQkq - 0 1");
+    reject("rnbqkbnr/ppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1");
+    reject("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR x KQkq - 0 1");
+    reject("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq e3 0 1");
+    reject("4k3/8/8/8/8/8/8/4K3 w K - 0 1");
+    reject(`${STANDARD_FEN} x1:not*base64`);
+    reject(
+      `${STANDARD_FEN} x1:${btoa(JSON.stringify({ v: 2 })).replace(/=+$/, "")}`,
+    );
+    reject(
+      `${STANDARD_FEN} x1:${btoa(
+        JSON.stringify({ v: 1, freezeEffects: [{ color: "red" }] }),
+      ).replace(/=+$/, "")}`,
+    );
+  });
+});
@@ -0,0 +1,907 @@
+import { ChessEngine } from "@/lib/chessEngine";
+import { isStandardBoardGeometry } from "@/rules-v2/board-geometry";
+import type {
+  ChessMove,
+  ChessPiece,
+  ChessRule,
+  GameState,
+  PieceColor,
+  PieceType,
+  Position,
+  SpecialAttackInstance,
+} from "@/types/chess";
+
+/**
+ * Extended position notation: a standard six-field FEN followed by an optional
+ * `x1:` token carrying the variant state FEN cannot express (hidden pieces,
+ * freezes, pending bonuses, special attacks, rule engine storage...).
+ *
+ * The token is base64url-encoded JSON, so the whole position stays one line
+ * that can be pasted anywhere. A plain FEN is a valid extended position.
+ */
+
+/** Serialized `StateStore`/`Cooldown` contents plus the board decals. */
+export interface RuleEngineSnapshot {
+  rules: string;
+  cooldowns: string;
+  decals?: Array<[string, string]>;
+}
+
+export interface ExtendedPosition {
+  state: GameState;
+  engine: RuleEngineSnapshot | null;
+  /** Rule ids active when the position was written. */
+  ruleIds: string[];
+}
+
+export class ExtendedFenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExtendedFenError";
+  }
+}
+
+interface PieceExtension {
+  hasMoved?: boolean;
+  hidden?: boolean;
+  engineId?: string;
+  specialState?: ChessPiece["specialState"];
+}
+
+interface PositionExtension {
+  v: 1;
+  ruleIds?: string[];
+  gameStatus?: "draw" | "timeout";
+  movesThisTurn?: number;
+  extraMoves?: number;
+  pieces?: Record<string, PieceExtension>;
+  capturedPieces?: string;
+  lastMove?: ChessMove;
+  lastMoveByColor?: GameState["lastMoveByColor"];
+  replayOpportunities?: GameState["replayOpportunities"];
+  forcedMirrorResponse?: GameState["forcedMirrorResponse"];
+  pendingExtraMoves?: GameState["pendingExtraMoves"];
+  freezeEffects?: GameState["freezeEffects"];
+  freezeUsage?: GameState["freezeUsage"];
+  pendingTransformations?: GameState["pendingTransformations"];
+  vipTokens?: GameState["vipTokens"];
+  blindOpeningRevealed?: GameState["blindOpeningRevealed"];
+  secretSetupApplied?: boolean;
+  specialAttacks?: SpecialAttackInstance[];
+  positionHistory?: GameState["positionHistory"];
+  engine?: RuleEngineSnapshot;
+}
+
+const EXTENSION_PREFIX = "x1:";
+const MAX_POSITION_LENGTH = 64_000;
+const FILES = "abcdefgh";
+const COLORS: readonly PieceColor[] = ["white", "black"];
+const PIECE_TYPES: readonly PieceType[] = [
+  "king",
+  "queen",
+  "rook",
+  "bishop",
+  "knight",
+  "pawn",
+];
+const FEN_LETTERS: Record<PieceType, string> = {
+  king: "k",
+  queen: "q",
+  rook: "r",
+  bishop: "b",
+  knight: "n",
+  pawn: "p",
+  // Never written: positions with fairy pieces are refused.
+  fairy: "",
+};
+const LETTER_TYPES: Record<string, PieceType> = {
+  k: "king",
+  q: "queen",
+  r: "rook",
+  b: "bishop",
+  n: "knight",
+  p: "pawn",
+};
+const HOME_COLUMNS: Record<PieceType, readonly number[]> = {
+  king: [4],
+  queen: [3],
+  rook: [0, 7],
+  bishop: [2, 5],
+  knight: [1, 6],
+  pawn: [0, 1, 2, 3, 4, 5, 6, 7],
+  fairy: [],
+};
+const CASTLING_ROOKS: ReadonlyArray<{
+  flag: string;
+  color: PieceColor;
+  col: number;
+}> = [
+  { flag: "K", color: "white", col: 7 },
+  { flag: "Q", color: "white", col: 0 },
+  { flag: "k", color: "black", col: 7 },
+  { flag: "q", color: "black", col: 0 },
+];
+
+const squareName = (position: Position): string =>
+  `${FILES[position.col]}${8 - position.row}`;
+
+const parseSquare = (square: string): Position | null =>
+  /^[a-h][1-8]$/.test(square)
+    ? { row: 8 - Number(square[1]), col: FILES.indexOf(square[0]) }
+    : null;
+
+const homeRow = (color: PieceColor, type: PieceType): number => {
+  if (type === "pawn") return color === "white" ? 6 : 1;
+  return color === "white" ? 7 : 0;
+};
+
+/**
+ * What a plain FEN implies for `hasMoved`: kings and corner rooks follow the
+ * castling rights, every other piece has moved once it left its home square.
+ */
+const impliedHasMoved = (piece: ChessPiece, rights: string): boolean => {
+  const { row, col } = piece.position;
+  if (row === homeRow(piece.color, piece.type)) {
+    if (piece.type === "king" && col === 4) {
+      return !CASTLING_ROOKS.some(
+        (entry) => entry.color === piece.color && rights.includes(entry.flag),
+      );
+    }
+    const corner = CASTLING_ROOKS.find(
+      (entry) => entry.color === piece.color && entry.col === col,
+    );
+    if (piece.type === "rook" && corner) return !rights.includes(corner.flag);
+  }
+  return (
+    row !== homeRow(piece.color, piece.type) ||
+    !HOME_COLUMNS[piece.type].includes(col)
+  );
+};
+
+const pieceAt = (
+  board: GameState["board"],
+  row: number,
+  col: number,
+): ChessPiece | null => board[row]?.[col] ?? null;
+
+const castlingRights = (board: GameState["board"]): string => {
+  const rights = CASTLING_ROOKS.filter(({ color, col }) => {
+    const row = homeRow(color, "king");
+    const king = pieceAt(board, row, 4);
+    const rook = pieceAt(board, row, col);
+    return (
+      king?.type === "king" &&
+      king.color === color &&
+      !king.hasMoved &&
+      rook?.type === "rook" &&
+      rook.color === color &&
+      !rook.hasMoved
+    );
+  }).map(({ flag }) => flag);
+  return rights.length > 0 ? rights.join("") : "-";
+};
+
+const enPassantSquare = (lastMove: ChessMove | undefined): string => {
+  if (
+    !lastMove ||
+    lastMove.piece.type !== "pawn" ||
+    Math.abs(lastMove.from.row - lastMove.to.row) !== 2
+  ) {
+    return "-";
+  }
+  return squareName({
+    row: (lastMove.from.row + lastMove.to.row) / 2,
+    col: lastMove.to.col,
+  });
+};
+
+const halfmoveClock = (moves: readonly ChessMove[]): number => {
+  let count = 0;
+  for (let index = moves.length - 1; index >= 0; index -= 1) {
+    const move = moves[index];
+    if (move.piece.type === "pawn" || move.captured) break;
+    count += 1;
+  }
+  return count;
+};
+
+const engineId = (piece: ChessPiece): string | undefined => {
+  const value = (piece as ChessPiece & { __engineId?: unknown }).__engineId;
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+};
+
+const stripMove = (move: ChessMove): ChessMove => {
+  const { boardSnapshot: _snapshot, ...rest } = move;
+  return rest;
+};
+
+const encodePayload = (value: unknown): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const decodePayload = (token: string): unknown => {
+  if (!/^[A-Za-z0-9_-]+$/.test(token)) {
+    throw new ExtendedFenError("Extension de position illisible.");
+  }
+  try {
+    const base64 = token.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+    const binary = atob(padded);
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return JSON.parse(new TextDecoder("utf-8", { fatal: true }).decode(bytes));
+  } catch {
+    throw new ExtendedFenError("Extension de position illisible.");
+  }
+};
+
+const isEmptyEngineSnapshot = (engine: RuleEngineSnapshot): boolean =>
+  (engine.rules === "{}" || engine.rules === "") &&
+  (engine.cooldowns === "[]" || engine.cooldowns === "") &&
+  (engine.decals ?? []).length === 0;
+
+const bothSides = <T>(record: Record<PieceColor, T>, fallback: T): boolean =>
+  record.white === fallback && record.black === fallback;
+
+/** Writes `state` (and optionally the rule engine storage) as one line. */
+export function serializeExtendedPosition(
+  state: GameState,
+  engine: RuleEngineSnapshot | null = null,
+): string {
+  if (!isStandardBoardGeometry(state.geometry)) {
+    throw new ExtendedFenError(
+      "Seul le plateau standard 8×8 peut être copié comme position.",
+    );
+  }
+  if (
+    state.board.some((row) => row.some((piece) => piece?.type === "fairy")) ||
+    state.capturedPieces.some((piece) => piece.type === "fairy")
+  ) {
+    throw new ExtendedFenError(
+      "Une position avec des pièces féeriques ne peut pas être copiée.",
+    );
+  }
+  const ranks: string[] = [];
+  const pieces: Record<string, PieceExtension> = {};
+  const castling = castlingRights(state.board);
+
+  for (let row = 0; row < 8; row += 1) {
+    let rank = "";
+    let empty = 0;
+    for (let col = 0; col < 8; col += 1) {
+      const piece = pieceAt(state.board, row, col);
+      if (!piece) {
+        empty += 1;
+        continue;
+      }
+      if (empty > 0) rank += String(empty);
+      empty = 0;
+      const letter = FEN_LETTERS[piece.type];
+      rank += piece.color === "white" ? letter.toUpperCase() : letter;
+
+      const extension: PieceExtension = {};
+      const implied = impliedHasMoved(
+        { ...piece, position: { row, col } },
+        castling,
+      );
+      if (Boolean(piece.hasMoved) !== implied) {
+        extension.hasMoved = Boolean(piece.hasMoved);
+      }
+      if (piece.isHidden) extension.hidden = true;
+      const id = engineId(piece);
+      if (id) extension.engineId = id;
+      if (piece.specialState && Object.keys(piece.specialState).length > 0) {
+        extension.specialState = piece.specialState;
+      }
+      if (Object.keys(extension).length > 0) {
+        pieces[squareName({ row, col })] = extension;
+      }
+    }
+    if (empty > 0) rank += String(empty);
+    ranks.push(rank);
+  }
+
+  const lastMove = state.moveHistory[state.moveHistory.length - 1];
+  const fen = [
+    ranks.join("/"),
+    state.currentPlayer === "white" ? "w" : "b",
+    castling,
+    enPassantSquare(lastMove),
+    String(halfmoveClock(state.moveHistory)),
+    String(Math.max(1, state.turnNumber)),
+  ].join(" ");
+
+  const extension: PositionExtension = { v: 1 };
+  const ruleIds = state.activeRules.map((rule) => rule.ruleId);
+  if (ruleIds.length > 0) extension.ruleIds = ruleIds;
+  if (state.gameStatus === "draw" || state.gameStatus === "timeout") {
+    extension.gameStatus = state.gameStatus;
+  }
+  if (state.movesThisTurn > 0) extension.movesThisTurn = state.movesThisTurn;
+  if (state.extraMoves > 0) extension.extraMoves = state.extraMoves;
+  if (Object.keys(pieces).length > 0) extension.pieces = pieces;
+  if (state.capturedPieces.length > 0) {
+    extension.capturedPieces = state.capturedPieces
+      .map((piece) => {
+        const letter = FEN_LETTERS[piece.type];
+        return piece.color === "white" ? letter.toUpperCase() : letter;
+      })
+      .join("");
+  }
+  if (lastMove) extension.lastMove = stripMove(lastMove);
+  const lastByColor = Object.fromEntries(
+    COLORS.flatMap((color) => {
+      const move = state.lastMoveByColor[color];
+      return move ? [[color, stripMove(move)]] : [];
+    }),
+  ) as GameState["lastMoveByColor"];
+  if (Object.keys(lastByColor).length > 0) {
+    extension.lastMoveByColor = lastByColor;
+  }
+  if (Object.keys(state.replayOpportunities).length > 0) {
+    extension.replayOpportunities = state.replayOpportunities;
+  }
+  if (state.forcedMirrorResponse) {
+    extension.forcedMirrorResponse = state.forcedMirrorResponse;
+  }
+  if (!bothSides(state.pendingExtraMoves, 0)) {
+    extension.pendingExtraMoves = state.pendingExtraMoves;
+  }
+  if (state.freezeEffects.length > 0) {
+    extension.freezeEffects = state.freezeEffects;
+  }
+  if (!bothSides(state.freezeUsage, false)) {
+    extension.freezeUsage = state.freezeUsage;
+  }
+  if (!bothSides(state.pendingTransformations, false)) {
+    extension.pendingTransformations = state.pendingTransformations;
+  }
+  if (!bothSides(state.vipTokens, 0)) extension.vipTokens = state.vipTokens;
+  if (!bothSides(state.blindOpeningRevealed, false)) {
+    extension.blindOpeningRevealed = state.blindOpeningRevealed;
+  }
+  if (state.secretSetupApplied) extension.secretSetupApplied = true;
+  if (state.specialAttacks.length > 0) {
+    extension.specialAttacks = state.specialAttacks;
+  }
+  const signature = ChessEngine.getBoardSignature(state.board);
+  const history = Object.entries(state.positionHistory);
+  if (
+    history.length !== 1 ||
+    history[0][0] !== signature ||
+    history[0][1] !== 1
+  ) {
+    extension.positionHistory = state.positionHistory;
+  }
+  if (engine && !isEmptyEngineSnapshot(engine)) extension.engine = engine;
+
+  return Object.keys(extension).length > 1
+    ? `${fen} ${EXTENSION_PREFIX}${encodePayload(extension)}`
+    : fen;
+}
+
+/* ------------------------------------------------------------------------ */
+/*                                 Parsing                                  */
+/* ------------------------------------------------------------------------ */
+
+function invalid(detail: string): never {
+  throw new ExtendedFenError(`Position invalide : ${detail}.`);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  Number.isInteger(value) && Number(value) >= 0 && Number(value) <= 10_000;
+
+const isColor = (value: unknown): value is PieceColor =>
+  value === "white" || value === "black";
+
+const isPieceType = (value: unknown): value is PieceType =>
+  PIECE_TYPES.includes(value as PieceType);
+
+const readPosition = (value: unknown, field: string): Position => {
+  if (
+    !isRecord(value) ||
+    !Number.isInteger(value.row) ||
+    !Number.isInteger(value.col) ||
+    Number(value.row) < 0 ||
+    Number(value.row) > 7 ||
+    Number(value.col) < 0 ||
+    Number(value.col) > 7
+  ) {
+    return invalid(`case hors plateau dans ${field}`);
+  }
+  return { row: Number(value.row), col: Number(value.col) };
+};
+
+const readSides = <T>(
+  value: unknown,
+  field: string,
+  check: (entry: unknown) => entry is T,
+): Record<PieceColor, T> => {
+  if (!isRecord(value) || !check(value.white) || !check(value.black)) {
+    return invalid(field);
+  }
+  return { white: value.white, black: value.black };
+};
+
+const isBoolean = (value: unknown): value is boolean =>
+  typeof value === "boolean";
+
+const readPiece = (value: unknown, field: string): ChessPiece => {
+  if (!isRecord(value) || !isPieceType(value.type) || !isColor(value.color)) {
+    return invalid(field);
+  }
+  const piece: ChessPiece = {
+    type: value.type,
+    color: value.color,
+    position: readPosition(value.position, field),
+  };
+  if (isBoolean(value.hasMoved)) piece.hasMoved = value.hasMoved;
+  if (isBoolean(value.isHidden)) piece.isHidden = value.isHidden;
+  if (isRecord(value.specialState)) {
+    piece.specialState = value.specialState as ChessPiece["specialState"];
+  }
+  return piece;
+};
+
+const readMove = (value: unknown, field: string): ChessMove => {
+  if (!isRecord(value)) return invalid(field);
+  const move: ChessMove = {
+    from: readPosition(value.from, field),
+    to: readPosition(value.to, field),
+    piece: readPiece(value.piece, field),
+  };
+  if (value.captured !== undefined) {
+    move.captured = readPiece(value.captured, field);
+  }
+  if (isBoolean(value.isEnPassant)) move.isEnPassant = value.isEnPassant;
+  if (isBoolean(value.isCastling)) move.isCastling = value.isCastling;
+  if (value.rookFrom !== undefined) {
+    move.rookFrom = readPosition(value.rookFrom, field);
+  }
+  if (value.rookTo !== undefined) {
+    move.rookTo = readPosition(value.rookTo, field);
+  }
+  if (value.promotion !== undefined) {
+    if (!isPieceType(value.promotion)) return invalid(field);
+    move.promotion = value.promotion;
+  }
+  if (typeof value.notation === "string") move.notation = value.notation;
+  if (typeof value.timestamp === "string") move.timestamp = value.timestamp;
+  return move;
+};
+
+const readSpecialAttack = (value: unknown): SpecialAttackInstance => {
+  const field = "specialAttacks";
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    (value.ability !== "deployBomb" &&
+      value.ability !== "deployMine" &&
+      value.ability !== "freezeMissile") ||
+    !isColor(value.owner) ||
+    (value.trigger !== "countdown" && value.trigger !== "contact") ||
+    !isCount(value.radius) ||
+    !isCount(value.countdown) ||
+    !isCount(value.remaining) ||
+    !isCount(value.damage) ||
+    typeof value.animation !== "string" ||
+    typeof value.sound !== "string" ||
+    typeof value.ruleName !== "string" ||
+    (value.freezeTurns !== undefined && !isCount(value.freezeTurns))
+  ) {
+    return invalid(field);
+  }
+  const attack: SpecialAttackInstance = {
+    id: value.id,
+    ability: value.ability,
+    owner: value.owner,
+    position: readPosition(value.position, field),
+    radius: value.radius,
+    countdown: value.countdown,
+    remaining: value.remaining,
+    damage: value.damage,
+    trigger: value.trigger,
+    animation: value.animation,
+    sound: value.sound,
+    ruleName: value.ruleName,
+  };
+  if (isCount(value.freezeTurns)) attack.freezeTurns = value.freezeTurns;
+  return attack;
+};
+
+const readEngine = (value: unknown): RuleEngineSnapshot => {
+  if (
+    !isRecord(value) ||
+    typeof value.rules !== "string" ||
+    typeof value.cooldowns !== "string"
+  ) {
+    return invalid("état du moteur de règles");
+  }
+  const decals = value.decals ?? [];
+  if (
+    !Array.isArray(decals) ||
+    decals.some(
+      (entry) =>
+        !Array.isArray(entry) ||
+        entry.length !== 2 ||
+        parseSquare(String(entry[0])) === null ||
+        typeof entry[1] !== "string",
+    )
+  ) {
+    return invalid("décors du plateau");
+  }
+  return {
+    rules: value.rules,
+    cooldowns: value.cooldowns,
+    decals: decals as Array<[string, string]>,
+  };
+};
+
+const parsePlacement = (
+  placement: string,
+  rights: string,
+): GameState["board"] => {
+  const ranks = placement.split("/");
+  if (ranks.length !== 8) invalid("huit rangées sont requises");
+  const board = ChessEngine.createEmptyBoard();
+  ranks.forEach((rank, row) => {
+    let col = 0;
+    for (const token of rank) {
+      if (/^[1-8]$/.test(token)) {
+        col += Number(token);
+        continue;
+      }
+      const type = LETTER_TYPES[token.toLowerCase()];
+      if (!type || col > 7) invalid(`pièce inconnue « ${token} »`);
+      const color: PieceColor =
+        token === token.toUpperCase() ? "white" : "black";
+      const piece: ChessPiece = {
+        type,
+        color,
+        position: { row, col },
+        isHidden: false,
+      };
+      piece.hasMoved = impliedHasMoved(piece, rights);
+      board[row][col] = piece;
+      col += 1;
+    }
+    if (col !== 8) invalid(`rangée ${8 - row} incomplète`);
+  });
+  return board;
+};
+
+const assertCastlingRights = (board: GameState["board"], rights: string) => {
+  for (const { flag, color, col } of CASTLING_ROOKS) {
+    if (!rights.includes(flag)) continue;
+    const row = homeRow(color, "king");
+    const king = pieceAt(board, row, 4);
+    const rook = pieceAt(board, row, col);
+    if (
+      king?.type !== "king" ||
+      king.color !== color ||
+      rook?.type !== "rook" ||
+      rook.color !== color
+    ) {
+      invalid(`droit de roque « ${flag} » sans roi ni tour`);
+    }
+  }
+};
+
+/** The double pawn step a FEN en passant square implies. */
+const impliedPawnPush = (
+  board: GameState["board"],
+  square: string,
+  sideToMove: PieceColor,
+): ChessMove => {
+  const target = parseSquare(square);
+  const mover: PieceColor = sideToMove === "white" ? "black" : "white";
+  const expectedRow = mover === "white" ? 5 : 2;
+  if (!target || target.row !== expectedRow) {
+    return invalid(`case en passant « ${square} »`);
+  }
+  const step = mover === "white" ? -1 : 1;
+  const to = { row: target.row + step, col: target.col };
+  const from = { row: target.row - step, col: target.col };
+  const pawn = pieceAt(board, to.row, to.col);
+  if (pawn?.type !== "pawn" || pawn.color !== mover) {
+    return invalid(`case en passant « ${square} » sans pion`);
+  }
+  return { from, to, piece: { ...pawn, position: from } };
+};
+
+const sameMove = (left: ChessMove, right: ChessMove): boolean =>
+  left.from.row === right.from.row &&
+  left.from.col === right.from.col &&
+  left.to.row === right.to.row &&
+  left.to.col === right.to.col;
+
+/**
+ * Restores a position written by `serializeExtendedPosition`, or any plain
+ * FEN. The notation does not carry rule definitions: `activeRules` are those
+ * the caller will play with, compare them against `ruleIds` if needed.
+ */
+export function parseExtendedPosition(
+  text: string,
+  activeRules: ChessRule[] = [],
+): ExtendedPosition {
+  if (typeof text !== "string" || text.length > MAX_POSITION_LENGTH) {
+    invalid("texte trop long");
+  }
+  const fields = text.trim().split(/\s+/);
+  const extensionToken = fields[fields.length - 1]?.startsWith(EXTENSION_PREFIX)
+    ? fields.pop()
+    : undefined;
+  if (fields.length < 4 || fields.length > 6) {
+    invalid("six champs FEN sont attendus");
+  }
+  const [placement, side, rights, epSquare, , fullmove = "1"] = fields;
+  if (side !== "w" && side !== "b") invalid("trait inconnu");
+  if (!/^(-|K?Q?k?q?)$/.test(rights) || rights === "") {
+    invalid("droits de roque");
+  }
+  if (epSquare !== "-" && parseSquare(epSquare) === null) {
+    invalid(`case en passant « ${epSquare} »`);
+  }
+  if (!/^[1-9]\d{0,4}$/.test(fullmove)) invalid("numéro de coup");
+
+  const board = parsePlacement(placement, rights);
+  assertCastlingRights(board, rights);
+  const currentPlayer: PieceColor = side === "w" ? "white" : "black";
+
+  const raw: unknown = extensionToken
+    ? decodePayload(extensionToken.slice(EXTENSION_PREFIX.length))
+    : { v: 1 };
+  if (!isRecord(raw) || raw.v !== 1) invalid("version d'extension inconnue");
+  const extension = raw as Record<string, unknown>;
+
+  if (extension.pieces !== undefined) {
+    if (!isRecord(extension.pieces)) invalid("pièces");
+    for (const [square, value] of Object.entries(
+      extension.pieces as Record<string, unknown>,
+    )) {
+      const position = parseSquare(square);
+      const piece = position
+        ? pieceAt(board, position.row, position.col)
+        : null;
+      if (!piece || !isRecord(value)) invalid(`pièce en ${square}`);
+      const { hasMoved, hidden, engineId: id, specialState } = value;
+      if (hasMoved !== undefined) {
+        if (!isBoolean(hasMoved)) invalid(`pièce en ${square}`);
+        piece.hasMoved = hasMoved;
+      }
+      if (hidden !== undefined) {
+        if (!isBoolean(hidden)) invalid(`pièce en ${square}`);
+        piece.isHidden = hidden;
+      }
+      if (id !== undefined) {
+        if (typeof id !== "string" || !/^piece_\d+$/.test(id)) {
+          invalid(`identifiant moteur en ${square}`);
+        }
+        (piece as ChessPiece & { __engineId?: string }).__engineId = id;
+      }
+      if (specialState !== undefined) {
+        if (!isRecord(specialState)) invalid(`pièce en ${square}`);
+        piece.specialState = structuredClone(specialState);
+      }
+    }
+  }
+
+  let lastMove: ChessMove | undefined;
+  if (extension.lastMove !== undefined) {
+    lastMove = readMove(extension.lastMove, "lastMove");
+    const landed = pieceAt(board, lastMove.to.row, lastMove.to.col);
+    if (!landed || landed.color !== lastMove.piece.color) {
+      invalid("dernier coup sans pièce d'arrivée");
+    }
+  } else if (epSquare !== "-") {
+    lastMove = impliedPawnPush(board, epSquare, currentPlayer);
+  }
+  if (lastMove && epSquare !== enPassantSquare(lastMove)) {
+    invalid("case en passant incohérente avec le dernier coup");
+  }
+
+  const lastMoveByColor: GameState["lastMoveByColor"] = {};
+  if (extension.lastMoveByColor !== undefined) {
+    if (!isRecord(extension.lastMoveByColor)) invalid("lastMoveByColor");
+    const byColor = extension.lastMoveByColor as Record<string, unknown>;
+    for (const color of COLORS) {
+      if (byColor[color] !== undefined) {
+        lastMoveByColor[color] = readMove(byColor[color], "lastMoveByColor");
+      }
+    }
+  }
+  if (lastMove) {
+    const stored = lastMoveByColor[lastMove.piece.color];
+    if (!stored || sameMove(stored, lastMove)) {
+      lastMoveByColor[lastMove.piece.color] = lastMove;
+    }
+  }
+
+  const replayOpportunities: GameState["replayOpportunities"] = {};
+  if (extension.replayOpportunities !== undefined) {
+    if (!isRecord(extension.replayOpportunities)) {
+      invalid("replayOpportunities");
+    }
+    const replay = extension.replayOpportunities as Record<string, unknown>;
+    for (const color of COLORS) {
+      const entry = replay[color];
+      if (entry === undefined) continue;
+      if (!isRecord(entry)) invalid("replayOpportunities");
+      const opportunity = entry as Record<string, unknown>;
+      replayOpportunities[color] = {
+        from: readPosition(opportunity.from, "replayOpportunities"),
+        to: readPosition(opportunity.to, "replayOpportunities"),
+      };
+    }
+  }
+
+  let forcedMirrorResponse: GameState["forcedMirrorResponse"] = null;
+  if (
+    extension.forcedMirrorResponse !== undefined &&
+    extension.forcedMirrorResponse !== null
+  ) {
+    const mirror = extension.forcedMirrorResponse;
+    if (
+      !isRecord(mirror) ||
+      !isColor(mirror.color) ||
+      !Number.isInteger(mirror.file) ||
+      Number(mirror.file) < 0 ||
+      Number(mirror.file) > 7
+    ) {
+      invalid("forcedMirrorResponse");
+    }
+    const checked = mirror as { color: PieceColor; file: number };
+    forcedMirrorResponse = { color: checked.color, file: checked.file };
+  }
+
+  const freezeEffects: GameState["freezeEffects"] = [];
+  if (extension.freezeEffects !== undefined) {
+    if (!Array.isArray(extension.freezeEffects)) invalid("freezeEffects");
+    for (const entry of extension.freezeEffects as unknown[]) {
+      if (
+        !isRecord(entry) ||
+        !isColor(entry.color) ||
+        !isCount(entry.remainingTurns)
+      ) {
+        invalid("freezeEffects");
+      }
+      const freeze = entry as Record<string, unknown>;
+      freezeEffects.push({
+        color: freeze.color as PieceColor,
+        position: readPosition(freeze.position, "freezeEffects"),
+        remainingTurns: freeze.remainingTurns as number,
+      });
+    }
+  }
+
+  const specialAttacks: SpecialAttackInstance[] = [];
+  if (extension.specialAttacks !== undefined) {
+    if (!Array.isArray(extension.specialAttacks)) invalid("specialAttacks");
+    for (const entry of extension.specialAttacks as unknown[]) {
+      specialAttacks.push(readSpecialAttack(entry));
+    }
+  }
+
+  const capturedPieces: ChessPiece[] = [];
+  if (extension.capturedPieces !== undefined) {
+    if (
+      typeof extension.capturedPieces !== "string" ||
+      !/^[kqrbnpKQRBNP]*$/.test(extension.capturedPieces)
+    ) {
+      invalid("pièces capturées");
+    }
+    for (const letter of extension.capturedPieces as string) {
+      const color: PieceColor =
+        letter === letter.toUpperCase() ? "white" : "black";
+      const type = LETTER_TYPES[letter.toLowerCase()];
+      capturedPieces.push({
+        type,
+        color,
+        position: { row: homeRow(color, type), col: 0 },
+        hasMoved: true,
+      });
+    }
+  }
+
+  const positionHistory: GameState["positionHistory"] = {};
+  if (extension.positionHistory !== undefined) {
+    if (!isRecord(extension.positionHistory)) invalid("positionHistory");
+    for (const [signature, count] of Object.entries(
+      extension.positionHistory as Record<string, unknown>,
+    )) {
+      if (!isCount(count)) invalid("positionHistory");
+      positionHistory[signature] = count as number;
+    }
+  } else {
+    positionHistory[ChessEngine.getBoardSignature(board)] = 1;
+  }
+
+  const ruleIds = extension.ruleIds ?? [];
+  if (
+    !Array.isArray(ruleIds) ||
+    ruleIds.some((id) => typeof id !== "string" || id.length === 0)
+  ) {
+    invalid("ruleIds");
+  }
+  const optionalCount = (field: string): number => {
+    const value = extension[field];
+    if (value === undefined) return 0;
+    if (!isCount(value)) invalid(field);
+    return value as number;
+  };
+  const sides = <T>(
+    field: string,
+    fallback: T,
+    check: (entry: unknown) => entry is T,
+  ): Record<PieceColor, T> =>
+    extension[field] === undefined
+      ? { white: fallback, black: fallback }
+      : readSides(extension[field], field, check);
+  if (
+    extension.secretSetupApplied !== undefined &&
+    !isBoolean(extension.secretSetupApplied)
+  ) {
+    invalid("secretSetupApplied");
+  }
+  if (
+    extension.gameStatus !== undefined &&
+    extension.gameStatus !== "draw" &&
+    extension.gameStatus !== "timeout"
+  ) {
+    invalid("gameStatus");
+  }
+
+  const state: GameState = {
+    board,
+    currentPlayer,
+    turnNumber: Number(fullmove),
+    movesThisTurn: optionalCount("movesThisTurn"),
+    selectedPiece: null,
+    validMoves: [],
+    gameStatus: "active",
+    capturedPieces,
+    moveHistory: lastMove ? [lastMove] : [],
+    activeRules,
+    extraMoves: optionalCount("extraMoves"),
+    pendingExtraMoves: sides("pendingExtraMoves", 0, isCount),
+    freezeEffects,
+    freezeUsage: sides("freezeUsage", false, isBoolean),
+    positionHistory,
+    pendingTransformations: sides("pendingTransformations", false, isBoolean),
+    lastMoveByColor,
+    replayOpportunities,
+    vipTokens: sides("vipTokens", 0, isCount),
+    forcedMirrorResponse,
+    secretSetupApplied: extension.secretSetupApplied === true,
+    blindOpeningRevealed: sides("blindOpeningRevealed", false, isBoolean),
+    specialAttacks,
+    visualEffects: [],
+  };
+
+  if (extension.gameStatus === "draw" || extension.gameStatus === "timeout") {
+    state.gameStatus = extension.gameStatus;
+  } else {
+    const inCheck = ChessEngine.isInCheck(board, currentPlayer, state);
+    const hasMoves = ChessEngine.hasAnyLegalMoves(board, currentPlayer, state);
+    if (inCheck && !hasMoves) state.gameStatus = "checkmate";
+    else if (!hasMoves) state.gameStatus = "stalemate";
+    else if (inCheck) state.gameStatus = "check";
+  }
+
+  return {
+    state,
+    engine:
+      extension.engine === undefined ? null : readEngine(extension.engine),
+    ruleIds: ruleIds as string[],
+  };
+}
@@ -2,8 +2,10 @@ import { ChessEngine } from "@/lib/chessEngine";
 import type {
   ChessMove,
   ChessPiece,
+  ChessRule,
   GameState,
   PieceColor,
+  PieceType,
   Position,
 } from "@/types/chess";
 
@@ -15,6 +17,39 @@ export interface AppliedGameMove {
 const samePosition = (left: Position, right: Position): boolean =>
   left.row === right.row && left.col === right.col;
 
+/** Fresh local state on the standard opening position, white to move. */
+export function createStandardGameState(
+  activeRules: ChessRule[] = [],
+): GameState {
+  const board = ChessEngine.initializeBoard();
+  return {
+    board,
+    currentPlayer: "white",
+    turnNumber: 1,
+    movesThisTurn: 0,
+    selectedPiece: null,
+    validMoves: [],
+    gameStatus: "active",
+    capturedPieces: [],
+    moveHistory: [],
+    activeRules,
+    extraMoves: 0,
+    pendingExtraMoves: { white: 0, black: 0 },
+    freezeEffects: [],
+    freezeUsage: { white: false, black: false },
+    positionHistory: { [ChessEngine.getBoardSignature(board)]: 1 },
+    pendingTransformations: { white: false, black: false },
+    lastMoveByColor: {},
+    replayOpportunities: {},
+    vipTokens: { white: 0, black: 0 },
+    forcedMirrorResponse: null,
+    secretSetupApplied: false,
+    blindOpeningRevealed: { white: false, black: false },
+    specialAttacks: [],
+    visualEffects: [],
+  };
+}
+
 export function canPlayFromState(state: GameState): boolean {
   return state.gameStatus === "active" || state.gameStatus === "check";
 }
@@ -22,12 +57,15 @@ export function canPlayFromState(state: GameState): boolean {
 /**
  * Applies one fully validated chess move and computes the next canonical local
  * state. Both the human player and the deterministic AI use this exact path.
+ * `promotion` requests an under-promotion; the engine promotes to a queen
+ * otherwise.
  */
 export function applyMoveToGameState(
   previous: GameState,
   piece: ChessPiece,
   destination: Position,
   durationMs?: number,
+  promotion?: PieceType,
 ): AppliedGameMove | null {
   if (!canPlayFromState(previous) || piece.color !== previous.currentPlayer) {
     return null;
@@ -57,6 +95,10 @@ export function applyMoveToGameState(
     destination,
     previous,
   );
+  if (move.promotion && promotion) {
+    if (promotion === "pawn" || promotion === "king") return null;
+    move.promotion = promotion;
+  }
   move.timestamp = new Date().toISOString();
   if (Number.isFinite(durationMs) && Number(durationMs) >= 0) {
     move.durationMs = Math.round(Number(durationMs));
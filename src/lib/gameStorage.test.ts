@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const insert = vi.hoisted(() => vi.fn());
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: { from: () => ({ insert }) },
+}));
+
+vi.mock("@/lib/presetRulesAdapter", () => ({
+  loadPresetRuleById: () => Promise.resolve(null),
+}));
+
+import { ChessEngine } from "@/lib/chessEngine";
+import {
+  exportStoredGamePgn,
+  saveImportedPgnGame,
+  type StoredGameRecord,
+} from "@/lib/gameStorage";
+import { serializeBoardState } from "@/lib/postGameAnalysis";
+
+const storedGame = (ruleIds: string[]): StoredGameRecord =>
+  ({
+    id: "00000000-0000-4000-8000-000000000601",
+    user_id: "00000000-0000-4000-8000-000000000602",
+    created_at: "2026-07-20T12:00:00.000Z",
+    result: "win",
+    player_color: "white",
+    opponent_type: "ai",
+    opponent_name: null,
+    variant_name: "Cavaliers doubles",
+    time_control: null,
+    starting_board: serializeBoardState(ChessEngine.initializeBoard()),
+    move_history: [
+      { from: { row: 6, col: 4 }, to: { row: 4, col: 4 }, notation: "e4" },
+      { from: { row: 1, col: 4 }, to: { row: 3, col: 4 }, notation: "e5" },
+    ],
+    metadata: { ruleIds, rulesetHash: "c".repeat(64) },
+  }) as unknown as StoredGameRecord;
+
+describe("stored game PGN", () => {
+  beforeEach(() => {
+    insert.mockReset();
+    insert.mockResolvedValue({ error: null });
+  });
+
+  it("replays a variant game with its rules and writes their identity", async () => {
+    const pgn = await exportStoredGamePgn(
+      storedGame(["preset_mov_01"]),
+      "Alice",
+    );
+
+    expect(pgn).toContain('[RuleIds "preset_mov_01"]');
+    expect(pgn).toContain(`[RulesetHash "${"c".repeat(64)}"]`);
+    expect(pgn.trim().endsWith("1. e4 e5 1-0")).toBe(true);
+  });
+
+  it("refuses to export a game whose rules cannot be loaded", async () => {
+    await expect(
+      exportStoredGamePgn(storedGame(["custom-rule@v3"]), "Alice"),
+    ).rejects.toThrow(/custom-rule@v3/);
+  });
+
+  it("stores the rule identity of an imported game", async () => {
+    await saveImportedPgnGame({
+      userId: "00000000-0000-4000-8000-000000000602",
+      playerName: "Alice",
+      pgn: [
+        '[White "Alice"]',
+        '[Result "1-0"]',
+        '[RuleIds "preset_mov_01"]',
+        `[RulesetHash "${"d".repeat(64)}"]`,
+        "",
+        "1. e4 e5 1-0",
+      ].join("\n"),
+    });
+
+    expect(insert.mock.calls[0][0][0].metadata).toEqual({
+      source: "pgn",
+      pgnResult: "1-0",
+      ruleIds: ["preset_mov_01"],
+      rulesetHash: "d".repeat(64),
+    });
+  });
+
+  it("refuses to import an unfinished game", async () => {
+    await expect(
+      saveImportedPgnGame({
+        userId: "00000000-0000-4000-8000-000000000602",
+        playerName: "Alice",
+        pgn: "1. e4 e5 *",
+      }),
+    ).rejects.toThrow(/pas terminée/);
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
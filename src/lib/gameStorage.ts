@@ -1,12 +1,20 @@
 import { supabase } from '@/integrations/supabase/client';
 import type { Database } from '@/integrations/supabase/types';
-import type { PieceColor } from '@/types/chess';
-import type {
-  AnalyzedMove,
-  KeyMoment,
-  PieceStat,
-  PostGameAnalysisResult,
+import type { ChessRule, PieceColor, PieceType } from '@/types/chess';
+import { ChessEngine } from '@/lib/chessEngine';
+import { createStandardGameState } from '@/lib/gameMoveState';
+import { formatPgnDate, PgnError, readPgn, readPgnRuleIds, writePgn, type PgnResult } from '@/lib/pgn';
+import { allPresetRules } from '@/lib/presetRules';
+import { loadPresetRuleById } from '@/lib/presetRulesAdapter';
+import {
+  analyzeCompletedGame,
+  deserializeBoardState,
+  type AnalyzedMove,
+  type KeyMoment,
+  type PieceStat,
+  type PostGameAnalysisResult,
 } from '@/lib/postGameAnalysis';
+import { isTimeControlOption, TIME_CONTROL_SETTINGS } from '@/types/timeControl';
 
 export type StoredAnalyzedMove = AnalyzedMove;
 
@@ -19,6 +27,8 @@ export interface AnalysisOverviewPayload {
   pieceStats: PieceStat[];
   recommendations: string[];
   summary: string;
+  /** Missing on games saved before openings were classified. */
+  opening?: PostGameAnalysisResult['opening'];
 }
 
 export interface SaveGamePayload {
@@ -31,6 +41,9 @@ export interface SaveGamePayload {
   playerColor: PieceColor;
   analysis: PostGameAnalysisResult;
   durationSeconds?: number;
+  /** Rules active during the game, exported as the PGN `RuleIds` tag. */
+  ruleIds?: string[];
+  rulesetHash?: string | null;
   metadata?: Record<string, unknown>;
 }
 
@@ -52,6 +65,8 @@ export const saveCompletedGame = async ({
   playerColor,
   analysis,
   durationSeconds,
+  ruleIds,
+  rulesetHash,
   metadata,
 }: SaveGamePayload) => {
   if (!userId) {
@@ -67,6 +82,7 @@ export const saveCompletedGame = async ({
     pieceStats: analysis.pieceStats,
     recommendations: analysis.recommendations,
     summary: analysis.summary,
+    opening: analysis.opening,
   };
 
   const sanitizedMoves: StoredAnalyzedMove[] = analysis.analyzedMoves.map(move => ({
@@ -90,7 +106,9 @@ export const saveCompletedGame = async ({
     accuracy: analysis.accuracy,
     total_moves: analysis.totalMoves,
     duration_seconds: durationSeconds ?? null,
-    metadata: (metadata ?? null) as any,
+    metadata: (ruleIds || rulesetHash
+      ? { ...metadata, ruleIds: ruleIds ?? [], rulesetHash: rulesetHash ?? null }
+      : (metadata ?? null)) as any,
   }]);
 
   if (error) {
@@ -120,3 +138,156 @@ export const fetchUserGames = async (userId: string): Promise<StoredGameRecord[]
     starting_board: record.starting_board as unknown as PostGameAnalysisResult['startingBoard'],
   }));
 };
+
+const PROMOTION_LETTERS: Record<string, PieceType> = {
+  Q: 'queen',
+  R: 'rook',
+  B: 'bishop',
+  N: 'knight',
+};
+
+const pgnResultFor = (game: StoredGameRecord): PgnResult => {
+  if (game.result === 'draw') return '1/2-1/2';
+  const whiteWon = (game.result === 'win') === (game.player_color === 'white');
+  return whiteWon ? '1-0' : '0-1';
+};
+
+const pgnTimeControl = (value: string | null): string | undefined => {
+  if (isTimeControlOption(value)) {
+    const settings = TIME_CONTROL_SETTINGS[value];
+    return settings.initialSeconds > 0
+      ? `${settings.initialSeconds}+${settings.incrementSeconds}`
+      : '-';
+  }
+  return value && /^\d+(\+\d+)?$/.test(value) ? value : undefined;
+};
+
+const storedRuleIds = (game: StoredGameRecord): string[] => {
+  const metadata = (game.metadata ?? {}) as Record<string, unknown>;
+  return Array.isArray(metadata.ruleIds)
+    ? metadata.ruleIds.filter((ruleId): ruleId is string => typeof ruleId === 'string')
+    : [];
+};
+
+/**
+ * Rules a PGN replay needs, from the bundled presets first. Ids that cannot be
+ * resolved are left out: `buildStoredGamePgn` and `saveImportedPgnGame` refuse
+ * to replay without them.
+ */
+export const loadPgnRules = async (ruleIds: readonly string[]): Promise<ChessRule[]> => {
+  const rules = await Promise.all(
+    ruleIds.map(async ruleId =>
+      allPresetRules.find(rule => rule.ruleId === ruleId) ?? (await loadPresetRuleById(ruleId)),
+    ),
+  );
+  return rules.filter((rule): rule is ChessRule => rule !== null);
+};
+
+const assertPgnRulesLoaded = (ruleIds: readonly string[], activeRules: readonly ChessRule[]) => {
+  const loaded = new Set(activeRules.map(rule => rule.ruleId));
+  const missing = ruleIds.filter(ruleId => !loaded.has(ruleId));
+  if (missing.length > 0) {
+    throw new PgnError(
+      `Cette partie utilise des règles introuvables (${missing.join(', ')}) : ses coups ne peuvent pas être rejoués en PGN.`,
+    );
+  }
+};
+
+/**
+ * PGN export of a stored game. Moves are replayed from the saved starting
+ * board with the game's rules, which `loadPgnRules` provides; rule identities
+ * saved in `metadata` end up in the custom tags.
+ */
+export const buildStoredGamePgn = (
+  game: StoredGameRecord,
+  playerName: string,
+  activeRules: ChessRule[] = [],
+): string => {
+  const ruleIds = storedRuleIds(game);
+  assertPgnRulesLoaded(ruleIds, activeRules);
+  const initialState = createStandardGameState(activeRules);
+  const startingBoard = deserializeBoardState(game.starting_board);
+  if (ChessEngine.getBoardSignature(startingBoard) !== ChessEngine.getBoardSignature(initialState.board)) {
+    initialState.board = startingBoard;
+    initialState.positionHistory = { [ChessEngine.getBoardSignature(startingBoard)]: 1 };
+  }
+
+  const metadata = (game.metadata ?? {}) as Record<string, unknown>;
+  const opponentName = game.opponent_name ?? (game.opponent_type === 'ai' ? 'IA' : 'Adversaire');
+
+  return writePgn({
+    headers: {
+      event: game.variant_name ?? 'Partie standard',
+      site: 'Chess Rules Engine',
+      date: formatPgnDate(game.created_at),
+      white: game.player_color === 'white' ? playerName : opponentName,
+      black: game.player_color === 'white' ? opponentName : playerName,
+      result: pgnResultFor(game),
+      timeControl: pgnTimeControl(game.time_control),
+      ruleIds,
+      rulesetHash: typeof metadata.rulesetHash === 'string' ? metadata.rulesetHash : null,
+    },
+    initialState,
+    moves: game.move_history.map(move => ({
+      from: move.from,
+      to: move.to,
+      promotion: PROMOTION_LETTERS[/=([QRBN])/i.exec(move.notation ?? '')?.[1]?.toUpperCase() ?? ''],
+    })),
+  });
+};
+
+/** `buildStoredGamePgn` with the game's rules loaded first. */
+export const exportStoredGamePgn = async (game: StoredGameRecord, playerName: string): Promise<string> =>
+  buildStoredGamePgn(game, playerName, await loadPgnRules(storedRuleIds(game)));
+
+/**
+ * Replays a PGN with the local engine and its `RuleIds` rules, and stores it
+ * like a finished game. The player is the side whose tag matches
+ * `playerName`, White otherwise. Unfinished games (`*`) are refused.
+ */
+export const saveImportedPgnGame = async ({
+  userId,
+  pgn,
+  playerName,
+}: {
+  userId: string | null;
+  pgn: string;
+  playerName: string;
+}) => {
+  const ruleIds = readPgnRuleIds(pgn);
+  const activeRules = await loadPgnRules(ruleIds);
+  assertPgnRulesLoaded(ruleIds, activeRules);
+  const parsed = readPgn(pgn, { activeRules });
+  if (parsed.moves.length === 0) {
+    throw new Error('Le PGN ne contient aucun coup.');
+  }
+  if (parsed.result === '*') {
+    throw new Error('Cette partie n’est pas terminée (résultat « * ») : seules les parties finies peuvent être importées.');
+  }
+  const normalizedName = playerName.trim().toLowerCase();
+  const playerColor: PieceColor =
+    normalizedName.length > 0 && parsed.tags.Black?.trim().toLowerCase() === normalizedName ? 'black' : 'white';
+  const winner = parsed.result === '1-0' ? 'white' : parsed.result === '0-1' ? 'black' : null;
+  const result = winner === null ? 'draw' : winner === playerColor ? 'win' : 'loss';
+
+  await saveCompletedGame({
+    userId,
+    opponentName: (playerColor === 'white' ? parsed.tags.Black : parsed.tags.White) || undefined,
+    opponentType: 'player',
+    result,
+    variantName: parsed.tags.Event && parsed.tags.Event !== '?' ? parsed.tags.Event : undefined,
+    timeControl: parsed.tags.TimeControl,
+    playerColor,
+    analysis: analyzeCompletedGame(parsed.moves, {
+      playerColor,
+      result,
+      initialBoard: ChessEngine.initializeBoard(),
+    }),
+    ruleIds: parsed.ruleIds,
+    rulesetHash: parsed.rulesetHash,
+    metadata: {
+      source: 'pgn',
+      pgnResult: parsed.result,
+    },
+  });
+};
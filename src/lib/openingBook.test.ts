@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+
+import { ChessEngine } from "./chessEngine";
+import {
+  classifyOpening,
+  exploreOpeningLine,
+  isStandardStartingBoard,
+  listOpeningLines,
+  summariseOpenings,
+  toUciMove,
+} from "./openingBook";
+import { readPgn, writePgn } from "./pgn";
+import { analyzeCompletedGame } from "./postGameAnalysis";
+
+const square = (name: string) => ({
+  row: 8 - Number(name[1]),
+  col: name.charCodeAt(0) - 97,
+});
+
+const uciMoves = (line: string) =>
+  line.split(" ").map((move) => ({
+    from: square(move.slice(0, 2)),
+    to: square(move.slice(2, 4)),
+  }));
+
+describe("opening book", () => {
+  it("only lists legal lines with well-formed ECO codes", () => {
+    const lines = listOpeningLines();
+    expect(lines.length).toBeGreaterThan(100);
+    for (const line of lines) {
+      expect(line.eco).toMatch(/^[A-E]\d\d$/);
+      expect(() =>
+        writePgn({ headers: {}, moves: uciMoves(line.moves.join(" ")) }),
+      ).not.toThrow();
+    }
+  });
+
+  it("names the deepest line a game followed", () => {
+    expect(
+      classifyOpening("e2e4 e7e5 g1f3 b8c6 f1b5 a7a6 b5a4 d7d6".split(" ")),
+    ).toEqual({ eco: "C70", name: "Ruy Lopez: Morphy Defence", bookPlies: 7 });
+    expect(classifyOpening(["a2a3"])).toBeNull();
+    expect(classifyOpening([])).toBeNull();
+  });
+
+  it("turns engine moves into UCI", () => {
+    expect(
+      toUciMove({ from: square("e7"), to: square("e8"), promotion: "knight" }),
+    ).toBe("e7e8n");
+    expect(toUciMove({ from: square("g1"), to: square("f3") })).toBe("g1f3");
+    expect(isStandardStartingBoard(ChessEngine.initializeBoard())).toBe(true);
+  });
+});
+
+describe("opening explorer", () => {
+  const games = [
+    { moves: "e2e4 e7e5 g1f3".split(" "), result: "win" as const },
+    { moves: "e2e4 e7e5 g1f3".split(" "), result: "draw" as const },
+    { moves: "e2e4 c7c5 g1f3".split(" "), result: "loss" as const },
+    { moves: "d2d4 d7d5".split(" "), result: "win" as const },
+  ];
+
+  it("aggregates the player's results per next move", () => {
+    expect(exploreOpeningLine(games, ["e2e4"])).toEqual([
+      {
+        move: "e7e5",
+        opening: { eco: "C20", name: "King's Pawn Game" },
+        games: 2,
+        wins: 1,
+        draws: 1,
+        losses: 0,
+        score: 0.75,
+      },
+      {
+        move: "c7c5",
+        opening: { eco: "B20", name: "Sicilian Defence" },
+        games: 1,
+        wins: 0,
+        draws: 0,
+        losses: 1,
+        score: 0,
+      },
+    ]);
+    expect(exploreOpeningLine(games, ["c2c4"])).toEqual([]);
+  });
+
+  it("summarises the record per named opening", () => {
+    const summary = summariseOpenings(games);
+    expect(summary[0]).toMatchObject({ eco: "C40", games: 2, score: 0.75 });
+    expect(summary.map((entry) => entry.eco).sort()).toEqual([
+      "B20",
+      "C40",
+      "D00",
+    ]);
+  });
+});
+
+describe("analyzeCompletedGame", () => {
+  it("labels the opening and keeps book moves out of the mistake count", () => {
+    const { moves } = readPgn("1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 d6 *");
+    const analysis = analyzeCompletedGame(moves, {
+      playerColor: "white",
+      result: "draw",
+      initialBoard: ChessEngine.initializeBoard(),
+    });
+
+    expect(analysis.opening).toEqual({
+      eco: "C70",
+      name: "Ruy Lopez: Morphy Defence",
+      bookPlies: 7,
+    });
+    expect(analysis.analyzedMoves.map((move) => move.classification)).toEqual([
+      ...Array(7).fill("book"),
+      "good",
+    ]);
+    expect(analysis.mistakeHistogram.best).toBe(0);
+    expect(analysis.summary).toContain("C70 Ruy Lopez: Morphy Defence");
+  });
+});
@@ -0,0 +1,456 @@
+import { ChessEngine } from "@/lib/chessEngine";
+import type { ChessPiece, PieceType, Position } from "@/types/chess";
+
+export interface OpeningLine {
+  eco: string;
+  name: string;
+}
+
+export interface OpeningClassification extends OpeningLine {
+  /** Leading plies of the game that are still in the book. */
+  bookPlies: number;
+}
+
+export interface OpeningRecord {
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  /** Points per game from the player's side, draws counting half. */
+  score: number;
+}
+
+/** A finished game as the explorer sees it: UCI moves and the player's result. */
+export interface OpeningExplorerGame {
+  moves: readonly string[];
+  result: "win" | "loss" | "draw";
+}
+
+export interface OpeningExplorerMove extends OpeningRecord {
+  move: string;
+  /** Opening reached by the line once this move is played. */
+  opening: OpeningLine | null;
+}
+
+export type OpeningSummary = OpeningLine & OpeningRecord;
+
+/**
+ * Embedded ECO book: code, name and the line in UCI from the standard start.
+ * Only the common main lines are listed; a game keeps the name of the deepest
+ * line it followed.
+ */
+const OPENING_LINES: ReadonlyArray<readonly [string, string, string]> = [
+  ["A00", "Polish Opening", "b2b4"],
+  ["A00", "Grob Opening", "g2g4"],
+  ["A01", "Nimzo-Larsen Attack", "b2b3"],
+  ["A02", "Bird's Opening", "f2f4"],
+  ["A04", "Réti Opening", "g1f3"],
+  ["A06", "Réti Opening", "g1f3 d7d5"],
+  ["A10", "English Opening", "c2c4"],
+  ["A13", "English Opening: Agincourt Defence", "c2c4 e7e6"],
+  ["A15", "English Opening: Anglo-Indian Defence", "c2c4 g8f6"],
+  ["A16", "English Opening: Anglo-Indian Defence", "c2c4 g8f6 b1c3"],
+  ["A20", "English Opening: King's English Variation", "c2c4 e7e5"],
+  ["A25", "English Opening: Closed, Reversed Sicilian", "c2c4 e7e5 b1c3 b8c6"],
+  ["A30", "English Opening: Symmetrical Variation", "c2c4 c7c5"],
+  ["A40", "Queen's Pawn Game", "d2d4"],
+  ["A43", "Old Benoni Defence", "d2d4 c7c5"],
+  ["A45", "Indian Defence", "d2d4 g8f6"],
+  ["A46", "Indian Defence: Knights Variation", "d2d4 g8f6 g1f3"],
+  ["A51", "Budapest Gambit", "d2d4 g8f6 c2c4 e7e5"],
+  ["A56", "Benoni Defence", "d2d4 g8f6 c2c4 c7c5"],
+  ["A57", "Benko Gambit", "d2d4 g8f6 c2c4 c7c5 d4d5 b7b5"],
+  ["A60", "Modern Benoni", "d2d4 g8f6 c2c4 c7c5 d4d5 e7e6"],
+  ["A80", "Dutch Defence", "d2d4 f7f5"],
+  ["B00", "Nimzowitsch Defence", "e2e4 b8c6"],
+  ["B00", "King's Pawn Opening", "e2e4"],
+  ["B01", "Scandinavian Defence", "e2e4 d7d5"],
+  ["B01", "Scandinavian Defence: Main Line", "e2e4 d7d5 e4d5 d8d5 b1c3 d5a5"],
+  ["B02", "Alekhine's Defence", "e2e4 g8f6"],
+  ["B03", "Alekhine's Defence", "e2e4 g8f6 e4e5 f6d5 d2d4"],
+  [
+    "B04",
+    "Alekhine's Defence: Modern Variation",
+    "e2e4 g8f6 e4e5 f6d5 d2d4 d7d6 g1f3",
+  ],
+  ["B06", "Modern Defence", "e2e4 g7g6"],
+  ["B07", "Pirc Defence", "e2e4 d7d6 d2d4 g8f6"],
+  ["B10", "Caro-Kann Defence", "e2e4 c7c6"],
+  ["B12", "Caro-Kann Defence: Advance Variation", "e2e4 c7c6 d2d4 d7d5 e4e5"],
+  [
+    "B13",
+    "Caro-Kann Defence: Exchange Variation",
+    "e2e4 c7c6 d2d4 d7d5 e4d5 c6d5",
+  ],
+  ["B15", "Caro-Kann Defence", "e2e4 c7c6 d2d4 d7d5 b1c3"],
+  [
+    "B17",
+    "Caro-Kann Defence: Steinitz Variation",
+    "e2e4 c7c6 d2d4 d7d5 b1c3 d5e4 c3e4 b8d7",
+  ],
+  [
+    "B18",
+    "Caro-Kann Defence: Classical Variation",
+    "e2e4 c7c6 d2d4 d7d5 b1c3 d5e4 c3e4 c8f5",
+  ],
+  ["B20", "Sicilian Defence", "e2e4 c7c5"],
+  ["B21", "Sicilian Defence: Smith-Morra Gambit", "e2e4 c7c5 d2d4 c5d4 c2c3"],
+  ["B22", "Sicilian Defence: Alapin Variation", "e2e4 c7c5 c2c3"],
+  ["B23", "Sicilian Defence: Closed", "e2e4 c7c5 b1c3"],
+  ["B30", "Sicilian Defence: Old Sicilian", "e2e4 c7c5 g1f3 b8c6"],
+  [
+    "B33",
+    "Sicilian Defence: Sveshnikov Variation",
+    "e2e4 c7c5 g1f3 b8c6 d2d4 c5d4 f3d4 g8f6 b1c3 e7e5",
+  ],
+  [
+    "B34",
+    "Sicilian Defence: Accelerated Dragon",
+    "e2e4 c7c5 g1f3 b8c6 d2d4 c5d4 f3d4 g7g6",
+  ],
+  ["B40", "Sicilian Defence: French Variation", "e2e4 c7c5 g1f3 e7e6"],
+  [
+    "B41",
+    "Sicilian Defence: Kan Variation",
+    "e2e4 c7c5 g1f3 e7e6 d2d4 c5d4 f3d4 a7a6",
+  ],
+  [
+    "B44",
+    "Sicilian Defence: Taimanov Variation",
+    "e2e4 c7c5 g1f3 e7e6 d2d4 c5d4 f3d4 b8c6",
+  ],
+  ["B50", "Sicilian Defence: Modern Variations", "e2e4 c7c5 g1f3 d7d6"],
+  ["B51", "Sicilian Defence: Moscow Variation", "e2e4 c7c5 g1f3 d7d6 f1b5"],
+  ["B54", "Sicilian Defence: Open", "e2e4 c7c5 g1f3 d7d6 d2d4 c5d4 f3d4"],
+  [
+    "B56",
+    "Sicilian Defence: Open",
+    "e2e4 c7c5 g1f3 d7d6 d2d4 c5d4 f3d4 g8f6 b1c3",
+  ],
+  [
+    "B56",
+    "Sicilian Defence: Classical Variation",
+    "e2e4 c7c5 g1f3 d7d6 d2d4 c5d4 f3d4 g8f6 b1c3 b8c6",
+  ],
+  [
+    "B60",
+    "Sicilian Defence: Richter-Rauzer Variation",
+    "e2e4 c7c5 g1f3 d7d6 d2d4 c5d4 f3d4 g8f6 b1c3 b8c6 c1g5",
+  ],
+  [
+    "B70",
+    "Sicilian Defence: Dragon Variation",
+    "e2e4 c7c5 g1f3 d7d6 d2d4 c5d4 f3d4 g8f6 b1c3 g7g6",
+  ],
+  [
+    "B80",
+    "Sicilian Defence: Scheveningen Variation",
+    "e2e4 c7c5 g1f3 d7d6 d2d4 c5d4 f3d4 g8f6 b1c3 e7e6",
+  ],
+  [
+    "B90",
+    "Sicilian Defence: Najdorf Variation",
+    "e2e4 c7c5 g1f3 d7d6 d2d4 c5d4 f3d4 g8f6 b1c3 a7a6",
+  ],
+  ["C00", "French Defence", "e2e4 e7e6"],
+  ["C01", "French Defence: Exchange Variation", "e2e4 e7e6 d2d4 d7d5 e4d5"],
+  ["C02", "French Defence: Advance Variation", "e2e4 e7e6 d2d4 d7d5 e4e5"],
+  ["C03", "French Defence: Tarrasch Variation", "e2e4 e7e6 d2d4 d7d5 b1d2"],
+  ["C10", "French Defence: Paulsen Variation", "e2e4 e7e6 d2d4 d7d5 b1c3"],
+  [
+    "C10",
+    "French Defence: Rubinstein Variation",
+    "e2e4 e7e6 d2d4 d7d5 b1c3 d5e4",
+  ],
+  [
+    "C11",
+    "French Defence: Classical Variation",
+    "e2e4 e7e6 d2d4 d7d5 b1c3 g8f6",
+  ],
+  ["C15", "French Defence: Winawer Variation", "e2e4 e7e6 d2d4 d7d5 b1c3 f8b4"],
+  ["C20", "King's Pawn Game", "e2e4 e7e5"],
+  ["C21", "Center Game", "e2e4 e7e5 d2d4 e5d4"],
+  ["C23", "Bishop's Opening", "e2e4 e7e5 f1c4"],
+  ["C25", "Vienna Game", "e2e4 e7e5 b1c3"],
+  ["C30", "King's Gambit", "e2e4 e7e5 f2f4"],
+  ["C33", "King's Gambit Accepted", "e2e4 e7e5 f2f4 e5f4"],
+  ["C40", "King's Knight Opening", "e2e4 e7e5 g1f3"],
+  ["C41", "Philidor Defence", "e2e4 e7e5 g1f3 d7d6"],
+  ["C42", "Petrov's Defence", "e2e4 e7e5 g1f3 g8f6"],
+  ["C44", "King's Knight Opening: Normal Variation", "e2e4 e7e5 g1f3 b8c6"],
+  ["C44", "Scotch Game", "e2e4 e7e5 g1f3 b8c6 d2d4"],
+  ["C45", "Scotch Game", "e2e4 e7e5 g1f3 b8c6 d2d4 e5d4 f3d4"],
+  ["C46", "Three Knights Opening", "e2e4 e7e5 g1f3 b8c6 b1c3"],
+  ["C47", "Four Knights Game", "e2e4 e7e5 g1f3 b8c6 b1c3 g8f6"],
+  ["C50", "Italian Game", "e2e4 e7e5 g1f3 b8c6 f1c4"],
+  ["C50", "Italian Game: Giuoco Piano", "e2e4 e7e5 g1f3 b8c6 f1c4 f8c5"],
+  ["C51", "Italian Game: Evans Gambit", "e2e4 e7e5 g1f3 b8c6 f1c4 f8c5 b2b4"],
+  [
+    "C53",
+    "Italian Game: Classical Variation",
+    "e2e4 e7e5 g1f3 b8c6 f1c4 f8c5 c2c3",
+  ],
+  ["C55", "Italian Game: Two Knights Defence", "e2e4 e7e5 g1f3 b8c6 f1c4 g8f6"],
+  [
+    "C57",
+    "Italian Game: Two Knights Defence, Knight Attack",
+    "e2e4 e7e5 g1f3 b8c6 f1c4 g8f6 f3g5",
+  ],
+  ["C60", "Ruy Lopez", "e2e4 e7e5 g1f3 b8c6 f1b5"],
+  ["C65", "Ruy Lopez: Berlin Defence", "e2e4 e7e5 g1f3 b8c6 f1b5 g8f6"],
+  [
+    "C68",
+    "Ruy Lopez: Exchange Variation",
+    "e2e4 e7e5 g1f3 b8c6 f1b5 a7a6 b5c6",
+  ],
+  ["C70", "Ruy Lopez: Morphy Defence", "e2e4 e7e5 g1f3 b8c6 f1b5 a7a6 b5a4"],
+  [
+    "C78",
+    "Ruy Lopez: Morphy Defence",
+    "e2e4 e7e5 g1f3 b8c6 f1b5 a7a6 b5a4 g8f6 e1g1",
+  ],
+  [
+    "C80",
+    "Ruy Lopez: Open Variation",
+    "e2e4 e7e5 g1f3 b8c6 f1b5 a7a6 b5a4 g8f6 e1g1 f6e4",
+  ],
+  [
+    "C84",
+    "Ruy Lopez: Closed Variation",
+    "e2e4 e7e5 g1f3 b8c6 f1b5 a7a6 b5a4 g8f6 e1g1 f8e7",
+  ],
+  [
+    "C88",
+    "Ruy Lopez: Closed Variation",
+    "e2e4 e7e5 g1f3 b8c6 f1b5 a7a6 b5a4 g8f6 e1g1 f8e7 f1e1 b7b5 a4b3",
+  ],
+  [
+    "C89",
+    "Ruy Lopez: Marshall Attack",
+    "e2e4 e7e5 g1f3 b8c6 f1b5 a7a6 b5a4 g8f6 e1g1 f8e7 f1e1 b7b5 a4b3 e8g8 c2c3 d7d5",
+  ],
+  ["D00", "Queen's Pawn Game", "d2d4 d7d5"],
+  ["D00", "Queen's Pawn Game: Accelerated London System", "d2d4 d7d5 c1f4"],
+  ["D02", "Queen's Pawn Game: London System", "d2d4 d7d5 g1f3 g8f6 c1f4"],
+  ["D06", "Queen's Gambit", "d2d4 d7d5 c2c4"],
+  ["D07", "Queen's Gambit Declined: Chigorin Defence", "d2d4 d7d5 c2c4 b8c6"],
+  [
+    "D08",
+    "Queen's Gambit Declined: Albin Countergambit",
+    "d2d4 d7d5 c2c4 e7e5",
+  ],
+  ["D10", "Slav Defence", "d2d4 d7d5 c2c4 c7c6"],
+  [
+    "D15",
+    "Slav Defence: Three Knights Variation",
+    "d2d4 d7d5 c2c4 c7c6 g1f3 g8f6 b1c3",
+  ],
+  ["D20", "Queen's Gambit Accepted", "d2d4 d7d5 c2c4 d5c4"],
+  ["D30", "Queen's Gambit Declined", "d2d4 d7d5 c2c4 e7e6"],
+  ["D31", "Queen's Gambit Declined", "d2d4 d7d5 c2c4 e7e6 b1c3"],
+  [
+    "D35",
+    "Queen's Gambit Declined: Exchange Variation",
+    "d2d4 d7d5 c2c4 e7e6 b1c3 g8f6 c4d5 e6d5",
+  ],
+  ["D43", "Semi-Slav Defence", "d2d4 d7d5 c2c4 c7c6 g1f3 g8f6 b1c3 e7e6"],
+  ["D80", "Grünfeld Defence", "d2d4 g8f6 c2c4 g7g6 b1c3 d7d5"],
+  [
+    "D85",
+    "Grünfeld Defence: Exchange Variation",
+    "d2d4 g8f6 c2c4 g7g6 b1c3 d7d5 c4d5 f6d5 e2e4 d5c3 b2c3",
+  ],
+  ["E00", "Indian Defence: East Indian Defence", "d2d4 g8f6 c2c4 e7e6"],
+  ["E01", "Catalan Opening", "d2d4 g8f6 c2c4 e7e6 g2g3"],
+  ["E10", "Indian Defence: Anti-Nimzo-Indian", "d2d4 g8f6 c2c4 e7e6 g1f3"],
+  ["E11", "Bogo-Indian Defence", "d2d4 g8f6 c2c4 e7e6 g1f3 f8b4"],
+  ["E12", "Queen's Indian Defence", "d2d4 g8f6 c2c4 e7e6 g1f3 b7b6"],
+  ["E20", "Nimzo-Indian Defence", "d2d4 g8f6 c2c4 e7e6 b1c3 f8b4"],
+  [
+    "E32",
+    "Nimzo-Indian Defence: Classical Variation",
+    "d2d4 g8f6 c2c4 e7e6 b1c3 f8b4 d1c2",
+  ],
+  [
+    "E40",
+    "Nimzo-Indian Defence: Rubinstein Variation",
+    "d2d4 g8f6 c2c4 e7e6 b1c3 f8b4 e2e3",
+  ],
+  ["E60", "King's Indian Defence", "d2d4 g8f6 c2c4 g7g6"],
+  ["E61", "King's Indian Defence", "d2d4 g8f6 c2c4 g7g6 b1c3 f8g7"],
+  [
+    "E70",
+    "King's Indian Defence: Normal Variation",
+    "d2d4 g8f6 c2c4 g7g6 b1c3 f8g7 e2e4 d7d6",
+  ],
+  [
+    "E80",
+    "King's Indian Defence: Sämisch Variation",
+    "d2d4 g8f6 c2c4 g7g6 b1c3 f8g7 e2e4 d7d6 f2f3",
+  ],
+  [
+    "E90",
+    "King's Indian Defence: Normal Variation",
+    "d2d4 g8f6 c2c4 g7g6 b1c3 f8g7 e2e4 d7d6 g1f3",
+  ],
+  [
+    "E97",
+    "King's Indian Defence: Orthodox Variation",
+    "d2d4 g8f6 c2c4 g7g6 b1c3 f8g7 e2e4 d7d6 g1f3 e8g8 f1e2 e7e5 e1g1 b8c6",
+  ],
+];
+
+interface OpeningNode {
+  opening: OpeningLine | null;
+  children: Map<string, OpeningNode>;
+}
+
+let bookRoot: OpeningNode | null = null;
+
+const createNode = (): OpeningNode => ({ opening: null, children: new Map() });
+
+/** The book as a trie over UCI moves, built on first use. */
+const getBook = (): OpeningNode => {
+  if (bookRoot) return bookRoot;
+  const root = createNode();
+  for (const [eco, name, line] of OPENING_LINES) {
+    let node = root;
+    for (const move of line.split(" ")) {
+      let child = node.children.get(move);
+      if (!child) {
+        child = createNode();
+        node.children.set(move, child);
+      }
+      node = child;
+    }
+    node.opening = { eco, name };
+  }
+  bookRoot = root;
+  return root;
+};
+
+/** Every book line, for integrity checks. */
+export const listOpeningLines = (): Array<OpeningLine & { moves: string[] }> =>
+  OPENING_LINES.map(([eco, name, line]) => ({
+    eco,
+    name,
+    moves: line.split(" "),
+  }));
+
+const PROMOTION_LETTERS: Partial<Record<PieceType, string>> = {
+  queen: "q",
+  rook: "r",
+  bishop: "b",
+  knight: "n",
+};
+
+const toSquare = (position: Position): string =>
+  `${String.fromCharCode(97 + position.col)}${8 - position.row}`;
+
+export const toUciMove = (move: {
+  from: Position;
+  to: Position;
+  promotion?: PieceType | null;
+}): string =>
+  `${toSquare(move.from)}${toSquare(move.to)}${
+    (move.promotion && PROMOTION_LETTERS[move.promotion]) ?? ""
+  }`;
+
+/** Openings only make sense from the standard initial position. */
+export const isStandardStartingBoard = (
+  board: (ChessPiece | null)[][],
+): boolean =>
+  ChessEngine.getBoardSignature(board) ===
+  ChessEngine.getBoardSignature(ChessEngine.initializeBoard());
+
+/**
+ * Follows `moves` down the book. Returns the deepest named line reached, or
+ * null when the very first moves already left the book.
+ */
+export function classifyOpening(
+  moves: readonly string[],
+): OpeningClassification | null {
+  let node = getBook();
+  let opening: OpeningLine | null = null;
+  let bookPlies = 0;
+  for (const move of moves) {
+    const next = node.children.get(move);
+    if (!next) break;
+    node = next;
+    bookPlies += 1;
+    opening = node.opening ?? opening;
+  }
+  return opening ? { ...opening, bookPlies } : null;
+}
+
+const emptyRecord = (): OpeningRecord => ({
+  games: 0,
+  wins: 0,
+  draws: 0,
+  losses: 0,
+  score: 0,
+});
+
+const addResult = (
+  record: OpeningRecord,
+  result: OpeningExplorerGame["result"],
+) => {
+  record.games += 1;
+  if (result === "win") record.wins += 1;
+  else if (result === "draw") record.draws += 1;
+  else record.losses += 1;
+  record.score = (record.wins + record.draws / 2) / record.games;
+};
+
+const startsWith = (moves: readonly string[], line: readonly string[]) =>
+  line.every((move, index) => moves[index] === move);
+
+/**
+ * The moves played after `line` across `games`, with the player's results,
+ * most played first.
+ */
+export function exploreOpeningLine(
+  games: readonly OpeningExplorerGame[],
+  line: readonly string[],
+): OpeningExplorerMove[] {
+  const byMove = new Map<string, OpeningExplorerMove>();
+  for (const game of games) {
+    const move = game.moves[line.length];
+    if (!move || !startsWith(game.moves, line)) continue;
+    let entry = byMove.get(move);
+    if (!entry) {
+      const opening = classifyOpening([...line, move]);
+      entry = {
+        move,
+        opening: opening ? { eco: opening.eco, name: opening.name } : null,
+        ...emptyRecord(),
+      };
+      byMove.set(move, entry);
+    }
+    addResult(entry, game.result);
+  }
+  return [...byMove.values()].sort(
+    (left, right) => right.games - left.games || right.score - left.score,
+  );
+}
+
+/** The player's record per named opening, most played first. */
+export function summariseOpenings(
+  games: readonly OpeningExplorerGame[],
+): OpeningSummary[] {
+  const byOpening = new Map<string, OpeningSummary>();
+  for (const game of games) {
+    const opening = classifyOpening(game.moves);
+    if (!opening) continue;
+    const key = `${opening.eco} ${opening.name}`;
+    let entry = byOpening.get(key);
+    if (!entry) {
+      entry = { eco: opening.eco, name: opening.name, ...emptyRecord() };
+      byOpening.set(key, entry);
+    }
+    addResult(entry, game.result);
+  }
+  return [...byOpening.values()].sort(
+    (left, right) => right.games - left.games || right.score - left.score,
+  );
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+
+import { createStandardGameState } from "@/lib/gameMoveState";
+import { ChessEngine } from "@/lib/chessEngine";
+import {
+  boardGeometryForGame,
+  type BoardLayout,
+} from "@/rules-v2/board-geometry";
+import { PgnError, readPgn, writePgn } from "./pgn";
+
+const square = (name: string) => ({
+  row: 8 - Number(name[1]),
+  col: name.charCodeAt(0) - 97,
+});
+
+const moves = (...pairs: string[]) =>
+  pairs.map((pair) => ({
+    from: square(pair.slice(0, 2)),
+    to: square(pair.slice(2)),
+  }));
+
+const wideLayout: BoardLayout = {
+  files: 10,
+  ranks: 8,
+  holes: [],
+  wrapFiles: false,
+  backRank: [
+    "rook",
+    "knight",
+    "bishop",
+    "queen",
+    "king",
+    "queen",
+    "bishop",
+    "knight",
+    "rook",
+    "rook",
+  ],
+};
+
+const wideState = () => {
+  const board = ChessEngine.initializeBoard(wideLayout);
+  return {
+    ...createStandardGameState(),
+    board,
+    geometry: boardGeometryForGame(wideLayout),
+    positionHistory: { [ChessEngine.getBoardSignature(board)]: 1 },
+  };
+};
+
+describe("writePgn", () => {
+  it("writes the tag roster, the rule identity and SAN movetext", () => {
+    const pgn = writePgn({
+      headers: {
+        date: "2026.07.20",
+        white: "Alice",
+        black: 'Bob "the rook"',
+        result: "1-0",
+        timeControl: "180+2",
+        ruleIds: ["preset_knight_jump", "custom-42"],
+        rulesetHash: "a".repeat(64),
+      },
+      moves: moves("e2e4", "e7e5", "f1c4", "b8c6", "d1h5", "g8f6", "h5f7"),
+    });
+
+    expect(pgn).toContain('[Black "Bob \\"the rook\\""]');
+    expect(pgn).toContain('[TimeControl "180+2"]');
+    expect(pgn).toContain('[RuleIds "preset_knight_jump,custom-42"]');
+    expect(pgn).toContain(`[RulesetHash "${"a".repeat(64)}"]`);
+    expect(pgn).not.toContain("[FEN");
+    expect(
+      pgn.trim().endsWith("1. e4 e5 2. Bc4 Nc6 3. Qh5 Nf6 4. Qxf7# 1-0"),
+    ).toBe(true);
+  });
+
+  it("names the squares of a wider board after its own files", () => {
+    const pgn = writePgn({
+      headers: { result: "*" },
+      moves: moves("j2j4", "j7j5", "b1c3"),
+      initialState: wideState(),
+    });
+
+    expect(pgn.trim().endsWith("1. j4 j5 2. Nc3 *")).toBe(true);
+    expect(
+      readPgn(pgn, { initialState: wideState() }).moves.map(
+        (move) => move.to.col,
+      ),
+    ).toEqual([9, 9, 2]);
+  });
+
+  it("refuses to write an illegal move", () => {
+    expect(() => writePgn({ headers: {}, moves: moves("e2e5") })).toThrow(
+      PgnError,
+    );
+  });
+});
+
+describe("readPgn", () => {
+  it("round-trips a written game into the same final state", () => {
+    const written = writePgn({
+      headers: { result: "1-0", ruleIds: ["r1"], rulesetHash: "b".repeat(64) },
+      moves: moves("e2e4", "e7e5", "f1c4", "b8c6", "d1h5", "g8f6", "h5f7"),
+    });
+    const parsed = readPgn(written);
+
+    expect(parsed.sans).toEqual([
+      "e4",
+      "e5",
+      "Bc4",
+      "Nc6",
+      "Qh5",
+      "Nf6",
+      "Qxf7#",
+    ]);
+    expect(parsed.result).toBe("1-0");
+    expect(parsed.ruleIds).toEqual(["r1"]);
+    expect(parsed.rulesetHash).toBe("b".repeat(64));
+    expect(parsed.state.gameStatus).toBe("checkmate");
+    expect(parsed.moves[6].boardSnapshot?.pieces).toHaveLength(31);
+  });
+
+  it("skips comments, variations and NAGs and disambiguates pieces", () => {
+    const parsed = readPgn(
+      [
+        '[Event "Club"]',
+        "",
+        "1. Nf3 {développe} Nf6 2. d3 (2. d4 d5) d6 $1 3. Nbd2 ; fin",
+        "*",
+      ].join("\n"),
+    );
+
+    expect(parsed.tags.Event).toBe("Club");
+    expect(parsed.sans).toEqual(["Nf3", "Nf6", "d3", "d6", "Nbd2"]);
+    expect(parsed.result).toBe("*");
+  });
+
+  it("reports the ply of an illegal or ambiguous move", () => {
+    expect(() => readPgn("1. e4 e5 2. Ke3")).toThrow(/demi-coup 3/);
+    expect(() => readPgn("1. Nf3 Nf6 2. d3 d6 3. Nd2")).toThrow(/ambigu/);
+    expect(() => readPgn('[FEN "8/8/8/8/8/8/8/8 w - - 0 1"]\n\n*')).toThrow(
+      PgnError,
+    );
+  });
+});
@@ -0,0 +1,464 @@
+import { ChessEngine } from "@/lib/chessEngine";
+import { boardStateToFen } from "@/lib/coachFen";
+import {
+  applyMoveToGameState,
+  createStandardGameState,
+} from "@/lib/gameMoveState";
+import { serializeBoardState } from "@/lib/postGameAnalysis";
+import {
+  BOARD_FILE_LETTERS,
+  STANDARD_BOARD_GEOMETRY,
+  boardPositionToTile,
+  boardTileToPosition,
+  type BoardGeometry,
+} from "@/rules-v2/board-geometry";
+import type {
+  ChessMove,
+  ChessPiece,
+  ChessRule,
+  GameState,
+  PieceColor,
+  PieceType,
+  Position,
+} from "@/types/chess";
+
+export type PgnResult = "1-0" | "0-1" | "1/2-1/2" | "*";
+
+export interface PgnHeaders {
+  event?: string;
+  site?: string;
+  /** `YYYY.MM.DD`, see `formatPgnDate`. */
+  date?: string;
+  round?: string;
+  white?: string;
+  black?: string;
+  result?: PgnResult;
+  /** PGN cadence: `180+2`, or `-` for an untimed game. */
+  timeControl?: string;
+  /** Active Rule Architect rules, written as the custom `RuleIds` tag. */
+  ruleIds?: readonly string[];
+  rulesetHash?: string | null;
+  extra?: Readonly<Record<string, string>>;
+}
+
+export interface PgnMoveInput {
+  from: Position;
+  to: Position;
+  promotion?: PieceType;
+}
+
+export interface WritePgnInput {
+  headers: PgnHeaders;
+  moves: readonly PgnMoveInput[];
+  /** Defaults to the standard opening position with no active rule. */
+  initialState?: GameState;
+}
+
+export interface ParsedPgn {
+  tags: Record<string, string>;
+  result: PgnResult;
+  ruleIds: string[];
+  rulesetHash: string | null;
+  sans: string[];
+  /** Replayed moves, with `notation` and `boardSnapshot` filled in. */
+  moves: ChessMove[];
+  state: GameState;
+}
+
+export class PgnError extends Error {
+  constructor(
+    message: string,
+    readonly ply: number | null = null,
+  ) {
+    super(message);
+    this.name = "PgnError";
+  }
+}
+
+const PGN_RESULTS: readonly PgnResult[] = ["1-0", "0-1", "1/2-1/2", "*"];
+const LINE_WIDTH = 80;
+
+const PIECE_LETTERS: Record<PieceType, string> = {
+  king: "K",
+  queen: "Q",
+  rook: "R",
+  bishop: "B",
+  knight: "N",
+  pawn: "",
+  // A fairy piece is written with its glyph.
+  fairy: "",
+};
+
+const LETTER_PIECES: Record<string, PieceType> = {
+  K: "king",
+  Q: "queen",
+  R: "rook",
+  B: "bishop",
+  N: "knight",
+};
+
+const SAN_PATTERN =
+  /^([KQRBN])?([a-l])?(1[0-2]|[1-9])?(x)?([a-l](?:1[0-2]|[1-9]))(?:=?([QRBN]))?$/;
+const TAG_PATTERN = /^\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*\]$/;
+
+const samePosition = (left: Position, right: Position): boolean =>
+  left.row === right.row && left.col === right.col;
+
+const geometryOf = (state: GameState): BoardGeometry =>
+  state.geometry ?? STANDARD_BOARD_GEOMETRY;
+
+/** Square names follow the game's board, so a 10×8 game has a j-file. */
+const squareName = (state: GameState, position: Position): string =>
+  boardPositionToTile(position, geometryOf(state));
+
+const isPgnResult = (value: unknown): value is PgnResult =>
+  typeof value === "string" && PGN_RESULTS.includes(value as PgnResult);
+
+const legalDestinations = (state: GameState, piece: ChessPiece): Position[] =>
+  ChessEngine.getValidMoves(state.board, piece, {
+    ...state,
+    selectedPiece: piece,
+  });
+
+const piecesOf = (
+  state: GameState,
+  color: PieceColor,
+  type: PieceType,
+): ChessPiece[] =>
+  state.board
+    .flat()
+    .filter(
+      (piece): piece is ChessPiece =>
+        piece !== null && piece.color === color && piece.type === type,
+    );
+
+const escapeTagValue = (value: string): string =>
+  value
+    .replace(/[\r\n]+/g, " ")
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"');
+
+const unescapeTagValue = (value: string): string =>
+  value.replace(/\\(["\\])/g, "$1");
+
+export const formatPgnDate = (value: Date | string): string => {
+  const date = typeof value === "string" ? new Date(value) : value;
+  if (Number.isNaN(date.getTime())) return "????.??.??";
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getUTCFullYear()}.${pad(date.getUTCMonth() + 1)}.${pad(date.getUTCDate())}`;
+};
+
+/**
+ * Standard algebraic notation for a move already applied by
+ * `applyMoveToGameState`. `before` disambiguates between pieces that could
+ * reach the same square; `after` provides the check or mate suffix.
+ */
+export function moveToSan(
+  before: GameState,
+  move: ChessMove,
+  after: GameState,
+): string {
+  const suffix =
+    after.gameStatus === "checkmate"
+      ? "#"
+      : after.gameStatus === "check"
+        ? "+"
+        : "";
+  if (move.isCastling) {
+    return `${move.to.col > move.from.col ? "O-O" : "O-O-O"}${suffix}`;
+  }
+
+  const mover = ChessEngine.getPieceAt(before.board, move.from) ?? move.piece;
+  const capture = move.captured ? "x" : "";
+  const destination = squareName(before, move.to);
+  if (mover.type === "pawn") {
+    const file = capture ? BOARD_FILE_LETTERS[move.from.col] : "";
+    const promotion = move.promotion ? `=${PIECE_LETTERS[move.promotion]}` : "";
+    return `${file}${capture}${destination}${promotion}${suffix}`;
+  }
+
+  const rivals = piecesOf(before, mover.color, mover.type).filter(
+    (piece) =>
+      piece.fairy?.id === mover.fairy?.id &&
+      !samePosition(piece.position, move.from) &&
+      legalDestinations(before, piece).some((target) =>
+        samePosition(target, move.to),
+      ),
+  );
+  let disambiguation = "";
+  if (rivals.length > 0) {
+    const from = squareName(before, move.from);
+    if (!rivals.some((piece) => piece.position.col === move.from.col)) {
+      disambiguation = from[0];
+    } else if (!rivals.some((piece) => piece.position.row === move.from.row)) {
+      disambiguation = from.slice(1);
+    } else {
+      disambiguation = from;
+    }
+  }
+  const letter = mover.fairy?.glyph ?? PIECE_LETTERS[mover.type];
+  return `${letter}${disambiguation}${capture}${destination}${suffix}`;
+}
+
+const isStandardStart = (state: GameState): boolean =>
+  state.currentPlayer === "white" &&
+  ChessEngine.getBoardSignature(state.board) ===
+    ChessEngine.getBoardSignature(ChessEngine.initializeBoard());
+
+const wrapMovetext = (tokens: readonly string[]): string => {
+  const lines: string[] = [];
+  let line = "";
+  for (const token of tokens) {
+    if (line.length > 0 && line.length + 1 + token.length > LINE_WIDTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line.length > 0 ? `${line} ${token}` : token;
+    }
+  }
+  if (line.length > 0) lines.push(line);
+  return lines.join("\n");
+};
+
+/**
+ * Replays `moves` through the local engine and writes them as PGN. An illegal
+ * move throws instead of producing notation another reader would reject.
+ */
+export function writePgn({
+  headers,
+  moves,
+  initialState,
+}: WritePgnInput): string {
+  const start = initialState ?? createStandardGameState();
+  const result = headers.result ?? "*";
+  const tags: Array<[string, string]> = [
+    ["Event", headers.event ?? "?"],
+    ["Site", headers.site ?? "?"],
+    ["Date", headers.date ?? "????.??.??"],
+    ["Round", headers.round ?? "-"],
+    ["White", headers.white ?? "?"],
+    ["Black", headers.black ?? "?"],
+    ["Result", result],
+  ];
+  if (headers.timeControl) tags.push(["TimeControl", headers.timeControl]);
+  if (!isStandardStart(start)) {
+    tags.push(["SetUp", "1"]);
+    tags.push([
+      "FEN",
+      boardStateToFen(
+        serializeBoardState(start.board),
+        start.currentPlayer,
+        start.turnNumber,
+      ),
+    ]);
+  }
+  if (headers.ruleIds && headers.ruleIds.length > 0) {
+    tags.push(["RuleIds", headers.ruleIds.join(",")]);
+  }
+  if (headers.rulesetHash) tags.push(["RulesetHash", headers.rulesetHash]);
+  for (const [name, value] of Object.entries(headers.extra ?? {})) {
+    if (/^[A-Za-z0-9_]+$/.test(name)) tags.push([name, value]);
+  }
+
+  const tokens: string[] = [];
+  let state = start;
+  moves.forEach((input, index) => {
+    const piece = ChessEngine.getPieceAt(state.board, input.from);
+    const applied = piece
+      ? applyMoveToGameState(state, piece, input.to, undefined, input.promotion)
+      : null;
+    if (!applied) {
+      throw new PgnError(
+        `Coup ${index + 1} illégal : ${squareName(state, input.from)}-${squareName(state, input.to)}.`,
+        index + 1,
+      );
+    }
+    if (state.currentPlayer === "white") {
+      tokens.push(`${state.turnNumber}.`);
+    } else if (index === 0) {
+      tokens.push(`${state.turnNumber}...`);
+    }
+    tokens.push(moveToSan(state, applied.move, applied.state));
+    state = applied.state;
+  });
+  tokens.push(result);
+
+  const tagSection = tags
+    .map(([name, value]) => `[${name} "${escapeTagValue(value)}"]`)
+    .join("\n");
+  return `${tagSection}\n\n${wrapMovetext(tokens)}\n`;
+}
+
+const stripMovetext = (movetext: string): string => {
+  let text = movetext.replace(/\{[^}]*\}/g, " ").replace(/;[^\n]*/g, " ");
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(/\([^()]*\)/g, " ");
+  } while (text !== previous);
+  return text.replace(/\$\d+/g, " ");
+};
+
+const findSanMove = (
+  state: GameState,
+  token: string,
+  ply: number,
+): { piece: ChessPiece; to: Position; promotion?: PieceType } => {
+  const stripped = token.replace(/[+#!?]+$/, "");
+  const san =
+    stripped === "0-0" ? "O-O" : stripped === "0-0-0" ? "O-O-O" : stripped;
+  if (san === "O-O" || san === "O-O-O") {
+    const king = piecesOf(state, state.currentPlayer, "king")[0];
+    if (!king) throw new PgnError(`Roque impossible : « ${token} ».`, ply);
+    return {
+      piece: king,
+      to: {
+        row: king.position.row,
+        col: king.position.col + (san === "O-O" ? 2 : -2),
+      },
+    };
+  }
+
+  const match = SAN_PATTERN.exec(san);
+  if (!match) {
+    throw new PgnError(`Notation SAN invalide : « ${token} ».`, ply);
+  }
+  const [, letter, file, rank, , square, promotionLetter] = match;
+  const type: PieceType = letter ? LETTER_PIECES[letter] : "pawn";
+  const to = boardTileToPosition(square, geometryOf(state));
+  if (!to) {
+    throw new PgnError(`Case hors du plateau : « ${token} ».`, ply);
+  }
+  const candidates = piecesOf(state, state.currentPlayer, type).filter(
+    (piece) =>
+      (!file || BOARD_FILE_LETTERS[piece.position.col] === file) &&
+      (!rank ||
+        String(geometryOf(state).ranks - piece.position.row) === rank) &&
+      legalDestinations(state, piece).some((target) =>
+        samePosition(target, to),
+      ),
+  );
+  if (candidates.length !== 1) {
+    throw new PgnError(
+      candidates.length === 0
+        ? `Coup illégal au demi-coup ${ply} : « ${token} ».`
+        : `Coup ambigu au demi-coup ${ply} : « ${token} ».`,
+      ply,
+    );
+  }
+  return {
+    piece: candidates[0],
+    to,
+    promotion: promotionLetter ? LETTER_PIECES[promotionLetter] : undefined,
+  };
+};
+
+const splitPgn = (
+  text: string,
+): { tags: Record<string, string>; movetext: string } => {
+  const tags: Record<string, string> = {};
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  let index = 0;
+  for (; index < lines.length; index += 1) {
+    const line = lines[index].trim();
+    if (line.length === 0) continue;
+    const tag = TAG_PATTERN.exec(line);
+    if (!tag) break;
+    tags[tag[1]] = unescapeTagValue(tag[2]);
+  }
+  const movetextLines: string[] = [];
+  for (; index < lines.length; index += 1) {
+    if (lines[index].trim().startsWith("[")) break;
+    movetextLines.push(lines[index]);
+  }
+  return { tags, movetext: movetextLines.join("\n") };
+};
+
+const ruleIdsOf = (tags: Record<string, string>): string[] =>
+  (tags.RuleIds ?? "")
+    .split(",")
+    .map((ruleId) => ruleId.trim())
+    .filter(Boolean);
+
+/**
+ * Rules listed in the `RuleIds` tag of the first game, read without replaying
+ * its moves so callers can load them before `readPgn`.
+ */
+export const readPgnRuleIds = (text: string): string[] =>
+  ruleIdsOf(splitPgn(text).tags);
+
+/**
+ * Reads the first game of a PGN document and rebuilds its `GameState` with
+ * `applyMoveToGameState`. Rules listed in `RuleIds` are not loaded here: pass
+ * them as `activeRules` (or an `initialState` carrying them, for a `FEN`
+ * start) to replay a variant game.
+ */
+export function readPgn(
+  text: string,
+  options: { initialState?: GameState; activeRules?: ChessRule[] } = {},
+): ParsedPgn {
+  const { tags, movetext } = splitPgn(text);
+
+  if (tags.FEN && !options.initialState) {
+    throw new PgnError(
+      "Position de départ personnalisée (FEN) non prise en charge.",
+    );
+  }
+
+  let state =
+    options.initialState ?? createStandardGameState(options.activeRules);
+  const sans: string[] = [];
+  const moves: ChessMove[] = [];
+  let result: PgnResult | null = null;
+  for (const rawToken of stripMovetext(movetext).split(/\s+/)) {
+    const token = rawToken.replace(/^\d+\.+/, "");
+    if (token.length === 0) continue;
+    if (isPgnResult(token)) {
+      result = token;
+      break;
+    }
+    const ply = moves.length + 1;
+    const { piece, to, promotion } = findSanMove(state, token, ply);
+    const applied = applyMoveToGameState(
+      state,
+      piece,
+      to,
+      undefined,
+      promotion,
+    );
+    if (!applied) {
+      throw new PgnError(
+        `Coup illégal au demi-coup ${ply} : « ${token} ».`,
+        ply,
+      );
+    }
+    const san = moveToSan(state, applied.move, applied.state);
+    applied.move.notation = san;
+    applied.move.boardSnapshot = serializeBoardState(applied.state.board);
+    sans.push(san);
+    moves.push(applied.move);
+    state = applied.state;
+  }
+
+  return {
+    tags,
+    result: result ?? (isPgnResult(tags.Result) ? tags.Result : "*"),
+    ruleIds: ruleIdsOf(tags),
+    rulesetHash: tags.RulesetHash?.trim() || null,
+    sans,
+    moves,
+    state,
+  };
+}
+
+/** Offers `pgn` as a `.pgn` download in the browser. */
+export function downloadPgn(filename: string, pgn: string): void {
+  const url = URL.createObjectURL(
+    new Blob([pgn], { type: "application/x-chess-pgn" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".pgn") ? filename : `${filename}.pgn`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,4 +1,11 @@
 import { ChessEngine } from '@/lib/chessEngine';
+import {
+  classifyOpening,
+  isStandardStartingBoard,
+  toUciMove,
+  type OpeningClassification,
+} from '@/lib/openingBook';
+import { pieceFenLetter } from '@/rules-v2/fairy-pieces';
 import type {
   ChessMove,
   ChessPiece,
@@ -8,7 +15,7 @@ import type {
   SerializedBoardState,
 } from '@/types/chess';
 
-export type MoveClassification = 'brilliant' | 'great' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+export type MoveClassification = 'book' | 'brilliant' | 'great' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
 
 export interface AnalyzedMove {
   index: number;
@@ -18,6 +25,7 @@ export interface AnalyzedMove {
   pieceType: PieceType;
   from: Position;
   to: Position;
+  promotion?: PieceType | null;
   materialBalance: number;
   delta: number;
   classification: MoveClassification;
@@ -55,6 +63,8 @@ export interface PostGameAnalysisResult {
   summary: string;
   startingBoard: SerializedBoardState;
   totalMoves: number;
+  /** Null for games that left the book at once or did not start from the standard position. */
+  opening: OpeningClassification | null;
 }
 
 export interface AnalyzeGameOptions {
@@ -72,6 +82,7 @@ const PIECE_VALUES: Record<PieceType, number> = {
   bishop: 330,
   knight: 320,
   pawn: 100,
+  fairy: 300,
 };
 
 const DEFAULT_TIME_BUCKETS: Array<{ label: string; range: [number, number] }> = [
@@ -109,6 +120,7 @@ export const serializeBoardState = (board: (ChessPiece | null)[][]): SerializedB
             row: rowIndex,
             col: colIndex,
             isHidden: piece.isHidden ?? false,
+            ...(piece.fairy ? { fairy: piece.fairy } : {}),
           }]
         : []
     )
@@ -124,6 +136,7 @@ export const deserializeBoardState = (state: SerializedBoardState): (ChessPiece
       position: { row: piece.row, col: piece.col },
       isHidden: piece.isHidden ?? false,
       hasMoved: true,
+      ...(piece.fairy ? { fairy: piece.fairy } : {}),
     } as ChessPiece;
   });
   return board;
@@ -132,18 +145,14 @@ export const deserializeBoardState = (state: SerializedBoardState): (ChessPiece
 export const boardStateToString = (state: SerializedBoardState): string => {
   const board = Array.from({ length: 8 }, () => Array.from({ length: 8 }, () => '.'));
   state.pieces.forEach(piece => {
-    const symbolMap: Record<PieceColor, Record<PieceType, string>> = {
-      white: { king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: 'P' },
-      black: { king: 'k', queen: 'q', rook: 'r', bishop: 'b', knight: 'n', pawn: 'p' },
-    };
-    board[piece.row][piece.col] = symbolMap[piece.color][piece.type];
+    board[piece.row][piece.col] = pieceFenLetter(piece);
   });
   return board.map(rank => rank.join('')).join(' / ');
 };
 
 const computeMaterialBalance = (state: SerializedBoardState, perspective: PieceColor): number =>
   state.pieces.reduce((score, piece) => {
-    const value = PIECE_VALUES[piece.type];
+    const value = piece.fairy ? piece.fairy.value * 100 : PIECE_VALUES[piece.type];
     return piece.color === perspective ? score + value : score - value;
   }, 0);
 
@@ -179,6 +188,11 @@ export const analyzeCompletedGame = (
   const mistakeHistogram = { blunders: 0, mistakes: 0, inaccuracies: 0, best: 0 };
   const materialTimeline: number[] = [previousBalance];
 
+  const opening = isStandardStartingBoard(options.initialBoard)
+    ? classifyOpening(moves.map(toUciMove))
+    : null;
+  const bookPlies = opening?.bookPlies ?? 0;
+
   const openingScores: number[] = [];
   const midgameScores: number[] = [];
   const endgameScores: number[] = [];
@@ -195,7 +209,9 @@ export const analyzeCompletedGame = (
     const currentBalance = computeMaterialBalance(move.boardSnapshot, options.playerColor);
     const delta = currentBalance - previousBalance;
 
-    const classification = classifyDelta(move.piece.color === options.playerColor ? delta : -delta);
+    const classification = index < bookPlies
+      ? 'book'
+      : classifyDelta(move.piece.color === options.playerColor ? delta : -delta);
 
     if (move.piece.color === options.playerColor) {
       switch (classification) {
@@ -208,6 +224,8 @@ export const analyzeCompletedGame = (
         case 'inaccuracy':
           mistakeHistogram.inaccuracies += 1;
           break;
+        case 'book':
+          break;
         default:
           mistakeHistogram.best += 1;
           break;
@@ -231,6 +249,7 @@ export const analyzeCompletedGame = (
       pieceType: move.piece.type,
       from: move.from,
       to: move.to,
+      promotion: move.promotion ?? null,
       materialBalance: currentBalance,
       delta,
       classification,
@@ -364,6 +383,7 @@ export const analyzeCompletedGame = (
         ? 'Défaite à analyser'
         : 'Nulle équilibrée',
     `Précision estimée : ${accuracy.toFixed(1)} %`,
+    ...(opening ? [`${opening.eco} ${opening.name}`] : []),
     `${playerMoves.length} coups joués côté ${options.playerColor === 'white' ? 'blanc' : 'noir'}`,
   ];
 
@@ -380,5 +400,6 @@ export const analyzeCompletedGame = (
     summary: summaryParts.join(' · '),
     startingBoard,
     totalMoves: moves.length,
+    opening,
   };
 };
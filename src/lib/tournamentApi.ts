@@ -10,10 +10,13 @@ import type { PostgrestError } from "@supabase/supabase-js";
 import type {
   MatchmakingResponse,
   TournamentDetails,
+  TournamentFormat,
   TournamentLeaderboardEntry,
   TournamentOverview,
   TournamentRegistrationWithMatch,
   TournamentMatch,
+  TournamentMatchResult,
+  TournamentReportResponse,
 } from "@/types/tournament";
 
 type TournamentStatus = TournamentOverview["status"];
@@ -127,6 +130,22 @@ const normaliseTournamentStatus = (value: unknown): TournamentStatus => {
   return "scheduled";
 };
 
+const TOURNAMENT_FORMATS: readonly TournamentFormat[] = [
+  "arena",
+  "swiss",
+  "single_elimination",
+  "double_elimination",
+  "round_robin",
+];
+
+const normaliseTournamentFormat = (value: unknown): TournamentFormat => {
+  const normalized =
+    typeof value === "string" ? value.trim().toLowerCase() : "";
+  return (TOURNAMENT_FORMATS as readonly string[]).includes(normalized)
+    ? (normalized as TournamentFormat)
+    : "arena";
+};
+
 const normaliseTournamentOverviewRow = (
   raw: Record<string, unknown>,
   overrides: Partial<
@@ -218,6 +237,9 @@ const normaliseTournamentOverviewRow = (
     player_count: basePlayerCount,
     active_match_count: baseActiveMatches,
     completed_match_count: baseCompletedMatches,
+    format: normaliseTournamentFormat(raw.format),
+    round_count: normaliseNumber(raw.round_count, null),
+    current_round: normaliseNumber(raw.current_round, 0),
   } satisfies TournamentOverview;
 };
 
@@ -867,8 +889,9 @@ export const fetchTournamentDetails = async (
       )
       .eq("tournament_id", tournamentId)
       .order("points", { ascending: false })
-      .order("wins", { ascending: false })
-      .order("draws", { ascending: false });
+      .order("buchholz", { ascending: false })
+      .order("sonneborn_berger", { ascending: false })
+      .order("wins", { ascending: false });
 
   if (registrationsError) {
     if (isRelationMissing(registrationsError)) {
@@ -1016,14 +1039,16 @@ export const fetchTournamentMatch = async (
 
 export const reportTournamentMatch = async (
   matchId: string,
-  result: "player1" | "player2" | "draw",
+  result?: TournamentMatchResult,
+  options: { claim?: "abandoned"; details?: string } = {},
 ) => {
   const supabaseClient = requireTournamentSupabase();
 
-  const { data, error } = await supabaseClient.functions.invoke<{
-    match: TournamentMatch;
-    leaderboard: TournamentLeaderboardEntry[];
-  }>("report-tournament-match", { body: { matchId, result } });
+  const { data, error } =
+    await supabaseClient.functions.invoke<TournamentReportResponse>(
+      "report-tournament-match",
+      { body: { matchId, result, ...options } },
+    );
 
   if (error) {
     if (isFunctionUnavailable(error)) {
@@ -1044,11 +1069,14 @@ export const fetchTournamentLeaderboard = async (
 
   const { data, error } = await supabaseClient
     .from("tournament_registrations")
-    .select("user_id, display_name, wins, losses, draws, points")
+    .select(
+      "user_id, display_name, wins, losses, draws, points, buchholz, sonneborn_berger, seed, eliminated_in_round",
+    )
     .eq("tournament_id", tournamentId)
     .order("points", { ascending: false })
-    .order("wins", { ascending: false })
-    .order("draws", { ascending: false });
+    .order("buchholz", { ascending: false })
+    .order("sonneborn_berger", { ascending: false })
+    .order("wins", { ascending: false });
 
   if (error) {
     if (isRelationMissing(error)) {
@@ -1057,5 +1085,5 @@ export const fetchTournamentLeaderboard = async (
     throw new Error(error.message);
   }
 
-  return data ?? [];
+  return (data ?? []) as unknown as TournamentLeaderboardEntry[];
 };
@@ -57,7 +57,7 @@ describe("Leaderboard server states", () => {
     authState.value = { user: { id: userId }, loading: false };
     const queryClient = new QueryClient();
     queryClient.setQueryData(
-      ["chess-platform", "leaderboard", "current-season"],
+      ["chess-platform", "leaderboard", "current-season", "blitz"],
       [],
     );
 
@@ -71,12 +71,14 @@ describe("Leaderboard server states", () => {
     authState.value = { user: { id: userId }, loading: false };
     const queryClient = new QueryClient();
     queryClient.setQueryData(
-      ["chess-platform", "leaderboard", "current-season"],
+      ["chess-platform", "leaderboard", "current-season", "blitz"],
       [
         {
           rank: 1,
           userId,
+          pool: "blitz",
           rating: 1200,
+          ratingDeviation: 287.6,
           gamesPlayed: 1,
           wins: 1,
           draws: 0,
@@ -91,5 +93,6 @@ describe("Leaderboard server states", () => {
     expect(markup).toContain("Joueur 9075-DD30");
     expect(markup).not.toContain(userId);
     expect(markup).toContain("Vous");
+    expect(markup).toContain("± 288");
   });
 });
@@ -8,6 +8,7 @@ import {
   Users,
 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
 import { Link } from "react-router-dom";
 
 import NeonBackground from "@/components/layout/NeonBackground";
@@ -30,14 +31,22 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   getChessLeaderboard,
   neutralPlayerLabel,
   type ChessLeaderboardEntry,
+  type ChessRatingPool,
 } from "@/features/play-hub/platform-api";
 import { cn } from "@/lib/utils";
 
+const CADENCE_POOLS: ReadonlyArray<{ id: ChessRatingPool; label: string }> = [
+  { id: "bullet", label: "Bullet" },
+  { id: "blitz", label: "Blitz" },
+  { id: "long", label: "Longue" },
+];
+
 const winRate = (entry: ChessLeaderboardEntry): string =>
   entry.gamesPlayed === 0
     ? "—"
@@ -114,10 +123,13 @@ function MobileLeaderboardCard({
       <dl className="mt-4 grid grid-cols-4 gap-2 border-t border-white/10 pt-3 text-center">
         <div>
           <dt className="text-[10px] uppercase tracking-wide text-white/35">
-            Elo
+            Cote
           </dt>
           <dd className="mt-1 font-mono font-semibold text-cyan-100">
             {entry.rating}
+            <span className="block text-[10px] font-normal text-white/40">
+              ± {Math.round(entry.ratingDeviation)}
+            </span>
           </dd>
         </div>
         <div>
@@ -147,9 +159,10 @@ function MobileLeaderboardCard({
 
 export default function Leaderboard() {
   const { user, loading: authLoading } = useAuth();
+  const [pool, setPool] = useState<ChessRatingPool>("blitz");
   const leaderboardQuery = useQuery<ChessLeaderboardEntry[], Error>({
-    queryKey: ["chess-platform", "leaderboard", "current-season"],
-    queryFn: () => getChessLeaderboard(100),
+    queryKey: ["chess-platform", "leaderboard", "current-season", pool],
+    queryFn: () => getChessLeaderboard(100, pool),
     enabled: Boolean(user),
     staleTime: 30_000,
     retry: 1,
@@ -170,9 +183,9 @@ export default function Leaderboard() {
                 Classement de la saison
               </h1>
               <p className="mt-3 max-w-2xl text-sm leading-relaxed text-cyan-100/60 sm:text-base">
-                Résultats issus directement des parties classées validées par le
-                serveur. La saison active, ou la dernière saison terminée, est
-                sélectionnée automatiquement.
+                Cotes Glicko-2 issues directement des parties classées validées
+                par le serveur, une par cadence. La saison active, ou la
+                dernière saison terminée, est sélectionnée automatiquement.
               </p>
             </div>
             <div className="flex w-fit items-center gap-2 rounded-xl border border-emerald-300/20 bg-emerald-300/10 px-3 py-2 text-xs text-emerald-100">
@@ -182,6 +195,33 @@ export default function Leaderboard() {
           </div>
         </header>
 
+        {user && (
+          <Tabs
+            value={pool}
+            onValueChange={(value) => setPool(value as ChessRatingPool)}
+          >
+            <TabsList
+              aria-label="Cadence du classement"
+              className="flex h-auto w-fit flex-wrap gap-2 rounded-2xl bg-black/40 p-2"
+            >
+              {CADENCE_POOLS.map((cadence) => (
+                <TabsTrigger
+                  key={cadence.id}
+                  value={cadence.id}
+                  className={cn(
+                    "rounded-xl border border-transparent px-4 py-1.5 text-sm transition-all",
+                    pool === cadence.id
+                      ? "border-cyan-400/60 bg-cyan-500/10 text-white"
+                      : "text-cyan-100/70 hover:border-cyan-400/40 hover:bg-cyan-500/5",
+                  )}
+                >
+                  {cadence.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        )}
+
         {authLoading ? (
           <section aria-label="Chargement du classement" className="space-y-3">
             <Skeleton className="h-20 bg-white/10" />
@@ -288,7 +328,7 @@ export default function Leaderboard() {
                   <TableRow className="border-white/10 hover:bg-transparent">
                     <TableHead className="w-20">Rang</TableHead>
                     <TableHead>Joueur</TableHead>
-                    <TableHead className="text-center">Elo</TableHead>
+                    <TableHead className="text-center">Cote</TableHead>
                     <TableHead className="text-center">Parties</TableHead>
                     <TableHead className="text-center">V / N / D</TableHead>
                     <TableHead className="text-right">Victoires</TableHead>
@@ -323,6 +363,9 @@ export default function Leaderboard() {
                         </TableCell>
                         <TableCell className="text-center font-mono text-base font-bold text-cyan-100">
                           {entry.rating}
+                          <span className="ml-1.5 text-xs font-normal text-white/40">
+                            ± {Math.round(entry.ratingDeviation)}
+                          </span>
                         </TableCell>
                         <TableCell className="text-center font-mono">
                           {entry.gamesPlayed}
@@ -17,6 +17,8 @@ import {
   ChevronRight,
   AlertTriangle,
   Stars,
+  Download,
+  Upload,
 } from 'lucide-react';
 import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -28,12 +30,24 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import ChessBoard from '@/components/ChessBoard';
 import { useAuth } from '@/contexts/AuthContext';
-import { fetchUserGames, type StoredGameRecord } from '@/lib/gameStorage';
+import {
+  exportStoredGamePgn,
+  fetchUserGames,
+  saveImportedPgnGame,
+  type StoredGameRecord,
+} from '@/lib/gameStorage';
+import { downloadPgn } from '@/lib/pgn';
 import {
   boardStateToString,
   deserializeBoardState,
   type AnalyzedMove,
 } from '@/lib/postGameAnalysis';
+import {
+  classifyOpening,
+  isStandardStartingBoard,
+  toUciMove,
+  type OpeningExplorerGame,
+} from '@/lib/openingBook';
 import { supabase } from '@/integrations/supabase/client';
 import { getSupabaseFunctionErrorMessage } from '@/integrations/supabase/errors';
 import { cn } from '@/lib/utils';
@@ -42,6 +56,7 @@ import type { CoachChatResponse } from '@/types/coach';
 import { CoachPanel } from '@/features/coach/CoachPanel';
 import { EvalGraph } from '@/features/coach/EvalGraph';
 import { KeyMoments } from '@/features/coach/KeyMoments';
+import { OpeningExplorer } from '@/features/coach/OpeningExplorer';
 import { useCoach } from '@/features/coach/useCoach';
 import { buildCoachMoves } from '@/features/coach/buildPayload';
 import { coachApi } from '@/services/coachApi';
@@ -100,6 +115,11 @@ const MatchAnalysis = () => {
   const [coachGameId, setCoachGameId] = useState<string | null>(null);
   const [activeCoachPly, setActiveCoachPly] = useState<number | null>(null);
   const { status: coachStatus, report: coachReport } = useCoach(coachBaseUrl, coachGameId);
+  const pgnInputRef = useRef<HTMLInputElement>(null);
+  const [pgnBusy, setPgnBusy] = useState(false);
+  const [pgnError, setPgnError] = useState<string | null>(null);
+  const playerName =
+    (user?.user_metadata?.full_name as string | undefined)?.trim() || user?.email?.split('@')[0] || 'Joueur';
 
   useEffect(() => {
     if (!user) {
@@ -162,9 +182,16 @@ const MatchAnalysis = () => {
         const movesPayload = buildCoachMoves(selectedGame);
         if (movesPayload.length === 0) return;
 
+        let pgn: string | null = null;
+        try {
+          pgn = await exportStoredGamePgn(selectedGame, playerName);
+        } catch {
+          pgn = null;
+        }
+
         const ingest = await coachApi.ingest(coachBaseUrl, {
           owner_id: selectedGame.user_id,
-          pgn: null,
+          pgn,
           moves: movesPayload,
           source: 'app',
         });
@@ -185,7 +212,35 @@ const MatchAnalysis = () => {
     return () => {
       cancelled = true;
     };
-  }, [selectedGame, coachBaseUrl]);
+  }, [selectedGame, coachBaseUrl, playerName]);
+
+  const handleExportPgn = async () => {
+    if (!selectedGame) return;
+    setPgnError(null);
+    try {
+      const pgn = await exportStoredGamePgn(selectedGame, playerName);
+      downloadPgn(`partie-${selectedGame.created_at.slice(0, 10)}-${selectedGame.id.slice(0, 8)}`, pgn);
+    } catch (err) {
+      setPgnError(err instanceof Error ? err.message : "Cette partie ne peut pas être exportée en PGN.");
+    }
+  };
+
+  const handleImportPgn = async (file: File | undefined) => {
+    if (!file || !user) return;
+    setPgnBusy(true);
+    setPgnError(null);
+    try {
+      await saveImportedPgnGame({ userId: user.id, pgn: await file.text(), playerName });
+      const data = await fetchUserGames(user.id);
+      setGames(data);
+      setSelectedGameId(data[0]?.id ?? null);
+    } catch (err) {
+      setPgnError(err instanceof Error ? err.message : "Import du PGN impossible.");
+    } finally {
+      setPgnBusy(false);
+      if (pgnInputRef.current) pgnInputRef.current.value = '';
+    }
+  };
 
   const currentBoardSnapshot = useMemo(() => {
     if (!selectedGame) return null;
@@ -249,6 +304,37 @@ const MatchAnalysis = () => {
 
   const playerColor = selectedGame?.player_color ?? 'white';
   const playerColorLabel = playerColor === 'white' ? 'Blancs' : 'Noirs';
+
+  const openingGames = useMemo<OpeningExplorerGame[]>(
+    () =>
+      games
+        .filter(game =>
+          game.player_color === playerColor &&
+          (game.result === 'win' || game.result === 'loss' || game.result === 'draw') &&
+          isStandardStartingBoard(deserializeBoardState(game.starting_board)),
+        )
+        .map(game => ({
+          moves: game.move_history.map(toUciMove),
+          result: game.result as OpeningExplorerGame['result'],
+        })),
+    [games, playerColor],
+  );
+
+  const selectedGameIsStandard = useMemo(
+    () => Boolean(selectedGame && isStandardStartingBoard(deserializeBoardState(selectedGame.starting_board))),
+    [selectedGame],
+  );
+
+  const selectedOpening = useMemo(() => {
+    if (!selectedGame || !selectedGameIsStandard) return null;
+    // Games saved before openings were classified only carry their moves.
+    return selectedGame.analysis_overview.opening ?? classifyOpening(selectedGame.move_history.map(toUciMove));
+  }, [selectedGame, selectedGameIsStandard]);
+
+  const explorerLine = useMemo(
+    () => selectedGame?.move_history.slice(0, currentMoveIndex).map(toUciMove) ?? [],
+    [selectedGame, currentMoveIndex],
+  );
   const opponentColorLabel = playerColor === 'white' ? 'Noirs' : 'Blancs';
   const finalEvaluation = evaluationData.length > 0 ? evaluationData[evaluationData.length - 1]?.score ?? 0 : 0;
 
@@ -297,6 +383,21 @@ const MatchAnalysis = () => {
     }));
   }, [coachReport]);
 
+  const coachAbilityUsage = useMemo(() => {
+    const raw = (coachReport?.report as any)?.ability_usage;
+    if (!Array.isArray(raw)) {
+      return [] as Array<{ ply: number; label: string; cooldownTurns: number | null; swingCp: number }>;
+    }
+    return (raw as any[]).map(value => ({
+      ply: Number(value?.ply ?? 0),
+      label: typeof value?.label === 'string' ? value.label : 'capacité',
+      cooldownTurns: Number.isFinite(Number(value?.cooldown_turns)) ? Number(value.cooldown_turns) : null,
+      swingCp: Number(value?.swing_cp ?? 0),
+    }));
+  }, [coachReport]);
+  const coachRuleDrivenMoves = Number((coachReport?.report as any)?.rule_driven_moves ?? 0);
+  const coachIsVariant = (coachReport?.report as any)?.variant === true;
+
   useEffect(() => {
     if (!coachData.moves.length) return;
     setActiveCoachPly(prev => prev ?? coachData.moves[0].ply);
@@ -730,6 +831,38 @@ const MatchAnalysis = () => {
                   {selectedGame.result === 'win' ? 'Victoire' : selectedGame.result === 'loss' ? 'Défaite' : 'Nulle'} · {selectedGame.total_moves} coups
                 </Badge>
               )}
+              {user && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="rounded-xl border-cyan-500/40 text-cyan-200 hover:bg-cyan-500/10"
+                    disabled={!selectedGame}
+                    onClick={handleExportPgn}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Exporter PGN
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="rounded-xl border-cyan-500/40 text-cyan-200 hover:bg-cyan-500/10"
+                    disabled={pgnBusy}
+                    onClick={() => pgnInputRef.current?.click()}
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    {pgnBusy ? 'Import…' : 'Importer PGN'}
+                  </Button>
+                  <input
+                    ref={pgnInputRef}
+                    type="file"
+                    accept=".pgn,application/x-chess-pgn,text/plain"
+                    className="hidden"
+                    onChange={event => void handleImportPgn(event.target.files?.[0])}
+                  />
+                </div>
+              )}
+              {pgnError && <p className="max-w-xs text-right text-xs text-rose-300">{pgnError}</p>}
             </div>
           </div>
           <Card className="rounded-2xl border border-cyan-400/30 bg-black/60 p-6 shadow-inner shadow-cyan-500/25">
@@ -962,6 +1095,16 @@ const MatchAnalysis = () => {
                   </ScrollArea>
                 </CardContent>
               </Card>
+              {selectedGameIsStandard && (
+                <Card className="rounded-2xl border border-cyan-400/30 bg-black/50 p-4 shadow-[0_0_25px_rgba(34,211,238,0.2)]">
+                  <CardHeader className="p-0 pb-3">
+                    <CardTitle className="text-sm font-semibold text-white">Explorateur d'ouvertures</CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <OpeningExplorer opening={selectedOpening} line={explorerLine} games={openingGames} />
+                  </CardContent>
+                </Card>
+              )}
               <Card className="rounded-2xl border border-fuchsia-400/30 bg-black/50 p-4 shadow-[0_0_25px_rgba(217,70,239,0.25)]">
                 <CardHeader className="p-0 pb-3">
                   <CardTitle className="text-sm font-semibold text-white">Commentaire du coach</CardTitle>
@@ -1214,7 +1357,11 @@ const MatchAnalysis = () => {
                   <EvalGraph points={coachData.points} />
                 ) : (
                   <div className="flex h-32 items-center justify-center rounded-2xl border border-cyan-400/20 bg-black/40 text-sm text-cyan-100/60">
-                    {coachLoadingAnalysis ? 'Analyse Stockfish en cours...' : 'En attente du lancement de l’analyse.'}
+                    {coachLoadingAnalysis
+                      ? coachIsVariant
+                        ? 'Analyse des règles en cours...'
+                        : 'Analyse Stockfish en cours...'
+                      : 'En attente du lancement de l’analyse.'}
                   </div>
                 )}
                 <div className="rounded-2xl border border-cyan-400/20 bg-black/40 p-4">
@@ -1250,6 +1397,33 @@ const MatchAnalysis = () => {
                     {coachSummary}
                   </div>
                 )}
+                {coachAbilityUsage.length > 0 && (
+                  <div className="rounded-2xl border border-violet-400/20 bg-violet-500/10 p-4 text-sm text-violet-100/80">
+                    <p className="mb-2 text-xs uppercase tracking-[0.3em] text-violet-100/70">Capacités utilisées</p>
+                    <ul className="space-y-2">
+                      {coachAbilityUsage.map(usage => (
+                        <li key={`${usage.ply}-${usage.label}`}>
+                          <button type="button" className="text-left hover:text-white" onClick={() => handleCoachReplay(usage.ply)}>
+                            Coup {usage.ply} · {usage.ply % 2 === 1 ? 'les Blancs' : 'les Noirs'} déclenchent « {usage.label} »
+                            {usage.cooldownTurns && usage.cooldownTurns > 0
+                              ? ` avec encore ${usage.cooldownTurns} tour${usage.cooldownTurns > 1 ? 's' : ''} de recharge`
+                              : ''}
+                            {Math.abs(usage.swingCp) >= 50
+                              ? ` : ${usage.swingCp > 0 ? 'gain' : 'perte'} de ${Math.abs(usage.swingCp)} cp`
+                              : ''}
+                            .
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {coachRuleDrivenMoves > 0 && (
+                  <p className="text-xs text-cyan-100/60">
+                    {coachRuleDrivenMoves} coup{coachRuleDrivenMoves > 1 ? 's' : ''} dicté{coachRuleDrivenMoves > 1 ? 's' : ''} par les
+                    règles de la variante n’entre{coachRuleDrivenMoves > 1 ? 'nt' : ''} pas dans la précision.
+                  </p>
+                )}
                 <div className="rounded-2xl border border-fuchsia-400/20 bg-black/40 p-4 text-sm text-cyan-100/80">
                   <CoachPanel comment={activeCoachComment} />
                 </div>
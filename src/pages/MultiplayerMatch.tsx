@@ -15,7 +15,12 @@ import {
 } from "@/features/multiplayer";
 import { supabase } from "@/integrations/supabase/client";
 
-export function MultiplayerMatch() {
+interface MultiplayerMatchProps {
+  /** `/watch/:matchId` joins as a spectator before loading the snapshot. */
+  spectate?: boolean;
+}
+
+export function MultiplayerMatch({ spectate = false }: MultiplayerMatchProps) {
   const { matchId } = useParams<{ matchId: string }>();
   const { user, loading: authLoading } = useAuth();
   const validMatchId = isStrictMatchUuid(matchId)
@@ -26,11 +31,18 @@ export function MultiplayerMatch() {
     [],
   );
   const snapshotQuery = useQuery({
-    queryKey: ["chess-platform", "match-snapshot", validMatchId, user?.id],
+    queryKey: [
+      "chess-platform",
+      "match-snapshot",
+      validMatchId,
+      user?.id,
+      spectate,
+    ],
     queryFn: async () => {
       if (!adapter || !validMatchId) {
         throw new Error("MATCH_NOT_FOUND");
       }
+      if (spectate) await adapter.watchMatch(validMatchId);
       const snapshot = await adapter.loadSnapshot(validMatchId);
       if (!snapshot) throw new Error("MATCH_NOT_FOUND");
       if (snapshot.identity.matchId !== validMatchId) {
@@ -166,7 +178,9 @@ export function MultiplayerMatch() {
           <CardContent className="space-y-5 text-sm text-slate-300">
             <p>
               {failure === "forbidden"
-                ? "Ce compte ne fait pas partie de la salle protégée, ou la session n'est plus valide."
+                ? spectate
+                  ? "Cette salle n'accepte pas de spectateurs, ou la session n'est plus valide."
+                  : "Ce compte ne fait pas partie de la salle protégée, ou la session n'est plus valide."
                 : failure === "not-found"
                   ? "Ce match n'existe pas ou n'est plus disponible."
                   : "Le serveur n'a pas pu fournir un snapshot canonique. Aucun état local n'est utilisé en remplacement."}
@@ -195,6 +209,8 @@ export function MultiplayerMatch() {
         functionsClient={supabase as unknown as ProcessMoveFunctionsClient}
         identity={snapshotQuery.data.identity}
         userId={user.id}
+        viewerRole={snapshotQuery.data.viewerRole}
+        spectatorDelayMs={snapshotQuery.data.spectatorDelayMs}
       />
     </NeonBackground>
   );
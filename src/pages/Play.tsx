@@ -10,10 +10,20 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   ArrowLeft,
   Bomb,
   Bot,
+  Copy,
+  FolderOpen,
   Loader2,
   Menu,
   MessageSquareText,
@@ -29,8 +39,13 @@ import {
 import type { LucideIcon } from "lucide-react";
 import ChessBoard from "@/components/ChessBoard";
 import { ChessEngine } from "@/lib/chessEngine";
-import { chooseAiMove } from "@/lib/aiOpponent";
+import { requestAiMove } from "@/lib/aiOpponentClient";
 import { applyMoveToGameState, canPlayFromState } from "@/lib/gameMoveState";
+import {
+  ExtendedFenError,
+  parseExtendedPosition,
+  serializeExtendedPosition,
+} from "@/lib/extendedFen";
 import {
   GameState,
   Position,
@@ -58,6 +73,12 @@ import { getSupabaseFunctionErrorMessage } from "@/integrations/supabase/errors"
 import { buildCoachFallbackMessage } from "@/lib/coachFallback";
 // import { useToast } from '@/hooks/use-toast'; // ⚠️ NE PLUS UTILISER DIRECTEMENT
 import { cn } from "@/lib/utils";
+import {
+  chargedElapsedMs,
+  clockRulesFromSeconds,
+  settleMoveClock,
+} from "@/lib/chessClock";
+import { formatClock } from "@/features/multiplayer/clock";
 import {
   CoachChatHistoryEntry,
   CoachChatMessage,
@@ -104,9 +125,23 @@ import {
 import { useRuleEngine } from "@/hooks/useRuleEngine";
 import { FxProvider } from "@/fx/context";
 import type { RuleJSON } from "@/engine/types";
+import {
+  BOARD_PRESETS,
+  STANDARD_BOARD_GEOMETRY,
+  STANDARD_BOARD_LAYOUT,
+  boardGeometryForGame,
+  boardPositionToTile,
+  isBoardPresetId,
+  isStandardBoardGeometry,
+  resolveRulesBoardLayout,
+  sameBoardLayout,
+  type BoardLayout,
+} from "@/rules-v2/board-geometry";
+import { pieceFenLetter } from "@/rules-v2/fairy-pieces";
 import LiveCoachAvatar from "@/features/coach/LiveCoachAvatar";
 import RuleActionDock from "@/features/play/RuleActionDock";
 import RuleRuntimeBridge from "@/features/play/RuleRuntimeBridge";
+import RuleTracePanel from "@/features/play/RuleTracePanel";
 
 /* -------------------------------------------------------------------------- */
 /*                               Helpers locaux                               */
@@ -151,7 +186,9 @@ const isCarnivorousPlantRule = (rule: ChessRule): boolean => {
   );
 };
 
-const FILES = "abcdefgh";
+// Le débogueur de règles est réservé au développement, sauf activation explicite.
+const RULE_TRACE_ENABLED =
+  import.meta.env.DEV || import.meta.env.VITE_DEBUG_RULE_ENGINE === "true";
 const AI_COLOR: PieceColor = "black";
 const HUMAN_COLOR: PieceColor = "white";
 
@@ -162,6 +199,7 @@ const PIECE_WEIGHTS: Record<ChessPiece["type"], number> = {
   bishop: 330,
   knight: 320,
   pawn: 100,
+  fairy: 300,
 };
 const PIECE_TYPES: PieceType[] = [
   "king",
@@ -178,6 +216,7 @@ const PIECE_TYPE_LABELS: Record<PieceType, string> = {
   bishop: "le fou",
   knight: "le cavalier",
   pawn: "le pion",
+  fairy: "la pièce féerique",
 };
 const isPieceType = (v: unknown): v is PieceType =>
   typeof v === "string" && PIECE_TYPES.includes(v as PieceType);
@@ -262,6 +301,8 @@ const AI_MOVE_DELAY_RANGES: Record<
 > = {
   bullet: { min: 500, max: 3000 },
   blitz: { min: 2000, max: 5000 },
+  bronstein: { min: 2000, max: 5000 },
+  rapid: { min: 1000, max: 8000 },
   long: { min: 1000, max: 10000 },
   untimed: { min: 1000, max: 10000 },
 };
@@ -269,7 +310,13 @@ const AI_MOVE_DELAY_RANGES: Record<
 type AIDifficulty = "novice" | "standard" | "expert";
 const AI_DIFFICULTY_LEVELS: Record<
   AIDifficulty,
-  { depth: number; label: string; description: string; selectionRange: number }
+  {
+    depth: number;
+    label: string;
+    description: string;
+    selectionRange: number;
+    timeBudgetMs: number;
+  }
 > = {
   novice: {
     depth: 1,
@@ -277,18 +324,21 @@ const AI_DIFFICULTY_LEVELS: Record<
     description:
       "Vision limitée et choix parfois aventureux pour un entraînement détendu.",
     selectionRange: 3,
+    timeBudgetMs: 400,
   },
   standard: {
-    depth: 2,
+    depth: 3,
     label: "Intermédiaire",
     description: "Équilibre entre temps de réflexion et précision stratégique.",
     selectionRange: 2,
+    timeBudgetMs: 1_200,
   },
   expert: {
-    depth: 3,
+    depth: 6,
     label: "Maître",
     description: "Recherche profonde et coups optimisés pour un vrai défi.",
     selectionRange: 1,
+    timeBudgetMs: 3_000,
   },
 };
 const isAIDifficulty = (v: string): v is AIDifficulty =>
@@ -308,6 +358,7 @@ const CAPTURED_PIECE_SYMBOLS: Record<
   bishop: { white: "♗", black: "♝" },
   knight: { white: "♘", black: "♞" },
   pawn: { white: "♙", black: "♟" },
+  fairy: { white: "✦", black: "✦" },
 };
 
 const ABILITY_ICON_MAP: Record<string, LucideIcon> = {
@@ -417,9 +468,17 @@ const Play = () => {
         ruleArchitectRulesetHash?: string;
         ruleArchitectEngineVersion?: string;
         tournamentId?: string;
+        boardPreset?: string;
       }
     | undefined;
 
+  // Plateau choisi au lancement ; une règle qui déclare son plateau l'emporte.
+  const presetBoardLayout: BoardLayout = isBoardPresetId(
+    locationState?.boardPreset,
+  )
+    ? BOARD_PRESETS[locationState.boardPreset].layout
+    : STANDARD_BOARD_LAYOUT;
+
   // Récupérer le ruleId depuis l'URL (ex: /play?ruleId=xxx)
   const urlRuleId = searchParams.get("ruleId");
 
@@ -533,6 +592,11 @@ const Play = () => {
     : "untimed";
   const timeControlSettings = TIME_CONTROL_SETTINGS[timeControl];
   const initialTimeSeconds = timeControlSettings.initialSeconds;
+  const isTimedGame = initialTimeSeconds > 0;
+  const clockRules = useMemo(
+    () => clockRulesFromSeconds(timeControlSettings),
+    [timeControlSettings],
+  );
 
   const triggerAiFallback = useCallback(async () => {
     if (!tournamentId) return;
@@ -768,6 +832,9 @@ const Play = () => {
   const aiSearchDepth = Math.max(1, aiDifficultyMeta.depth);
   const [aiThinking, setAiThinking] = useState(false);
   const aiMoveGenerationRef = useRef(0);
+  // One rule action per AI turn (keyed by move count), then a board move.
+  const aiRuleActionTurnRef = useRef<number | null>(null);
+  const [aiRuleActionTick, setAiRuleActionTick] = useState(0);
 
   const [isDesktop, setIsDesktop] = useState(() =>
     typeof window !== "undefined" ? window.innerWidth >= 1024 : false,
@@ -804,9 +871,10 @@ const Play = () => {
   const gameStartTimeRef = useRef<number>(Date.now());
 
   const [gameState, setGameState] = useState<GameState>(() => {
-    const initialBoard = ChessEngine.initializeBoard();
+    const initialBoard = ChessEngine.initializeBoard(presetBoardLayout);
     return {
       board: initialBoard,
+      geometry: boardGeometryForGame(presetBoardLayout),
       currentPlayer: "white",
       turnNumber: 1,
       movesThisTurn: 0,
@@ -836,10 +904,86 @@ const Play = () => {
   const latestGameStateRef = useRef(gameState);
 
   const initialBoardSnapshotRef = useRef(serializeBoardState(gameState.board));
-  const [timeRemaining, setTimeRemaining] = useState(() => ({
-    white: initialTimeSeconds,
-    black: initialTimeSeconds,
+  // Stored values are exact at `turnStartedAtMs`; the running side is derived
+  // on each tick so a throttled interval never drifts the clock.
+  const [localClock, setLocalClock] = useState(() => ({
+    white: initialTimeSeconds * 1000,
+    black: initialTimeSeconds * 1000,
+    turnStartedAtMs: Date.now(),
   }));
+  const [clockNowMs, setClockNowMs] = useState(() => Date.now());
+  const clockSideRef = useRef<PieceColor>(gameState.currentPlayer);
+
+  const resetLocalClock = useCallback(() => {
+    const now = Date.now();
+    clockSideRef.current = "white";
+    setLocalClock({
+      white: initialTimeSeconds * 1000,
+      black: initialTimeSeconds * 1000,
+      turnStartedAtMs: now,
+    });
+    setClockNowMs(now);
+  }, [initialTimeSeconds]);
+
+  useEffect(() => {
+    const movedSide = clockSideRef.current;
+    if (!isTimedGame || movedSide === gameState.currentPlayer) return;
+    clockSideRef.current = gameState.currentPlayer;
+    const now = Date.now();
+    setLocalClock((previous) => ({
+      ...previous,
+      [movedSide]: settleMoveClock(
+        previous[movedSide],
+        now - previous.turnStartedAtMs,
+        clockRules,
+      ).remainingMs,
+      turnStartedAtMs: now,
+    }));
+  }, [clockRules, gameState.currentPlayer, isTimedGame]);
+
+  const clockRunning =
+    isTimedGame &&
+    (gameState.gameStatus === "active" || gameState.gameStatus === "check");
+  useEffect(() => {
+    if (!clockRunning) return;
+    const intervalId = window.setInterval(() => setClockNowMs(Date.now()), 200);
+    return () => window.clearInterval(intervalId);
+  }, [clockRunning]);
+
+  const displayedClock = useMemo(() => {
+    const side = gameState.currentPlayer;
+    const runningMs = clockRunning
+      ? chargedElapsedMs(clockNowMs - localClock.turnStartedAtMs, clockRules)
+      : 0;
+    return {
+      ...localClock,
+      [side]: Math.max(0, localClock[side] - runningMs),
+    };
+  }, [
+    clockNowMs,
+    clockRules,
+    clockRunning,
+    gameState.currentPlayer,
+    localClock,
+  ]);
+
+  const flaggedSide =
+    clockRunning && displayedClock[gameState.currentPlayer] === 0
+      ? gameState.currentPlayer
+      : null;
+  useEffect(() => {
+    if (!flaggedSide) return;
+    setLocalClock((previous) => ({ ...previous, [flaggedSide]: 0 }));
+    setGameState((previous) =>
+      canPlayFromState(previous) && previous.currentPlayer === flaggedSide
+        ? { ...previous, gameStatus: "timeout" }
+        : previous,
+    );
+    safeToast({
+      title: "Temps écoulé",
+      description: `Les ${flaggedSide === "white" ? "Blancs" : "Noirs"} perdent au temps.`,
+    });
+  }, [flaggedSide, safeToast]);
 
   useEffect(() => {
     setGameState((prev) => {
@@ -921,6 +1065,31 @@ const Play = () => {
     return jsons;
   }, [combinedActiveRules]);
 
+  const boardLayout = useMemo<BoardLayout>(
+    () => resolveRulesBoardLayout(activeRuleJsons) ?? presetBoardLayout,
+    [activeRuleJsons, presetBoardLayout],
+  );
+  const boardGeometry = gameState.geometry ?? STANDARD_BOARD_GEOMETRY;
+
+  // Les règles arrivent après le premier rendu : tant qu'aucun coup n'est
+  // joué, on replace les pièces sur le plateau qu'elles déclarent.
+  const appliedBoardLayoutRef = useRef<BoardLayout>(presetBoardLayout);
+  useEffect(() => {
+    if (sameBoardLayout(appliedBoardLayoutRef.current, boardLayout)) return;
+    if (latestGameStateRef.current.moveHistory.length > 0) return;
+    appliedBoardLayoutRef.current = boardLayout;
+    const board = ChessEngine.initializeBoard(boardLayout);
+    setGameState((previous) => ({
+      ...previous,
+      board,
+      geometry: boardGeometryForGame(boardLayout),
+      selectedPiece: null,
+      validMoves: [],
+      positionHistory: { [ChessEngine.getBoardSignature(board)]: 1 },
+    }));
+    initialBoardSnapshotRef.current = serializeBoardState(board);
+  }, [boardLayout]);
+
   const handleRuleBoardChange = useCallback(
     (nextBoard: (ChessPiece | null)[][]) => {
       setGameState((previous) => {
@@ -942,6 +1111,11 @@ const Play = () => {
     [safeToast],
   );
 
+  const ruleMatchSeed =
+    locationState?.ruleArchitectMatchSeed ??
+    locationState?.lobbyId ??
+    "local-match";
+
   const handleRuleTurnEnd = useCallback(() => {
     setGameState((previous) => {
       if (previous.gameStatus !== "active" && previous.gameStatus !== "check") {
@@ -968,36 +1142,49 @@ const Play = () => {
     onMoveCommitted,
     onPromote,
     onTurnStart,
+    onTurnEnd,
+    onCheck,
+    onAttacked,
+    onGameEnd,
     runUIAction,
     boardAdapter,
     uiActions,
     vfxAdapter,
+    serializeState,
+    deserializeState,
+    traceRecorder,
   } = useRuleEngine(gameState, activeRuleJsons, {
-    matchSeed:
-      locationState?.ruleArchitectMatchSeed ??
-      locationState?.lobbyId ??
-      "local-match",
+    matchSeed: ruleMatchSeed,
     maxEffectsPerRuleEvent: 128,
     maxNestedDepth: 8,
     onBoardChange: handleRuleBoardChange,
     onRuntimeError: handleRuleRuntimeError,
     onTurnEnd: handleRuleTurnEnd,
+    trace: RULE_TRACE_ENABLED,
   });
+  const hasRuleActions = uiActions.length > 0;
 
   const lastRuleTurnSideRef = useRef<PieceColor | null>(null);
+  // Last move of a loaded position: already applied, the rules must not replay it.
+  const restoredMoveRef = useRef<ChessMove | null>(null);
   useEffect(() => {
-    if (lastRuleTurnSideRef.current === gameState.currentPlayer) return;
+    const previousSide = lastRuleTurnSideRef.current;
+    if (previousSide === gameState.currentPlayer) return;
     lastRuleTurnSideRef.current = gameState.currentPlayer;
+    if (previousSide) onTurnEnd(previousSide);
     onTurnStart(gameState.currentPlayer);
-  }, [gameState.currentPlayer, onTurnStart]);
+  }, [gameState.currentPlayer, onTurnEnd, onTurnStart]);
 
   // À chaque nouveau coup, informer le moteur de règles et démarrer le tour suivant
   useEffect(() => {
     const len = gameState.moveHistory.length;
     if (len === 0) return;
     const last = gameState.moveHistory[len - 1];
-    const fromTile = `${FILES[last.from.col]}${8 - last.from.row}`;
-    const toTile = `${FILES[last.to.col]}${8 - last.to.row}`;
+    if (last === restoredMoveRef.current) return;
+    const geometry =
+      latestGameStateRef.current.geometry ?? STANDARD_BOARD_GEOMETRY;
+    const fromTile = boardPositionToTile(last.from, geometry);
+    const toTile = boardPositionToTile(last.to, geometry);
     const movedPieceId = boardAdapter.getPieceAt(toTile);
 
     if (!movedPieceId) {
@@ -1013,14 +1200,128 @@ const Play = () => {
     if (last.promotion) {
       onPromote(movedPieceId, "pawn", last.promotion);
     }
+
+    const board = latestGameStateRef.current.board;
+    const movedPiece = board[last.to.row]?.[last.to.col];
+    if (movedPiece) {
+      for (const square of ChessEngine.getAttackSquares(
+        board,
+        movedPiece,
+        geometry,
+      )) {
+        const attackedId = boardAdapter.getPieceAt(
+          boardPositionToTile(square, geometry),
+        );
+        if (attackedId) onAttacked(attackedId, movedPieceId);
+      }
+    }
+
+    const { currentPlayer, gameStatus } = latestGameStateRef.current;
+    if (gameStatus === "check" || gameStatus === "checkmate") {
+      board.forEach((row, rowIndex) =>
+        row.forEach((piece, colIndex) => {
+          if (piece?.type !== "king" || piece.color !== currentPlayer) return;
+          const kingId = boardAdapter.getPieceAt(
+            boardPositionToTile({ row: rowIndex, col: colIndex }, geometry),
+          );
+          if (kingId) onCheck(kingId);
+        }),
+      );
+    }
   }, [
     boardAdapter,
     gameState.moveHistory,
+    onAttacked,
+    onCheck,
     onEnterTile,
     onMoveCommitted,
     onPromote,
   ]);
 
+  const ruleGameEndReportedRef = useRef(false);
+  useEffect(() => {
+    const status = gameState.gameStatus;
+    if (status === "active" || status === "check") {
+      ruleGameEndReportedRef.current = false;
+      return;
+    }
+    if (ruleGameEndReportedRef.current) return;
+    ruleGameEndReportedRef.current = true;
+    const loser = gameState.currentPlayer;
+    onGameEnd(
+      status,
+      status === "checkmate" || status === "timeout"
+        ? loser === "white"
+          ? "black"
+          : "white"
+        : undefined,
+    );
+  }, [gameState.currentPlayer, gameState.gameStatus, onGameEnd]);
+
+  const [positionDialogOpen, setPositionDialogOpen] = useState(false);
+  const [positionInput, setPositionInput] = useState("");
+  const [positionError, setPositionError] = useState<string | null>(null);
+
+  const handleCopyPosition = useCallback(async () => {
+    const position = serializeExtendedPosition(
+      latestGameStateRef.current,
+      serializeState(),
+    );
+    try {
+      await navigator.clipboard.writeText(position);
+      safeToast({
+        title: "Position copiée",
+        description: "Collez-la dans « Charger une position » pour la rejouer.",
+      });
+    } catch {
+      setPositionInput(position);
+      setPositionError(null);
+      setPositionDialogOpen(true);
+    }
+  }, [safeToast, serializeState]);
+
+  const handleLoadPosition = useCallback(() => {
+    let loaded: ReturnType<typeof parseExtendedPosition>;
+    try {
+      loaded = parseExtendedPosition(positionInput, combinedActiveRules);
+    } catch (error) {
+      setPositionError(
+        error instanceof ExtendedFenError
+          ? error.message
+          : "La position n’a pas pu être lue.",
+      );
+      return;
+    }
+
+    restoredMoveRef.current = loaded.state.moveHistory[0] ?? null;
+    lastRuleTurnSideRef.current = loaded.state.currentPlayer;
+    setGameState(loaded.state);
+    initialBoardSnapshotRef.current = serializeBoardState(loaded.state.board);
+    deserializeState(
+      loaded.engine ?? { rules: "{}", cooldowns: "[]", decals: [] },
+    );
+    resetLocalClock();
+    clockSideRef.current = loaded.state.currentPlayer;
+    setPositionDialogOpen(false);
+    setPositionError(null);
+
+    const activeIds = new Set(combinedActiveRules.map((rule) => rule.ruleId));
+    const missing = loaded.ruleIds.filter((id) => !activeIds.has(id));
+    safeToast({
+      title: "Position chargée",
+      description:
+        missing.length > 0
+          ? `Règles absentes de cette partie : ${missing.join(", ")}.`
+          : `Trait aux ${loaded.state.currentPlayer === "white" ? "Blancs" : "Noirs"}.`,
+    });
+  }, [
+    combinedActiveRules,
+    deserializeState,
+    positionInput,
+    resetLocalClock,
+    safeToast,
+  ]);
+
   const specialAbilities = useMemo<SpecialAbilityOption[]>(() => {
     const options: SpecialAbilityOption[] = [];
     const seen = new Set<string>();
@@ -1153,7 +1454,7 @@ const Play = () => {
           return prev;
         }
 
-        if (!ChessEngine.isValidPosition(position)) {
+        if (!ChessEngine.isValidPosition(position, prev.geometry)) {
           result = { success: false, reason: "invalid" };
           return prev;
         }
@@ -1200,8 +1501,10 @@ const Play = () => {
           ],
         };
 
-        const colLetter = FILES[position.col] ?? "?";
-        const coordinate = `${colLetter}${8 - position.row}`;
+        const coordinate = boardPositionToTile(
+          position,
+          prev.geometry ?? STANDARD_BOARD_GEOMETRY,
+        );
         result = {
           success: true,
           coordinate,
@@ -1390,8 +1693,9 @@ const Play = () => {
       (expectedMoveCount * 7919 + gameState.turnNumber * 104729) % span;
     const delayMs = range.min + deterministicOffset;
     setAiThinking(true);
+    const searchController = new AbortController();
 
-    const timeoutId = window.setTimeout(() => {
+    const timeoutId = window.setTimeout(async () => {
       if (aiMoveGenerationRef.current !== generation) return;
       const snapshot = latestGameStateRef.current;
       if (
@@ -1403,16 +1707,43 @@ const Play = () => {
         return;
       }
 
-      const choice = chooseAiMove(
+      const ruleContext =
+        hasRuleActions && aiRuleActionTurnRef.current !== expectedMoveCount
+          ? {
+              rules: activeRuleJsons,
+              engineState: serializeState(),
+              matchSeed: String(ruleMatchSeed),
+            }
+          : null;
+      const choice = await requestAiMove(
         snapshot,
         aiSearchDepth,
         aiDifficultyMeta.selectionRange,
+        {
+          timeBudgetMs: aiDifficultyMeta.timeBudgetMs,
+          signal: searchController.signal,
+          ruleContext,
+        },
       );
+      if (aiMoveGenerationRef.current !== generation) return;
       if (!choice) {
         setAiThinking(false);
         return;
       }
 
+      if ("action" in choice) {
+        aiRuleActionTurnRef.current = expectedMoveCount;
+        const { actionId, label, pieceId, targetTile } = choice.action;
+        const result = runUIAction(actionId, pieceId, targetTile);
+        if (result.ok) {
+          safeToast({ title: "L’IA utilise une action", description: label });
+        }
+        // A turn-consuming action hands over through handleRuleTurnEnd;
+        // otherwise the tick asks for the board move that completes the turn.
+        setAiRuleActionTick((tick) => tick + 1);
+        return;
+      }
+
       setGameState((previous) => {
         if (
           aiMoveGenerationRef.current !== generation ||
@@ -1439,20 +1770,29 @@ const Play = () => {
 
     return () => {
       window.clearTimeout(timeoutId);
+      searchController.abort();
       if (aiMoveGenerationRef.current === generation) {
         aiMoveGenerationRef.current += 1;
       }
     };
   }, [
+    activeRuleJsons,
     aiDifficultyMeta.selectionRange,
+    aiDifficultyMeta.timeBudgetMs,
+    aiRuleActionTick,
     aiSearchDepth,
     gameState.currentPlayer,
     gameState.gameStatus,
     gameState.moveHistory.length,
     gameState.turnNumber,
     opponentType,
+    hasRuleActions,
     pendingAbility,
     playSfx,
+    ruleMatchSeed,
+    runUIAction,
+    safeToast,
+    serializeState,
     soundEnabled,
     timeControl,
     waitingForOpponent,
@@ -1462,43 +1802,16 @@ const Play = () => {
     (board: (ChessPiece | null)[][]) =>
       board
         .map((row) =>
-          row
-            .map((piece) => {
-              if (!piece) return ".";
-              const symbols: Record<
-                PieceColor,
-                Record<ChessPiece["type"], string>
-              > = {
-                white: {
-                  king: "K",
-                  queen: "Q",
-                  rook: "R",
-                  bishop: "B",
-                  knight: "N",
-                  pawn: "P",
-                },
-                black: {
-                  king: "k",
-                  queen: "q",
-                  rook: "r",
-                  bishop: "b",
-                  knight: "n",
-                  pawn: "p",
-                },
-              };
-              return symbols[piece.color][piece.type];
-            })
-            .join(""),
+          row.map((piece) => (piece ? pieceFenLetter(piece) : ".")).join(""),
         )
         .join(" / "),
     [],
   );
 
-  const positionToNotation = useCallback((pos: Position) => {
-    const file = FILES[pos.col] ?? "?";
-    const rank = 8 - pos.row;
-    return `${file}${rank}`;
-  }, []);
+  const positionToNotation = useCallback(
+    (pos: Position) => boardPositionToTile(pos, boardGeometry),
+    [boardGeometry],
+  );
 
   const formatMoveForAi = useCallback(
     (move: ChessMove) => {
@@ -1782,7 +2095,22 @@ const Play = () => {
                 <div className="font-medium">{playerDisplayName}</div>
                 <div className="text-sm opacity-70">{playerElo} Elo</div>
               </div>
-              <Badge variant="outline" className="ml-auto">
+              {isTimedGame && (
+                <div
+                  className={cn(
+                    "ml-auto font-mono text-lg tabular-nums",
+                    gameState.currentPlayer === "white" && clockRunning
+                      ? "text-cyan-200"
+                      : "opacity-70",
+                  )}
+                >
+                  {formatClock(displayedClock.white)}
+                </div>
+              )}
+              <Badge
+                variant="outline"
+                className={cn(!isTimedGame && "ml-auto")}
+              >
                 Blancs
               </Badge>
             </div>
@@ -1795,7 +2123,22 @@ const Play = () => {
                 <div className="font-medium">{opponentDisplayName}</div>
                 <div className="text-sm opacity-70">{opponentElo} Elo</div>
               </div>
-              <Badge variant="outline" className="ml-auto">
+              {isTimedGame && (
+                <div
+                  className={cn(
+                    "ml-auto font-mono text-lg tabular-nums",
+                    gameState.currentPlayer === "black" && clockRunning
+                      ? "text-cyan-200"
+                      : "opacity-70",
+                  )}
+                >
+                  {formatClock(displayedClock.black)}
+                </div>
+              )}
+              <Badge
+                variant="outline"
+                className={cn(!isTimedGame && "ml-auto")}
+              >
                 Noirs
               </Badge>
             </div>
@@ -1841,6 +2184,7 @@ const Play = () => {
               lastMove={gameState.moveHistory[gameState.moveHistory.length - 1]}
               currentPlayer={gameState.currentPlayer}
               onSquareClick={handleSquareClick}
+              geometry={boardGeometry}
             />
             <div className="mt-4">
               <RuleActionDock
@@ -1859,6 +2203,11 @@ const Play = () => {
                 runAction={runUIAction}
               />
             </div>
+            {traceRecorder && (
+              <div className="mt-4">
+                <RuleTracePanel recorder={traceRecorder} />
+              </div>
+            )}
           </div>
 
           <aside
@@ -2080,9 +2429,11 @@ const Play = () => {
               <Button
                 variant="outline"
                 onClick={() => {
-                  const newBoard = ChessEngine.initializeBoard();
+                  const newBoard = ChessEngine.initializeBoard(boardLayout);
+                  appliedBoardLayoutRef.current = boardLayout;
                   setGameState({
                     board: newBoard,
+                    geometry: boardGeometryForGame(boardLayout),
                     currentPlayer: "white",
                     turnNumber: 1,
                     movesThisTurn: 0,
@@ -2111,6 +2462,7 @@ const Play = () => {
                   });
                   initialBoardSnapshotRef.current =
                     serializeBoardState(newBoard);
+                  resetLocalClock();
                   safeToast({
                     title: "Nouvelle partie",
                     description: "La partie a été réinitialisée.",
@@ -2120,6 +2472,25 @@ const Play = () => {
                 <RotateCcw className="mr-2 h-4 w-4" />
                 Réinitialiser
               </Button>
+              <Button
+                variant="outline"
+                disabled={!isStandardBoardGeometry(gameState.geometry)}
+                onClick={() => void handleCopyPosition()}
+              >
+                <Copy className="mr-2 h-4 w-4" />
+                Copier la position
+              </Button>
+              <Button
+                variant="outline"
+                disabled={!isStandardBoardGeometry(gameState.geometry)}
+                onClick={() => {
+                  setPositionError(null);
+                  setPositionDialogOpen(true);
+                }}
+              >
+                <FolderOpen className="mr-2 h-4 w-4" />
+                Charger une position
+              </Button>
               {tournamentId && (
                 <Button variant="outline" onClick={triggerAiFallback}>
                   <Rocket className="mr-2 h-4 w-4" />
@@ -2139,6 +2510,51 @@ const Play = () => {
           onOpen={openCoachPanel}
           onEnable={() => setCoachEnabled(true)}
         />
+
+        <Dialog open={positionDialogOpen} onOpenChange={setPositionDialogOpen}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Charger une position</DialogTitle>
+              <DialogDescription>
+                Collez une FEN ou une position étendue copiée depuis une partie
+                : pièces cachées, gels, attaques spéciales et état des règles
+                sont restaurés.
+              </DialogDescription>
+            </DialogHeader>
+            <form
+              className="space-y-3"
+              onSubmit={(event) => {
+                event.preventDefault();
+                handleLoadPosition();
+              }}
+            >
+              <label htmlFor="play-position-input" className="sr-only">
+                Position à charger
+              </label>
+              <Textarea
+                id="play-position-input"
+                value={positionInput}
+                onChange={(event) => {
+                  setPositionInput(event.target.value);
+                  setPositionError(null);
+                }}
+                placeholder="rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1"
+                className="min-h-[120px] break-all font-mono text-xs"
+                aria-invalid={positionError ? true : undefined}
+              />
+              {positionError && (
+                <p className="text-sm text-destructive" role="alert">
+                  {positionError}
+                </p>
+              )}
+              <DialogFooter>
+                <Button type="submit" disabled={positionInput.trim() === ""}>
+                  Charger
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
       </main>
     </FxProvider>
   );
@@ -22,15 +22,19 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import NeonBackground from "@/components/layout/NeonBackground";
 import { useAuth } from "@/contexts/AuthContext";
+import { LiveMatchesCard } from "@/features/play-hub/LiveMatchesCard";
 import { LiveRuleLobbiesCard } from "@/features/play-hub/LiveRuleLobbiesCard";
+import { PersonalPuzzlesCard } from "@/features/play-hub/PersonalPuzzlesCard";
 import { PrivateRoomCard } from "@/features/play-hub/PrivateRoomCard";
 import { ProgressionCard } from "@/features/play-hub/ProgressionCard";
+import { PuzzleRushCard } from "@/features/play-hub/PuzzleRushCard";
 import { QuickPlayPanel } from "@/features/play-hub/QuickPlayPanel";
 import { RuleArchitectSpotlight } from "@/features/play-hub/RuleArchitectSpotlight";
 import { ServerDailyPuzzleCard } from "@/features/play-hub/ServerDailyPuzzleCard";
 import { StandardRoomsCard } from "@/features/play-hub/StandardRoomsCard";
 import { toLocalDateKey } from "@/features/play-hub/daily-puzzles";
 import {
+  getDuePersonalPuzzles,
   getServerDailyPuzzle,
   getServerPlayerProgress,
 } from "@/features/play-hub/platform-api";
@@ -70,6 +74,13 @@ export default function PlayHub() {
     staleTime: 30_000,
     retry: 1,
   });
+  const personalPuzzlesQuery = useQuery({
+    queryKey: ["chess-platform", "personal-puzzles", user?.id],
+    queryFn: () => getDuePersonalPuzzles(10),
+    enabled: Boolean(user),
+    staleTime: 30_000,
+    retry: 1,
+  });
   const serverProgressQuery = useQuery({
     queryKey: ["chess-platform", "player-progress", user?.id],
     queryFn: () => getServerPlayerProgress(user!.id),
@@ -277,6 +288,25 @@ export default function PlayHub() {
                   onServerStateChanged={refreshServerPuzzleState}
                 />
               )}
+              {user && personalPuzzlesQuery.data && (
+                <PersonalPuzzlesCard
+                  key={personalPuzzlesQuery.data[0]?.puzzleId ?? "empty"}
+                  puzzles={personalPuzzlesQuery.data}
+                  onReviewed={async () => {
+                    const result = await personalPuzzlesQuery.refetch();
+                    if (result.error) throw result.error;
+                  }}
+                />
+              )}
+              {user && (
+                <PuzzleRushCard
+                  userId={user.id}
+                  onRunFinished={async () => {
+                    const result = await serverProgressQuery.refetch();
+                    if (result.error) throw result.error;
+                  }}
+                />
+              )}
             </section>
 
             <section aria-labelledby="multiplayer-title" className="space-y-3">
@@ -291,6 +321,7 @@ export default function PlayHub() {
                 playerName={displayName}
                 userId={user?.id}
               />
+              <LiveMatchesCard isAuthenticated={Boolean(user)} />
               <div className="space-y-3 pt-3">
                 <h3 className="px-1 text-xs font-semibold uppercase tracking-[0.2em] text-fuchsia-100/60">
                   Règles personnalisées · Rule Architect
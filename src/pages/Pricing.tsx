@@ -4,6 +4,9 @@ import { Loader2, Sparkles } from "lucide-react";
 import { loadStripe } from "@stripe/stripe-js";
 
 import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { BillingPlanCard } from "@/features/billing/BillingPlanCard";
+import { useBillingEntitlement, useBillingPortal } from "@/features/billing/useBillingEntitlement";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { requireSupabaseClient } from "@/integrations/supabase/client";
@@ -206,6 +209,11 @@ const Pricing = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const entitlementQuery = useBillingEntitlement(user?.id);
+  const portal = useBillingPortal();
+  const currentEntitlement = entitlementQuery.data;
+  const { refetch: refetchEntitlement } = entitlementQuery;
 
   useEffect(() => {
     const status = searchParams.get("status");
@@ -213,6 +221,8 @@ const Pricing = () => {
     if (!status) return;
 
     if (status === "success") {
+      // The webhook usually lands within seconds of the redirect.
+      window.setTimeout(() => void refetchEntitlement(), 3_000);
       toast({
         title: "Merci !",
         description:
@@ -232,7 +242,7 @@ const Pricing = () => {
     next.delete("status");
     next.delete("plan");
     setSearchParams(next, { replace: true });
-  }, [searchParams, setSearchParams, toast]);
+  }, [refetchEntitlement, searchParams, setSearchParams, toast]);
 
   const heroCopy = useMemo(
     () => ({
@@ -255,6 +265,24 @@ const Pricing = () => {
       return;
     }
 
+    if (!user) {
+      navigate("/signup");
+      return;
+    }
+
+    if (currentEntitlement?.manageable && currentEntitlement.status !== "canceled") {
+      // Plan changes go through the portal so Stripe prorates the existing subscription.
+      portal.mutate(undefined, {
+        onError: error =>
+          toast({
+            title: "Portail indisponible",
+            description: error instanceof Error ? error.message : "Impossible d'ouvrir le portail de facturation.",
+            variant: "destructive",
+          }),
+      });
+      return;
+    }
+
     setLoadingPlan(plan.id);
     try {
       const stripe = await stripePromise;
@@ -353,12 +381,18 @@ const Pricing = () => {
           </div>
         </section>
 
+        {user && <BillingPlanCard userId={user.id} className="rounded-3xl" />}
+
         <section className="grid gap-6 md:grid-cols-2 xl:grid-cols-4">
           {PLANS.map(plan => {
             const price = plan.price[billingInterval];
             const otherInterval = billingInterval === "monthly" ? "yearly" : "monthly";
             const alternativePrice = plan.price[otherInterval];
-            const isLoading = loadingPlan === plan.id;
+            const isCurrent =
+              currentEntitlement !== undefined &&
+              currentEntitlement.status !== "canceled" &&
+              currentEntitlement.plan === plan.id;
+            const isLoading = loadingPlan === plan.id || (portal.isPending && plan.actionType === "stripe");
 
             return (
               <article
@@ -375,7 +409,11 @@ const Pricing = () => {
               >
                 <div className={cn("absolute inset-0 -z-10 opacity-70 blur-3xl transition duration-300")} />
 
-                {plan.badge && (
+                {isCurrent ? (
+                  <span className="absolute right-6 top-6 inline-flex items-center rounded-full border border-emerald-300/40 bg-emerald-400/15 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.25em] text-emerald-100">
+                    Votre plan
+                  </span>
+                ) : plan.badge && (
                   <span className="absolute right-6 top-6 inline-flex items-center rounded-full border border-white/10 bg-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.25em] text-white/80">
                     {plan.badge}
                   </span>
@@ -422,7 +460,7 @@ const Pricing = () => {
 
                 <Button
                   onClick={() => handlePlanAction(plan)}
-                  disabled={isLoading}
+                  disabled={isLoading || (isCurrent && !currentEntitlement?.manageable)}
                   className={cn(
                     "mt-8 w-full rounded-2xl py-3 text-sm font-semibold uppercase tracking-[0.3em]",
                     plan.theme.button,
@@ -433,6 +471,8 @@ const Pricing = () => {
                       <Loader2 className="h-4 w-4 animate-spin" />
                       Redirection en cours…
                     </>
+                  ) : isCurrent ? (
+                    currentEntitlement?.manageable ? "Gérer l'abonnement" : "Plan actuel"
                   ) : (
                     plan.actionLabel
                   )}
@@ -4,7 +4,9 @@ import {
   Activity as ActivityIcon,
   Clock,
   Crown,
+  Download,
   Flame,
+  History,
   ListChecks,
   Loader2,
   LogOut,
@@ -21,17 +23,28 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import RuleCard from "@/components/RuleCard";
+import { BillingPlanCard } from "@/features/billing/BillingPlanCard";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import type { ChessRule } from "@/types/chess";
 import { mapCustomRuleRowsToChessRules, type CustomRuleRow } from "@/lib/customRuleMapper";
+import { exportStoredGamePgn, fetchUserGames, type StoredGameRecord } from "@/lib/gameStorage";
+import { downloadPgn } from "@/lib/pgn";
+
+const GAME_RESULT_LABELS: Record<StoredGameRecord["result"], string> = {
+  win: "Victoire",
+  loss: "Défaite",
+  draw: "Nulle",
+};
 
 const Profile = () => {
   const { user, loading: authLoading, signOut, refreshUser } = useAuth();
   const { toast } = useToast();
   const [rules, setRules] = useState<ChessRule[]>([]);
   const [loadingRules, setLoadingRules] = useState(true);
+  const [games, setGames] = useState<StoredGameRecord[]>([]);
+  const [loadingGames, setLoadingGames] = useState(true);
 
   const userInitials = useMemo(() => {
     const name = user?.user_metadata?.full_name as string | undefined;
@@ -293,13 +306,49 @@ const Profile = () => {
     }
   }, [toast, user]);
 
+  const fetchGames = useCallback(async () => {
+    if (!user) return;
+
+    setLoadingGames(true);
+
+    try {
+      setGames(await fetchUserGames(user.id));
+    } catch (error) {
+      console.error("Error loading games:", error);
+      toast({
+        title: "Historique indisponible",
+        description: error instanceof Error ? error.message : "Impossible de récupérer vos parties.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingGames(false);
+    }
+  }, [toast, user]);
+
   useEffect(() => {
     if (user) {
       fetchRules();
+      fetchGames();
     } else if (!authLoading) {
       setLoadingRules(false);
+      setLoadingGames(false);
+    }
+  }, [user, authLoading, fetchRules, fetchGames]);
+
+  const handleExportGame = async (game: StoredGameRecord) => {
+    try {
+      downloadPgn(
+        `partie-${game.created_at.slice(0, 10)}-${game.id.slice(0, 8)}`,
+        await exportStoredGamePgn(game, profileName),
+      );
+    } catch (error) {
+      toast({
+        title: "Export PGN impossible",
+        description: error instanceof Error ? error.message : "Cette partie ne peut pas être exportée.",
+        variant: "destructive",
+      });
     }
-  }, [user, authLoading, fetchRules]);
+  };
 
   const handleSignOut = async () => {
     try {
@@ -392,9 +441,12 @@ const Profile = () => {
               </div>
               <div className="flex flex-col gap-2 sm:flex-row">
                 <Button
-                  onClick={fetchRules}
+                  onClick={() => {
+                    fetchRules();
+                    fetchGames();
+                  }}
                   variant="outline"
-                  disabled={loadingRules}
+                  disabled={loadingRules || loadingGames}
                   className="border-cyan-500/40 bg-cyan-500/5 text-cyan-200 hover:bg-cyan-500/15"
                 >
                   {loadingRules ? (
@@ -441,6 +493,8 @@ const Profile = () => {
           </div>
         </div>
 
+        <BillingPlanCard userId={user.id} className="rounded-3xl shadow-[0_0_28px_rgba(56,189,248,0.2)]" />
+
         <div className="grid gap-6 lg:grid-cols-3">
           <div className="relative overflow-hidden rounded-3xl border border-cyan-500/30 bg-[#0a1124]/80 p-6 shadow-[0_0_28px_rgba(56,189,248,0.28)] backdrop-blur">
             <div className="absolute inset-0 opacity-40 [background:radial-gradient(circle_at_top_left,rgba(14,165,233,0.25),transparent_55%)]" />
@@ -542,6 +596,69 @@ const Profile = () => {
           </div>
         </div>
 
+        <div className="relative overflow-hidden rounded-3xl border border-cyan-500/20 bg-[#090f22]/80 shadow-[0_0_32px_rgba(56,189,248,0.25)]">
+          <Card className="border-none bg-transparent">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-white">
+                <History className="h-5 w-5 text-cyan-200" />
+                Mes parties
+              </CardTitle>
+              <CardDescription className="text-blue-100/70">
+                Vos parties enregistrées, exportables en PGN avec leurs règles actives.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loadingGames ? (
+                <div className="flex items-center justify-center py-10">
+                  <Loader2 className="h-6 w-6 animate-spin text-cyan-200" />
+                </div>
+              ) : games.length === 0 ? (
+                <div className="rounded-2xl border border-cyan-500/30 bg-cyan-500/10 p-6 text-center text-sm text-cyan-100/80">
+                  Aucune partie enregistrée pour le moment.
+                </div>
+              ) : (
+                <div className="grid gap-3">
+                  {games.slice(0, 10).map(game => (
+                    <div
+                      key={game.id}
+                      className="flex flex-col gap-3 rounded-2xl border border-cyan-500/20 bg-[#0f172a]/80 p-4 sm:flex-row sm:items-center sm:justify-between"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge variant="outline" className="border-cyan-400/40 bg-cyan-500/10 text-cyan-100">
+                            {GAME_RESULT_LABELS[game.result]}
+                          </Badge>
+                          <p className="truncate font-semibold text-white">
+                            {game.opponent_name ?? (game.opponent_type === "ai" ? "IA" : "Adversaire")}
+                          </p>
+                        </div>
+                        <p className="mt-1 text-xs text-blue-100/60">
+                          {game.variant_name ?? "Standard"} · {game.total_moves} coups ·{" "}
+                          {formatDistanceToNow(new Date(game.created_at), { addSuffix: true, locale: fr })}
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="border-cyan-500/40 text-cyan-200 hover:bg-cyan-500/10"
+                          onClick={() => handleExportGame(game)}
+                        >
+                          <Download className="mr-2 h-4 w-4" />
+                          PGN
+                        </Button>
+                        <Button asChild size="sm" variant="ghost" className="text-cyan-200 hover:bg-cyan-500/10">
+                          <Link to="/analysis">Analyser</Link>
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
         <div className="relative overflow-hidden rounded-3xl border border-cyan-500/20 bg-[#090f22]/80 shadow-[0_0_32px_rgba(56,189,248,0.25)]">
           <div className="absolute inset-0 opacity-40 [background:radial-gradient(circle_at_bottom_left,rgba(14,165,233,0.2),transparent_55%)]" />
           <Card className="border-none bg-transparent">
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import {
+  AlertTriangle,
   ArrowLeft,
   CheckCircle2,
   Copy,
@@ -27,6 +28,7 @@ import { convertRuleJsonToChessRule } from "@/lib/presetRulesAdapter";
 import {
   cancelRuleLobby,
   getRuleLobby,
+  getRuleLobbyComposition,
   getRuleLobbyRuntime,
   joinRuleLobby,
   listRuleLobbies,
@@ -34,6 +36,7 @@ import {
   type RuleLobbySummary,
 } from "@/features/rule-architect/lobby-api";
 import { getRuleLobbyLaunchBlockReason } from "@/features/rule-architect/lobby-launch-policy";
+import type { RuleDiagnostic } from "@/rules-v2";
 
 const dateLabel = (value: string): string => {
   const date = new Date(value);
@@ -57,6 +60,7 @@ export default function RuleLobby() {
   const [loading, setLoading] = useState(true);
   const [busyId, setBusyId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [composition, setComposition] = useState<RuleDiagnostic[] | null>(null);
 
   const displayName = useMemo(() => {
     const metadata = user?.user_metadata as Record<string, unknown> | undefined;
@@ -111,6 +115,27 @@ export default function RuleLobby() {
     return () => window.clearInterval(timer);
   }, [lobby?.status, lobbyId, refresh, user]);
 
+  const canReadComposition = Boolean(lobby?.isParticipant);
+
+  useEffect(() => {
+    setComposition(null);
+    if (!lobbyId || !canReadComposition) {
+      return;
+    }
+
+    let cancelled = false;
+    getRuleLobbyComposition(lobbyId)
+      .then((diagnostics) => {
+        if (!cancelled) setComposition(diagnostics);
+      })
+      .catch(() => {
+        if (!cancelled) setComposition(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [canReadComposition, lobbyId]);
+
   const handleJoin = async (targetLobbyId: string) => {
     setBusyId(targetLobbyId);
     try {
@@ -368,6 +393,48 @@ export default function RuleLobby() {
                   </div>
                 </div>
 
+                {composition && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-semibold">
+                      Compatibilité des règles
+                    </p>
+                    {composition.length === 0 && (
+                      <div className="flex items-center gap-3 rounded-2xl border p-4">
+                        <CheckCircle2 className="h-5 w-5 text-primary" />
+                        <span className="text-sm">
+                          Aucun conflit détecté entre ces règles.
+                        </span>
+                      </div>
+                    )}
+                    {composition.map((diagnostic, index) => (
+                      <div
+                        key={`${diagnostic.code}-${index}`}
+                        className="flex gap-3 rounded-2xl border p-4"
+                      >
+                        {diagnostic.severity === "info" ? (
+                          <CheckCircle2 className="mt-0.5 h-5 w-5 shrink-0 text-primary" />
+                        ) : (
+                          <AlertTriangle
+                            className={`mt-0.5 h-5 w-5 shrink-0 ${
+                              diagnostic.severity === "error"
+                                ? "text-destructive"
+                                : "text-amber-500"
+                            }`}
+                          />
+                        )}
+                        <div>
+                          <p className="text-sm font-medium">
+                            {diagnostic.message}
+                          </p>
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            {diagnostic.code} · {diagnostic.path}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="rounded-2xl border bg-muted/30 p-4">
                   <div className="flex items-center gap-2 text-sm font-semibold">
                     <ShieldCheck className="h-4 w-4 text-primary" />
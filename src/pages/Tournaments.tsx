@@ -50,11 +50,14 @@ import {
 } from "@/lib/customRuleMapper";
 import type {
   MatchmakingResponse,
+  TournamentBracket,
   TournamentDetails,
+  TournamentFormat,
   TournamentLeaderboardEntry,
   TournamentOverview,
   TournamentRegistrationWithMatch,
   TournamentMatch,
+  TournamentMatchResult,
 } from "@/types/tournament";
 import type { ChessRule } from "@/types/chess";
 
@@ -154,6 +157,144 @@ const statusBadgeClasses: Record<TournamentTab, string> = {
   mine: "bg-amber-500/20 text-amber-100 border-amber-500/30",
 };
 
+const formatLabels: Record<TournamentFormat, string> = {
+  arena: "Arène",
+  swiss: "Suisse",
+  single_elimination: "Élimination directe",
+  double_elimination: "Double élimination",
+  round_robin: "Toutes rondes",
+};
+
+const bracketLabels: Record<TournamentBracket, string> = {
+  winners: "Tableau principal",
+  losers: "Repêchage",
+  grand_final: "Grande finale",
+};
+
+const isKnockoutFormat = (format: TournamentFormat) =>
+  format === "single_elimination" || format === "double_elimination";
+
+type RoundSection = {
+  key: string;
+  round: number;
+  bracket: TournamentBracket | null;
+  matches: TournamentMatch[];
+};
+
+/** Groups a round-based event's matches by round, then by bracket. */
+const groupMatchesByRound = (matches: TournamentMatch[]): RoundSection[] => {
+  const sections = new Map<string, RoundSection>();
+  for (const match of matches) {
+    const bracket = match.bracket ?? null;
+    const key = `${match.round}:${bracket ?? ""}`;
+    const section = sections.get(key) ?? {
+      key,
+      round: match.round,
+      bracket,
+      matches: [],
+    };
+    section.matches.push(match);
+    sections.set(key, section);
+  }
+
+  const bracketOrder = (bracket: TournamentBracket | null) =>
+    bracket === "losers" ? 1 : bracket === "grand_final" ? 2 : 0;
+
+  return [...sections.values()]
+    .map((section) => ({
+      ...section,
+      matches: [...section.matches].sort(
+        (a, b) =>
+          (a.bracket_slot ?? a.table_number ?? 0) -
+          (b.bracket_slot ?? b.table_number ?? 0),
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        a.round - b.round || bracketOrder(a.bracket) - bracketOrder(b.bracket),
+    );
+};
+
+const TournamentRounds = ({
+  tournament,
+  matches,
+}: {
+  tournament: TournamentOverview;
+  matches: TournamentMatch[];
+}) => {
+  const sections = useMemo(() => groupMatchesByRound(matches), [matches]);
+  const knockout = isKnockoutFormat(tournament.format);
+
+  if (sections.length === 0) {
+    return (
+      <div className="rounded-xl border border-cyan-500/20 bg-black/40 p-4 text-center text-sm text-cyan-100/70">
+        Les appariements seront publiés au début de la première ronde.
+      </div>
+    );
+  }
+
+  const playerName = (match: TournamentMatch, side: "player1" | "player2") => {
+    const id = side === "player1" ? match.player1_id : match.player2_id;
+    const name = side === "player1" ? match.player1_name : match.player2_name;
+    return name ?? id?.slice(0, 8) ?? "—";
+  };
+
+  const sideClass = (match: TournamentMatch, side: "player1" | "player2") => {
+    if (match.status !== "finished" || !match.result) return "text-white";
+    if (match.result === "draw" && !knockout) return "text-amber-200";
+    // A drawn knockout game qualifies Black, seated as player 2.
+    const qualified =
+      match.result === "draw" ? "player2" : (match.result as string);
+    return qualified === side ? "text-emerald-200" : "text-cyan-100/50";
+  };
+
+  return (
+    <div
+      className={
+        knockout
+          ? "flex gap-4 overflow-x-auto pb-2"
+          : "grid gap-3 md:grid-cols-2"
+      }
+    >
+      {sections.map((section) => (
+        <div
+          key={section.key}
+          className={`space-y-2 ${knockout ? "min-w-[220px] flex-1" : ""}`}
+        >
+          <p className="text-xs font-semibold uppercase tracking-wide text-cyan-200/80">
+            Ronde {section.round}
+            {section.bracket && tournament.format === "double_elimination"
+              ? ` · ${bracketLabels[section.bracket]}`
+              : ""}
+          </p>
+          {section.matches.map((match) => (
+            <div
+              key={match.id}
+              className="rounded-xl border border-cyan-500/20 bg-black/40 p-3 text-sm"
+            >
+              <p className={sideClass(match, "player1")}>
+                {playerName(match, "player1")}
+              </p>
+              {match.is_bye ? (
+                <p className="text-xs text-cyan-100/60">Exempt</p>
+              ) : (
+                <p className={sideClass(match, "player2")}>
+                  {playerName(match, "player2")}
+                </p>
+              )}
+              {!match.is_bye && match.status !== "finished" ? (
+                <p className="mt-1 text-xs text-cyan-100/60">
+                  Table {match.table_number ?? "-"} · En cours
+                </p>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const TournamentStatusBadge = ({
   tournament,
 }: {
@@ -346,6 +487,11 @@ const TournamentPage = () => {
 
   const openTournamentLobby = useCallback(
     async (match: TournamentMatch) => {
+      if (match?.chess_match_id) {
+        navigate(`/match/${match.chess_match_id}`);
+        return;
+      }
+
       if (!match?.lobby) {
         toast({
           title: "Salle introuvable",
@@ -528,6 +674,9 @@ const TournamentPage = () => {
       ) ?? null,
     [tournaments, selectedTournamentId],
   );
+  const showTieBreaks =
+    selectedTournament?.format === "swiss" ||
+    selectedTournament?.format === "round_robin";
 
   const loadLeaderboard = async (tournamentId: string) => {
     setLeaderboardState({ loading: true, entries: [], error: null });
@@ -671,6 +820,15 @@ const TournamentPage = () => {
           title: "Adversaire trouvé",
           description: "Votre match de tournoi peut commencer.",
         });
+      } else if (
+        tournaments.find((tournament) => tournament.id === tournamentId)
+          ?.format !== "arena"
+      ) {
+        toast({
+          title: "En attente de la ronde",
+          description:
+            "Vous serez apparié automatiquement dès que la ronde suivante commencera.",
+        });
       } else {
         toast({
           title: "Participation enregistrée",
@@ -708,7 +866,8 @@ const TournamentPage = () => {
 
   const handleReportMatch = async (
     matchId: string,
-    result: "player1" | "player2" | "draw",
+    result?: TournamentMatchResult,
+    options?: { claim?: "abandoned" },
   ) => {
     if (tournamentsUnavailable) {
       toast({
@@ -722,12 +881,26 @@ const TournamentPage = () => {
     if (!user) return;
     setReportingMatchId(matchId);
     try {
-      const payload = await reportTournamentMatch(matchId, result);
-      toast({
-        title: "Résultat enregistré",
-        description: "Le classement a été mis à jour.",
-      });
-      if (payload?.leaderboard) {
+      const payload = await reportTournamentMatch(matchId, result, options);
+      if (payload?.status === "awaiting_confirmation") {
+        toast({
+          title: "Résultat transmis",
+          description:
+            "Il sera validé dès que votre adversaire aura confirmé le même résultat.",
+        });
+      } else if (payload?.status === "disputed") {
+        toast({
+          title: "Contestation ouverte",
+          description:
+            "Un arbitre va examiner la partie avant de mettre à jour le classement.",
+        });
+      } else {
+        toast({
+          title: "Résultat enregistré",
+          description: "Le classement a été mis à jour.",
+        });
+      }
+      if (payload?.status === "recorded") {
         setLeaderboardState({
           loading: false,
           entries: payload.leaderboard,
@@ -1028,78 +1201,123 @@ const TournamentPage = () => {
                 </div>
                 <div className="flex flex-wrap gap-2">
                   {ongoingMatchRegistration.current_match.status ===
-                    "playing" && (
-                    <>
-                      <Button
-                        size="sm"
-                        className="rounded-xl bg-emerald-400 text-black hover:bg-emerald-300"
-                        onClick={() =>
-                          void handleReportMatch(
-                            ongoingMatchRegistration.current_match!.id,
-                            ongoingMatchRegistration.current_match!
-                              .player1_id === user.id
-                              ? "player1"
-                              : "player2",
-                          )
-                        }
-                        disabled={
-                          reportingMatchId ===
-                          ongoingMatchRegistration.current_match.id
-                        }
-                      >
-                        {reportingMatchId ===
-                        ongoingMatchRegistration.current_match.id ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : null}
-                        Je gagne
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="rounded-xl border-emerald-400/50 text-emerald-100 hover:bg-emerald-500/20"
-                        onClick={() =>
-                          void handleReportMatch(
-                            ongoingMatchRegistration.current_match!.id,
-                            ongoingMatchRegistration.current_match!
-                              .player1_id === user.id
-                              ? "player2"
-                              : "player1",
-                          )
-                        }
-                        disabled={
-                          reportingMatchId ===
-                          ongoingMatchRegistration.current_match.id
-                        }
-                      >
-                        {reportingMatchId ===
-                        ongoingMatchRegistration.current_match.id ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : null}
-                        Je perds
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="rounded-xl border-emerald-400/50 text-emerald-100 hover:bg-emerald-500/20"
-                        onClick={() =>
-                          void handleReportMatch(
-                            ongoingMatchRegistration.current_match!.id,
-                            "draw",
-                          )
-                        }
-                        disabled={
-                          reportingMatchId ===
-                          ongoingMatchRegistration.current_match.id
-                        }
-                      >
-                        {reportingMatchId ===
-                        ongoingMatchRegistration.current_match.id ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : null}
-                        Partie nulle
-                      </Button>
-                    </>
-                  )}
+                    "playing" &&
+                    ongoingMatchRegistration.current_match.chess_match_id && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="rounded-xl border-emerald-400/50 text-emerald-100 hover:bg-emerald-500/20"
+                          onClick={() =>
+                            void handleReportMatch(
+                              ongoingMatchRegistration.current_match!.id,
+                            )
+                          }
+                          disabled={
+                            reportingMatchId ===
+                            ongoingMatchRegistration.current_match.id
+                          }
+                        >
+                          {reportingMatchId ===
+                          ongoingMatchRegistration.current_match.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : null}
+                          Actualiser le résultat
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="rounded-xl border-emerald-400/50 text-emerald-100 hover:bg-emerald-500/20"
+                          onClick={() =>
+                            void handleReportMatch(
+                              ongoingMatchRegistration.current_match!.id,
+                              undefined,
+                              { claim: "abandoned" },
+                            )
+                          }
+                          disabled={
+                            reportingMatchId ===
+                            ongoingMatchRegistration.current_match.id
+                          }
+                        >
+                          Signaler un abandon
+                        </Button>
+                      </>
+                    )}
+                  {ongoingMatchRegistration.current_match.status ===
+                    "playing" &&
+                    !ongoingMatchRegistration.current_match.chess_match_id && (
+                      <>
+                        <Button
+                          size="sm"
+                          className="rounded-xl bg-emerald-400 text-black hover:bg-emerald-300"
+                          onClick={() =>
+                            void handleReportMatch(
+                              ongoingMatchRegistration.current_match!.id,
+                              ongoingMatchRegistration.current_match!
+                                .player1_id === user.id
+                                ? "player1"
+                                : "player2",
+                            )
+                          }
+                          disabled={
+                            reportingMatchId ===
+                            ongoingMatchRegistration.current_match.id
+                          }
+                        >
+                          {reportingMatchId ===
+                          ongoingMatchRegistration.current_match.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : null}
+                          Je gagne
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="rounded-xl border-emerald-400/50 text-emerald-100 hover:bg-emerald-500/20"
+                          onClick={() =>
+                            void handleReportMatch(
+                              ongoingMatchRegistration.current_match!.id,
+                              ongoingMatchRegistration.current_match!
+                                .player1_id === user.id
+                                ? "player2"
+                                : "player1",
+                            )
+                          }
+                          disabled={
+                            reportingMatchId ===
+                            ongoingMatchRegistration.current_match.id
+                          }
+                        >
+                          {reportingMatchId ===
+                          ongoingMatchRegistration.current_match.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : null}
+                          Je perds
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="rounded-xl border-emerald-400/50 text-emerald-100 hover:bg-emerald-500/20"
+                          onClick={() =>
+                            void handleReportMatch(
+                              ongoingMatchRegistration.current_match!.id,
+                              "draw",
+                            )
+                          }
+                          disabled={
+                            reportingMatchId ===
+                            ongoingMatchRegistration.current_match.id
+                          }
+                        >
+                          {reportingMatchId ===
+                          ongoingMatchRegistration.current_match.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : null}
+                          Partie nulle
+                        </Button>
+                      </>
+                    )}
                   <Button
                     size="sm"
                     variant="outline"
@@ -1119,7 +1337,9 @@ const TournamentPage = () => {
                       }
                     }}
                   >
-                    Ouvrir la salle
+                    {ongoingMatchRegistration.current_match.chess_match_id
+                      ? "Rejoindre la partie"
+                      : "Ouvrir la salle"}
                   </Button>
                 </div>
               </div>
@@ -1207,6 +1427,19 @@ const TournamentPage = () => {
                         >
                           {tournament.player_count} joueurs
                         </Badge>
+                        <Badge
+                          variant="outline"
+                          className="rounded-full border-fuchsia-500/40 text-fuchsia-100"
+                        >
+                          {formatLabels[tournament.format]}
+                          {tournament.current_round > 0
+                            ? ` · Ronde ${tournament.current_round}${
+                                tournament.round_count
+                                  ? `/${tournament.round_count}`
+                                  : ""
+                              }`
+                            : ""}
+                        </Badge>
                         <TournamentStatusBadge tournament={tournament} />
                       </div>
                       <div className="flex flex-wrap gap-2">
@@ -1321,6 +1554,22 @@ const TournamentPage = () => {
                     <TableHead className="text-cyan-200/80 text-center">
                       P
                     </TableHead>
+                    {showTieBreaks && (
+                      <>
+                        <TableHead
+                          className="text-cyan-200/80 text-center"
+                          title="Buchholz"
+                        >
+                          Bu
+                        </TableHead>
+                        <TableHead
+                          className="text-cyan-200/80 text-center"
+                          title="Sonneborn-Berger"
+                        >
+                          SB
+                        </TableHead>
+                      </>
+                    )}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -1328,7 +1577,7 @@ const TournamentPage = () => {
                   !leaderboardState.loading ? (
                     <TableRow>
                       <TableCell
-                        colSpan={6}
+                        colSpan={showTieBreaks ? 8 : 6}
                         className="text-center text-cyan-100/70"
                       >
                         {leaderboardState.error ??
@@ -1344,8 +1593,19 @@ const TournamentPage = () => {
                         <TableCell className="text-cyan-100/80">
                           {index + 1}
                         </TableCell>
-                        <TableCell className="text-white">
+                        <TableCell
+                          className={
+                            entry.eliminated_in_round != null
+                              ? "text-cyan-100/50"
+                              : "text-white"
+                          }
+                        >
                           {entry.display_name ?? entry.user_id}
+                          {entry.eliminated_in_round != null && (
+                            <span className="ml-2 text-xs text-rose-200/80">
+                              éliminé ronde {entry.eliminated_in_round}
+                            </span>
+                          )}
                         </TableCell>
                         <TableCell className="text-center text-cyan-100/80">
                           {entry.points.toFixed(1)}
@@ -1359,6 +1619,16 @@ const TournamentPage = () => {
                         <TableCell className="text-center text-rose-200">
                           {entry.losses}
                         </TableCell>
+                        {showTieBreaks && (
+                          <>
+                            <TableCell className="text-center text-cyan-100/70">
+                              {Number(entry.buchholz ?? 0).toFixed(1)}
+                            </TableCell>
+                            <TableCell className="text-center text-cyan-100/70">
+                              {Number(entry.sonneborn_berger ?? 0).toFixed(2)}
+                            </TableCell>
+                          </>
+                        )}
                       </TableRow>
                     ))
                   )}
@@ -1371,6 +1641,20 @@ const TournamentPage = () => {
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Chargement des
                 matches en cours...
               </div>
+            ) : selectedTournament &&
+              selectedTournament.format !== "arena" &&
+              selectedDetailsQuery.data ? (
+              <div className="space-y-3">
+                <h3 className="text-lg font-semibold">
+                  {isKnockoutFormat(selectedTournament.format)
+                    ? "Tableau"
+                    : "Rondes"}
+                </h3>
+                <TournamentRounds
+                  tournament={selectedTournament}
+                  matches={selectedDetailsQuery.data.matches}
+                />
+              </div>
             ) : selectedDetailsQuery.data?.matches.length ? (
               <div className="space-y-3">
                 <h3 className="text-lg font-semibold">Matches récents</h3>
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  BOARD_PRESETS,
+  STANDARD_BOARD_LAYOUT,
+  boardTileToPosition,
+  compileBoardLayout,
+  createStartFen,
+  describeBoardLayoutIssues,
+  parseBoardLayout,
+  resolveBoardPosition,
+  resolveRulesBoardLayout,
+} from "../board-geometry";
+
+describe("board geometry", () => {
+  it("writes the usual start position for the standard layout", () => {
+    expect(createStartFen(STANDARD_BOARD_LAYOUT)).toBe(
+      "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+    );
+  });
+
+  it("writes wide, small and holed start positions", () => {
+    expect(createStartFen(BOARD_PRESETS.capablanca.layout)).toBe(
+      "rnabqkbcnr/pppppppppp/10/10/10/10/PPPPPPPPPP/RNABQKBCNR w KQkq - 0 1",
+    );
+    expect(createStartFen(BOARD_PRESETS["los-alamos"].layout)).toBe(
+      "rnqknr/pppppp/6/6/PPPPPP/RNQKNR w - - 0 1",
+    );
+    expect(createStartFen(BOARD_PRESETS["holed-centre"].layout)).toBe(
+      "rnbqkbnr/pppppppp/8/3**3/3**3/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+    );
+  });
+
+  it("maps squares on boards up to twelve ranks", () => {
+    const layout = { ...STANDARD_BOARD_LAYOUT, files: 12, ranks: 12 };
+    expect(boardTileToPosition("l12", layout)).toEqual({ row: 0, col: 11 });
+    expect(boardTileToPosition("a1", layout)).toEqual({ row: 11, col: 0 });
+    expect(boardTileToPosition("i1")).toBeNull();
+  });
+
+  it("wraps files on a cylinder and stops on holes", () => {
+    const cylinder = BOARD_PRESETS.cylinder.layout;
+    expect(resolveBoardPosition({ row: 4, col: -1 }, cylinder)).toEqual({
+      row: 4,
+      col: 7,
+    });
+    expect(resolveBoardPosition({ row: 4, col: -1 })).toBeNull();
+    expect(
+      resolveBoardPosition(
+        { row: 4, col: 3 },
+        BOARD_PRESETS["holed-centre"].layout,
+      ),
+    ).toBeNull();
+  });
+
+  it("explains unplayable layouts", () => {
+    expect(
+      describeBoardLayoutIssues({
+        ...STANDARD_BOARD_LAYOUT,
+        holes: ["e2", "z9"],
+        backRank: STANDARD_BOARD_LAYOUT.backRank.slice(0, 7),
+      }),
+    ).toEqual([
+      "La rangée de départ doit compter 8 pièces, une par colonne.",
+      "Le trou e2 occupe une case de départ.",
+      "Le trou z9 est hors du plateau.",
+    ]);
+    expect(
+      describeBoardLayoutIssues({ ...STANDARD_BOARD_LAYOUT, files: 13 }),
+    ).toEqual(["files doit être un entier entre 5 et 12."]);
+    expect(
+      describeBoardLayoutIssues({
+        ...BOARD_PRESETS.capablanca.layout,
+        pieces: [],
+      }),
+    ).toEqual([
+      "La pièce archbishop de la rangée de départ n'est pas déclarée.",
+      "La pièce chancellor de la rangée de départ n'est pas déclarée.",
+    ]);
+  });
+
+  it("reads the first playable board declared by a rule set", () => {
+    const losAlamos = compileBoardLayout(BOARD_PRESETS["los-alamos"].layout);
+    expect(parseBoardLayout({ ...losAlamos, files: 4 })).toBeNull();
+    expect(
+      resolveRulesBoardLayout([
+        { meta: {} },
+        { board: { ...losAlamos, backRank: ["pawn"] } },
+        { board: losAlamos },
+        { board: compileBoardLayout(BOARD_PRESETS.capablanca.layout) },
+      ]),
+    ).toMatchObject({ files: 6, ranks: 6 });
+    expect(resolveRulesBoardLayout([{ meta: {} }])).toBeNull();
+  });
+});
@@ -1,6 +1,16 @@
 import { describe, expect, it } from "vitest";
+import { BOARD_PRESETS, type BoardLayout } from "../board-geometry";
 import { compileRuleBlueprint } from "../compiler";
-import type { RuleBlueprintV2 } from "../types";
+import { FAIRY_PIECE_PRESETS } from "../fairy-pieces";
+import type { BlueprintBoard, RuleBlueprintV2 } from "../types";
+
+const boardOf = (layout: BoardLayout): BlueprintBoard => ({
+  files: layout.files,
+  ranks: layout.ranks,
+  holes: [...layout.holes],
+  wrapFiles: layout.wrapFiles,
+  backRank: [...layout.backRank],
+});
 
 const arg = (
   name: string,
@@ -196,6 +206,44 @@ describe("compileRuleBlueprint", () => {
     ).toBe(true);
   });
 
+  it("compile le plateau déclaré avec sa position de départ", () => {
+    const blueprint = structuredClone(validBlueprint);
+    blueprint.board = boardOf(BOARD_PRESETS.capablanca.layout);
+    blueprint.pieces = [...BOARD_PRESETS.capablanca.layout.pieces!];
+    blueprint.triggers[0].effects[0].arguments[1] = arg("to", "string", "j4");
+
+    const result = compileRuleBlueprint(blueprint);
+
+    expect(result.ok).toBe(true);
+    expect(result.compiledRule?.board).toMatchObject({
+      files: 10,
+      ranks: 8,
+      startFen:
+        "rnabqkbcnr/pppppppppp/10/10/10/10/PPPPPPPPPP/RNABQKBCNR w KQkq - 0 1",
+    });
+    expect(
+      compileRuleBlueprint(validBlueprint).compiledRule,
+    ).not.toHaveProperty("board");
+  });
+
+  it("refuse un plateau injouable et une case trouée", () => {
+    const holed = structuredClone(validBlueprint);
+    holed.board = boardOf(BOARD_PRESETS["holed-centre"].layout);
+    holed.triggers[0].effects[0].arguments[1] = arg("to", "string", "d4");
+    const holedStart = structuredClone(validBlueprint);
+    holedStart.board = {
+      ...boardOf(BOARD_PRESETS.standard.layout),
+      holes: ["e2"],
+    };
+
+    expect(
+      compileRuleBlueprint(holed).diagnostics.map((item) => item.code),
+    ).toContain("TILE_REFERENCE_INVALID");
+    expect(
+      compileRuleBlueprint(holedStart).diagnostics.map((item) => item.code),
+    ).toContain("BOARD_LAYOUT_INVALID");
+  });
+
   it("interdit de faire apparaître un second roi", () => {
     const invalid = structuredClone(validBlueprint);
     invalid.triggers[0].effects = [
@@ -220,6 +268,66 @@ describe("compileRuleBlueprint", () => {
     ).toBe(true);
   });
 
+  it("compile les pièces féeriques déclarées et les fait apparaître", () => {
+    const blueprint = structuredClone(validBlueprint);
+    blueprint.pieces = [{ ...FAIRY_PIECE_PRESETS.camel }];
+    blueprint.affectedPieces = ["knight", "camel"];
+    blueprint.actions[0].pieceTypes = ["camel"];
+    blueprint.triggers[0].effects = [
+      {
+        id: "spawn-camel",
+        op: "piece.spawn",
+        arguments: [
+          arg("type", "string", "camel"),
+          arg("side", "token", "$ctx.side"),
+          arg("tile", "token", "$targetTile"),
+        ],
+      },
+    ];
+
+    const result = compileRuleBlueprint(blueprint);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.compiledRule?.pieces).toEqual([FAIRY_PIECE_PRESETS.camel]);
+    expect(result.compiledRule?.scope.affectedPieces).toContain("camel");
+    expect(
+      compileRuleBlueprint(validBlueprint).compiledRule,
+    ).not.toHaveProperty("pieces");
+  });
+
+  it("signale les pièces féeriques injouables ou non déclarées", () => {
+    const blueprint = structuredClone(validBlueprint);
+    blueprint.pieces = [
+      { ...FAIRY_PIECE_PRESETS.camel, betza: "pN" },
+      { ...FAIRY_PIECE_PRESETS.grasshopper, glyph: "L" },
+    ];
+    blueprint.affectedPieces = ["knight", "dragon"];
+    blueprint.board = {
+      ...boardOf(BOARD_PRESETS.standard.layout),
+      backRank: [
+        "rook",
+        "knight",
+        "bishop",
+        "queen",
+        "king",
+        "bishop",
+        "camel",
+        "rook",
+      ],
+    };
+
+    const diagnostics = compileRuleBlueprint(blueprint).diagnostics.map(
+      (item) => `${item.code}@${item.path}`,
+    );
+
+    expect(diagnostics).toEqual([
+      "FAIRY_PIECE_INVALID@$.pieces[0]",
+      "FAIRY_PIECE_DUPLICATE@$.pieces[1].glyph",
+      "FAIRY_PIECE_UNKNOWN@$.affectedPieces",
+      "BOARD_LAYOUT_INVALID@$.board",
+    ]);
+  });
+
   it("namespace l'identifiant d'action d'un cooldown", () => {
     const blueprint = structuredClone(validBlueprint);
     blueprint.triggers[0].conditions.push({
@@ -391,6 +499,70 @@ describe("compileRuleBlueprint", () => {
     ).toBe(true);
   });
 
+  it("limite les tokens aux contextes des nouveaux événements", () => {
+    for (const event of [
+      "lifecycle.onTurnEnd",
+      "lifecycle.onGameEnd",
+    ] as const) {
+      const invalid = structuredClone(validBlueprint);
+      invalid.triggers[0].event = event;
+      invalid.triggers[0].actionId = "";
+      invalid.triggers[0].conditions = [];
+      invalid.triggers[0].effects = [
+        {
+          id: "shield",
+          op: "status.add",
+          arguments: [
+            arg("pieceId", "token", "$pieceId"),
+            arg("key", "string", "shielded"),
+            arg("duration", "number", 1),
+          ],
+        },
+      ];
+
+      const result = compileRuleBlueprint(invalid);
+
+      expect(result.ok, event).toBe(false);
+      expect(
+        result.diagnostics.some(
+          (item) => item.code === "TOKEN_UNAVAILABLE_FOR_EVENT",
+        ),
+      ).toBe(true);
+    }
+  });
+
+  it("fournit l'attaquant comme pièce cible de lifecycle.onAttacked", () => {
+    const blueprint = structuredClone(validBlueprint);
+    blueprint.triggers[0].event = "lifecycle.onAttacked";
+    blueprint.triggers[0].actionId = "";
+    blueprint.triggers[0].conditions = [];
+    blueprint.triggers[0].effects = [
+      {
+        id: "riposte",
+        op: "status.add",
+        arguments: [
+          arg("pieceId", "token", "$targetPieceId"),
+          arg("key", "string", "marked"),
+          arg("duration", "number", 1),
+        ],
+      },
+    ];
+
+    const result = compileRuleBlueprint(blueprint);
+    expect(
+      result.diagnostics.filter((item) => item.severity === "error"),
+    ).toEqual([]);
+
+    blueprint.triggers[0].event = "lifecycle.onCapture";
+    const capture = compileRuleBlueprint(blueprint);
+    expect(capture.ok).toBe(false);
+    expect(
+      capture.diagnostics.some(
+        (item) => item.code === "TOKEN_UNAVAILABLE_FOR_EVENT",
+      ),
+    ).toBe(true);
+  });
+
   it("accepte le côté courant pour piece.isSide", () => {
     const blueprint = structuredClone(validBlueprint);
     blueprint.triggers[0].conditions.push({
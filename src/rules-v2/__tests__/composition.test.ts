@@ -0,0 +1,309 @@
+import { describe, expect, it } from "vitest";
+import { BOARD_PRESETS, type BoardLayout } from "../board-geometry";
+import { analyzeRuleComposition } from "../composition";
+import { FAIRY_PIECE_PRESETS } from "../fairy-pieces";
+import type {
+  BlueprintBoard,
+  BlueprintTrigger,
+  RuleBlueprintV2,
+} from "../types";
+
+const boardOf = (layout: BoardLayout): BlueprintBoard => ({
+  files: layout.files,
+  ranks: layout.ranks,
+  holes: [...layout.holes],
+  wrapFiles: layout.wrapFiles,
+  backRank: [...layout.backRank],
+});
+
+const arg = (name: string, kind: "string" | "token", value: string) => ({
+  name,
+  kind,
+  stringValue: value,
+  numberValue: 0,
+  booleanValue: false,
+  stringListValue: [],
+});
+
+const blueprint = (
+  ruleKey: string,
+  overrides: Partial<RuleBlueprintV2> = {},
+): RuleBlueprintV2 => ({
+  schemaVersion: "2.0.0",
+  ruleKey,
+  title: ruleKey,
+  summary: "Règle de test pour l'analyse de composition.",
+  category: "special",
+  tags: [],
+  affectedPieces: ["knight"],
+  sides: ["white", "black"],
+  stateNamespace: ruleKey,
+  initialStateJson: "{}",
+  actions: [
+    {
+      id: "teleport",
+      label: "Téléporter",
+      description: "Déplace la pièce sélectionnée sur une case vide.",
+      targetingMode: "tile",
+      validTilesProvider: "provider.anyEmptyTile",
+      consumesTurn: true,
+      cooldownTurns: 3,
+      maxPerPiece: 4,
+      requiresSelection: true,
+      pieceTypes: ["knight"],
+    },
+  ],
+  triggers: [
+    {
+      id: "teleport-action",
+      event: "ui.action",
+      actionId: "teleport",
+      priority: 10,
+      conditions: [
+        {
+          id: "has-tile",
+          op: "ctx.hasTargetTile",
+          arguments: [],
+          negate: false,
+        },
+      ],
+      effects: [
+        {
+          id: "move",
+          op: "piece.move",
+          arguments: [
+            arg("pieceId", "token", "$pieceId"),
+            arg("to", "token", "$targetTile"),
+          ],
+        },
+      ],
+      onFailure: "blockAction",
+      message: "Choisis une case vide.",
+    },
+  ],
+  balance: {
+    powerLevel: 3,
+    counterplay: ["Bloquer les cases vides."],
+    limitations: ["Trois tours de recharge."],
+  },
+  explanation: {
+    plainLanguage: "Sélectionne une pièce puis une case vide.",
+    examples: ["Le cavalier de b1 rejoint e5."],
+  },
+  ...overrides,
+});
+
+const turnStartSkip = (priority = 1): BlueprintTrigger => ({
+  id: "skip-turn",
+  event: "lifecycle.onTurnStart",
+  actionId: "",
+  priority,
+  conditions: [],
+  effects: [{ id: "end", op: "turn.end", arguments: [] }],
+  onFailure: "skip",
+  message: "",
+});
+
+const codes = (inputs: unknown[]) =>
+  analyzeRuleComposition(inputs).map(
+    (diagnostic) => `${diagnostic.severity}:${diagnostic.code}`,
+  );
+
+describe("analyzeRuleComposition", () => {
+  it("accepte des règles indépendantes", () => {
+    expect(
+      analyzeRuleComposition([blueprint("alpha"), blueprint("beta")]),
+    ).toEqual([]);
+  });
+
+  it("refuse deux versions d'une même règle", () => {
+    const diagnostics = analyzeRuleComposition([
+      blueprint("alpha"),
+      blueprint("alpha"),
+    ]);
+
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: "DUPLICATE_ACTION_ID",
+        severity: "error",
+        path: "$.rules[1].actions[0].id",
+      }),
+    );
+    expect(codes([blueprint("alpha"), blueprint("alpha")])).toContain(
+      "warning:STATE_NAMESPACE_COLLISION",
+    );
+  });
+
+  it("signale sans refuser deux règles partageant un espace d'état", () => {
+    const shared = { stateNamespace: "shared" };
+    const beta = blueprint("beta", {
+      ...shared,
+      actions: [{ ...blueprint("beta").actions[0], id: "blink" }],
+      triggers: [
+        {
+          ...blueprint("beta").triggers[0],
+          id: "blink-action",
+          actionId: "blink",
+        },
+      ],
+    });
+
+    expect(codes([blueprint("alpha", shared), beta])).toEqual([
+      "warning:STATE_NAMESPACE_COLLISION",
+    ]);
+  });
+
+  it("signale les statuts partagés et les déplacements concurrents", () => {
+    const freezer = blueprint("freezer", {
+      category: "movement",
+      triggers: [
+        {
+          ...blueprint("freezer").triggers[0],
+          effects: [
+            {
+              id: "freeze",
+              op: "status.add",
+              arguments: [
+                arg("pieceId", "token", "$pieceId"),
+                arg("key", "string", "frozen"),
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    const thawer = blueprint("thawer", {
+      category: "restriction",
+      affectedPieces: ["any"],
+      triggers: [
+        {
+          ...blueprint("thawer").triggers[0],
+          conditions: [
+            {
+              id: "frozen",
+              op: "piece.hasStatus",
+              arguments: [arg("key", "string", "frozen")],
+              negate: false,
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(codes([freezer, thawer])).toEqual([
+      "warning:SHARED_STATUS_KEY",
+      "warning:CONTRADICTORY_MOVEMENT",
+    ]);
+  });
+
+  it("refuse deux règles qui terminent le tour au même événement", () => {
+    const diagnostics = analyzeRuleComposition([
+      blueprint("alpha", { triggers: [turnStartSkip(2)] }),
+      blueprint("beta", { triggers: [turnStartSkip(1)] }),
+    ]);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: "CONFLICTING_TURN_END",
+        severity: "error",
+        path: "$.rules[1].triggers[0]",
+      }),
+    ]);
+  });
+
+  it("détecte une chaîne de tours sautés répartie entre deux règles", () => {
+    const diagnostics = analyzeRuleComposition([
+      blueprint("alpha", { sides: ["white"], triggers: [turnStartSkip()] }),
+      blueprint("beta", { sides: ["black"], triggers: [turnStartSkip()] }),
+    ]);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: "UNBOUNDED_TURN_CHAIN",
+        severity: "error",
+        path: "$.rules[1].triggers[0]",
+      }),
+    ]);
+  });
+
+  it("indique l'ordre des effets qui dépendent de la priorité", () => {
+    const capture = (ruleKey: string, priority: number): RuleBlueprintV2 =>
+      blueprint(ruleKey, {
+        triggers: [
+          {
+            id: "capture-on-enter",
+            event: "lifecycle.onEnterTile",
+            actionId: "",
+            priority,
+            conditions: [],
+            effects: [
+              {
+                id: "capture",
+                op: "piece.capture",
+                arguments: [arg("pieceId", "token", "$pieceId")],
+              },
+            ],
+            onFailure: "skip",
+            message: "",
+          },
+        ],
+      });
+
+    const [ordered] = analyzeRuleComposition([
+      capture("alpha", 2),
+      capture("beta", 5),
+    ]);
+    expect(ordered).toMatchObject({
+      code: "ORDER_SENSITIVE_EFFECTS",
+      severity: "warning",
+    });
+    expect(ordered.message).toContain("« beta » s'exécute en premier");
+  });
+
+  it("refuse deux plateaux différents dans le même lobby", () => {
+    const capablanca = {
+      board: boardOf(BOARD_PRESETS.capablanca.layout),
+      pieces: [...BOARD_PRESETS.capablanca.layout.pieces!],
+    };
+
+    expect(
+      codes([
+        blueprint("alpha", capablanca),
+        blueprint("beta", capablanca),
+        blueprint("gamma", { board: boardOf(BOARD_PRESETS.standard.layout) }),
+      ]),
+    ).toEqual([]);
+    expect(
+      codes([
+        blueprint("alpha", capablanca),
+        blueprint("beta", {
+          board: boardOf(BOARD_PRESETS["los-alamos"].layout),
+        }),
+      ]),
+    ).toEqual(["error:BOARD_GEOMETRY_CONFLICT"]);
+  });
+
+  it("refuse deux définitions différentes d'une même pièce féerique", () => {
+    const { camel, grasshopper } = FAIRY_PIECE_PRESETS;
+
+    expect(
+      codes([
+        blueprint("alpha", { pieces: [camel] }),
+        blueprint("beta", { pieces: [camel, grasshopper] }),
+      ]),
+    ).toEqual([]);
+    expect(
+      codes([
+        blueprint("alpha", { pieces: [camel] }),
+        blueprint("beta", { pieces: [{ ...camel, betza: "CZ" }] }),
+        blueprint("gamma", { pieces: [{ ...grasshopper, glyph: "L" }] }),
+      ]),
+    ).toEqual(["error:FAIRY_PIECE_CONFLICT", "error:FAIRY_PIECE_CONFLICT"]);
+  });
+
+  it("refuse un blueprint illisible", () => {
+    expect(codes([blueprint("alpha"), { ruleKey: "broken" }])).toEqual([
+      "error:INVALID_COMPOSED_BLUEPRINT",
+    ]);
+  });
+});
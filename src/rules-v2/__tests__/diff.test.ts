@@ -0,0 +1,278 @@
+import { describe, expect, it } from "vitest";
+import { diffRuleBlueprints } from "../diff";
+import type { BlueprintBoard, RuleBlueprintV2 } from "../types";
+
+const arg = (name: string, kind: "string" | "token", value: string) => ({
+  name,
+  kind,
+  stringValue: value,
+  numberValue: 0,
+  booleanValue: false,
+  stringListValue: [],
+});
+
+const blueprint = (
+  overrides: Partial<RuleBlueprintV2> = {},
+): RuleBlueprintV2 => ({
+  schemaVersion: "2.0.0",
+  ruleKey: "warp",
+  title: "Warp",
+  summary: "Règle de test pour la comparaison de versions.",
+  category: "special",
+  tags: [],
+  affectedPieces: ["knight"],
+  sides: ["white", "black"],
+  stateNamespace: "warp",
+  initialStateJson: "{}",
+  actions: [
+    {
+      id: "teleport",
+      label: "Téléporter",
+      description: "Déplace la pièce sélectionnée sur une case vide.",
+      targetingMode: "tile",
+      validTilesProvider: "provider.anyEmptyTile",
+      consumesTurn: true,
+      cooldownTurns: 3,
+      maxPerPiece: 4,
+      requiresSelection: true,
+      pieceTypes: ["knight"],
+    },
+  ],
+  triggers: [
+    {
+      id: "teleport-action",
+      event: "ui.action",
+      actionId: "teleport",
+      priority: 10,
+      conditions: [
+        {
+          id: "has-tile",
+          op: "ctx.hasTargetTile",
+          arguments: [],
+          negate: false,
+        },
+      ],
+      effects: [
+        {
+          id: "move",
+          op: "piece.move",
+          arguments: [
+            arg("pieceId", "token", "$pieceId"),
+            arg("to", "token", "$targetTile"),
+          ],
+        },
+      ],
+      onFailure: "blockAction",
+      message: "Choisis une case vide.",
+    },
+  ],
+  balance: {
+    powerLevel: 3,
+    counterplay: ["Bloquer les cases vides."],
+    limitations: ["Trois tours de recharge."],
+  },
+  explanation: {
+    plainLanguage: "Sélectionne une pièce puis une case vide.",
+    examples: ["Le cavalier de b1 rejoint e5."],
+  },
+  ...overrides,
+});
+
+const withTrigger = (
+  update: (trigger: RuleBlueprintV2["triggers"][number]) => void,
+): RuleBlueprintV2 => {
+  const next = structuredClone(blueprint());
+  update(next.triggers[0]);
+  return next;
+};
+
+describe("diffRuleBlueprints", () => {
+  it("ne signale rien entre deux versions identiques", () => {
+    expect(diffRuleBlueprints(blueprint(), blueprint())).toEqual({
+      changes: [],
+      compatibility: "identical",
+      lobbyUpgradeAllowed: true,
+    });
+  });
+
+  it("classe les changements de textes comme cosmétiques", () => {
+    const diff = diffRuleBlueprints(
+      blueprint(),
+      blueprint({ title: "Warp 2", summary: "Nouveau résumé de la règle." }),
+    );
+
+    expect(diff.compatibility).toBe("cosmetic");
+    expect(diff.changes.map((change) => change.path)).toEqual([
+      "$.title",
+      "$.summary",
+    ]);
+  });
+
+  it("nomme l'argument modifié par son chemin", () => {
+    const diff = diffRuleBlueprints(
+      blueprint(),
+      withTrigger((trigger) => {
+        trigger.effects[0].arguments[1].stringValue = "$pieceTile";
+      }),
+    );
+
+    expect(diff.compatibility).toBe("compatible");
+    expect(diff.lobbyUpgradeAllowed).toBe(true);
+    expect(diff.changes).toEqual([
+      {
+        kind: "changed",
+        impact: "gameplay",
+        path: '$.triggers["teleport-action"].effects["move"].arguments["to"]',
+        before: "$targetTile",
+        after: "$pieceTile",
+      },
+    ]);
+  });
+
+  it("apparie les entrées par identifiant plutôt que par position", () => {
+    const before = withTrigger((trigger) => {
+      trigger.conditions.push({
+        id: "not-frozen",
+        op: "piece.hasStatus",
+        arguments: [arg("key", "string", "frozen")],
+        negate: true,
+      });
+    });
+    const after = structuredClone(before);
+    after.triggers[0].conditions.reverse();
+
+    expect(diffRuleBlueprints(before, after).changes).toEqual([]);
+  });
+
+  it("signale les ajouts et les suppressions de conditions", () => {
+    const diff = diffRuleBlueprints(
+      blueprint(),
+      withTrigger((trigger) => {
+        trigger.conditions = [
+          {
+            id: "early",
+            op: "match.turnNumber.lessThan",
+            arguments: [
+              { ...arg("turn", "string", ""), kind: "number", numberValue: 10 },
+            ],
+            negate: false,
+          },
+        ];
+      }),
+    );
+
+    expect(
+      diff.changes.map((change) => `${change.kind}:${change.path}`),
+    ).toEqual([
+      'removed:$.triggers["teleport-action"].conditions["has-tile"]',
+      'added:$.triggers["teleport-action"].conditions["early"]',
+    ]);
+    expect(diff.compatibility).toBe("compatible");
+  });
+
+  it("interdit la mise à jour d'un lobby quand une action disparaît", () => {
+    const diff = diffRuleBlueprints(blueprint(), blueprint({ actions: [] }));
+
+    expect(diff.compatibility).toBe("breaking");
+    expect(diff.lobbyUpgradeAllowed).toBe(false);
+    expect(diff.changes[0]).toMatchObject({
+      kind: "removed",
+      impact: "breaking",
+      path: '$.actions["teleport"]',
+    });
+  });
+
+  it("interdit la mise à jour quand l'état initial change", () => {
+    const diff = diffRuleBlueprints(
+      blueprint(),
+      blueprint({ initialStateJson: '{"charges":2}' }),
+    );
+
+    expect(diff.compatibility).toBe("breaking");
+    expect(diff.changes).toEqual([
+      {
+        kind: "changed",
+        impact: "breaking",
+        path: "$.initialStateJson",
+        before: "{}",
+        after: '{"charges":2}',
+      },
+    ]);
+  });
+
+  it("interdit la mise à jour quand le plateau change", () => {
+    const board: BlueprintBoard = {
+      files: 10,
+      ranks: 8,
+      holes: [],
+      wrapFiles: false,
+      backRank: [
+        "rook",
+        "knight",
+        "bishop",
+        "queen",
+        "king",
+        "queen",
+        "bishop",
+        "knight",
+        "rook",
+        "rook",
+      ],
+    };
+    const diff = diffRuleBlueprints(
+      blueprint({ board }),
+      blueprint({ board: { ...board, holes: ["e4"] } }),
+    );
+
+    expect(diff.lobbyUpgradeAllowed).toBe(false);
+    expect(diff.changes).toMatchObject([
+      { kind: "changed", impact: "breaking", path: "$.board" },
+    ]);
+    expect(
+      diffRuleBlueprints(blueprint(), blueprint({ board })).compatibility,
+    ).toBe("breaking");
+  });
+
+  it("compare les pièces féeriques par identifiant", () => {
+    const camel = {
+      id: "camel",
+      name: "Chameau",
+      betza: "C",
+      glyph: "L",
+      value: 3,
+    };
+    const zebra = { ...camel, id: "zebra", name: "Zèbre", betza: "Z" };
+    const before = blueprint({ pieces: [camel, zebra] });
+
+    const renamed = diffRuleBlueprints(
+      before,
+      blueprint({
+        pieces: [
+          { ...zebra, value: 2 },
+          { ...camel, name: "Dromadaire" },
+        ],
+      }),
+    );
+    expect(renamed.lobbyUpgradeAllowed).toBe(true);
+    expect(
+      renamed.changes.map((change) => `${change.impact}:${change.path}`),
+    ).toEqual([
+      'cosmetic:$.pieces["camel"].name',
+      'gameplay:$.pieces["zebra"].value',
+    ]);
+
+    const removed = diffRuleBlueprints(before, blueprint({ pieces: [camel] }));
+    expect(removed.changes).toMatchObject([
+      { kind: "removed", impact: "breaking", path: '$.pieces["zebra"]' },
+    ]);
+
+    const remapped = diffRuleBlueprints(
+      before,
+      blueprint({ pieces: [{ ...camel, betza: "N" }, zebra] }),
+    );
+    expect(remapped.compatibility).toBe("breaking");
+    expect(remapped.changes).toMatchObject([
+      { impact: "breaking", path: '$.pieces["camel"].betza', after: "N" },
+    ]);
+  });
+});
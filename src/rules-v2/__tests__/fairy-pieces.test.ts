@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  FAIRY_PIECE_PRESETS,
+  describeFairyPieceIssues,
+  fairyMoveTargets,
+  fairyMoves,
+  fairyReachPreview,
+  parseBetza,
+  parseFairyPieces,
+  pieceFenLetter,
+  resolveRulesFairyPieces,
+  type FairyOccupant,
+  type FairySquare,
+} from "../fairy-pieces";
+
+/** Targets on an 8×8 board; `pieces` maps "row.col" to its occupant. */
+const targetsOf = (
+  betza: string,
+  from: FairySquare,
+  pieces: Record<string, FairyOccupant> = {},
+  purpose: "movement" | "attack" = "movement",
+) =>
+  fairyMoveTargets(fairyMoves(betza), {
+    from,
+    color: "white",
+    step: (square, dRow, dCol) => {
+      const row = square.row + dRow;
+      const col = square.col + dCol;
+      return row >= 0 && row < 8 && col >= 0 && col < 8 ? { row, col } : null;
+    },
+    occupant: (square) => pieces[`${square.row}.${square.col}`] ?? "empty",
+    maxRange: 8,
+    purpose,
+  })
+    .map(({ row, col }) => `${row}.${col}`)
+    .sort();
+
+describe("fairy pieces", () => {
+  it("combine les cavaliers et les coulisses de l'archevêque", () => {
+    const targets = targetsOf(FAIRY_PIECE_PRESETS.archbishop.betza, {
+      row: 4,
+      col: 4,
+    });
+    expect(targets).toHaveLength(8 + 13);
+    expect(targets).toContain("2.3");
+    expect(targets).toContain("0.0");
+    expect(targets).not.toContain("3.4");
+  });
+
+  it("fait sauter le chameau par-dessus les pièces", () => {
+    expect(
+      targetsOf(
+        "C",
+        { row: 7, col: 0 },
+        {
+          "6.0": "friend",
+          "6.1": "enemy",
+          "4.1": "friend",
+        },
+      ),
+    ).toEqual(["6.3"]);
+  });
+
+  it("pose la sauterelle juste derrière la pièce sautée", () => {
+    const targets = targetsOf(
+      "gQ",
+      { row: 4, col: 4 },
+      { "2.4": "friend", "4.6": "enemy", "4.7": "enemy", "6.6": "enemy" },
+    );
+    expect(targets).toEqual(["1.4", "4.7", "7.7"]);
+  });
+
+  it("distingue déplacement seul, capture seule et canon", () => {
+    const pieces: Record<string, FairyOccupant> = {
+      "2.4": "enemy",
+      "4.2": "friend",
+      "4.0": "enemy",
+    };
+    expect(targetsOf("mR", { row: 4, col: 4 }, pieces)).not.toContain("2.4");
+    expect(targetsOf("cR", { row: 4, col: 4 }, pieces)).toEqual(["2.4"]);
+    expect(targetsOf("mRcpR", { row: 4, col: 4 }, pieces)).toContain("4.0");
+    expect(
+      targetsOf("mRcpR", { row: 4, col: 4 }, pieces, "attack"),
+    ).not.toContain("3.4");
+  });
+
+  it("oriente les préfixes f et b vers l'adversaire", () => {
+    expect(targetsOf("fW", { row: 4, col: 4 })).toEqual(["3.4"]);
+    expect(targetsOf("bsW", { row: 4, col: 4 })).toEqual(["4.3", "4.5", "5.4"]);
+    expect(targetsOf("W3", { row: 7, col: 0 })).toHaveLength(6);
+  });
+
+  it("explique les notations illisibles", () => {
+    expect(parseBetza("BN")).toMatchObject({ ok: true });
+    expect(parseBetza("xN")).toEqual({
+      ok: false,
+      message: "Préfixe « x » inconnu dans « xN ».",
+    });
+    expect(parseBetza("mcW")).toMatchObject({ ok: false });
+    expect(parseBetza("pN")).toMatchObject({ ok: false });
+    expect(parseBetza("BB")).toEqual({
+      ok: false,
+      message: "B ne peut pas être doublé.",
+    });
+    expect(parseBetza("Y")).toMatchObject({ ok: false });
+    expect(parseBetza("N!")).toMatchObject({ ok: false });
+    expect(fairyMoves("Y")).toEqual([]);
+  });
+
+  it("refuse les identifiants et glyphes réservés", () => {
+    expect(describeFairyPieceIssues(FAIRY_PIECE_PRESETS.camel)).toEqual([]);
+    expect(
+      describeFairyPieceIssues({
+        id: "queen",
+        name: "Dame bis",
+        betza: "Q",
+        glyph: "Q",
+        value: 0,
+      }),
+    ).toEqual([
+      "L'identifiant queen est réservé.",
+      "Le glyphe Q est déjà celui d'une pièce classique.",
+      "La valeur doit être un entier entre 1 et 15.",
+    ]);
+  });
+
+  it("lit les pièces déclarées par un jeu de règles", () => {
+    const { archbishop, chancellor } = FAIRY_PIECE_PRESETS;
+    expect(
+      parseFairyPieces([archbishop, { ...chancellor, glyph: "A" }, "x"]),
+    ).toEqual([archbishop]);
+    expect(
+      resolveRulesFairyPieces([
+        { pieces: [chancellor] },
+        { board: { pieces: [archbishop, chancellor] } },
+      ]),
+    ).toEqual([chancellor, archbishop]);
+    expect(
+      pieceFenLetter({ type: "fairy", color: "white", fairy: archbishop }),
+    ).toBe("A");
+    expect(pieceFenLetter({ type: "fairy", color: "black" })).toBe("?");
+  });
+
+  it("dessine la portée du glyphe", () => {
+    const marks = fairyReachPreview("fmWcF");
+    expect(marks).toEqual(
+      expect.arrayContaining([
+        { forward: 1, sideways: 0, mode: "move", hop: false },
+        { forward: -1, sideways: 1, mode: "capture", hop: false },
+      ]),
+    );
+    expect(marks).toHaveLength(5);
+  });
+});
@@ -2,6 +2,7 @@ import type {
   ArgumentKind,
   ConditionOp,
   EffectOp,
+  LifecycleEvent,
   ProviderId,
   TargetingMode,
 } from "./types";
@@ -22,6 +23,19 @@ export interface ProviderSpec {
   requiresPiece: boolean;
 }
 
+export interface EventSpec {
+  /** What the event means, shown to the model and to rule authors. */
+  description: string;
+  /** Whether the event carries a source piece on the board (`$pieceId`). */
+  sourcePiece: boolean;
+  /** Whether `$targetTile` is always set, so no ctx.hasTargetTile guard is needed. */
+  targetTile: boolean;
+  /** Whether `$targetPieceId` is always a live piece, so no ctx.hasTargetPiece guard is needed. */
+  targetPiece: boolean;
+  /** Tokens resolvable for this event. `ui.action` depends on its action. */
+  tokens: readonly string[];
+}
+
 const req = (kind: ArgumentSpec["kind"]): ArgumentSpec => ({
   kind,
   required: true,
@@ -289,6 +303,90 @@ export const PROVIDER_CATALOG: Record<ProviderId, ProviderSpec> = {
   },
 };
 
+const SOURCE_TOKENS = ["$ctx.side", "$pieceId", "$ctx.pieceId", "$sourceTile"];
+const MOVE_TOKENS = [
+  ...SOURCE_TOKENS,
+  "$targetTile",
+  "$ctx.targetTile",
+  "$ctx.to",
+];
+
+export const EVENT_CATALOG: Record<LifecycleEvent, EventSpec> = {
+  "lifecycle.onEnterTile": {
+    description: "la pièce source arrive sur une case",
+    sourcePiece: true,
+    targetTile: true,
+    targetPiece: false,
+    tokens: MOVE_TOKENS,
+  },
+  "lifecycle.onMoveCommitted": {
+    description: "un coup de la pièce source est joué",
+    sourcePiece: true,
+    targetTile: true,
+    targetPiece: false,
+    tokens: [...MOVE_TOKENS, "$ctx.from"],
+  },
+  "lifecycle.onUndo": {
+    description: "un coup est annulé",
+    sourcePiece: false,
+    targetTile: false,
+    targetPiece: false,
+    tokens: ["$ctx.side"],
+  },
+  "lifecycle.onPromote": {
+    description: "la pièce source est promue",
+    sourcePiece: true,
+    targetTile: false,
+    targetPiece: false,
+    tokens: SOURCE_TOKENS,
+  },
+  "lifecycle.onTurnStart": {
+    description: "le tour de $ctx.side commence",
+    sourcePiece: false,
+    targetTile: false,
+    targetPiece: false,
+    tokens: ["$ctx.side"],
+  },
+  "lifecycle.onCapture": {
+    description:
+      "la pièce source capture une pièce adverse sur $targetTile ; la pièce capturée a déjà quitté le plateau",
+    sourcePiece: true,
+    targetTile: true,
+    targetPiece: false,
+    tokens: [...MOVE_TOKENS, "$ctx.from"],
+  },
+  "lifecycle.onCheck": {
+    description: "le roi source est mis en échec",
+    sourcePiece: true,
+    targetTile: false,
+    targetPiece: false,
+    tokens: SOURCE_TOKENS,
+  },
+  "lifecycle.onTurnEnd": {
+    description: "le tour de $ctx.side se termine",
+    sourcePiece: false,
+    targetTile: false,
+    targetPiece: false,
+    tokens: ["$ctx.side"],
+  },
+  "lifecycle.onAttacked": {
+    description:
+      "la pièce source est attaquée par la pièce qui vient de jouer ($targetPieceId)",
+    sourcePiece: true,
+    targetTile: false,
+    targetPiece: true,
+    tokens: [...SOURCE_TOKENS, "$targetPieceId", "$ctx.targetPieceId"],
+  },
+  "lifecycle.onGameEnd": {
+    description:
+      "la partie se termine ; $ctx.side est le vainqueur, ou le camp au trait en cas de nulle",
+    sourcePiece: false,
+    targetTile: false,
+    targetPiece: false,
+    tokens: ["$ctx.side"],
+  },
+};
+
 export const SAFE_TOKENS = new Set([
   "$pieceId",
   "$targetPieceId",
@@ -0,0 +1,325 @@
+import type {
+  BlueprintAction,
+  BlueprintCondition,
+  BlueprintEffect,
+  BlueprintFairyPiece,
+  BlueprintTrigger,
+  RuleArgument,
+  RuleBlueprintV2,
+} from "./types";
+
+export type BlueprintChangeKind = "added" | "removed" | "changed";
+
+/**
+ * `cosmetic` changes only alter what players read, `gameplay` changes alter
+ * what the engine does, `breaking` changes remove or reshape something a
+ * lobby pinned to the older version relies on.
+ */
+export type BlueprintChangeImpact = "cosmetic" | "gameplay" | "breaking";
+
+export interface BlueprintChange {
+  kind: BlueprintChangeKind;
+  impact: BlueprintChangeImpact;
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export type BlueprintCompatibility =
+  | "identical"
+  | "cosmetic"
+  | "compatible"
+  | "breaking";
+
+export interface RuleBlueprintDiff {
+  changes: BlueprintChange[];
+  compatibility: BlueprintCompatibility;
+  /** Whether an open lobby pinned to `before` may be moved to `after`. */
+  lobbyUpgradeAllowed: boolean;
+}
+
+const COSMETIC_ROOT_FIELDS = ["title", "summary", "tags"] as const;
+const GAMEPLAY_ROOT_FIELDS = ["category", "affectedPieces", "sides"] as const;
+const BREAKING_ROOT_FIELDS = [
+  "schemaVersion",
+  "ruleKey",
+  "stateNamespace",
+  "initialStateJson",
+  // A lobby's pinned position and move history only make sense on its board.
+  "board",
+] as const;
+
+const COSMETIC_ACTION_FIELDS = ["label", "description"] as const;
+const GAMEPLAY_ACTION_FIELDS = [
+  "targetingMode",
+  "validTilesProvider",
+  "consumesTurn",
+  "cooldownTurns",
+  "maxPerPiece",
+  "requiresSelection",
+  "pieceTypes",
+] as const;
+
+// The glyph is the piece's FEN letter, so positions saved under the older
+// version would read as another piece.
+const BREAKING_PIECE_FIELDS = ["betza", "glyph"] as const;
+
+const GAMEPLAY_TRIGGER_FIELDS = [
+  "event",
+  "actionId",
+  "priority",
+  "onFailure",
+] as const;
+
+const sameValue = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(left) === JSON.stringify(right);
+
+const keyedPath = (path: string, collection: string, key: string): string =>
+  `${path}.${collection}[${JSON.stringify(key)}]`;
+
+const argumentValue = (argument: RuleArgument): unknown => {
+  switch (argument.kind) {
+    case "number":
+      return argument.numberValue;
+    case "boolean":
+      return argument.booleanValue;
+    case "string_list":
+      return argument.stringListValue;
+    default:
+      return argument.stringValue;
+  }
+};
+
+class DiffCollector {
+  readonly changes: BlueprintChange[] = [];
+
+  field<T extends object>(
+    path: string,
+    before: T,
+    after: T,
+    fields: readonly (keyof T & string)[],
+    impact: BlueprintChangeImpact,
+  ): void {
+    for (const field of fields) {
+      if (!sameValue(before[field], after[field])) {
+        this.changes.push({
+          kind: "changed",
+          impact,
+          path: `${path}.${field}`,
+          before: before[field],
+          after: after[field],
+        });
+      }
+    }
+  }
+
+  /**
+   * Matches entries by key rather than position, so reordering a list is not
+   * reported as a change of every entry.
+   */
+  keyed<T>(
+    path: string,
+    collection: string,
+    before: readonly T[],
+    after: readonly T[],
+    keyOf: (entry: T) => string,
+    removedImpact: BlueprintChangeImpact,
+    compare: (entryPath: string, before: T, after: T) => void,
+  ): void {
+    const afterByKey = new Map(after.map((entry) => [keyOf(entry), entry]));
+    const beforeKeys = new Set(before.map(keyOf));
+    for (const entry of before) {
+      const key = keyOf(entry);
+      const entryPath = keyedPath(path, collection, key);
+      const next = afterByKey.get(key);
+      if (next === undefined) {
+        this.changes.push({
+          kind: "removed",
+          impact: removedImpact,
+          path: entryPath,
+          before: entry,
+        });
+      } else {
+        compare(entryPath, entry, next);
+      }
+    }
+    for (const entry of after) {
+      const key = keyOf(entry);
+      if (!beforeKeys.has(key)) {
+        this.changes.push({
+          kind: "added",
+          impact: "gameplay",
+          path: keyedPath(path, collection, key),
+          after: entry,
+        });
+      }
+    }
+  }
+}
+
+function compareArguments(
+  collector: DiffCollector,
+  path: string,
+  before: RuleArgument[],
+  after: RuleArgument[],
+): void {
+  collector.keyed(
+    path,
+    "arguments",
+    before,
+    after,
+    (argument) => argument.name,
+    "gameplay",
+    (argumentPath, previous, next) => {
+      if (
+        previous.kind !== next.kind ||
+        !sameValue(argumentValue(previous), argumentValue(next))
+      ) {
+        collector.changes.push({
+          kind: "changed",
+          impact: "gameplay",
+          path: argumentPath,
+          before: argumentValue(previous),
+          after: argumentValue(next),
+        });
+      }
+    },
+  );
+}
+
+function compareTrigger(
+  collector: DiffCollector,
+  path: string,
+  before: BlueprintTrigger,
+  after: BlueprintTrigger,
+): void {
+  collector.field(path, before, after, GAMEPLAY_TRIGGER_FIELDS, "gameplay");
+  collector.field(path, before, after, ["message"], "cosmetic");
+  collector.keyed<BlueprintCondition>(
+    path,
+    "conditions",
+    before.conditions,
+    after.conditions,
+    (condition) => condition.id,
+    "gameplay",
+    (conditionPath, previous, next) => {
+      collector.field(
+        conditionPath,
+        previous,
+        next,
+        ["op", "negate"],
+        "gameplay",
+      );
+      compareArguments(
+        collector,
+        conditionPath,
+        previous.arguments,
+        next.arguments,
+      );
+    },
+  );
+  collector.keyed<BlueprintEffect>(
+    path,
+    "effects",
+    before.effects,
+    after.effects,
+    (effect) => effect.id,
+    "gameplay",
+    (effectPath, previous, next) => {
+      collector.field(effectPath, previous, next, ["op"], "gameplay");
+      compareArguments(
+        collector,
+        effectPath,
+        previous.arguments,
+        next.arguments,
+      );
+    },
+  );
+}
+
+/**
+ * Structural diff of two versions of a blueprint. Pieces, actions, triggers,
+ * conditions, effects and arguments are matched by id (or name) and paths
+ * name them, e.g. `$.triggers["boom"].effects["capture"].arguments["pieceId"]`.
+ */
+export function diffRuleBlueprints(
+  before: RuleBlueprintV2,
+  after: RuleBlueprintV2,
+): RuleBlueprintDiff {
+  const collector = new DiffCollector();
+
+  collector.field("$", before, after, BREAKING_ROOT_FIELDS, "breaking");
+  collector.field("$", before, after, GAMEPLAY_ROOT_FIELDS, "gameplay");
+  collector.field("$", before, after, COSMETIC_ROOT_FIELDS, "cosmetic");
+  collector.field("$", before, after, ["balance", "explanation"], "cosmetic");
+
+  collector.keyed<BlueprintFairyPiece>(
+    "$",
+    "pieces",
+    before.pieces ?? [],
+    after.pieces ?? [],
+    (piece) => piece.id,
+    "breaking",
+    (piecePath, previous, next) => {
+      collector.field(
+        piecePath,
+        previous,
+        next,
+        BREAKING_PIECE_FIELDS,
+        "breaking",
+      );
+      collector.field(piecePath, previous, next, ["value"], "gameplay");
+      collector.field(piecePath, previous, next, ["name"], "cosmetic");
+    },
+  );
+  collector.keyed<BlueprintAction>(
+    "$",
+    "actions",
+    before.actions,
+    after.actions,
+    (action) => action.id,
+    "breaking",
+    (actionPath, previous, next) => {
+      collector.field(
+        actionPath,
+        previous,
+        next,
+        GAMEPLAY_ACTION_FIELDS,
+        "gameplay",
+      );
+      collector.field(
+        actionPath,
+        previous,
+        next,
+        COSMETIC_ACTION_FIELDS,
+        "cosmetic",
+      );
+    },
+  );
+  collector.keyed<BlueprintTrigger>(
+    "$",
+    "triggers",
+    before.triggers,
+    after.triggers,
+    (trigger) => trigger.id,
+    "gameplay",
+    (triggerPath, previous, next) =>
+      compareTrigger(collector, triggerPath, previous, next),
+  );
+
+  const { changes } = collector;
+  const compatibility: BlueprintCompatibility =
+    changes.length === 0
+      ? "identical"
+      : changes.some((change) => change.impact === "breaking")
+        ? "breaking"
+        : changes.some((change) => change.impact === "gameplay")
+          ? "compatible"
+          : "cosmetic";
+
+  return {
+    changes,
+    compatibility,
+    lobbyUpgradeAllowed: compatibility !== "breaking",
+  };
+}
@@ -1,7 +1,11 @@
 export * from "./types";
+export * from "./board-geometry";
+export * from "./fairy-pieces";
 export * from "./catalog";
 export * from "./schema";
 export * from "./compiler";
+export * from "./composition";
+export * from "./diff";
 export * from "./hash";
 export * from "./deterministic-rng";
 export * from "./runtime-budget";
@@ -12,6 +12,21 @@ import {
   type RuleBlueprintV2,
   type RuleDiagnostic,
 } from "./types";
+import {
+  BACK_RANK_PIECES,
+  BOARD_TILE_PATTERN,
+  MAX_BOARD_HOLES,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+} from "./board-geometry";
+import {
+  FAIRY_GLYPH_PATTERN,
+  FAIRY_PIECE_ID_PATTERN,
+  MAX_BETZA_LENGTH,
+  MAX_FAIRY_PIECES,
+  MAX_FAIRY_PIECE_VALUE,
+  MIN_FAIRY_PIECE_VALUE,
+} from "./fairy-pieces";
 
 const argumentSchema = {
   type: "object",
@@ -38,6 +53,18 @@ const argumentSchema = {
   },
 } as const;
 
+const pieceScopeSchema = {
+  anyOf: [
+    { type: "string", enum: [...PIECE_TYPES] },
+    { type: "string", pattern: FAIRY_PIECE_ID_PATTERN.source },
+  ],
+} as const;
+
+/** A piece type or the id of a fairy piece the blueprint declares. */
+const isPieceScope = (value: unknown): boolean =>
+  typeof value === "string" &&
+  (PIECE_TYPES.includes(value as never) || FAIRY_PIECE_ID_PATTERN.test(value));
+
 export const RULE_BLUEPRINT_JSON_SCHEMA = {
   type: "object",
   additionalProperties: false,
@@ -54,6 +81,8 @@ export const RULE_BLUEPRINT_JSON_SCHEMA = {
     "initialStateJson",
     "actions",
     "triggers",
+    "board",
+    "pieces",
     "balance",
     "explanation",
   ],
@@ -75,7 +104,7 @@ export const RULE_BLUEPRINT_JSON_SCHEMA = {
       type: "array",
       minItems: 1,
       maxItems: 7,
-      items: { type: "string", enum: [...PIECE_TYPES] },
+      items: pieceScopeSchema,
     },
     sides: {
       type: "array",
@@ -141,7 +170,7 @@ export const RULE_BLUEPRINT_JSON_SCHEMA = {
             type: "array",
             minItems: 1,
             maxItems: 7,
-            items: { type: "string", enum: [...PIECE_TYPES] },
+            items: pieceScopeSchema,
           },
         },
       },
@@ -227,6 +256,60 @@ export const RULE_BLUEPRINT_JSON_SCHEMA = {
         },
       },
     },
+    board: {
+      type: "object",
+      additionalProperties: false,
+      required: ["files", "ranks", "holes", "wrapFiles", "backRank"],
+      properties: {
+        files: {
+          type: "integer",
+          minimum: MIN_BOARD_SIZE,
+          maximum: MAX_BOARD_SIZE,
+        },
+        ranks: {
+          type: "integer",
+          minimum: MIN_BOARD_SIZE,
+          maximum: MAX_BOARD_SIZE,
+        },
+        holes: {
+          type: "array",
+          maxItems: MAX_BOARD_HOLES,
+          items: { type: "string", pattern: BOARD_TILE_PATTERN.source },
+        },
+        wrapFiles: { type: "boolean" },
+        backRank: {
+          type: "array",
+          minItems: MIN_BOARD_SIZE,
+          maxItems: MAX_BOARD_SIZE,
+          items: {
+            anyOf: [
+              { type: "string", enum: [...BACK_RANK_PIECES] },
+              { type: "string", pattern: FAIRY_PIECE_ID_PATTERN.source },
+            ],
+          },
+        },
+      },
+    },
+    pieces: {
+      type: "array",
+      maxItems: MAX_FAIRY_PIECES,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["id", "name", "betza", "glyph", "value"],
+        properties: {
+          id: { type: "string", pattern: FAIRY_PIECE_ID_PATTERN.source },
+          name: { type: "string", minLength: 2, maxLength: 40 },
+          betza: { type: "string", minLength: 1, maxLength: MAX_BETZA_LENGTH },
+          glyph: { type: "string", pattern: FAIRY_GLYPH_PATTERN.source },
+          value: {
+            type: "integer",
+            minimum: MIN_FAIRY_PIECE_VALUE,
+            maximum: MAX_FAIRY_PIECE_VALUE,
+          },
+        },
+      },
+    },
     balance: {
       type: "object",
       additionalProperties: false,
@@ -458,6 +541,8 @@ export function validateBlueprintShape(input: unknown): {
     "initialStateJson",
     "actions",
     "triggers",
+    "board",
+    "pieces",
     "balance",
     "explanation",
   ] as const;
@@ -520,20 +605,22 @@ export function validateBlueprintShape(input: unknown): {
 
   const stringArray = (
     key: "tags" | "affectedPieces" | "sides",
-    allowed?: readonly string[],
+    allowed?: readonly string[] | ((item: unknown) => boolean),
     min = 0,
     max = 12,
   ) => {
     const value = input[key];
+    const isAllowed =
+      typeof allowed === "function"
+        ? allowed
+        : (item: unknown) =>
+            typeof item === "string" && (!allowed || allowed.includes(item));
     if (
       !Array.isArray(value) ||
       value.length < min ||
       value.length > max ||
       !hasUniqueStrings(value) ||
-      (allowed &&
-        value.some(
-          (item) => typeof item !== "string" || !allowed.includes(item),
-        ))
+      value.some((item) => !isAllowed(item))
     ) {
       push(
         diagnostics,
@@ -545,7 +632,7 @@ export function validateBlueprintShape(input: unknown): {
   };
 
   stringArray("tags", undefined, 0, 12);
-  stringArray("affectedPieces", PIECE_TYPES, 1, 7);
+  stringArray("affectedPieces", isPieceScope, 1, 7);
   stringArray("sides", SIDES, 1, 2);
 
   if (
@@ -719,10 +806,7 @@ export function validateBlueprintShape(input: unknown): {
         raw.pieceTypes.length < 1 ||
         raw.pieceTypes.length > 7 ||
         !hasUniqueStrings(raw.pieceTypes) ||
-        raw.pieceTypes.some(
-          (piece) =>
-            typeof piece !== "string" || !PIECE_TYPES.includes(piece as never),
-        )
+        raw.pieceTypes.some((piece) => !isPieceScope(piece))
       ) {
         push(
           diagnostics,
@@ -1105,6 +1189,135 @@ export function validateBlueprintShape(input: unknown): {
     });
   }
 
+  // Optional so blueprints published before board geometries stay valid.
+  if (input.board !== undefined) {
+    const board = input.board;
+    if (!isRecord(board)) {
+      push(diagnostics, "BLUEPRINT_BOARD", "$.board", "Bloc board invalide.");
+    } else {
+      if (
+        !hasOnlyKeys(board, [
+          "files",
+          "ranks",
+          "holes",
+          "wrapFiles",
+          "backRank",
+        ])
+      ) {
+        push(
+          diagnostics,
+          "BLUEPRINT_BOARD_FIELD",
+          "$.board",
+          "Champ board inconnu.",
+        );
+      }
+      for (const key of ["files", "ranks"] as const) {
+        const size = board[key];
+        if (
+          typeof size !== "number" ||
+          !Number.isInteger(size) ||
+          size < MIN_BOARD_SIZE ||
+          size > MAX_BOARD_SIZE
+        ) {
+          push(
+            diagnostics,
+            "BLUEPRINT_BOARD_SIZE",
+            `$.board.${key}`,
+            `${key} doit être un entier entre ${MIN_BOARD_SIZE} et ${MAX_BOARD_SIZE}.`,
+          );
+        }
+      }
+      if (
+        !Array.isArray(board.holes) ||
+        board.holes.length > MAX_BOARD_HOLES ||
+        board.holes.some(
+          (hole) => typeof hole !== "string" || !BOARD_TILE_PATTERN.test(hole),
+        )
+      ) {
+        push(
+          diagnostics,
+          "BLUEPRINT_BOARD_HOLES",
+          "$.board.holes",
+          "Les trous doivent être des noms de cases.",
+        );
+      }
+      if (typeof board.wrapFiles !== "boolean") {
+        push(
+          diagnostics,
+          "BLUEPRINT_BOARD_WRAP",
+          "$.board.wrapFiles",
+          "wrapFiles doit être un booléen.",
+        );
+      }
+      if (
+        !Array.isArray(board.backRank) ||
+        board.backRank.length < MIN_BOARD_SIZE ||
+        board.backRank.length > MAX_BOARD_SIZE ||
+        board.backRank.some(
+          (piece) =>
+            typeof piece !== "string" ||
+            (!BACK_RANK_PIECES.includes(piece as never) &&
+              !FAIRY_PIECE_ID_PATTERN.test(piece)),
+        )
+      ) {
+        push(
+          diagnostics,
+          "BLUEPRINT_BOARD_BACK_RANK",
+          "$.board.backRank",
+          "Rangée de départ invalide.",
+        );
+      }
+    }
+  }
+
+  // Optional so blueprints published before fairy pieces stay valid. The
+  // compiler checks the Betza notation and what the ids refer to.
+  if (input.pieces !== undefined) {
+    const pieces = input.pieces;
+    if (!Array.isArray(pieces) || pieces.length > MAX_FAIRY_PIECES) {
+      push(
+        diagnostics,
+        "BLUEPRINT_PIECES",
+        "$.pieces",
+        `pieces doit être une liste d'au plus ${MAX_FAIRY_PIECES} pièces.`,
+      );
+    } else {
+      pieces.forEach((piece, index) => {
+        const path = `$.pieces[${index}]`;
+        if (!isRecord(piece)) {
+          push(diagnostics, "BLUEPRINT_PIECE", path, "Pièce invalide.");
+          return;
+        }
+        if (!hasOnlyKeys(piece, ["id", "name", "betza", "glyph", "value"])) {
+          push(
+            diagnostics,
+            "BLUEPRINT_PIECE_FIELD",
+            path,
+            "Champ de pièce inconnu.",
+          );
+        }
+        for (const key of ["id", "name", "betza", "glyph"] as const) {
+          if (typeof piece[key] !== "string") {
+            push(
+              diagnostics,
+              "BLUEPRINT_PIECE_FIELD",
+              `${path}.${key}`,
+              `${key} doit être une chaîne.`,
+            );
+          }
+        }
+        if (typeof piece.value !== "number") {
+          push(
+            diagnostics,
+            "BLUEPRINT_PIECE_FIELD",
+            `${path}.value`,
+            "value doit être un nombre.",
+          );
+        }
+      });
+    }
+  }
+
   if (!isRecord(input.balance)) {
     push(
       diagnostics,
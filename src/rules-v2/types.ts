@@ -1,3 +1,6 @@
+import type { BackRankPiece, CompiledBoardLayout } from "./board-geometry";
+import type { FairyPieceDefinition } from "./fairy-pieces";
+
 export const RULE_SCHEMA_VERSION = "2.0.0" as const;
 export const ENGINE_VERSION = "2.0.0" as const;
 
@@ -31,6 +34,11 @@ export const RULE_EVENTS = [
   "lifecycle.onUndo",
   "lifecycle.onPromote",
   "lifecycle.onTurnStart",
+  "lifecycle.onCapture",
+  "lifecycle.onCheck",
+  "lifecycle.onTurnEnd",
+  "lifecycle.onAttacked",
+  "lifecycle.onGameEnd",
   "ui.action",
 ] as const;
 
@@ -109,8 +117,11 @@ export const ARGUMENT_KINDS = [
 
 export type RuleCategory = (typeof RULE_CATEGORIES)[number];
 export type PieceType = (typeof PIECE_TYPES)[number];
+/** A `PieceType` or the id of a piece the blueprint declares in `pieces`. */
+export type PieceScope = string;
 export type Side = (typeof SIDES)[number];
 export type RuleEvent = (typeof RULE_EVENTS)[number];
+export type LifecycleEvent = Exclude<RuleEvent, "ui.action">;
 export type TargetingMode = (typeof TARGETING_MODES)[number];
 export type ProviderId = (typeof PROVIDERS)[number];
 export type ConditionOp = (typeof CONDITION_OPS)[number];
@@ -149,7 +160,7 @@ export interface BlueprintAction {
   cooldownTurns: number;
   maxPerPiece: number;
   requiresSelection: boolean;
-  pieceTypes: PieceType[];
+  pieceTypes: PieceScope[];
 }
 
 export interface BlueprintTrigger {
@@ -163,6 +174,18 @@ export interface BlueprintTrigger {
   message: string;
 }
 
+/** Board the rule is played on; 8×8 with the usual army for most rules. */
+export interface BlueprintBoard {
+  files: number;
+  ranks: number;
+  holes: string[];
+  wrapFiles: boolean;
+  backRank: BackRankPiece[];
+}
+
+/** A piece the rule adds to the orthodox six; see `fairy-pieces.ts`. */
+export type BlueprintFairyPiece = FairyPieceDefinition;
+
 export interface RuleBlueprintV2 {
   schemaVersion: typeof RULE_SCHEMA_VERSION;
   ruleKey: string;
@@ -170,12 +193,16 @@ export interface RuleBlueprintV2 {
   summary: string;
   category: RuleCategory;
   tags: string[];
-  affectedPieces: PieceType[];
+  affectedPieces: PieceScope[];
   sides: Side[];
   stateNamespace: string;
   initialStateJson: string;
   actions: BlueprintAction[];
   triggers: BlueprintTrigger[];
+  /** Absent on blueprints written before board geometries existed. */
+  board?: BlueprintBoard;
+  /** Absent on blueprints written before fairy pieces existed. */
+  pieces?: BlueprintFairyPiece[];
   balance: {
     powerLevel: number;
     counterplay: string[];
@@ -205,6 +232,47 @@ export interface CompilationMetrics {
   actionCount: number;
 }
 
+/**
+ * Outcome of seeded bot-vs-bot games played with a compiled rule, measured
+ * rather than declared by the blueprint.
+ */
+export interface MeasuredBalanceReport {
+  harness: string;
+  seed: string;
+  gamesRequested: number;
+  gamesPlayed: number;
+  whiteWins: number;
+  blackWins: number;
+  draws: number;
+  /**
+   * Games stopped at the ply cap or by the time budget, counted apart from
+   * real draws.
+   */
+  unfinished: number;
+  /** Shares of the finished games, 0 when none finished. */
+  whiteWinRate: number;
+  blackWinRate: number;
+  drawRate: number;
+  averagePlies: number;
+  abilityUsage: {
+    white: number;
+    black: number;
+    byAction: Record<string, number>;
+  };
+  /**
+   * 100 when both sides win equally often, 0 when one side always wins; null
+   * when no game finished, so nothing was measured.
+   */
+  balanceScore: number | null;
+  /** The time budget ran out before every requested game was finished. */
+  truncated: boolean;
+}
+
+/** Self-play evidence stored next to the heuristic compilation metrics. */
+export type MeasuredBalance =
+  | ({ status: "measured" } & MeasuredBalanceReport)
+  | { status: "skipped" | "unavailable"; reason: string };
+
 export interface LegacyRuleJSON {
   meta: {
     ruleId: string;
@@ -261,6 +329,10 @@ export interface LegacyRuleJSON {
       message?: string;
     }>;
   };
+  /** Only set when the rule needs a board other than the standard one. */
+  board?: CompiledBoardLayout;
+  /** Only set when the rule declares fairy pieces. */
+  pieces?: FairyPieceDefinition[];
   integration: {
     ruleArchitect: {
       schemaVersion: string;
@@ -304,6 +376,7 @@ export interface RuleCoverageAssessment {
 }
 
 export interface CompileRuleResponse extends CompilationResult {
+  metrics: CompilationMetrics & { measuredBalance?: MeasuredBalance | null };
   compilationId: string;
   contentHash: string | null;
   model: string;
@@ -328,4 +401,6 @@ export interface CreatedRuleLobby {
   /** Null while a player lobby is waiting; revealed atomically when joined. */
   matchSeed: number | null;
   legacyRuleIds: string[];
+  /** How the pinned rules interfere; only warnings and infos reach here. */
+  compositionDiagnostics?: RuleDiagnostic[];
 }
@@ -1,7 +1,9 @@
 import type { SoundEffect } from '@/hooks/useSoundEffects';
 import type { SpecialAbilityKey, SpecialAbilityTrigger } from '@/lib/specialAbilities';
+import type { BoardGeometry } from '@/rules-v2/board-geometry';
+import type { FairyPieceDefinition } from '@/rules-v2/fairy-pieces';
 
-export type PieceType = 'king' | 'queen' | 'rook' | 'bishop' | 'knight' | 'pawn';
+export type PieceType = 'king' | 'queen' | 'rook' | 'bishop' | 'knight' | 'pawn' | 'fairy';
 export type PieceColor = 'white' | 'black';
 
 export interface Position {
@@ -15,6 +17,8 @@ export interface ChessPiece {
   position: Position;
   hasMoved?: boolean;
   isHidden?: boolean;
+  /** Movement and glyph of the piece when `type` is 'fairy'. */
+  fairy?: FairyPieceDefinition;
   specialState?: {
     carnivorousPlant?: {
       active: boolean;
@@ -30,6 +34,7 @@ export interface SerializedPiece {
   row: number;
   col: number;
   isHidden?: boolean;
+  fairy?: FairyPieceDefinition;
 }
 
 export interface SerializedBoardState {
@@ -135,6 +140,8 @@ export interface ChessRule {
 
 export interface GameState {
   board: (ChessPiece | null)[][];
+  /** Board shape; absent means the standard 8×8. */
+  geometry?: BoardGeometry;
   currentPlayer: PieceColor;
   turnNumber: number;
   movesThisTurn: number;
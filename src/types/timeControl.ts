@@ -1,32 +1,88 @@
-export type TimeControlOption = 'bullet' | 'blitz' | 'long' | 'untimed';
+export type TimeControlOption = 'bullet' | 'blitz' | 'rapid' | 'bronstein' | 'long' | 'untimed';
 
-export const TIME_CONTROL_SETTINGS: Record<TimeControlOption, {
+/**
+ * `simple` delay lets the clock wait before running; `bronstein` gives back the
+ * time spent on a move, up to the delay.
+ */
+export type ClockDelayMode = 'none' | 'simple' | 'bronstein';
+
+export interface TimeControlSettings {
   label: string;
   description: string;
   initialSeconds: number;
-}> = {
+  incrementSeconds: number;
+  delaySeconds: number;
+  delayMode: ClockDelayMode;
+}
+
+export const TIME_CONTROL_SETTINGS: Record<TimeControlOption, TimeControlSettings> = {
   bullet: {
     label: 'Bullet 1+0',
     description: '1 minute par joueur. Réflexes et instinct priment.',
     initialSeconds: 60,
+    incrementSeconds: 0,
+    delaySeconds: 0,
+    delayMode: 'none',
   },
   blitz: {
-    label: 'Blitz 5+0',
-    description: '5 minutes par joueur pour un rythme classique.',
+    label: 'Blitz 3+2',
+    description: '3 minutes par joueur, 2 secondes ajoutées à chaque coup.',
+    initialSeconds: 180,
+    incrementSeconds: 2,
+    delaySeconds: 0,
+    delayMode: 'none',
+  },
+  rapid: {
+    label: 'Rapide 10+5',
+    description: '10 minutes par joueur, 5 secondes ajoutées à chaque coup.',
+    initialSeconds: 600,
+    incrementSeconds: 5,
+    delaySeconds: 0,
+    delayMode: 'none',
+  },
+  bronstein: {
+    label: 'Blitz 5 d3',
+    description: '5 minutes par joueur, jusqu’à 3 secondes rendues à chaque coup (Bronstein).',
     initialSeconds: 300,
+    incrementSeconds: 0,
+    delaySeconds: 3,
+    delayMode: 'bronstein',
   },
   long: {
-    label: 'Partie longue 15+0',
-    description: '15 minutes par joueur pour réfléchir en profondeur.',
+    label: 'Partie longue 15+10',
+    description: '15 minutes par joueur, 10 secondes ajoutées à chaque coup.',
     initialSeconds: 900,
+    incrementSeconds: 10,
+    delaySeconds: 0,
+    delayMode: 'none',
   },
   untimed: {
     label: 'Sans temps',
     description: 'Chronomètre désactivé. Prenez tout votre temps.',
     initialSeconds: 0,
+    incrementSeconds: 0,
+    delaySeconds: 0,
+    delayMode: 'none',
   },
 };
 
 export const isTimeControlOption = (value: unknown): value is TimeControlOption => {
   return typeof value === 'string' && value in TIME_CONTROL_SETTINGS;
 };
+
+/** Short cadence notation: `3+2`, `5 d3` (Bronstein) or `5 s3` (simple delay). */
+export const formatTimeControl = (
+  control: Pick<TimeControlSettings, 'initialSeconds' | 'incrementSeconds'> &
+    Partial<Pick<TimeControlSettings, 'delaySeconds' | 'delayMode'>>,
+): string => {
+  const minutes = control.initialSeconds / 60;
+  const base = Number.isInteger(minutes) ? `${minutes}` : minutes.toFixed(1);
+  const delayMode = control.delayMode ?? 'none';
+  if (delayMode === 'none' || !control.delaySeconds) {
+    return `${base}+${control.incrementSeconds}`;
+  }
+  const delay = `${delayMode === 'bronstein' ? 'd' : 's'}${control.delaySeconds}`;
+  return control.incrementSeconds > 0
+    ? `${base}+${control.incrementSeconds} ${delay}`
+    : `${base} ${delay}`;
+};
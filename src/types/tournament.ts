@@ -1,12 +1,35 @@
 import type { Tables } from "@/integrations/supabase/types";
 
-export type TournamentOverview = Tables<"tournament_overview">;
+export type TournamentFormat =
+  | "arena"
+  | "swiss"
+  | "single_elimination"
+  | "double_elimination"
+  | "round_robin";
+
+export type TournamentBracket = "winners" | "losers" | "grand_final";
+
+export type TournamentResultSource = "server" | "agreement" | "dispute" | "bye";
+
+export type TournamentMatchResult = "player1" | "player2" | "draw";
+
+export type TournamentOverview = Tables<"tournament_overview"> & {
+  format: TournamentFormat;
+  round_count: number | null;
+  current_round: number;
+};
 export type Tournament = Tables<"tournaments">;
 export type TournamentRegistration = Tables<"tournament_registrations">;
 export type TournamentMatch = Tables<"tournament_matches"> & {
   is_ai_match?: boolean | null;
   ai_opponent_label?: string | null;
   ai_opponent_difficulty?: string | null;
+  is_bye?: boolean | null;
+  bracket?: TournamentBracket | null;
+  bracket_slot?: number | null;
+  chess_match_id?: string | null;
+  result_source?: TournamentResultSource | null;
+  verified_at?: string | null;
   lobby?: {
     id: string;
     name: string;
@@ -39,4 +62,22 @@ export interface TournamentLeaderboardEntry {
   losses: number;
   draws: number;
   points: number;
+  buchholz: number;
+  sonneborn_berger: number;
+  seed: number | null;
+  eliminated_in_round: number | null;
 }
+
+export type TournamentReportResponse =
+  | {
+      status: "recorded";
+      source: TournamentResultSource;
+      match: TournamentMatch;
+      leaderboard: TournamentLeaderboardEntry[];
+    }
+  | { status: "awaiting_confirmation"; match: TournamentMatch }
+  | {
+      status: "disputed";
+      reason: "ai_match" | "abandoned" | "conflicting_reports";
+      match: TournamentMatch;
+    };
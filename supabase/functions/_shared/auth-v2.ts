@@ -29,7 +29,6 @@ export async function authenticateRequest(
 
   const url = requiredEnv("SUPABASE_URL");
   const anonKey = requiredEnv("SUPABASE_ANON_KEY");
-  const serviceRoleKey = requiredEnv("SUPABASE_SERVICE_ROLE_KEY");
 
   const userClient = createClient(url, anonKey, {
     global: {
@@ -53,17 +52,24 @@ export async function authenticateRequest(
     throw new Error("AUTH_INVALID");
   }
 
-  const serviceClient = createClient(url, serviceRoleKey, {
-    auth: {
-      persistSession: false,
-      autoRefreshToken: false,
-      detectSessionInUrl: false,
-    },
-  });
-
   return {
     user,
     userClient,
-    serviceClient,
+    serviceClient: createServiceClient(),
   };
 }
+
+/** Service-role client for server-to-server callers such as webhooks. */
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    requiredEnv("SUPABASE_URL"),
+    requiredEnv("SUPABASE_SERVICE_ROLE_KEY"),
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+        detectSessionInUrl: false,
+      },
+    },
+  );
+}
@@ -0,0 +1,172 @@
+import { assert, assertEquals, assertThrows } from "jsr:@std/assert@1";
+import {
+  type Entitlement,
+  entitlementUpdateFromStripeEvent,
+  isPremiumEntitlement,
+  pricePlanIndexFromEnv,
+  resolvePremiumAccess,
+  StripeEventPayloadError,
+  type StripeEventPayload,
+} from "./entitlements.ts";
+import checkoutCompleted from "./fixtures/stripe/checkout-session-completed.json" with { type: "json" };
+import subscriptionDeleted from "./fixtures/stripe/customer-subscription-deleted.json" with { type: "json" };
+import subscriptionUpdated from "./fixtures/stripe/customer-subscription-updated.json" with { type: "json" };
+import paymentFailed from "./fixtures/stripe/invoice-payment-failed.json" with { type: "json" };
+
+const USER_ID = "5a1d7c3e-2b4f-4c8a-9e61-0f3b2d4a6c71";
+
+const prices = pricePlanIndexFromEnv(
+  (name) =>
+    ({
+      STRIPE_PRICE_PRO_MONTHLY: "price_1PzProMonthly",
+      STRIPE_PRICE_PRO_YEARLY: " price_1PzProYearly ",
+    })[name],
+);
+
+const entitlement = (overrides: Partial<Entitlement> = {}): Entitlement => ({
+  userId: USER_ID,
+  plan: "pro",
+  status: "active",
+  billingInterval: "monthly",
+  source: "stripe",
+  stripeCustomerId: "cus_QvTestCustomer01",
+  currentPeriodEnd: "2026-11-01T00:00:00.000Z",
+  cancelAtPeriodEnd: false,
+  ...overrides,
+});
+
+Deno.test(
+  "checkout completion links the player to the customer and plan",
+  () => {
+    const update = entitlementUpdateFromStripeEvent(checkoutCompleted, prices);
+    assertEquals(update, {
+      eventId: "evt_1PzCheckoutCompleted01",
+      eventType: "checkout.session.completed",
+      eventCreatedAt: "2025-10-09T08:53:20.000Z",
+      userId: USER_ID,
+      customerId: "cus_QvTestCustomer01",
+      subscriptionId: "sub_1PzTestSubscription01",
+      plan: "pro",
+      status: "active",
+      billingInterval: "monthly",
+      currentPeriodEnd: null,
+      cancelAtPeriodEnd: null,
+    });
+  },
+);
+
+Deno.test("an unpaid checkout is recorded as incomplete", () => {
+  const event = structuredClone(checkoutCompleted);
+  event.data.object.payment_status = "unpaid";
+  assertEquals(
+    entitlementUpdateFromStripeEvent(event, prices)?.status,
+    "incomplete",
+  );
+});
+
+Deno.test("a checkout without a player reference is rejected", () => {
+  const event: StripeEventPayload = structuredClone(checkoutCompleted);
+  event.data.object.client_reference_id = null;
+  event.data.object.metadata = { planId: "pro" };
+  assertThrows(
+    () => entitlementUpdateFromStripeEvent(event, prices),
+    StripeEventPayloadError,
+  );
+});
+
+Deno.test("the subscription price wins over stale checkout metadata", () => {
+  const update = entitlementUpdateFromStripeEvent(subscriptionUpdated, prices);
+  assertEquals(update?.plan, "pro");
+  assertEquals(update?.billingInterval, "yearly");
+  assertEquals(update?.status, "active");
+  assertEquals(update?.cancelAtPeriodEnd, true);
+  assertEquals(update?.currentPeriodEnd, "2026-10-09T08:53:20.000Z");
+  assertEquals(update?.userId, USER_ID);
+});
+
+Deno.test(
+  "an unknown price falls back to the metadata and billing cycle",
+  () => {
+    const update = entitlementUpdateFromStripeEvent(
+      subscriptionUpdated,
+      new Map(),
+    );
+    assertEquals(update?.plan, "pro");
+    assertEquals(update?.billingInterval, "yearly");
+  },
+);
+
+Deno.test("a deleted subscription returns the player to the free plan", () => {
+  const update = entitlementUpdateFromStripeEvent(subscriptionDeleted, prices);
+  assertEquals(update?.plan, "freemium");
+  assertEquals(update?.status, "canceled");
+  assertEquals(update?.cancelAtPeriodEnd, false);
+  assertEquals(update?.userId, null);
+  assertEquals(update?.subscriptionId, "sub_1PzTestSubscription01");
+});
+
+Deno.test("a failed renewal only moves the status to past_due", () => {
+  const update = entitlementUpdateFromStripeEvent(paymentFailed, prices);
+  assertEquals(update?.status, "past_due");
+  assertEquals(update?.plan, null);
+  assertEquals(update?.currentPeriodEnd, null);
+  assertEquals(update?.customerId, "cus_QvTestCustomer01");
+});
+
+Deno.test("unrelated event types are ignored", () => {
+  assertEquals(
+    entitlementUpdateFromStripeEvent({
+      id: "evt_1PzCustomerCreated01",
+      type: "customer.created",
+      created: 1760000000,
+      data: { object: { id: "cus_QvTestCustomer01" } },
+    }),
+    null,
+  );
+});
+
+Deno.test("premium needs a paid Pro or Club subscription", () => {
+  const now = new Date("2026-10-20T00:00:00.000Z");
+  assert(isPremiumEntitlement(entitlement(), now));
+  assert(
+    isPremiumEntitlement(
+      entitlement({ plan: "club", status: "trialing" }),
+      now,
+    ),
+  );
+  assert(!isPremiumEntitlement(entitlement({ plan: "starter" }), now));
+  assert(!isPremiumEntitlement(entitlement({ status: "canceled" }), now));
+  assert(!isPremiumEntitlement(entitlement({ status: "unpaid" }), now));
+  assert(!isPremiumEntitlement(null, now));
+});
+
+Deno.test("a failed renewal keeps premium until the paid period ends", () => {
+  const pastDue = entitlement({ status: "past_due" });
+  assert(isPremiumEntitlement(pastDue, new Date("2026-10-31T23:00:00.000Z")));
+  assert(!isPremiumEntitlement(pastDue, new Date("2026-11-01T00:00:01.000Z")));
+});
+
+Deno.test("staff and the allow-list bypass billing", () => {
+  const player = { id: USER_ID, app_metadata: {} };
+  assert(!resolvePremiumAccess({ user: player, entitlement: null }));
+  assert(
+    resolvePremiumAccess({
+      user: player,
+      entitlement: null,
+      premiumUserIds: ` other-id, ${USER_ID} `,
+    }),
+  );
+  assert(
+    resolvePremiumAccess({
+      user: { id: USER_ID, app_metadata: { role: "owner" } },
+      entitlement: null,
+    }),
+  );
+  assert(
+    !resolvePremiumAccess({
+      user: { id: USER_ID, app_metadata: { rule_architect_tier: "premium" } },
+      entitlement: null,
+    }),
+  );
+  assert(resolvePremiumAccess({ user: player, entitlement: entitlement() }));
+});
@@ -0,0 +1,431 @@
+import type { AuthenticatedClients } from "./auth-v2.ts";
+
+type ServiceClient = AuthenticatedClients["serviceClient"];
+
+export type BillingPlan = "freemium" | "starter" | "pro" | "club";
+export type BillingStatus =
+  | "active"
+  | "trialing"
+  | "past_due"
+  | "unpaid"
+  | "incomplete"
+  | "canceled";
+export type BillingInterval = "monthly" | "yearly";
+
+export interface Entitlement {
+  userId: string;
+  plan: BillingPlan;
+  status: BillingStatus;
+  billingInterval: BillingInterval | null;
+  source: "stripe" | "manual";
+  stripeCustomerId: string | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+}
+
+/**
+ * The part of a Stripe event the entitlement logic reads. Verified webhook
+ * payloads and the JSON fixtures used by the tests both satisfy it, so nothing
+ * here depends on the Stripe SDK.
+ */
+export interface StripeEventPayload {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: Record<string, unknown> };
+}
+
+/**
+ * Arguments of `apply_stripe_entitlement_event_server`. Null fields leave the
+ * stored entitlement untouched.
+ */
+export interface EntitlementUpdate {
+  eventId: string;
+  eventType: string;
+  eventCreatedAt: string;
+  userId: string | null;
+  customerId: string | null;
+  subscriptionId: string | null;
+  plan: BillingPlan | null;
+  status: BillingStatus | null;
+  billingInterval: BillingInterval | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean | null;
+}
+
+export interface PricePlan {
+  plan: BillingPlan;
+  billingInterval: BillingInterval;
+}
+
+export type PricePlanIndex = ReadonlyMap<string, PricePlan>;
+
+export const ENTITLEMENT_STRIPE_EVENTS = [
+  "checkout.session.completed",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+  "invoice.payment_failed",
+] as const;
+
+export class StripeEventPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StripeEventPayloadError";
+  }
+}
+
+const PLANS: readonly BillingPlan[] = ["freemium", "starter", "pro", "club"];
+const PREMIUM_PLANS: ReadonlySet<BillingPlan> = new Set(["pro", "club"]);
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// Stripe subscription statuses folded onto the ones the product distinguishes.
+const SUBSCRIPTION_STATUSES: Record<string, BillingStatus> = {
+  active: "active",
+  trialing: "trialing",
+  past_due: "past_due",
+  unpaid: "unpaid",
+  paused: "unpaid",
+  incomplete: "incomplete",
+  incomplete_expired: "canceled",
+  canceled: "canceled",
+};
+
+const PRICE_ENV_NAMES: ReadonlyArray<[string, PricePlan]> = [
+  [
+    "STRIPE_PRICE_STARTER_MONTHLY",
+    { plan: "starter", billingInterval: "monthly" },
+  ],
+  [
+    "STRIPE_PRICE_STARTER_YEARLY",
+    { plan: "starter", billingInterval: "yearly" },
+  ],
+  ["STRIPE_PRICE_PRO_MONTHLY", { plan: "pro", billingInterval: "monthly" }],
+  ["STRIPE_PRICE_PRO_YEARLY", { plan: "pro", billingInterval: "yearly" }],
+  ["STRIPE_PRICE_CLUB_MONTHLY", { plan: "club", billingInterval: "monthly" }],
+  ["STRIPE_PRICE_CLUB_YEARLY", { plan: "club", billingInterval: "yearly" }],
+];
+
+/**
+ * Maps the configured Stripe price ids back to plans. A plan changed from the
+ * billing portal only shows up as a new price on the subscription; the
+ * checkout metadata still names the old one.
+ */
+export function pricePlanIndexFromEnv(
+  read: (name: string) => string | undefined = (name) => Deno.env.get(name),
+): PricePlanIndex {
+  const index = new Map<string, PricePlan>();
+  for (const [name, pricePlan] of PRICE_ENV_NAMES) {
+    const priceId = read(name)?.trim();
+    if (priceId) {
+      index.set(priceId, pricePlan);
+    }
+  }
+  return index;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const stringOrNull = (value: unknown): string | null =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+
+// Expandable Stripe fields arrive either as an id or as the expanded object.
+const stripeId = (value: unknown, prefix: string): string | null => {
+  const id = isRecord(value) ? value.id : value;
+  return typeof id === "string" && id.startsWith(prefix) ? id : null;
+};
+
+const userIdOrNull = (value: unknown): string | null => {
+  const candidate = stringOrNull(value);
+  return candidate && UUID_PATTERN.test(candidate)
+    ? candidate.toLowerCase()
+    : null;
+};
+
+const planOrNull = (value: unknown): BillingPlan | null =>
+  PLANS.find((plan) => plan === value) ?? null;
+
+const intervalOrNull = (value: unknown): BillingInterval | null => {
+  if (value === "monthly" || value === "month") return "monthly";
+  if (value === "yearly" || value === "year") return "yearly";
+  return null;
+};
+
+const unixSecondsToIso = (value: unknown): string | null =>
+  typeof value === "number" && Number.isFinite(value) && value > 0
+    ? new Date(value * 1000).toISOString()
+    : null;
+
+const metadataOf = (value: unknown): Record<string, unknown> =>
+  isRecord(value) ? value : {};
+
+function subscriptionPrice(
+  subscription: Record<string, unknown>,
+): Record<string, unknown> | null {
+  const items = isRecord(subscription.items) ? subscription.items.data : null;
+  const firstItem = Array.isArray(items) ? items[0] : null;
+  return isRecord(firstItem) && isRecord(firstItem.price)
+    ? firstItem.price
+    : null;
+}
+
+function emptyUpdate(event: StripeEventPayload): EntitlementUpdate {
+  const eventCreatedAt = unixSecondsToIso(event.created);
+  if (!event.id.startsWith("evt_") || !eventCreatedAt) {
+    throw new StripeEventPayloadError("Événement Stripe incomplet.");
+  }
+  return {
+    eventId: event.id,
+    eventType: event.type,
+    eventCreatedAt,
+    userId: null,
+    customerId: null,
+    subscriptionId: null,
+    plan: null,
+    status: null,
+    billingInterval: null,
+    currentPeriodEnd: null,
+    cancelAtPeriodEnd: null,
+  };
+}
+
+function fromCheckoutSession(
+  update: EntitlementUpdate,
+  session: Record<string, unknown>,
+): EntitlementUpdate {
+  if (session.mode !== "subscription") {
+    return update;
+  }
+  const metadata = metadataOf(session.metadata);
+  const userId =
+    userIdOrNull(session.client_reference_id) ?? userIdOrNull(metadata.userId);
+  if (!userId) {
+    throw new StripeEventPayloadError(
+      "La session Checkout ne référence aucun joueur.",
+    );
+  }
+  const paid =
+    session.payment_status === "paid" ||
+    session.payment_status === "no_payment_required";
+  return {
+    ...update,
+    userId,
+    customerId: stripeId(session.customer, "cus_"),
+    subscriptionId: stripeId(session.subscription, "sub_"),
+    plan: planOrNull(metadata.planId),
+    status: paid ? "active" : "incomplete",
+    billingInterval: intervalOrNull(metadata.billingInterval),
+  };
+}
+
+function fromSubscription(
+  update: EntitlementUpdate,
+  subscription: Record<string, unknown>,
+  prices: PricePlanIndex,
+  deleted: boolean,
+): EntitlementUpdate {
+  const subscriptionId = stripeId(subscription.id, "sub_");
+  const status = deleted
+    ? "canceled"
+    : SUBSCRIPTION_STATUSES[String(subscription.status)];
+  if (!subscriptionId || !status) {
+    throw new StripeEventPayloadError("Abonnement Stripe illisible.");
+  }
+  const metadata = metadataOf(subscription.metadata);
+  const price = subscriptionPrice(subscription);
+  const priced = prices.get(String(price?.id));
+  const recurring = isRecord(price?.recurring) ? price.recurring : {};
+  return {
+    ...update,
+    userId: userIdOrNull(metadata.userId),
+    customerId: stripeId(subscription.customer, "cus_"),
+    subscriptionId,
+    // A deleted subscription leaves the player on the free plan.
+    plan: deleted ? "freemium" : (priced?.plan ?? planOrNull(metadata.planId)),
+    status,
+    billingInterval:
+      priced?.billingInterval ??
+      intervalOrNull(recurring.interval) ??
+      intervalOrNull(metadata.billingInterval),
+    currentPeriodEnd: unixSecondsToIso(subscription.current_period_end),
+    cancelAtPeriodEnd: deleted
+      ? false
+      : subscription.cancel_at_period_end === true,
+  };
+}
+
+function fromFailedInvoice(
+  update: EntitlementUpdate,
+  invoice: Record<string, unknown>,
+): EntitlementUpdate {
+  const subscriptionId = stripeId(invoice.subscription, "sub_");
+  if (!subscriptionId) {
+    // One-off invoices do not carry a subscription entitlement.
+    return update;
+  }
+  const details = isRecord(invoice.subscription_details)
+    ? invoice.subscription_details
+    : {};
+  return {
+    ...update,
+    userId: userIdOrNull(metadataOf(details.metadata).userId),
+    customerId: stripeId(invoice.customer, "cus_"),
+    subscriptionId,
+    status: "past_due",
+  };
+}
+
+/**
+ * Reduces a verified Stripe event to the entitlement change it implies, or
+ * null for event types that do not touch entitlements. Pure: the webhook
+ * and the fixture tests share it.
+ */
+export function entitlementUpdateFromStripeEvent(
+  event: StripeEventPayload,
+  prices: PricePlanIndex = new Map(),
+): EntitlementUpdate | null {
+  if (!(ENTITLEMENT_STRIPE_EVENTS as readonly string[]).includes(event.type)) {
+    return null;
+  }
+  const object = event.data?.object;
+  if (!isRecord(object)) {
+    throw new StripeEventPayloadError("Événement Stripe sans objet.");
+  }
+  const update = emptyUpdate(event);
+  switch (event.type) {
+    case "checkout.session.completed":
+      return fromCheckoutSession(update, object);
+    case "customer.subscription.updated":
+      return fromSubscription(update, object, prices, false);
+    case "customer.subscription.deleted":
+      return fromSubscription(update, object, prices, true);
+    default:
+      return fromFailedInvoice(update, object);
+  }
+}
+
+/**
+ * Records the event and applies its update. Resolves to false when the event
+ * was already received, could not be matched to a player, or is older than
+ * the last one applied.
+ */
+export async function applyStripeEntitlementEvent(
+  serviceClient: ServiceClient,
+  update: EntitlementUpdate,
+): Promise<boolean> {
+  const { data, error } = await serviceClient.rpc(
+    "apply_stripe_entitlement_event_server",
+    {
+      p_event_id: update.eventId,
+      p_event_type: update.eventType,
+      p_event_created_at: update.eventCreatedAt,
+      p_user_id: update.userId,
+      p_customer_id: update.customerId,
+      p_subscription_id: update.subscriptionId,
+      p_plan: update.plan,
+      p_status: update.status,
+      p_billing_interval: update.billingInterval,
+      p_current_period_end: update.currentPeriodEnd,
+      p_cancel_at_period_end: update.cancelAtPeriodEnd,
+    },
+  );
+  if (error) {
+    throw new Error("ENTITLEMENT_UPDATE_FAILED");
+  }
+  return data === true;
+}
+
+function parseEntitlementRow(row: Record<string, unknown>): Entitlement | null {
+  const plan = planOrNull(row.plan);
+  const status = Object.values(SUBSCRIPTION_STATUSES).find(
+    (candidate) => candidate === row.status,
+  );
+  if (typeof row.user_id !== "string" || !plan || !status) {
+    return null;
+  }
+  return {
+    userId: row.user_id,
+    plan,
+    status,
+    billingInterval: intervalOrNull(row.billing_interval),
+    source: row.source === "manual" ? "manual" : "stripe",
+    stripeCustomerId: stripeId(row.stripe_customer_id, "cus_"),
+    currentPeriodEnd: stringOrNull(row.current_period_end),
+    cancelAtPeriodEnd: row.cancel_at_period_end === true,
+  };
+}
+
+/** The player's entitlement row, or null when they never subscribed. */
+export async function loadEntitlement(
+  serviceClient: ServiceClient,
+  userId: string,
+): Promise<Entitlement | null> {
+  const { data, error } = await serviceClient
+    .from("billing_entitlements")
+    .select(
+      "user_id,plan,status,billing_interval,source,stripe_customer_id,current_period_end,cancel_at_period_end",
+    )
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error("ENTITLEMENT_LOOKUP_FAILED");
+  }
+  return isRecord(data) ? parseEntitlementRow(data) : null;
+}
+
+/**
+ * Pro and Club unlock premium features while the subscription is paid or in
+ * trial. A failed renewal keeps access until the paid period ends, which
+ * leaves Stripe's retries time to succeed.
+ */
+export function isPremiumEntitlement(
+  entitlement: Entitlement | null,
+  now: Date = new Date(),
+): boolean {
+  if (!entitlement || !PREMIUM_PLANS.has(entitlement.plan)) {
+    return false;
+  }
+  if (entitlement.status === "active" || entitlement.status === "trialing") {
+    return true;
+  }
+  if (entitlement.status !== "past_due" || !entitlement.currentPeriodEnd) {
+    return false;
+  }
+  return Date.parse(entitlement.currentPeriodEnd) > now.getTime();
+}
+
+export interface PremiumAccessInput {
+  user: { id: string; app_metadata?: Record<string, unknown> };
+  entitlement: Entitlement | null;
+  /** Comma-separated `RULE_ARCHITECT_PREMIUM_USER_IDS` override. */
+  premiumUserIds?: string;
+  now?: Date;
+}
+
+/**
+ * Single premium decision for every edge function. Staff roles and the
+ * operator allow-list bypass billing; everyone else needs an entitlement.
+ */
+export function resolvePremiumAccess({
+  user,
+  entitlement,
+  premiumUserIds = "",
+  now,
+}: PremiumAccessInput): boolean {
+  const appMetadata = user.app_metadata ?? {};
+  if (
+    appMetadata.role === "admin" ||
+    appMetadata.role === "owner" ||
+    appMetadata.is_admin === true
+  ) {
+    return true;
+  }
+  const allowList = new Set(
+    premiumUserIds
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean),
+  );
+  return allowList.has(user.id) || isPremiumEntitlement(entitlement, now);
+}
@@ -35,6 +35,56 @@ Deno.test(
   },
 );
 
+Deno.test(
+  "rule-architect-prompt: liste les événements avec leurs tokens disponibles",
+  () => {
+    const prompt = buildRuleArchitectSystemPrompt();
+
+    for (const fragment of [
+      "- lifecycle.onCapture :",
+      "- lifecycle.onCheck :",
+      "- lifecycle.onTurnEnd :",
+      "- lifecycle.onAttacked :",
+      "- lifecycle.onGameEnd :",
+      "sauf pour lifecycle.onAttacked",
+    ]) {
+      assert(prompt.includes(fragment), fragment);
+    }
+    assert(!prompt.includes("avec la condition ctx.hasTargetPiece"));
+  },
+);
+
+Deno.test(
+  "rule-architect-prompt: décrit le plateau standard et les plateaux de référence",
+  () => {
+    const prompt = buildRuleArchitectSystemPrompt();
+
+    for (const fragment of [
+      "20. board décrit le plateau.",
+      "- Capablanca 10×8 : files=10, ranks=8",
+      "- Centre troué : files=8, ranks=8, holes=[d4, e4, d5, e5]",
+    ]) {
+      assert(prompt.includes(fragment), fragment);
+    }
+  },
+);
+
+Deno.test(
+  "rule-architect-prompt: explique la notation Betza et les pièces de référence",
+  () => {
+    const prompt = buildRuleArchitectSystemPrompt();
+
+    for (const fragment of [
+      "21. pieces déclare au plus 4 pièces féeriques",
+      "g sauterelle",
+      "- Archevêque : id=archbishop, betza=BN, glyph=A, value=8.",
+      "avec pieces=[archbishop, chancellor]",
+    ]) {
+      assert(prompt.includes(fragment), fragment);
+    }
+  },
+);
+
 Deno.test(
   "rule-architect-input: ajoute un catalogue serveur vide quand aucun asset n'est validé",
   async () => {
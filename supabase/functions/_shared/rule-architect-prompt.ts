@@ -1,6 +1,11 @@
 import {
+  BOARD_PRESETS,
+  type BoardPreset,
   CONDITION_CATALOG,
   EFFECT_CATALOG,
+  EVENT_CATALOG,
+  FAIRY_PIECE_PRESETS,
+  MAX_FAIRY_PIECES,
   PROVIDERS,
 } from "./rules-v2/index.ts";
 
@@ -25,6 +30,30 @@ const catalogLines = (
     })
     .join("\n");
 
+const eventLines = (): string =>
+  Object.entries(EVENT_CATALOG)
+    .map(
+      ([event, spec]) =>
+        `- ${event} : ${spec.description} Tokens : ${spec.tokens.join(", ")}.`,
+    )
+    .join("\n");
+
+const boardLines = (): string =>
+  Object.values<BoardPreset>(BOARD_PRESETS)
+    .map(
+      ({ label, layout }) =>
+        `- ${label} : files=${layout.files}, ranks=${layout.ranks}, holes=[${layout.holes.join(", ")}], wrapFiles=${layout.wrapFiles}, backRank=[${layout.backRank.join(", ")}]${layout.pieces?.length ? `, avec pieces=[${layout.pieces.map((piece) => piece.id).join(", ")}]` : ""}.`,
+    )
+    .join("\n");
+
+const fairyPieceLines = (): string =>
+  Object.values(FAIRY_PIECE_PRESETS)
+    .map(
+      (piece) =>
+        `- ${piece.name} : id=${piece.id}, betza=${piece.betza}, glyph=${piece.glyph}, value=${piece.value}.`,
+    )
+    .join("\n");
+
 export const RULE_ACTION_SEMANTICS = `
 CONTRAT AUTORITAIRE DES ACTIONS UI
 - Avec requiresSelection=true, cooldownTurns=N (N entier de 0 à 20) applique
@@ -74,9 +103,10 @@ Règles impératives :
 5. initialStateJson doit être une chaîne contenant un objet JSON valide.
 6. Pour event=ui.action, actionId référence une action existante. Pour les
    événements lifecycle.*, actionId doit être une chaîne vide.
-7. Toute utilisation de $targetTile exige ctx.hasTargetTile, sauf
-   lifecycle.onEnterTile et lifecycle.onMoveCommitted. Toute utilisation de
-   $targetPieceId exige ctx.hasTargetPiece.
+7. Un trigger lifecycle.* n'utilise que les tokens listés pour son événement.
+   Toute utilisation de $targetTile exige ctx.hasTargetTile, sauf pour les
+   événements qui fournissent $targetTile. Toute utilisation de $targetPieceId
+   exige ctx.hasTargetPiece, sauf pour lifecycle.onAttacked.
 8. Une action ciblée doit avoir un provider différent de "none".
 9. Chaque mécanique forte possède une limite concrète : cooldown, nombre
    d'utilisations, fenêtre de tours, condition ou contre-jeu.
@@ -95,8 +125,7 @@ Règles impératives :
     un bloc <ASSET_CATALOGUE_SERVEUR> distinct est ajouté par le serveur, et
     uniquement avec le spriteId exact de ce bloc.
 15. Pour déclencher un effet uniquement lors d'une capture normale, utilise
-    lifecycle.onMoveCommitted avec la condition ctx.hasTargetPiece. Le lieu de
-    l'effet est $ctx.to ou $targetTile.
+    lifecycle.onCapture. Le lieu de l'effet est $ctx.to ou $targetTile.
 16. explanation.examples contient toujours entre 2 et 4 exemples concrets de cinq
     caractères minimum. Aucun exemple vide, générique ou absent n'est autorisé.
 17. explanation.plainLanguage explique le déroulement dans l'ordre : activation,
@@ -105,9 +134,38 @@ Règles impératives :
     phrase exploitable. Ne laisse jamais ces listes vides.
 19. Les actions et triggers doivent réellement exprimer la règle. Les textes
     descriptifs ne remplacent jamais la logique compilable.
+20. board décrit le plateau. Sauf demande explicite d'un autre plateau, renvoie
+    files=8, ranks=8, holes=[], wrapFiles=false et la rangée de départ
+    classique. Un plateau compte de 5 à 12 colonnes et rangées ; backRank
+    donne la rangée blanche depuis la colonne a, une pièce par colonne et un
+    seul roi. Les trous (holes) ne sont jamais sur les deux premières ni les
+    deux dernières rangées. wrapFiles=true relie la première et la dernière
+    colonne. Les cases littérales utilisées par les effets doivent exister sur
+    ce plateau.
+21. pieces déclare au plus ${MAX_FAIRY_PIECES} pièces féeriques ; renvoie [] si la règle
+    n'en crée aucune. Chaque pièce a un id en slug (jamais un type classique),
+    un nom, une lettre majuscule glyph hors K, Q, R, B, N, P, une valeur
+    value de 1 à 15 en pions et un déplacement betza. Betza combine des
+    atomes W (1,0), F (1,1), D (2,0), N (2,1), A (2,2), H (3,0), C (3,1),
+    Z (3,2), G (3,3) et les raccourcis K, R, B, Q : un atome doublé (WW, NN)
+    glisse sans limite, un chiffre borne la portée (W3). Préfixes : m
+    déplacement seul, c capture seule, f/b avant/arrière, v/s vertical/
+    latéral, p canon (saute une pièce pour continuer), g sauterelle (atterrit
+    juste derrière la pièce sautée). Une fois déclaré, l'id s'utilise dans
+    affectedPieces, pieceTypes, board.backRank et piece.spawn.
 
 ${RULE_ACTION_SEMANTICS}
 
+Plateaux de référence :
+${boardLines()}
+
+Pièces de référence :
+${fairyPieceLines()}
+
+Événements autorisés :
+${eventLines()}
+- ui.action : action déclenchée par le joueur, avec les tokens de sa cible.
+
 Providers autorisés :
 ${PROVIDERS.map((provider) => `- ${provider}`).join("\n")}
 
@@ -0,0 +1,442 @@
+import {
+  FAIRY_PIECE_PRESETS,
+  parseFairyPieces,
+  pieceFenLetter,
+  sameFairyPiece,
+  type FairyPieceDefinition,
+} from "./fairy-pieces.ts";
+
+export const BOARD_FILE_LETTERS = "abcdefghijkl";
+export const MIN_BOARD_SIZE = 5;
+export const MAX_BOARD_SIZE = 12;
+export const MAX_BOARD_HOLES = 16;
+
+/** Any square name a geometry can produce, from a1 to l12. */
+export const BOARD_TILE_PATTERN = /^[a-l](?:1[0-2]|[1-9])$/;
+
+export const BACK_RANK_PIECES = [
+  "rook",
+  "knight",
+  "bishop",
+  "queen",
+  "king",
+] as const;
+
+export type OrthodoxBackRankPiece = (typeof BACK_RANK_PIECES)[number];
+/** An orthodox back-rank piece or the id of one of the layout's fairy pieces. */
+export type BackRankPiece = string;
+
+const isOrthodoxBackRankPiece = (
+  piece: string,
+): piece is OrthodoxBackRankPiece =>
+  BACK_RANK_PIECES.includes(piece as OrthodoxBackRankPiece);
+
+/**
+ * Shape of the board a game is played on. Row 0 is black's back rank, so a
+ * square's rank is `ranks - row` and its file is `BOARD_FILE_LETTERS[col]`.
+ */
+export interface BoardGeometry {
+  files: number;
+  ranks: number;
+  /** Squares removed from play: nothing stands on them or slides over them. */
+  holes: readonly string[];
+  /** Whether the a-file and the last file are adjacent, as on a cylinder. */
+  wrapFiles: boolean;
+}
+
+/** A geometry plus its starting army. */
+export interface BoardLayout extends BoardGeometry {
+  /** White's back rank from the a-file; black mirrors it on the last rank. */
+  backRank: readonly BackRankPiece[];
+  /** Fairy pieces the back rank names by id. */
+  pieces?: readonly FairyPieceDefinition[];
+}
+
+/** `RuleJSON.board`: the layout and the FEN the server starts the match from. */
+export interface CompiledBoardLayout extends BoardLayout {
+  startFen: string;
+}
+
+export interface BoardSquarePosition {
+  row: number;
+  col: number;
+}
+
+export const STANDARD_BACK_RANK: readonly BackRankPiece[] = Object.freeze([
+  "rook",
+  "knight",
+  "bishop",
+  "queen",
+  "king",
+  "bishop",
+  "knight",
+  "rook",
+]);
+
+export const STANDARD_BOARD_GEOMETRY: Readonly<BoardGeometry> = Object.freeze({
+  files: 8,
+  ranks: 8,
+  holes: Object.freeze([]),
+  wrapFiles: false,
+});
+
+export const STANDARD_BOARD_LAYOUT: Readonly<BoardLayout> = Object.freeze({
+  ...STANDARD_BOARD_GEOMETRY,
+  backRank: STANDARD_BACK_RANK,
+});
+
+export interface BoardPreset {
+  label: string;
+  description: string;
+  layout: Readonly<BoardLayout>;
+}
+
+/** Boards offered for local games. */
+export const BOARD_PRESETS = {
+  standard: {
+    label: "Classique 8×8",
+    description: "L'échiquier habituel.",
+    layout: STANDARD_BOARD_LAYOUT,
+  },
+  capablanca: {
+    label: "Capablanca 10×8",
+    description: "Deux colonnes de plus, avec archevêque et chancelier.",
+    layout: Object.freeze({
+      files: 10,
+      ranks: 8,
+      holes: Object.freeze([]),
+      wrapFiles: false,
+      backRank: Object.freeze<BackRankPiece[]>([
+        "rook",
+        "knight",
+        "archbishop",
+        "bishop",
+        "queen",
+        "king",
+        "bishop",
+        "chancellor",
+        "knight",
+        "rook",
+      ]),
+      pieces: Object.freeze([
+        FAIRY_PIECE_PRESETS.archbishop,
+        FAIRY_PIECE_PRESETS.chancellor,
+      ]),
+    }),
+  },
+  "los-alamos": {
+    label: "Los Alamos 6×6",
+    description: "Sans fous, sans roque ni double pas de pion.",
+    layout: Object.freeze({
+      files: 6,
+      ranks: 6,
+      holes: Object.freeze([]),
+      wrapFiles: false,
+      backRank: Object.freeze<BackRankPiece[]>([
+        "rook",
+        "knight",
+        "queen",
+        "king",
+        "knight",
+        "rook",
+      ]),
+    }),
+  },
+  "holed-centre": {
+    label: "Centre troué",
+    description: "Les quatre cases centrales sont retirées du jeu.",
+    layout: Object.freeze({
+      ...STANDARD_BOARD_LAYOUT,
+      holes: Object.freeze(["d4", "e4", "d5", "e5"]),
+    }),
+  },
+  cylinder: {
+    label: "Cylindrique 8×8",
+    description: "Les colonnes a et h se touchent.",
+    layout: Object.freeze({ ...STANDARD_BOARD_LAYOUT, wrapFiles: true }),
+  },
+} as const satisfies Record<string, BoardPreset>;
+
+export type BoardPresetId = keyof typeof BOARD_PRESETS;
+
+export const isBoardPresetId = (value: unknown): value is BoardPresetId =>
+  typeof value === "string" &&
+  Object.prototype.hasOwnProperty.call(BOARD_PRESETS, value);
+
+export const boardPositionToTile = (
+  position: BoardSquarePosition,
+  geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
+): string =>
+  `${BOARD_FILE_LETTERS[position.col] ?? "?"}${geometry.ranks - position.row}`;
+
+/** Position of a square name, or null when it lies outside the geometry. */
+export const boardTileToPosition = (
+  tile: string,
+  geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
+): BoardSquarePosition | null => {
+  if (typeof tile !== "string" || !BOARD_TILE_PATTERN.test(tile)) return null;
+  const col = BOARD_FILE_LETTERS.indexOf(tile[0]);
+  const row = geometry.ranks - Number(tile.slice(1));
+  return isOnBoard({ row, col }, geometry) ? { row, col } : null;
+};
+
+export const isOnBoard = (
+  position: BoardSquarePosition,
+  geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
+): boolean =>
+  Number.isInteger(position.row) &&
+  Number.isInteger(position.col) &&
+  position.row >= 0 &&
+  position.row < geometry.ranks &&
+  position.col >= 0 &&
+  position.col < geometry.files;
+
+export const isBoardHole = (
+  position: BoardSquarePosition,
+  geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
+): boolean =>
+  geometry.holes.length > 0 &&
+  geometry.holes.includes(boardPositionToTile(position, geometry));
+
+/** Whether a piece may stand on the square. */
+export const isPlayableSquare = (
+  position: BoardSquarePosition,
+  geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
+): boolean => isOnBoard(position, geometry) && !isBoardHole(position, geometry);
+
+/**
+ * Maps a step target onto the board: wraps the file on a cylinder, then
+ * returns null when the square is off the board or a hole.
+ */
+export const resolveBoardPosition = (
+  position: BoardSquarePosition,
+  geometry: BoardGeometry = STANDARD_BOARD_GEOMETRY,
+): BoardSquarePosition | null => {
+  const resolved = geometry.wrapFiles
+    ? {
+        row: position.row,
+        col:
+          ((position.col % geometry.files) + geometry.files) % geometry.files,
+      }
+    : position;
+  return isPlayableSquare(resolved, geometry) ? resolved : null;
+};
+
+/** Boards with fewer than eight ranks drop castling and the pawn double step. */
+export const allowsOpeningPawnDoubleStep = (geometry: BoardGeometry): boolean =>
+  geometry.ranks >= 8;
+
+export const allowsCastling = (geometry: BoardGeometry): boolean =>
+  geometry.ranks >= 8;
+
+export const isStandardBoardGeometry = (
+  geometry: BoardGeometry | null | undefined,
+): boolean =>
+  !geometry ||
+  (geometry.files === 8 &&
+    geometry.ranks === 8 &&
+    geometry.holes.length === 0 &&
+    !geometry.wrapFiles);
+
+/** GameState geometry: omitted for 8×8 so standard saves keep their shape. */
+export const boardGeometryForGame = (
+  geometry: BoardGeometry,
+): BoardGeometry | undefined =>
+  isStandardBoardGeometry(geometry)
+    ? undefined
+    : {
+        files: geometry.files,
+        ranks: geometry.ranks,
+        holes: [...geometry.holes],
+        wrapFiles: geometry.wrapFiles,
+      };
+
+export const isStandardBoardLayout = (layout: BoardLayout): boolean =>
+  isStandardBoardGeometry(layout) &&
+  layout.backRank.every((piece, index) => piece === STANDARD_BACK_RANK[index]);
+
+/** Definition of a fairy piece the back rank names; undefined for others. */
+export const backRankFairyPiece = (
+  layout: BoardLayout,
+  piece: BackRankPiece,
+): FairyPieceDefinition | undefined =>
+  isOrthodoxBackRankPiece(piece)
+    ? undefined
+    : layout.pieces?.find((definition) => definition.id === piece);
+
+export const sameBoardLayout = (left: BoardLayout, right: BoardLayout) =>
+  left.files === right.files &&
+  left.ranks === right.ranks &&
+  left.wrapFiles === right.wrapFiles &&
+  left.holes.length === right.holes.length &&
+  left.holes.every((hole) => right.holes.includes(hole)) &&
+  left.backRank.length === right.backRank.length &&
+  left.backRank.every((piece, index) => {
+    if (piece !== right.backRank[index]) return false;
+    const leftFairy = backRankFairyPiece(left, piece);
+    const rightFairy = backRankFairyPiece(right, piece);
+    return leftFairy && rightFairy
+      ? sameFairyPiece(leftFairy, rightFairy)
+      : leftFairy === rightFairy;
+  });
+
+/** Plain-language problems with a layout; empty when it can be played. */
+export function describeBoardLayoutIssues(layout: BoardLayout): string[] {
+  const issues: string[] = [];
+  for (const [name, size] of [
+    ["files", layout.files],
+    ["ranks", layout.ranks],
+  ] as const) {
+    if (
+      !Number.isInteger(size) ||
+      size < MIN_BOARD_SIZE ||
+      size > MAX_BOARD_SIZE
+    ) {
+      issues.push(
+        `${name} doit être un entier entre ${MIN_BOARD_SIZE} et ${MAX_BOARD_SIZE}.`,
+      );
+    }
+  }
+  if (issues.length > 0) return issues;
+
+  if (layout.backRank.length !== layout.files) {
+    issues.push(
+      `La rangée de départ doit compter ${layout.files} pièces, une par colonne.`,
+    );
+  }
+  if (layout.backRank.filter((piece) => piece === "king").length !== 1) {
+    issues.push("La rangée de départ doit contenir exactement un roi.");
+  }
+  for (const piece of new Set(layout.backRank)) {
+    if (!isOrthodoxBackRankPiece(piece) && !backRankFairyPiece(layout, piece)) {
+      issues.push(
+        `La pièce ${piece} de la rangée de départ n'est pas déclarée.`,
+      );
+    }
+  }
+  if (layout.holes.length > MAX_BOARD_HOLES) {
+    issues.push(
+      `Un plateau ne peut pas avoir plus de ${MAX_BOARD_HOLES} trous.`,
+    );
+  }
+  if (new Set(layout.holes).size !== layout.holes.length) {
+    issues.push("Un trou est déclaré plusieurs fois.");
+  }
+
+  const startRows = new Set([0, 1, layout.ranks - 2, layout.ranks - 1]);
+  for (const hole of layout.holes) {
+    const position = boardTileToPosition(hole, layout);
+    if (!position) {
+      issues.push(`Le trou ${hole} est hors du plateau.`);
+    } else if (startRows.has(position.row)) {
+      issues.push(`Le trou ${hole} occupe une case de départ.`);
+    }
+  }
+  return issues;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Reads a stored layout (`RuleJSON.board`); null when absent or unplayable. */
+export function parseBoardLayout(value: unknown): BoardLayout | null {
+  if (!isRecord(value)) return null;
+  const { files, ranks, holes, wrapFiles, backRank } = value;
+  if (
+    typeof files !== "number" ||
+    typeof ranks !== "number" ||
+    typeof wrapFiles !== "boolean" ||
+    !Array.isArray(holes) ||
+    !holes.every((hole) => typeof hole === "string") ||
+    !Array.isArray(backRank) ||
+    !backRank.every((piece) => typeof piece === "string")
+  ) {
+    return null;
+  }
+  const pieces = parseFairyPieces(value.pieces);
+  const layout: BoardLayout = {
+    files,
+    ranks,
+    holes: [...holes],
+    wrapFiles,
+    backRank: [...backRank],
+    ...(pieces.length > 0 ? { pieces } : {}),
+  };
+  return describeBoardLayoutIssues(layout).length === 0 ? layout : null;
+}
+
+/**
+ * FEN of the starting position. Holes are written `*` and empty runs may be
+ * longer than 9 (`10`, `12`), so only geometry-aware readers accept it.
+ */
+export function createStartFen(layout: BoardLayout): string {
+  const rows: string[] = [];
+  for (let row = 0; row < layout.ranks; row += 1) {
+    let text = "";
+    let empty = 0;
+    for (let col = 0; col < layout.files; col += 1) {
+      const color = row >= layout.ranks - 2 ? "white" : "black";
+      let token: string | null = null;
+      if (isBoardHole({ row, col }, layout)) {
+        token = "*";
+      } else if (row === 0 || row === layout.ranks - 1) {
+        const type = layout.backRank[col];
+        token = pieceFenLetter({
+          type,
+          color,
+          fairy: backRankFairyPiece(layout, type),
+        });
+      } else if (row === 1 || row === layout.ranks - 2) {
+        token = pieceFenLetter({ type: "pawn", color });
+      }
+      if (token === null) {
+        empty += 1;
+        continue;
+      }
+      if (empty > 0) text += String(empty);
+      empty = 0;
+      text += token;
+    }
+    if (empty > 0) text += String(empty);
+    rows.push(text);
+  }
+
+  // Same rights as a position read back from the board: one per corner rook.
+  const rights = `${layout.backRank[layout.files - 1] === "rook" ? "K" : ""}${
+    layout.backRank[0] === "rook" ? "Q" : ""
+  }`;
+  const castling =
+    allowsCastling(layout) && rights ? rights + rights.toLowerCase() : "-";
+  return `${rows.join("/")} w ${castling} - 0 1`;
+}
+
+export const compileBoardLayout = (
+  layout: BoardLayout,
+): CompiledBoardLayout => {
+  const pieces = (layout.pieces ?? []).filter((definition) =>
+    layout.backRank.includes(definition.id),
+  );
+  return {
+    files: layout.files,
+    ranks: layout.ranks,
+    holes: [...layout.holes],
+    wrapFiles: layout.wrapFiles,
+    backRank: [...layout.backRank],
+    ...(pieces.length > 0 ? { pieces } : {}),
+    startFen: createStartFen(layout),
+  };
+};
+
+/**
+ * Board of a rule set: the first rule that declares a playable board wins,
+ * matching the ordinal order the server uses to pick the starting FEN.
+ */
+export function resolveRulesBoardLayout(
+  rules: readonly unknown[],
+): BoardLayout | null {
+  for (const rule of rules) {
+    const layout = isRecord(rule) ? parseBoardLayout(rule.board) : null;
+    if (layout) return layout;
+  }
+  return null;
+}
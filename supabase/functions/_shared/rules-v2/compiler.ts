@@ -1,6 +1,7 @@
 import {
   CONDITION_CATALOG,
   EFFECT_CATALOG,
+  EVENT_CATALOG,
   PROVIDER_CATALOG,
   SAFE_TOKENS,
   STATE_PATH_PATTERN,
@@ -8,8 +9,20 @@ import {
   type OperationSpec,
 } from "./catalog.ts";
 import { validateBlueprintShape } from "./schema.ts";
+import {
+  STANDARD_BOARD_LAYOUT,
+  boardPositionToTile,
+  boardTileToPosition,
+  compileBoardLayout,
+  describeBoardLayoutIssues,
+  isPlayableSquare,
+  isStandardBoardLayout,
+  type BoardGeometry,
+} from "./board-geometry.ts";
+import { describeFairyPieceIssues } from "./fairy-pieces.ts";
 import {
   ENGINE_VERSION,
+  PIECE_TYPES,
   RULE_SCHEMA_VERSION,
   type BlueprintCondition,
   type BlueprintEffect,
@@ -17,6 +30,7 @@ import {
   type CompilationResult,
   type LegacyRuleJSON,
   type RuleArgument,
+  type BlueprintFairyPiece,
   type RuleBlueprintV2,
   type RuleDiagnostic,
 } from "./types.ts";
@@ -30,7 +44,6 @@ const emptyMetrics = (): CompilationMetrics => ({
   actionCount: 0,
 });
 
-const BOARD_TILE_PATTERN = /^[a-h][1-8]$/;
 const STATUS_KEY_PATTERN = /^[a-z][a-z0-9_-]{0,39}$/;
 const ASSET_ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,79}$/;
 const ACTION_ID_PATTERN = /^[a-z][a-z0-9-]{1,39}$/;
@@ -101,6 +114,8 @@ function validateSemanticArgument(
   value: unknown,
   path: string,
   diagnostics: RuleDiagnostic[],
+  geometry: BoardGeometry,
+  fairyPieceIds: ReadonlySet<string>,
 ): boolean {
   const fail = (code: string, message: string): false => {
     pushDiagnostic(diagnostics, code, "error", path, message);
@@ -121,10 +136,12 @@ function validateSemanticArgument(
   }
 
   if (argument.name === "tile" || argument.name === "to") {
+    const position =
+      argument.kind === "string" && typeof value === "string"
+        ? boardTileToPosition(value, geometry)
+        : null;
     const validLiteral =
-      argument.kind === "string" &&
-      typeof value === "string" &&
-      BOARD_TILE_PATTERN.test(value);
+      position !== null && isPlayableSquare(position, geometry);
     const validToken =
       argument.kind === "token" &&
       typeof value === "string" &&
@@ -133,7 +150,7 @@ function validateSemanticArgument(
     if (!validLiteral && !validToken) {
       return fail(
         "TILE_REFERENCE_INVALID",
-        `${argument.name} doit être une case a1-h8 ou une référence de case autorisée.`,
+        `${argument.name} doit être une case jouable a1-${boardPositionToTile({ row: 0, col: geometry.files - 1 }, geometry)} ou une référence de case autorisée.`,
       );
     }
   }
@@ -157,11 +174,12 @@ function validateSemanticArgument(
   if (
     operation === "piece.spawn" &&
     argument.name === "type" &&
-    (typeof value !== "string" || !SPAWNABLE_PIECES.has(value))
+    (typeof value !== "string" ||
+      (!SPAWNABLE_PIECES.has(value) && !fairyPieceIds.has(value)))
   ) {
     return fail(
       "SPAWN_PIECE_TYPE_INVALID",
-      "Le moteur IA ne peut faire apparaître qu'un pion, cavalier, fou, tour ou dame.",
+      "Le moteur IA ne peut faire apparaître qu'un pion, cavalier, fou, tour, dame ou une pièce déclarée dans pieces.",
     );
   }
 
@@ -256,6 +274,8 @@ function validateArguments(
   spec: OperationSpec,
   path: string,
   diagnostics: RuleDiagnostic[],
+  geometry: BoardGeometry,
+  fairyPieceIds: ReadonlySet<string>,
 ): Record<string, unknown> {
   const result: Record<string, unknown> = {};
   const declared = new Set(Object.keys(spec.args));
@@ -356,6 +376,8 @@ function validateArguments(
         value,
         argumentPath,
         diagnostics,
+        geometry,
+        fairyPieceIds,
       )
     ) {
       continue;
@@ -386,6 +408,8 @@ function compileCondition(
   path: string,
   diagnostics: RuleDiagnostic[],
   ruleKey: string,
+  geometry: BoardGeometry,
+  fairyPieceIds: ReadonlySet<string>,
 ): unknown {
   const params = validateArguments(
     condition.op,
@@ -393,6 +417,8 @@ function compileCondition(
     CONDITION_CATALOG[condition.op],
     path,
     diagnostics,
+    geometry,
+    fairyPieceIds,
   );
 
   if (
@@ -413,6 +439,8 @@ function compileEffect(
   path: string,
   diagnostics: RuleDiagnostic[],
   ruleKey: string,
+  geometry: BoardGeometry,
+  fairyPieceIds: ReadonlySet<string>,
 ): { action: BlueprintEffect["op"]; params?: Record<string, unknown> } {
   const params = validateArguments(
     effect.op,
@@ -420,6 +448,8 @@ function compileEffect(
     EFFECT_CATALOG[effect.op],
     path,
     diagnostics,
+    geometry,
+    fairyPieceIds,
   );
 
   if (effect.op === "cooldown.set" && typeof params.actionId === "string") {
@@ -504,7 +534,9 @@ function analyzeBlueprint(
       trigger.event === "ui.action"
         ? actionsById.get(trigger.actionId)
         : undefined;
-    const availableTokens = new Set<string>(["$ctx.side"]);
+    const eventSpec =
+      trigger.event === "ui.action" ? undefined : EVENT_CATALOG[trigger.event];
+    const availableTokens = new Set<string>(eventSpec?.tokens ?? ["$ctx.side"]);
 
     if (trigger.event === "ui.action") {
       if (referencedAction?.requiresSelection) {
@@ -520,27 +552,6 @@ function analyzeBlueprint(
         availableTokens.add("$targetPieceId");
         availableTokens.add("$ctx.targetPieceId");
       }
-    } else if (
-      trigger.event === "lifecycle.onEnterTile" ||
-      trigger.event === "lifecycle.onMoveCommitted"
-    ) {
-      for (const token of [
-        "$pieceId",
-        "$ctx.pieceId",
-        "$sourceTile",
-        "$targetTile",
-        "$ctx.targetTile",
-        "$ctx.to",
-      ]) {
-        availableTokens.add(token);
-      }
-      if (trigger.event === "lifecycle.onMoveCommitted") {
-        availableTokens.add("$ctx.from");
-      }
-    } else if (trigger.event === "lifecycle.onPromote") {
-      for (const token of ["$pieceId", "$ctx.pieceId", "$sourceTile"]) {
-        availableTokens.add(token);
-      }
     }
 
     for (const [conditionIndex, condition] of trigger.conditions.entries()) {
@@ -587,10 +598,9 @@ function analyzeBlueprint(
       );
     if (
       needsSourcePiece &&
-      ((trigger.event === "ui.action" &&
-        !referencedAction?.requiresSelection) ||
-        trigger.event === "lifecycle.onTurnStart" ||
-        trigger.event === "lifecycle.onUndo")
+      (eventSpec
+        ? !eventSpec.sourcePiece
+        : !referencedAction?.requiresSelection)
     ) {
       pushDiagnostic(
         diagnostics,
@@ -625,12 +635,7 @@ function analyzeBlueprint(
       ),
     );
 
-    if (
-      targetTileTokens &&
-      !hasTargetTileGuard &&
-      trigger.event !== "lifecycle.onEnterTile" &&
-      trigger.event !== "lifecycle.onMoveCommitted"
-    ) {
+    if (targetTileTokens && !hasTargetTileGuard && !eventSpec?.targetTile) {
       pushDiagnostic(
         diagnostics,
         "TARGET_TILE_NOT_GUARDED",
@@ -640,7 +645,7 @@ function analyzeBlueprint(
       );
     }
 
-    if (targetPieceTokens && !hasTargetPieceGuard) {
+    if (targetPieceTokens && !hasTargetPieceGuard && !eventSpec?.targetPiece) {
       pushDiagnostic(
         diagnostics,
         "TARGET_PIECE_NOT_GUARDED",
@@ -694,7 +699,8 @@ function analyzeBlueprint(
     }
 
     if (
-      trigger.event === "lifecycle.onTurnStart" &&
+      (trigger.event === "lifecycle.onTurnStart" ||
+        trigger.event === "lifecycle.onTurnEnd") &&
       highImpactEffects.length > 0 &&
       !hasTurnGuard
     ) {
@@ -704,7 +710,7 @@ function analyzeBlueprint(
         "UNBOUNDED_TURN_START_EFFECT",
         "warning",
         triggerPath,
-        "Un effet fort est déclenché à chaque début de tour sans garde d'état ou de numéro de tour.",
+        "Un effet fort est déclenché à chaque début ou fin de tour sans garde d'état ou de numéro de tour.",
       );
     }
 
@@ -865,6 +871,68 @@ function analyzeBlueprint(
   };
 }
 
+/**
+ * Returns the declared fairy pieces that are playable and reports the ones
+ * that are not, along with piece scopes naming an undeclared id.
+ */
+function compileFairyPieces(
+  blueprint: RuleBlueprintV2,
+  diagnostics: RuleDiagnostic[],
+): BlueprintFairyPiece[] {
+  const pieces: BlueprintFairyPiece[] = [];
+  const ids = new Set<string>();
+  const glyphs = new Set<string>();
+
+  (blueprint.pieces ?? []).forEach((piece, index) => {
+    const path = `$.pieces[${index}]`;
+    const issues = describeFairyPieceIssues(piece);
+    for (const issue of issues) {
+      pushDiagnostic(diagnostics, "FAIRY_PIECE_INVALID", "error", path, issue);
+    }
+    if (ids.has(piece.id)) {
+      pushDiagnostic(
+        diagnostics,
+        "FAIRY_PIECE_DUPLICATE",
+        "error",
+        `${path}.id`,
+        `La pièce ${piece.id} est déclarée deux fois.`,
+      );
+    } else if (glyphs.has(piece.glyph)) {
+      pushDiagnostic(
+        diagnostics,
+        "FAIRY_PIECE_DUPLICATE",
+        "error",
+        `${path}.glyph`,
+        `Le glyphe ${piece.glyph} est déjà utilisé par une autre pièce.`,
+      );
+    } else if (issues.length === 0) {
+      pieces.push(piece);
+    }
+    ids.add(piece.id);
+    glyphs.add(piece.glyph);
+  });
+
+  const checkScope = (scope: readonly string[], path: string) => {
+    for (const piece of scope) {
+      if (!PIECE_TYPES.includes(piece as never) && !ids.has(piece)) {
+        pushDiagnostic(
+          diagnostics,
+          "FAIRY_PIECE_UNKNOWN",
+          "error",
+          path,
+          `La pièce ${piece} n'est pas déclarée dans pieces.`,
+        );
+      }
+    }
+  };
+  checkScope(blueprint.affectedPieces, "$.affectedPieces");
+  blueprint.actions.forEach((action, index) =>
+    checkScope(action.pieceTypes, `$.actions[${index}].pieceTypes`),
+  );
+
+  return pieces;
+}
+
 export function compileRuleBlueprint(input: unknown): CompilationResult {
   const shape = validateBlueprintShape(input);
   const diagnostics = [...shape.diagnostics];
@@ -881,6 +949,22 @@ export function compileRuleBlueprint(input: unknown): CompilationResult {
 
   const blueprint = shape.value;
   const metrics = analyzeBlueprint(blueprint, diagnostics);
+  const pieces = compileFairyPieces(blueprint, diagnostics);
+  const fairyPieceIds = new Set(pieces.map((piece) => piece.id));
+  const board = blueprint.board
+    ? { ...blueprint.board, pieces }
+    : STANDARD_BOARD_LAYOUT;
+  const boardIssues = describeBoardLayoutIssues(board);
+  for (const issue of boardIssues) {
+    pushDiagnostic(
+      diagnostics,
+      "BOARD_LAYOUT_INVALID",
+      "error",
+      "$.board",
+      issue,
+    );
+  }
+  const geometry = boardIssues.length === 0 ? board : STANDARD_BOARD_LAYOUT;
   const initialState = JSON.parse(blueprint.initialStateJson) as Record<
     string,
     unknown
@@ -925,6 +1009,8 @@ export function compileRuleBlueprint(input: unknown): CompilationResult {
         `$.triggers[${triggerIndex}].conditions[${conditionIndex}]`,
         diagnostics,
         blueprint.ruleKey,
+        geometry,
+        fairyPieceIds,
       ),
     );
     const effects = trigger.effects.map((effect, effectIndex) =>
@@ -933,6 +1019,8 @@ export function compileRuleBlueprint(input: unknown): CompilationResult {
         `$.triggers[${triggerIndex}].effects[${effectIndex}]`,
         diagnostics,
         blueprint.ruleKey,
+        geometry,
+        fairyPieceIds,
       ),
     );
 
@@ -989,6 +1077,10 @@ export function compileRuleBlueprint(input: unknown): CompilationResult {
     logic: {
       effects: compiledSteps,
     },
+    ...(isStandardBoardLayout(board) || boardIssues.length > 0
+      ? {}
+      : { board: compileBoardLayout(board) }),
+    ...(pieces.length > 0 ? { pieces } : {}),
     integration: {
       ruleArchitect: {
         schemaVersion: RULE_SCHEMA_VERSION,
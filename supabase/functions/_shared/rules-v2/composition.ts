@@ -0,0 +1,391 @@
+import { validateBlueprintShape } from "./schema.ts";
+import { isStandardBoardLayout, sameBoardLayout } from "./board-geometry.ts";
+import { sameFairyPiece, type FairyPieceDefinition } from "./fairy-pieces.ts";
+import type {
+  BlueprintEffect,
+  BlueprintTrigger,
+  EffectOp,
+  PieceScope,
+  RuleBlueprintV2,
+  RuleDiagnostic,
+  RuleEvent,
+  Side,
+} from "./types.ts";
+
+const STATUS_WRITE_OPS = new Set<EffectOp>([
+  "piece.setStatus",
+  "piece.clearStatus",
+  "status.add",
+  "status.remove",
+]);
+
+const STATUS_READ_OPS = new Set<string>([
+  "piece.hasStatus",
+  "target.hasStatus",
+]);
+
+/** Effects whose outcome depends on what an earlier rule did to the board. */
+const BOARD_MUTATION_OPS = new Set<EffectOp>([
+  "piece.capture",
+  "piece.move",
+  "piece.spawn",
+  "piece.promote",
+  "piece.duplicate",
+  "tile.setTrap",
+  "tile.clearTrap",
+  "tile.resolveTrap",
+  ...STATUS_WRITE_OPS,
+]);
+
+const MOVEMENT_CATEGORIES = new Set(["movement", "restriction"]);
+
+const TURN_GUARD_OPS = new Set<string>([
+  "match.turnNumber.atLeast",
+  "match.turnNumber.lessThan",
+  "state.lessThan",
+  "state.equals",
+]);
+
+interface LifecycleHook {
+  ruleIndex: number;
+  triggerIndex: number;
+  trigger: BlueprintTrigger;
+}
+
+function pushDiagnostic(
+  diagnostics: RuleDiagnostic[],
+  code: string,
+  severity: RuleDiagnostic["severity"],
+  path: string,
+  message: string,
+): void {
+  diagnostics.push({ code, severity, path, message });
+}
+
+const rulePath = (ruleIndex: number): string => `$.rules[${ruleIndex}]`;
+
+const triggerPath = (hook: LifecycleHook): string =>
+  `${rulePath(hook.ruleIndex)}.triggers[${hook.triggerIndex}]`;
+
+const quote = (blueprint: RuleBlueprintV2): string => `« ${blueprint.title} »`;
+
+const sidesOverlap = (left: Side[], right: Side[]): boolean =>
+  left.some((side) => right.includes(side));
+
+const sharedPieces = (
+  left: PieceScope[],
+  right: PieceScope[],
+): PieceScope[] => {
+  if (left.includes("any")) return right;
+  if (right.includes("any")) return left;
+  return left.filter((piece) => right.includes(piece));
+};
+
+const rulePriority = (blueprint: RuleBlueprintV2): number =>
+  Math.max(0, ...blueprint.triggers.map((trigger) => trigger.priority));
+
+const statusKey = (effect: { arguments: BlueprintEffect["arguments"] }) =>
+  effect.arguments.find((argument) => argument.name === "key")?.stringValue;
+
+const endsTurn = (trigger: BlueprintTrigger): boolean =>
+  trigger.effects.some((effect) => effect.op === "turn.end");
+
+const mutatesBoard = (trigger: BlueprintTrigger): boolean =>
+  trigger.effects.some((effect) => BOARD_MUTATION_OPS.has(effect.op));
+
+const hasTurnGuard = (trigger: BlueprintTrigger): boolean =>
+  trigger.conditions.some((condition) => TURN_GUARD_OPS.has(condition.op));
+
+function checkNamespaces(
+  blueprints: RuleBlueprintV2[],
+  diagnostics: RuleDiagnostic[],
+): void {
+  const owners = new Map<string, number>();
+  for (const [ruleIndex, blueprint] of blueprints.entries()) {
+    const first = owners.get(blueprint.stateNamespace);
+    if (first === undefined) {
+      owners.set(blueprint.stateNamespace, ruleIndex);
+      continue;
+    }
+    pushDiagnostic(
+      diagnostics,
+      "STATE_NAMESPACE_COLLISION",
+      "warning",
+      `${rulePath(ruleIndex)}.stateNamespace`,
+      `${quote(blueprint)} et ${quote(blueprints[first])} déclarent le même espace d'état « ${blueprint.stateNamespace} » : le moteur range l'état de chaque règle à part, leurs compteurs ne sont pas partagés.`,
+    );
+  }
+
+  const writers = new Map<string, Set<number>>();
+  const readers = new Map<string, Set<number>>();
+  const track = (
+    index: Map<string, Set<number>>,
+    key: string | undefined,
+    ruleIndex: number,
+  ) => {
+    if (!key) return;
+    const rules = index.get(key) ?? new Set<number>();
+    rules.add(ruleIndex);
+    index.set(key, rules);
+  };
+  for (const [ruleIndex, blueprint] of blueprints.entries()) {
+    for (const trigger of blueprint.triggers) {
+      for (const effect of trigger.effects) {
+        if (STATUS_WRITE_OPS.has(effect.op)) {
+          track(writers, statusKey(effect), ruleIndex);
+        }
+      }
+      for (const condition of trigger.conditions) {
+        if (STATUS_READ_OPS.has(condition.op)) {
+          track(readers, statusKey(condition), ruleIndex);
+        }
+      }
+    }
+  }
+  for (const [key, writingRules] of [...writers].sort(([left], [right]) =>
+    left.localeCompare(right),
+  )) {
+    const involved = new Set([...writingRules, ...(readers.get(key) ?? [])]);
+    if (involved.size < 2) continue;
+    const ruleIndexes = [...involved].sort((left, right) => left - right);
+    const titles = ruleIndexes
+      .map((ruleIndex) => quote(blueprints[ruleIndex]))
+      .join(", ");
+    pushDiagnostic(
+      diagnostics,
+      "SHARED_STATUS_KEY",
+      "warning",
+      rulePath(ruleIndexes[1]),
+      `Le statut « ${key} » est utilisé par ${titles} : les statuts des pièces sont communs à toutes les règles.`,
+    );
+  }
+}
+
+function checkActionIds(
+  blueprints: RuleBlueprintV2[],
+  diagnostics: RuleDiagnostic[],
+): void {
+  const owners = new Map<string, number>();
+  for (const [ruleIndex, blueprint] of blueprints.entries()) {
+    for (const [actionIndex, action] of blueprint.actions.entries()) {
+      const compiledId = `${blueprint.ruleKey}.${action.id}`;
+      const first = owners.get(compiledId);
+      if (first === undefined) {
+        owners.set(compiledId, ruleIndex);
+        continue;
+      }
+      pushDiagnostic(
+        diagnostics,
+        "DUPLICATE_ACTION_ID",
+        "error",
+        `${rulePath(ruleIndex)}.actions[${actionIndex}].id`,
+        `L'action « ${compiledId} » est déjà proposée par ${quote(blueprints[first])} : deux versions d'une même règle ne peuvent pas être chargées ensemble.`,
+      );
+    }
+  }
+}
+
+/** A lobby has one board: two rules may not each ask for a different one. */
+function checkBoards(
+  blueprints: RuleBlueprintV2[],
+  diagnostics: RuleDiagnostic[],
+): void {
+  let firstIndex: number | null = null;
+  for (const [ruleIndex, blueprint] of blueprints.entries()) {
+    const board = blueprint.board;
+    if (!board || isStandardBoardLayout(board)) continue;
+    if (firstIndex === null) {
+      firstIndex = ruleIndex;
+      continue;
+    }
+    const first = blueprints[firstIndex];
+    if (first.board && sameBoardLayout(first.board, board)) continue;
+    pushDiagnostic(
+      diagnostics,
+      "BOARD_GEOMETRY_CONFLICT",
+      "error",
+      `${rulePath(ruleIndex)}.board`,
+      `${quote(first)} et ${quote(blueprint)} demandent des plateaux différents : un lobby ne se joue que sur un seul plateau.`,
+    );
+  }
+}
+
+function checkFairyPieces(
+  blueprints: RuleBlueprintV2[],
+  diagnostics: RuleDiagnostic[],
+): void {
+  const byId = new Map<string, [number, FairyPieceDefinition]>();
+  const byGlyph = new Map<string, [number, FairyPieceDefinition]>();
+  for (const [ruleIndex, blueprint] of blueprints.entries()) {
+    for (const [pieceIndex, piece] of (blueprint.pieces ?? []).entries()) {
+      const sameId = byId.get(piece.id);
+      const sameGlyph = byGlyph.get(piece.glyph);
+      const clash =
+        sameId && !sameFairyPiece(sameId[1], piece)
+          ? sameId
+          : sameGlyph && sameGlyph[1].id !== piece.id
+            ? sameGlyph
+            : null;
+      if (clash) {
+        pushDiagnostic(
+          diagnostics,
+          "FAIRY_PIECE_CONFLICT",
+          "error",
+          `${rulePath(ruleIndex)}.pieces[${pieceIndex}]`,
+          `${quote(blueprints[clash[0]])} et ${quote(blueprint)} déclarent différemment la pièce ${piece.id} (glyphe ${piece.glyph}) : une partie ne peut avoir qu'une définition par pièce et par glyphe.`,
+        );
+        continue;
+      }
+      if (!sameId) byId.set(piece.id, [ruleIndex, piece]);
+      if (!sameGlyph) byGlyph.set(piece.glyph, [ruleIndex, piece]);
+    }
+  }
+}
+
+function checkMovement(
+  blueprints: RuleBlueprintV2[],
+  diagnostics: RuleDiagnostic[],
+): void {
+  for (const [rightIndex, right] of blueprints.entries()) {
+    if (!MOVEMENT_CATEGORIES.has(right.category)) continue;
+    for (const left of blueprints.slice(0, rightIndex)) {
+      if (!MOVEMENT_CATEGORIES.has(left.category)) continue;
+      if (!sidesOverlap(left.sides, right.sides)) continue;
+      const pieces = sharedPieces(left.affectedPieces, right.affectedPieces);
+      if (pieces.length === 0) continue;
+      pushDiagnostic(
+        diagnostics,
+        "CONTRADICTORY_MOVEMENT",
+        "warning",
+        `${rulePath(rightIndex)}.affectedPieces`,
+        `${quote(left)} et ${quote(right)} modifient tous deux le déplacement de : ${pieces.join(", ")}.`,
+      );
+    }
+  }
+}
+
+function checkLifecycleHooks(
+  blueprints: RuleBlueprintV2[],
+  diagnostics: RuleDiagnostic[],
+): void {
+  const hooksByEvent = new Map<RuleEvent, LifecycleHook[]>();
+  for (const [ruleIndex, blueprint] of blueprints.entries()) {
+    for (const [triggerIndex, trigger] of blueprint.triggers.entries()) {
+      if (trigger.event === "ui.action") continue;
+      const hooks = hooksByEvent.get(trigger.event) ?? [];
+      hooks.push({ ruleIndex, triggerIndex, trigger });
+      hooksByEvent.set(trigger.event, hooks);
+    }
+  }
+
+  for (const [event, hooks] of hooksByEvent) {
+    for (const [position, hook] of hooks.entries()) {
+      const earlier = hooks
+        .slice(0, position)
+        .find(
+          (other) =>
+            other.ruleIndex !== hook.ruleIndex &&
+            sidesOverlap(
+              blueprints[other.ruleIndex].sides,
+              blueprints[hook.ruleIndex].sides,
+            ),
+        );
+      if (!earlier) continue;
+
+      const left = blueprints[earlier.ruleIndex];
+      const right = blueprints[hook.ruleIndex];
+      if (endsTurn(earlier.trigger) && endsTurn(hook.trigger)) {
+        pushDiagnostic(
+          diagnostics,
+          "CONFLICTING_TURN_END",
+          "error",
+          triggerPath(hook),
+          `${quote(left)} et ${quote(right)} terminent tous deux le tour sur ${event}.`,
+        );
+      } else if (
+        (mutatesBoard(earlier.trigger) || endsTurn(earlier.trigger)) &&
+        (mutatesBoard(hook.trigger) || endsTurn(hook.trigger))
+      ) {
+        const leftPriority = rulePriority(left);
+        const rightPriority = rulePriority(right);
+        pushDiagnostic(
+          diagnostics,
+          "ORDER_SENSITIVE_EFFECTS",
+          "warning",
+          triggerPath(hook),
+          leftPriority === rightPriority
+            ? `${quote(left)} et ${quote(right)} modifient le plateau sur ${event} avec la même priorité : leur ordre dépend de l'identifiant des versions.`
+            : `${quote(left)} et ${quote(right)} modifient le plateau sur ${event} : ${quote(leftPriority > rightPriority ? left : right)} s'exécute en premier.`,
+        );
+      } else {
+        pushDiagnostic(
+          diagnostics,
+          "OVERLAPPING_TRIGGERS",
+          "info",
+          triggerPath(hook),
+          `${quote(left)} et ${quote(right)} réagissent tous deux à ${event}.`,
+        );
+      }
+    }
+  }
+
+  // A turn ended as it starts hands the move to the other side; when other
+  // rules do the same for that side, nobody ever gets to move.
+  const skipped = new Map<Side, LifecycleHook>();
+  for (const hook of hooksByEvent.get("lifecycle.onTurnStart") ?? []) {
+    if (!endsTurn(hook.trigger) || hasTurnGuard(hook.trigger)) continue;
+    for (const side of blueprints[hook.ruleIndex].sides) {
+      if (!skipped.has(side)) skipped.set(side, hook);
+    }
+  }
+  const white = skipped.get("white");
+  const black = skipped.get("black");
+  if (white && black && white.ruleIndex !== black.ruleIndex) {
+    const last = white.ruleIndex > black.ruleIndex ? white : black;
+    pushDiagnostic(
+      diagnostics,
+      "UNBOUNDED_TURN_CHAIN",
+      "error",
+      triggerPath(last),
+      `${quote(blueprints[white.ruleIndex])} et ${quote(blueprints[black.ruleIndex])} terminent sans garde le tour de chaque camp dès qu'il commence : aucun coup ne peut plus être joué.`,
+    );
+  }
+}
+
+/**
+ * Static checks over the rules pinned together in one lobby. Each blueprint
+ * compiles on its own; this reports how they interfere once loaded together.
+ * Paths point into the lobby's ordered list, e.g. `$.rules[1].triggers[0]`.
+ */
+export function analyzeRuleComposition(
+  inputs: readonly unknown[],
+): RuleDiagnostic[] {
+  const diagnostics: RuleDiagnostic[] = [];
+  const blueprints: RuleBlueprintV2[] = [];
+
+  for (const [ruleIndex, input] of inputs.entries()) {
+    const shape = validateBlueprintShape(input);
+    if (!shape.value) {
+      pushDiagnostic(
+        diagnostics,
+        "INVALID_COMPOSED_BLUEPRINT",
+        "error",
+        rulePath(ruleIndex),
+        "Le blueprint de cette version n'est plus valide.",
+      );
+      continue;
+    }
+    blueprints.push(shape.value);
+  }
+  if (diagnostics.length > 0) {
+    return diagnostics;
+  }
+
+  checkActionIds(blueprints, diagnostics);
+  checkNamespaces(blueprints, diagnostics);
+  checkBoards(blueprints, diagnostics);
+  checkFairyPieces(blueprints, diagnostics);
+  checkMovement(blueprints, diagnostics);
+  checkLifecycleHooks(blueprints, diagnostics);
+  return diagnostics;
+}
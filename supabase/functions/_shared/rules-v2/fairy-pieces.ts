@@ -0,0 +1,508 @@
+/**
+ * Pieces declared by rule blueprints on top of the six orthodox ones. A piece
+ * moves by a Betza-style notation read left to right:
+ *
+ *   atoms    W (1,0) F (1,1) D (2,0) N (2,1) A (2,2) H (3,0) C (3,1) Z (3,2) G (3,3)
+ *   shorthands K = WF, R = WW, B = FF, Q = WWFF
+ *   riders   a doubled atom rides without limit (NN), a digit caps the ride (W3)
+ *   prefixes m moves only, c captures only, f/b forward/backward,
+ *            v/s mostly vertical/sideways, p hops one piece then rides on
+ *            (cannon), g lands right behind the hopped piece (grasshopper)
+ *
+ * Direction prefixes on one atom add up: `fsW` steps forward or sideways.
+ */
+
+export const MAX_FAIRY_PIECES = 4;
+export const MAX_BETZA_LENGTH = 24;
+export const MIN_FAIRY_PIECE_VALUE = 1;
+export const MAX_FAIRY_PIECE_VALUE = 15;
+
+export const FAIRY_PIECE_ID_PATTERN = /^[a-z][a-z0-9-]{2,29}$/;
+/** One capital letter, used as FEN letter and drawn on the generated glyph. */
+export const FAIRY_GLYPH_PATTERN = /^[A-Z]$/;
+
+/** Names the engine already gives a meaning to. */
+const RESERVED_PIECE_IDS = new Set([
+  "pawn",
+  "knight",
+  "bishop",
+  "rook",
+  "queen",
+  "king",
+  "any",
+  "fairy",
+]);
+const ORTHODOX_GLYPHS = "KQRBNP";
+
+export interface FairyPieceDefinition {
+  id: string;
+  /** Name shown to players. */
+  name: string;
+  betza: string;
+  glyph: string;
+  /** Material worth in pawns, used by the AI and the post-game review. */
+  value: number;
+}
+
+export const FAIRY_PIECE_PRESETS = {
+  archbishop: Object.freeze({
+    id: "archbishop",
+    name: "Archevêque",
+    betza: "BN",
+    glyph: "A",
+    value: 8,
+  }),
+  chancellor: Object.freeze({
+    id: "chancellor",
+    name: "Chancelier",
+    betza: "RN",
+    glyph: "C",
+    value: 9,
+  }),
+  camel: Object.freeze({
+    id: "camel",
+    name: "Chameau",
+    betza: "C",
+    glyph: "L",
+    value: 3,
+  }),
+  grasshopper: Object.freeze({
+    id: "grasshopper",
+    name: "Sauterelle",
+    betza: "gQ",
+    glyph: "G",
+    value: 2,
+  }),
+} as const satisfies Record<string, FairyPieceDefinition>;
+
+export type FairyMoveMode = "any" | "move" | "capture";
+export type FairyHop = "none" | "cannon" | "grasshopper";
+
+export interface FairyMove {
+  /** [forward, sideways] steps; forward points towards the opponent. */
+  offsets: ReadonlyArray<readonly [number, number]>;
+  /** Steps taken along one offset: 1 for a leap, 0 without limit. */
+  range: number;
+  mode: FairyMoveMode;
+  hop: FairyHop;
+}
+
+export type BetzaParseResult =
+  | { ok: true; moves: FairyMove[] }
+  | { ok: false; message: string };
+
+const ATOMS: Readonly<Record<string, readonly [number, number]>> = {
+  W: [1, 0],
+  F: [1, 1],
+  D: [2, 0],
+  N: [2, 1],
+  A: [2, 2],
+  H: [3, 0],
+  C: [3, 1],
+  Z: [3, 2],
+  G: [3, 3],
+};
+
+const SHORTHANDS: Readonly<Record<string, { atoms: string; rider: boolean }>> =
+  {
+    K: { atoms: "WF", rider: false },
+    R: { atoms: "W", rider: true },
+    B: { atoms: "F", rider: true },
+    Q: { atoms: "WF", rider: true },
+  };
+
+const PREFIXES = "mcfbvspg";
+
+/** The eight symmetric offsets of a leap, without duplicates. */
+const atomOffsets = ([long, short]: readonly [number, number]) => {
+  const offsets = new Map<string, readonly [number, number]>();
+  for (const [forward, sideways] of [
+    [long, short],
+    [short, long],
+  ]) {
+    for (const forwardSign of [1, -1]) {
+      for (const sidewaysSign of [1, -1]) {
+        const offset = [
+          forward * forwardSign,
+          sideways * sidewaysSign,
+        ] as const;
+        const key = `${offset[0]},${offset[1]}`;
+        if (!offsets.has(key)) offsets.set(key, offset);
+      }
+    }
+  }
+  return [...offsets.values()];
+};
+
+const matchesDirection = (
+  [forward, sideways]: readonly [number, number],
+  prefix: string,
+): boolean => {
+  switch (prefix) {
+    case "f":
+      return forward > 0;
+    case "b":
+      return forward < 0;
+    case "v":
+      return Math.abs(forward) > Math.abs(sideways);
+    case "s":
+      return Math.abs(sideways) > Math.abs(forward);
+    default:
+      return false;
+  }
+};
+
+/** Reads a movement notation; the message explains the first problem found. */
+export function parseBetza(notation: string): BetzaParseResult {
+  const fail = (message: string): BetzaParseResult => ({ ok: false, message });
+  if (
+    typeof notation !== "string" ||
+    notation.length === 0 ||
+    notation.length > MAX_BETZA_LENGTH
+  ) {
+    return fail(
+      `La notation de déplacement doit compter 1 à ${MAX_BETZA_LENGTH} caractères.`,
+    );
+  }
+
+  const token = /([a-z]*)([A-Z])(\2)?([1-9])?/y;
+  const moves: FairyMove[] = [];
+  let index = 0;
+  while (index < notation.length) {
+    token.lastIndex = index;
+    const match = token.exec(notation);
+    if (!match) {
+      return fail(
+        `Symbole « ${notation[index]} » inattendu en position ${index + 1}.`,
+      );
+    }
+    index = token.lastIndex;
+    const [part, prefixes, letter, doubled, count] = match;
+
+    const unknownPrefix = [...prefixes].find(
+      (prefix) => !PREFIXES.includes(prefix),
+    );
+    if (unknownPrefix) {
+      return fail(`Préfixe « ${unknownPrefix} » inconnu dans « ${part} ».`);
+    }
+    if (prefixes.includes("m") && prefixes.includes("c")) {
+      return fail(`« ${part} » ne peut pas être à la fois m et c.`);
+    }
+    if (prefixes.includes("p") && prefixes.includes("g")) {
+      return fail(`« ${part} » ne peut pas être à la fois p et g.`);
+    }
+
+    const shorthand = SHORTHANDS[letter];
+    if (!shorthand && !ATOMS[letter]) {
+      return fail(`Atome « ${letter} » inconnu.`);
+    }
+    if (shorthand && doubled) {
+      return fail(`${letter} ne peut pas être doublé.`);
+    }
+
+    const range = count ? Number(count) : doubled || shorthand?.rider ? 0 : 1;
+    if (range === 1 && (prefixes.includes("p") || prefixes.includes("g"))) {
+      return fail(`« ${part} » : p et g demandent un déplacement coulissant.`);
+    }
+
+    const directions = [...prefixes].filter((prefix) =>
+      "fbvs".includes(prefix),
+    );
+    const offsets = [...(shorthand?.atoms ?? letter)]
+      .flatMap((atom) => atomOffsets(ATOMS[atom]))
+      .filter(
+        (offset) =>
+          directions.length === 0 ||
+          directions.some((prefix) => matchesDirection(offset, prefix)),
+      );
+    if (offsets.length === 0) {
+      return fail(`« ${part} » ne laisse aucune direction.`);
+    }
+
+    moves.push({
+      offsets,
+      range,
+      mode: prefixes.includes("m")
+        ? "move"
+        : prefixes.includes("c")
+          ? "capture"
+          : "any",
+      hop: prefixes.includes("p")
+        ? "cannon"
+        : prefixes.includes("g")
+          ? "grasshopper"
+          : "none",
+    });
+  }
+  return { ok: true, moves };
+}
+
+const MOVES_CACHE = new Map<string, readonly FairyMove[]>();
+
+/** Parsed moves of a notation, cached; none for an invalid one. */
+export function fairyMoves(betza: string): readonly FairyMove[] {
+  const cached = MOVES_CACHE.get(betza);
+  if (cached) return cached;
+  const parsed = parseBetza(betza);
+  const moves = parsed.ok ? parsed.moves : [];
+  if (MOVES_CACHE.size >= 256) MOVES_CACHE.clear();
+  MOVES_CACHE.set(betza, moves);
+  return moves;
+}
+
+export interface FairySquare {
+  row: number;
+  col: number;
+}
+
+export type FairyOccupant = "empty" | "friend" | "enemy";
+
+export interface FairyMoveContext {
+  from: FairySquare;
+  /** White moves towards row 0, black towards the last row. */
+  color: "white" | "black";
+  /** Square one offset away: null off the board or on a hole. */
+  step: (from: FairySquare, dRow: number, dCol: number) => FairySquare | null;
+  occupant: (square: FairySquare) => FairyOccupant;
+  /** Longest ride along one offset, so a cylinder ray cannot loop. */
+  maxRange: number;
+  /**
+   * Attack maps leave out move-only steps and keep empty squares a capture
+   * could land on, like the pawn's diagonals.
+   */
+  purpose: "movement" | "attack";
+}
+
+/** Squares the moves reach from `context.from`. */
+export function fairyMoveTargets(
+  moves: readonly FairyMove[],
+  context: FairyMoveContext,
+): FairySquare[] {
+  const { from, step, occupant } = context;
+  const forwardRow = context.color === "white" ? -1 : 1;
+  const attack = context.purpose === "attack";
+  const targets = new Map<string, FairySquare>();
+
+  for (const move of moves) {
+    const canMove = move.mode !== "capture" && !attack;
+    const canCapture = move.mode !== "move";
+    const land = (square: FairySquare, seen: FairyOccupant) => {
+      if (seen === "friend") return;
+      if (seen === "enemy" ? canCapture : canMove || (attack && canCapture)) {
+        targets.set(`${square.row}.${square.col}`, square);
+      }
+    };
+    const limit = move.range === 0 ? context.maxRange : move.range;
+
+    for (const [forward, sideways] of move.offsets) {
+      const dRow = forward * forwardRow;
+      let current = step(from, dRow, sideways);
+      let hurdle = false;
+      for (let distance = 1; current && distance <= limit; distance++) {
+        // A ray that wraps all the way round a cylinder stops at its origin
+        if (current.row === from.row && current.col === from.col) break;
+
+        const seen = occupant(current);
+        if (move.hop === "none" || hurdle) {
+          land(current, seen);
+          if (seen !== "empty" || move.hop === "grasshopper") break;
+        } else if (seen !== "empty") {
+          hurdle = true;
+        }
+        current = step(current, dRow, sideways);
+      }
+    }
+  }
+  return [...targets.values()];
+}
+
+export interface FairyReachMark {
+  forward: number;
+  sideways: number;
+  mode: FairyMoveMode;
+  /** Reached only by hopping over another piece. */
+  hop: boolean;
+}
+
+/**
+ * Squares around the piece its glyph marks, within `radius` steps. Riders
+ * are drawn up to the edge of the diagram, hoppers as if a piece stood next
+ * to them.
+ */
+export function fairyReachPreview(betza: string, radius = 2): FairyReachMark[] {
+  const marks = new Map<string, FairyReachMark>();
+  for (const move of fairyMoves(betza)) {
+    const limit = move.range === 0 ? radius : Math.min(move.range, radius);
+    for (const [forward, sideways] of move.offsets) {
+      const first = move.hop === "none" ? 1 : 2;
+      const last = move.hop === "grasshopper" ? 2 : limit;
+      for (let distance = first; distance <= last; distance++) {
+        const mark = {
+          forward: forward * distance,
+          sideways: sideways * distance,
+          mode: move.mode,
+          hop: move.hop !== "none",
+        };
+        if (
+          Math.abs(mark.forward) > radius ||
+          Math.abs(mark.sideways) > radius
+        ) {
+          break;
+        }
+        const key = `${mark.forward},${mark.sideways}`;
+        const previous = marks.get(key);
+        marks.set(
+          key,
+          previous
+            ? {
+                ...previous,
+                mode: previous.mode === mark.mode ? mark.mode : "any",
+                hop: previous.hop && mark.hop,
+              }
+            : mark,
+        );
+      }
+    }
+  }
+  return [...marks.values()];
+}
+
+/** Plain-language problems with a definition; empty when it can be played. */
+export function describeFairyPieceIssues(
+  definition: FairyPieceDefinition,
+): string[] {
+  const issues: string[] = [];
+  if (
+    typeof definition.id !== "string" ||
+    !FAIRY_PIECE_ID_PATTERN.test(definition.id)
+  ) {
+    issues.push("L'identifiant doit être un slug de 3 à 30 caractères.");
+  } else if (RESERVED_PIECE_IDS.has(definition.id)) {
+    issues.push(`L'identifiant ${definition.id} est réservé.`);
+  }
+  if (
+    typeof definition.name !== "string" ||
+    definition.name.trim().length < 2 ||
+    definition.name.length > 40
+  ) {
+    issues.push("Le nom doit compter 2 à 40 caractères.");
+  }
+  if (
+    typeof definition.glyph !== "string" ||
+    !FAIRY_GLYPH_PATTERN.test(definition.glyph)
+  ) {
+    issues.push("Le glyphe doit être une lettre majuscule.");
+  } else if (ORTHODOX_GLYPHS.includes(definition.glyph)) {
+    issues.push(
+      `Le glyphe ${definition.glyph} est déjà celui d'une pièce classique.`,
+    );
+  }
+  if (
+    typeof definition.value !== "number" ||
+    !Number.isInteger(definition.value) ||
+    definition.value < MIN_FAIRY_PIECE_VALUE ||
+    definition.value > MAX_FAIRY_PIECE_VALUE
+  ) {
+    issues.push(
+      `La valeur doit être un entier entre ${MIN_FAIRY_PIECE_VALUE} et ${MAX_FAIRY_PIECE_VALUE}.`,
+    );
+  }
+  const movement = parseBetza(definition.betza);
+  if (movement.ok === false) issues.push(movement.message);
+  return issues;
+}
+
+/** Whether two declarations describe the same piece. */
+export const sameFairyPiece = (
+  left: FairyPieceDefinition,
+  right: FairyPieceDefinition,
+): boolean =>
+  left.id === right.id &&
+  left.name === right.name &&
+  left.betza === right.betza &&
+  left.glyph === right.glyph &&
+  left.value === right.value;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Reads a stored definition; null when it is malformed or unplayable. */
+export function parseFairyPiece(value: unknown): FairyPieceDefinition | null {
+  if (!isRecord(value)) return null;
+  const { id, name, betza, glyph } = value;
+  const definition = {
+    id,
+    name,
+    betza,
+    glyph,
+    value: value.value,
+  } as FairyPieceDefinition;
+  return describeFairyPieceIssues(definition).length === 0 ? definition : null;
+}
+
+/**
+ * Reads a stored list, keeping the first of two pieces sharing an id or a
+ * glyph so a FEN letter always names one piece.
+ */
+export function parseFairyPieces(value: unknown): FairyPieceDefinition[] {
+  if (!Array.isArray(value)) return [];
+  const pieces: FairyPieceDefinition[] = [];
+  for (const entry of value) {
+    const definition = parseFairyPiece(entry);
+    if (
+      definition &&
+      !pieces.some(
+        (piece) =>
+          piece.id === definition.id || piece.glyph === definition.glyph,
+      )
+    ) {
+      pieces.push(definition);
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Pieces a rule set declares, from `RuleJSON.pieces` and `RuleJSON.board`,
+ * in the order the rules are loaded.
+ */
+export function resolveRulesFairyPieces(
+  rules: readonly unknown[],
+): FairyPieceDefinition[] {
+  return parseFairyPieces(
+    rules.flatMap((rule) =>
+      isRecord(rule)
+        ? [
+            ...(Array.isArray(rule.pieces) ? rule.pieces : []),
+            ...(isRecord(rule.board) && Array.isArray(rule.board.pieces)
+              ? rule.board.pieces
+              : []),
+          ]
+        : [],
+    ),
+  );
+}
+
+const ORTHODOX_FEN_LETTERS: Readonly<Record<string, string>> = {
+  king: "k",
+  queen: "q",
+  rook: "r",
+  bishop: "b",
+  knight: "n",
+  pawn: "p",
+};
+
+/**
+ * FEN letter of a piece, upper case for white. Fairy pieces use their glyph;
+ * `?` marks one whose definition was lost.
+ */
+export function pieceFenLetter(piece: {
+  type: string;
+  color: "white" | "black";
+  fairy?: FairyPieceDefinition;
+}): string {
+  const letter = piece.fairy
+    ? piece.fairy.glyph.toLowerCase()
+    : (ORTHODOX_FEN_LETTERS[piece.type] ?? "?");
+  return piece.color === "white" ? letter.toUpperCase() : letter;
+}
@@ -1,7 +1,11 @@
 export * from "./types.ts";
+export * from "./board-geometry.ts";
+export * from "./fairy-pieces.ts";
 export * from "./catalog.ts";
 export * from "./schema.ts";
 export * from "./compiler.ts";
+export * from "./composition.ts";
+export * from "./diff.ts";
 export * from "./hash.ts";
 export * from "./deterministic-rng.ts";
 export * from "./runtime-budget.ts";
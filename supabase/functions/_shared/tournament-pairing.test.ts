@@ -0,0 +1,206 @@
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import {
+  bracketSeedOrder,
+  computeStandings,
+  eliminationRounds,
+  planNextRound,
+  type GameResult,
+  type PairingPlayer,
+  type PlannedRound,
+  type PlayedGame,
+  type TournamentFormat,
+} from "./tournament-pairing.ts";
+
+const players = (count: number): PairingPlayer[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `p${index + 1}`,
+    seed: index + 1,
+  }));
+
+const play = (
+  planned: PlannedRound,
+  decide: (player1Id: string, player2Id: string) => GameResult,
+): PlayedGame[] =>
+  planned.pairings.map((pairing) => ({
+    round: planned.round,
+    player1Id: pairing.player1Id,
+    player2Id: pairing.player2Id,
+    result:
+      pairing.player2Id === null
+        ? "player1"
+        : decide(pairing.player1Id, pairing.player2Id),
+    isBye: pairing.player2Id === null,
+    bracket: pairing.bracket,
+    slot: pairing.slot,
+  }));
+
+/** The lower seed number always wins. */
+const favourite = (player1Id: string, player2Id: string): GameResult =>
+  Number(player1Id.slice(1)) < Number(player2Id.slice(1))
+    ? "player1"
+    : "player2";
+
+const runEvent = (
+  format: TournamentFormat,
+  entrants: PairingPlayer[],
+  decide = favourite,
+): PlayedGame[] => {
+  const games: PlayedGame[] = [];
+  let currentRound = 0;
+  for (;;) {
+    const planned = planNextRound({
+      format,
+      players: entrants,
+      games,
+      currentRound,
+      roundCount: null,
+    });
+    if (!planned) return games;
+    games.push(...play(planned, decide));
+    currentRound = planned.round;
+    assert(currentRound < 40, "le tournoi doit se terminer");
+  }
+};
+
+const meetings = (games: PlayedGame[]) =>
+  games
+    .filter((game) => game.player2Id !== null)
+    .map((game) => [game.player1Id, game.player2Id].sort().join("-"));
+
+Deno.test(
+  "tournament-pairing: départage Buchholz puis Sonneborn-Berger",
+  () => {
+    const game = (
+      round: number,
+      player1Id: string,
+      player2Id: string,
+      result: GameResult,
+    ): PlayedGame => ({
+      round,
+      player1Id,
+      player2Id,
+      result,
+      isBye: false,
+      bracket: null,
+      slot: 0,
+    });
+    const standings = computeStandings(
+      ["a", "b", "c", "d"],
+      [
+        game(1, "a", "b", "player1"),
+        game(1, "c", "d", "draw"),
+        game(2, "a", "c", "player2"),
+        game(2, "b", "d", "player1"),
+      ],
+    );
+
+    assertEquals(
+      standings.map((entry) => [
+        entry.playerId,
+        entry.points,
+        entry.buchholz,
+        entry.sonnebornBerger,
+      ]),
+      [
+        ["c", 1.5, 1.5, 1.25],
+        ["a", 1, 2.5, 1],
+        ["b", 1, 1.5, 0.5],
+        ["d", 0.5, 2.5, 0.75],
+      ],
+    );
+  },
+);
+
+Deno.test(
+  "tournament-pairing: le suisse n'apparie jamais deux fois les mêmes joueurs",
+  () => {
+    const games = runEvent("swiss", players(8), (left, right) =>
+      (left + right).length % 2 === 0 ? "draw" : favourite(left, right),
+    );
+    const pairs = meetings(games);
+
+    assertEquals(Math.max(...games.map((game) => game.round)), 3);
+    assertEquals(new Set(pairs).size, pairs.length);
+  },
+);
+
+Deno.test(
+  "tournament-pairing: le suisse donne une seule exemption par joueur",
+  () => {
+    const games = runEvent("swiss", players(5));
+    const byes = games
+      .filter((game) => game.isBye)
+      .map((game) => game.player1Id);
+
+    assertEquals(byes.length, 3);
+    assertEquals(new Set(byes).size, 3);
+    assert(!byes.includes("p1"));
+  },
+);
+
+Deno.test(
+  "tournament-pairing: la ronde toutes rondes fait se rencontrer chaque paire une fois",
+  () => {
+    const games = runEvent("round_robin", players(5));
+    const pairs = meetings(games);
+
+    assertEquals(Math.max(...games.map((game) => game.round)), 5);
+    assertEquals(pairs.length, 10);
+    assertEquals(new Set(pairs).size, 10);
+  },
+);
+
+Deno.test(
+  "tournament-pairing: le tableau à élimination directe protège les têtes de série",
+  () => {
+    assertEquals(bracketSeedOrder(8), [1, 8, 4, 5, 2, 7, 3, 6]);
+
+    const games = runEvent("single_elimination", players(6));
+    const firstRound = games.filter((game) => game.round === 1);
+
+    assertEquals(
+      firstRound.filter((game) => game.isBye).map((game) => game.player1Id),
+      ["p1", "p2"],
+    );
+    const final = games.filter((game) => game.round === 3);
+    assertEquals(final.length, 1);
+    assertEquals(meetings(final), ["p1-p2"]);
+    assertEquals(eliminationRounds("single_elimination", games).get("p2"), 3);
+  },
+);
+
+Deno.test(
+  "tournament-pairing: une nulle à élimination directe qualifie les Noirs",
+  () => {
+    const games = runEvent("single_elimination", players(2), () => "draw");
+
+    assertEquals(games.length, 1);
+    assertEquals(
+      eliminationRounds("single_elimination", games).get(games[0].player1Id),
+      1,
+    );
+  },
+);
+
+Deno.test(
+  "tournament-pairing: la double élimination passe par une finale de rattrapage",
+  () => {
+    let finalMeetings = 0;
+    const games = runEvent("double_elimination", players(4), (left, right) => {
+      if (![left, right].includes("p1") || ![left, right].includes("p2")) {
+        return favourite(left, right);
+      }
+      // p1 takes the winners final, drops the grand final, wins the reset.
+      finalMeetings += 1;
+      const winner = finalMeetings === 2 ? "p2" : "p1";
+      return left === winner ? "player1" : "player2";
+    });
+    const eliminated = eliminationRounds("double_elimination", games);
+    const finals = games.filter((game) => game.bracket === "grand_final");
+
+    assertEquals(finals.length, 2);
+    assertEquals(eliminated.size, 3);
+    assert(!eliminated.has("p1"));
+    assertEquals(games.filter((game) => game.bracket === "losers").length, 2);
+  },
+);
@@ -0,0 +1,568 @@
+export type TournamentFormat =
+  | "arena"
+  | "swiss"
+  | "single_elimination"
+  | "double_elimination"
+  | "round_robin";
+
+/** Formats played in rounds paired by the server rather than on demand. */
+export const ROUND_BASED_FORMATS: readonly TournamentFormat[] = [
+  "swiss",
+  "single_elimination",
+  "double_elimination",
+  "round_robin",
+];
+
+export type KnockoutBracket = "winners" | "losers" | "grand_final";
+
+/** `player1` always has the white pieces in a paired round. */
+export type GameResult = "player1" | "player2" | "draw";
+
+export interface PairingPlayer {
+  id: string;
+  /** 1 is the strongest entrant. */
+  seed: number;
+}
+
+export interface PlayedGame {
+  round: number;
+  player1Id: string;
+  /** `null` for a bye, or for an arena game against the AI. */
+  player2Id: string | null;
+  result: GameResult | null;
+  isBye: boolean;
+  bracket: KnockoutBracket | null;
+  slot: number | null;
+}
+
+export interface StandingsEntry {
+  playerId: string;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  buchholz: number;
+  sonnebornBerger: number;
+}
+
+export interface PlannedPairing {
+  player1Id: string;
+  /** `null` gives `player1Id` a bye. */
+  player2Id: string | null;
+  bracket: KnockoutBracket | null;
+  slot: number;
+}
+
+export interface PlannedRound {
+  round: number;
+  pairings: PlannedPairing[];
+}
+
+export interface TournamentRoundState {
+  format: TournamentFormat;
+  players: readonly PairingPlayer[];
+  /** Every game of the rounds already played, all of them finished. */
+  games: readonly PlayedGame[];
+  /** 0 before the first round. */
+  currentRound: number;
+  /** Planned length of a Swiss or round-robin event. */
+  roundCount: number | null;
+}
+
+/** Bounds the backtracking search before repeat pairings are accepted. */
+const MAX_PAIRING_STEPS = 20_000;
+
+export const isRoundBasedFormat = (format: TournamentFormat): boolean =>
+  ROUND_BASED_FORMATS.includes(format);
+
+const gamePoints = (game: PlayedGame, playerId: string): number => {
+  if (game.isBye) return game.player1Id === playerId ? 1 : 0;
+  if (game.result === "draw") return 0.5;
+  const won =
+    (game.result === "player1" && game.player1Id === playerId) ||
+    (game.result === "player2" && game.player2Id === playerId);
+  return won ? 1 : 0;
+};
+
+const opponentOf = (game: PlayedGame, playerId: string): string | null =>
+  game.player1Id === playerId ? game.player2Id : game.player1Id;
+
+const involves = (game: PlayedGame, playerId: string): boolean =>
+  game.player1Id === playerId || game.player2Id === playerId;
+
+const compareStandings = (left: StandingsEntry, right: StandingsEntry) =>
+  right.points - left.points ||
+  right.buchholz - left.buchholz ||
+  right.sonnebornBerger - left.sonnebornBerger ||
+  right.wins - left.wins ||
+  left.playerId.localeCompare(right.playerId);
+
+/**
+ * Scores and tie-breaks from finished games. A bye is worth a point but is
+ * not a game played, so it adds nothing to Buchholz or Sonneborn-Berger;
+ * neither does a game against an opponent who is not a registered player.
+ */
+export function computeStandings(
+  playerIds: readonly string[],
+  games: readonly PlayedGame[],
+): StandingsEntry[] {
+  const finished = games.filter((game) => game.isBye || game.result !== null);
+  const points = new Map(playerIds.map((id) => [id, 0]));
+  for (const game of finished) {
+    for (const id of [game.player1Id, game.player2Id]) {
+      if (id !== null && points.has(id)) {
+        points.set(id, (points.get(id) ?? 0) + gamePoints(game, id));
+      }
+    }
+  }
+
+  return playerIds
+    .map((playerId) => {
+      const entry: StandingsEntry = {
+        playerId,
+        points: points.get(playerId) ?? 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        buchholz: 0,
+        sonnebornBerger: 0,
+      };
+      for (const game of finished) {
+        if (game.isBye || !involves(game, playerId)) continue;
+        const scored = gamePoints(game, playerId);
+        if (scored === 1) entry.wins += 1;
+        else if (scored === 0.5) entry.draws += 1;
+        else entry.losses += 1;
+
+        const opponent = opponentOf(game, playerId);
+        const opponentPoints =
+          opponent === null ? undefined : points.get(opponent);
+        if (opponentPoints === undefined) continue;
+        entry.buchholz += opponentPoints;
+        entry.sonnebornBerger += scored * opponentPoints;
+      }
+      return entry;
+    })
+    .sort(compareStandings);
+}
+
+/**
+ * Knockout games cannot end level: a drawn game goes to Black, as in an
+ * Armageddon decider.
+ */
+export const knockoutWinner = (game: PlayedGame): string | null => {
+  if (game.isBye) return game.player1Id;
+  if (game.result === null) return null;
+  return game.result === "player1" ? game.player1Id : game.player2Id;
+};
+
+const knockoutLosses = (games: readonly PlayedGame[]): Map<string, number> => {
+  const losses = new Map<string, number>();
+  for (const game of games) {
+    if (game.isBye || game.player2Id === null) continue;
+    const winner = knockoutWinner(game);
+    if (winner === null) continue;
+    const loser = winner === game.player1Id ? game.player2Id : game.player1Id;
+    losses.set(loser, (losses.get(loser) ?? 0) + 1);
+  }
+  return losses;
+};
+
+/** Round in which each knocked-out player lost for the last time. */
+export function eliminationRounds(
+  format: TournamentFormat,
+  games: readonly PlayedGame[],
+): Map<string, number> {
+  const livesByFormat: Partial<Record<TournamentFormat, number>> = {
+    single_elimination: 1,
+    double_elimination: 2,
+  };
+  const lives = livesByFormat[format];
+  const eliminated = new Map<string, number>();
+  if (lives === undefined) return eliminated;
+
+  const losses = new Map<string, number>();
+  const sorted = [...games].sort((left, right) => left.round - right.round);
+  for (const game of sorted) {
+    const [loser] = knockoutLosses([game]).keys();
+    if (loser === undefined) continue;
+    const count = (losses.get(loser) ?? 0) + 1;
+    losses.set(loser, count);
+    if (count === lives) eliminated.set(loser, game.round);
+  }
+  return eliminated;
+}
+
+export const defaultRoundCount = (
+  format: TournamentFormat,
+  playerCount: number,
+): number | null => {
+  if (format === "swiss") {
+    return Math.max(1, Math.ceil(Math.log2(Math.max(2, playerCount))));
+  }
+  if (format === "round_robin") {
+    return playerCount % 2 === 0 ? playerCount - 1 : playerCount;
+  }
+  return null;
+};
+
+const havePlayed = (
+  games: readonly PlayedGame[],
+  left: string,
+  right: string,
+): boolean =>
+  games.some(
+    (game) =>
+      !game.isBye &&
+      ((game.player1Id === left && game.player2Id === right) ||
+        (game.player1Id === right && game.player2Id === left)),
+  );
+
+/**
+ * Pairs an ordered list two by two, each player meeting the closest one
+ * below them they have not met yet. Falls back to adjacent pairs, rematches
+ * included, when no such pairing exists.
+ */
+function pairWithoutRematches(
+  ordered: readonly string[],
+  games: readonly PlayedGame[],
+): [string, string][] {
+  let steps = 0;
+  const search = (remaining: readonly string[]): [string, string][] | null => {
+    if (remaining.length === 0) return [];
+    steps += 1;
+    if (steps > MAX_PAIRING_STEPS) return null;
+    const [first, ...rest] = remaining;
+    for (const [index, candidate] of rest.entries()) {
+      if (havePlayed(games, first, candidate)) continue;
+      const tail = search(rest.filter((_, other) => other !== index));
+      if (tail) return [[first, candidate], ...tail];
+    }
+    return null;
+  };
+
+  const found = search(ordered);
+  if (found) return found;
+  const fallback: [string, string][] = [];
+  for (let index = 0; index + 1 < ordered.length; index += 2) {
+    fallback.push([ordered[index], ordered[index + 1]]);
+  }
+  return fallback;
+}
+
+const whiteCount = (games: readonly PlayedGame[], playerId: string): number =>
+  games.filter((game) => !game.isBye && game.player1Id === playerId).length;
+
+/** Gives White to whoever has had it less, then alternates by round. */
+const assignColours = (
+  games: readonly PlayedGame[],
+  higher: string,
+  lower: string,
+  round: number,
+): [string, string] => {
+  const balance = whiteCount(games, higher) - whiteCount(games, lower);
+  if (balance < 0) return [higher, lower];
+  if (balance > 0) return [lower, higher];
+  return round % 2 === 1 ? [higher, lower] : [lower, higher];
+};
+
+const byePairing = (playerId: string, slot: number): PlannedPairing => ({
+  player1Id: playerId,
+  player2Id: null,
+  bracket: null,
+  slot,
+});
+
+export function pairSwissRound(
+  players: readonly PairingPlayer[],
+  games: readonly PlayedGame[],
+  round: number,
+): PlannedRound {
+  const seeds = new Map(players.map((player) => [player.id, player.seed]));
+  const points = new Map(
+    computeStandings(
+      players.map((player) => player.id),
+      games,
+    ).map((entry) => [entry.playerId, entry.points]),
+  );
+  const ranked = players
+    .map((player) => player.id)
+    .sort(
+      (left, right) =>
+        (points.get(right) ?? 0) - (points.get(left) ?? 0) ||
+        (seeds.get(left) ?? 0) - (seeds.get(right) ?? 0),
+    );
+
+  let byePlayer: string | null = null;
+  if (ranked.length % 2 === 1) {
+    const hadBye = (id: string) =>
+      games.some((game) => game.isBye && game.player1Id === id);
+    byePlayer =
+      [...ranked].reverse().find((id) => !hadBye(id)) ??
+      ranked[ranked.length - 1];
+  }
+
+  const pairings = pairWithoutRematches(
+    ranked.filter((id) => id !== byePlayer),
+    games,
+  ).map(([higher, lower], index): PlannedPairing => {
+    const [white, black] = assignColours(games, higher, lower, round);
+    return { player1Id: white, player2Id: black, bracket: null, slot: index };
+  });
+  if (byePlayer) pairings.push(byePairing(byePlayer, pairings.length));
+  return { round, pairings };
+}
+
+/** Berger tables: the first seed stays put while the others rotate. */
+export function pairRoundRobinRound(
+  players: readonly PairingPlayer[],
+  round: number,
+): PlannedRound {
+  const ids: (string | null)[] = [...players]
+    .sort((left, right) => left.seed - right.seed)
+    .map((player) => player.id);
+  if (ids.length % 2 === 1) ids.push(null);
+
+  const [fixed, ...others] = ids;
+  const shift = (round - 1) % others.length;
+  const circle = [
+    fixed,
+    ...others.map(
+      (_, index) => others[(index - shift + others.length) % others.length],
+    ),
+  ];
+
+  const pairings: PlannedPairing[] = [];
+  for (let index = 0; index < circle.length / 2; index += 1) {
+    const left = circle[index];
+    const right = circle[circle.length - 1 - index];
+    const slot = pairings.length;
+    if (left === null || right === null) {
+      const present = left ?? right;
+      if (present !== null) pairings.push(byePairing(present, slot));
+      continue;
+    }
+    const [white, black] =
+      (round + index) % 2 === 1 ? [left, right] : [right, left];
+    pairings.push({ player1Id: white, player2Id: black, bracket: null, slot });
+  }
+  return { round, pairings };
+}
+
+/** Bracket positions of seeds 1..size so that 1 and 2 can only meet last. */
+export const bracketSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const mirror = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, mirror - seed]);
+  }
+  return order;
+};
+
+function firstKnockoutRound(
+  players: readonly PairingPlayer[],
+  bracket: KnockoutBracket | null,
+): PlannedRound {
+  const bySeed = new Map(players.map((player) => [player.seed, player.id]));
+  let size = 1;
+  while (size < players.length) size *= 2;
+
+  const order = bracketSeedOrder(size);
+  const pairings: PlannedPairing[] = [];
+  for (let index = 0; index < order.length; index += 2) {
+    const higher = bySeed.get(order[index]) ?? null;
+    const lower = bySeed.get(order[index + 1]) ?? null;
+    const slot = index / 2;
+    if (higher === null || lower === null) {
+      const present = higher ?? lower;
+      if (present !== null) {
+        pairings.push({ ...byePairing(present, slot), bracket });
+      }
+      continue;
+    }
+    pairings.push({ player1Id: higher, player2Id: lower, bracket, slot });
+  }
+  return { round: 1, pairings };
+}
+
+/** Winners of slots 2k and 2k+1 meet in slot k of the next round. */
+function nextKnockoutRound(
+  previous: readonly PlayedGame[],
+  round: number,
+  bracket: KnockoutBracket | null,
+  seeds: ReadonlyMap<string, number>,
+): PlannedPairing[] {
+  const winners = [...previous]
+    .sort((left, right) => (left.slot ?? 0) - (right.slot ?? 0))
+    .map(knockoutWinner)
+    .filter((id): id is string => id !== null);
+
+  const pairings: PlannedPairing[] = [];
+  for (let index = 0; index < winners.length; index += 2) {
+    const slot = index / 2;
+    const left = winners[index];
+    const right = winners[index + 1];
+    if (right === undefined) {
+      pairings.push({ ...byePairing(left, slot), bracket });
+      continue;
+    }
+    const [higher, lower] =
+      (seeds.get(left) ?? 0) <= (seeds.get(right) ?? 0)
+        ? [left, right]
+        : [right, left];
+    pairings.push({
+      player1Id: round % 2 === 1 ? higher : lower,
+      player2Id: round % 2 === 1 ? lower : higher,
+      bracket,
+      slot,
+    });
+  }
+  return pairings;
+}
+
+function planSingleElimination(
+  state: TournamentRoundState,
+): PlannedRound | null {
+  if (state.currentRound === 0) return firstKnockoutRound(state.players, null);
+  const previous = state.games.filter(
+    (game) => game.round === state.currentRound,
+  );
+  if (previous.length <= 1) return null;
+  const round = state.currentRound + 1;
+  const seeds = new Map(
+    state.players.map((player) => [player.id, player.seed]),
+  );
+  return {
+    round,
+    pairings: nextKnockoutRound(previous, round, null, seeds),
+  };
+}
+
+/**
+ * Round-based double elimination: undefeated players meet in the winners
+ * bracket, players with one loss in the losers bracket, and a second loss
+ * knocks a player out. The last undefeated player waits for the losers
+ * bracket to produce a finalist; losing the grand final sends them to a
+ * reset final between two one-loss players.
+ */
+function planDoubleElimination(
+  state: TournamentRoundState,
+): PlannedRound | null {
+  if (state.currentRound === 0) {
+    return firstKnockoutRound(state.players, "winners");
+  }
+  const round = state.currentRound + 1;
+  const seeds = new Map(
+    state.players.map((player) => [player.id, player.seed]),
+  );
+  const losses = knockoutLosses(state.games);
+  const alive = state.players.filter(
+    (player) => (losses.get(player.id) ?? 0) < 2,
+  );
+  const undefeated = alive.filter((player) => !losses.has(player.id));
+  const oneLoss = alive.filter((player) => losses.get(player.id) === 1);
+
+  if (alive.length <= 1) return null;
+  if (undefeated.length === 1 && oneLoss.length === 1) {
+    return {
+      round,
+      pairings: [
+        {
+          player1Id: oneLoss[0].id,
+          player2Id: undefeated[0].id,
+          bracket: "grand_final",
+          slot: 0,
+        },
+      ],
+    };
+  }
+
+  const lastRound = state.games.filter(
+    (game) => game.round === state.currentRound,
+  );
+  if (
+    undefeated.length === 0 &&
+    oneLoss.length === 2 &&
+    lastRound.some((game) => game.bracket === "grand_final")
+  ) {
+    const [white, black] = assignColours(
+      state.games,
+      oneLoss[0].id,
+      oneLoss[1].id,
+      round,
+    );
+    return {
+      round,
+      pairings: [
+        { player1Id: white, player2Id: black, bracket: "grand_final", slot: 0 },
+      ],
+    };
+  }
+
+  const pairings: PlannedPairing[] = [];
+  if (undefeated.length > 1) {
+    const lastWinnersRound = lastRound.filter(
+      (game) => game.bracket === "winners",
+    );
+    pairings.push(
+      ...nextKnockoutRound(lastWinnersRound, round, "winners", seeds),
+    );
+  }
+  if (oneLoss.length > 1) {
+    const ordered = oneLoss
+      .sort((left, right) => left.seed - right.seed)
+      .map((player) => player.id);
+    let byePlayer: string | null = null;
+    if (ordered.length % 2 === 1) byePlayer = ordered.shift() ?? null;
+    const offset = pairings.length;
+    for (const [index, [higher, lower]] of pairWithoutRematches(
+      ordered,
+      state.games,
+    ).entries()) {
+      const [white, black] = assignColours(state.games, higher, lower, round);
+      pairings.push({
+        player1Id: white,
+        player2Id: black,
+        bracket: "losers",
+        slot: offset + index,
+      });
+    }
+    if (byePlayer) {
+      pairings.push({
+        ...byePairing(byePlayer, pairings.length),
+        bracket: "losers",
+      });
+    }
+  }
+  return pairings.length > 0 ? { round, pairings } : null;
+}
+
+/**
+ * Next round of a round-based event, or `null` once it is over. The caller
+ * only asks once every game of the current round is finished.
+ */
+export function planNextRound(
+  state: TournamentRoundState,
+): PlannedRound | null {
+  if (state.players.length < 2) return null;
+  const round = state.currentRound + 1;
+  const roundCount =
+    state.roundCount ?? defaultRoundCount(state.format, state.players.length);
+
+  switch (state.format) {
+    case "swiss":
+      return roundCount !== null && round > roundCount
+        ? null
+        : pairSwissRound(state.players, state.games, round);
+    case "round_robin":
+      return roundCount !== null && round > roundCount
+        ? null
+        : pairRoundRobinRound(state.players, round);
+    case "single_elimination":
+      return planSingleElimination(state);
+    case "double_elimination":
+      return planDoubleElimination(state);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,462 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.2?target=deno";
+import {
+  computeStandings,
+  defaultRoundCount,
+  eliminationRounds,
+  isRoundBasedFormat,
+  planNextRound,
+  type GameResult,
+  type KnockoutBracket,
+  type PairingPlayer,
+  type PlayedGame,
+  type TournamentFormat,
+} from "./tournament-pairing.ts";
+
+type RoundTournamentRow = {
+  id: string;
+  title: string;
+  format: TournamentFormat;
+  status: string;
+  current_round: number;
+  round_count: number | null;
+  max_participants: number | null;
+  variant_rules: string[] | null;
+  rule_version_ids: string[] | null;
+};
+
+type RoundRegistrationRow = {
+  id: string;
+  user_id: string;
+  display_name: string | null;
+  seed: number | null;
+  rating: number | null;
+  registered_at: string;
+};
+
+type RoundMatchRow = {
+  id: string;
+  round: number;
+  player1_id: string;
+  player2_id: string | null;
+  result: string | null;
+  status: string;
+  is_bye: boolean;
+  bracket: KnockoutBracket | null;
+  bracket_slot: number | null;
+  table_number: number | null;
+};
+
+const FINISHED_MATCH_STATUSES = new Set(["finished", "completed"]);
+const CLOSED_STATUSES = new Set(["completed", "cancelled"]);
+
+/** Guards against a round made only of byes chaining forever. */
+const MAX_ROUNDS_PER_ADVANCE = 4;
+
+const TOURNAMENT_COLUMNS =
+  "id, title, format, status, current_round, round_count, max_participants, variant_rules, rule_version_ids";
+
+const toResult = (value: string | null): GameResult | null =>
+  value === "player1" || value === "player2" || value === "draw" ? value : null;
+
+const toPlayedGame = (row: RoundMatchRow): PlayedGame => ({
+  round: row.round,
+  player1Id: row.player1_id,
+  player2Id: row.player2_id,
+  result: toResult(row.result),
+  isBye: row.is_bye,
+  bracket: row.bracket,
+  slot: row.bracket_slot,
+});
+
+const loadRoundState = async (admin: SupabaseClient, tournamentId: string) => {
+  const [registrations, matches] = await Promise.all([
+    admin
+      .from("tournament_registrations")
+      .select("id, user_id, display_name, seed, rating, registered_at")
+      .eq("tournament_id", tournamentId),
+    admin
+      .from("tournament_matches")
+      .select(
+        "id, round, player1_id, player2_id, result, status, is_bye, bracket, bracket_slot, table_number",
+      )
+      .eq("tournament_id", tournamentId),
+  ]);
+
+  if (registrations.error) {
+    throw new Error(
+      `Unable to load tournament registrations: ${registrations.error.message}`,
+    );
+  }
+  if (matches.error) {
+    throw new Error(
+      `Unable to load tournament matches: ${matches.error.message}`,
+    );
+  }
+
+  return {
+    registrations: (registrations.data ?? []) as RoundRegistrationRow[],
+    matches: (matches.data ?? []) as RoundMatchRow[],
+  };
+};
+
+/**
+ * Recomputes every registration's score and tie-breaks from the finished
+ * games. Buchholz moves whenever an opponent scores, so the whole table is
+ * rewritten rather than patched per game.
+ */
+export const refreshTournamentStandings = async (
+  admin: SupabaseClient,
+  tournamentId: string,
+  format: TournamentFormat,
+) => {
+  const { registrations, matches } = await loadRoundState(admin, tournamentId);
+  const games = matches
+    .filter(
+      (match) => match.is_bye || FINISHED_MATCH_STATUSES.has(match.status),
+    )
+    .map(toPlayedGame);
+  const standings = computeStandings(
+    registrations.map((registration) => registration.user_id),
+    games,
+  );
+  const eliminated = eliminationRounds(format, games);
+
+  for (const entry of standings) {
+    const { error } = await admin
+      .from("tournament_registrations")
+      .update({
+        points: entry.points,
+        wins: entry.wins,
+        draws: entry.draws,
+        losses: entry.losses,
+        buchholz: entry.buchholz,
+        sonneborn_berger: entry.sonnebornBerger,
+        eliminated_in_round: eliminated.get(entry.playerId) ?? null,
+      })
+      .eq("tournament_id", tournamentId)
+      .eq("user_id", entry.playerId);
+
+    if (error) {
+      throw new Error(`Unable to update standings: ${error.message}`);
+    }
+  }
+};
+
+/**
+ * Seeds the field on the first round: highest rating first, then earliest
+ * registration. Knockout and round-robin fields are capped by
+ * `max_participants`; a Swiss event also seeds late entrants so that they
+ * are paired from the next round on.
+ */
+const seedPlayers = async (
+  admin: SupabaseClient,
+  tournament: RoundTournamentRow,
+  registrations: RoundRegistrationRow[],
+): Promise<PairingPlayer[]> => {
+  const seeded = registrations
+    .filter((registration) => registration.seed !== null)
+    .map((registration) => ({
+      id: registration.user_id,
+      seed: registration.seed as number,
+    }));
+  const canEnter =
+    tournament.current_round === 0 || tournament.format === "swiss";
+  if (!canEnter) return seeded;
+
+  const limit =
+    tournament.format === "swiss" || tournament.max_participants === null
+      ? Number.POSITIVE_INFINITY
+      : tournament.max_participants;
+  const entrants = registrations
+    .filter((registration) => registration.seed === null)
+    .sort(
+      (left, right) =>
+        (right.rating ?? 0) - (left.rating ?? 0) ||
+        left.registered_at.localeCompare(right.registered_at),
+    )
+    .slice(0, Math.max(0, limit - seeded.length));
+
+  for (const [index, registration] of entrants.entries()) {
+    const seed = seeded.length + index + 1;
+    const { error } = await admin
+      .from("tournament_registrations")
+      .update({ seed })
+      .eq("id", registration.id)
+      .is("seed", null);
+    if (error) {
+      throw new Error(`Unable to seed tournament players: ${error.message}`);
+    }
+  }
+
+  return [
+    ...seeded,
+    ...entrants.map((registration, index) => ({
+      id: registration.user_id,
+      seed: seeded.length + index + 1,
+    })),
+  ];
+};
+
+/** Legacy preset tournaments still play in a lobby. */
+const openRoundLobby = async (
+  admin: SupabaseClient,
+  tournament: RoundTournamentRow,
+  round: number,
+  tableNumber: number,
+  seats: { player1Id: string; player2Id: string; opponentName: string },
+): Promise<string> => {
+  const { data: lobby, error } = await admin
+    .from("lobbies")
+    .insert({
+      name: `${tournament.title} · Ronde ${round} · Table ${tableNumber}`,
+      creator_id: seats.player1Id,
+      opponent_id: seats.player2Id,
+      opponent_name: seats.opponentName,
+      active_rules: tournament.variant_rules,
+      max_players: 2,
+      is_active: false,
+      mode: "player",
+      status: "matched",
+    })
+    .select("id")
+    .single();
+
+  if (error || !lobby) {
+    throw new Error(
+      `Unable to open the round lobby: ${error?.message ?? "no row"}`,
+    );
+  }
+  return lobby.id;
+};
+
+/**
+ * Seats a tournament game in a server-validated chess match. Its result is
+ * copied back by the database once `finalize_chess_match_server` verifies it.
+ */
+export const seatVerifiedGame = async (
+  admin: SupabaseClient,
+  tournamentMatchId: string,
+): Promise<string> => {
+  const { data, error } = await admin.rpc(
+    "create_tournament_chess_match_server",
+    { p_tournament_match_id: tournamentMatchId },
+  );
+  if (error || typeof data !== "string") {
+    throw new Error(
+      `Unable to open the chess match: ${error?.message ?? "no id"}`,
+    );
+  }
+  return data;
+};
+
+/**
+ * Pairs the next round of a Swiss, knockout or round-robin event once every
+ * game of the current one is finished, and marks the tournament completed
+ * when no round is left to play. Concurrent callers race on
+ * `current_round`: only the one that moves it inserts the pairings.
+ * Returns the round now in play, or `null` when nothing was paired.
+ */
+export const advanceTournamentRound = async (
+  admin: SupabaseClient,
+  tournamentId: string,
+): Promise<number | null> => {
+  let paired: number | null = null;
+
+  for (let attempt = 0; attempt < MAX_ROUNDS_PER_ADVANCE; attempt += 1) {
+    const { data: tournament, error: tournamentError } = await admin
+      .from("tournaments")
+      .select(TOURNAMENT_COLUMNS)
+      .eq("id", tournamentId)
+      .single();
+
+    if (tournamentError || !tournament) {
+      throw new Error(
+        `Unable to load tournament: ${tournamentError?.message ?? "not found"}`,
+      );
+    }
+
+    const row = tournament as RoundTournamentRow;
+    if (!isRoundBasedFormat(row.format) || CLOSED_STATUSES.has(row.status)) {
+      return paired;
+    }
+
+    const { registrations, matches } = await loadRoundState(
+      admin,
+      tournamentId,
+    );
+    const currentMatches = matches.filter(
+      (match) => match.round === row.current_round,
+    );
+    if (
+      row.current_round > 0 &&
+      currentMatches.some(
+        (match) => !match.is_bye && !FINISHED_MATCH_STATUSES.has(match.status),
+      )
+    ) {
+      return paired;
+    }
+
+    const players = await seedPlayers(admin, row, registrations);
+    const roundCount =
+      row.round_count ?? defaultRoundCount(row.format, players.length);
+    const planned = planNextRound({
+      format: row.format,
+      players,
+      games: matches.map(toPlayedGame),
+      currentRound: row.current_round,
+      roundCount,
+    });
+
+    if (!planned) {
+      if (row.current_round > 0) {
+        await admin
+          .from("tournaments")
+          .update({ status: "completed" })
+          .eq("id", tournamentId)
+          .eq("current_round", row.current_round);
+      }
+      return paired;
+    }
+
+    const { data: claimed, error: claimError } = await admin
+      .from("tournaments")
+      .update({ current_round: planned.round, round_count: roundCount })
+      .eq("id", tournamentId)
+      .eq("current_round", row.current_round)
+      .select("id");
+
+    if (claimError) {
+      throw new Error(`Unable to open the next round: ${claimError.message}`);
+    }
+    if (!claimed || claimed.length === 0) {
+      return paired;
+    }
+
+    const names = new Map(
+      registrations.map((registration) => [
+        registration.user_id,
+        registration.display_name ?? "Adversaire",
+      ]),
+    );
+    const nowIso = new Date().toISOString();
+    let tableNumber = Math.max(
+      0,
+      ...matches.map((match) => match.table_number ?? 0),
+    );
+    let playable = 0;
+
+    for (const pairing of planned.pairings) {
+      tableNumber += 1;
+      const base = {
+        tournament_id: tournamentId,
+        round: planned.round,
+        table_number: tableNumber,
+        player1_id: pairing.player1Id,
+        player1_name: names.get(pairing.player1Id) ?? null,
+        bracket: pairing.bracket,
+        bracket_slot: pairing.slot,
+        variant_rules: row.variant_rules,
+      };
+
+      if (pairing.player2Id === null) {
+        const { error } = await admin.from("tournament_matches").insert({
+          ...base,
+          is_bye: true,
+          result_source: "bye",
+          status: "finished",
+          result: "player1",
+          winner_id: pairing.player1Id,
+          started_at: nowIso,
+          completed_at: nowIso,
+        });
+        if (error) {
+          throw new Error(`Unable to record a bye: ${error.message}`);
+        }
+        continue;
+      }
+
+      playable += 1;
+      const opponentName = names.get(pairing.player2Id) ?? "Adversaire";
+      const lobbyId =
+        row.rule_version_ids === null
+          ? await openRoundLobby(admin, row, planned.round, tableNumber, {
+              player1Id: pairing.player1Id,
+              player2Id: pairing.player2Id,
+              opponentName,
+            })
+          : null;
+
+      const { data: match, error: matchError } = await admin
+        .from("tournament_matches")
+        .insert({
+          ...base,
+          lobby_id: lobbyId,
+          player2_id: pairing.player2Id,
+          player2_name: opponentName,
+          status: "playing",
+          started_at: nowIso,
+        })
+        .select("id")
+        .single();
+
+      if (matchError || !match) {
+        throw new Error(
+          `Unable to record the pairing: ${matchError?.message ?? "no row"}`,
+        );
+      }
+
+      if (row.rule_version_ids !== null) {
+        await seatVerifiedGame(admin, match.id);
+      }
+
+      const { error: registrationError } = await admin
+        .from("tournament_registrations")
+        .update({
+          current_match_id: match.id,
+          is_waiting: false,
+          last_active_at: nowIso,
+        })
+        .eq("tournament_id", tournamentId)
+        .in("user_id", [pairing.player1Id, pairing.player2Id]);
+
+      if (registrationError) {
+        throw new Error(
+          `Unable to seat the players: ${registrationError.message}`,
+        );
+      }
+    }
+
+    paired = planned.round;
+    if (playable > 0) {
+      return paired;
+    }
+  }
+
+  return paired;
+};
+
+/**
+ * Brings a tournament up to date after a result lands: pairs the next round
+ * when one is due, then rewrites the standings.
+ */
+export const settleTournamentResults = async (
+  admin: SupabaseClient,
+  tournamentId: string,
+): Promise<void> => {
+  const { data: tournament, error } = await admin
+    .from("tournaments")
+    .select("format")
+    .eq("id", tournamentId)
+    .single();
+  if (error || !tournament) {
+    throw new Error(
+      `Unable to load tournament: ${error?.message ?? "not found"}`,
+    );
+  }
+
+  const format = (tournament.format ?? "arena") as TournamentFormat;
+  if (isRoundBasedFormat(format)) {
+    await advanceTournamentRound(admin, tournamentId);
+  }
+  await refreshTournamentStandings(admin, tournamentId, format);
+};
@@ -1,5 +1,9 @@
 import { authenticateRequest } from "../_shared/auth-v2.ts";
 import { handlePreflight, jsonResponse } from "../_shared/cors-v2.ts";
+import {
+  loadEntitlement,
+  resolvePremiumAccess,
+} from "../_shared/entitlements.ts";
 import { createStructuredResponse } from "../_shared/openai-responses.ts";
 import {
   PromptSecurityError,
@@ -34,6 +38,7 @@ import {
   compileRuleBlueprint,
   RULE_BLUEPRINT_JSON_SCHEMA,
   sha256Hex,
+  type MeasuredBalance,
   type RuleDiagnostic,
 } from "../_shared/rules-v2/index.ts";
 import {
@@ -43,6 +48,14 @@ import {
   STALE_PROCESSING_FAILURE_CODE,
   type CompilationReplayState,
 } from "./replay-state.ts";
+import {
+  DEFAULT_SELF_PLAY_BUDGET_MS,
+  DEFAULT_SELF_PLAY_GAMES,
+  MAX_SELF_PLAY_BUDGET_MS,
+  MAX_SELF_PLAY_GAMES,
+  MIN_SELF_PLAY_BUDGET_MS,
+  measureCompiledRuleBalance,
+} from "./self-play.ts";
 
 const UUID_PATTERN =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -384,20 +397,13 @@ Deno.serve(async (request) => {
     );
     intentContract.originalPrompt = originalPromptSecurity.sanitizedPrompt;
 
-    const appMetadata = user.app_metadata as Record<string, unknown>;
-    const configuredPremiumUsers = new Set(
-      (Deno.env.get("RULE_ARCHITECT_PREMIUM_USER_IDS") ?? "")
-        .split(",")
-        .map((value) => value.trim())
-        .filter(Boolean),
-    );
-    const premiumEntitled =
-      appMetadata.rule_architect_tier === "premium" ||
-      appMetadata.role === "admin" ||
-      appMetadata.role === "owner" ||
-      appMetadata.is_admin === true ||
-      configuredPremiumUsers.has(user.id);
-    const premium = premiumRequested && premiumEntitled;
+    const premium =
+      premiumRequested &&
+      resolvePremiumAccess({
+        user,
+        entitlement: await loadEntitlement(serviceClient, user.id),
+        premiumUserIds: Deno.env.get("RULE_ARCHITECT_PREMIUM_USER_IDS"),
+      });
     const model = premium
       ? Deno.env.get("OPENAI_PREMIUM_RULE_MODEL")?.trim() || "gpt-5.6-sol"
       : Deno.env.get("OPENAI_RULE_MODEL")?.trim() || "gpt-5.6-terra";
@@ -708,6 +714,29 @@ Deno.serve(async (request) => {
             compiledRule: result.compiledRule,
           })
         : null;
+    // The blueprint's balance score is self-declared; seeded bot games show
+    // what the rule actually does to win rates.
+    const measuredBalance: MeasuredBalance | null =
+      finalOk && result.compiledRule
+        ? await measureCompiledRuleBalance(
+            result.compiledRule as unknown as Record<string, unknown>,
+            {
+              games: readIntegerEnv(
+                "RULE_SELF_PLAY_GAMES",
+                DEFAULT_SELF_PLAY_GAMES,
+                0,
+                MAX_SELF_PLAY_GAMES,
+              ),
+              timeBudgetMs: readIntegerEnv(
+                "RULE_SELF_PLAY_BUDGET_MS",
+                DEFAULT_SELF_PLAY_BUDGET_MS,
+                MIN_SELF_PLAY_BUDGET_MS,
+                MAX_SELF_PLAY_BUDGET_MS,
+              ),
+              seed: compilationId,
+            },
+          )
+        : null;
     const generationDurationMs = Math.round(performance.now() - startedAt);
     const intentContractProof = {
       ...intentContract,
@@ -718,6 +747,7 @@ Deno.serve(async (request) => {
     };
     const metrics = {
       ...result.metrics,
+      measuredBalance,
       ...initialMetrics,
       generationDurationMs,
       usage: openAI.usage,
@@ -775,7 +805,7 @@ Deno.serve(async (request) => {
         blueprint: result.blueprint,
         compiledRule: result.compiledRule,
         diagnostics,
-        metrics: result.metrics,
+        metrics: { ...result.metrics, measuredBalance },
         coverage,
         contentHash,
         model,
@@ -0,0 +1,105 @@
+import type { MeasuredBalanceReport } from "../_shared/rules-v2/index.ts";
+import {
+  MAX_SELF_PLAY_BUDGET_MS,
+  measureCompiledRuleBalance,
+  type SelfPlayLoader,
+  type SelfPlayModule,
+} from "./self-play.ts";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const REPORT: MeasuredBalanceReport = {
+  harness: "rule-architect-self-play-v1",
+  seed: "compilation-1",
+  gamesRequested: 4,
+  gamesPlayed: 4,
+  whiteWins: 1,
+  blackWins: 3,
+  draws: 0,
+  unfinished: 0,
+  whiteWinRate: 0.25,
+  blackWinRate: 0.75,
+  drawRate: 0,
+  averagePlies: 42,
+  abilityUsage: { white: 0, black: 5, byAction: { "sniper.shot": 5 } },
+  balanceScore: 50,
+  truncated: false,
+};
+
+const settings = { games: 4, timeBudgetMs: 1000, seed: "compilation-1" };
+
+const loaderFor =
+  (module: SelfPlayModule): SelfPlayLoader =>
+  () =>
+    Promise.resolve(module);
+
+Deno.test("self-play is skipped when no game is requested", async () => {
+  let loaded = false;
+  const result = await measureCompiledRuleBalance(
+    {},
+    { ...settings, games: 0 },
+    () => {
+      loaded = true;
+      return Promise.reject(new Error("unused"));
+    },
+  );
+  assert(result.status === "skipped", "games=0 should skip self-play");
+  assert(!loaded, "a skipped run must not load the bundle");
+});
+
+Deno.test("a missing bundle never fails the compilation", async () => {
+  const result = await measureCompiledRuleBalance({}, settings, () =>
+    Promise.reject(new Error("Module not found")),
+  );
+  assert(
+    result.status === "unavailable" &&
+      result.reason === "SELF_PLAY_RUNTIME_MISSING",
+    "missing bundle should be reported",
+  );
+});
+
+Deno.test("self-play reports the measured games", async () => {
+  let received: unknown[] = [];
+  const result = await measureCompiledRuleBalance(
+    { meta: { ruleId: "sniper" } },
+    { ...settings, games: 99, timeBudgetMs: 30_000 },
+    loaderFor({
+      SELF_PLAY_HARNESS_ID: REPORT.harness,
+      measureVariantBalance: (rules, options) => {
+        received = [rules, options];
+        return Promise.resolve(REPORT);
+      },
+    }),
+  );
+  assert(result.status === "measured", "report should be measured");
+  assert(result.balanceScore === 50, "report should be forwarded");
+  const [rules, options] = received as [
+    unknown[],
+    { games: number; timeBudgetMs: number },
+  ];
+  assert(rules.length === 1, "only the compiled rule should be played");
+  assert(options.games === 24, "games should be capped");
+  assert(
+    options.timeBudgetMs === MAX_SELF_PLAY_BUDGET_MS,
+    "the time budget should stay under the Edge limit",
+  );
+});
+
+Deno.test("a self-play crash is reported as unavailable", async () => {
+  const result = await measureCompiledRuleBalance(
+    {},
+    settings,
+    loaderFor({
+      SELF_PLAY_HARNESS_ID: REPORT.harness,
+      measureVariantBalance: () => Promise.reject(new Error("boom")),
+    }),
+  );
+  assert(
+    result.status === "unavailable" && result.reason === "SELF_PLAY_FAILED",
+    "crash should be reported",
+  );
+});
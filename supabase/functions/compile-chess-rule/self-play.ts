@@ -0,0 +1,93 @@
+import type {
+  MeasuredBalance,
+  MeasuredBalanceReport,
+} from "../_shared/rules-v2/index.ts";
+
+export const DEFAULT_SELF_PLAY_GAMES = 6;
+export const MAX_SELF_PLAY_GAMES = 24;
+/**
+ * The games run inline before the compile response, so the budget stays well
+ * under the Edge worker CPU limit. Every bot search is bounded by what is left
+ * of it and a game still running at the deadline is reported as unfinished.
+ */
+export const DEFAULT_SELF_PLAY_BUDGET_MS = 1_000;
+export const MIN_SELF_PLAY_BUDGET_MS = 250;
+export const MAX_SELF_PLAY_BUDGET_MS = 1_500;
+/**
+ * A shallow search and short games keep several games inside the budget; a
+ * game reaching the ply cap is decided on material rather than left
+ * unfinished.
+ */
+const SELF_PLAY_DEPTH = 1;
+const SELF_PLAY_MAX_PLIES = 12;
+const SELF_PLAY_ADJUDICATION_MARGIN = 3;
+
+export interface SelfPlaySettings {
+  games: number;
+  timeBudgetMs: number;
+  seed: string;
+}
+
+/**
+ * Surface of `src/features/multiplayer/variant-self-play.ts`, bundled for Deno
+ * by `scripts/build-edge-variant-runtime.mjs`.
+ */
+export interface SelfPlayModule {
+  SELF_PLAY_HARNESS_ID: string;
+  measureVariantBalance(
+    rules: readonly Record<string, unknown>[],
+    options: {
+      games: number;
+      seed: string;
+      depth?: number;
+      maxPlies?: number;
+      adjudicationMargin?: number;
+      timeBudgetMs: number;
+    },
+  ): Promise<MeasuredBalanceReport>;
+}
+
+export type SelfPlayLoader = () => Promise<SelfPlayModule>;
+
+export const loadGeneratedSelfPlay: SelfPlayLoader = async () =>
+  (await import(
+    "../_shared/generated/variant-self-play.js"
+  )) as unknown as SelfPlayModule;
+
+/**
+ * Plays the seeded self-play games for a freshly compiled rule. A missing
+ * bundle or a runtime failure never fails the compilation, which is still
+ * validated on its heuristic metrics: the report says why nothing was
+ * measured.
+ */
+export async function measureCompiledRuleBalance(
+  compiledRule: Record<string, unknown>,
+  settings: SelfPlaySettings,
+  loader: SelfPlayLoader = loadGeneratedSelfPlay,
+): Promise<MeasuredBalance> {
+  if (settings.games <= 0) {
+    return { status: "skipped", reason: "SELF_PLAY_DISABLED" };
+  }
+
+  let selfPlay: SelfPlayModule;
+  try {
+    selfPlay = await loader();
+  } catch {
+    return { status: "unavailable", reason: "SELF_PLAY_RUNTIME_MISSING" };
+  }
+
+  try {
+    const report = await selfPlay.measureVariantBalance([compiledRule], {
+      games: Math.min(MAX_SELF_PLAY_GAMES, settings.games),
+      seed: settings.seed,
+      depth: SELF_PLAY_DEPTH,
+      maxPlies: SELF_PLAY_MAX_PLIES,
+      adjudicationMargin: SELF_PLAY_ADJUDICATION_MARGIN,
+      timeBudgetMs: Math.min(MAX_SELF_PLAY_BUDGET_MS, settings.timeBudgetMs),
+    });
+    return { status: "measured", ...report };
+  } catch (error) {
+    console.warn("[compile-chess-rule] self-play failed", error);
+    return { status: "unavailable", reason: "SELF_PLAY_FAILED" };
+  }
+}
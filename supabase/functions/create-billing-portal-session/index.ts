@@ -0,0 +1,94 @@
+import Stripe from "https://esm.sh/stripe@12.18.0?target=deno";
+
+import { authenticateRequest } from "../_shared/auth-v2.ts";
+import { loadEntitlement } from "../_shared/entitlements.ts";
+import { jsonResponse, preflightIfOptions } from "../_shared/cors.ts";
+
+const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
+const defaultSiteUrl = (
+  Deno.env.get("SITE_URL") ?? "https://pfcaolibtgvynnwaxvol.supabase.co"
+).replace(/\/$/, "");
+
+const stripe = stripeSecretKey
+  ? new Stripe(stripeSecretKey, {
+      apiVersion: "2024-06-20",
+      httpClient: Stripe.createFetchHttpClient(),
+    })
+  : null;
+
+// The portal only sends players back to the app itself, never to an
+// arbitrary URL supplied in the request.
+const returnUrlFor = (req: Request) => {
+  const origin = req.headers.get("origin");
+  try {
+    return origin
+      ? `${new URL(origin).origin}/profile`
+      : `${defaultSiteUrl}/profile`;
+  } catch (_error) {
+    return `${defaultSiteUrl}/profile`;
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  const preflight = preflightIfOptions(req);
+  if (preflight) return preflight;
+
+  if (req.method !== "POST") {
+    return jsonResponse(
+      req,
+      { error: "Méthode non autorisée" },
+      { status: 405, headers: { Allow: "POST, OPTIONS" } },
+    );
+  }
+
+  if (!stripe) {
+    console.error("[Stripe] Clé secrète manquante (STRIPE_SECRET_KEY).");
+    return jsonResponse(
+      req,
+      { error: "Stripe n'est pas configuré côté serveur." },
+      { status: 500 },
+    );
+  }
+
+  let customerId: string | null;
+  try {
+    const { user, serviceClient } = await authenticateRequest(req);
+    customerId =
+      (await loadEntitlement(serviceClient, user.id))?.stripeCustomerId ?? null;
+  } catch (error) {
+    const code = error instanceof Error ? error.message : "";
+    const unauthenticated = code === "AUTH_REQUIRED" || code === "AUTH_INVALID";
+    return jsonResponse(
+      req,
+      {
+        error: unauthenticated
+          ? "Authentification requise."
+          : "Abonnement introuvable pour le moment.",
+      },
+      { status: unauthenticated ? 401 : 503 },
+    );
+  }
+
+  if (!customerId) {
+    return jsonResponse(
+      req,
+      { error: "Aucun abonnement Stripe n'est associé à ce compte." },
+      { status: 404 },
+    );
+  }
+
+  try {
+    const session = await stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: returnUrlFor(req),
+    });
+    return jsonResponse(req, { url: session.url }, { status: 200 });
+  } catch (error) {
+    console.error("[Stripe] Échec de la création du portail client:", error);
+    return jsonResponse(
+      req,
+      { error: "Impossible d'ouvrir le portail de facturation." },
+      { status: 502 },
+    );
+  }
+});
@@ -1,6 +1,7 @@
 import Stripe from "https://esm.sh/stripe@12.18.0?target=deno";
 import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
 
+import { authenticateRequest } from "../_shared/auth-v2.ts";
 import {
   handleOptions,
   jsonResponse,
@@ -109,6 +110,19 @@ Deno.serve(async (req: Request) => {
     );
   }
 
+  // The webhook links the subscription back to this player through
+  // client_reference_id, so anonymous checkouts are refused.
+  let userId: string;
+  try {
+    userId = (await authenticateRequest(req)).user.id;
+  } catch (_error) {
+    return jsonResponse(
+      req,
+      { error: "Connectez-vous pour souscrire un abonnement." },
+      { status: 401 },
+    );
+  }
+
   let payload: unknown;
   try {
     payload = await req.json();
@@ -155,9 +169,10 @@ Deno.serve(async (req: Request) => {
   );
 
   const sessionMetadata = {
+    ...(metadata ?? {}),
     planId,
     billingInterval,
-    ...(metadata ?? {}),
+    userId,
   };
 
   try {
@@ -173,6 +188,7 @@ Deno.serve(async (req: Request) => {
       allow_promotion_codes: true,
       customer_creation: "always",
       automatic_tax: { enabled: true },
+      client_reference_id: userId,
       success_url: effectiveSuccessUrl,
       cancel_url: effectiveCancelUrl,
       metadata: sessionMetadata,
@@ -1,5 +1,6 @@
 import { authenticateRequest } from "../_shared/auth-v2.ts";
 import { handlePreflight, jsonResponse } from "../_shared/cors-v2.ts";
+import { analyzeRuleComposition } from "../_shared/rules-v2/index.ts";
 
 const UUID_PATTERN =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -81,6 +82,38 @@ Deno.serve(async (request) => {
       });
     }
 
+    const { data: versions, error: versionsError } = await userClient
+      .from("rule_versions")
+      .select("id, blueprint_json")
+      .in("id", ids);
+
+    if (versionsError || !Array.isArray(versions)) {
+      throw new Error("LOBBY_RULES_UNAVAILABLE");
+    }
+
+    const blueprints = new Map(
+      versions.map((version) => [version.id, version.blueprint_json]),
+    );
+    if (ids.some((id) => !blueprints.has(id))) {
+      throw new Error("LOBBY_RULES_UNAVAILABLE");
+    }
+
+    const compositionDiagnostics = analyzeRuleComposition(
+      ids.map((id) => blueprints.get(id)),
+    );
+    const compositionError = compositionDiagnostics.find(
+      (diagnostic) => diagnostic.severity === "error",
+    );
+
+    if (compositionError) {
+      return jsonResponse(request, 409, {
+        success: false,
+        code: "RULE_COMPOSITION_CONFLICT",
+        error: `Ces règles ne peuvent pas être combinées : ${compositionError.message}`,
+        diagnostics: compositionDiagnostics,
+      });
+    }
+
     const { data, error } = await userClient.rpc("create_rule_lobby_v2", {
       p_name: name,
       p_rule_version_ids: ids,
@@ -105,6 +138,7 @@ Deno.serve(async (request) => {
         rulesetHash: row.ruleset_hash,
         matchSeed: row.match_seed === null ? null : Number(row.match_seed),
         legacyRuleIds: row.legacy_rule_ids,
+        compositionDiagnostics,
       },
     });
   } catch (error) {
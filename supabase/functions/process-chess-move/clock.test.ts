@@ -53,3 +53,84 @@ Deno.test("une horloge non entière ou incomplète échoue fermée", () => {
   }
   throw new Error("Une horloge invalide a été acceptée.");
 });
+
+Deno.test("le délai simple n'entame l'horloge qu'après son expiration", () => {
+  const clock = {
+    whiteMs: 10_000,
+    blackMs: 10_000,
+    incrementMs: 0,
+    delayMs: 5_000,
+    delayMode: "simple",
+  };
+  const quick = computeAuthoritativeClock(
+    clock,
+    "white",
+    START,
+    Date.parse("2026-07-20T12:00:04.000Z"),
+  );
+  const slow = computeAuthoritativeClock(
+    clock,
+    "white",
+    START,
+    Date.parse("2026-07-20T12:00:15.000Z"),
+  );
+
+  assert(quick.state.whiteMs === 10_000, "Le délai couvre le coup rapide.");
+  assert(slow.expired, "Le délai ne prolonge pas l'horloge au-delà de zéro.");
+});
+
+Deno.test("le délai Bronstein rend au plus le temps consommé", () => {
+  const clock = {
+    whiteMs: 10_000,
+    blackMs: 10_000,
+    incrementMs: 0,
+    delayMs: 3_000,
+    delayMode: "bronstein",
+  };
+  const quick = computeAuthoritativeClock(
+    clock,
+    "black",
+    START,
+    Date.parse("2026-07-20T12:00:02.000Z"),
+  );
+  const slow = computeAuthoritativeClock(
+    clock,
+    "black",
+    START,
+    Date.parse("2026-07-20T12:00:07.000Z"),
+  );
+
+  assert(quick.state.blackMs === 10_000, "Le temps consommé est rendu.");
+  assert(slow.state.blackMs === 6_000, "Le remboursement est plafonné.");
+  assert(
+    slow.remainingBeforeIncrementMs === 3_000,
+    "Le temps restant avant remboursement reste tracé.",
+  );
+});
+
+Deno.test("un délai incohérent avec son mode échoue fermé", () => {
+  for (
+    const clock of [
+      { delayMs: 2_000, delayMode: "none" },
+      { delayMs: 0, delayMode: "simple" },
+      { delayMs: 2_000, delayMode: "fischer" },
+    ]
+  ) {
+    try {
+      parseClockState({
+        whiteMs: 1_000,
+        blackMs: 1_000,
+        incrementMs: 0,
+        ...clock,
+      });
+    } catch (error) {
+      assert(
+        error instanceof MoveProcessingError &&
+          error.code === "INVALID_CLOCK_STATE",
+        "Un délai invalide doit être refusé.",
+      );
+      continue;
+    }
+    throw new Error("Un délai invalide a été accepté.");
+  }
+});
@@ -2,10 +2,18 @@ import { MoveProcessingError } from "./protocol.ts";
 
 export type ChessSide = "white" | "black";
 
+/**
+ * `simple` (US) delay waits before the clock starts running; `bronstein`
+ * returns the time spent on the move, capped at the delay.
+ */
+export type ClockDelayMode = "none" | "simple" | "bronstein";
+
 export interface AuthoritativeClockState {
   whiteMs: number;
   blackMs: number;
   incrementMs: number;
+  delayMs: number;
+  delayMode: ClockDelayMode;
 }
 
 export interface ClockTransition {
@@ -18,10 +26,12 @@ export interface ClockTransition {
 const MAX_CLOCK_VALUE_MS = 100_000_000_000;
 const MAX_RECORDED_MOVE_DURATION_MS = 604_800_000;
 const MAX_FUTURE_CLOCK_SKEW_MS = 60_000;
+const MAX_DELAY_MS = 300_000;
+const DELAY_MODES: readonly ClockDelayMode[] = ["none", "simple", "bronstein"];
 
 function readClockInteger(
   value: Record<string, unknown>,
-  key: keyof AuthoritativeClockState,
+  key: "whiteMs" | "blackMs" | "incrementMs" | "delayMs",
 ): number {
   const candidate = value[key];
   if (
@@ -41,10 +51,24 @@ export function parseClockState(value: unknown): AuthoritativeClockState {
   }
 
   const record = value as Record<string, unknown>;
+  // Matches created before delays existed store neither field.
+  const delayMode = record.delayMode ?? "none";
+  const delayMs = record.delayMs === undefined && delayMode === "none"
+    ? 0
+    : readClockInteger(record, "delayMs");
+  if (
+    !DELAY_MODES.includes(delayMode as ClockDelayMode) ||
+    delayMs > MAX_DELAY_MS ||
+    (delayMode === "none") !== (delayMs === 0)
+  ) {
+    throw new MoveProcessingError("INVALID_CLOCK_STATE");
+  }
   return {
     whiteMs: readClockInteger(record, "whiteMs"),
     blackMs: readClockInteger(record, "blackMs"),
     incrementMs: readClockInteger(record, "incrementMs"),
+    delayMs,
+    delayMode: delayMode as ClockDelayMode,
   };
 }
 
@@ -68,7 +92,10 @@ export function computeAuthoritativeClock(
 
   const spentMs = Math.max(0, Math.floor(nowMs - turnStartedMs));
   const currentMs = side === "white" ? state.whiteMs : state.blackMs;
-  const remainingMs = currentMs - spentMs;
+  const chargedMs = state.delayMode === "simple"
+    ? Math.max(0, spentMs - state.delayMs)
+    : spentMs;
+  const remainingMs = currentMs - chargedMs;
 
   if (remainingMs <= 0) {
     return {
@@ -86,7 +113,10 @@ export function computeAuthoritativeClock(
     throw new MoveProcessingError("INVALID_CLOCK_STATE");
   }
 
-  const afterIncrementMs = remainingMs + state.incrementMs;
+  const refundedMs = state.delayMode === "bronstein"
+    ? Math.min(spentMs, state.delayMs)
+    : 0;
+  const afterIncrementMs = remainingMs + refundedMs + state.incrementMs;
   if (
     !Number.isSafeInteger(afterIncrementMs) ||
     afterIncrementMs > MAX_CLOCK_VALUE_MS
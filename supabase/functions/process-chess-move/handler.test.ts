@@ -1,6 +1,11 @@
 import type { AuthenticatedClients } from "../_shared/auth-v2.ts";
 import { createProcessChessMoveHandler } from "./index.ts";
 import { sha256Hex, standardRulesetHash } from "./integrity.ts";
+import {
+  parsePinnedRuleVersions,
+  pinnedRulesetHash,
+  type VariantRuntimeModule,
+} from "./variant-engine.ts";
 
 function assert(condition: unknown, message: string): asserts condition {
   if (!condition) {
@@ -21,6 +26,8 @@ const COMMAND_ID = "22222222-2222-4222-8222-222222222222";
 const CLIENT_COMMAND_ID = "33333333-3333-4333-8333-333333333333";
 const WHITE_PLAYER_ID = "44444444-4444-4444-8444-444444444444";
 const BLACK_PLAYER_ID = "55555555-5555-4555-8555-555555555555";
+const ROOM_ID = "66666666-6666-4666-8666-666666666666";
+const RULE_VERSION_ID = "77777777-7777-4777-8777-777777777777";
 const INITIAL_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
 
 const validBody = {
@@ -42,6 +49,7 @@ interface FakeScenario {
   command: Record<string, unknown>;
   match: Record<string, unknown>;
   serviceRpc: Record<string, DatabaseResult>;
+  lists?: Record<string, unknown[]>;
 }
 
 class FakeQueryBuilder {
@@ -65,6 +73,31 @@ class FakeQueryBuilder {
     return this;
   }
 
+  order(_column: string, _options: { ascending: boolean }): this {
+    return this;
+  }
+
+  limit(count: number): this {
+    this.#filters.set("limit", count);
+    return this;
+  }
+
+  then<T>(
+    resolve: (result: DatabaseResult) => T,
+    reject?: (reason: unknown) => T,
+  ): Promise<T> {
+    this.#calls.push({
+      name: `service:list:${this.#table}`,
+      arguments: Object.fromEntries(this.#filters),
+    });
+    const rows = this.#scenario.lists?.[this.#table];
+    return Promise.resolve(
+      rows
+        ? { data: rows, error: null }
+        : { data: null, error: { code: "UNEXPECTED_TABLE" } },
+    ).then(resolve, reject);
+  }
+
   maybeSingle(): Promise<DatabaseResult> {
     this.#calls.push({
       name: `service:read:${this.#table}`,
@@ -131,6 +164,7 @@ async function makeMatchRow(
   const ruleStateHash = "a".repeat(64);
   return {
     id: MATCH_ID,
+    room_id: ROOM_ID,
     status: "active",
     result: null,
     termination: null,
@@ -173,6 +207,7 @@ function makeCommandRow(
     client_command_id: CLIENT_COMMAND_ID,
     expected_revision: 0,
     uci,
+    rule_action: null,
     status,
     rejection_reason: null,
     created_at: "2026-07-20T12:00:01.000Z",
@@ -407,6 +442,71 @@ Deno.test(
   },
 );
 
+Deno.test(
+  "la triple répétition est finalisée depuis l'historique serveur",
+  async () => {
+    const calls: RecordedCall[] = [];
+    const repeatedFen =
+      "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 8 5";
+    const scenario: FakeScenario = {
+      submission: { data: [{ command_id: COMMAND_ID }], error: null },
+      command: makeCommandRow("pending", "g1f3"),
+      match: await makeMatchRow({
+        current_fen: repeatedFen,
+        position_hash: await sha256Hex(repeatedFen),
+      }),
+      serviceRpc: {
+        commit_and_finalize_chess_move_server: {
+          data: [{ move_revision: 1, authoritative_revision: 2 }],
+          error: null,
+        },
+      },
+      lists: {
+        chess_match_moves: [
+          "rnbqkb1r/pppppppp/5n2/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 7 4",
+          "rnbqkb1r/pppppppp/5n2/8/8/5N2/PPPPPPPP/RNBQKB1R w KQkq - 6 4",
+          "rnbqkbnr/pppppppp/8/8/8/5N2/PPPPPPPP/RNBQKB1R b KQkq - 5 3",
+          "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 4 3",
+          "rnbqkb1r/pppppppp/5n2/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 3 2",
+          "rnbqkb1r/pppppppp/5n2/8/8/5N2/PPPPPPPP/RNBQKB1R w KQkq - 2 2",
+          "rnbqkbnr/pppppppp/8/8/8/5N2/PPPPPPPP/RNBQKB1R b KQkq - 1 1",
+          INITIAL_FEN,
+        ].map((fen) => ({ fen_before: fen })),
+      },
+    };
+    const clients = fakeAuthenticatedClients(scenario, calls);
+    const handler = createProcessChessMoveHandler({
+      authenticateRequest: () => Promise.resolve(clients),
+    });
+
+    const response = await handler(postRequest({ ...validBody, uci: "g1f3" }));
+    const historyRead = calls.find(
+      (call) => call.name === "service:list:chess_match_moves",
+    );
+    const commit = calls.find(
+      (call) =>
+        call.name === "service:rpc:commit_and_finalize_chess_move_server",
+    );
+
+    assertEquals(response.status, 200, "Le coup répété doit être accepté");
+    assertEquals(
+      historyRead?.arguments?.limit,
+      8,
+      "L'historique doit être borné par le compteur de demi-coups",
+    );
+    assertEquals(
+      commit?.arguments?.p_terminal_termination,
+      "threefold-repetition",
+      "La répétition doit finaliser la partie",
+    );
+    assertEquals(
+      commit?.arguments?.p_terminal_result,
+      "1/2-1/2",
+      "La répétition doit produire une nulle",
+    );
+  },
+);
+
 Deno.test(
   "un coup illégal est rejeté et n'atteint jamais le commit",
   async () => {
@@ -554,3 +654,289 @@ Deno.test(
     );
   },
 );
+
+const RULE_ACTION = {
+  actionId: "rule.teleport-knight@1:teleport",
+  pieceTile: "g1",
+  targetTile: "d4",
+};
+const VARIANT_FEN_AFTER =
+  "rnbqkbnr/pppppppp/8/8/3N4/8/PPPPPPPP/RNBQKB1R b KQkq - 1 1";
+const VARIANT_RULE_STATE_HASH = "b".repeat(64);
+
+const pinnedRuleRows = [
+  {
+    ordinal: 1,
+    rule_version_id: RULE_VERSION_ID,
+    rule_versions: {
+      content_hash: "c".repeat(64),
+      engine_version: "2.0.0",
+      rule_json: { ruleId: "teleport-knight" },
+    },
+  },
+];
+
+async function makeVariantMatchRow(): Promise<Record<string, unknown>> {
+  const rulesetHash = await pinnedRulesetHash(
+    parsePinnedRuleVersions(pinnedRuleRows),
+  );
+  const base = await makeMatchRow({ ruleset_hash: rulesetHash });
+  return {
+    ...base,
+    state: {
+      ...(base.state as Record<string, unknown>),
+      rulesetType: "custom",
+      rulesetHash,
+    },
+  };
+}
+
+function makeVariantScenario(
+  match: Record<string, unknown>,
+): FakeScenario {
+  return {
+    submission: { data: [{ command_id: COMMAND_ID }], error: null },
+    command: {
+      ...makeCommandRow("pending", "0000"),
+      rule_action: RULE_ACTION,
+    },
+    match,
+    serviceRpc: {
+      commit_and_finalize_chess_move_server: {
+        data: [{ move_revision: 1, authoritative_revision: 1 }],
+        error: null,
+      },
+      reject_chess_move_command_server: { data: true, error: null },
+    },
+    lists: {
+      chess_room_rule_versions: pinnedRuleRows,
+      chess_move_commands: [],
+    },
+  };
+}
+
+function fakeVariantRuntime(
+  replays: Record<string, unknown>[],
+  rejection?: string,
+): VariantRuntimeModule {
+  return {
+    VARIANT_RUNTIME_ID: "rule-architect-variant-v1",
+    replayVariantMatch: (identity, rules, commands) => {
+      replays.push({ identity, rules, commands });
+      return Promise.resolve({
+        fen: INITIAL_FEN,
+        sideToMove: "white",
+        ruleStateHash: () => Promise.resolve("a".repeat(64)),
+        apply: (command) => {
+          if (rejection) {
+            const error = Object.assign(new Error(rejection), {
+              name: "VariantRuntimeError",
+              code: rejection,
+            });
+            return Promise.reject(error);
+          }
+          return Promise.resolve({
+            uci: command.uci,
+            ruleAction: command.ruleAction,
+            san: null,
+            fenBefore: INITIAL_FEN,
+            fenAfter: VARIANT_FEN_AFTER,
+            nextSide: "black",
+            isCheck: false,
+            terminal: null,
+            ruleState: { version: "variant-rule-state-v1", ply: 1 },
+            ruleStateHash: VARIANT_RULE_STATE_HASH,
+          });
+        },
+      });
+    },
+  };
+}
+
+Deno.test(
+  "une action de règle variante est rejouée sur le ruleset épinglé puis commitée",
+  async () => {
+    const calls: RecordedCall[] = [];
+    const replays: Record<string, unknown>[] = [];
+    const scenario = makeVariantScenario(await makeVariantMatchRow());
+    const clients = fakeAuthenticatedClients(scenario, calls);
+    const handler = createProcessChessMoveHandler({
+      authenticateRequest: () => Promise.resolve(clients),
+      loadVariantRuntime: () => Promise.resolve(fakeVariantRuntime(replays)),
+    });
+
+    const response = await handler(
+      postRequest({
+        ...validBody,
+        uci: "0000",
+        ruleAction: RULE_ACTION,
+        ruleStateHash: VARIANT_RULE_STATE_HASH,
+      }),
+    );
+    const payload = await responsePayload(response);
+    const move = (payload.data as Record<string, unknown>).move as Record<
+      string,
+      unknown
+    >;
+
+    assertEquals(response.status, 200, "L'action légale doit être acceptée");
+    assertEquals(
+      move.ruleStateHash,
+      VARIANT_RULE_STATE_HASH,
+      "Le hash d'état de règles doit venir de la rejouabilité serveur",
+    );
+    assertEquals(
+      calls.map((call) => call.name).join(" -> "),
+      [
+        "user:rpc:submit_chess_move_command",
+        "service:read:chess_move_commands",
+        "service:read:chess_matches",
+        "service:list:chess_room_rule_versions",
+        "service:list:chess_move_commands",
+        "service:rpc:commit_and_finalize_chess_move_server",
+      ].join(" -> "),
+      "Le validateur doit lire les règles épinglées et le journal avant le commit",
+    );
+    const submission = calls[0].arguments ?? {};
+    assertEquals(
+      (submission.p_rule_action as Record<string, unknown>).actionId,
+      RULE_ACTION.actionId,
+      "L'action doit être liée à la clé d'idempotence",
+    );
+    const journalRead = calls[4].arguments ?? {};
+    assertEquals(
+      journalRead.status,
+      "accepted",
+      "Seules les commandes acceptées forment le journal",
+    );
+    const identity = replays[0]?.identity as Record<string, unknown>;
+    assertEquals(identity.lobbyId, ROOM_ID, "La graine doit lier la salle");
+    assertEquals(identity.matchSeed, "42", "La graine partagée doit être lue");
+    const commit = calls[5].arguments ?? {};
+    assertEquals(
+      commit.p_rule_state_hash,
+      VARIANT_RULE_STATE_HASH,
+      "Le commit doit persister le hash serveur",
+    );
+    assertEquals(
+      (
+        (commit.p_event_payload as Record<string, unknown>).validator as Record<
+          string,
+          unknown
+        >
+      ).kind,
+      "variant",
+      "L'événement doit nommer le validateur variante",
+    );
+  },
+);
+
+Deno.test(
+  "une divergence du hash client rejette la commande variante sans commit",
+  async () => {
+    const calls: RecordedCall[] = [];
+    const scenario = makeVariantScenario(await makeVariantMatchRow());
+    const clients = fakeAuthenticatedClients(scenario, calls);
+    const handler = createProcessChessMoveHandler({
+      authenticateRequest: () => Promise.resolve(clients),
+      loadVariantRuntime: () => Promise.resolve(fakeVariantRuntime([])),
+    });
+
+    const response = await handler(
+      postRequest({
+        ...validBody,
+        uci: "0000",
+        ruleAction: RULE_ACTION,
+        ruleStateHash: "d".repeat(64),
+      }),
+    );
+    const payload = await responsePayload(response);
+    const rejection = calls.find(
+      (call) => call.name === "service:rpc:reject_chess_move_command_server",
+    );
+
+    assertEquals(
+      (payload.error as Record<string, unknown>).code,
+      "RULE_STATE_HASH_MISMATCH",
+      "La désynchronisation doit être signalée",
+    );
+    assertEquals(
+      rejection?.arguments?.p_reason,
+      "RULE_STATE_HASH_MISMATCH",
+      "Le rejet doit être persisté avec la raison exacte",
+    );
+    assert(
+      !calls.some(
+        (call) =>
+          call.name === "service:rpc:commit_and_finalize_chess_move_server",
+      ),
+      "Une projection divergente ne doit jamais être commitée",
+    );
+  },
+);
+
+Deno.test(
+  "une action refusée par le RuleEngine est rejetée avec un code dédié",
+  async () => {
+    const calls: RecordedCall[] = [];
+    const scenario = makeVariantScenario(await makeVariantMatchRow());
+    const clients = fakeAuthenticatedClients(scenario, calls);
+    const handler = createProcessChessMoveHandler({
+      authenticateRequest: () => Promise.resolve(clients),
+      loadVariantRuntime: () =>
+        Promise.resolve(fakeVariantRuntime([], "RULE_ACTION_REJECTED")),
+    });
+
+    const response = await handler(
+      postRequest({ ...validBody, uci: "0000", ruleAction: RULE_ACTION }),
+    );
+    const payload = await responsePayload(response);
+
+    assertEquals(response.status, 422, "L'action refusée doit être un 422");
+    assertEquals(
+      (payload.error as Record<string, unknown>).code,
+      "RULE_ACTION_REJECTED",
+      "Le code de rejet d'action doit rester stable",
+    );
+  },
+);
+
+Deno.test(
+  "un ruleset épinglé altéré bloque la partie avant de charger le runtime",
+  async () => {
+    const calls: RecordedCall[] = [];
+    let runtimeLoads = 0;
+    const match = await makeVariantMatchRow();
+    const tampered = {
+      ...match,
+      ruleset_hash: "e".repeat(64),
+      state: {
+        ...(match.state as Record<string, unknown>),
+        rulesetHash: "e".repeat(64),
+      },
+    };
+    const clients = fakeAuthenticatedClients(
+      makeVariantScenario(tampered),
+      calls,
+    );
+    const handler = createProcessChessMoveHandler({
+      authenticateRequest: () => Promise.resolve(clients),
+      loadVariantRuntime: () => {
+        runtimeLoads += 1;
+        return Promise.resolve(fakeVariantRuntime([]));
+      },
+    });
+
+    const response = await handler(
+      postRequest({ ...validBody, uci: "0000", ruleAction: RULE_ACTION }),
+    );
+    const payload = await responsePayload(response);
+
+    assertEquals(
+      (payload.error as Record<string, unknown>).code,
+      "MATCH_STATE_INTEGRITY_FAILED",
+      "Un hash de ruleset incohérent doit bloquer la validation",
+    );
+    assertEquals(runtimeLoads, 0, "Le runtime ne doit pas être chargé");
+  },
+);
@@ -7,13 +7,16 @@ import { computeAuthoritativeClock } from "./clock.ts";
 import {
   createRuleStateHash,
   createTimeoutVerificationReference,
+  createVariantVerificationReference,
   createVerificationReference,
 } from "./integrity.ts";
 import {
   assertActiveTurn,
   assertCommandMatchesRequest,
   assertStandardMatchPolicy,
+  assertVariantMatchPolicy,
   type ChessMatchRow,
+  isVariantMatch,
   type MoveCommandRow,
   parseChessMatchRow,
   parseMoveCommandRow,
@@ -29,6 +32,12 @@ import {
   STANDARD_VALIDATOR_ID,
   validateStandardMove,
 } from "./standard-engine.ts";
+import {
+  loadGeneratedVariantRuntime,
+  validateVariantCommand,
+  VARIANT_VALIDATOR_POLICY,
+  type VariantRuntimeLoader,
+} from "./variant-engine.ts";
 
 type ServiceClient = AuthenticatedClients["serviceClient"];
 
@@ -39,6 +48,7 @@ const COMMAND_SELECT = [
   "client_command_id",
   "expected_revision",
   "uci",
+  "rule_action",
   "status",
   "rejection_reason",
   "created_at",
@@ -46,6 +56,7 @@ const COMMAND_SELECT = [
 
 const MATCH_SELECT = [
   "id",
+  "room_id",
   "status",
   "result",
   "termination",
@@ -90,6 +101,10 @@ const ERROR_MESSAGES: Record<MoveErrorCode, string> = {
   MOVE_ALREADY_PENDING: "Un coup est déjà en attente pour cette position.",
   NOT_YOUR_TURN: "Ce n'est pas au joueur authentifié de jouer.",
   PROCESSING_FAILED: "Le coup n'a pas pu être traité de façon sûre.",
+  RULE_ACTION_REJECTED:
+    "Cette action de règle n'est pas autorisée dans la position courante.",
+  RULE_STATE_HASH_MISMATCH:
+    "L'état des règles calculé par le client diverge de celui du serveur.",
   STALE_MATCH_REVISION: "La position a changé; recharge la partie.",
   UNSUPPORTED_ENGINE_VERSION:
     "La version du moteur de cette partie n'est pas prise en charge.",
@@ -110,6 +125,7 @@ function errorStatus(code: MoveErrorCode): number {
       return 405;
     case "CUSTOM_RULES_VALIDATOR_NOT_AVAILABLE":
     case "ILLEGAL_MOVE":
+    case "RULE_ACTION_REJECTED":
       return 422;
     case "INVALID_AUTHORITATIVE_POSITION":
     case "INVALID_CLOCK_STATE":
@@ -299,6 +315,11 @@ async function handleSubmissionTimeout(
   authenticatedUserId: string,
 ): Promise<Response> {
   const match = await loadMatch(serviceClient, input.matchId);
+  if (isVariantMatch(match)) {
+    // Timeout claims still run the standard material check in PostgreSQL, so
+    // custom matches report the flag without finalizing it here.
+    throw new MoveProcessingError("CLOCK_EXPIRED");
+  }
   await assertStandardMatchPolicy(match);
 
   if (match.status !== "active" || match.revision !== input.expectedRevision) {
@@ -322,14 +343,179 @@ async function handleSubmissionTimeout(
   });
 }
 
+interface ValidatedCommand {
+  uci: string;
+  san: string | null;
+  fenBefore: string;
+  fenAfter: string;
+  nextSide: ChessMatchRow["sideToMove"];
+  terminal: {
+    result: "1-0" | "0-1" | "1/2-1/2";
+    termination: string;
+  } | null;
+  ruleStateHash: string;
+  verificationReference: string | null;
+  eventPayload: Record<string, unknown>;
+}
+
+// A position can only occur three times after at least eight reversible plies.
+const MIN_REPETITION_PLIES = 8;
+
+/**
+ * Loads the positions reached since the last capture or pawn move. The
+ * halfmove clock of the authoritative FEN bounds how far back to read.
+ */
+async function loadRepetitionHistory(
+  serviceClient: ServiceClient,
+  match: ChessMatchRow,
+): Promise<string[]> {
+  const halfmoveClock = Number.parseInt(
+    match.currentFen.trim().split(/\s+/)[4] ?? "",
+    10,
+  );
+  if (
+    !Number.isSafeInteger(halfmoveClock) ||
+    halfmoveClock + 1 < MIN_REPETITION_PLIES
+  ) {
+    return [];
+  }
+
+  const { data, error } = await serviceClient
+    .from("chess_match_moves")
+    .select("fen_before")
+    .eq("match_id", match.id)
+    .order("ply", { ascending: false })
+    .limit(halfmoveClock);
+  if (
+    error ||
+    !Array.isArray(data) ||
+    data.some(
+      (row) =>
+        typeof row !== "object" ||
+        row === null ||
+        typeof (row as { fen_before?: unknown }).fen_before !== "string",
+    )
+  ) {
+    console.error("[process-chess-move]", {
+      operation: "load_repetition_history",
+      databaseCode: databaseErrorCode(error),
+    });
+    throw new MoveProcessingError("PROCESSING_FAILED");
+  }
+  return (data as { fen_before: string }[])
+    .map((row) => row.fen_before)
+    .reverse();
+}
+
+async function validateStandardCommand(
+  serviceClient: ServiceClient,
+  match: ChessMatchRow,
+  command: MoveCommandRow,
+): Promise<ValidatedCommand> {
+  const move = validateStandardMove(
+    match.currentFen,
+    command.uci,
+    await loadRepetitionHistory(serviceClient, match),
+  );
+  if (move.nextSide === match.sideToMove) {
+    throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+  }
+
+  const moveRevision = command.expectedRevision + 1;
+  return {
+    ...move,
+    ruleStateHash: await createRuleStateHash({
+      rulesetHash: match.rulesetHash,
+      sharedSeed: match.sharedSeed,
+      revision: moveRevision,
+      fen: move.fenAfter,
+    }),
+    verificationReference: move.terminal
+      ? await createVerificationReference({
+          matchId: match.id,
+          revision: moveRevision,
+          fen: move.fenAfter,
+          result: move.terminal.result,
+          termination: move.terminal.termination,
+          rulesetHash: match.rulesetHash,
+        })
+      : null,
+    eventPayload: {
+      validator: {
+        kind: "standard",
+        implementation: STANDARD_VALIDATOR_ID,
+        policy: "standard-validator-v1",
+      },
+      isCheck: move.isCheck,
+      terminal: move.terminal,
+    },
+  };
+}
+
+async function validateCustomCommand(
+  serviceClient: ServiceClient,
+  match: ChessMatchRow,
+  command: MoveCommandRow,
+  expectedRuleStateHash: string | undefined,
+  loadRuntime: VariantRuntimeLoader,
+): Promise<ValidatedCommand> {
+  const transition = await validateVariantCommand(
+    serviceClient,
+    match,
+    command,
+    expectedRuleStateHash,
+    loadRuntime,
+  );
+  const moveRevision = command.expectedRevision + 1;
+  return {
+    uci: transition.uci,
+    san: transition.san,
+    fenBefore: transition.fenBefore,
+    fenAfter: transition.fenAfter,
+    nextSide: transition.nextSide,
+    terminal: transition.terminal,
+    ruleStateHash: transition.ruleStateHash,
+    verificationReference: transition.terminal
+      ? await createVariantVerificationReference({
+          validatorId: transition.validatorId,
+          matchId: match.id,
+          revision: moveRevision,
+          fen: transition.fenAfter,
+          result: transition.terminal.result,
+          termination: transition.terminal.termination,
+          rulesetHash: match.rulesetHash,
+          ruleStateHash: transition.ruleStateHash,
+        })
+      : null,
+    eventPayload: {
+      validator: {
+        kind: "variant",
+        implementation: transition.validatorId,
+        policy: VARIANT_VALIDATOR_POLICY,
+      },
+      ruleAction: transition.ruleAction,
+      ruleState: transition.ruleState,
+      isCheck: transition.isCheck,
+      terminal: transition.terminal,
+    },
+  };
+}
+
 async function processPendingCommand(
   request: Request,
   serviceClient: ServiceClient,
   command: MoveCommandRow,
   match: ChessMatchRow,
+  expectedRuleStateHash: string | undefined,
+  loadRuntime: VariantRuntimeLoader,
 ): Promise<Response> {
+  const variant = isVariantMatch(match);
   try {
-    await assertStandardMatchPolicy(match);
+    if (variant) {
+      await assertVariantMatchPolicy(match);
+    } else {
+      await assertStandardMatchPolicy(match);
+    }
     assertActiveTurn(match, command);
   } catch (error) {
     return await rejectAndRethrow(serviceClient, command, error);
@@ -349,6 +535,15 @@ async function processPendingCommand(
   })();
   const resolvedClock = await clock;
 
+  if (resolvedClock.expired && variant) {
+    // Timeout finalization only knows standard material; a custom match keeps
+    // its clock flag until the timeout RPCs learn the pinned ruleset.
+    return await rejectAndRethrow(
+      serviceClient,
+      command,
+      new MoveProcessingError("CLOCK_EXPIRED"),
+    );
+  }
   if (resolvedClock.expired) {
     const terminal = await finalizeTimeout(
       serviceClient,
@@ -363,33 +558,22 @@ async function processPendingCommand(
     });
   }
 
-  let move;
+  let move: ValidatedCommand;
   try {
-    move = validateStandardMove(match.currentFen, command.uci);
-    if (move.nextSide === match.sideToMove) {
-      throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
-    }
+    move = variant
+      ? await validateCustomCommand(
+          serviceClient,
+          match,
+          command,
+          expectedRuleStateHash,
+          loadRuntime,
+        )
+      : await validateStandardCommand(serviceClient, match, command);
   } catch (error) {
     return await rejectAndRethrow(serviceClient, command, error);
   }
 
   const moveRevision = command.expectedRevision + 1;
-  const ruleStateHash = await createRuleStateHash({
-    rulesetHash: match.rulesetHash,
-    sharedSeed: match.sharedSeed,
-    revision: moveRevision,
-    fen: move.fenAfter,
-  });
-  const verificationReference = move.terminal
-    ? await createVerificationReference({
-        matchId: match.id,
-        revision: moveRevision,
-        fen: move.fenAfter,
-        result: move.terminal.result,
-        termination: move.terminal.termination,
-        rulesetHash: match.rulesetHash,
-      })
-    : null;
   const { data: committedData, error: commitError } = await serviceClient.rpc(
     "commit_and_finalize_chess_move_server",
     {
@@ -399,20 +583,12 @@ async function processPendingCommand(
       p_fen_after: move.fenAfter,
       p_clock_state: resolvedClock.state,
       p_next_side: move.nextSide,
-      p_rule_state_hash: ruleStateHash,
+      p_rule_state_hash: move.ruleStateHash,
       p_spent_ms: resolvedClock.spentMs,
-      p_event_payload: {
-        validator: {
-          kind: "standard",
-          implementation: STANDARD_VALIDATOR_ID,
-          policy: "standard-validator-v1",
-        },
-        isCheck: move.isCheck,
-        terminal: move.terminal,
-      },
+      p_event_payload: move.eventPayload,
       p_terminal_result: move.terminal?.result ?? null,
       p_terminal_termination: move.terminal?.termination ?? null,
-      p_verification_reference: verificationReference,
+      p_verification_reference: move.verificationReference,
     },
   );
   const committed = firstRpcRow(committedData);
@@ -446,6 +622,12 @@ async function processPendingCommand(
         fenAfter: move.fenAfter,
         nextSide: move.nextSide,
         clockState: resolvedClock.state,
+        ...(variant
+          ? {
+              ruleAction: command.ruleAction,
+              ruleStateHash: move.ruleStateHash,
+            }
+          : {}),
       },
       terminal: move.terminal,
       alreadyProcessed: false,
@@ -455,6 +637,7 @@ async function processPendingCommand(
 
 export interface ProcessChessMoveDependencies {
   authenticateRequest: typeof authenticateRequest;
+  loadVariantRuntime: VariantRuntimeLoader;
 }
 
 export type ProcessChessMoveHandler = (request: Request) => Promise<Response>;
@@ -463,6 +646,8 @@ export function createProcessChessMoveHandler(
   dependencies: Partial<ProcessChessMoveDependencies> = {},
 ): ProcessChessMoveHandler {
   const authenticate = dependencies.authenticateRequest ?? authenticateRequest;
+  const loadVariantRuntime =
+    dependencies.loadVariantRuntime ?? loadGeneratedVariantRuntime;
 
   return async (request: Request): Promise<Response> => {
     const preflight = handlePreflight(request);
@@ -489,6 +674,7 @@ export function createProcessChessMoveHandler(
           p_client_command_id: input.clientCommandId,
           p_uci: input.uci,
           p_submitted_clock_ms: null,
+          p_rule_action: input.ruleAction ?? null,
         });
 
       if (submissionError) {
@@ -519,6 +705,9 @@ export function createProcessChessMoveHandler(
         if (message.includes("COMMAND_RATE_LIMITED")) {
           throw new MoveProcessingError("COMMAND_RATE_LIMITED");
         }
+        if (message.includes("INVALID_RULE_ACTION")) {
+          throw new MoveProcessingError("INVALID_REQUEST");
+        }
 
         console.error("[process-chess-move]", {
           operation: "submit_command",
@@ -580,6 +769,8 @@ export function createProcessChessMoveHandler(
         serviceClient,
         command,
         match,
+        input.ruleStateHash,
+        loadVariantRuntime,
       );
     } catch (error) {
       const authCode = error instanceof Error ? error.message : "";
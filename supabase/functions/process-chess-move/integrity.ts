@@ -86,3 +86,30 @@ export async function createTimeoutVerificationReference(input: {
 
   return `standard-timeout-v1:${evidenceHash}`;
 }
+
+export async function createVariantVerificationReference(input: {
+  validatorId: string;
+  matchId: string;
+  revision: number;
+  fen: string;
+  result: string;
+  termination: string;
+  rulesetHash: string;
+  ruleStateHash: string;
+}): Promise<string> {
+  const evidenceHash = await sha256Hex(
+    [
+      "variant-terminal-v1",
+      input.validatorId,
+      input.matchId,
+      input.revision.toString(10),
+      input.fen,
+      input.result,
+      input.termination,
+      input.rulesetHash,
+      input.ruleStateHash,
+    ].join(":"),
+  );
+
+  return `variant-terminal-v1:${evidenceHash}`;
+}
@@ -3,7 +3,14 @@ import {
   assertStandardPositionHash,
   standardRulesetHash,
 } from "./integrity.ts";
-import { MoveProcessingError, type ProcessMoveRequest } from "./protocol.ts";
+import {
+  MoveProcessingError,
+  NULL_MOVE_UCI,
+  parseRuleActionInput,
+  type ProcessMoveRequest,
+  type RuleActionInput,
+  sameRuleAction,
+} from "./protocol.ts";
 import {
   inspectStandardPosition,
   STANDARD_PLATFORM_ENGINE_VERSION,
@@ -22,6 +29,7 @@ export interface MoveCommandRow {
   clientCommandId: string;
   expectedRevision: number;
   uci: string;
+  ruleAction: RuleActionInput | null;
   status: CommandStatus;
   rejectionReason: string | null;
   createdAt: string;
@@ -29,6 +37,7 @@ export interface MoveCommandRow {
 
 export interface ChessMatchRow {
   id: string;
+  roomId: string;
   status: "pending" | "active" | "completed" | "aborted";
   result: "1-0" | "0-1" | "1/2-1/2" | "*" | null;
   termination: string | null;
@@ -67,6 +76,19 @@ function stringOrNull(value: unknown): string | null | undefined {
   return value === null ? null : typeof value === "string" ? value : undefined;
 }
 
+function parseStoredRuleAction(
+  value: unknown,
+): RuleActionInput | null | undefined {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  try {
+    return parseRuleActionInput(value);
+  } catch {
+    return undefined;
+  }
+}
+
 export function parseMoveCommandRow(value: unknown): MoveCommandRow {
   if (!isRecord(value)) {
     throw new MoveProcessingError("PROCESSING_FAILED");
@@ -75,6 +97,7 @@ export function parseMoveCommandRow(value: unknown): MoveCommandRow {
   const expectedRevision = safeInteger(value.expected_revision);
   const rejectionReason = stringOrNull(value.rejection_reason);
   const createdAt = stringOrNull(value.created_at);
+  const ruleAction = parseStoredRuleAction(value.rule_action);
   const statuses: CommandStatus[] = [
     "pending",
     "accepted",
@@ -94,6 +117,8 @@ export function parseMoveCommandRow(value: unknown): MoveCommandRow {
     expectedRevision === null ||
     expectedRevision < 0 ||
     typeof value.uci !== "string" ||
+    ruleAction === undefined ||
+    (ruleAction !== null) !== (value.uci === NULL_MOVE_UCI) ||
     typeof value.status !== "string" ||
     !statuses.includes(value.status as CommandStatus) ||
     rejectionReason === undefined ||
@@ -110,6 +135,7 @@ export function parseMoveCommandRow(value: unknown): MoveCommandRow {
     clientCommandId: value.client_command_id,
     expectedRevision,
     uci: value.uci,
+    ruleAction,
     status: value.status as CommandStatus,
     rejectionReason,
     createdAt,
@@ -146,6 +172,8 @@ export function parseChessMatchRow(value: unknown): ChessMatchRow {
   if (
     typeof value.id !== "string" ||
     !UUID_PATTERN.test(value.id) ||
+    typeof value.room_id !== "string" ||
+    !UUID_PATTERN.test(value.room_id) ||
     typeof value.status !== "string" ||
     !statuses.includes(value.status as ChessMatchRow["status"]) ||
     (result !== null &&
@@ -179,6 +207,7 @@ export function parseChessMatchRow(value: unknown): ChessMatchRow {
 
   return {
     id: value.id,
+    roomId: value.room_id,
     status: value.status as ChessMatchRow["status"],
     result: result as ChessMatchRow["result"],
     termination,
@@ -228,6 +257,41 @@ export async function assertStandardMatchPolicy(
   }
 }
 
+export function isVariantMatch(match: ChessMatchRow): boolean {
+  return match.state.rulesetType === "custom";
+}
+
+/**
+ * Envelope checks for a Rule Architect match. The pinned ruleset and the rule
+ * state itself are verified by replay in `variant-engine.ts`.
+ */
+export async function assertVariantMatchPolicy(
+  match: ChessMatchRow,
+): Promise<void> {
+  if (!isVariantMatch(match)) {
+    throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+  }
+  if (
+    match.engineVersion !== STANDARD_PLATFORM_ENGINE_VERSION ||
+    match.state.engineVersion !== match.engineVersion
+  ) {
+    throw new MoveProcessingError("UNSUPPORTED_ENGINE_VERSION");
+  }
+  if (
+    match.state.rulesetHash !== match.rulesetHash ||
+    match.state.ruleStateHash !== match.ruleStateHash
+  ) {
+    throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+  }
+
+  await assertStandardPositionHash(match.currentFen, match.positionHash);
+
+  const activeColor = match.currentFen.split(" ")[1];
+  if (activeColor !== (match.sideToMove === "white" ? "w" : "b")) {
+    throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+  }
+}
+
 export function assertCommandMatchesRequest(
   command: MoveCommandRow,
   request: ProcessMoveRequest,
@@ -237,7 +301,8 @@ export function assertCommandMatchesRequest(
     command.matchId !== request.matchId ||
     command.clientCommandId !== request.clientCommandId ||
     command.expectedRevision !== request.expectedRevision ||
-    command.uci !== request.uci
+    command.uci !== request.uci ||
+    !sameRuleAction(command.ruleAction, request.ruleAction)
   ) {
     throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
   }
@@ -32,7 +32,7 @@ const validRequest = {
 };
 
 Deno.test(
-  "le contrat de commande accepte uniquement les quatre champs stricts",
+  "le contrat de commande refuse tout champ hors contrat",
   () => {
     const parsed = parseProcessMoveRequest(validRequest);
     assert(parsed.uci === "e2e4", "Le coup UCI doit être conservé.");
@@ -46,7 +46,67 @@ Deno.test(
       "INVALID_REQUEST",
     );
     assertCode(
-      () => parseProcessMoveRequest({ ...validRequest, uci: "e2e9" }),
+      () => parseProcessMoveRequest({ ...validRequest, uci: "e2e13" }),
+      "INVALID_REQUEST",
+    );
+    assertCode(
+      () => parseProcessMoveRequest({ ...validRequest, uci: "m2m4" }),
+      "INVALID_REQUEST",
+    );
+  },
+);
+
+Deno.test(
+  "le contrat de commande accepte les cases d'un plateau jusqu'à 12×12",
+  () => {
+    const parsed = parseProcessMoveRequest({ ...validRequest, uci: "j10j9" });
+    assert(parsed.uci === "j10j9", "Le coup UCI doit être conservé.");
+  },
+);
+
+Deno.test(
+  "une action de règle voyage uniquement sur le coup nul avec un hash borné",
+  () => {
+    const ruleAction = {
+      actionId: "teleport",
+      pieceTile: "g1",
+      targetTile: "d4",
+    };
+    const parsed = parseProcessMoveRequest({
+      ...validRequest,
+      uci: "0000",
+      ruleAction,
+      ruleStateHash: "a".repeat(64),
+    });
+    assert(
+      parsed.ruleAction?.targetTile === "d4" &&
+        parsed.ruleStateHash === "a".repeat(64),
+      "L'action et le hash projeté doivent être conservés.",
+    );
+
+    assertCode(
+      () => parseProcessMoveRequest({ ...validRequest, ruleAction }),
+      "INVALID_REQUEST",
+    );
+    assertCode(
+      () => parseProcessMoveRequest({ ...validRequest, uci: "0000" }),
+      "INVALID_REQUEST",
+    );
+    assertCode(
+      () =>
+        parseProcessMoveRequest({
+          ...validRequest,
+          uci: "0000",
+          ruleAction: { ...ruleAction, payload: "x" },
+        }),
+      "INVALID_REQUEST",
+    );
+    assertCode(
+      () =>
+        parseProcessMoveRequest({
+          ...validRequest,
+          ruleStateHash: "A".repeat(64),
+        }),
       "INVALID_REQUEST",
     );
   },
@@ -63,6 +123,16 @@ Deno.test("le parseur UCI borne explicitement les promotions", () => {
   assertCode(() => parseUci("a7a8k"), "INVALID_REQUEST");
 });
 
+Deno.test("le parseur UCI lit les cases des plateaux jusqu'à 12×12", () => {
+  const wide = parseUci("j10j12q");
+  assert(
+    wide.from === "j10" && wide.to === "j12" && wide.promotion === "q",
+    "Les rangées à deux chiffres doivent être découpées correctement.",
+  );
+  assertCode(() => parseUci("m1m2"), "INVALID_REQUEST");
+  assertCode(() => parseUci("a13a12"), "INVALID_REQUEST");
+});
+
 Deno.test("le lecteur JSON refuse un corps au-delà de la borne", async () => {
   const request = new Request("https://edge.example.test", {
     method: "POST",
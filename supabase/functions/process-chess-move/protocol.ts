@@ -1,7 +1,14 @@
 const UUID_PATTERN =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
-const UCI_PATTERN = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+/** Up to 12×12 boards: files a–l, ranks 1–12. */
+const UCI_PATTERN = /^([a-l](?:1[0-2]|[1-9]))([a-l](?:1[0-2]|[1-9]))([qrbn])?$/;
+const TILE_PATTERN = /^[a-l](?:1[0-2]|[1-9])$/;
+const RULE_ACTION_ID_PATTERN = /^[a-zA-Z0-9._@:-]{1,160}$/;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/** UCI null move journaling a Rule Architect action as one ply. */
+export const NULL_MOVE_UCI = "0000";
 
 export const MAX_REQUEST_BYTES = 4_096;
 
@@ -24,6 +31,8 @@ export type MoveErrorCode =
   | "MOVE_ALREADY_PENDING"
   | "NOT_YOUR_TURN"
   | "PROCESSING_FAILED"
+  | "RULE_ACTION_REJECTED"
+  | "RULE_STATE_HASH_MISMATCH"
   | "STALE_MATCH_REVISION"
   | "UNSUPPORTED_ENGINE_VERSION";
 
@@ -37,11 +46,21 @@ export class MoveProcessingError extends Error {
   }
 }
 
+export interface RuleActionInput {
+  actionId: string;
+  pieceTile?: string;
+  targetTile?: string;
+}
+
 export interface ProcessMoveRequest {
   matchId: string;
   expectedRevision: number;
   clientCommandId: string;
   uci: string;
+  /** Variant matches only: the state hash the client projected locally. */
+  ruleStateHash?: string;
+  /** Variant matches only: submitted on `NULL_MOVE_UCI`. */
+  ruleAction?: RuleActionInput;
 }
 
 export interface ParsedUci {
@@ -59,16 +78,19 @@ export function parseProcessMoveRequest(value: unknown): ProcessMoveRequest {
   }
 
   const keys = Object.keys(value).sort();
-  const expectedKeys = [
+  const requiredKeys = [
     "clientCommandId",
     "expectedRevision",
     "matchId",
     "uci",
   ];
+  const optionalKeys = ["ruleAction", "ruleStateHash"];
 
   if (
-    keys.length !== expectedKeys.length ||
-    keys.some((key, index) => key !== expectedKeys[index])
+    requiredKeys.some((key) => !keys.includes(key)) ||
+    keys.some(
+      (key) => !requiredKeys.includes(key) && !optionalKeys.includes(key),
+    )
   ) {
     throw new MoveProcessingError("INVALID_REQUEST");
   }
@@ -77,6 +99,11 @@ export function parseProcessMoveRequest(value: unknown): ProcessMoveRequest {
   const expectedRevision = value.expectedRevision;
   const clientCommandId = value.clientCommandId;
   const uci = value.uci;
+  const ruleStateHash = value.ruleStateHash;
+  const ruleAction =
+    value.ruleAction === undefined
+      ? undefined
+      : parseRuleActionInput(value.ruleAction);
 
   if (
     typeof matchId !== "string" ||
@@ -87,7 +114,9 @@ export function parseProcessMoveRequest(value: unknown): ProcessMoveRequest {
     !Number.isSafeInteger(expectedRevision) ||
     expectedRevision < 0 ||
     typeof uci !== "string" ||
-    !UCI_PATTERN.test(uci)
+    (ruleAction ? uci !== NULL_MOVE_UCI : !UCI_PATTERN.test(uci)) ||
+    (ruleStateHash !== undefined &&
+      (typeof ruleStateHash !== "string" || !HASH_PATTERN.test(ruleStateHash)))
   ) {
     throw new MoveProcessingError("INVALID_REQUEST");
   }
@@ -97,20 +126,63 @@ export function parseProcessMoveRequest(value: unknown): ProcessMoveRequest {
     expectedRevision,
     clientCommandId: clientCommandId.toLowerCase(),
     uci,
+    ...(ruleStateHash !== undefined ? { ruleStateHash } : {}),
+    ...(ruleAction ? { ruleAction } : {}),
   };
 }
 
+export function parseRuleActionInput(value: unknown): RuleActionInput {
+  if (!isRecord(value)) {
+    throw new MoveProcessingError("INVALID_REQUEST");
+  }
+
+  const allowedKeys = ["actionId", "pieceTile", "targetTile"];
+  const { actionId, pieceTile, targetTile } = value;
+  if (
+    Object.keys(value).some((key) => !allowedKeys.includes(key)) ||
+    typeof actionId !== "string" ||
+    !RULE_ACTION_ID_PATTERN.test(actionId) ||
+    (pieceTile !== undefined &&
+      (typeof pieceTile !== "string" || !TILE_PATTERN.test(pieceTile))) ||
+    (targetTile !== undefined &&
+      (typeof targetTile !== "string" || !TILE_PATTERN.test(targetTile)))
+  ) {
+    throw new MoveProcessingError("INVALID_REQUEST");
+  }
+
+  return {
+    actionId,
+    ...(pieceTile !== undefined ? { pieceTile } : {}),
+    ...(targetTile !== undefined ? { targetTile } : {}),
+  };
+}
+
+/** Field-by-field equality; jsonb does not preserve key order. */
+export function sameRuleAction(
+  left: RuleActionInput | null | undefined,
+  right: RuleActionInput | null | undefined,
+): boolean {
+  if (!left || !right) {
+    return !left && !right;
+  }
+  return (
+    left.actionId === right.actionId &&
+    left.pieceTile === right.pieceTile &&
+    left.targetTile === right.targetTile
+  );
+}
+
 export function parseUci(uci: string): ParsedUci {
-  if (!UCI_PATTERN.test(uci)) {
+  const parsed = UCI_PATTERN.exec(uci);
+  if (!parsed) {
     throw new MoveProcessingError("INVALID_REQUEST");
   }
 
-  const promotion =
-    uci.length === 5 ? (uci[4] as ParsedUci["promotion"]) : undefined;
+  const promotion = parsed[3] as ParsedUci["promotion"];
 
   return {
-    from: uci.slice(0, 2),
-    to: uci.slice(2, 4),
+    from: parsed[1],
+    to: parsed[2],
     ...(promotion ? { promotion } : {}),
   };
 }
@@ -2,6 +2,7 @@ import { MoveProcessingError } from "./protocol.ts";
 import {
   CHESS_JS_VERSION,
   inspectStandardPosition,
+  positionKey,
   validateStandardMove,
 } from "./standard-engine.ts";
 
@@ -67,3 +68,43 @@ Deno.test("le mat et la nulle par pat sont identifiés côté serveur", () => {
     "Le pat doit produire une nulle.",
   );
 });
+
+Deno.test("la triple répétition exige l'historique autoritaire", () => {
+  const shuffle = [
+    "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 4 3",
+    "rnbqkbnr/pppppppp/8/8/8/5N2/PPPPPPPP/RNBQKB1R b KQkq - 5 3",
+    "rnbqkb1r/pppppppp/5n2/8/8/5N2/PPPPPPPP/RNBQKB1R w KQkq - 6 4",
+    "rnbqkb1r/pppppppp/5n2/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 7 4",
+  ];
+  const fen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 8 5";
+
+  const withoutHistory = validateStandardMove(fen, "g1f3");
+  assert(
+    withoutHistory.terminal === null,
+    "Une FEN isolée ne prouve pas la répétition.",
+  );
+
+  const repeated = validateStandardMove(fen, "g1f3", [
+    "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+    "rnbqkbnr/pppppppp/8/8/8/5N2/PPPPPPPP/RNBQKB1R b KQkq - 1 1",
+    ...shuffle,
+  ]);
+  assert(
+    repeated.terminal?.result === "1/2-1/2" &&
+      repeated.terminal.termination === "threefold-repetition",
+    "La troisième occurrence doit produire une nulle.",
+  );
+  assert(
+    positionKey(repeated.fenAfter) === positionKey(shuffle[1]),
+    "La clé de position ignore les compteurs de coups.",
+  );
+});
+
+Deno.test("la règle des cinquante coups est appliquée automatiquement", () => {
+  const move = validateStandardMove("7k/8/8/8/8/8/8/R6K w - - 99 80", "a1a2");
+  assert(
+    move.terminal?.result === "1/2-1/2" &&
+      move.terminal.termination === "fifty-move-rule",
+    "Le centième demi-coup réversible doit produire une nulle.",
+  );
+});
@@ -11,7 +11,8 @@ export type StandardTermination =
   | "checkmate"
   | "fifty-move-rule"
   | "insufficient-material"
-  | "stalemate";
+  | "stalemate"
+  | "threefold-repetition";
 
 export interface StandardTerminalState {
   result: "1-0" | "0-1" | "1/2-1/2";
@@ -31,7 +32,18 @@ export interface ValidatedStandardMove {
 export const chessColorToSide = (color: "w" | "b"): ChessSide =>
   color === "w" ? "white" : "black";
 
-function terminalState(chess: Chess): StandardTerminalState | null {
+/**
+ * Placement, side, castling rights and en passant square: the FEN fields that
+ * identify a repeated position, without the move counters.
+ */
+export function positionKey(fen: string): string {
+  return fen.trim().split(/\s+/).slice(0, 4).join(" ");
+}
+
+function terminalState(
+  chess: Chess,
+  previousPositions: readonly string[] = [],
+): StandardTerminalState | null {
   if (chess.isCheckmate()) {
     return {
       result: chess.turn() === "w" ? "0-1" : "1-0",
@@ -48,8 +60,15 @@ function terminalState(chess: Chess): StandardTerminalState | null {
     return { result: "1/2-1/2", termination: "fifty-move-rule" };
   }
 
-  // Threefold repetition cannot be proven from a single FEN. The validator
-  // deliberately does not infer it without an authoritative position history.
+  // Threefold repetition is only inferred from the authoritative move history
+  // supplied by the caller; a lone FEN never proves it.
+  const current = positionKey(chess.fen());
+  const occurrences = previousPositions.filter(
+    (fen) => positionKey(fen) === current,
+  ).length;
+  if (occurrences >= 2) {
+    return { result: "1/2-1/2", termination: "threefold-repetition" };
+  }
   return null;
 }
 
@@ -68,9 +87,14 @@ export function inspectStandardPosition(fen: string): {
   }
 }
 
+/**
+ * `previousPositions` lists the FENs reached before `fen` since the last
+ * irreversible move; it only feeds the threefold repetition check.
+ */
 export function validateStandardMove(
   fen: string,
   uci: string,
+  previousPositions: readonly string[] = [],
 ): ValidatedStandardMove {
   let chess: Chess;
   try {
@@ -94,6 +118,6 @@ export function validateStandardMove(
     fenAfter: move.after,
     nextSide: chessColorToSide(chess.turn()),
     isCheck: chess.isCheck(),
-    terminal: terminalState(chess),
+    terminal: terminalState(chess, [...previousPositions, fen]),
   };
 }
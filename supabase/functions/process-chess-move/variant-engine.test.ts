@@ -0,0 +1,109 @@
+import { sha256Hex } from "./integrity.ts";
+import { MoveProcessingError } from "./protocol.ts";
+import {
+  parsePinnedRuleVersions,
+  parseVariantJournal,
+  pinnedRulesetHash,
+} from "./variant-engine.ts";
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertCode(run: () => unknown, expected: string): void {
+  try {
+    run();
+  } catch (error) {
+    assert(
+      error instanceof MoveProcessingError && error.code === expected,
+      `Code attendu: ${expected}`,
+    );
+    return;
+  }
+  throw new Error(`Une erreur ${expected} était attendue.`);
+}
+
+const pinnedRow = (ordinal: number, versionId: string) => ({
+  ordinal,
+  rule_version_id: versionId,
+  rule_versions: {
+    content_hash: "c".repeat(64),
+    engine_version: "2.0.0",
+    rule_json: { ruleId: `rule-${ordinal}` },
+  },
+});
+
+Deno.test(
+  "le hash du ruleset épinglé reproduit le texte jsonb de PostgreSQL",
+  async () => {
+    const versions = parsePinnedRuleVersions([
+      pinnedRow(1, "77777777-7777-4777-8777-777777777777"),
+      pinnedRow(2, "88888888-8888-4888-8888-888888888888"),
+    ]);
+    const expected = await sha256Hex(
+      `[[1, "77777777-7777-4777-8777-777777777777", "${"c".repeat(64)}", "2.0.0"], ` +
+        `[2, "88888888-8888-4888-8888-888888888888", "${"c".repeat(64)}", "2.0.0"]]`,
+    );
+
+    assert(
+      (await pinnedRulesetHash(versions)) === expected,
+      "Le hash doit suivre compute_chess_ruleset_hash.",
+    );
+  },
+);
+
+Deno.test("les règles épinglées doivent être contiguës et complètes", () => {
+  assertCode(() => parsePinnedRuleVersions([]), "MATCH_STATE_INTEGRITY_FAILED");
+  assertCode(
+    () =>
+      parsePinnedRuleVersions([
+        pinnedRow(2, "77777777-7777-4777-8777-777777777777"),
+      ]),
+    "MATCH_STATE_INTEGRITY_FAILED",
+  );
+  assertCode(
+    () =>
+      parsePinnedRuleVersions([
+        {
+          ...pinnedRow(1, "77777777-7777-4777-8777-777777777777"),
+          rule_versions: null,
+        },
+      ]),
+    "MATCH_STATE_INTEGRITY_FAILED",
+  );
+});
+
+Deno.test("le journal lie chaque action de règle au coup nul", () => {
+  const journal = parseVariantJournal([
+    { uci: "e2e4", rule_action: null },
+    {
+      uci: "0000",
+      rule_action: { actionId: "teleport", pieceTile: "g8", targetTile: "d5" },
+    },
+  ]);
+  assert(
+    journal[1].ruleAction?.targetTile === "d5",
+    "L'action journalisée doit être conservée.",
+  );
+
+  assertCode(
+    () =>
+      parseVariantJournal([
+        { uci: "e2e4", rule_action: { actionId: "teleport" } },
+      ]),
+    "MATCH_STATE_INTEGRITY_FAILED",
+  );
+  assertCode(
+    () => parseVariantJournal([{ uci: "0000", rule_action: null }]),
+    "MATCH_STATE_INTEGRITY_FAILED",
+  );
+  assertCode(
+    () =>
+      parseVariantJournal([
+        { uci: "0000", rule_action: { actionId: "teleport", extra: true } },
+      ]),
+    "MATCH_STATE_INTEGRITY_FAILED",
+  );
+});
@@ -0,0 +1,308 @@
+import type { AuthenticatedClients } from "../_shared/auth-v2.ts";
+import type { ChessSide } from "./clock.ts";
+import { sha256Hex } from "./integrity.ts";
+import type { ChessMatchRow, MoveCommandRow } from "./match-policy.ts";
+import {
+  type MoveErrorCode,
+  MoveProcessingError,
+  NULL_MOVE_UCI,
+  parseRuleActionInput,
+  type RuleActionInput,
+} from "./protocol.ts";
+
+type ServiceClient = AuthenticatedClients["serviceClient"];
+
+export const VARIANT_VALIDATOR_POLICY = "variant-validator-v1";
+
+const MAX_PINNED_RULES = 8;
+const MAX_JOURNAL_PLIES = 2_000;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export interface PinnedRuleVersion {
+  ordinal: number;
+  versionId: string;
+  contentHash: string;
+  engineVersion: string;
+  ruleJson: Record<string, unknown>;
+}
+
+export interface VariantJournalEntry {
+  uci: string;
+  ruleAction: RuleActionInput | null;
+}
+
+export interface VariantTerminalState {
+  result: "1-0" | "0-1" | "1/2-1/2";
+  termination: "checkmate" | "stalemate";
+}
+
+export interface VariantTransition {
+  uci: string;
+  ruleAction: RuleActionInput | null;
+  san: string | null;
+  fenBefore: string;
+  fenAfter: string;
+  nextSide: ChessSide;
+  isCheck: boolean;
+  terminal: VariantTerminalState | null;
+  ruleState: Record<string, unknown>;
+  ruleStateHash: string;
+}
+
+interface VariantRuntimeInstance {
+  readonly fen: string;
+  readonly sideToMove: ChessSide;
+  ruleStateHash(): Promise<string>;
+  apply(command: VariantJournalEntry): Promise<VariantTransition>;
+}
+
+/**
+ * Surface of `src/features/multiplayer/variant-runtime.ts`, bundled for Deno by
+ * `scripts/build-edge-variant-runtime.mjs`.
+ */
+export interface VariantRuntimeModule {
+  VARIANT_RUNTIME_ID: string;
+  replayVariantMatch(
+    identity: {
+      matchId: string;
+      lobbyId: string;
+      rulesetHash: string;
+      matchSeed: string;
+      engineVersion: string;
+    },
+    rules: readonly Record<string, unknown>[],
+    commands: readonly VariantJournalEntry[],
+  ): Promise<VariantRuntimeInstance>;
+}
+
+export type VariantRuntimeLoader = () => Promise<VariantRuntimeModule>;
+
+export const loadGeneratedVariantRuntime: VariantRuntimeLoader = async () =>
+  (await import(
+    "../_shared/generated/variant-runtime.js"
+  )) as unknown as VariantRuntimeModule;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function databaseErrorCode(error: unknown): string | null {
+  if (!isRecord(error)) {
+    return null;
+  }
+  return typeof error.code === "string" ? error.code : null;
+}
+
+export function parsePinnedRuleVersions(value: unknown): PinnedRuleVersion[] {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.length > MAX_PINNED_RULES
+  ) {
+    throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+  }
+
+  return value.map((row, index) => {
+    const version = isRecord(row) ? row.rule_versions : null;
+    if (
+      !isRecord(row) ||
+      row.ordinal !== index + 1 ||
+      typeof row.rule_version_id !== "string" ||
+      !UUID_PATTERN.test(row.rule_version_id) ||
+      !isRecord(version) ||
+      typeof version.content_hash !== "string" ||
+      version.content_hash.length === 0 ||
+      version.content_hash.length > 128 ||
+      typeof version.engine_version !== "string" ||
+      !isRecord(version.rule_json)
+    ) {
+      throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+    }
+
+    return {
+      ordinal: row.ordinal,
+      versionId: row.rule_version_id.toLowerCase(),
+      contentHash: version.content_hash,
+      engineVersion: version.engine_version,
+      ruleJson: version.rule_json,
+    };
+  });
+}
+
+/**
+ * Mirrors `compute_chess_ruleset_hash`: the digest covers the `jsonb::text`
+ * rendering of the pinned tuples, whose separators are always `", "`.
+ */
+export async function pinnedRulesetHash(
+  versions: readonly PinnedRuleVersion[],
+): Promise<string> {
+  const material = versions
+    .map((version) =>
+      `[${
+        [
+          version.ordinal.toString(10),
+          JSON.stringify(version.versionId),
+          JSON.stringify(version.contentHash),
+          JSON.stringify(version.engineVersion),
+        ].join(", ")
+      }]`
+    )
+    .join(", ");
+  return await sha256Hex(`[${material}]`);
+}
+
+export function parseVariantJournal(value: unknown): VariantJournalEntry[] {
+  if (!Array.isArray(value) || value.length > MAX_JOURNAL_PLIES) {
+    throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+  }
+
+  return value.map((row) => {
+    if (!isRecord(row) || typeof row.uci !== "string") {
+      throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+    }
+    let ruleAction: RuleActionInput | null = null;
+    if (row.rule_action !== null) {
+      try {
+        ruleAction = parseRuleActionInput(row.rule_action);
+      } catch {
+        throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+      }
+    }
+    if ((ruleAction !== null) !== (row.uci === NULL_MOVE_UCI)) {
+      throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+    }
+    return { uci: row.uci, ruleAction };
+  });
+}
+
+async function loadPinnedRuleVersions(
+  serviceClient: ServiceClient,
+  match: ChessMatchRow,
+): Promise<PinnedRuleVersion[]> {
+  const { data, error } = await serviceClient
+    .from("chess_room_rule_versions")
+    .select(
+      "ordinal,rule_version_id,rule_versions(content_hash,engine_version,rule_json)",
+    )
+    .eq("room_id", match.roomId)
+    .order("ordinal", { ascending: true });
+
+  if (error) {
+    console.error("[process-chess-move]", {
+      operation: "load_pinned_rules",
+      databaseCode: databaseErrorCode(error),
+    });
+    throw new MoveProcessingError("PROCESSING_FAILED");
+  }
+  return parsePinnedRuleVersions(data);
+}
+
+async function loadVariantJournal(
+  serviceClient: ServiceClient,
+  match: ChessMatchRow,
+): Promise<VariantJournalEntry[]> {
+  const { data, error } = await serviceClient
+    .from("chess_move_commands")
+    .select("uci,rule_action")
+    .eq("match_id", match.id)
+    .eq("status", "accepted")
+    .order("sequence", { ascending: true });
+
+  if (error) {
+    console.error("[process-chess-move]", {
+      operation: "load_variant_journal",
+      databaseCode: databaseErrorCode(error),
+    });
+    throw new MoveProcessingError("PROCESSING_FAILED");
+  }
+  return parseVariantJournal(data);
+}
+
+function runtimeErrorCode(error: unknown): MoveErrorCode {
+  const code =
+    error instanceof Error && error.name === "VariantRuntimeError"
+      ? (error as Error & { code?: unknown }).code
+      : null;
+  switch (code) {
+    case "ILLEGAL_MOVE":
+    case "INVALID_COMMAND":
+      return "ILLEGAL_MOVE";
+    case "RULE_ACTION_REJECTED":
+      return "RULE_ACTION_REJECTED";
+    default:
+      return "MATCH_STATE_INTEGRITY_FAILED";
+  }
+}
+
+/**
+ * Replays the accepted journal through the shared RuleEngine, proves it lands
+ * on the stored position and rule state, then applies the pending command.
+ */
+export async function validateVariantCommand(
+  serviceClient: ServiceClient,
+  match: ChessMatchRow,
+  command: MoveCommandRow,
+  expectedRuleStateHash: string | undefined,
+  loadRuntime: VariantRuntimeLoader,
+): Promise<VariantTransition & { validatorId: string }> {
+  const versions = await loadPinnedRuleVersions(serviceClient, match);
+  if (
+    versions.some((version) => version.engineVersion !== match.engineVersion) ||
+    (await pinnedRulesetHash(versions)) !== match.rulesetHash
+  ) {
+    throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+  }
+
+  const journal = await loadVariantJournal(serviceClient, match);
+  let runtimeModule: VariantRuntimeModule;
+  try {
+    runtimeModule = await loadRuntime();
+  } catch {
+    console.error("[process-chess-move]", {
+      operation: "load_variant_runtime",
+    });
+    throw new MoveProcessingError("PROCESSING_FAILED");
+  }
+
+  let runtime: VariantRuntimeInstance;
+  try {
+    runtime = await runtimeModule.replayVariantMatch(
+      {
+        matchId: match.id,
+        lobbyId: match.roomId,
+        rulesetHash: match.rulesetHash,
+        matchSeed: match.sharedSeed.toString(10),
+        engineVersion: match.engineVersion,
+      },
+      versions.map((version) => version.ruleJson),
+      journal,
+    );
+  } catch {
+    throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+  }
+  if (
+    runtime.fen !== match.currentFen ||
+    runtime.sideToMove !== match.sideToMove ||
+    (await runtime.ruleStateHash()) !== match.ruleStateHash
+  ) {
+    throw new MoveProcessingError("MATCH_STATE_INTEGRITY_FAILED");
+  }
+
+  let transition: VariantTransition;
+  try {
+    transition = await runtime.apply({
+      uci: command.uci,
+      ruleAction: command.ruleAction,
+    });
+  } catch (error) {
+    throw new MoveProcessingError(runtimeErrorCode(error));
+  }
+
+  if (
+    expectedRuleStateHash !== undefined &&
+    expectedRuleStateHash !== transition.ruleStateHash
+  ) {
+    throw new MoveProcessingError("RULE_STATE_HASH_MISMATCH");
+  }
+  return { ...transition, validatorId: runtimeModule.VARIANT_RUNTIME_ID };
+}
@@ -1,24 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { corsResponse, handleOptions, jsonResponse, preflightIfOptions } from "../_shared/cors.ts";
 import { getSupabaseServiceRoleClient } from "../_shared/auth.ts";
+import { settleTournamentResults } from "../_shared/tournament-rounds.ts";
 
 const corsOptions = { methods: ["POST"] };
 
 const supabase = getSupabaseServiceRoleClient();
 
 type MatchResult = "player1" | "player2" | "draw";
+type DisputeReason = "ai_match" | "abandoned" | "conflicting_reports";
 
-const computeStandingsDelta = (result: MatchResult, isPlayerOne: boolean) => {
-  if (result === "draw") {
-    return { wins: 0, losses: 0, draws: 1, points: 0.5 };
-  }
-
-  if ((result === "player1" && isPlayerOne) || (result === "player2" && !isPlayerOne)) {
-    return { wins: 1, losses: 0, draws: 0, points: 1 };
-  }
+/** An opponent silent for this long in a verified game can be reported as gone. */
+const ABANDONMENT_GRACE_MS = 5 * 60 * 1000;
 
-  return { wins: 0, losses: 1, draws: 0, points: 0 };
-};
+const isMatchResult = (value: unknown): value is MatchResult =>
+  value === "player1" || value === "player2" || value === "draw";
 
 serve(async (req) => {
   const preflight = preflightIfOptions(req);
@@ -50,15 +46,17 @@ serve(async (req) => {
   try {
     const body = await req.json();
     const matchId = typeof body?.matchId === "string" ? body.matchId : null;
-    const result = body?.result as MatchResult | null;
+    const result = isMatchResult(body?.result) ? body.result : null;
+    const claimsAbandonment = body?.claim === "abandoned";
+    const details = typeof body?.details === "string" ? body.details.trim().slice(0, 1000) || null : null;
 
-    if (!matchId || !result || !["player1", "player2", "draw"].includes(result)) {
-      return jsonResponse(req, { error: "matchId et result sont requis" }, { status: 400 }, corsOptions);
+    if (!matchId || (body?.result !== undefined && !result)) {
+      return jsonResponse(req, { error: "matchId est requis et result doit valoir player1, player2 ou draw" }, { status: 400 }, corsOptions);
     }
 
     const { data: match, error: matchError } = await supabase
       .from("tournament_matches")
-      .select("id, tournament_id, player1_id, player2_id, status, result, winner_id, lobby_id, is_ai_match, ai_opponent_label")
+      .select("id, tournament_id, player1_id, player2_id, status, result, winner_id, lobby_id, chess_match_id, is_ai_match, ai_opponent_label, result_source")
       .eq("id", matchId)
       .single();
 
@@ -67,147 +65,204 @@ serve(async (req) => {
       return jsonResponse(req, { error: message }, { status: 404 }, corsOptions);
     }
 
+    const isAiMatch = match.is_ai_match === true;
+
+    if (user.id !== match.player1_id && (isAiMatch || user.id !== match.player2_id)) {
+      return jsonResponse(req, { error: "Vous ne participez pas à ce match" }, { status: 403 }, corsOptions);
+    }
+
+    const nowIso = new Date().toISOString();
+
+    // Standings only ever move from a result the server already trusts.
+    const settle = async () => {
+      const participantIds = [match.player1_id, match.player2_id].filter((value): value is string => typeof value === "string");
+
+      await supabase
+        .from("tournament_registrations")
+        .update({ current_match_id: null, is_waiting: false, last_active_at: nowIso })
+        .eq("tournament_id", match.tournament_id)
+        .eq("current_match_id", match.id)
+        .in("user_id", participantIds);
+
+      if (match.lobby_id) {
+        await supabase
+          .from("lobbies")
+          .update({ is_active: false })
+          .eq("id", match.lobby_id);
+      }
+
+      await settleTournamentResults(supabase, match.tournament_id);
+
+      const { data: leaderboard, error: leaderboardError } = await supabase
+        .from("tournament_registrations")
+        .select("user_id, display_name, wins, losses, draws, points, buchholz, sonneborn_berger, seed, eliminated_in_round")
+        .eq("tournament_id", match.tournament_id)
+        .order("points", { ascending: false })
+        .order("buchholz", { ascending: false })
+        .order("sonneborn_berger", { ascending: false })
+        .order("wins", { ascending: false });
+
+      if (leaderboardError) {
+        console.error("Unable to fetch leaderboard", leaderboardError.message);
+      }
+
+      return leaderboard ?? [];
+    };
+
+    const settledResponse = async (source: string) => {
+      try {
+        const leaderboard = await settle();
+        const { data: finished } = await supabase
+          .from("tournament_matches")
+          .select("id, tournament_id, player1_id, player2_id, status, result, winner_id, result_source")
+          .eq("id", match.id)
+          .single();
+        return jsonResponse(req, { status: "recorded", source, match: finished ?? match, leaderboard }, { status: 200 }, corsOptions);
+      } catch (standingsError) {
+        console.error("Unable to update standings", standingsError instanceof Error ? standingsError.message : standingsError);
+        return jsonResponse(req, { error: "Impossible de mettre à jour le classement" }, { status: 500 }, corsOptions);
+      }
+    };
+
+    const openDispute = async (reason: DisputeReason, claimedResult: MatchResult | null) => {
+      const { error: disputeError } = await supabase
+        .from("tournament_match_disputes")
+        .insert({
+          tournament_match_id: match.id,
+          opened_by: user.id,
+          reason,
+          claimed_result: claimedResult,
+          details,
+        });
+
+      // 23505: a dispute is already open for this game.
+      if (disputeError && disputeError.code !== "23505") {
+        console.error("Unable to open dispute", disputeError.message);
+        return jsonResponse(req, { error: "Impossible d'ouvrir la contestation" }, { status: 500 }, corsOptions);
+      }
+
+      return jsonResponse(req, { status: "disputed", reason, match }, { status: 202 }, corsOptions);
+    };
+
     if (match.status === "finished") {
-      return jsonResponse(req, { error: "Le résultat a déjà été enregistré" }, { status: 409 }, corsOptions);
+      if (result || claimsAbandonment) {
+        return jsonResponse(req, { error: "Le résultat a déjà été enregistré" }, { status: 409 }, corsOptions);
+      }
+      return await settledResponse(match.result_source ?? "server");
     }
 
-    const isAiMatch = match.is_ai_match === true;
+    if (match.status === "cancelled") {
+      return jsonResponse(req, { error: "Ce match a été annulé" }, { status: 409 }, corsOptions);
+    }
+
+    if (!result && !claimsAbandonment) {
+      return jsonResponse(req, { error: "La partie n'est pas encore terminée" }, { status: 409 }, corsOptions);
+    }
+
+    const claimantWins: MatchResult = user.id === match.player1_id ? "player1" : "player2";
+
+    if (match.chess_match_id) {
+      if (!claimsAbandonment) {
+        return jsonResponse(req, { error: "Le résultat de cette partie est validé par le serveur" }, { status: 409 }, corsOptions);
+      }
+
+      const { data: chessMatch } = await supabase
+        .from("chess_matches")
+        .select("id, room_id, status")
+        .eq("id", match.chess_match_id)
+        .single();
+
+      if (!chessMatch || chessMatch.status !== "active") {
+        return jsonResponse(req, { error: "La partie n'est plus en cours" }, { status: 409 }, corsOptions);
+      }
+
+      const opponentId = user.id === match.player1_id ? match.player2_id : match.player1_id;
+      const { data: opponentSeat } = await supabase
+        .from("chess_room_members")
+        .select("last_seen_at, abandonment_requested_at, membership_status")
+        .eq("room_id", chessMatch.room_id)
+        .eq("user_id", opponentId)
+        .maybeSingle();
+
+      const lastSeen = opponentSeat?.last_seen_at ? Date.parse(opponentSeat.last_seen_at) : Number.NaN;
+      const opponentGone = !opponentSeat ||
+        opponentSeat.membership_status !== "active" ||
+        opponentSeat.abandonment_requested_at !== null ||
+        !Number.isFinite(lastSeen) ||
+        Date.now() - lastSeen > ABANDONMENT_GRACE_MS;
+
+      if (!opponentGone) {
+        return jsonResponse(req, { error: "Votre adversaire est toujours présent dans la partie" }, { status: 409 }, corsOptions);
+      }
+
+      return await openDispute("abandoned", claimantWins);
+    }
+
+    if (isAiMatch) {
+      return await openDispute("ai_match", result);
+    }
+
+    if (claimsAbandonment) {
+      return await openDispute("abandoned", claimantWins);
+    }
 
-    if (!isAiMatch && !match.player2_id) {
+    if (!match.player2_id) {
       return jsonResponse(req, { error: "Le match n'a pas encore d'adversaire" }, { status: 409 }, corsOptions);
     }
 
-    if (user.id !== match.player1_id && (!isAiMatch && user.id !== match.player2_id)) {
-      return jsonResponse(req, { error: "Vous ne participez pas à ce match" }, { status: 403 }, corsOptions);
+    // Lobby games carry no server verdict: both players must report the same
+    // result before it counts.
+    const { error: reportError } = await supabase
+      .from("tournament_match_reports")
+      .upsert({ tournament_match_id: match.id, user_id: user.id, result, reported_at: nowIso }, { onConflict: "tournament_match_id,user_id" });
+
+    if (reportError) {
+      console.error("Unable to record report", reportError.message);
+      return jsonResponse(req, { error: "Impossible d'enregistrer le résultat" }, { status: 500 }, corsOptions);
     }
 
-    const winnerId = result === "draw"
-      ? null
-      : result === "player1"
-        ? match.player1_id
-        : isAiMatch
-          ? null
-          : match.player2_id;
+    const { data: reports } = await supabase
+      .from("tournament_match_reports")
+      .select("user_id, result")
+      .eq("tournament_match_id", match.id);
 
-    const nowIso = new Date().toISOString();
+    const opponentReport = (reports ?? []).find((report) => report.user_id !== user.id);
+
+    if (!opponentReport) {
+      return jsonResponse(req, { status: "awaiting_confirmation", match }, { status: 202 }, corsOptions);
+    }
+
+    if (opponentReport.result !== result) {
+      return await openDispute("conflicting_reports", null);
+    }
 
-    const { error: updateMatchError } = await supabase
+    const winnerId = result === "draw" ? null : result === "player1" ? match.player1_id : match.player2_id;
+
+    const { data: confirmed, error: updateMatchError } = await supabase
       .from("tournament_matches")
       .update({
         status: "finished",
         result,
         winner_id: winnerId,
+        result_source: "agreement",
         reported_by: user.id,
         completed_at: nowIso,
         updated_at: nowIso,
       })
-      .eq("id", matchId);
+      .eq("id", match.id)
+      .neq("status", "finished")
+      .select("id");
 
     if (updateMatchError) {
       console.error("Unable to update match", updateMatchError.message);
       return jsonResponse(req, { error: "Impossible d'enregistrer le résultat" }, { status: 500 }, corsOptions);
     }
 
-    if (match.lobby_id) {
-      await supabase
-        .from("lobbies")
-        .update({ is_active: false })
-        .eq("id", match.lobby_id);
-    }
-
-    const participantIds = [match.player1_id, match.player2_id].filter((value): value is string => typeof value === "string");
-
-    let registrations: Array<{ user_id: string; wins: number | null; losses: number | null; draws: number | null; points: number | null }> = [];
-    let registrationsError: unknown = null;
-
-    if (participantIds.length > 0) {
-      const { data, error } = await supabase
-        .from("tournament_registrations")
-        .select("user_id, wins, losses, draws, points")
-        .eq("tournament_id", match.tournament_id)
-        .in("user_id", participantIds);
-
-      registrations = data ?? [];
-      registrationsError = error;
-    }
-
-    if (registrationsError) {
-      console.error("Unable to fetch registrations", (registrationsError as { message?: string | null })?.message ?? registrationsError);
-      return jsonResponse(req, { error: "Impossible de mettre à jour le classement" }, { status: 500 }, corsOptions);
-    }
-
-    const registrationMap = new Map(registrations.map(entry => [entry.user_id, entry] as const));
-
-    const playerOneDelta = computeStandingsDelta(result, true);
-    const playerTwoDelta = computeStandingsDelta(result, false);
-
-    const playerOneStats = registrationMap.get(match.player1_id);
-    const playerTwoStats = match.player2_id ? registrationMap.get(match.player2_id) : null;
-
-    const updates = [
-      {
-        userId: match.player1_id,
-        wins: (playerOneStats?.wins ?? 0) + playerOneDelta.wins,
-        losses: (playerOneStats?.losses ?? 0) + playerOneDelta.losses,
-        draws: (playerOneStats?.draws ?? 0) + playerOneDelta.draws,
-        points: (playerOneStats?.points ?? 0) + playerOneDelta.points,
-      },
-    ] as Array<{
-      userId: string | null;
-      wins: number;
-      losses: number;
-      draws: number;
-      points: number;
-    }>;
-
-    if (!isAiMatch && match.player2_id) {
-      updates.push({
-        userId: match.player2_id,
-        wins: (playerTwoStats?.wins ?? 0) + playerTwoDelta.wins,
-        losses: (playerTwoStats?.losses ?? 0) + playerTwoDelta.losses,
-        draws: (playerTwoStats?.draws ?? 0) + playerTwoDelta.draws,
-        points: (playerTwoStats?.points ?? 0) + playerTwoDelta.points,
-      });
-    }
-
-    for (const update of updates) {
-      if (!update.userId) continue;
-      await supabase
-        .from("tournament_registrations")
-        .update({
-          wins: update.wins,
-          losses: update.losses,
-          draws: update.draws,
-          points: update.points,
-          current_match_id: null,
-          is_waiting: false,
-          last_active_at: nowIso,
-        })
-        .eq("tournament_id", match.tournament_id)
-        .eq("user_id", update.userId);
-    }
-
-    const { data: leaderboard, error: leaderboardError } = await supabase
-      .from("tournament_registrations")
-      .select("user_id, display_name, wins, losses, draws, points")
-      .eq("tournament_id", match.tournament_id)
-      .order("points", { ascending: false })
-      .order("wins", { ascending: false })
-      .order("draws", { ascending: false });
-
-    if (leaderboardError) {
-      console.error("Unable to fetch leaderboard", leaderboardError.message);
+    if (!confirmed || confirmed.length === 0) {
+      return jsonResponse(req, { error: "Le résultat a déjà été enregistré" }, { status: 409 }, corsOptions);
     }
 
-    return jsonResponse(
-      req,
-      {
-        match: { ...match, status: "finished", result, winner_id: winnerId },
-        leaderboard: leaderboard ?? [],
-      },
-      { status: 200 },
-      corsOptions,
-    );
+    return await settledResponse("agreement");
   } catch (error) {
     console.error("report-tournament-match error", error);
     const message = error instanceof Error ? error.message : "Unknown error";
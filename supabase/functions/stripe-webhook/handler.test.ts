@@ -0,0 +1,144 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import type { AuthenticatedClients } from "../_shared/auth-v2.ts";
+import checkoutCompleted from "../_shared/fixtures/stripe/checkout-session-completed.json" with { type: "json" };
+import paymentFailed from "../_shared/fixtures/stripe/invoice-payment-failed.json" with { type: "json" };
+import { createStripeWebhookHandler } from "./index.ts";
+import { signStripePayload } from "./signature.ts";
+
+const SECRET = "whsec_test_fixture_secret";
+const NOW = 1760000010;
+
+type DatabaseResult = { data: unknown; error: unknown };
+
+interface RpcCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+function fakeServiceClient(
+  calls: RpcCall[],
+  result: DatabaseResult = { data: true, error: null },
+): AuthenticatedClients["serviceClient"] {
+  return {
+    rpc: (name: string, args: Record<string, unknown>) => {
+      calls.push({ name, arguments: args });
+      return Promise.resolve(result);
+    },
+  } as unknown as AuthenticatedClients["serviceClient"];
+}
+
+function handlerWith(calls: RpcCall[], result?: DatabaseResult) {
+  return createStripeWebhookHandler({
+    webhookSecret: () => SECRET,
+    serviceClient: () => fakeServiceClient(calls, result),
+    prices: () => new Map(),
+    nowSeconds: () => NOW,
+  });
+}
+
+async function signedRequest(
+  payload: unknown,
+  options: { secret?: string; timestamp?: number } = {},
+): Promise<Request> {
+  const body = JSON.stringify(payload);
+  const signature = await signStripePayload(
+    body,
+    options.secret ?? SECRET,
+    options.timestamp ?? NOW,
+  );
+  return new Request("https://edge.test/stripe-webhook", {
+    method: "POST",
+    headers: { "stripe-signature": signature },
+    body,
+  });
+}
+
+Deno.test("a signed checkout completion is applied once", async () => {
+  const calls: RpcCall[] = [];
+  const response = await handlerWith(calls)(
+    await signedRequest(checkoutCompleted),
+  );
+  assertEquals(response.status, 200);
+  assertEquals(await response.json(), {
+    received: true,
+    handled: true,
+    applied: true,
+  });
+  assertEquals(calls.length, 1);
+  assertEquals(calls[0].name, "apply_stripe_entitlement_event_server");
+  assertEquals(calls[0].arguments.p_event_id, "evt_1PzCheckoutCompleted01");
+  assertEquals(
+    calls[0].arguments.p_user_id,
+    "5a1d7c3e-2b4f-4c8a-9e61-0f3b2d4a6c71",
+  );
+  assertEquals(calls[0].arguments.p_plan, "pro");
+});
+
+Deno.test("a replayed event is acknowledged without applying", async () => {
+  const calls: RpcCall[] = [];
+  const response = await handlerWith(calls, { data: false, error: null })(
+    await signedRequest(paymentFailed),
+  );
+  assertEquals(response.status, 200);
+  assertEquals((await response.json()).applied, false);
+  assertEquals(calls[0].arguments.p_status, "past_due");
+});
+
+Deno.test("a forged or stale signature is rejected", async () => {
+  const calls: RpcCall[] = [];
+  const handler = handlerWith(calls);
+
+  const forged = await handler(
+    await signedRequest(checkoutCompleted, { secret: "whsec_other" }),
+  );
+  assertEquals(forged.status, 400);
+
+  const stale = await handler(
+    await signedRequest(checkoutCompleted, { timestamp: NOW - 301 }),
+  );
+  assertEquals(stale.status, 400);
+
+  const unsigned = await handler(
+    new Request("https://edge.test/stripe-webhook", {
+      method: "POST",
+      body: JSON.stringify(checkoutCompleted),
+    }),
+  );
+  assertEquals(unsigned.status, 400);
+
+  const tampered = await signedRequest(checkoutCompleted);
+  const body = (await tampered.text()).replace('"pro"', '"club"');
+  const altered = await handler(
+    new Request(tampered.url, {
+      method: "POST",
+      headers: tampered.headers,
+      body,
+    }),
+  );
+  assertEquals(altered.status, 400);
+  assertEquals(calls.length, 0);
+});
+
+Deno.test("unrelated events are acknowledged untouched", async () => {
+  const calls: RpcCall[] = [];
+  const response = await handlerWith(calls)(
+    await signedRequest({
+      id: "evt_1PzCustomerCreated01",
+      type: "customer.created",
+      created: NOW,
+      data: { object: { id: "cus_QvTestCustomer01" } },
+    }),
+  );
+  assertEquals(response.status, 200);
+  assertEquals((await response.json()).handled, false);
+  assertEquals(calls.length, 0);
+});
+
+Deno.test("a database failure asks Stripe to retry", async () => {
+  const calls: RpcCall[] = [];
+  const response = await handlerWith(calls, {
+    data: null,
+    error: { code: "08006" },
+  })(await signedRequest(checkoutCompleted));
+  assertEquals(response.status, 500);
+});
@@ -1,28 +1,128 @@
-import Stripe from "https://esm.sh/stripe@12.18.0?target=deno";
+import {
+  type AuthenticatedClients,
+  createServiceClient,
+} from "../_shared/auth-v2.ts";
+import {
+  applyStripeEntitlementEvent,
+  entitlementUpdateFromStripeEvent,
+  type PricePlanIndex,
+  pricePlanIndexFromEnv,
+  StripeEventPayloadError,
+  type StripeEventPayload,
+} from "../_shared/entitlements.ts";
+import { StripeSignatureError, verifyStripeSignature } from "./signature.ts";
 
-const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY")!, {
-  apiVersion: "2024-06-20",
-});
+type ServiceClient = AuthenticatedClients["serviceClient"];
 
-Deno.serve(async (req) => {
-  const signature = req.headers.get("stripe-signature");
-  const body = await req.text();
+const MAX_BODY_BYTES = 512 * 1024;
 
-  try {
-    const event = stripe.webhooks.constructEvent(body, signature!, Deno.env.get("STRIPE_WEBHOOK_SECRET")!);
+export interface StripeWebhookDependencies {
+  webhookSecret: () => string | undefined;
+  serviceClient: () => ServiceClient;
+  prices: () => PricePlanIndex;
+  nowSeconds: () => number;
+}
 
-    console.log("Stripe event received:", event.type);
+export type StripeWebhookHandler = (request: Request) => Promise<Response>;
 
-    return new Response(JSON.stringify({ success: true, event }), {
-      headers: { "Content-Type": "application/json" },
-    });
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    console.error("Error verifying webhook:", message);
+const json = (status: number, payload: unknown): Response =>
+  new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      "Cache-Control": "no-store",
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
 
-    return new Response(JSON.stringify({ error: message }), {
-      status: 400,
-      headers: { "Content-Type": "application/json" },
-    });
+function parseEvent(body: string): StripeEventPayload {
+  let value: unknown;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    throw new StripeEventPayloadError("Payload JSON invalide.");
+  }
+  const event = value as Partial<StripeEventPayload> | null;
+  if (
+    typeof event?.id !== "string" ||
+    typeof event.type !== "string" ||
+    typeof event.created !== "number" ||
+    typeof event.data !== "object" ||
+    event.data === null
+  ) {
+    throw new StripeEventPayloadError("Événement Stripe incomplet.");
   }
-});
+  return event as StripeEventPayload;
+}
+
+/**
+ * Stripe retries every non-2xx answer, so only a database failure returns a
+ * 5xx. Unknown event types, replays and events that match no player are
+ * acknowledged with 200 and reported in the body.
+ */
+export function createStripeWebhookHandler(
+  dependencies: Partial<StripeWebhookDependencies> = {},
+): StripeWebhookHandler {
+  const webhookSecret =
+    dependencies.webhookSecret ??
+    (() => Deno.env.get("STRIPE_WEBHOOK_SECRET")?.trim());
+  const serviceClient = dependencies.serviceClient ?? createServiceClient;
+  const prices = dependencies.prices ?? (() => pricePlanIndexFromEnv());
+  const nowSeconds =
+    dependencies.nowSeconds ?? (() => Math.floor(Date.now() / 1000));
+
+  return async (request: Request): Promise<Response> => {
+    if (request.method !== "POST") {
+      return json(405, { error: "Méthode non autorisée." });
+    }
+    const secret = webhookSecret();
+    if (!secret) {
+      console.error("[stripe-webhook] STRIPE_WEBHOOK_SECRET manquant.");
+      return json(500, { error: "Webhook Stripe non configuré." });
+    }
+
+    const body = await request.text();
+    if (new TextEncoder().encode(body).byteLength > MAX_BODY_BYTES) {
+      return json(413, { error: "Payload trop volumineux." });
+    }
+
+    try {
+      await verifyStripeSignature(
+        body,
+        request.headers.get("stripe-signature"),
+        secret,
+        nowSeconds(),
+      );
+      const event = parseEvent(body);
+      const update = entitlementUpdateFromStripeEvent(event, prices());
+      if (!update) {
+        return json(200, { received: true, handled: false });
+      }
+      const applied = await applyStripeEntitlementEvent(
+        serviceClient(),
+        update,
+      );
+      console.log("[stripe-webhook]", {
+        eventId: event.id,
+        type: event.type,
+        applied,
+      });
+      return json(200, { received: true, handled: true, applied });
+    } catch (error) {
+      if (error instanceof StripeSignatureError) {
+        return json(400, { error: error.message });
+      }
+      if (error instanceof StripeEventPayloadError) {
+        console.error("[stripe-webhook]", { rejected: error.message });
+        return json(400, { error: error.message });
+      }
+      console.error("[stripe-webhook]", { operation: "apply_entitlement" });
+      return json(500, { error: "Mise à jour de l'abonnement impossible." });
+    }
+  };
+}
+
+export const handleRequest = createStripeWebhookHandler();
+
+if (import.meta.main) {
+  Deno.serve(handleRequest);
+}
@@ -2,6 +2,14 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.2?target=deno";
 import { preflightIfOptions, withCors } from "../_shared/cors.ts";
+import {
+  ROUND_BASED_FORMATS,
+  type TournamentFormat,
+} from "../_shared/tournament-pairing.ts";
+import {
+  advanceTournamentRound,
+  refreshTournamentStandings,
+} from "../_shared/tournament-rounds.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
 const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
@@ -22,6 +30,31 @@ const admin =
 const BLOCK_DURATION_MS = 1000 * 60 * 60 * 2; // 2 hours
 const TOURNAMENTS_PER_BLOCK = 10;
 
+/**
+ * Round-based events only open in the upcoming block, so that players can
+ * register before the first round is paired; the rest of a block stays arena.
+ */
+const UPCOMING_BLOCK_FORMATS: TournamentFormat[] = [
+  "swiss",
+  "single_elimination",
+  "double_elimination",
+  "round_robin",
+];
+
+const FORMAT_TITLES: Record<TournamentFormat, string> = {
+  arena: "Series",
+  swiss: "Swiss",
+  single_elimination: "Knockout",
+  double_elimination: "Double Knockout",
+  round_robin: "Round Robin",
+};
+
+const FORMAT_PARTICIPANT_CAPS: Partial<Record<TournamentFormat, number>> = {
+  single_elimination: 16,
+  double_elimination: 16,
+  round_robin: 8,
+};
+
 type VariantCandidate = {
   ruleId: string;
   name: string;
@@ -103,6 +136,15 @@ const FALLBACK_VARIANTS: VariantCandidate[] = [
   },
 ];
 
+/** Standard chess, played in validated chess_matches. */
+const STANDARD_VARIANT: VariantCandidate = {
+  ruleId: "standard",
+  name: "Échecs classiques",
+  description: "Partie d'échecs standard validée coup par coup par le serveur.",
+  source: "fallback",
+  lobbyId: null,
+};
+
 const cloneVariant = (variant: VariantCandidate): VariantCandidate => ({
   ...variant,
 });
@@ -374,21 +416,31 @@ const ensureBlockInventory = async (
   const newEntries: Array<Record<string, unknown>> = [];
 
   for (let index = 0; index < missing; index += 1) {
-    const variant = pool[cursor % pool.length];
-    cursor += 1;
     const ordinal = existingCount + index + 1;
+    const format: TournamentFormat =
+      status === "scheduled"
+        ? (UPCOMING_BLOCK_FORMATS[ordinal - 1] ?? "arena")
+        : "arena";
+    // Structured events are played as server-validated standard games; preset
+    // variants have no server validator and stay on the arena.
+    const verified = format !== "arena";
+    const variant = verified ? STANDARD_VARIANT : pool[cursor % pool.length];
+    if (!verified) cursor += 1;
 
     newEntries.push({
-      title: `${variant.name} - Series ${formatBlockLabel(blockStart)} - ${ordinal}`,
+      title: `${variant.name} - ${FORMAT_TITLES[format]} ${formatBlockLabel(blockStart)} - ${ordinal}`,
       description:
         variant.description ?? `Theme tournament featuring ${variant.name}.`,
       variant_name: variant.name,
-      variant_rules: [variant.ruleId],
+      variant_rules: verified ? [] : [variant.ruleId],
+      rule_version_ids: verified ? [] : null,
       variant_source: variant.source,
       variant_lobby_id: variant.lobbyId,
       starts_at: blockStartIso,
       ends_at: blockEndIso,
       status,
+      format,
+      max_participants: FORMAT_PARTICIPANT_CAPS[format] ?? null,
     });
   }
 
@@ -427,6 +479,48 @@ const ensureBlockInventory = async (
   };
 };
 
+/**
+ * Pairs the next round of every running round-based event. Verified games
+ * end inside chess_matches without calling back, so the sync also picks up
+ * rounds whose last result arrived that way.
+ */
+const startDueRounds = async (): Promise<number> => {
+  if (!admin) return 0;
+
+  const { data, error } = await admin
+    .from("tournaments")
+    .select("id, format")
+    .eq("status", "active")
+    .in("format", ROUND_BASED_FORMATS);
+
+  if (error) {
+    console.warn(
+      "[sync-tournaments] Unable to list running round-based tournaments:",
+      error.message,
+    );
+    return 0;
+  }
+
+  let started = 0;
+  for (const tournament of (data ?? []) as Array<{
+    id: string;
+    format: TournamentFormat;
+  }>) {
+    try {
+      if ((await advanceTournamentRound(admin, tournament.id)) !== null) {
+        started += 1;
+      }
+      await refreshTournamentStandings(admin, tournament.id, tournament.format);
+    } catch (roundError) {
+      console.warn(
+        "[sync-tournaments] Unable to pair the next round:",
+        roundError instanceof Error ? roundError.message : roundError,
+      );
+    }
+  }
+  return started;
+};
+
 serve(async (request: Request): Promise<Response> => {
   const preflight = preflightIfOptions(request);
   if (preflight) return preflight;
@@ -463,6 +557,7 @@ serve(async (request: Request): Promise<Response> => {
     const now = new Date();
 
     const lifecycle = await syncLifecycle(now);
+    const roundsStarted = await startDueRounds();
 
     const baseBlockStart = floorToBlock(now);
     const blockSummaries: BlockSummary[] = [];
@@ -497,6 +592,7 @@ serve(async (request: Request): Promise<Response> => {
           now: now.toISOString(),
           variantPoolSize: variantPool.length,
           lifecycle,
+          roundsStarted,
           blocks: blockSummaries,
         }),
         {
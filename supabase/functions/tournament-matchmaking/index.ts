@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { corsResponse, handleOptions, jsonResponse, preflightIfOptions } from "../_shared/cors.ts";
 import { getSupabaseServiceRoleClient } from "../_shared/auth.ts";
+import { isRoundBasedFormat, type TournamentFormat } from "../_shared/tournament-pairing.ts";
+import { advanceTournamentRound, refreshTournamentStandings, seatVerifiedGame } from "../_shared/tournament-rounds.ts";
 
 const corsOptions = { methods: ["POST"] };
 
@@ -58,7 +60,7 @@ const getMatchDetails = async (matchId: string) => {
   if (!supabase) return null;
   const { data, error } = await supabase
     .from("tournament_matches")
-    .select("id, tournament_id, lobby_id, table_number, player1_id, player2_id, status, result, started_at, completed_at, is_ai_match, ai_opponent_label, ai_opponent_difficulty, variant_rules, lobby:lobbies(id, name, status, mode, opponent_name, opponent_id)")
+    .select("id, tournament_id, lobby_id, chess_match_id, table_number, round, bracket, is_bye, player1_id, player2_id, status, result, started_at, completed_at, is_ai_match, ai_opponent_label, ai_opponent_difficulty, variant_rules, lobby:lobbies(id, name, status, mode, opponent_name, opponent_id)")
     .eq("id", matchId)
     .single();
 
@@ -248,7 +250,7 @@ serve(async (req) => {
 
     const { data: tournament, error: tournamentError } = await supabase
       .from("tournaments")
-      .select("id, title, starts_at, ends_at, status, variant_rules, variant_name")
+      .select("id, title, starts_at, ends_at, status, format, current_round, variant_rules, variant_name, rule_version_ids")
       .eq("id", tournamentId)
       .single();
 
@@ -300,6 +302,38 @@ serve(async (req) => {
       return jsonResponse(req, { error: message }, { status: 500 }, corsOptions);
     }
 
+    const format = (tournament.format ?? "arena") as TournamentFormat;
+
+    // Round-based events are paired by the server for the whole field; the
+    // player is only told where they sit in the current round.
+    if (isRoundBasedFormat(format)) {
+      try {
+        if (tournament.current_round === 0) {
+          await advanceTournamentRound(supabase, tournamentId);
+          await refreshTournamentStandings(supabase, tournamentId, format);
+        }
+      } catch (roundError) {
+        await logFunctionError("round_pairing_failed", {
+          tournamentId,
+          error: roundError instanceof Error ? roundError.message : String(roundError),
+        });
+        return jsonResponse(req, { error: "Impossible d'apparier la ronde" }, { status: 500 }, corsOptions);
+      }
+
+      const { data: seated } = await supabase
+        .from("tournament_registrations")
+        .select("id, tournament_id, user_id, current_match_id, is_waiting, wins, losses, draws, points")
+        .eq("id", registration.id)
+        .single();
+
+      const seatedRegistration = seated ?? registration;
+      const match = seatedRegistration.current_match_id
+        ? await getMatchDetails(seatedRegistration.current_match_id)
+        : null;
+
+      return jsonResponse(req, { match, registration: seatedRegistration }, { status: 200 }, corsOptions);
+    }
+
     if (registration.current_match_id) {
       let match = await getMatchDetails(registration.current_match_id);
       let currentRegistration = registration;
@@ -399,6 +433,19 @@ serve(async (req) => {
             .update({ status: "matched", opponent_id: user.id, opponent_name: displayName, is_active: false })
             .eq("id", claimedMatches.lobby_id);
         }
+
+        if (tournament.rule_version_ids !== null) {
+          try {
+            await seatVerifiedGame(supabase, claimedMatches.id);
+          } catch (seatError) {
+            await logFunctionError("verified_game_seat_failed", {
+              tournamentId,
+              matchId: claimedMatches.id,
+              error: seatError instanceof Error ? seatError.message : String(seatError),
+            });
+            return jsonResponse(req, { error: "Impossible d'ouvrir la partie vérifiée" }, { status: 500 }, corsOptions);
+          }
+        }
       }
     }
 
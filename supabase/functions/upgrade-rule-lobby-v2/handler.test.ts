@@ -0,0 +1,248 @@
+import type { AuthenticatedClients } from "../_shared/auth-v2.ts";
+import { createUpgradeRuleLobbyHandler } from "./index.ts";
+
+function assertEquals<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(
+      `${message} (attendu: ${String(expected)}, obtenu: ${String(actual)})`,
+    );
+  }
+}
+
+const HOST_ID = "11111111-1111-4111-8111-111111111111";
+const LOBBY_ID = "22222222-2222-4222-8222-222222222222";
+const FROM_VERSION_ID = "33333333-3333-4333-8333-333333333333";
+const TO_VERSION_ID = "44444444-4444-4444-8444-444444444444";
+const OTHER_VERSION_ID = "55555555-5555-4555-8555-555555555555";
+
+type DatabaseResult = { data: unknown; error: unknown };
+
+interface RecordedCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+const turnStartSkip = {
+  id: "skip-turn",
+  event: "lifecycle.onTurnStart",
+  actionId: "",
+  priority: 1,
+  conditions: [],
+  effects: [{ id: "end", op: "turn.end", arguments: [] }],
+  onFailure: "skip",
+  message: "",
+};
+
+const blueprint = (ruleKey: string, actionId: string, skipsTurns = false) => ({
+  schemaVersion: "2.0.0",
+  ruleKey,
+  title: ruleKey,
+  summary: "Règle de test pour la mise à jour d'un lobby.",
+  category: "special",
+  tags: [],
+  affectedPieces: ["knight"],
+  sides: ["white", "black"],
+  stateNamespace: ruleKey,
+  initialStateJson: "{}",
+  actions: [
+    {
+      id: actionId,
+      label: "Téléporter",
+      description: "Déplace la pièce sélectionnée sur une case vide.",
+      targetingMode: "tile",
+      validTilesProvider: "provider.anyEmptyTile",
+      consumesTurn: true,
+      cooldownTurns: 3,
+      maxPerPiece: 4,
+      requiresSelection: true,
+      pieceTypes: ["knight"],
+    },
+  ],
+  triggers: [
+    {
+      id: `${actionId}-action`,
+      event: "ui.action",
+      actionId,
+      priority: 10,
+      conditions: [],
+      effects: [
+        {
+          id: "move",
+          op: "piece.move",
+          arguments: [
+            {
+              name: "pieceId",
+              kind: "token",
+              stringValue: "$pieceId",
+              numberValue: 0,
+              booleanValue: false,
+              stringListValue: [],
+            },
+            {
+              name: "to",
+              kind: "token",
+              stringValue: "$targetTile",
+              numberValue: 0,
+              booleanValue: false,
+              stringListValue: [],
+            },
+          ],
+        },
+      ],
+      onFailure: "blockAction",
+      message: "Choisis une case vide.",
+    },
+    ...(skipsTurns ? [turnStartSkip] : []),
+  ],
+  balance: {
+    powerLevel: 3,
+    counterplay: ["Bloquer les cases vides."],
+    limitations: ["Trois tours de recharge."],
+  },
+  explanation: {
+    plainLanguage: "Sélectionne une pièce puis une case vide.",
+    examples: ["Le cavalier de b1 rejoint e5."],
+  },
+});
+
+function fakeClients(
+  calls: RecordedCall[],
+  targetBlueprint: unknown,
+  upgrade: DatabaseResult = {
+    data: [{ ruleset_hash: "f".repeat(64), legacy_rule_ids: ["a@v2", "b@v1"] }],
+    error: null,
+  },
+): AuthenticatedClients {
+  const userClient = {
+    rpc: (name: string, args: Record<string, unknown>) => {
+      calls.push({ name: `user:rpc:${name}`, arguments: args });
+      return Promise.resolve({
+        data: [
+          {
+            rule_version_id: FROM_VERSION_ID,
+            blueprint_json: blueprint("alpha", "teleport"),
+          },
+          {
+            rule_version_id: OTHER_VERSION_ID,
+            blueprint_json: blueprint("beta", "blink", true),
+          },
+        ],
+        error: null,
+      });
+    },
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: () =>
+            Promise.resolve({
+              data: { id: TO_VERSION_ID, blueprint_json: targetBlueprint },
+              error: null,
+            }),
+        }),
+      }),
+    }),
+  };
+  const serviceClient = {
+    rpc: (name: string, args: Record<string, unknown>) => {
+      calls.push({ name: `service:rpc:${name}`, arguments: args });
+      return Promise.resolve(upgrade);
+    },
+  };
+  return {
+    user: { id: HOST_ID },
+    userClient,
+    serviceClient,
+  } as unknown as AuthenticatedClients;
+}
+
+const upgradeRequest = (): Request =>
+  new Request("https://edge.test/upgrade-rule-lobby-v2", {
+    method: "POST",
+    headers: {
+      Authorization: "Bearer test-token",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      lobbyId: LOBBY_ID,
+      fromVersionId: FROM_VERSION_ID,
+      toVersionId: TO_VERSION_ID,
+    }),
+  });
+
+Deno.test(
+  "une version compatible avec les autres règles est repinnée",
+  async () => {
+    const calls: RecordedCall[] = [];
+    const handler = createUpgradeRuleLobbyHandler({
+      authenticateRequest: () =>
+        Promise.resolve(fakeClients(calls, blueprint("alpha", "teleport"))),
+    });
+
+    const response = await handler(upgradeRequest());
+    const upgrade = calls.find(
+      (call) => call.name === "service:rpc:upgrade_rule_lobby_version_server",
+    );
+
+    assertEquals(response.status, 200, "La mise à jour doit aboutir");
+    assertEquals(
+      upgrade?.arguments.p_user_id,
+      HOST_ID,
+      "Le serveur doit transmettre l'hôte authentifié",
+    );
+    assertEquals(
+      upgrade?.arguments.p_to_version_id,
+      TO_VERSION_ID,
+      "La nouvelle version doit être repinnée",
+    );
+  },
+);
+
+Deno.test(
+  "une version en conflit avec une autre règle du lobby est refusée",
+  async () => {
+    const calls: RecordedCall[] = [];
+    const handler = createUpgradeRuleLobbyHandler({
+      authenticateRequest: () =>
+        Promise.resolve(
+          fakeClients(calls, blueprint("alpha", "teleport", true)),
+        ),
+    });
+
+    const response = await handler(upgradeRequest());
+    const body = await response.json();
+
+    assertEquals(response.status, 409, "Le conflit doit être refusé");
+    assertEquals(
+      body.code,
+      "RULE_COMPOSITION_CONFLICT",
+      "Le code doit nommer le conflit",
+    );
+    assertEquals(
+      calls.some((call) => call.name.startsWith("service:")),
+      false,
+      "Le lobby ne doit pas être repinné",
+    );
+  },
+);
+
+Deno.test("un refus de la base est relayé avec son code", async () => {
+  const calls: RecordedCall[] = [];
+  const handler = createUpgradeRuleLobbyHandler({
+    authenticateRequest: () =>
+      Promise.resolve(
+        fakeClients(calls, blueprint("alpha", "teleport"), {
+          data: null,
+          error: { message: "RULE_VERSION_UPGRADE_BREAKING" },
+        }),
+      ),
+  });
+
+  const response = await handler(upgradeRequest());
+
+  assertEquals(response.status, 409, "Le refus doit être un conflit");
+  assertEquals(
+    (await response.json()).code,
+    "RULE_VERSION_UPGRADE_BREAKING",
+    "Le code de la base doit être conservé",
+  );
+});
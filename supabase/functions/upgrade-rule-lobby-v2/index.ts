@@ -0,0 +1,184 @@
+import { authenticateRequest } from "../_shared/auth-v2.ts";
+import { handlePreflight, jsonResponse } from "../_shared/cors-v2.ts";
+import { analyzeRuleComposition } from "../_shared/rules-v2/index.ts";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/** Database refusals a host can act on, with the message shown to them. */
+const UPGRADE_REFUSALS: Record<string, string> = {
+  RULE_VERSION_UPGRADE_BREAKING:
+    "Cette version retire ou remplace une partie de la règle : crée un nouveau lobby.",
+  LOBBY_NOT_OPEN:
+    "Un adversaire a déjà rejoint ce lobby : ses règles sont verrouillées.",
+  RULE_VERSION_NOT_NEWER: "Choisis une version plus récente de la même règle.",
+  RULE_VERSION_NOT_PINNED: "Cette version n'est plus celle du lobby.",
+  LOBBY_NOT_FOUND: "Lobby introuvable.",
+};
+
+export interface UpgradeRuleLobbyDependencies {
+  authenticateRequest: typeof authenticateRequest;
+}
+
+export type UpgradeRuleLobbyHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Moves a waiting lobby to a newer version of one of its rules. The upgraded
+ * rule set goes through the same composition analysis as
+ * `create-rule-lobby-v2` before the service-only RPC repins the lobby.
+ */
+export function createUpgradeRuleLobbyHandler(
+  dependencies: Partial<UpgradeRuleLobbyDependencies> = {},
+): UpgradeRuleLobbyHandler {
+  const authenticate = dependencies.authenticateRequest ?? authenticateRequest;
+
+  return async (request: Request): Promise<Response> => {
+    const preflight = handlePreflight(request);
+    if (preflight) {
+      return preflight;
+    }
+
+    if (request.method !== "POST") {
+      return jsonResponse(request, 405, {
+        success: false,
+        error: "Méthode non autorisée.",
+      });
+    }
+
+    try {
+      const { user, userClient, serviceClient } = await authenticate(request);
+      const body = (await request.json().catch(() => null)) as {
+        lobbyId?: unknown;
+        fromVersionId?: unknown;
+        toVersionId?: unknown;
+      } | null;
+
+      const [lobbyId, fromVersionId, toVersionId] = [
+        body?.lobbyId,
+        body?.fromVersionId,
+        body?.toVersionId,
+      ].map((value) =>
+        typeof value === "string" && UUID_PATTERN.test(value) ? value : "",
+      );
+
+      if (!lobbyId || !fromVersionId || !toVersionId) {
+        return jsonResponse(request, 400, {
+          success: false,
+          error: "Lobby et versions de règle invalides.",
+        });
+      }
+
+      const { data: pinned, error: pinnedError } = await userClient.rpc(
+        "get_rule_lobby_blueprints_v2",
+        { p_lobby_id: lobbyId },
+      );
+      const { data: target, error: targetError } = await userClient
+        .from("rule_versions")
+        .select("id, blueprint_json")
+        .eq("id", toVersionId)
+        .maybeSingle();
+
+      if (pinnedError || targetError || !Array.isArray(pinned) || !target) {
+        throw new Error("LOBBY_RULES_UNAVAILABLE");
+      }
+
+      if (
+        !pinned.some(
+          (row: { rule_version_id: string }) =>
+            row.rule_version_id === fromVersionId,
+        )
+      ) {
+        return jsonResponse(request, 409, {
+          success: false,
+          code: "RULE_VERSION_NOT_PINNED",
+          error: UPGRADE_REFUSALS.RULE_VERSION_NOT_PINNED,
+        });
+      }
+
+      const compositionDiagnostics = analyzeRuleComposition(
+        pinned.map(
+          (row: { rule_version_id: string; blueprint_json: unknown }) =>
+            row.rule_version_id === fromVersionId
+              ? target.blueprint_json
+              : row.blueprint_json,
+        ),
+      );
+      const compositionError = compositionDiagnostics.find(
+        (diagnostic) => diagnostic.severity === "error",
+      );
+
+      if (compositionError) {
+        return jsonResponse(request, 409, {
+          success: false,
+          code: "RULE_COMPOSITION_CONFLICT",
+          error: `Cette version ne peut pas rejoindre les autres règles du lobby : ${compositionError.message}`,
+          diagnostics: compositionDiagnostics,
+        });
+      }
+
+      const { data, error } = await serviceClient.rpc(
+        "upgrade_rule_lobby_version_server",
+        {
+          p_user_id: user.id,
+          p_lobby_id: lobbyId,
+          p_from_version_id: fromVersionId,
+          p_to_version_id: toVersionId,
+        },
+      );
+
+      if (error) {
+        const refusal = Object.keys(UPGRADE_REFUSALS).find((code) =>
+          String(error.message ?? "").includes(code),
+        );
+        if (refusal) {
+          return jsonResponse(request, 409, {
+            success: false,
+            code: refusal,
+            error: UPGRADE_REFUSALS[refusal],
+          });
+        }
+        throw new Error("LOBBY_UPGRADE_FAILED");
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+
+      if (!row) {
+        throw new Error("LOBBY_UPGRADE_FAILED");
+      }
+
+      return jsonResponse(request, 200, {
+        success: true,
+        data: {
+          rulesetHash: row.ruleset_hash,
+          legacyRuleIds: row.legacy_rule_ids,
+          compositionDiagnostics,
+        },
+      });
+    } catch (error) {
+      const errorCode = error instanceof Error ? error.message : "UNKNOWN";
+      const status =
+        errorCode === "AUTH_REQUIRED" || errorCode === "AUTH_INVALID"
+          ? 401
+          : 400;
+
+      console.error("[upgrade-rule-lobby-v2]", {
+        code:
+          status === 401 ? "AUTHENTICATION_FAILED" : "LOBBY_UPGRADE_REJECTED",
+      });
+
+      return jsonResponse(request, status, {
+        success: false,
+        error:
+          status === 401
+            ? "Authentification requise."
+            : "La mise à jour du lobby a échoué.",
+      });
+    }
+  };
+}
+
+export const handleRequest = createUpgradeRuleLobbyHandler();
+
+if (import.meta.main) {
+  Deno.serve(handleRequest);
+}
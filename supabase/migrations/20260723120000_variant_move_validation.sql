@@ -0,0 +1,185 @@
+begin;
+
+-- process-chess-move now replays the pinned Rule Architect versions through
+-- the shared deterministic RuleEngine, so custom rooms no longer fall back to
+-- client-only validation. The legacy lobby PvP gate stays in place.
+drop trigger if exists chess_rooms_custom_runtime_gate on public.chess_rooms;
+drop function if exists private.enforce_chess_custom_runtime_gate();
+
+-- A rule action is journaled as one ply on the UCI null move. Its payload is
+-- replayed verbatim by the validator and bound into the idempotency key.
+alter table public.chess_move_commands
+  add column if not exists rule_action jsonb;
+
+alter table public.chess_move_commands
+  drop constraint if exists chess_move_commands_rule_action_check;
+alter table public.chess_move_commands
+  add constraint chess_move_commands_rule_action_check check (
+    (rule_action is null and uci <> '0000')
+    or (
+      rule_action is not null
+      and uci = '0000'
+      and jsonb_typeof(rule_action) = 'object'
+      and octet_length(rule_action::text) <= 512
+    )
+  );
+
+drop function if exists public.submit_chess_move_command(
+  uuid, bigint, uuid, text, integer
+);
+
+create or replace function public.submit_chess_move_command(
+  p_match_id uuid,
+  p_expected_revision bigint,
+  p_client_command_id uuid,
+  p_uci text,
+  p_submitted_clock_ms integer default null,
+  p_rule_action jsonb default null
+)
+returns table (
+  command_id uuid,
+  command_sequence bigint,
+  command_status text,
+  authoritative_revision bigint
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_match public.chess_matches%rowtype;
+  v_existing public.chess_move_commands%rowtype;
+  v_pending public.chess_move_commands%rowtype;
+  v_id uuid;
+  v_sequence bigint;
+  v_clock_ms bigint;
+  v_elapsed_ms bigint;
+  v_attempt_count integer;
+  v_uci text := lower(trim(p_uci));
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_client_command_id is null or p_expected_revision is null then
+    raise exception 'COMMAND_ID_AND_REVISION_REQUIRED' using errcode = '22023';
+  end if;
+  if p_uci is null or char_length(trim(p_uci)) not between 4 and 32 then
+    raise exception 'INVALID_MOVE_NOTATION' using errcode = '22023';
+  end if;
+  if p_submitted_clock_ms is not null
+    and p_submitted_clock_ms not between 0 and 604800000 then
+    raise exception 'INVALID_CLIENT_CLOCK' using errcode = '22023';
+  end if;
+  if (p_rule_action is null) <> (v_uci <> '0000')
+    or (
+      p_rule_action is not null
+      and (
+        jsonb_typeof(p_rule_action) <> 'object'
+        or octet_length(p_rule_action::text) > 512
+      )
+    ) then
+    raise exception 'INVALID_RULE_ACTION' using errcode = '22023';
+  end if;
+
+  -- All command lifecycle functions lock the match before a command row.
+  select * into v_match
+  from public.chess_matches
+  where id = p_match_id
+  for update;
+  if not found then
+    raise exception 'MATCH_NOT_FOUND' using errcode = 'P0002';
+  end if;
+
+  select * into v_existing
+  from public.chess_move_commands command_row
+  where command_row.match_id = p_match_id
+    and command_row.actor_id = v_user_id
+    and command_row.client_command_id = p_client_command_id;
+  if found then
+    if v_existing.expected_revision <> p_expected_revision
+      or v_existing.uci <> v_uci
+      or v_existing.rule_action is distinct from p_rule_action then
+      raise exception 'IDEMPOTENCY_KEY_REUSED' using errcode = '22023';
+    end if;
+    return query select v_existing.id, v_existing.sequence,
+      v_existing.status, v_match.revision;
+    return;
+  end if;
+
+  if v_match.status <> 'active' then
+    raise exception 'MATCH_NOT_ACTIVE' using errcode = '55000';
+  end if;
+  if p_rule_action is not null
+    and v_match.state ->> 'rulesetType' is distinct from 'custom' then
+    raise exception 'INVALID_RULE_ACTION' using errcode = '22023';
+  end if;
+  if v_match.revision <> p_expected_revision then
+    raise exception 'STALE_MATCH_REVISION' using errcode = '40001';
+  end if;
+  if (v_match.side_to_move = 'white' and v_match.white_player_id <> v_user_id)
+    or (v_match.side_to_move = 'black' and v_match.black_player_id <> v_user_id) then
+    raise exception 'NOT_YOUR_TURN' using errcode = '42501';
+  end if;
+
+  select * into v_pending
+  from public.chess_move_commands command_row
+  where command_row.match_id = p_match_id
+    and command_row.expected_revision = p_expected_revision
+    and command_row.status = 'pending';
+  if found then
+    raise exception 'MOVE_ALREADY_PENDING' using errcode = '55000';
+  end if;
+
+  select count(*) into v_attempt_count
+  from public.chess_move_commands command_row
+  where command_row.match_id = p_match_id
+    and command_row.actor_id = v_user_id
+    and command_row.expected_revision = p_expected_revision
+    and command_row.status <> 'accepted';
+  if v_attempt_count >= 32 then
+    raise exception 'COMMAND_RATE_LIMITED' using errcode = '55000';
+  end if;
+
+  v_clock_ms := case v_match.side_to_move
+    when 'white' then coalesce((v_match.clock_state ->> 'whiteMs')::bigint, 0)
+    else coalesce((v_match.clock_state ->> 'blackMs')::bigint, 0)
+  end;
+  v_elapsed_ms := greatest(
+    0,
+    floor(extract(epoch from (
+      clock_timestamp() - coalesce(v_match.last_move_at, v_match.started_at)
+    )) * 1000)::bigint
+  );
+  if v_clock_ms - v_elapsed_ms <= 0 then
+    raise exception 'CLOCK_EXPIRED' using errcode = '55000';
+  end if;
+
+  v_sequence := v_match.command_sequence + 1;
+  update public.chess_matches
+  set command_sequence = v_sequence
+  where id = p_match_id;
+
+  insert into public.chess_move_commands (
+    match_id, actor_id, client_command_id, sequence, expected_revision,
+    uci, submitted_clock_ms, rule_action, created_at
+  ) values (
+    p_match_id, v_user_id, p_client_command_id, v_sequence,
+    p_expected_revision, v_uci, p_submitted_clock_ms, p_rule_action,
+    clock_timestamp()
+  ) returning id into v_id;
+
+  return query select v_id, v_sequence, 'pending'::text, v_match.revision;
+end;
+$$;
+
+revoke all on function public.submit_chess_move_command(
+  uuid, bigint, uuid, text, integer, jsonb
+) from public, anon, authenticated;
+grant execute on function public.submit_chess_move_command(
+  uuid, bigint, uuid, text, integer, jsonb
+) to authenticated;
+
+notify pgrst, 'reload schema';
+
+commit;
@@ -0,0 +1,261 @@
+begin;
+
+-- Draw commands are journaled beside move commands. An offer stays open until
+-- the opponent answers it or plays a move after having seen it.
+create table if not exists public.chess_match_draw_commands (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.chess_matches(id) on delete restrict,
+  actor_id uuid not null references auth.users(id) on delete cascade,
+  client_command_id uuid not null,
+  sequence bigint not null check (sequence > 0),
+  expected_revision bigint not null check (expected_revision >= 0),
+  action text not null check (action in ('offer', 'accept', 'decline')),
+  side text not null check (side in ('white', 'black')),
+  ply integer not null check (ply >= 0),
+  expires_at_ply integer,
+  offer_id uuid references public.chess_match_draw_commands(id)
+    on delete restrict,
+  created_at timestamptz not null default now(),
+  unique (match_id, actor_id, client_command_id),
+  unique (match_id, sequence),
+  check (
+    (action = 'offer' and expires_at_ply > ply and offer_id is null)
+    or (action <> 'offer' and expires_at_ply is null and offer_id is not null)
+  )
+);
+
+-- One offer per side and ply keeps a declined offer from being spammed.
+create unique index if not exists chess_match_draw_commands_offer_idx
+  on public.chess_match_draw_commands (match_id, side, ply)
+  where action = 'offer';
+create unique index if not exists chess_match_draw_commands_response_idx
+  on public.chess_match_draw_commands (offer_id)
+  where offer_id is not null;
+
+alter table public.chess_match_draw_commands enable row level security;
+
+drop policy if exists chess_match_draw_commands_read
+  on public.chess_match_draw_commands;
+create policy chess_match_draw_commands_read
+  on public.chess_match_draw_commands for select to authenticated
+  using (actor_id = (select auth.uid()));
+
+revoke all on table public.chess_match_draw_commands
+  from public, anon, authenticated;
+grant select on table public.chess_match_draw_commands to authenticated;
+grant all on table public.chess_match_draw_commands to service_role;
+
+create or replace function public.submit_chess_draw_command(
+  p_match_id uuid,
+  p_expected_revision bigint,
+  p_client_command_id uuid,
+  p_action text
+)
+returns table (
+  command_id uuid,
+  command_sequence bigint,
+  command_status text,
+  authoritative_revision bigint
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_match public.chess_matches%rowtype;
+  v_existing public.chess_match_draw_commands%rowtype;
+  v_offer public.chess_match_draw_commands%rowtype;
+  v_side text;
+  v_id uuid;
+  v_sequence bigint;
+  v_revision bigint;
+  v_reference text;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_client_command_id is null or p_expected_revision is null then
+    raise exception 'COMMAND_ID_AND_REVISION_REQUIRED' using errcode = '22023';
+  end if;
+  if p_action is null or p_action not in ('offer', 'accept', 'decline') then
+    raise exception 'INVALID_DRAW_ACTION' using errcode = '22023';
+  end if;
+
+  -- All command lifecycle functions lock the match before a command row.
+  select * into v_match
+  from public.chess_matches
+  where id = p_match_id
+  for update;
+  if not found then
+    raise exception 'MATCH_NOT_FOUND' using errcode = 'P0002';
+  end if;
+
+  select * into v_existing
+  from public.chess_match_draw_commands command_row
+  where command_row.match_id = p_match_id
+    and command_row.actor_id = v_user_id
+    and command_row.client_command_id = p_client_command_id;
+  if found then
+    if v_existing.expected_revision <> p_expected_revision
+      or v_existing.action <> p_action then
+      raise exception 'IDEMPOTENCY_KEY_REUSED' using errcode = '22023';
+    end if;
+    return query select v_existing.id, v_existing.sequence,
+      'accepted'::text, v_match.revision;
+    return;
+  end if;
+
+  if v_user_id = v_match.white_player_id then
+    v_side := 'white';
+  elsif v_user_id = v_match.black_player_id then
+    v_side := 'black';
+  else
+    raise exception 'MATCH_PARTICIPANT_REQUIRED' using errcode = '42501';
+  end if;
+  if v_match.status <> 'active' then
+    raise exception 'MATCH_NOT_ACTIVE' using errcode = '55000';
+  end if;
+  if v_match.revision <> p_expected_revision then
+    raise exception 'STALE_MATCH_REVISION' using errcode = '40001';
+  end if;
+
+  select * into v_offer
+  from public.chess_match_draw_commands offer_row
+  where offer_row.match_id = p_match_id
+    and offer_row.action = 'offer'
+    and offer_row.expires_at_ply > v_match.ply_count
+    and not exists (
+      select 1
+      from public.chess_match_draw_commands response_row
+      where response_row.offer_id = offer_row.id
+    )
+  order by offer_row.sequence desc
+  limit 1;
+
+  if p_action = 'offer' then
+    if v_offer.id is not null then
+      raise exception 'DRAW_OFFER_PENDING' using errcode = '55000';
+    end if;
+    if exists (
+      select 1
+      from public.chess_match_draw_commands offer_row
+      where offer_row.match_id = p_match_id
+        and offer_row.action = 'offer'
+        and offer_row.side = v_side
+        and offer_row.ply = v_match.ply_count
+    ) then
+      raise exception 'DRAW_OFFER_LIMIT' using errcode = '55000';
+    end if;
+  elsif v_offer.id is null or v_offer.side = v_side then
+    raise exception 'DRAW_OFFER_NOT_FOUND' using errcode = 'P0002';
+  end if;
+
+  -- Offers and declines consume a revision; they must not strand a move that
+  -- is already being validated at the current one.
+  if p_action <> 'accept' and exists (
+    select 1
+    from public.chess_move_commands command_row
+    where command_row.match_id = p_match_id
+      and command_row.expected_revision = p_expected_revision
+      and command_row.status = 'pending'
+  ) then
+    raise exception 'MOVE_ALREADY_PENDING' using errcode = '55000';
+  end if;
+
+  v_sequence := v_match.command_sequence + 1;
+  update public.chess_matches
+  set command_sequence = v_sequence
+  where id = p_match_id;
+
+  insert into public.chess_match_draw_commands (
+    match_id, actor_id, client_command_id, sequence, expected_revision,
+    action, side, ply, expires_at_ply, offer_id, created_at
+  ) values (
+    p_match_id, v_user_id, p_client_command_id, v_sequence,
+    p_expected_revision, p_action, v_side, v_match.ply_count,
+    case
+      when p_action <> 'offer' then null
+      -- The offerer still has to move: the opponent answers after that move.
+      when v_match.side_to_move = v_side then v_match.ply_count + 2
+      else v_match.ply_count + 1
+    end,
+    case when p_action = 'offer' then null else v_offer.id end,
+    clock_timestamp()
+  ) returning id into v_id;
+
+  if p_action = 'accept' then
+    v_reference := 'player-draw-agreement-v1:' || encode(
+      extensions.digest(
+        convert_to(
+          concat_ws(
+            ':',
+            'player-draw-agreement-v1',
+            v_match.id::text,
+            p_expected_revision::text,
+            v_offer.id::text,
+            v_user_id::text,
+            v_match.ruleset_hash
+          ),
+          'UTF8'
+        ),
+        'sha256'
+      ),
+      'hex'
+    );
+    perform public.finalize_chess_match_server(
+      v_match.id,
+      '1/2-1/2',
+      'draw-agreement',
+      v_reference,
+      p_expected_revision
+    );
+    return query select v_id, v_sequence, 'accepted'::text,
+      p_expected_revision + 1;
+    return;
+  end if;
+
+  v_revision := v_match.revision + 1;
+  update public.chess_matches
+  set revision = v_revision
+  where id = p_match_id;
+
+  insert into public.chess_match_events (
+    match_id, revision, event_type, actor_id, payload
+  ) values (
+    v_match.id,
+    v_revision,
+    case p_action when 'offer' then 'draw_offered' else 'draw_declined' end,
+    v_user_id,
+    case p_action
+      when 'offer' then jsonb_build_object(
+        'commandId', v_id,
+        'side', v_side,
+        'offeredAtPly', v_match.ply_count,
+        'expiresAtPly', case
+          when v_match.side_to_move = v_side then v_match.ply_count + 2
+          else v_match.ply_count + 1
+        end
+      )
+      else jsonb_build_object(
+        'commandId', v_id,
+        'offerId', v_offer.id,
+        'side', v_side
+      )
+    end
+  );
+
+  return query select v_id, v_sequence, 'accepted'::text, v_revision;
+end;
+$$;
+
+revoke all on function public.submit_chess_draw_command(
+  uuid, bigint, uuid, text
+) from public, anon, authenticated;
+grant execute on function public.submit_chess_draw_command(
+  uuid, bigint, uuid, text
+) to authenticated;
+
+notify pgrst, 'reload schema';
+
+commit;
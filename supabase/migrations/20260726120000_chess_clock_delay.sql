@@ -0,0 +1,1233 @@
+begin;
+
+-- Time controls gain a delay next to the Fischer increment. A simple delay
+-- holds the clock for its first seconds; a Bronstein delay gives back the time
+-- spent on a move, capped at the delay. Both ride in the match clock_state as
+-- delayMs/delayMode, which process-chess-move reads with the increment.
+alter table public.chess_rooms
+  add column if not exists delay_seconds integer not null default 0
+    check (delay_seconds between 0 and 300),
+  add column if not exists delay_mode text not null default 'none'
+    check (delay_mode in ('none', 'simple', 'bronstein'));
+alter table public.chess_rooms
+  drop constraint if exists chess_rooms_delay_consistency_check;
+alter table public.chess_rooms
+  add constraint chess_rooms_delay_consistency_check
+    check ((delay_mode = 'none') = (delay_seconds = 0));
+
+alter table public.chess_matchmaking_tickets
+  add column if not exists delay_seconds integer not null default 0
+    check (delay_seconds between 0 and 300),
+  add column if not exists delay_mode text not null default 'none'
+    check (delay_mode in ('none', 'simple', 'bronstein'));
+alter table public.chess_matchmaking_tickets
+  drop constraint if exists chess_matchmaking_tickets_delay_consistency_check;
+alter table public.chess_matchmaking_tickets
+  add constraint chess_matchmaking_tickets_delay_consistency_check
+    check ((delay_mode = 'none') = (delay_seconds = 0));
+
+drop index if exists public.chess_matchmaking_queue_idx;
+create index if not exists chess_matchmaking_queue_idx
+  on public.chess_matchmaking_tickets (
+    ruleset_hash,
+    rated,
+    initial_seconds,
+    increment_seconds,
+    delay_seconds,
+    delay_mode,
+    created_at
+  ) where status = 'queued';
+
+create or replace function private.chess_clock_delay_is_valid(
+  p_delay_seconds integer,
+  p_delay_mode text
+)
+returns boolean
+language sql
+immutable
+set search_path = ''
+as $$
+  select coalesce(
+    p_delay_seconds between 0 and 300
+      and p_delay_mode in ('none', 'simple', 'bronstein')
+      and (p_delay_mode = 'none') = (p_delay_seconds = 0),
+    false
+  );
+$$;
+
+revoke all on function private.chess_clock_delay_is_valid(integer, text)
+  from public, anon, authenticated;
+
+-- Time taken from the running clock; clocks without a delay predate it.
+create or replace function private.chess_clock_charged_ms(
+  p_clock_state jsonb,
+  p_elapsed_ms bigint
+)
+returns bigint
+language sql
+immutable
+set search_path = ''
+as $$
+  select case p_clock_state ->> 'delayMode'
+    when 'simple' then greatest(
+      0,
+      p_elapsed_ms - coalesce((p_clock_state ->> 'delayMs')::bigint, 0)
+    )
+    else p_elapsed_ms
+  end;
+$$;
+
+revoke all on function private.chess_clock_charged_ms(jsonb, bigint)
+  from public, anon, authenticated;
+
+-- Match creation and a takeback to the first ply both start from this clock.
+create or replace function private.chess_room_initial_clock_state(
+  p_room_id uuid
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'whiteMs', room_row.initial_seconds * 1000,
+    'blackMs', room_row.initial_seconds * 1000,
+    'incrementMs', room_row.increment_seconds * 1000,
+    'delayMs', room_row.delay_seconds * 1000,
+    'delayMode', room_row.delay_mode
+  )
+  from public.chess_rooms room_row
+  where room_row.id = p_room_id;
+$$;
+
+revoke all on function private.chess_room_initial_clock_state(uuid)
+  from public, anon, authenticated;
+
+drop function if exists public.create_chess_room(
+  text, text, uuid, uuid[], boolean, integer, integer, text
+);
+
+create or replace function public.create_chess_room(
+  p_name text,
+  p_visibility text,
+  p_request_key uuid,
+  p_rule_version_ids uuid[] default '{}'::uuid[],
+  p_rated boolean default false,
+  p_initial_seconds integer default 600,
+  p_increment_seconds integer default 0,
+  p_owner_color text default 'random',
+  p_delay_seconds integer default 0,
+  p_delay_mode text default 'none'
+)
+returns table (
+  room_id uuid,
+  ruleset_hash text,
+  owner_color text,
+  status text
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room public.chess_rooms%rowtype;
+  v_room_id uuid;
+  v_rule_count integer := coalesce(cardinality(p_rule_version_ids), 0);
+  v_accessible integer;
+  v_ruleset_type text;
+  v_ruleset_hash text;
+  v_owner_color text;
+  v_season_id uuid;
+  v_configuration jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_request_key is null then
+    raise exception 'REQUEST_KEY_REQUIRED' using errcode = '22023';
+  end if;
+  if p_name is null or char_length(trim(p_name)) not between 3 and 80 then
+    raise exception 'INVALID_ROOM_NAME' using errcode = '22023';
+  end if;
+  if p_visibility not in ('public', 'private', 'unlisted') then
+    raise exception 'INVALID_ROOM_VISIBILITY' using errcode = '22023';
+  end if;
+  if p_initial_seconds not between 30 and 604800
+    or p_increment_seconds not between 0 and 3600
+    or not private.chess_clock_delay_is_valid(p_delay_seconds, p_delay_mode) then
+    raise exception 'INVALID_TIME_CONTROL' using errcode = '22023';
+  end if;
+  if p_owner_color not in ('white', 'black', 'random') then
+    raise exception 'INVALID_OWNER_COLOR' using errcode = '22023';
+  end if;
+  if v_rule_count not between 0 and 8 then
+    raise exception 'INVALID_RULE_COUNT' using errcode = '22023';
+  end if;
+  if (
+    select count(distinct version_id)
+    from unnest(p_rule_version_ids) as version_id
+  ) <> v_rule_count then
+    raise exception 'DUPLICATE_RULE_VERSION' using errcode = '22023';
+  end if;
+
+  v_ruleset_type := case when v_rule_count = 0 then 'standard' else 'custom' end;
+  if p_rated and v_ruleset_type <> 'standard' then
+    raise exception 'CUSTOM_RULES_CANNOT_BE_RATED' using errcode = '22023';
+  end if;
+
+  if v_rule_count > 0 then
+    select count(*) into v_accessible
+    from unnest(p_rule_version_ids) as requested(version_id)
+    where public.can_read_rule_version(requested.version_id);
+    if v_accessible <> v_rule_count then
+      raise exception 'RULE_VERSION_NOT_ACCESSIBLE' using errcode = '42501';
+    end if;
+  end if;
+
+  if p_rated then
+    select season_row.id into v_season_id
+    from public.chess_rating_seasons season_row
+    where season_row.status = 'active'
+      and clock_timestamp() between season_row.starts_at and season_row.ends_at
+    limit 1;
+    if v_season_id is null then
+      raise exception 'NO_ACTIVE_RATING_SEASON' using errcode = '55000';
+    end if;
+  end if;
+
+  v_ruleset_hash := public.compute_chess_ruleset_hash(p_rule_version_ids);
+  v_owner_color := case
+    when p_owner_color in ('white', 'black') then p_owner_color
+    when get_byte(extensions.gen_random_bytes(1), 0) % 2 = 0 then 'white'
+    else 'black'
+  end;
+  v_configuration := jsonb_build_object(
+    'ruleVersionIds', to_jsonb(p_rule_version_ids),
+    'ownerColor', v_owner_color
+  );
+
+  select * into v_room
+  from public.chess_rooms
+  where owner_id = v_user_id and request_key = p_request_key
+  for update;
+
+  if found then
+    if v_room.name <> trim(p_name)
+      or v_room.visibility <> p_visibility
+      or v_room.rated <> p_rated
+      or v_room.initial_seconds <> p_initial_seconds
+      or v_room.increment_seconds <> p_increment_seconds
+      or v_room.delay_seconds <> p_delay_seconds
+      or v_room.delay_mode <> p_delay_mode
+      or v_room.ruleset_hash <> v_ruleset_hash
+      or coalesce(v_room.configuration -> 'ruleVersionIds', '[]'::jsonb)
+        <> to_jsonb(p_rule_version_ids) then
+      raise exception 'IDEMPOTENCY_KEY_REUSED' using errcode = '22023';
+    end if;
+    return query select v_room.id, v_room.ruleset_hash,
+      v_room.configuration ->> 'ownerColor', v_room.status;
+    return;
+  end if;
+
+  insert into public.chess_rooms (
+    owner_id, request_key, name, visibility, ruleset_type, ruleset_hash,
+    rated, season_id, initial_seconds, increment_seconds, delay_seconds,
+    delay_mode, configuration
+  ) values (
+    v_user_id, p_request_key, trim(p_name), p_visibility, v_ruleset_type,
+    v_ruleset_hash, p_rated, v_season_id, p_initial_seconds,
+    p_increment_seconds, p_delay_seconds, p_delay_mode, v_configuration
+  ) returning id into v_room_id;
+
+  insert into public.chess_room_members (
+    room_id, user_id, member_role, color
+  ) values (v_room_id, v_user_id, 'owner', v_owner_color);
+
+  if v_rule_count > 0 then
+    insert into public.chess_room_rule_versions (room_id, rule_version_id, ordinal)
+    select v_room_id, requested.version_id, requested.ordinal::smallint
+    from unnest(p_rule_version_ids)
+      with ordinality as requested(version_id, ordinal);
+  end if;
+
+  return query select v_room_id, v_ruleset_hash, v_owner_color, 'open'::text;
+end;
+$$;
+
+revoke all on function public.create_chess_room(
+  text, text, uuid, uuid[], boolean, integer, integer, text, integer, text
+) from public, anon, authenticated;
+grant execute on function public.create_chess_room(
+  text, text, uuid, uuid[], boolean, integer, integer, text, integer, text
+) to authenticated;
+
+
+drop function if exists public.list_open_chess_rooms(integer);
+
+create or replace function public.list_open_chess_rooms(
+  p_limit integer default 50
+)
+returns table (
+  room_id uuid,
+  room_name text,
+  owner_id uuid,
+  ruleset_type text,
+  ruleset_hash text,
+  rated boolean,
+  initial_seconds integer,
+  increment_seconds integer,
+  delay_seconds integer,
+  delay_mode text,
+  waiting_since timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  return query
+  select room_row.id, room_row.name, room_row.owner_id,
+    room_row.ruleset_type, room_row.ruleset_hash, room_row.rated,
+    room_row.initial_seconds, room_row.increment_seconds,
+    room_row.delay_seconds, room_row.delay_mode, room_row.created_at
+  from public.chess_rooms room_row
+  where room_row.visibility = 'public' and room_row.status = 'open'
+  order by room_row.created_at desc
+  limit least(greatest(coalesce(p_limit, 50), 1), 100);
+end;
+$$;
+
+revoke all on function public.list_open_chess_rooms(integer)
+  from public, anon, authenticated;
+grant execute on function public.list_open_chess_rooms(integer)
+  to authenticated;
+
+
+create or replace function public.create_chess_match_internal(
+  p_room_id uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_room public.chess_rooms%rowtype;
+  v_white uuid;
+  v_black uuid;
+  v_match_id uuid;
+  v_seed bigint;
+  v_rule_state_hash text;
+  v_position_hash text;
+  v_initial_fen constant text :=
+    'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+begin
+  select * into v_room
+  from public.chess_rooms
+  where id = p_room_id
+  for update;
+  if not found then
+    raise exception 'ROOM_NOT_FOUND' using errcode = 'P0002';
+  end if;
+
+  select match_row.id into v_match_id
+  from public.chess_matches match_row
+  where match_row.room_id = p_room_id;
+  if v_match_id is not null then
+    return v_match_id;
+  end if;
+  if v_room.status <> 'open' then
+    raise exception 'ROOM_NOT_OPEN' using errcode = '55000';
+  end if;
+
+  select member_row.user_id into v_white
+  from public.chess_room_members member_row
+  where member_row.room_id = p_room_id
+    and member_row.membership_status = 'active'
+    and member_row.color = 'white';
+  select member_row.user_id into v_black
+  from public.chess_room_members member_row
+  where member_row.room_id = p_room_id
+    and member_row.membership_status = 'active'
+    and member_row.color = 'black';
+  if v_white is null or v_black is null then
+    raise exception 'ROOM_NEEDS_TWO_PLAYERS' using errcode = '55000';
+  end if;
+
+  v_seed := (
+    'x' || substr(encode(extensions.gen_random_bytes(8), 'hex'), 1, 13)
+  )::bit(52)::bigint;
+  v_rule_state_hash := encode(
+    extensions.digest(
+      convert_to(
+        v_initial_fen || ':' || v_room.ruleset_hash || ':' || v_seed::text,
+        'UTF8'
+      ),
+      'sha256'
+    ),
+    'hex'
+  );
+  v_position_hash := encode(
+    extensions.digest(convert_to(v_initial_fen, 'UTF8'), 'sha256'),
+    'hex'
+  );
+
+  insert into public.chess_matches (
+    room_id, white_player_id, black_player_id, status, rated, season_id,
+    ruleset_hash, engine_version, shared_seed, initial_fen, current_fen,
+    clock_state, state, rule_state_hash, position_hash, started_at
+  ) values (
+    p_room_id, v_white, v_black, 'active', v_room.rated, v_room.season_id,
+    v_room.ruleset_hash, v_room.engine_version, v_seed, v_initial_fen,
+    v_initial_fen,
+    private.chess_room_initial_clock_state(p_room_id),
+    jsonb_build_object(
+      'rulesetType', v_room.ruleset_type,
+      'rulesetHash', v_room.ruleset_hash,
+      'engineVersion', v_room.engine_version,
+      'ruleStateHash', v_rule_state_hash
+    ),
+    v_rule_state_hash,
+    v_position_hash,
+    now()
+  ) returning id into v_match_id;
+
+  insert into public.chess_match_events (
+    match_id, revision, event_type, payload
+  ) values (
+    v_match_id,
+    0,
+    'match_started',
+    jsonb_build_object(
+      'whitePlayerId', v_white,
+      'blackPlayerId', v_black,
+      'rulesetHash', v_room.ruleset_hash,
+      'sharedSeed', v_seed,
+      'ruleStateHash', v_rule_state_hash,
+      'positionHash', v_position_hash,
+      'engineVersion', v_room.engine_version
+    )
+  );
+
+  update public.chess_rooms
+  set status = 'in_game', started_at = now(), revision = revision + 1
+  where id = p_room_id;
+
+  return v_match_id;
+end;
+$$;
+
+revoke all on function public.create_chess_match_internal(uuid)
+  from public, anon, authenticated;
+
+
+drop function if exists public.enqueue_chess_matchmaking(
+  uuid, uuid[], boolean, integer, integer, integer
+);
+
+create or replace function public.enqueue_chess_matchmaking(
+  p_request_key uuid,
+  p_rule_version_ids uuid[] default '{}'::uuid[],
+  p_rated boolean default false,
+  p_initial_seconds integer default 600,
+  p_increment_seconds integer default 0,
+  p_rating_window integer default 200,
+  p_delay_seconds integer default 0,
+  p_delay_mode text default 'none'
+)
+returns table (
+  ticket_id uuid,
+  ticket_status text,
+  room_id uuid,
+  match_id uuid
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing public.chess_matchmaking_tickets%rowtype;
+  v_candidate public.chess_matchmaking_tickets%rowtype;
+  v_ticket_id uuid;
+  v_room_id uuid;
+  v_match_id uuid;
+  v_rule_count integer := coalesce(cardinality(p_rule_version_ids), 0);
+  v_ruleset_type text;
+  v_ruleset_hash text;
+  v_season_id uuid;
+  v_rating integer := 1200;
+  v_initial_rating integer := 1200;
+  v_accessible integer;
+  v_candidate_color text;
+  v_user_color text;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_request_key is null then
+    raise exception 'REQUEST_KEY_REQUIRED' using errcode = '22023';
+  end if;
+  if v_rule_count not between 0 and 8
+    or p_initial_seconds not between 30 and 604800
+    or p_increment_seconds not between 0 and 3600
+    or not private.chess_clock_delay_is_valid(p_delay_seconds, p_delay_mode)
+    or p_rating_window not between 25 and 1000 then
+    raise exception 'INVALID_MATCHMAKING_PARAMETERS' using errcode = '22023';
+  end if;
+  if (
+    select count(distinct version_id)
+    from unnest(p_rule_version_ids) as version_id
+  ) <> v_rule_count then
+    raise exception 'DUPLICATE_RULE_VERSION' using errcode = '22023';
+  end if;
+
+  perform pg_catalog.pg_advisory_xact_lock(
+    pg_catalog.hashtextextended('chess-player:' || v_user_id::text, 0)
+  );
+
+  select * into v_existing
+  from public.chess_matchmaking_tickets ticket_row
+  where ticket_row.player_id = v_user_id
+    and ticket_row.request_key = p_request_key
+  for update;
+  if found then
+    return query select v_existing.id, v_existing.status,
+      v_existing.matched_room_id, v_existing.matched_match_id;
+    return;
+  end if;
+
+  v_ruleset_type := case when v_rule_count = 0 then 'standard' else 'custom' end;
+  if p_rated and v_ruleset_type <> 'standard' then
+    raise exception 'CUSTOM_RULES_CANNOT_BE_RATED' using errcode = '22023';
+  end if;
+  if v_rule_count > 0 then
+    select count(*) into v_accessible
+    from unnest(p_rule_version_ids) as requested(version_id)
+    where public.can_read_rule_version(requested.version_id);
+    if v_accessible <> v_rule_count then
+      raise exception 'RULE_VERSION_NOT_ACCESSIBLE' using errcode = '42501';
+    end if;
+  end if;
+
+  if p_rated then
+    select season_row.id, season_row.initial_rating
+      into v_season_id, v_initial_rating
+    from public.chess_rating_seasons season_row
+    where season_row.status = 'active'
+      and clock_timestamp() between season_row.starts_at and season_row.ends_at
+    limit 1;
+    if v_season_id is null then
+      raise exception 'NO_ACTIVE_RATING_SEASON' using errcode = '55000';
+    end if;
+    select coalesce(rating_row.rating, v_initial_rating) into v_rating
+    from (select 1) seed
+    left join public.chess_player_ratings rating_row
+      on rating_row.season_id = v_season_id
+      and rating_row.user_id = v_user_id;
+  end if;
+
+  v_ruleset_hash := public.compute_chess_ruleset_hash(p_rule_version_ids);
+  perform pg_catalog.pg_advisory_xact_lock(
+    pg_catalog.hashtextextended(
+      'chess-queue:' || v_ruleset_hash || ':' || p_rated::text || ':'
+      || p_initial_seconds::text || ':' || p_increment_seconds::text || ':'
+      || p_delay_seconds::text || ':' || p_delay_mode,
+      0
+    )
+  );
+
+  update public.chess_matchmaking_tickets
+  set status = case when expires_at <= clock_timestamp() then 'expired' else 'cancelled' end
+  where player_id = v_user_id and status = 'queued';
+  update public.chess_matchmaking_tickets
+  set status = 'expired'
+  where status = 'queued' and expires_at <= clock_timestamp();
+
+  select * into v_candidate
+  from public.chess_matchmaking_tickets ticket_row
+  where ticket_row.status = 'queued'
+    and ticket_row.player_id <> v_user_id
+    and ticket_row.ruleset_hash = v_ruleset_hash
+    and ticket_row.ruleset_type = v_ruleset_type
+    and ticket_row.rule_version_ids = p_rule_version_ids
+    and ticket_row.rated = p_rated
+    and ticket_row.season_id is not distinct from v_season_id
+    and ticket_row.initial_seconds = p_initial_seconds
+    and ticket_row.increment_seconds = p_increment_seconds
+    and ticket_row.delay_seconds = p_delay_seconds
+    and ticket_row.delay_mode = p_delay_mode
+    and abs(ticket_row.player_rating - v_rating)
+      <= least(ticket_row.rating_window, p_rating_window)
+    and ticket_row.expires_at > clock_timestamp()
+  order by ticket_row.created_at
+  limit 1
+  for update skip locked;
+
+  if not found then
+    insert into public.chess_matchmaking_tickets (
+      player_id, request_key, ruleset_type, ruleset_hash, rule_version_ids,
+      rated, season_id, player_rating, rating_window, initial_seconds,
+      increment_seconds, delay_seconds, delay_mode
+    ) values (
+      v_user_id, p_request_key, v_ruleset_type, v_ruleset_hash,
+      p_rule_version_ids, p_rated, v_season_id, v_rating, p_rating_window,
+      p_initial_seconds, p_increment_seconds, p_delay_seconds, p_delay_mode
+    ) returning id into v_ticket_id;
+    return query select v_ticket_id, 'queued'::text, null::uuid, null::uuid;
+    return;
+  end if;
+
+  v_room_id := gen_random_uuid();
+  v_candidate_color := case
+    when get_byte(extensions.gen_random_bytes(1), 0) % 2 = 0 then 'white'
+    else 'black'
+  end;
+  v_user_color := case v_candidate_color when 'white' then 'black' else 'white' end;
+
+  insert into public.chess_rooms (
+    id, owner_id, request_key, name, visibility, ruleset_type, ruleset_hash,
+    rated, season_id, initial_seconds, increment_seconds, delay_seconds,
+    delay_mode, configuration
+  ) values (
+    v_room_id, v_candidate.player_id, v_room_id,
+    'Partie rapide', 'unlisted', v_ruleset_type, v_ruleset_hash,
+    p_rated, v_season_id, p_initial_seconds, p_increment_seconds,
+    p_delay_seconds, p_delay_mode,
+    jsonb_build_object(
+      'source', 'matchmaking',
+      'ruleVersionIds', to_jsonb(p_rule_version_ids)
+    )
+  );
+  insert into public.chess_room_members (
+    room_id, user_id, member_role, color
+  ) values
+    (v_room_id, v_candidate.player_id, 'owner', v_candidate_color),
+    (v_room_id, v_user_id, 'player', v_user_color);
+  if v_rule_count > 0 then
+    insert into public.chess_room_rule_versions (room_id, rule_version_id, ordinal)
+    select v_room_id, requested.version_id, requested.ordinal::smallint
+    from unnest(p_rule_version_ids)
+      with ordinality as requested(version_id, ordinal);
+  end if;
+
+  v_match_id := public.create_chess_match_internal(v_room_id);
+  update public.chess_matchmaking_tickets
+  set status = 'matched', matched_room_id = v_room_id,
+      matched_match_id = v_match_id
+  where id = v_candidate.id;
+
+  insert into public.chess_matchmaking_tickets (
+    player_id, request_key, status, ruleset_type, ruleset_hash,
+    rule_version_ids, rated, season_id, player_rating, rating_window,
+    initial_seconds, increment_seconds, delay_seconds, delay_mode,
+    matched_room_id, matched_match_id
+  ) values (
+    v_user_id, p_request_key, 'matched', v_ruleset_type, v_ruleset_hash,
+    p_rule_version_ids, p_rated, v_season_id, v_rating, p_rating_window,
+    p_initial_seconds, p_increment_seconds, p_delay_seconds, p_delay_mode,
+    v_room_id, v_match_id
+  ) returning id into v_ticket_id;
+
+  return query select v_ticket_id, 'matched'::text, v_room_id, v_match_id;
+end;
+$$;
+
+revoke all on function public.enqueue_chess_matchmaking(
+  uuid, uuid[], boolean, integer, integer, integer, integer, text
+) from public, anon, authenticated;
+grant execute on function public.enqueue_chess_matchmaking(
+  uuid, uuid[], boolean, integer, integer, integer, integer, text
+) to authenticated;
+
+
+-- A simple delay holds the clock: neither the submit gate nor the timeout
+-- finalizer may count its first seconds against the side to move.
+create or replace function public.submit_chess_move_command(
+  p_match_id uuid,
+  p_expected_revision bigint,
+  p_client_command_id uuid,
+  p_uci text,
+  p_submitted_clock_ms integer default null,
+  p_rule_action jsonb default null
+)
+returns table (
+  command_id uuid,
+  command_sequence bigint,
+  command_status text,
+  authoritative_revision bigint
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_match public.chess_matches%rowtype;
+  v_existing public.chess_move_commands%rowtype;
+  v_pending public.chess_move_commands%rowtype;
+  v_id uuid;
+  v_sequence bigint;
+  v_clock_ms bigint;
+  v_elapsed_ms bigint;
+  v_attempt_count integer;
+  v_uci text := lower(trim(p_uci));
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_client_command_id is null or p_expected_revision is null then
+    raise exception 'COMMAND_ID_AND_REVISION_REQUIRED' using errcode = '22023';
+  end if;
+  if p_uci is null or char_length(trim(p_uci)) not between 4 and 32 then
+    raise exception 'INVALID_MOVE_NOTATION' using errcode = '22023';
+  end if;
+  if p_submitted_clock_ms is not null
+    and p_submitted_clock_ms not between 0 and 604800000 then
+    raise exception 'INVALID_CLIENT_CLOCK' using errcode = '22023';
+  end if;
+  if (p_rule_action is null) <> (v_uci <> '0000')
+    or (
+      p_rule_action is not null
+      and (
+        jsonb_typeof(p_rule_action) <> 'object'
+        or octet_length(p_rule_action::text) > 512
+      )
+    ) then
+    raise exception 'INVALID_RULE_ACTION' using errcode = '22023';
+  end if;
+
+  -- All command lifecycle functions lock the match before a command row.
+  select * into v_match
+  from public.chess_matches
+  where id = p_match_id
+  for update;
+  if not found then
+    raise exception 'MATCH_NOT_FOUND' using errcode = 'P0002';
+  end if;
+
+  select * into v_existing
+  from public.chess_move_commands command_row
+  where command_row.match_id = p_match_id
+    and command_row.actor_id = v_user_id
+    and command_row.client_command_id = p_client_command_id;
+  if found then
+    if v_existing.expected_revision <> p_expected_revision
+      or v_existing.uci <> v_uci
+      or v_existing.rule_action is distinct from p_rule_action then
+      raise exception 'IDEMPOTENCY_KEY_REUSED' using errcode = '22023';
+    end if;
+    return query select v_existing.id, v_existing.sequence,
+      v_existing.status, v_match.revision;
+    return;
+  end if;
+
+  if v_match.status <> 'active' then
+    raise exception 'MATCH_NOT_ACTIVE' using errcode = '55000';
+  end if;
+  if p_rule_action is not null
+    and v_match.state ->> 'rulesetType' is distinct from 'custom' then
+    raise exception 'INVALID_RULE_ACTION' using errcode = '22023';
+  end if;
+  if v_match.revision <> p_expected_revision then
+    raise exception 'STALE_MATCH_REVISION' using errcode = '40001';
+  end if;
+  if (v_match.side_to_move = 'white' and v_match.white_player_id <> v_user_id)
+    or (v_match.side_to_move = 'black' and v_match.black_player_id <> v_user_id) then
+    raise exception 'NOT_YOUR_TURN' using errcode = '42501';
+  end if;
+
+  select * into v_pending
+  from public.chess_move_commands command_row
+  where command_row.match_id = p_match_id
+    and command_row.expected_revision = p_expected_revision
+    and command_row.status = 'pending';
+  if found then
+    raise exception 'MOVE_ALREADY_PENDING' using errcode = '55000';
+  end if;
+
+  select count(*) into v_attempt_count
+  from public.chess_move_commands command_row
+  where command_row.match_id = p_match_id
+    and command_row.actor_id = v_user_id
+    and command_row.expected_revision = p_expected_revision
+    and command_row.status <> 'accepted';
+  if v_attempt_count >= 32 then
+    raise exception 'COMMAND_RATE_LIMITED' using errcode = '55000';
+  end if;
+
+  v_clock_ms := case v_match.side_to_move
+    when 'white' then coalesce((v_match.clock_state ->> 'whiteMs')::bigint, 0)
+    else coalesce((v_match.clock_state ->> 'blackMs')::bigint, 0)
+  end;
+  v_elapsed_ms := private.chess_clock_charged_ms(
+    v_match.clock_state,
+    greatest(
+      0,
+      floor(extract(epoch from (
+        clock_timestamp() - coalesce(v_match.last_move_at, v_match.started_at)
+      )) * 1000)::bigint
+    )
+  );
+  if v_clock_ms - v_elapsed_ms <= 0 then
+    raise exception 'CLOCK_EXPIRED' using errcode = '55000';
+  end if;
+
+  v_sequence := v_match.command_sequence + 1;
+  update public.chess_matches
+  set command_sequence = v_sequence
+  where id = p_match_id;
+
+  insert into public.chess_move_commands (
+    match_id, actor_id, client_command_id, sequence, expected_revision,
+    uci, submitted_clock_ms, rule_action, created_at
+  ) values (
+    p_match_id, v_user_id, p_client_command_id, v_sequence,
+    p_expected_revision, v_uci, p_submitted_clock_ms, p_rule_action,
+    clock_timestamp()
+  ) returning id into v_id;
+
+  return query select v_id, v_sequence, 'pending'::text, v_match.revision;
+end;
+$$;
+
+revoke all on function public.submit_chess_move_command(
+  uuid, bigint, uuid, text, integer, jsonb
+) from public, anon, authenticated;
+grant execute on function public.submit_chess_move_command(
+  uuid, bigint, uuid, text, integer, jsonb
+) to authenticated;
+
+
+create or replace function public.finalize_chess_timeout_server(
+  p_match_id uuid,
+  p_expected_revision bigint,
+  p_verification_reference text
+)
+returns table (
+  finalized boolean,
+  result text,
+  termination text,
+  white_rating integer,
+  black_rating integer,
+  server_now timestamptz
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_match public.chess_matches%rowtype;
+  v_clock_ms bigint;
+  v_elapsed_ms bigint;
+  v_result text;
+  v_termination text;
+  v_claimant_side text;
+  v_has_mating_material boolean;
+  v_finalization record;
+  v_white_after integer;
+  v_black_after integer;
+  v_now timestamptz;
+begin
+  if p_expected_revision is null or p_expected_revision < 0 then
+    raise exception 'EXPECTED_REVISION_REQUIRED' using errcode = '22023';
+  end if;
+  if p_verification_reference is null
+    or char_length(trim(p_verification_reference)) not between 8 and 300 then
+    raise exception 'AUTHORITATIVE_VERIFICATION_REQUIRED' using errcode = '22023';
+  end if;
+
+  select * into v_match
+  from public.chess_matches match_row
+  where match_row.id = p_match_id
+  for update;
+  if not found then
+    raise exception 'MATCH_NOT_FOUND' using errcode = 'P0002';
+  end if;
+  v_now := clock_timestamp();
+
+  if v_match.state ->> 'rulesetType' is distinct from 'standard' then
+    raise exception 'CUSTOM_RULES_VALIDATOR_NOT_AVAILABLE'
+      using errcode = '55000';
+  end if;
+
+  v_claimant_side := case v_match.side_to_move
+    when 'white' then 'black'
+    else 'white'
+  end;
+  v_has_mating_material := private.chess_timeout_has_mating_material(
+    v_match.current_fen,
+    v_claimant_side
+  );
+  if v_has_mating_material then
+    v_result := case v_claimant_side
+      when 'white' then '1-0'
+      else '0-1'
+    end;
+    v_termination := 'timeout';
+  else
+    v_result := '1/2-1/2';
+    v_termination := 'timeout-insufficient-material';
+  end if;
+
+  if v_match.status = 'completed' then
+    if v_match.result is distinct from v_result
+      or v_match.termination is distinct from v_termination
+      or v_match.verification_reference <> trim(p_verification_reference)
+      or v_match.revision <> p_expected_revision + 1 then
+      raise exception 'FINALIZATION_CONFLICT' using errcode = '55000';
+    end if;
+    if v_match.rated then
+      select rating into v_white_after
+      from public.chess_player_ratings
+      where season_id = v_match.season_id and user_id = v_match.white_player_id;
+      select rating into v_black_after
+      from public.chess_player_ratings
+      where season_id = v_match.season_id and user_id = v_match.black_player_id;
+    end if;
+    return query select false, v_match.result, v_match.termination,
+      v_white_after, v_black_after, v_now;
+    return;
+  end if;
+
+  if v_match.status <> 'active'
+    or v_match.revision <> p_expected_revision
+    or v_match.started_at is null then
+    raise exception 'STALE_MATCH_REVISION' using errcode = '40001';
+  end if;
+
+  v_clock_ms := case v_match.side_to_move
+    when 'white' then (v_match.clock_state ->> 'whiteMs')::bigint
+    else (v_match.clock_state ->> 'blackMs')::bigint
+  end;
+  if v_clock_ms is null or v_clock_ms < 0 then
+    raise exception 'INVALID_CLOCK_STATE' using errcode = '22023';
+  end if;
+
+  v_elapsed_ms := private.chess_clock_charged_ms(
+    v_match.clock_state,
+    greatest(
+      0,
+      floor(extract(epoch from (
+        v_now - coalesce(v_match.last_move_at, v_match.started_at)
+      )) * 1000)::bigint
+    )
+  );
+  if v_clock_ms - v_elapsed_ms > 0 then
+    raise exception 'CLOCK_NOT_EXPIRED' using errcode = '55000';
+  end if;
+
+  select * into v_finalization
+  from public.finalize_chess_match_server(
+    v_match.id,
+    v_result,
+    v_termination,
+    p_verification_reference,
+    p_expected_revision
+  );
+
+  return query select v_finalization.finalized, v_result, v_termination,
+    v_finalization.white_rating, v_finalization.black_rating, v_now;
+end;
+$$;
+
+revoke all on function public.finalize_chess_timeout_server(
+  uuid, bigint, text
+) from public, anon, authenticated;
+grant execute on function public.finalize_chess_timeout_server(
+  uuid, bigint, text
+) to service_role;
+
+
+create or replace function public.submit_chess_takeback_command(
+  p_match_id uuid,
+  p_expected_revision bigint,
+  p_client_command_id uuid,
+  p_action text
+)
+returns table (
+  command_id uuid,
+  command_sequence bigint,
+  command_status text,
+  authoritative_revision bigint
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_match public.chess_matches%rowtype;
+  v_existing public.chess_match_takeback_commands%rowtype;
+  v_request public.chess_match_takeback_commands%rowtype;
+  v_undone public.chess_match_moves%rowtype;
+  v_previous public.chess_match_moves%rowtype;
+  v_side text;
+  v_id uuid;
+  v_sequence bigint;
+  v_revision bigint;
+  v_epoch bigint;
+  v_fen text;
+  v_clock_state jsonb;
+  v_rule_state_hash text;
+  v_position_hash text;
+  v_rule_state jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_client_command_id is null or p_expected_revision is null then
+    raise exception 'COMMAND_ID_AND_REVISION_REQUIRED' using errcode = '22023';
+  end if;
+  if p_action is null or p_action not in ('request', 'accept', 'decline') then
+    raise exception 'INVALID_TAKEBACK_ACTION' using errcode = '22023';
+  end if;
+
+  -- All command lifecycle functions lock the match before a command row.
+  select * into v_match
+  from public.chess_matches
+  where id = p_match_id
+  for update;
+  if not found then
+    raise exception 'MATCH_NOT_FOUND' using errcode = 'P0002';
+  end if;
+
+  select * into v_existing
+  from public.chess_match_takeback_commands command_row
+  where command_row.match_id = p_match_id
+    and command_row.actor_id = v_user_id
+    and command_row.client_command_id = p_client_command_id;
+  if found then
+    if v_existing.expected_revision <> p_expected_revision
+      or v_existing.action <> p_action then
+      raise exception 'IDEMPOTENCY_KEY_REUSED' using errcode = '22023';
+    end if;
+    return query select v_existing.id, v_existing.sequence,
+      'accepted'::text, v_match.revision;
+    return;
+  end if;
+
+  if v_user_id = v_match.white_player_id then
+    v_side := 'white';
+  elsif v_user_id = v_match.black_player_id then
+    v_side := 'black';
+  else
+    raise exception 'MATCH_PARTICIPANT_REQUIRED' using errcode = '42501';
+  end if;
+  if v_match.status <> 'active' then
+    raise exception 'MATCH_NOT_ACTIVE' using errcode = '55000';
+  end if;
+  if v_match.rated then
+    raise exception 'TAKEBACK_RATED_MATCH' using errcode = '55000';
+  end if;
+  if v_match.revision <> p_expected_revision then
+    raise exception 'STALE_MATCH_REVISION' using errcode = '40001';
+  end if;
+
+  select * into v_undone
+  from public.chess_match_moves move_row
+  where move_row.match_id = p_match_id
+    and move_row.ply = v_match.ply_count;
+
+  -- A request lapses as soon as the opponent replies to the requested ply.
+  v_epoch := private.chess_match_takeback_epoch(p_match_id);
+  select * into v_request
+  from public.chess_match_takeback_commands request_row
+  where request_row.match_id = p_match_id
+    and request_row.action = 'request'
+    and request_row.ply = v_match.ply_count
+    and request_row.sequence > v_epoch
+    and not exists (
+      select 1
+      from public.chess_match_takeback_commands response_row
+      where response_row.request_id = request_row.id
+    )
+  order by request_row.sequence desc
+  limit 1;
+
+  if p_action = 'request' then
+    if v_undone.id is null or v_undone.side <> v_side then
+      raise exception 'TAKEBACK_NOTHING_TO_UNDO' using errcode = '55000';
+    end if;
+    if v_request.id is not null then
+      raise exception 'TAKEBACK_PENDING' using errcode = '55000';
+    end if;
+    if exists (
+      select 1
+      from public.chess_match_takeback_commands request_row
+      where request_row.match_id = p_match_id
+        and request_row.action = 'request'
+        and request_row.side = v_side
+        and request_row.ply = v_match.ply_count
+        and request_row.sequence > v_epoch
+    ) then
+      raise exception 'TAKEBACK_LIMIT' using errcode = '55000';
+    end if;
+  elsif v_request.id is null or v_request.side = v_side
+    or v_undone.id is null then
+    raise exception 'TAKEBACK_NOT_FOUND' using errcode = 'P0002';
+  end if;
+
+  -- Every takeback command consumes a revision; none may strand a move that
+  -- is already being validated at the current one.
+  if exists (
+    select 1
+    from public.chess_move_commands command_row
+    where command_row.match_id = p_match_id
+      and command_row.expected_revision = p_expected_revision
+      and command_row.status = 'pending'
+  ) then
+    raise exception 'MOVE_ALREADY_PENDING' using errcode = '55000';
+  end if;
+
+  v_sequence := v_match.command_sequence + 1;
+  v_revision := v_match.revision + 1;
+
+  insert into public.chess_match_takeback_commands (
+    match_id, actor_id, client_command_id, sequence, expected_revision,
+    action, side, ply, request_id, created_at
+  ) values (
+    p_match_id, v_user_id, p_client_command_id, v_sequence,
+    p_expected_revision, p_action, v_side, v_match.ply_count,
+    case when p_action = 'request' then null else v_request.id end,
+    clock_timestamp()
+  ) returning id into v_id;
+
+  if p_action <> 'accept' then
+    update public.chess_matches
+    set command_sequence = v_sequence,
+        revision = v_revision
+    where id = p_match_id;
+
+    insert into public.chess_match_events (
+      match_id, revision, event_type, actor_id, payload
+    ) values (
+      v_match.id,
+      v_revision,
+      case p_action
+        when 'request' then 'takeback_requested'
+        else 'takeback_declined'
+      end,
+      v_user_id,
+      case p_action
+        when 'request' then jsonb_build_object(
+          'commandId', v_id,
+          'side', v_side,
+          'ply', v_match.ply_count
+        )
+        else jsonb_build_object(
+          'commandId', v_id,
+          'requestId', v_request.id,
+          'side', v_side
+        )
+      end
+    );
+
+    return query select v_id, v_sequence, 'accepted'::text, v_revision;
+    return;
+  end if;
+
+  -- Rewind to the ply before the undone move, or to the match start.
+  select * into v_previous
+  from public.chess_match_moves move_row
+  where move_row.match_id = p_match_id
+    and move_row.ply = v_match.ply_count - 1;
+
+  if v_previous.id is not null then
+    v_fen := v_previous.fen_after;
+    v_clock_state := v_previous.clock_state;
+    v_rule_state_hash := v_previous.rule_state_hash;
+    v_position_hash := v_previous.position_hash;
+    select event_row.payload -> 'ruleState' into v_rule_state
+    from public.chess_match_events event_row
+    where event_row.match_id = p_match_id
+      and event_row.event_type = 'move_committed'
+      and event_row.payload ->> 'moveId' = v_previous.id::text;
+  else
+    select event_row.payload ->> 'ruleStateHash',
+      event_row.payload ->> 'positionHash'
+      into v_rule_state_hash, v_position_hash
+    from public.chess_match_events event_row
+    where event_row.match_id = p_match_id
+      and event_row.event_type = 'match_started';
+    v_clock_state := private.chess_room_initial_clock_state(v_match.room_id);
+    v_fen := v_match.initial_fen;
+  end if;
+  if v_fen is null or v_clock_state is null or v_rule_state_hash is null
+    or v_position_hash is null then
+    raise exception 'MATCH_STATE_INTEGRITY_FAILED' using errcode = 'XX000';
+  end if;
+
+  delete from public.chess_match_moves
+  where id = v_undone.id;
+
+  -- The variant validator replays accepted commands: the undone one leaves it.
+  update public.chess_move_commands as undone_command
+  set status = 'superseded',
+      rejection_reason = 'taken back'
+  where undone_command.match_id = p_match_id
+    and undone_command.sequence = v_undone.command_sequence
+    and undone_command.status = 'accepted';
+
+  update public.chess_matches
+  set command_sequence = v_sequence,
+      revision = v_revision,
+      current_fen = v_fen,
+      side_to_move = v_undone.side,
+      ply_count = v_match.ply_count - 1,
+      clock_state = v_clock_state,
+      rule_state_hash = v_rule_state_hash,
+      position_hash = v_position_hash,
+      state = jsonb_set(
+        state,
+        '{ruleStateHash}',
+        to_jsonb(v_rule_state_hash),
+        true
+      ),
+      last_move_at = now()
+  where id = p_match_id;
+
+  insert into public.chess_match_events (
+    match_id, revision, event_type, actor_id, payload
+  ) values (
+    v_match.id,
+    v_revision,
+    'takeback_applied',
+    v_user_id,
+    jsonb_build_object(
+      'commandId', v_id,
+      'requestId', v_request.id,
+      'side', v_side,
+      'ply', v_match.ply_count,
+      'undoneMoveId', v_undone.id,
+      'sideToMove', v_undone.side,
+      'fen', v_fen,
+      'positionHash', v_position_hash,
+      'ruleStateHash', v_rule_state_hash,
+      'ruleState', v_rule_state,
+      'clockState', v_clock_state,
+      'turnStartedAt', now(),
+      'serverNow', now()
+    )
+  );
+
+  return query select v_id, v_sequence, 'accepted'::text, v_revision;
+end;
+$$;
+
+revoke all on function public.submit_chess_takeback_command(
+  uuid, bigint, uuid, text
+) from public, anon, authenticated;
+grant execute on function public.submit_chess_takeback_command(
+  uuid, bigint, uuid, text
+) to authenticated;
+
+notify pgrst, 'reload schema';
+
+commit;
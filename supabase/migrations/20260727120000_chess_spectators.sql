@@ -0,0 +1,674 @@
+begin;
+
+-- Spectators join a room as `spectator` members (no colour) and read the same
+-- snapshot, replay and Realtime journal as players. An optional tape delay
+-- keeps them `spectator_delay_seconds` behind a live game so nobody can relay
+-- moves to a player; finished games are always fully visible.
+alter table public.chess_rooms
+  add column if not exists spectator_delay_seconds integer not null default 0
+    check (spectator_delay_seconds between 0 and 900);
+
+create index if not exists chess_room_members_spectators_idx
+  on public.chess_room_members (room_id, last_seen_at desc)
+  where membership_status = 'active' and member_role = 'spectator';
+
+-- Null when the user may not read the match at all; 0 for players, finished
+-- games and rooms without a delay.
+create or replace function private.chess_match_spectator_delay_seconds(
+  p_match_id uuid,
+  p_user_id uuid
+)
+returns integer
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select case
+    when p_user_id is null then null
+    when p_user_id in (match_row.white_player_id, match_row.black_player_id)
+      then 0
+    when not exists (
+      select 1
+      from public.chess_room_members member_row
+      where member_row.room_id = match_row.room_id
+        and member_row.user_id = p_user_id
+        and member_row.membership_status = 'active'
+    ) then null
+    when match_row.status <> 'active' then 0
+    else room_row.spectator_delay_seconds
+  end
+  from public.chess_matches match_row
+  join public.chess_rooms room_row on room_row.id = match_row.room_id
+  where match_row.id = p_match_id;
+$$;
+
+revoke all on function private.chess_match_spectator_delay_seconds(uuid, uuid)
+  from public, anon, authenticated;
+grant execute on function private.chess_match_spectator_delay_seconds(
+  uuid, uuid
+) to authenticated, service_role;
+
+-- Highest journal revision the user may read. Every read path (RPCs and RLS)
+-- goes through this watermark so a delayed spectator cannot bypass it.
+create or replace function private.chess_match_visible_revision(
+  p_match_id uuid,
+  p_user_id uuid
+)
+returns bigint
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select case
+    when delay_row.delay_seconds is null then null
+    when delay_row.delay_seconds = 0 then match_row.revision
+    else coalesce(
+      (
+        select max(event_row.revision)
+        from public.chess_match_events event_row
+        where event_row.match_id = match_row.id
+          and event_row.created_at <= clock_timestamp()
+            - make_interval(secs => delay_row.delay_seconds)
+      ),
+      0
+    )
+  end
+  from public.chess_matches match_row
+  cross join lateral (
+    select private.chess_match_spectator_delay_seconds(
+      match_row.id,
+      p_user_id
+    ) as delay_seconds
+  ) delay_row
+  where match_row.id = p_match_id;
+$$;
+
+revoke all on function private.chess_match_visible_revision(uuid, uuid)
+  from public, anon, authenticated;
+grant execute on function private.chess_match_visible_revision(uuid, uuid)
+  to authenticated, service_role;
+
+-- Viewers whose heartbeat lease is still fresh.
+create or replace function private.chess_room_spectator_count(
+  p_room_id uuid
+)
+returns integer
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select count(*)::integer
+  from public.chess_room_members member_row
+  where member_row.room_id = p_room_id
+    and member_row.membership_status = 'active'
+    and member_row.member_role = 'spectator'
+    and member_row.last_seen_at > clock_timestamp() - interval '30 seconds';
+$$;
+
+revoke all on function private.chess_room_spectator_count(uuid)
+  from public, anon, authenticated;
+
+drop policy if exists chess_matches_read on public.chess_matches;
+create policy chess_matches_read
+  on public.chess_matches for select to authenticated
+  using (
+    revision = (
+      select private.chess_match_visible_revision(id, (select auth.uid()))
+    )
+  );
+
+drop policy if exists chess_match_moves_read on public.chess_match_moves;
+create policy chess_match_moves_read
+  on public.chess_match_moves for select to authenticated
+  using (
+    revision <= (
+      select private.chess_match_visible_revision(
+        match_id,
+        (select auth.uid())
+      )
+    )
+  );
+
+-- Realtime evaluates this policy on insert: delayed spectators never receive
+-- a live event and catch up through the heartbeat-driven replay instead.
+drop policy if exists chess_match_events_read on public.chess_match_events;
+create policy chess_match_events_read
+  on public.chess_match_events for select to authenticated
+  using (
+    revision <= (
+      select private.chess_match_visible_revision(
+        match_id,
+        (select auth.uid())
+      )
+    )
+  );
+
+-- Only before the game starts: changing the delay mid-game would reveal moves.
+create or replace function public.configure_chess_room_spectators(
+  p_room_id uuid,
+  p_allow_spectators boolean,
+  p_spectator_delay_seconds integer default 0
+)
+returns table (
+  room_id uuid,
+  allow_spectators boolean,
+  spectator_delay_seconds integer
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room public.chess_rooms%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_allow_spectators is null
+    or p_spectator_delay_seconds is null
+    or p_spectator_delay_seconds not between 0 and 900 then
+    raise exception 'INVALID_SPECTATOR_SETTINGS' using errcode = '22023';
+  end if;
+
+  select * into v_room
+  from public.chess_rooms
+  where id = p_room_id
+  for update;
+  if not found or v_room.owner_id is distinct from v_user_id then
+    raise exception 'ROOM_NOT_FOUND' using errcode = 'P0002';
+  end if;
+  if v_room.status <> 'open' then
+    raise exception 'ROOM_NOT_AVAILABLE' using errcode = '40001';
+  end if;
+
+  update public.chess_rooms
+  set allow_spectators = p_allow_spectators,
+      spectator_delay_seconds = p_spectator_delay_seconds,
+      revision = revision + 1
+  where id = p_room_id;
+
+  return query
+  select p_room_id, p_allow_spectators, p_spectator_delay_seconds;
+end;
+$$;
+
+revoke all on function public.configure_chess_room_spectators(
+  uuid, boolean, integer
+) from public, anon, authenticated;
+grant execute on function public.configure_chess_room_spectators(
+  uuid, boolean, integer
+) to authenticated;
+
+create or replace function public.watch_chess_match(
+  p_match_id uuid
+)
+returns table (
+  room_id uuid,
+  match_id uuid,
+  viewer_role text,
+  spectator_delay_seconds integer
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_match public.chess_matches%rowtype;
+  v_room public.chess_rooms%rowtype;
+  v_member public.chess_room_members%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+
+  select * into v_match
+  from public.chess_matches
+  where id = p_match_id;
+  if not found then
+    raise exception 'MATCH_NOT_FOUND' using errcode = 'P0002';
+  end if;
+  select * into v_room
+  from public.chess_rooms
+  where id = v_match.room_id
+  for update;
+
+  -- Players keep their seat; an already watching member is idempotent.
+  if v_user_id in (v_match.white_player_id, v_match.black_player_id) then
+    return query select v_room.id, v_match.id, 'player'::text, 0;
+    return;
+  end if;
+  select * into v_member
+  from public.chess_room_members member_row
+  where member_row.room_id = v_room.id
+    and member_row.user_id = v_user_id;
+  if found and v_member.membership_status = 'kicked' then
+    raise exception 'ROOM_MEMBERSHIP_REVOKED' using errcode = '42501';
+  end if;
+  if not found or v_member.membership_status <> 'active' then
+    if not v_room.allow_spectators or v_room.visibility = 'private' then
+      raise exception 'SPECTATORS_NOT_ALLOWED' using errcode = '42501';
+    end if;
+    if v_match.status not in ('active', 'completed') then
+      raise exception 'MATCH_NOT_WATCHABLE' using errcode = '55000';
+    end if;
+
+    insert into public.chess_room_members (
+      room_id, user_id, member_role, color
+    ) values (v_room.id, v_user_id, 'spectator', null)
+    on conflict on constraint chess_room_members_room_id_user_id_key do update
+    set member_role = 'spectator', color = null,
+        membership_status = 'active', joined_at = now(), left_at = null,
+        last_seen_at = clock_timestamp(), presence_status = 'online';
+  end if;
+
+  return query
+  select v_room.id, v_match.id, 'spectator'::text,
+    v_room.spectator_delay_seconds;
+end;
+$$;
+
+revoke all on function public.watch_chess_match(uuid)
+  from public, anon, authenticated;
+grant execute on function public.watch_chess_match(uuid) to authenticated;
+
+create or replace function public.list_live_chess_matches(
+  p_limit integer default 20
+)
+returns table (
+  match_id uuid,
+  room_id uuid,
+  room_name text,
+  white_player_id uuid,
+  black_player_id uuid,
+  white_rating integer,
+  black_rating integer,
+  rated boolean,
+  initial_seconds integer,
+  increment_seconds integer,
+  delay_seconds integer,
+  delay_mode text,
+  spectator_delay_seconds integer,
+  spectator_count integer,
+  started_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  v_season_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  select season_row.id into v_season_id
+  from public.chess_rating_seasons season_row
+  where season_row.status = 'active'
+  limit 1;
+
+  -- Strongest pairings first so leaderboard players are easy to find.
+  return query
+  select match_row.id, room_row.id, room_row.name,
+    match_row.white_player_id, match_row.black_player_id,
+    white_rating.rating, black_rating.rating, match_row.rated,
+    room_row.initial_seconds, room_row.increment_seconds,
+    room_row.delay_seconds, room_row.delay_mode,
+    room_row.spectator_delay_seconds,
+    private.chess_room_spectator_count(room_row.id),
+    match_row.started_at
+  from public.chess_matches match_row
+  join public.chess_rooms room_row on room_row.id = match_row.room_id
+  left join public.chess_player_ratings white_rating
+    on white_rating.season_id = v_season_id
+    and white_rating.user_id = match_row.white_player_id
+  left join public.chess_player_ratings black_rating
+    on black_rating.season_id = v_season_id
+    and black_rating.user_id = match_row.black_player_id
+  where match_row.status = 'active'
+    and room_row.visibility = 'public'
+    and room_row.allow_spectators
+  order by greatest(
+      coalesce(white_rating.rating, 0),
+      coalesce(black_rating.rating, 0)
+    ) desc,
+    match_row.started_at desc nulls last,
+    match_row.id
+  limit least(greatest(coalesce(p_limit, 20), 1), 50);
+end;
+$$;
+
+revoke all on function public.list_live_chess_matches(integer)
+  from public, anon, authenticated;
+grant execute on function public.list_live_chess_matches(integer)
+  to authenticated;
+
+-- The snapshot tells clients who is reading and, for a delayed spectator,
+-- rebuilds the position at the watermark from the journal.
+drop function if exists public.get_chess_match_snapshot(uuid);
+
+create or replace function public.get_chess_match_snapshot(
+  p_match_id uuid
+)
+returns table (
+  match_id uuid,
+  room_id uuid,
+  match_status text,
+  white_player_id uuid,
+  black_player_id uuid,
+  ruleset_hash text,
+  shared_seed bigint,
+  engine_version text,
+  current_fen text,
+  position_hash text,
+  rule_state jsonb,
+  rule_state_hash text,
+  side_to_move text,
+  ply_count integer,
+  revision bigint,
+  event_sequence bigint,
+  command_sequence bigint,
+  clock_state jsonb,
+  server_now timestamptz,
+  turn_started_at timestamptz,
+  players_presence jsonb,
+  verification_status text,
+  rated boolean,
+  viewer_role text,
+  spectator_delay_seconds integer,
+  spectator_count integer
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_match public.chess_matches%rowtype;
+  v_event public.chess_match_events%rowtype;
+  v_delay integer;
+  v_visible bigint;
+  v_turn_started_at timestamptz;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if not exists (
+    select 1
+    from public.chess_matches match_row
+    join public.chess_room_members member_row
+      on member_row.room_id = match_row.room_id
+    where match_row.id = p_match_id
+      and member_row.user_id = v_user_id
+      and member_row.membership_status = 'active'
+  ) then
+    raise exception 'MATCH_NOT_ACCESSIBLE' using errcode = '42501';
+  end if;
+
+  select * into v_match
+  from public.chess_matches
+  where id = p_match_id;
+  v_delay := private.chess_match_spectator_delay_seconds(p_match_id, v_user_id);
+  v_visible := private.chess_match_visible_revision(p_match_id, v_user_id);
+  v_turn_started_at := coalesce(v_match.last_move_at, v_match.started_at);
+
+  if v_visible < v_match.revision then
+    select count(*) filter (where event_row.event_type = 'move_committed')
+        - count(*) filter (where event_row.event_type = 'takeback_applied'),
+      coalesce(max((event_row.payload ->> 'commandSequence')::bigint), 0)
+      into v_match.ply_count, v_match.command_sequence
+    from public.chess_match_events event_row
+    where event_row.match_id = p_match_id
+      and event_row.revision <= v_visible;
+
+    select * into v_event
+    from public.chess_match_events event_row
+    where event_row.match_id = p_match_id
+      and event_row.revision <= v_visible
+      and event_row.event_type in ('move_committed', 'takeback_applied')
+    order by event_row.revision desc
+    limit 1;
+
+    if v_event.id is null then
+      select event_row.payload ->> 'positionHash',
+        event_row.payload ->> 'ruleStateHash'
+        into v_match.position_hash, v_match.rule_state_hash
+      from public.chess_match_events event_row
+      where event_row.match_id = p_match_id
+        and event_row.event_type = 'match_started';
+      v_match.current_fen := v_match.initial_fen;
+      v_match.side_to_move := 'white';
+      v_match.clock_state :=
+        private.chess_room_initial_clock_state(v_match.room_id);
+      v_turn_started_at := v_match.started_at;
+    else
+      v_match.current_fen := case v_event.event_type
+        when 'move_committed' then v_event.payload ->> 'fenAfter'
+        else v_event.payload ->> 'fen'
+      end;
+      v_match.side_to_move := case v_event.event_type
+        when 'move_committed' then v_event.payload ->> 'nextSide'
+        else v_event.payload ->> 'sideToMove'
+      end;
+      v_match.position_hash := v_event.payload ->> 'positionHash';
+      v_match.rule_state_hash := v_event.payload ->> 'ruleStateHash';
+      v_match.clock_state := v_event.payload -> 'clockState';
+      v_turn_started_at := (v_event.payload ->> 'turnStartedAt')::timestamptz;
+    end if;
+    if v_match.current_fen is null or v_match.position_hash is null
+      or v_match.rule_state_hash is null or v_match.clock_state is null then
+      raise exception 'MATCH_STATE_INTEGRITY_FAILED' using errcode = 'XX000';
+    end if;
+    v_match.revision := v_visible;
+    v_match.state := jsonb_set(
+      v_match.state,
+      '{ruleStateHash}',
+      to_jsonb(v_match.rule_state_hash),
+      true
+    );
+  end if;
+
+  -- Delayed viewers run on a shifted server clock so their clocks stay in
+  -- step with the position they are shown.
+  return query
+  select v_match.id, v_match.room_id, v_match.status,
+    v_match.white_player_id, v_match.black_player_id,
+    v_match.ruleset_hash, v_match.shared_seed, v_match.engine_version,
+    v_match.current_fen, v_match.position_hash, v_match.state,
+    v_match.rule_state_hash, v_match.side_to_move, v_match.ply_count,
+    v_match.revision, v_match.revision + 1,
+    v_match.command_sequence, v_match.clock_state,
+    clock_timestamp() - make_interval(secs => v_delay),
+    v_turn_started_at,
+    coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'userId', member_row.user_id,
+            'color', member_row.color,
+            'role', member_row.member_role,
+            'presence', member_row.presence_status,
+            'lastSeenAt', member_row.last_seen_at,
+            'lastSeenRevision', member_row.last_seen_revision,
+            'abandonmentRequestedAt', member_row.abandonment_requested_at
+          ) order by member_row.color nulls last, member_row.user_id
+        )
+        from public.chess_room_members member_row
+        where member_row.room_id = v_match.room_id
+          and member_row.membership_status = 'active'
+          and member_row.member_role in ('owner', 'player')
+      ),
+      '[]'::jsonb
+    ),
+    v_match.verification_status,
+    v_match.rated,
+    case
+      when v_user_id in (v_match.white_player_id, v_match.black_player_id)
+        then 'player'
+      else 'spectator'
+    end,
+    v_delay,
+    private.chess_room_spectator_count(v_match.room_id);
+end;
+$$;
+
+revoke all on function public.get_chess_match_snapshot(uuid)
+  from public, anon, authenticated;
+grant execute on function public.get_chess_match_snapshot(uuid)
+  to authenticated;
+
+create or replace function public.get_chess_match_events_since(
+  p_match_id uuid,
+  p_after_revision bigint default -1,
+  p_limit integer default 200
+)
+returns table (
+  event_id uuid,
+  match_id uuid,
+  revision bigint,
+  sequence bigint,
+  event_type text,
+  actor_id uuid,
+  payload jsonb,
+  created_at timestamptz,
+  server_now timestamptz
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_delay integer;
+  v_visible bigint;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_after_revision < -1 then
+    raise exception 'INVALID_REPLAY_REVISION' using errcode = '22023';
+  end if;
+  if not exists (
+    select 1
+    from public.chess_matches match_row
+    join public.chess_room_members member_row
+      on member_row.room_id = match_row.room_id
+    where match_row.id = p_match_id
+      and member_row.user_id = v_user_id
+      and member_row.membership_status = 'active'
+  ) then
+    raise exception 'MATCH_NOT_ACCESSIBLE' using errcode = '42501';
+  end if;
+  v_delay := private.chess_match_spectator_delay_seconds(p_match_id, v_user_id);
+  v_visible := private.chess_match_visible_revision(p_match_id, v_user_id);
+
+  return query
+  select event_row.id, event_row.match_id, event_row.revision,
+    event_row.sequence, event_row.event_type, event_row.actor_id,
+    event_row.payload, event_row.created_at,
+    clock_timestamp() - make_interval(secs => v_delay)
+  from public.chess_match_events event_row
+  where event_row.match_id = p_match_id
+    and event_row.revision > p_after_revision
+    and event_row.revision <= v_visible
+  order by event_row.revision
+  limit least(greatest(coalesce(p_limit, 200), 1), 1000);
+end;
+$$;
+
+revoke all on function public.get_chess_match_events_since(
+  uuid, bigint, integer
+) from public, anon, authenticated;
+grant execute on function public.get_chess_match_events_since(
+  uuid, bigint, integer
+) to authenticated;
+
+create or replace function public.heartbeat_chess_room(
+  p_room_id uuid,
+  p_last_seen_revision bigint default 0
+)
+returns table (
+  server_now timestamptz,
+  room_status text,
+  match_id uuid,
+  match_revision bigint,
+  event_sequence bigint,
+  turn_started_at timestamptz,
+  clock_state jsonb
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_match public.chess_matches%rowtype;
+  v_delay integer := 0;
+  v_visible bigint;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_last_seen_revision < 0 then
+    raise exception 'INVALID_LAST_SEEN_REVISION' using errcode = '22023';
+  end if;
+  select * into v_match
+  from public.chess_matches match_row
+  where match_row.room_id = p_room_id;
+  if found then
+    v_delay := coalesce(
+      private.chess_match_spectator_delay_seconds(v_match.id, v_user_id),
+      0
+    );
+    v_visible := coalesce(
+      private.chess_match_visible_revision(v_match.id, v_user_id),
+      v_match.revision
+    );
+    if p_last_seen_revision > v_visible then
+      raise exception 'CLIENT_REVISION_AHEAD_OF_SERVER' using errcode = '22023';
+    end if;
+  end if;
+
+  update public.chess_room_members
+  set last_seen_at = clock_timestamp(),
+      last_seen_revision = p_last_seen_revision,
+      presence_status = 'online'
+  where room_id = p_room_id
+    and user_id = v_user_id
+    and membership_status = 'active';
+  if not found then
+    raise exception 'ROOM_MEMBERSHIP_REQUIRED' using errcode = '42501';
+  end if;
+
+  -- The live clock would tell a delayed spectator when a hidden move landed.
+  return query
+  select clock_timestamp() - make_interval(secs => v_delay), room_row.status,
+    v_match.id, v_visible,
+    case when v_match.id is null then null else v_visible + 1 end,
+    case
+      when v_visible = v_match.revision
+        then coalesce(v_match.last_move_at, v_match.started_at)
+    end,
+    case
+      when v_visible = v_match.revision
+        then coalesce(v_match.clock_state, '{}'::jsonb)
+      else '{}'::jsonb
+    end
+  from public.chess_rooms room_row
+  where room_row.id = p_room_id;
+end;
+$$;
+
+revoke all on function public.heartbeat_chess_room(uuid, bigint)
+  from public, anon, authenticated;
+grant execute on function public.heartbeat_chess_room(uuid, bigint)
+  to authenticated;
+
+notify pgrst, 'reload schema';
+
+commit;
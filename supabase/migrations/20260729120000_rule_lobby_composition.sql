@@ -0,0 +1,44 @@
+begin;
+
+-- Lobby participants read the blueprints pinned in their lobby, in ordinal
+-- order, so the client can rerun the composition analysis that
+-- `create-rule-lobby-v2` applied before the host launches the game.
+create or replace function public.get_rule_lobby_blueprints_v2(
+  p_lobby_id uuid
+)
+returns table (
+  rule_version_id uuid,
+  legacy_rule_id text,
+  ordinal smallint,
+  blueprint_json jsonb
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select
+    rv.id,
+    rv.legacy_rule_id,
+    lrv.ordinal,
+    rv.blueprint_json
+  from public.lobbies l
+  join public.lobby_rule_versions lrv
+    on lrv.lobby_id = l.id
+  join public.rule_versions rv
+    on rv.id = lrv.rule_version_id
+  where l.id = p_lobby_id
+    and l.rule_set_hash is not null
+    and (
+      l.creator_id = auth.uid()
+      or l.opponent_id = auth.uid()
+    )
+  order by lrv.ordinal;
+$$;
+
+revoke all on function public.get_rule_lobby_blueprints_v2(uuid)
+  from public, anon, authenticated;
+grant execute on function public.get_rule_lobby_blueprints_v2(uuid)
+  to authenticated;
+
+commit;
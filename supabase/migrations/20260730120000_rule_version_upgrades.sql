@@ -0,0 +1,224 @@
+begin;
+
+-- Authors list the published versions of one of their rules, with the open
+-- lobbies still pinned to each, and move a waiting lobby to a newer version
+-- of the same blueprint. The client shows the structural diff; the server
+-- refuses the changes that diff reports as breaking: another rule key, state
+-- namespace or initial state, or an action that disappeared. The
+-- `upgrade-rule-lobby-v2` Edge function reruns the composition analysis on
+-- the upgraded rule set before it calls the service-only upgrade below.
+create or replace function public.get_rule_version_history_v2(
+  p_rule_key text
+)
+returns table (
+  version_id uuid,
+  version_number integer,
+  legacy_rule_id text,
+  content_hash text,
+  blueprint_json jsonb,
+  published_at timestamptz,
+  open_lobby_ids uuid[]
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select
+    rv.id,
+    rv.version_number,
+    rv.legacy_rule_id,
+    rv.content_hash,
+    rv.blueprint_json,
+    rv.published_at,
+    coalesce(
+      (
+        select array_agg(l.id order by l.created_at)
+        from public.lobby_rule_versions lrv
+        join public.lobbies l on l.id = lrv.lobby_id
+        where lrv.rule_version_id = rv.id
+          and l.creator_id = auth.uid()
+          and l.status = 'waiting'
+          and l.rule_set_hash is not null
+      ),
+      '{}'::uuid[]
+    )
+  from public.rule_blueprints rb
+  join public.rule_versions rv on rv.blueprint_id = rb.id
+  where rb.owner_id = auth.uid()
+    and rb.rule_key = p_rule_key
+  order by rv.version_number desc;
+$$;
+
+revoke all on function public.get_rule_version_history_v2(text)
+  from public, anon, authenticated;
+grant execute on function public.get_rule_version_history_v2(text)
+  to authenticated;
+
+-- Breaking changes between two published blueprints, as reported by
+-- `diffRuleBlueprints`. Later migrations extend it with the fields they add.
+create or replace function public.rule_version_upgrade_is_breaking(
+  p_from jsonb,
+  p_to jsonb
+)
+returns boolean
+language sql
+immutable
+set search_path = ''
+as $$
+  select p_to -> 'schemaVersion' is distinct from p_from -> 'schemaVersion'
+    or p_to -> 'ruleKey' is distinct from p_from -> 'ruleKey'
+    or p_to -> 'stateNamespace' is distinct from p_from -> 'stateNamespace'
+    or p_to -> 'initialStateJson' is distinct from p_from -> 'initialStateJson'
+    or exists (
+      select 1
+      from jsonb_array_elements(p_from -> 'actions') previous
+      where not exists (
+        select 1
+        from jsonb_array_elements(p_to -> 'actions') next
+        where next ->> 'id' = previous ->> 'id'
+      )
+    );
+$$;
+
+revoke all on function public.rule_version_upgrade_is_breaking(jsonb, jsonb)
+  from public, anon, authenticated;
+
+create or replace function public.upgrade_rule_lobby_version_server(
+  p_user_id uuid,
+  p_lobby_id uuid,
+  p_from_version_id uuid,
+  p_to_version_id uuid
+)
+returns table (
+  ruleset_hash text,
+  legacy_rule_ids text[]
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := p_user_id;
+  v_lobby public.lobbies%rowtype;
+  v_from public.rule_versions%rowtype;
+  v_to public.rule_versions%rowtype;
+  v_ruleset_hash text;
+  v_legacy_rule_ids text[];
+  v_version_ids uuid[];
+  v_hash_material text;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED'
+      using errcode = '42501';
+  end if;
+
+  select *
+    into v_lobby
+  from public.lobbies
+  where id = p_lobby_id
+    and rule_set_hash is not null
+  for update;
+
+  if not found or v_lobby.creator_id <> v_user_id then
+    raise exception 'LOBBY_NOT_FOUND'
+      using errcode = 'P0002';
+  end if;
+
+  if v_lobby.status <> 'waiting' then
+    raise exception 'LOBBY_NOT_OPEN'
+      using errcode = '55000';
+  end if;
+
+  if not exists (
+    select 1
+    from public.lobby_rule_versions
+    where lobby_id = p_lobby_id
+      and rule_version_id = p_from_version_id
+  ) then
+    raise exception 'RULE_VERSION_NOT_PINNED'
+      using errcode = '22023';
+  end if;
+
+  select * into v_from
+  from public.rule_versions
+  where id = p_from_version_id;
+  select * into v_to
+  from public.rule_versions
+  where id = p_to_version_id;
+
+  if v_to.id is null
+    or v_to.blueprint_id <> v_from.blueprint_id
+    or v_to.version_number <= v_from.version_number then
+    raise exception 'RULE_VERSION_NOT_NEWER'
+      using errcode = '22023';
+  end if;
+
+  if public.rule_version_upgrade_is_breaking(
+    v_from.blueprint_json,
+    v_to.blueprint_json
+  ) then
+    raise exception 'RULE_VERSION_UPGRADE_BREAKING'
+      using errcode = '22023';
+  end if;
+
+  update public.lobby_rule_versions
+  set rule_version_id = p_to_version_id
+  where lobby_id = p_lobby_id
+    and rule_version_id = p_from_version_id;
+
+  -- Same material as create_rule_lobby_v2, so the hash of an upgraded lobby
+  -- equals the hash of a lobby created directly with the new versions.
+  select
+    array_agg(rv.legacy_rule_id order by lrv.ordinal),
+    array_agg(rv.id order by lrv.ordinal),
+    jsonb_agg(
+      jsonb_build_array(
+        lrv.ordinal,
+        rv.id,
+        rv.content_hash,
+        rv.engine_version
+      )
+      order by lrv.ordinal
+    )::text
+  into
+    v_legacy_rule_ids,
+    v_version_ids,
+    v_hash_material
+  from public.lobby_rule_versions lrv
+  join public.rule_versions rv
+    on rv.id = lrv.rule_version_id
+  where lrv.lobby_id = p_lobby_id;
+
+  v_ruleset_hash := encode(
+    extensions.digest(
+      convert_to(v_hash_material, 'UTF8'),
+      'sha256'
+    ),
+    'hex'
+  );
+
+  update public.lobbies
+  set active_rules = v_legacy_rule_ids,
+    rule_set_hash = v_ruleset_hash,
+    game_state = game_state || jsonb_build_object(
+      'ruleVersionIds', to_jsonb(v_version_ids),
+      'rulesetHash', v_ruleset_hash
+    ),
+    rules_locked_at = now(),
+    revision = revision + 1
+  where id = p_lobby_id;
+
+  return query
+  select v_ruleset_hash, v_legacy_rule_ids;
+end;
+$$;
+
+revoke all on function public.upgrade_rule_lobby_version_server(
+  uuid, uuid, uuid, uuid
+) from public, anon, authenticated;
+grant execute on function public.upgrade_rule_lobby_version_server(
+  uuid, uuid, uuid, uuid
+) to service_role;
+
+commit;
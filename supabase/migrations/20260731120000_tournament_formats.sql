@@ -0,0 +1,92 @@
+begin;
+
+-- Round-based tournament formats. `arena` keeps the on-demand pairing of
+-- `tournament-matchmaking`; the other formats are paired a round at a time by
+-- `_shared/tournament-rounds.ts`, which moves `current_round` forward with a
+-- compare-and-set so that only one caller pairs each round.
+alter table public.tournaments
+  add column if not exists format text not null default 'arena',
+  add column if not exists round_count integer,
+  add column if not exists current_round integer not null default 0;
+
+alter table public.tournaments
+  drop constraint if exists tournaments_format_check,
+  add constraint tournaments_format_check check (
+    format in (
+      'arena',
+      'swiss',
+      'single_elimination',
+      'double_elimination',
+      'round_robin'
+    )
+  ),
+  drop constraint if exists tournaments_round_count_check,
+  add constraint tournaments_round_count_check check (
+    round_count is null or round_count > 0
+  ),
+  drop constraint if exists tournaments_current_round_check,
+  add constraint tournaments_current_round_check check (current_round >= 0);
+
+-- A bye is a finished match without a second player. `bracket_slot` orders
+-- the matches of a round so that the winners of slots 2k and 2k+1 meet next.
+alter table public.tournament_matches
+  add column if not exists is_bye boolean not null default false,
+  add column if not exists bracket text,
+  add column if not exists bracket_slot integer;
+
+alter table public.tournament_matches
+  drop constraint if exists tournament_matches_bracket_check,
+  add constraint tournament_matches_bracket_check check (
+    bracket is null or bracket in ('winners', 'losers', 'grand_final')
+  ),
+  drop constraint if exists tournament_matches_bye_check,
+  add constraint tournament_matches_bye_check check (
+    not is_bye or player2_id is null
+  );
+
+create unique index if not exists tournament_matches_round_slot_idx
+  on public.tournament_matches (tournament_id, round, bracket, bracket_slot)
+  nulls not distinct
+  where bracket_slot is not null;
+
+-- Draws score half a point: the integer column truncated them.
+alter table public.tournament_registrations
+  alter column points type numeric(6, 1) using coalesce(points, 0)::numeric,
+  alter column points set default 0;
+
+alter table public.tournament_registrations
+  add column if not exists seed integer,
+  add column if not exists buchholz numeric(8, 1) not null default 0,
+  add column if not exists sonneborn_berger numeric(8, 2) not null default 0,
+  add column if not exists eliminated_in_round integer;
+
+create or replace view public.tournament_overview as
+select
+  t.id,
+  t.title,
+  t.description,
+  t.variant_name,
+  t.variant_source,
+  t.variant_rules,
+  t.variant_lobby_id,
+  t.starts_at,
+  t.ends_at,
+  t.status,
+  t.max_participants,
+  t.created_at,
+  t.updated_at,
+  coalesce(count(distinct tr.id), 0)::integer as player_count,
+  coalesce(count(distinct case when tm.status = 'active' then tm.id end), 0)::integer as active_match_count,
+  coalesce(count(distinct case when tm.status = 'completed' then tm.id end), 0)::integer as completed_match_count,
+  t.format,
+  t.round_count,
+  t.current_round
+from public.tournaments t
+left join public.tournament_registrations tr on t.id = tr.tournament_id
+left join public.tournament_matches tm on t.id = tm.tournament_id
+group by t.id, t.title, t.description, t.variant_name, t.variant_source,
+         t.variant_rules, t.variant_lobby_id, t.starts_at, t.ends_at,
+         t.status, t.max_participants, t.created_at, t.updated_at,
+         t.format, t.round_count, t.current_round;
+
+commit;
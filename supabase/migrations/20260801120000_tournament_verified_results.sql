@@ -0,0 +1,408 @@
+begin;
+
+-- Tournament games between two players are played as chess_matches, so their
+-- result comes from finalize_chess_match_server and never from a participant.
+-- `rule_version_ids` pins the ruleset of those games (empty for standard
+-- chess); a null value keeps a legacy preset tournament on lobby play, whose
+-- results need both players to agree.
+alter table public.tournaments
+  add column if not exists rule_version_ids uuid[],
+  add column if not exists initial_seconds integer not null default 600,
+  add column if not exists increment_seconds integer not null default 0;
+
+alter table public.tournaments
+  drop constraint if exists tournaments_rule_version_ids_check,
+  add constraint tournaments_rule_version_ids_check check (
+    rule_version_ids is null or cardinality(rule_version_ids) <= 8
+  ),
+  drop constraint if exists tournaments_time_control_check,
+  add constraint tournaments_time_control_check check (
+    initial_seconds between 30 and 604800
+    and increment_seconds between 0 and 3600
+  );
+
+alter table public.tournament_matches
+  add column if not exists chess_match_id uuid
+    references public.chess_matches(id) on delete set null,
+  add column if not exists result_source text,
+  add column if not exists verified_at timestamptz;
+
+alter table public.tournament_matches
+  drop constraint if exists tournament_matches_result_source_check,
+  add constraint tournament_matches_result_source_check check (
+    result_source is null
+    or result_source in ('server', 'agreement', 'dispute', 'bye')
+  );
+
+create unique index if not exists tournament_matches_chess_match_idx
+  on public.tournament_matches (chess_match_id)
+  where chess_match_id is not null;
+
+-- Results are written by the service role only.
+drop policy if exists "Players can update their matches"
+  on public.tournament_matches;
+
+-- Players still upsert their own registration (name, avatar, presence), but
+-- the standings columns belong to the server.
+create or replace function private.protect_tournament_standings()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.points := 0;
+    new.wins := 0;
+    new.draws := 0;
+    new.losses := 0;
+    new.buchholz := 0;
+    new.sonneborn_berger := 0;
+    new.seed := null;
+    new.eliminated_in_round := null;
+    new.current_match_id := null;
+    return new;
+  end if;
+
+  if new.points is distinct from old.points
+    or new.wins is distinct from old.wins
+    or new.draws is distinct from old.draws
+    or new.losses is distinct from old.losses
+    or new.buchholz is distinct from old.buchholz
+    or new.sonneborn_berger is distinct from old.sonneborn_berger
+    or new.seed is distinct from old.seed
+    or new.eliminated_in_round is distinct from old.eliminated_in_round
+    or new.current_match_id is distinct from old.current_match_id then
+    raise exception 'TOURNAMENT_STANDINGS_READ_ONLY' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+revoke all on function private.protect_tournament_standings()
+  from public, anon, authenticated;
+
+drop trigger if exists tournament_registrations_protect_standings
+  on public.tournament_registrations;
+create trigger tournament_registrations_protect_standings
+before insert or update on public.tournament_registrations
+for each row execute function private.protect_tournament_standings();
+
+-- One report per participant for legacy lobby games. Two matching reports
+-- settle the game; two different ones open a dispute.
+create table if not exists public.tournament_match_reports (
+  tournament_match_id uuid not null
+    references public.tournament_matches(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  result text not null check (result in ('player1', 'player2', 'draw')),
+  reported_at timestamptz not null default now(),
+  primary key (tournament_match_id, user_id)
+);
+
+create table if not exists public.tournament_match_disputes (
+  id uuid primary key default gen_random_uuid(),
+  tournament_match_id uuid not null
+    references public.tournament_matches(id) on delete cascade,
+  opened_by uuid not null references auth.users(id) on delete cascade,
+  reason text not null
+    check (reason in ('ai_match', 'abandoned', 'conflicting_reports')),
+  claimed_result text
+    check (claimed_result is null or claimed_result in ('player1', 'player2', 'draw')),
+  details text check (details is null or char_length(details) <= 1000),
+  status text not null default 'open'
+    check (status in ('open', 'upheld', 'rejected', 'superseded')),
+  resolved_result text
+    check (resolved_result is null or resolved_result in ('player1', 'player2', 'draw')),
+  resolved_by uuid references auth.users(id) on delete set null,
+  resolution_note text
+    check (resolution_note is null or char_length(resolution_note) <= 1000),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  check ((status = 'open') = (resolved_at is null)),
+  check (status <> 'upheld' or resolved_result is not null)
+);
+
+create unique index if not exists tournament_match_disputes_open_idx
+  on public.tournament_match_disputes (tournament_match_id)
+  where status = 'open';
+create index if not exists tournament_match_disputes_status_idx
+  on public.tournament_match_disputes (status, created_at);
+
+alter table public.tournament_match_reports enable row level security;
+alter table public.tournament_match_disputes enable row level security;
+
+drop policy if exists "Participants read their match reports"
+  on public.tournament_match_reports;
+create policy "Participants read their match reports"
+  on public.tournament_match_reports for select
+  using (
+    exists (
+      select 1
+      from public.tournament_matches tm
+      where tm.id = tournament_match_id
+        and auth.uid() in (tm.player1_id, tm.player2_id)
+    )
+  );
+
+drop policy if exists "Participants read their match disputes"
+  on public.tournament_match_disputes;
+create policy "Participants read their match disputes"
+  on public.tournament_match_disputes for select
+  using (
+    exists (
+      select 1
+      from public.tournament_matches tm
+      where tm.id = tournament_match_id
+        and auth.uid() in (tm.player1_id, tm.player2_id)
+    )
+  );
+
+revoke insert, update, delete on public.tournament_match_reports
+  from anon, authenticated;
+revoke insert, update, delete on public.tournament_match_disputes
+  from anon, authenticated;
+
+-- Seats a paired tournament game in a private chess room: player 1 takes
+-- White, as in every paired round. Idempotent per tournament match.
+create or replace function public.create_tournament_chess_match_server(
+  p_tournament_match_id uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_match public.tournament_matches%rowtype;
+  v_tournament public.tournaments%rowtype;
+  v_rule_version_ids uuid[];
+  v_room_id uuid;
+  v_chess_match_id uuid;
+begin
+  select * into v_match
+  from public.tournament_matches
+  where id = p_tournament_match_id
+  for update;
+  if not found then
+    raise exception 'TOURNAMENT_MATCH_NOT_FOUND' using errcode = 'P0002';
+  end if;
+  if v_match.chess_match_id is not null then
+    return v_match.chess_match_id;
+  end if;
+  if v_match.player2_id is null
+    or v_match.is_bye
+    or coalesce(v_match.is_ai_match, false) then
+    raise exception 'TOURNAMENT_MATCH_NOT_VERIFIABLE' using errcode = '55000';
+  end if;
+
+  select * into v_tournament
+  from public.tournaments
+  where id = v_match.tournament_id;
+  if v_tournament.rule_version_ids is null then
+    raise exception 'TOURNAMENT_NOT_VERIFIED' using errcode = '55000';
+  end if;
+  v_rule_version_ids := v_tournament.rule_version_ids;
+
+  insert into public.chess_rooms (
+    owner_id, request_key, name, visibility, ruleset_type, ruleset_hash,
+    rated, initial_seconds, increment_seconds, configuration
+  ) values (
+    v_match.player1_id,
+    v_match.id,
+    left('Tournoi · ' || v_tournament.title, 80),
+    'private',
+    case when cardinality(v_rule_version_ids) = 0 then 'standard' else 'custom' end,
+    public.compute_chess_ruleset_hash(v_rule_version_ids),
+    false,
+    v_tournament.initial_seconds,
+    v_tournament.increment_seconds,
+    jsonb_build_object(
+      'ruleVersionIds', to_jsonb(v_rule_version_ids),
+      'ownerColor', 'white',
+      'tournamentMatchId', v_match.id
+    )
+  ) returning id into v_room_id;
+
+  insert into public.chess_room_members (room_id, user_id, member_role, color)
+  values
+    (v_room_id, v_match.player1_id, 'owner', 'white'),
+    (v_room_id, v_match.player2_id, 'player', 'black');
+
+  insert into public.chess_room_rule_versions (room_id, rule_version_id, ordinal)
+  select v_room_id, requested.version_id, requested.ordinal::smallint
+  from unnest(v_rule_version_ids)
+    with ordinality as requested(version_id, ordinal);
+
+  v_chess_match_id := public.create_chess_match_internal(v_room_id);
+
+  update public.tournament_matches
+  set chess_match_id = v_chess_match_id, updated_at = now()
+  where id = v_match.id;
+
+  return v_chess_match_id;
+end;
+$$;
+
+revoke all on function public.create_tournament_chess_match_server(uuid)
+  from public, anon, authenticated;
+grant execute on function public.create_tournament_chess_match_server(uuid)
+  to service_role;
+
+-- Every finalization path (move, timeout, resignation, draw, takeback) ends in
+-- a verified completed chess_matches row; the tournament game follows it.
+create or replace function private.record_verified_tournament_result()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_match_id uuid;
+begin
+  update public.tournament_matches tm
+  set status = 'finished',
+      result = case new.result
+        when '1/2-1/2' then 'draw'
+        when '1-0' then case when tm.player1_id = new.white_player_id
+          then 'player1' else 'player2' end
+        else case when tm.player1_id = new.black_player_id
+          then 'player1' else 'player2' end
+      end,
+      winner_id = case new.result
+        when '1-0' then new.white_player_id
+        when '0-1' then new.black_player_id
+        else null
+      end,
+      result_source = 'server',
+      verified_at = coalesce(new.verified_at, now()),
+      completed_at = coalesce(new.ended_at, now()),
+      updated_at = now()
+  where tm.chess_match_id = new.id
+    and tm.status <> 'finished'
+  returning tm.id into v_match_id;
+
+  if v_match_id is not null then
+    update public.tournament_match_disputes
+    set status = 'superseded',
+        resolved_at = now(),
+        resolution_note = 'Résultat vérifié par le serveur.'
+    where tournament_match_id = v_match_id
+      and status = 'open';
+  end if;
+  return new;
+end;
+$$;
+
+revoke all on function private.record_verified_tournament_result()
+  from public, anon, authenticated;
+
+drop trigger if exists chess_matches_record_tournament_result
+  on public.chess_matches;
+create trigger chess_matches_record_tournament_result
+after update of status on public.chess_matches
+for each row
+when (
+  new.status = 'completed'
+  and new.verification_status = 'verified'
+  and old.status is distinct from new.status
+)
+execute function private.record_verified_tournament_result();
+
+-- Moderators settle AI games, abandoned games and conflicting reports. An
+-- upheld dispute writes the result; a rejected AI claim voids the game so
+-- that it scores for nobody, and rejected reports can be filed again.
+create or replace function public.resolve_tournament_match_dispute_server(
+  p_dispute_id uuid,
+  p_upheld boolean,
+  p_result text,
+  p_resolved_by uuid,
+  p_note text default null
+)
+returns text
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_dispute public.tournament_match_disputes%rowtype;
+  v_match public.tournament_matches%rowtype;
+  v_result text;
+begin
+  if p_upheld is null then
+    raise exception 'DISPUTE_DECISION_REQUIRED' using errcode = '22023';
+  end if;
+  if p_note is not null and char_length(p_note) > 1000 then
+    raise exception 'INVALID_RESOLUTION_NOTE' using errcode = '22023';
+  end if;
+
+  select * into v_dispute
+  from public.tournament_match_disputes
+  where id = p_dispute_id
+  for update;
+  if not found then
+    raise exception 'DISPUTE_NOT_FOUND' using errcode = 'P0002';
+  end if;
+  if v_dispute.status <> 'open' then
+    raise exception 'DISPUTE_ALREADY_RESOLVED' using errcode = '55000';
+  end if;
+
+  select * into v_match
+  from public.tournament_matches
+  where id = v_dispute.tournament_match_id
+  for update;
+  if v_match.status = 'finished' then
+    raise exception 'TOURNAMENT_MATCH_ALREADY_FINISHED' using errcode = '55000';
+  end if;
+
+  if p_upheld then
+    v_result := coalesce(p_result, v_dispute.claimed_result);
+    if v_result is null or v_result not in ('player1', 'player2', 'draw') then
+      raise exception 'INVALID_MATCH_RESULT' using errcode = '22023';
+    end if;
+    update public.tournament_matches
+    set status = 'finished',
+        result = v_result,
+        winner_id = case v_result
+          when 'player1' then v_match.player1_id
+          when 'player2' then v_match.player2_id
+          else null
+        end,
+        result_source = 'dispute',
+        verified_at = now(),
+        completed_at = now(),
+        updated_at = now()
+    where id = v_match.id;
+  else
+    if v_dispute.reason = 'ai_match' then
+      update public.tournament_matches
+      set status = 'cancelled', updated_at = now()
+      where id = v_match.id;
+    elsif v_dispute.reason = 'conflicting_reports' then
+      delete from public.tournament_match_reports
+      where tournament_match_id = v_match.id;
+    end if;
+  end if;
+
+  update public.tournament_match_disputes
+  set status = case when p_upheld then 'upheld' else 'rejected' end,
+      resolved_result = case when p_upheld then v_result else null end,
+      resolved_by = p_resolved_by,
+      resolution_note = p_note,
+      resolved_at = now()
+  where id = v_dispute.id;
+
+  return case when p_upheld then 'upheld' else 'rejected' end;
+end;
+$$;
+
+revoke all on function public.resolve_tournament_match_dispute_server(
+  uuid, boolean, text, uuid, text
+) from public, anon, authenticated;
+grant execute on function public.resolve_tournament_match_dispute_server(
+  uuid, boolean, text, uuid, text
+) to service_role;
+
+commit;
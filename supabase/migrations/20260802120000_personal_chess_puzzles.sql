@@ -0,0 +1,250 @@
+begin;
+
+-- Personal puzzles are mined by the coach from a player's own analysed games:
+-- the position before a costly move, solved by the engine's preferred move.
+-- Like the daily set, the solution only reaches the browser once the player
+-- has answered. Reviews are scheduled with SM-2 and earn no XP, so mining
+-- one's own blunders is not a way to farm rewards.
+create table if not exists public.chess_personal_puzzles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  source_game_id text not null check (char_length(source_game_id) between 1 and 100),
+  source_ply integer not null check (source_ply between 1 and 2000),
+  fen text not null check (char_length(fen) between 5 and 512),
+  solution_moves text[] not null check (cardinality(solution_moves) between 1 and 64),
+  played_move text check (played_move is null or char_length(played_move) between 2 and 32),
+  swing_cp integer not null,
+  themes text[] not null default '{}'::text[],
+  rating integer not null default 1200 check (rating between 100 and 4000),
+  ease_factor numeric(4, 2) not null default 2.5 check (ease_factor between 1.3 and 5),
+  interval_days integer not null default 0 check (interval_days between 0 and 3650),
+  repetitions integer not null default 0 check (repetitions >= 0),
+  lapses integer not null default 0 check (lapses >= 0),
+  due_at timestamptz not null default now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, fen)
+);
+
+create index if not exists chess_personal_puzzles_due_idx
+  on public.chess_personal_puzzles (user_id, due_at);
+
+alter table public.chess_personal_puzzles enable row level security;
+
+-- No client policy: rows hold the solution. Players go through the RPCs below.
+revoke all on table public.chess_personal_puzzles
+  from public, anon, authenticated;
+grant all on table public.chess_personal_puzzles to service_role;
+
+create or replace function public.record_personal_chess_puzzles_server(
+  p_user_id uuid,
+  p_source_game_id text,
+  p_puzzles jsonb
+)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_inserted integer;
+begin
+  if p_user_id is null or jsonb_typeof(p_puzzles) is distinct from 'array'
+    or jsonb_array_length(p_puzzles) > 200 then
+    raise exception 'INVALID_PERSONAL_PUZZLES' using errcode = '22023';
+  end if;
+  if exists (
+    select 1
+    from jsonb_array_elements(p_puzzles) as puzzle(value)
+    cross join lateral jsonb_array_elements_text(
+      coalesce(puzzle.value->'solution_moves', '[]'::jsonb)
+    ) as solution(move_value)
+    where lower(trim(solution.move_value)) !~ '^[a-h][1-8][a-h][1-8][qrbn]?$'
+  ) then
+    raise exception 'INVALID_PUZZLE_MOVE_NOTATION' using errcode = '22023';
+  end if;
+
+  -- A position already in the player's deck keeps its review history.
+  insert into public.chess_personal_puzzles (
+    user_id, source_game_id, source_ply, fen, solution_moves, played_move,
+    swing_cp, themes, rating
+  )
+  select
+    p_user_id,
+    p_source_game_id,
+    (puzzle.value->>'ply')::integer,
+    puzzle.value->>'fen',
+    array(
+      select lower(trim(move_value))
+      from jsonb_array_elements_text(puzzle.value->'solution_moves') as move_value
+    ),
+    nullif(lower(trim(puzzle.value->>'played_move')), ''),
+    coalesce((puzzle.value->>'swing_cp')::integer, 0),
+    coalesce(
+      array(select jsonb_array_elements_text(puzzle.value->'themes')),
+      '{}'::text[]
+    ),
+    least(4000, greatest(100, coalesce((puzzle.value->>'rating')::integer, 1200)))
+  from jsonb_array_elements(p_puzzles) as puzzle(value)
+  on conflict (user_id, fen) do nothing;
+
+  get diagnostics v_inserted = row_count;
+  return v_inserted;
+end;
+$$;
+
+revoke all on function public.record_personal_chess_puzzles_server(
+  uuid, text, jsonb
+) from public, anon, authenticated;
+grant execute on function public.record_personal_chess_puzzles_server(
+  uuid, text, jsonb
+) to service_role;
+
+create or replace function public.get_due_personal_chess_puzzles(
+  p_limit integer default 10
+)
+returns table (
+  puzzle_id uuid,
+  fen text,
+  themes text[],
+  rating integer,
+  source_game_id text,
+  source_ply integer,
+  played_move text,
+  repetitions integer,
+  interval_days integer,
+  due_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_limit is null or p_limit not between 1 and 50 then
+    raise exception 'INVALID_PUZZLE_LIMIT' using errcode = '22023';
+  end if;
+
+  return query
+  select puzzle_row.id, puzzle_row.fen, puzzle_row.themes, puzzle_row.rating,
+    puzzle_row.source_game_id, puzzle_row.source_ply, puzzle_row.played_move,
+    puzzle_row.repetitions, puzzle_row.interval_days, puzzle_row.due_at
+  from public.chess_personal_puzzles puzzle_row
+  where puzzle_row.user_id = v_user_id and puzzle_row.due_at <= now()
+  order by puzzle_row.due_at, puzzle_row.created_at
+  limit p_limit;
+end;
+$$;
+
+revoke all on function public.get_due_personal_chess_puzzles(integer)
+  from public, anon, authenticated;
+grant execute on function public.get_due_personal_chess_puzzles(integer)
+  to authenticated;
+
+-- One submission is one SM-2 review. A quick solve grades 5, a slow one 4;
+-- a miss resets the repetitions and brings the puzzle back in ten minutes.
+create or replace function public.submit_personal_chess_puzzle(
+  p_puzzle_id uuid,
+  p_moves text[],
+  p_duration_ms integer default null
+)
+returns table (
+  solved boolean,
+  solution_moves text[],
+  repetitions integer,
+  interval_days integer,
+  ease_factor numeric,
+  due_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_puzzle public.chess_personal_puzzles%rowtype;
+  v_moves text[];
+  v_solved boolean;
+  v_quality integer;
+  v_ease numeric;
+  v_interval integer;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if coalesce(cardinality(p_moves), 0) not between 1 and 64
+    or p_duration_ms is not null and p_duration_ms not between 0 and 86400000 then
+    raise exception 'INVALID_PUZZLE_ATTEMPT' using errcode = '22023';
+  end if;
+
+  select * into v_puzzle
+  from public.chess_personal_puzzles
+  where id = p_puzzle_id and user_id = v_user_id
+  for update;
+  if not found then
+    raise exception 'PUZZLE_NOT_AVAILABLE' using errcode = 'P0002';
+  end if;
+  if v_puzzle.due_at > now() then
+    raise exception 'PUZZLE_NOT_DUE' using errcode = '55000';
+  end if;
+
+  select array_agg(lower(trim(move_value)) order by ordinal)
+    into v_moves
+  from unnest(p_moves) with ordinality as submitted(move_value, ordinal);
+  if exists (
+    select 1 from unnest(v_moves) as move_value
+    where move_value !~ '^[a-h][1-8][a-h][1-8][qrbn]?$'
+  ) then
+    raise exception 'INVALID_PUZZLE_MOVE_NOTATION' using errcode = '22023';
+  end if;
+
+  v_solved := v_moves = v_puzzle.solution_moves;
+  v_quality := case
+    when not v_solved then 1
+    when coalesce(p_duration_ms, 0) <= 30000 then 5
+    else 4
+  end;
+  v_ease := least(5, greatest(
+    1.3,
+    v_puzzle.ease_factor
+      + (0.1 - (5 - v_quality) * (0.08 + (5 - v_quality) * 0.02))
+  ));
+
+  v_interval := case
+    when not v_solved then 0
+    when v_puzzle.repetitions = 0 then 1
+    when v_puzzle.repetitions = 1 then 6
+    else least(3650, round(v_puzzle.interval_days * v_ease)::integer)
+  end;
+
+  update public.chess_personal_puzzles as puzzle_row
+  set ease_factor = v_ease,
+      repetitions = case when v_solved then puzzle_row.repetitions + 1 else 0 end,
+      lapses = puzzle_row.lapses + case when v_solved then 0 else 1 end,
+      interval_days = v_interval,
+      due_at = case
+        when v_solved then now() + make_interval(days => v_interval)
+        else now() + interval '10 minutes'
+      end,
+      last_reviewed_at = now()
+  where puzzle_row.id = v_puzzle.id
+  returning * into v_puzzle;
+
+  return query select v_solved, v_puzzle.solution_moves, v_puzzle.repetitions,
+    v_puzzle.interval_days, v_puzzle.ease_factor, v_puzzle.due_at;
+end;
+$$;
+
+revoke all on function public.submit_personal_chess_puzzle(
+  uuid, text[], integer
+) from public, anon, authenticated;
+grant execute on function public.submit_personal_chess_puzzle(
+  uuid, text[], integer
+) to authenticated;
+
+commit;
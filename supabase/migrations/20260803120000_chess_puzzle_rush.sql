@@ -0,0 +1,678 @@
+begin;
+
+-- Training puzzles feed puzzle rush and themed streaks. Like the daily set,
+-- the rows hold the solution and never reach the browser directly: runs are
+-- validated move by move on the server. `rule_ids` lists the preset rules a
+-- variant puzzle is played under; those puzzles are single-move so the client
+-- never has to apply a variant move itself.
+create table if not exists public.chess_training_puzzles (
+  id uuid primary key default gen_random_uuid(),
+  fen text not null check (char_length(fen) between 5 and 512),
+  solution_moves text[] not null
+    check (cardinality(solution_moves) between 1 and 63 and cardinality(solution_moves) % 2 = 1),
+  themes text[] not null default '{}'::text[],
+  rule_ids text[] not null default '{}'::text[],
+  rating integer not null default 1200 check (rating between 100 and 4000),
+  source text not null check (char_length(source) between 3 and 100),
+  published boolean not null default false,
+  created_at timestamptz not null default now(),
+  check (cardinality(rule_ids) = 0 or cardinality(solution_moves) = 1)
+);
+
+create index if not exists chess_training_puzzles_rating_idx
+  on public.chess_training_puzzles (rating) where published;
+
+-- The puzzle rating is its own Elo, kept apart from the per-pool game
+-- ratings so that rushing puzzles never moves matchmaking.
+create table if not exists public.chess_player_puzzle_ratings (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  rating integer not null default 1500 check (rating between 100 and 4000),
+  puzzles_attempted integer not null default 0 check (puzzles_attempted >= 0),
+  puzzles_solved integer not null default 0 check (puzzles_solved >= 0),
+  updated_at timestamptz not null default now(),
+  check (puzzles_solved <= puzzles_attempted)
+);
+
+create table if not exists public.chess_puzzle_runs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  mode text not null check (mode in ('three_minutes', 'three_strikes', 'survival')),
+  theme text check (theme in ('fork', 'pin', 'mateIn2', 'variant')),
+  status text not null default 'active'
+    check (status in ('active', 'finished')),
+  score integer not null default 0 check (score >= 0),
+  strikes integer not null default 0 check (strikes between 0 and 3),
+  current_puzzle_id uuid references public.chess_training_puzzles(id) on delete set null,
+  started_at timestamptz not null default now(),
+  expires_at timestamptz,
+  finished_at timestamptz,
+  check ((mode = 'three_minutes') = (expires_at is not null)),
+  check ((status = 'active') = (finished_at is null))
+);
+
+create unique index if not exists chess_puzzle_runs_active_idx
+  on public.chess_puzzle_runs (user_id) where status = 'active';
+create index if not exists chess_puzzle_runs_leaderboard_idx
+  on public.chess_puzzle_runs (mode, theme, score desc) where status = 'finished';
+
+create table if not exists public.chess_puzzle_run_attempts (
+  run_id uuid not null references public.chess_puzzle_runs(id) on delete cascade,
+  puzzle_id uuid not null references public.chess_training_puzzles(id) on delete restrict,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  status text not null default 'started'
+    check (status in ('started', 'solved', 'failed')),
+  submitted_line text[] not null default '{}'::text[],
+  served_at timestamptz not null default now(),
+  answered_at timestamptz,
+  primary key (run_id, puzzle_id),
+  check ((status = 'started') = (answered_at is null))
+);
+
+create index if not exists chess_puzzle_run_attempts_user_idx
+  on public.chess_puzzle_run_attempts (user_id, served_at desc);
+
+alter table public.chess_training_puzzles enable row level security;
+alter table public.chess_player_puzzle_ratings enable row level security;
+alter table public.chess_puzzle_runs enable row level security;
+alter table public.chess_puzzle_run_attempts enable row level security;
+
+-- Internally curated positions; the lines were checked move by move and every
+-- defender reply is forced. Variant puzzles use the preset rules named in
+-- `rule_ids` (src/lib/presetRules.ts).
+insert into public.chess_training_puzzles (
+  id, fen, solution_moves, themes, rule_ids, rating, source, published
+)
+values
+  (
+    'c4200000-0000-4000-8000-000000000001',
+    'r3k3/8/8/3N4/8/8/8/6K1 w - - 0 1',
+    array['d5c7'],
+    array['fork'],
+    '{}'::text[],
+    800,
+    'curated-internal',
+    true
+  ),
+  (
+    'c4200000-0000-4000-8000-000000000002',
+    '6k1/5ppp/8/8/3n4/8/5PPP/2Q3K1 b - - 0 1',
+    array['d4e2'],
+    array['fork'],
+    '{}'::text[],
+    950,
+    'curated-internal',
+    true
+  ),
+  (
+    'c4200000-0000-4000-8000-000000000003',
+    '4k3/8/2r1n3/8/3P4/8/8/4K3 w - - 0 1',
+    array['d4d5'],
+    array['fork'],
+    '{}'::text[],
+    1100,
+    'curated-internal',
+    true
+  ),
+  (
+    'c4200000-0000-4000-8000-000000000004',
+    '4k3/8/8/4n3/8/8/5P2/4R1K1 w - - 0 1',
+    array['f2f4'],
+    array['pin'],
+    '{}'::text[],
+    1000,
+    'curated-internal',
+    true
+  ),
+  (
+    'c4200000-0000-4000-8000-000000000005',
+    '4k3/8/4q3/8/8/8/5K2/R7 w - - 0 1',
+    array['a1e1'],
+    array['pin'],
+    '{}'::text[],
+    1200,
+    'curated-internal',
+    true
+  ),
+  (
+    'c4200000-0000-4000-8000-000000000006',
+    '7k/8/8/8/8/8/1R6/R3K3 w - - 0 1',
+    array['b2b7', 'h8g8', 'a1a8'],
+    array['mateIn2', 'rookEndgame'],
+    '{}'::text[],
+    1150,
+    'curated-internal',
+    true
+  ),
+  (
+    'c4200000-0000-4000-8000-000000000007',
+    '3rr1k1/5ppp/8/8/8/8/4RPPP/4R1K1 w - - 0 1',
+    array['e2e8', 'd8e8', 'e1e8'],
+    array['mateIn2', 'backRankMate'],
+    '{}'::text[],
+    1300,
+    'curated-internal',
+    true
+  ),
+  (
+    'c4200000-0000-4000-8000-000000000008',
+    '3r3k/6pp/7N/8/2Q5/8/6PP/6K1 w - - 0 1',
+    array['c4g8', 'd8g8', 'h6f7'],
+    array['mateIn2', 'smotheredMate'],
+    '{}'::text[],
+    1500,
+    'curated-internal',
+    true
+  ),
+  (
+    'c4200000-0000-4000-8000-000000000009',
+    '3k4/3q4/3P4/8/8/8/8/K7 w - - 0 1',
+    array['d6d7'],
+    array['variant'],
+    array['preset_atk_06'],
+    900,
+    'curated-internal',
+    true
+  ),
+  (
+    'c4200000-0000-4000-8000-000000000010',
+    '7k/8/8/8/8/6r1/8/6K1 w - - 0 1',
+    array['g1g3'],
+    array['variant'],
+    array['preset_atk_07'],
+    1000,
+    'curated-internal',
+    true
+  )
+on conflict (id) do nothing;
+
+drop policy if exists chess_player_puzzle_ratings_own
+  on public.chess_player_puzzle_ratings;
+create policy chess_player_puzzle_ratings_own
+  on public.chess_player_puzzle_ratings for select to authenticated
+  using (user_id = (select auth.uid()));
+
+drop policy if exists chess_puzzle_runs_own on public.chess_puzzle_runs;
+create policy chess_puzzle_runs_own
+  on public.chess_puzzle_runs for select to authenticated
+  using (user_id = (select auth.uid()));
+
+-- Puzzles and run attempts have no client policy: both expose solutions.
+revoke all on table
+  public.chess_training_puzzles,
+  public.chess_player_puzzle_ratings,
+  public.chess_puzzle_runs,
+  public.chess_puzzle_run_attempts
+from public, anon, authenticated;
+grant select on table
+  public.chess_player_puzzle_ratings,
+  public.chess_puzzle_runs
+to authenticated;
+grant all on table
+  public.chess_training_puzzles,
+  public.chess_player_puzzle_ratings,
+  public.chess_puzzle_runs,
+  public.chess_puzzle_run_attempts
+to service_role;
+
+-- Serves the unseen puzzle closest to a target that climbs with the score,
+-- so a rush starts easy and gets harder. Returns null once the pool for the
+-- run's theme is exhausted.
+create or replace function public.serve_chess_puzzle_run_puzzle_internal(
+  p_run_id uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_run public.chess_puzzle_runs%rowtype;
+  v_puzzle_id uuid;
+begin
+  select * into v_run from public.chess_puzzle_runs where id = p_run_id;
+  if not found then
+    raise exception 'PUZZLE_RUN_NOT_AVAILABLE' using errcode = 'P0002';
+  end if;
+
+  select puzzle_row.id into v_puzzle_id
+  from public.chess_training_puzzles puzzle_row
+  where puzzle_row.published
+    and case
+      when v_run.theme is null then cardinality(puzzle_row.rule_ids) = 0
+      when v_run.theme = 'variant' then cardinality(puzzle_row.rule_ids) > 0
+      else v_run.theme = any(puzzle_row.themes)
+    end
+    and not exists (
+      select 1 from public.chess_puzzle_run_attempts attempt_row
+      where attempt_row.run_id = v_run.id
+        and attempt_row.puzzle_id = puzzle_row.id
+    )
+  order by abs(puzzle_row.rating - (800 + v_run.score * 100)), random()
+  limit 1;
+
+  if v_puzzle_id is not null then
+    insert into public.chess_puzzle_run_attempts (run_id, puzzle_id, user_id)
+    values (v_run.id, v_puzzle_id, v_run.user_id);
+  end if;
+  update public.chess_puzzle_runs
+  set current_puzzle_id = v_puzzle_id
+  where id = v_run.id;
+  return v_puzzle_id;
+end;
+$$;
+
+revoke all on function public.serve_chess_puzzle_run_puzzle_internal(uuid)
+  from public, anon, authenticated;
+
+create or replace function public.finish_chess_puzzle_run_internal(
+  p_run_id uuid
+)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_run public.chess_puzzle_runs%rowtype;
+  v_xp integer;
+begin
+  update public.chess_puzzle_runs
+  set status = 'finished', finished_at = now(), current_puzzle_id = null
+  where id = p_run_id and status = 'active'
+  returning * into v_run;
+  if not found then
+    return 0;
+  end if;
+
+  -- Two XP per solved puzzle, capped well under a won game.
+  v_xp := least(60, v_run.score * 2);
+  if v_xp > 0 and public.grant_chess_xp_internal(
+    v_run.user_id,
+    v_xp,
+    'puzzle',
+    v_run.id,
+    jsonb_build_object(
+      'runMode', v_run.mode,
+      'runTheme', v_run.theme,
+      'score', v_run.score
+    )
+  ) then
+    return v_xp;
+  end if;
+  return 0;
+end;
+$$;
+
+revoke all on function public.finish_chess_puzzle_run_internal(uuid)
+  from public, anon, authenticated;
+
+create or replace function public.get_chess_puzzle_run_state_internal(
+  p_run_id uuid
+)
+returns table (
+  run_id uuid,
+  mode text,
+  theme text,
+  status text,
+  score integer,
+  strikes integer,
+  expires_at timestamptz,
+  puzzle_id uuid,
+  fen text,
+  themes text[],
+  rule_ids text[],
+  rating integer,
+  player_rating integer
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select run_row.id, run_row.mode, run_row.theme, run_row.status,
+    run_row.score, run_row.strikes, run_row.expires_at,
+    puzzle_row.id, puzzle_row.fen, puzzle_row.themes, puzzle_row.rule_ids,
+    puzzle_row.rating, coalesce(rating_row.rating, 1500)
+  from public.chess_puzzle_runs run_row
+  left join public.chess_training_puzzles puzzle_row
+    on puzzle_row.id = run_row.current_puzzle_id
+  left join public.chess_player_puzzle_ratings rating_row
+    on rating_row.user_id = run_row.user_id
+  where run_row.id = p_run_id;
+$$;
+
+revoke all on function public.get_chess_puzzle_run_state_internal(uuid)
+  from public, anon, authenticated;
+
+-- Starting a run finishes the player's previous active one. The score only
+-- ever grows, so ending a run early never helps on a leaderboard.
+create or replace function public.start_chess_puzzle_run(
+  p_mode text,
+  p_theme text default null
+)
+returns table (
+  run_id uuid,
+  mode text,
+  theme text,
+  status text,
+  score integer,
+  strikes integer,
+  expires_at timestamptz,
+  puzzle_id uuid,
+  fen text,
+  themes text[],
+  rule_ids text[],
+  rating integer,
+  player_rating integer
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_run_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_mode is null
+    or p_mode not in ('three_minutes', 'three_strikes', 'survival') then
+    raise exception 'INVALID_PUZZLE_RUN_MODE' using errcode = '22023';
+  end if;
+  if p_theme is not null
+    and p_theme not in ('fork', 'pin', 'mateIn2', 'variant') then
+    raise exception 'INVALID_PUZZLE_THEME' using errcode = '22023';
+  end if;
+
+  perform public.finish_chess_puzzle_run_internal(run_row.id)
+  from public.chess_puzzle_runs run_row
+  where run_row.user_id = v_user_id and run_row.status = 'active';
+
+  insert into public.chess_puzzle_runs (user_id, mode, theme, expires_at)
+  values (
+    v_user_id,
+    p_mode,
+    p_theme,
+    case when p_mode = 'three_minutes' then now() + interval '3 minutes' end
+  )
+  returning id into v_run_id;
+
+  if public.serve_chess_puzzle_run_puzzle_internal(v_run_id) is null then
+    raise exception 'PUZZLE_POOL_EMPTY' using errcode = 'P0002';
+  end if;
+
+  return query
+  select * from public.get_chess_puzzle_run_state_internal(v_run_id);
+end;
+$$;
+
+revoke all on function public.start_chess_puzzle_run(text, text)
+  from public, anon, authenticated;
+grant execute on function public.start_chess_puzzle_run(text, text)
+  to authenticated;
+
+-- `p_moves` is the line played so far on the current puzzle, defender
+-- replies included. A correct prefix returns the next reply; a complete line
+-- scores, anything else is a strike. Either way the player's puzzle rating
+-- moves by Elo (K = 32) against the puzzle's rating, and the next puzzle is
+-- served in the same call.
+create or replace function public.submit_chess_puzzle_run_move(
+  p_run_id uuid,
+  p_moves text[]
+)
+returns table (
+  outcome text,
+  reply_move text,
+  solution_moves text[],
+  rating_change integer,
+  xp_awarded integer,
+  run_id uuid,
+  mode text,
+  theme text,
+  status text,
+  score integer,
+  strikes integer,
+  expires_at timestamptz,
+  puzzle_id uuid,
+  fen text,
+  themes text[],
+  rule_ids text[],
+  rating integer,
+  player_rating integer
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_run public.chess_puzzle_runs%rowtype;
+  v_puzzle public.chess_training_puzzles%rowtype;
+  v_moves text[];
+  v_length integer;
+  v_solved boolean;
+  v_player_rating integer;
+  v_expected numeric;
+  v_rating_change integer := 0;
+  v_xp integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  v_length := coalesce(cardinality(p_moves), 0);
+  if v_length not between 1 and 63 or v_length % 2 = 0 then
+    raise exception 'INVALID_PUZZLE_ATTEMPT' using errcode = '22023';
+  end if;
+
+  select * into v_run
+  from public.chess_puzzle_runs run_row
+  where run_row.id = p_run_id and run_row.user_id = v_user_id
+  for update;
+  if not found then
+    raise exception 'PUZZLE_RUN_NOT_AVAILABLE' using errcode = 'P0002';
+  end if;
+  if v_run.status <> 'active' then
+    raise exception 'PUZZLE_RUN_FINISHED' using errcode = '55000';
+  end if;
+
+  -- A few seconds of grace cover the round trip of the last answer.
+  if v_run.expires_at is not null
+    and now() > v_run.expires_at + interval '3 seconds' then
+    v_xp := public.finish_chess_puzzle_run_internal(v_run.id);
+    return query
+    select 'timeout'::text, null::text, null::text[], 0, v_xp, state.*
+    from public.get_chess_puzzle_run_state_internal(v_run.id) state;
+    return;
+  end if;
+
+  select * into v_puzzle
+  from public.chess_training_puzzles
+  where id = v_run.current_puzzle_id;
+  if not found then
+    raise exception 'PUZZLE_NOT_AVAILABLE' using errcode = 'P0002';
+  end if;
+
+  select array_agg(lower(trim(move_value)) order by ordinal)
+    into v_moves
+  from unnest(p_moves) with ordinality as submitted(move_value, ordinal);
+  if exists (
+    select 1 from unnest(v_moves) as move_value
+    where move_value !~ '^[a-h][1-8][a-h][1-8][qrbn]?$'
+  ) then
+    raise exception 'INVALID_PUZZLE_MOVE_NOTATION' using errcode = '22023';
+  end if;
+
+  if v_length < cardinality(v_puzzle.solution_moves)
+    and v_moves = v_puzzle.solution_moves[1:v_length] then
+    update public.chess_puzzle_run_attempts
+    set submitted_line = v_moves
+    where chess_puzzle_run_attempts.run_id = v_run.id
+      and chess_puzzle_run_attempts.puzzle_id = v_puzzle.id;
+    return query
+    select 'continue'::text, v_puzzle.solution_moves[v_length + 1],
+      null::text[], 0, 0, state.*
+    from public.get_chess_puzzle_run_state_internal(v_run.id) state;
+    return;
+  end if;
+
+  v_solved := v_moves = v_puzzle.solution_moves;
+  update public.chess_puzzle_run_attempts
+  set status = case when v_solved then 'solved' else 'failed' end,
+      submitted_line = v_moves,
+      answered_at = now()
+  where chess_puzzle_run_attempts.run_id = v_run.id
+    and chess_puzzle_run_attempts.puzzle_id = v_puzzle.id;
+
+  insert into public.chess_player_puzzle_ratings (user_id)
+  values (v_user_id)
+  on conflict (user_id) do nothing;
+  select rating_row.rating into v_player_rating
+  from public.chess_player_puzzle_ratings rating_row
+  where rating_row.user_id = v_user_id
+  for update;
+  v_expected := 1 / (1 + power(10, (v_puzzle.rating - v_player_rating) / 400.0));
+  v_rating_change := round(32 * ((case when v_solved then 1 else 0 end) - v_expected));
+  update public.chess_player_puzzle_ratings as rating_row
+  set rating = least(4000, greatest(100, rating_row.rating + v_rating_change)),
+      puzzles_attempted = rating_row.puzzles_attempted + 1,
+      puzzles_solved = rating_row.puzzles_solved + case when v_solved then 1 else 0 end,
+      updated_at = now()
+  where rating_row.user_id = v_user_id;
+
+  update public.chess_puzzle_runs as run_row
+  set score = run_row.score + case when v_solved then 1 else 0 end,
+      strikes = run_row.strikes + case when v_solved then 0 else 1 end
+  where run_row.id = v_run.id
+  returning * into v_run;
+
+  if v_run.strikes >= case when v_run.mode = 'survival' then 1 else 3 end
+    or public.serve_chess_puzzle_run_puzzle_internal(v_run.id) is null then
+    v_xp := public.finish_chess_puzzle_run_internal(v_run.id);
+  end if;
+
+  return query
+  select case when v_solved then 'solved' else 'failed' end,
+    null::text,
+    case when v_solved then null else v_puzzle.solution_moves end,
+    v_rating_change, v_xp, state.*
+  from public.get_chess_puzzle_run_state_internal(v_run.id) state;
+end;
+$$;
+
+revoke all on function public.submit_chess_puzzle_run_move(uuid, text[])
+  from public, anon, authenticated;
+grant execute on function public.submit_chess_puzzle_run_move(uuid, text[])
+  to authenticated;
+
+-- Ends a run on the player's request, typically when the rush clock runs out
+-- in the browser before another answer was sent.
+create or replace function public.finish_chess_puzzle_run(p_run_id uuid)
+returns table (
+  xp_awarded integer,
+  run_id uuid,
+  mode text,
+  theme text,
+  status text,
+  score integer,
+  strikes integer,
+  expires_at timestamptz,
+  puzzle_id uuid,
+  fen text,
+  themes text[],
+  rule_ids text[],
+  rating integer,
+  player_rating integer
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_xp integer;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  perform 1
+  from public.chess_puzzle_runs run_row
+  where run_row.id = p_run_id and run_row.user_id = v_user_id
+  for update;
+  if not found then
+    raise exception 'PUZZLE_RUN_NOT_AVAILABLE' using errcode = 'P0002';
+  end if;
+
+  v_xp := public.finish_chess_puzzle_run_internal(p_run_id);
+  return query
+  select v_xp, state.*
+  from public.get_chess_puzzle_run_state_internal(p_run_id) state;
+end;
+$$;
+
+revoke all on function public.finish_chess_puzzle_run(uuid)
+  from public, anon, authenticated;
+grant execute on function public.finish_chess_puzzle_run(uuid)
+  to authenticated;
+
+-- One line per player: their best finished run for the mode and theme. A
+-- null theme is the mixed rush.
+create or replace function public.get_chess_puzzle_rush_leaderboard(
+  p_mode text,
+  p_theme text default null,
+  p_limit integer default 50
+)
+returns table (
+  rank bigint,
+  user_id uuid,
+  best_score integer,
+  runs_played bigint,
+  achieved_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_mode is null
+    or p_mode not in ('three_minutes', 'three_strikes', 'survival') then
+    raise exception 'INVALID_PUZZLE_RUN_MODE' using errcode = '22023';
+  end if;
+  if p_theme is not null
+    and p_theme not in ('fork', 'pin', 'mateIn2', 'variant') then
+    raise exception 'INVALID_PUZZLE_THEME' using errcode = '22023';
+  end if;
+
+  return query
+  with best as (
+    select distinct on (run_row.user_id)
+      run_row.user_id, run_row.score, run_row.finished_at,
+      count(*) over (partition by run_row.user_id) as runs_played
+    from public.chess_puzzle_runs run_row
+    where run_row.status = 'finished'
+      and run_row.mode = p_mode
+      and run_row.theme is not distinct from p_theme
+    order by run_row.user_id, run_row.score desc, run_row.finished_at
+  )
+  select row_number() over (
+      order by best.score desc, best.finished_at, best.user_id
+    ),
+    best.user_id, best.score, best.runs_played, best.finished_at
+  from best
+  order by best.score desc, best.finished_at, best.user_id
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+end;
+$$;
+
+revoke all on function public.get_chess_puzzle_rush_leaderboard(
+  text, text, integer
+) from public, anon, authenticated;
+grant execute on function public.get_chess_puzzle_rush_leaderboard(
+  text, text, integer
+) to authenticated;
+
+commit;
@@ -0,0 +1,183 @@
+begin;
+
+-- One entitlement row per player, written only by the Stripe webhook (source
+-- `stripe`) or by an operator (source `manual`). Edge functions read it
+-- through supabase/functions/_shared/entitlements.ts; the browser reads its
+-- own row to show the live plan.
+create table if not exists public.billing_entitlements (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  plan text not null default 'freemium'
+    check (plan in ('freemium', 'starter', 'pro', 'club')),
+  status text not null default 'active'
+    check (status in ('active', 'trialing', 'past_due', 'unpaid', 'incomplete', 'canceled')),
+  billing_interval text check (billing_interval in ('monthly', 'yearly')),
+  source text not null default 'stripe' check (source in ('stripe', 'manual')),
+  stripe_customer_id text unique check (stripe_customer_id ~ '^cus_[A-Za-z0-9_]+$'),
+  stripe_subscription_id text unique check (stripe_subscription_id ~ '^sub_[A-Za-z0-9_]+$'),
+  current_period_end timestamptz,
+  cancel_at_period_end boolean not null default false,
+  last_event_created_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Every delivered event id is kept once: Stripe retries and replays are
+-- acknowledged without touching the entitlement again.
+create table if not exists public.billing_stripe_events (
+  event_id text primary key check (event_id ~ '^evt_[A-Za-z0-9_]+$'),
+  event_type text not null check (char_length(event_type) between 3 and 100),
+  event_created_at timestamptz not null,
+  user_id uuid references auth.users(id) on delete set null,
+  applied boolean not null,
+  received_at timestamptz not null default now()
+);
+
+create index if not exists billing_stripe_events_user_idx
+  on public.billing_stripe_events (user_id, received_at desc);
+
+alter table public.billing_entitlements enable row level security;
+alter table public.billing_stripe_events enable row level security;
+
+drop policy if exists billing_entitlements_own on public.billing_entitlements;
+create policy billing_entitlements_own
+  on public.billing_entitlements for select to authenticated
+  using (user_id = (select auth.uid()));
+
+revoke all on table public.billing_entitlements, public.billing_stripe_events
+  from public, anon, authenticated;
+grant select on table public.billing_entitlements to authenticated;
+grant all on table public.billing_entitlements, public.billing_stripe_events
+  to service_role;
+
+drop trigger if exists billing_entitlements_touch_updated_at
+  on public.billing_entitlements;
+create trigger billing_entitlements_touch_updated_at
+before update on public.billing_entitlements
+for each row execute function public.chess_platform_touch_updated_at();
+
+-- Players granted premium by hand before entitlements existed keep it.
+insert into public.billing_entitlements (user_id, plan, status, source)
+select user_row.id, 'pro', 'active', 'manual'
+from auth.users user_row
+where user_row.raw_app_meta_data->>'rule_architect_tier' = 'premium'
+on conflict (user_id) do nothing;
+
+-- Applies one verified Stripe event. Null arguments keep the stored value, so
+-- `invoice.payment_failed` can move the status alone. The player comes from
+-- the checkout session, or is found again by subscription or customer id.
+-- Events older than the last one applied are recorded but ignored: Stripe
+-- does not guarantee delivery order.
+create or replace function public.apply_stripe_entitlement_event_server(
+  p_event_id text,
+  p_event_type text,
+  p_event_created_at timestamptz,
+  p_user_id uuid,
+  p_customer_id text,
+  p_subscription_id text,
+  p_plan text,
+  p_status text,
+  p_billing_interval text,
+  p_current_period_end timestamptz,
+  p_cancel_at_period_end boolean
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := p_user_id;
+  v_existing public.billing_entitlements%rowtype;
+  v_applied boolean := false;
+begin
+  if p_event_id is null or p_event_type is null or p_event_created_at is null then
+    raise exception 'INVALID_STRIPE_EVENT' using errcode = '22023';
+  end if;
+  if p_plan is not null and p_plan not in ('freemium', 'starter', 'pro', 'club')
+    or p_status is not null and p_status not in (
+      'active', 'trialing', 'past_due', 'unpaid', 'incomplete', 'canceled'
+    )
+    or p_billing_interval is not null
+      and p_billing_interval not in ('monthly', 'yearly') then
+    raise exception 'INVALID_ENTITLEMENT' using errcode = '22023';
+  end if;
+
+  -- Claiming the event id first serialises concurrent deliveries of the
+  -- same event: the second one waits on the primary key, then stops here.
+  insert into public.billing_stripe_events (
+    event_id, event_type, event_created_at, applied
+  ) values (
+    p_event_id, p_event_type, p_event_created_at, false
+  )
+  on conflict (event_id) do nothing;
+  if not found then
+    return false;
+  end if;
+
+  if v_user_id is null then
+    select entitlement.user_id into v_user_id
+    from public.billing_entitlements entitlement
+    where (p_subscription_id is not null
+        and entitlement.stripe_subscription_id = p_subscription_id)
+      or (p_customer_id is not null
+        and entitlement.stripe_customer_id = p_customer_id)
+    order by (entitlement.stripe_subscription_id = p_subscription_id) desc nulls last
+    limit 1;
+  end if;
+
+  if v_user_id is not null then
+    select * into v_existing
+    from public.billing_entitlements
+    where user_id = v_user_id
+    for update;
+
+    if not found then
+      insert into public.billing_entitlements (
+        user_id, plan, status, billing_interval, stripe_customer_id,
+        stripe_subscription_id, current_period_end, cancel_at_period_end,
+        last_event_created_at
+      ) values (
+        v_user_id,
+        coalesce(p_plan, 'freemium'),
+        coalesce(p_status, 'active'),
+        p_billing_interval,
+        p_customer_id,
+        p_subscription_id,
+        p_current_period_end,
+        coalesce(p_cancel_at_period_end, false),
+        p_event_created_at
+      );
+      v_applied := true;
+    elsif v_existing.last_event_created_at is null
+      or v_existing.last_event_created_at <= p_event_created_at then
+      update public.billing_entitlements as entitlement
+      set plan = coalesce(p_plan, entitlement.plan),
+          status = coalesce(p_status, entitlement.status),
+          billing_interval = coalesce(p_billing_interval, entitlement.billing_interval),
+          source = 'stripe',
+          stripe_customer_id = coalesce(p_customer_id, entitlement.stripe_customer_id),
+          stripe_subscription_id = coalesce(p_subscription_id, entitlement.stripe_subscription_id),
+          current_period_end = coalesce(p_current_period_end, entitlement.current_period_end),
+          cancel_at_period_end = coalesce(p_cancel_at_period_end, entitlement.cancel_at_period_end),
+          last_event_created_at = p_event_created_at
+      where entitlement.user_id = v_user_id;
+      v_applied := true;
+    end if;
+  end if;
+
+  update public.billing_stripe_events
+  set user_id = v_user_id,
+      applied = v_applied
+  where event_id = p_event_id;
+  return v_applied;
+end;
+$$;
+
+revoke all on function public.apply_stripe_entitlement_event_server(
+  text, text, timestamptz, uuid, text, text, text, text, text, timestamptz, boolean
+) from public, anon, authenticated;
+grant execute on function public.apply_stripe_entitlement_event_server(
+  text, text, timestamptz, uuid, text, text, text, text, text, timestamptz, boolean
+) to service_role;
+
+commit;
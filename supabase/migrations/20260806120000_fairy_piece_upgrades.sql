@@ -0,0 +1,47 @@
+begin;
+
+-- A waiting lobby cannot follow a rule that drops one of its fairy pieces or
+-- changes how one moves or is written in FEN: pieces are matched by id, as
+-- `diffRuleBlueprints` does.
+create or replace function public.rule_version_upgrade_is_breaking(
+  p_from jsonb,
+  p_to jsonb
+)
+returns boolean
+language sql
+immutable
+set search_path = ''
+as $$
+  select p_to -> 'schemaVersion' is distinct from p_from -> 'schemaVersion'
+    or p_to -> 'ruleKey' is distinct from p_from -> 'ruleKey'
+    or p_to -> 'stateNamespace' is distinct from p_from -> 'stateNamespace'
+    or p_to -> 'initialStateJson' is distinct from p_from -> 'initialStateJson'
+    or p_to -> 'board' is distinct from p_from -> 'board'
+    or exists (
+      select 1
+      from jsonb_array_elements(p_from -> 'actions') previous
+      where not exists (
+        select 1
+        from jsonb_array_elements(p_to -> 'actions') next
+        where next ->> 'id' = previous ->> 'id'
+      )
+    )
+    or exists (
+      select 1
+      from jsonb_array_elements(coalesce(p_from -> 'pieces', '[]'::jsonb)) previous
+      where not exists (
+        select 1
+        from jsonb_array_elements(coalesce(p_to -> 'pieces', '[]'::jsonb)) next
+        where next ->> 'id' = previous ->> 'id'
+          and next -> 'betza' = previous -> 'betza'
+          and next -> 'glyph' = previous -> 'glyph'
+      )
+    );
+$$;
+
+revoke all on function public.rule_version_upgrade_is_breaking(jsonb, jsonb)
+  from public, anon, authenticated;
+
+notify pgrst, 'reload schema';
+
+commit;
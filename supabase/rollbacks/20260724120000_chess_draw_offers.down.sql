@@ -0,0 +1,11 @@
+begin;
+
+drop function if exists public.submit_chess_draw_command(
+  uuid, bigint, uuid, text
+);
+
+drop table if exists public.chess_match_draw_commands;
+
+notify pgrst, 'reload schema';
+
+commit;
@@ -0,0 +1,320 @@
+begin;
+
+drop function if exists public.submit_chess_takeback_command(
+  uuid, bigint, uuid, text
+);
+
+drop function if exists public.get_chess_match_snapshot(uuid);
+
+create or replace function public.get_chess_match_snapshot(
+  p_match_id uuid
+)
+returns table (
+  match_id uuid,
+  room_id uuid,
+  match_status text,
+  white_player_id uuid,
+  black_player_id uuid,
+  ruleset_hash text,
+  shared_seed bigint,
+  engine_version text,
+  current_fen text,
+  position_hash text,
+  rule_state jsonb,
+  rule_state_hash text,
+  side_to_move text,
+  ply_count integer,
+  revision bigint,
+  event_sequence bigint,
+  command_sequence bigint,
+  clock_state jsonb,
+  server_now timestamptz,
+  turn_started_at timestamptz,
+  players_presence jsonb,
+  verification_status text
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if not exists (
+    select 1
+    from public.chess_matches match_row
+    join public.chess_room_members member_row
+      on member_row.room_id = match_row.room_id
+    where match_row.id = p_match_id
+      and member_row.user_id = v_user_id
+      and member_row.membership_status = 'active'
+  ) then
+    raise exception 'MATCH_NOT_ACCESSIBLE' using errcode = '42501';
+  end if;
+
+  return query
+  select match_row.id, match_row.room_id, match_row.status,
+    match_row.white_player_id, match_row.black_player_id,
+    match_row.ruleset_hash, match_row.shared_seed, match_row.engine_version,
+    match_row.current_fen, match_row.position_hash, match_row.state,
+    match_row.rule_state_hash, match_row.side_to_move, match_row.ply_count,
+    match_row.revision, match_row.revision + 1,
+    match_row.command_sequence, match_row.clock_state, clock_timestamp(),
+    coalesce(match_row.last_move_at, match_row.started_at),
+    coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'userId', member_row.user_id,
+            'color', member_row.color,
+            'role', member_row.member_role,
+            'presence', member_row.presence_status,
+            'lastSeenAt', member_row.last_seen_at,
+            'lastSeenRevision', member_row.last_seen_revision,
+            'abandonmentRequestedAt', member_row.abandonment_requested_at
+          ) order by member_row.color nulls last, member_row.user_id
+        )
+        from public.chess_room_members member_row
+        where member_row.room_id = match_row.room_id
+          and member_row.membership_status = 'active'
+      ),
+      '[]'::jsonb
+    ),
+    match_row.verification_status
+  from public.chess_matches match_row
+  where match_row.id = p_match_id;
+end;
+$$;
+
+revoke all on function public.get_chess_match_snapshot(uuid)
+  from public, anon, authenticated;
+grant execute on function public.get_chess_match_snapshot(uuid)
+  to authenticated;
+
+create or replace function public.submit_chess_draw_command(
+  p_match_id uuid,
+  p_expected_revision bigint,
+  p_client_command_id uuid,
+  p_action text
+)
+returns table (
+  command_id uuid,
+  command_sequence bigint,
+  command_status text,
+  authoritative_revision bigint
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_match public.chess_matches%rowtype;
+  v_existing public.chess_match_draw_commands%rowtype;
+  v_offer public.chess_match_draw_commands%rowtype;
+  v_side text;
+  v_id uuid;
+  v_sequence bigint;
+  v_revision bigint;
+  v_reference text;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_client_command_id is null or p_expected_revision is null then
+    raise exception 'COMMAND_ID_AND_REVISION_REQUIRED' using errcode = '22023';
+  end if;
+  if p_action is null or p_action not in ('offer', 'accept', 'decline') then
+    raise exception 'INVALID_DRAW_ACTION' using errcode = '22023';
+  end if;
+
+  -- All command lifecycle functions lock the match before a command row.
+  select * into v_match
+  from public.chess_matches
+  where id = p_match_id
+  for update;
+  if not found then
+    raise exception 'MATCH_NOT_FOUND' using errcode = 'P0002';
+  end if;
+
+  select * into v_existing
+  from public.chess_match_draw_commands command_row
+  where command_row.match_id = p_match_id
+    and command_row.actor_id = v_user_id
+    and command_row.client_command_id = p_client_command_id;
+  if found then
+    if v_existing.expected_revision <> p_expected_revision
+      or v_existing.action <> p_action then
+      raise exception 'IDEMPOTENCY_KEY_REUSED' using errcode = '22023';
+    end if;
+    return query select v_existing.id, v_existing.sequence,
+      'accepted'::text, v_match.revision;
+    return;
+  end if;
+
+  if v_user_id = v_match.white_player_id then
+    v_side := 'white';
+  elsif v_user_id = v_match.black_player_id then
+    v_side := 'black';
+  else
+    raise exception 'MATCH_PARTICIPANT_REQUIRED' using errcode = '42501';
+  end if;
+  if v_match.status <> 'active' then
+    raise exception 'MATCH_NOT_ACTIVE' using errcode = '55000';
+  end if;
+  if v_match.revision <> p_expected_revision then
+    raise exception 'STALE_MATCH_REVISION' using errcode = '40001';
+  end if;
+
+  select * into v_offer
+  from public.chess_match_draw_commands offer_row
+  where offer_row.match_id = p_match_id
+    and offer_row.action = 'offer'
+    and offer_row.expires_at_ply > v_match.ply_count
+    and not exists (
+      select 1
+      from public.chess_match_draw_commands response_row
+      where response_row.offer_id = offer_row.id
+    )
+  order by offer_row.sequence desc
+  limit 1;
+
+  if p_action = 'offer' then
+    if v_offer.id is not null then
+      raise exception 'DRAW_OFFER_PENDING' using errcode = '55000';
+    end if;
+    if exists (
+      select 1
+      from public.chess_match_draw_commands offer_row
+      where offer_row.match_id = p_match_id
+        and offer_row.action = 'offer'
+        and offer_row.side = v_side
+        and offer_row.ply = v_match.ply_count
+    ) then
+      raise exception 'DRAW_OFFER_LIMIT' using errcode = '55000';
+    end if;
+  elsif v_offer.id is null or v_offer.side = v_side then
+    raise exception 'DRAW_OFFER_NOT_FOUND' using errcode = 'P0002';
+  end if;
+
+  -- Offers and declines consume a revision; they must not strand a move that
+  -- is already being validated at the current one.
+  if p_action <> 'accept' and exists (
+    select 1
+    from public.chess_move_commands command_row
+    where command_row.match_id = p_match_id
+      and command_row.expected_revision = p_expected_revision
+      and command_row.status = 'pending'
+  ) then
+    raise exception 'MOVE_ALREADY_PENDING' using errcode = '55000';
+  end if;
+
+  v_sequence := v_match.command_sequence + 1;
+  update public.chess_matches
+  set command_sequence = v_sequence
+  where id = p_match_id;
+
+  insert into public.chess_match_draw_commands (
+    match_id, actor_id, client_command_id, sequence, expected_revision,
+    action, side, ply, expires_at_ply, offer_id, created_at
+  ) values (
+    p_match_id, v_user_id, p_client_command_id, v_sequence,
+    p_expected_revision, p_action, v_side, v_match.ply_count,
+    case
+      when p_action <> 'offer' then null
+      -- The offerer still has to move: the opponent answers after that move.
+      when v_match.side_to_move = v_side then v_match.ply_count + 2
+      else v_match.ply_count + 1
+    end,
+    case when p_action = 'offer' then null else v_offer.id end,
+    clock_timestamp()
+  ) returning id into v_id;
+
+  if p_action = 'accept' then
+    v_reference := 'player-draw-agreement-v1:' || encode(
+      extensions.digest(
+        convert_to(
+          concat_ws(
+            ':',
+            'player-draw-agreement-v1',
+            v_match.id::text,
+            p_expected_revision::text,
+            v_offer.id::text,
+            v_user_id::text,
+            v_match.ruleset_hash
+          ),
+          'UTF8'
+        ),
+        'sha256'
+      ),
+      'hex'
+    );
+    perform public.finalize_chess_match_server(
+      v_match.id,
+      '1/2-1/2',
+      'draw-agreement',
+      v_reference,
+      p_expected_revision
+    );
+    return query select v_id, v_sequence, 'accepted'::text,
+      p_expected_revision + 1;
+    return;
+  end if;
+
+  v_revision := v_match.revision + 1;
+  update public.chess_matches
+  set revision = v_revision
+  where id = p_match_id;
+
+  insert into public.chess_match_events (
+    match_id, revision, event_type, actor_id, payload
+  ) values (
+    v_match.id,
+    v_revision,
+    case p_action when 'offer' then 'draw_offered' else 'draw_declined' end,
+    v_user_id,
+    case p_action
+      when 'offer' then jsonb_build_object(
+        'commandId', v_id,
+        'side', v_side,
+        'offeredAtPly', v_match.ply_count,
+        'expiresAtPly', case
+          when v_match.side_to_move = v_side then v_match.ply_count + 2
+          else v_match.ply_count + 1
+        end
+      )
+      else jsonb_build_object(
+        'commandId', v_id,
+        'offerId', v_offer.id,
+        'side', v_side
+      )
+    end
+  );
+
+  return query select v_id, v_sequence, 'accepted'::text, v_revision;
+end;
+$$;
+
+revoke all on function public.submit_chess_draw_command(
+  uuid, bigint, uuid, text
+) from public, anon, authenticated;
+grant execute on function public.submit_chess_draw_command(
+  uuid, bigint, uuid, text
+) to authenticated;
+
+
+drop index if exists public.chess_match_draw_commands_offer_idx;
+create unique index if not exists chess_match_draw_commands_offer_idx
+  on public.chess_match_draw_commands (match_id, side, ply)
+  where action = 'offer';
+
+drop function if exists private.chess_match_takeback_epoch(uuid);
+
+drop table if exists public.chess_match_takeback_commands;
+
+notify pgrst, 'reload schema';
+
+commit;
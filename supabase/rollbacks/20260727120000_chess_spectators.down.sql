@@ -0,0 +1,299 @@
+begin;
+
+drop function if exists public.get_chess_match_snapshot(uuid);
+
+create or replace function public.get_chess_match_snapshot(
+  p_match_id uuid
+)
+returns table (
+  match_id uuid,
+  room_id uuid,
+  match_status text,
+  white_player_id uuid,
+  black_player_id uuid,
+  ruleset_hash text,
+  shared_seed bigint,
+  engine_version text,
+  current_fen text,
+  position_hash text,
+  rule_state jsonb,
+  rule_state_hash text,
+  side_to_move text,
+  ply_count integer,
+  revision bigint,
+  event_sequence bigint,
+  command_sequence bigint,
+  clock_state jsonb,
+  server_now timestamptz,
+  turn_started_at timestamptz,
+  players_presence jsonb,
+  verification_status text,
+  rated boolean
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if not exists (
+    select 1
+    from public.chess_matches match_row
+    join public.chess_room_members member_row
+      on member_row.room_id = match_row.room_id
+    where match_row.id = p_match_id
+      and member_row.user_id = v_user_id
+      and member_row.membership_status = 'active'
+  ) then
+    raise exception 'MATCH_NOT_ACCESSIBLE' using errcode = '42501';
+  end if;
+
+  return query
+  select match_row.id, match_row.room_id, match_row.status,
+    match_row.white_player_id, match_row.black_player_id,
+    match_row.ruleset_hash, match_row.shared_seed, match_row.engine_version,
+    match_row.current_fen, match_row.position_hash, match_row.state,
+    match_row.rule_state_hash, match_row.side_to_move, match_row.ply_count,
+    match_row.revision, match_row.revision + 1,
+    match_row.command_sequence, match_row.clock_state, clock_timestamp(),
+    coalesce(match_row.last_move_at, match_row.started_at),
+    coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'userId', member_row.user_id,
+            'color', member_row.color,
+            'role', member_row.member_role,
+            'presence', member_row.presence_status,
+            'lastSeenAt', member_row.last_seen_at,
+            'lastSeenRevision', member_row.last_seen_revision,
+            'abandonmentRequestedAt', member_row.abandonment_requested_at
+          ) order by member_row.color nulls last, member_row.user_id
+        )
+        from public.chess_room_members member_row
+        where member_row.room_id = match_row.room_id
+          and member_row.membership_status = 'active'
+      ),
+      '[]'::jsonb
+    ),
+    match_row.verification_status,
+    match_row.rated
+  from public.chess_matches match_row
+  where match_row.id = p_match_id;
+end;
+$$;
+
+revoke all on function public.get_chess_match_snapshot(uuid)
+  from public, anon, authenticated;
+grant execute on function public.get_chess_match_snapshot(uuid)
+  to authenticated;
+
+create or replace function public.get_chess_match_events_since(
+  p_match_id uuid,
+  p_after_revision bigint default -1,
+  p_limit integer default 200
+)
+returns table (
+  event_id uuid,
+  match_id uuid,
+  revision bigint,
+  sequence bigint,
+  event_type text,
+  actor_id uuid,
+  payload jsonb,
+  created_at timestamptz,
+  server_now timestamptz
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_after_revision < -1 then
+    raise exception 'INVALID_REPLAY_REVISION' using errcode = '22023';
+  end if;
+  if not exists (
+    select 1
+    from public.chess_matches match_row
+    join public.chess_room_members member_row
+      on member_row.room_id = match_row.room_id
+    where match_row.id = p_match_id
+      and member_row.user_id = v_user_id
+      and member_row.membership_status = 'active'
+  ) then
+    raise exception 'MATCH_NOT_ACCESSIBLE' using errcode = '42501';
+  end if;
+
+  return query
+  select event_row.id, event_row.match_id, event_row.revision,
+    event_row.sequence, event_row.event_type, event_row.actor_id,
+    event_row.payload, event_row.created_at, clock_timestamp()
+  from public.chess_match_events event_row
+  where event_row.match_id = p_match_id
+    and event_row.revision > p_after_revision
+  order by event_row.revision
+  limit least(greatest(coalesce(p_limit, 200), 1), 1000);
+end;
+$$;
+
+revoke all on function public.get_chess_match_events_since(
+  uuid, bigint, integer
+) from public, anon, authenticated;
+grant execute on function public.get_chess_match_events_since(
+  uuid, bigint, integer
+) to authenticated;
+
+create or replace function public.heartbeat_chess_room(
+  p_room_id uuid,
+  p_last_seen_revision bigint default 0
+)
+returns table (
+  server_now timestamptz,
+  room_status text,
+  match_id uuid,
+  match_revision bigint,
+  event_sequence bigint,
+  turn_started_at timestamptz,
+  clock_state jsonb
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_match public.chess_matches%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_last_seen_revision < 0 then
+    raise exception 'INVALID_LAST_SEEN_REVISION' using errcode = '22023';
+  end if;
+  select * into v_match
+  from public.chess_matches match_row
+  where match_row.room_id = p_room_id;
+  if found and p_last_seen_revision > v_match.revision then
+    raise exception 'CLIENT_REVISION_AHEAD_OF_SERVER' using errcode = '22023';
+  end if;
+
+  update public.chess_room_members
+  set last_seen_at = clock_timestamp(),
+      last_seen_revision = p_last_seen_revision,
+      presence_status = 'online'
+  where room_id = p_room_id
+    and user_id = v_user_id
+    and membership_status = 'active';
+  if not found then
+    raise exception 'ROOM_MEMBERSHIP_REQUIRED' using errcode = '42501';
+  end if;
+
+  return query
+  select clock_timestamp(), room_row.status, v_match.id, v_match.revision,
+    case when v_match.id is null then null else v_match.revision + 1 end,
+    coalesce(v_match.last_move_at, v_match.started_at),
+    coalesce(v_match.clock_state, '{}'::jsonb)
+  from public.chess_rooms room_row
+  where room_row.id = p_room_id;
+end;
+$$;
+
+revoke all on function public.heartbeat_chess_room(uuid, bigint)
+  from public, anon, authenticated;
+grant execute on function public.heartbeat_chess_room(uuid, bigint)
+  to authenticated;
+
+
+drop policy if exists chess_matches_read on public.chess_matches;
+create policy chess_matches_read
+  on public.chess_matches for select to authenticated
+  using (
+    white_player_id = (select auth.uid())
+    or black_player_id = (select auth.uid())
+    or exists (
+      select 1
+      from public.chess_room_members member_row
+      where member_row.room_id = chess_matches.room_id
+        and member_row.user_id = (select auth.uid())
+        and member_row.membership_status = 'active'
+    )
+  );
+
+drop policy if exists chess_match_moves_read on public.chess_match_moves;
+create policy chess_match_moves_read
+  on public.chess_match_moves for select to authenticated
+  using (
+    exists (
+      select 1
+      from public.chess_matches match_row
+      where match_row.id = chess_match_moves.match_id
+        and (
+          match_row.white_player_id = (select auth.uid())
+          or match_row.black_player_id = (select auth.uid())
+          or exists (
+            select 1
+            from public.chess_room_members member_row
+            where member_row.room_id = match_row.room_id
+              and member_row.user_id = (select auth.uid())
+              and member_row.membership_status = 'active'
+          )
+        )
+    )
+  );
+
+drop policy if exists chess_match_events_read on public.chess_match_events;
+create policy chess_match_events_read
+  on public.chess_match_events for select to authenticated
+  using (
+    exists (
+      select 1
+      from public.chess_matches match_row
+      where match_row.id = chess_match_events.match_id
+        and (
+          match_row.white_player_id = (select auth.uid())
+          or match_row.black_player_id = (select auth.uid())
+          or exists (
+            select 1
+            from public.chess_room_members member_row
+            where member_row.room_id = match_row.room_id
+              and member_row.user_id = (select auth.uid())
+              and member_row.membership_status = 'active'
+          )
+        )
+    )
+  );
+
+
+drop function if exists public.list_live_chess_matches(integer);
+drop function if exists public.watch_chess_match(uuid);
+drop function if exists public.configure_chess_room_spectators(
+  uuid, boolean, integer
+);
+drop function if exists private.chess_room_spectator_count(uuid);
+drop function if exists private.chess_match_visible_revision(uuid, uuid);
+drop function if exists private.chess_match_spectator_delay_seconds(
+  uuid, uuid
+);
+
+-- Spectator memberships created by watch_chess_match have no seat to restore.
+update public.chess_room_members
+set membership_status = 'left', left_at = now()
+where member_role = 'spectator'
+  and membership_status = 'active';
+
+drop index if exists public.chess_room_members_spectators_idx;
+alter table public.chess_rooms
+  drop column if exists spectator_delay_seconds;
+
+notify pgrst, 'reload schema';
+
+commit;
@@ -0,0 +1,927 @@
+begin;
+
+-- Elo ratings keep one row per season: each player keeps the pool where they
+-- played the most rated games. Rated variant rooms and tickets are unrated
+-- first so the standard-only checks can come back.
+
+create or replace function public.finalize_chess_match_server(
+  p_match_id uuid,
+  p_result text,
+  p_termination text,
+  p_verification_reference text,
+  p_expected_revision bigint
+)
+returns table (
+  finalized boolean,
+  white_rating integer,
+  black_rating integer
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_match public.chess_matches%rowtype;
+  v_season public.chess_rating_seasons%rowtype;
+  v_white public.chess_player_ratings%rowtype;
+  v_black public.chess_player_ratings%rowtype;
+  v_white_score numeric;
+  v_black_score numeric;
+  v_white_expected numeric;
+  v_black_expected numeric;
+  v_white_after integer;
+  v_black_after integer;
+  v_white_outcome text;
+  v_black_outcome text;
+  v_event_revision bigint;
+begin
+  if p_result not in ('1-0', '0-1', '1/2-1/2') then
+    raise exception 'INVALID_MATCH_RESULT' using errcode = '22023';
+  end if;
+  if p_expected_revision is null or p_expected_revision < 0 then
+    raise exception 'EXPECTED_REVISION_REQUIRED' using errcode = '22023';
+  end if;
+  if p_verification_reference is null
+    or char_length(trim(p_verification_reference)) not between 8 and 300 then
+    raise exception 'AUTHORITATIVE_VERIFICATION_REQUIRED' using errcode = '22023';
+  end if;
+  if p_termination is null or char_length(trim(p_termination)) not between 2 and 100 then
+    raise exception 'INVALID_TERMINATION' using errcode = '22023';
+  end if;
+
+  select * into v_match
+  from public.chess_matches match_row
+  where match_row.id = p_match_id
+  for update;
+  if not found then
+    raise exception 'MATCH_NOT_FOUND' using errcode = 'P0002';
+  end if;
+  if v_match.status = 'completed' then
+    if v_match.result <> p_result
+      or v_match.termination <> left(trim(p_termination), 100)
+      or v_match.verification_reference <> trim(p_verification_reference)
+      or v_match.revision <> p_expected_revision + 1 then
+      raise exception 'FINALIZATION_CONFLICT' using errcode = '55000';
+    end if;
+    if v_match.rated then
+      select rating into v_white_after
+      from public.chess_player_ratings
+      where season_id = v_match.season_id and user_id = v_match.white_player_id;
+      select rating into v_black_after
+      from public.chess_player_ratings
+      where season_id = v_match.season_id and user_id = v_match.black_player_id;
+    end if;
+    return query select false, v_white_after, v_black_after;
+    return;
+  end if;
+  if v_match.status <> 'active'
+    or v_match.white_player_id is null
+    or v_match.black_player_id is null then
+    raise exception 'MATCH_NOT_FINALIZABLE' using errcode = '55000';
+  end if;
+  if v_match.revision <> p_expected_revision then
+    raise exception 'STALE_MATCH_REVISION' using errcode = '40001';
+  end if;
+
+  v_white_score := case p_result when '1-0' then 1 when '0-1' then 0 else 0.5 end;
+  v_black_score := 1 - v_white_score;
+  v_white_outcome := case when v_white_score = 1 then 'win'
+    when v_white_score = 0 then 'loss' else 'draw' end;
+  v_black_outcome := case when v_black_score = 1 then 'win'
+    when v_black_score = 0 then 'loss' else 'draw' end;
+
+  if v_match.rated then
+    select * into v_season
+    from public.chess_rating_seasons
+    where id = v_match.season_id
+    for update;
+    if not found then
+      raise exception 'RATING_SEASON_NOT_FOUND' using errcode = 'P0002';
+    end if;
+
+    insert into public.chess_player_ratings (
+      season_id, user_id, rating, peak_rating
+    ) values
+      (v_season.id, v_match.white_player_id, v_season.initial_rating, v_season.initial_rating),
+      (v_season.id, v_match.black_player_id, v_season.initial_rating, v_season.initial_rating)
+    on conflict (season_id, user_id) do nothing;
+
+    perform 1 from public.chess_player_ratings rating_row
+    where rating_row.season_id = v_season.id
+      and rating_row.user_id in (v_match.white_player_id, v_match.black_player_id)
+    order by rating_row.user_id
+    for update;
+    select * into v_white from public.chess_player_ratings
+    where season_id = v_season.id and user_id = v_match.white_player_id;
+    select * into v_black from public.chess_player_ratings
+    where season_id = v_season.id and user_id = v_match.black_player_id;
+
+    v_white_expected := 1 / (
+      1 + power(10::numeric, (v_black.rating - v_white.rating)::numeric / 400)
+    );
+    v_black_expected := 1 - v_white_expected;
+    v_white_after := greatest(
+      v_season.rating_floor,
+      round(v_white.rating + v_season.k_factor * (v_white_score - v_white_expected))::integer
+    );
+    v_black_after := greatest(
+      v_season.rating_floor,
+      round(v_black.rating + v_season.k_factor * (v_black_score - v_black_expected))::integer
+    );
+
+    update public.chess_player_ratings
+    set rating = v_white_after,
+        peak_rating = greatest(peak_rating, v_white_after),
+        games_played = games_played + 1,
+        wins = wins + case when v_white_score = 1 then 1 else 0 end,
+        draws = draws + case when v_white_score = 0.5 then 1 else 0 end,
+        losses = losses + case when v_white_score = 0 then 1 else 0 end,
+        provisional = games_played + 1 < 10
+    where season_id = v_season.id and user_id = v_match.white_player_id;
+    update public.chess_player_ratings
+    set rating = v_black_after,
+        peak_rating = greatest(peak_rating, v_black_after),
+        games_played = games_played + 1,
+        wins = wins + case when v_black_score = 1 then 1 else 0 end,
+        draws = draws + case when v_black_score = 0.5 then 1 else 0 end,
+        losses = losses + case when v_black_score = 0 then 1 else 0 end,
+        provisional = games_played + 1 < 10
+    where season_id = v_season.id and user_id = v_match.black_player_id;
+
+    insert into public.chess_rating_history (
+      season_id, user_id, match_id, rating_before, rating_after, delta,
+      expected_score, actual_score
+    ) values
+      (
+        v_season.id, v_match.white_player_id, v_match.id, v_white.rating,
+        v_white_after, v_white_after - v_white.rating,
+        v_white_expected, v_white_score
+      ),
+      (
+        v_season.id, v_match.black_player_id, v_match.id, v_black.rating,
+        v_black_after, v_black_after - v_black.rating,
+        v_black_expected, v_black_score
+      );
+  end if;
+
+  v_event_revision := v_match.revision + 1;
+  update public.chess_matches
+  set status = 'completed',
+      result = p_result,
+      termination = left(trim(p_termination), 100),
+      revision = v_event_revision,
+      ended_at = now(),
+      verification_status = 'verified',
+      verification_reference = trim(p_verification_reference),
+      verified_at = now(),
+      rating_processed_at = case when rated then now() else null end
+  where id = v_match.id;
+
+  update public.chess_move_commands as pending_command
+  set status = 'superseded',
+      processed_at = now(),
+      rejection_reason = 'match finalized at authoritative revision'
+  where pending_command.match_id = v_match.id
+    and pending_command.expected_revision = p_expected_revision
+    and pending_command.status = 'pending';
+
+  update public.chess_rooms
+  set status = 'completed', closed_at = now(), revision = revision + 1
+  where id = v_match.room_id;
+  insert into public.chess_match_events (
+    match_id, revision, event_type, payload
+  ) values (
+    v_match.id,
+    v_event_revision,
+    'match_verified',
+    jsonb_build_object(
+      'result', p_result,
+      'termination', left(trim(p_termination), 100),
+      'verificationReference', trim(p_verification_reference),
+      'rated', v_match.rated,
+      'whiteRating', v_white_after,
+      'blackRating', v_black_after
+    )
+  );
+
+  perform public.apply_verified_game_progress_internal(
+    v_match.white_player_id, v_white_outcome, v_match.id
+  );
+  perform public.apply_verified_game_progress_internal(
+    v_match.black_player_id, v_black_outcome, v_match.id
+  );
+  return query select true, v_white_after, v_black_after;
+end;
+$$;
+
+revoke all on function public.finalize_chess_match_server(
+  uuid, text, text, text, bigint
+) from public, anon, authenticated;
+grant execute on function public.finalize_chess_match_server(
+  uuid, text, text, text, bigint
+) to service_role;
+
+create or replace function public.finalize_chess_timeout_server(
+  p_match_id uuid,
+  p_expected_revision bigint,
+  p_verification_reference text
+)
+returns table (
+  finalized boolean,
+  result text,
+  termination text,
+  white_rating integer,
+  black_rating integer,
+  server_now timestamptz
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_match public.chess_matches%rowtype;
+  v_clock_ms bigint;
+  v_elapsed_ms bigint;
+  v_result text;
+  v_termination text;
+  v_claimant_side text;
+  v_has_mating_material boolean;
+  v_finalization record;
+  v_white_after integer;
+  v_black_after integer;
+  v_now timestamptz;
+begin
+  if p_expected_revision is null or p_expected_revision < 0 then
+    raise exception 'EXPECTED_REVISION_REQUIRED' using errcode = '22023';
+  end if;
+  if p_verification_reference is null
+    or char_length(trim(p_verification_reference)) not between 8 and 300 then
+    raise exception 'AUTHORITATIVE_VERIFICATION_REQUIRED' using errcode = '22023';
+  end if;
+
+  select * into v_match
+  from public.chess_matches match_row
+  where match_row.id = p_match_id
+  for update;
+  if not found then
+    raise exception 'MATCH_NOT_FOUND' using errcode = 'P0002';
+  end if;
+  v_now := clock_timestamp();
+
+  if v_match.state ->> 'rulesetType' is distinct from 'standard' then
+    raise exception 'CUSTOM_RULES_VALIDATOR_NOT_AVAILABLE'
+      using errcode = '55000';
+  end if;
+
+  v_claimant_side := case v_match.side_to_move
+    when 'white' then 'black'
+    else 'white'
+  end;
+  v_has_mating_material := private.chess_timeout_has_mating_material(
+    v_match.current_fen,
+    v_claimant_side
+  );
+  if v_has_mating_material then
+    v_result := case v_claimant_side
+      when 'white' then '1-0'
+      else '0-1'
+    end;
+    v_termination := 'timeout';
+  else
+    v_result := '1/2-1/2';
+    v_termination := 'timeout-insufficient-material';
+  end if;
+
+  if v_match.status = 'completed' then
+    if v_match.result is distinct from v_result
+      or v_match.termination is distinct from v_termination
+      or v_match.verification_reference <> trim(p_verification_reference)
+      or v_match.revision <> p_expected_revision + 1 then
+      raise exception 'FINALIZATION_CONFLICT' using errcode = '55000';
+    end if;
+    if v_match.rated then
+      select rating into v_white_after
+      from public.chess_player_ratings
+      where season_id = v_match.season_id and user_id = v_match.white_player_id;
+      select rating into v_black_after
+      from public.chess_player_ratings
+      where season_id = v_match.season_id and user_id = v_match.black_player_id;
+    end if;
+    return query select false, v_match.result, v_match.termination,
+      v_white_after, v_black_after, v_now;
+    return;
+  end if;
+
+  if v_match.status <> 'active'
+    or v_match.revision <> p_expected_revision
+    or v_match.started_at is null then
+    raise exception 'STALE_MATCH_REVISION' using errcode = '40001';
+  end if;
+
+  v_clock_ms := case v_match.side_to_move
+    when 'white' then (v_match.clock_state ->> 'whiteMs')::bigint
+    else (v_match.clock_state ->> 'blackMs')::bigint
+  end;
+  if v_clock_ms is null or v_clock_ms < 0 then
+    raise exception 'INVALID_CLOCK_STATE' using errcode = '22023';
+  end if;
+
+  v_elapsed_ms := private.chess_clock_charged_ms(
+    v_match.clock_state,
+    greatest(
+      0,
+      floor(extract(epoch from (
+        v_now - coalesce(v_match.last_move_at, v_match.started_at)
+      )) * 1000)::bigint
+    )
+  );
+  if v_clock_ms - v_elapsed_ms > 0 then
+    raise exception 'CLOCK_NOT_EXPIRED' using errcode = '55000';
+  end if;
+
+  select * into v_finalization
+  from public.finalize_chess_match_server(
+    v_match.id,
+    v_result,
+    v_termination,
+    p_verification_reference,
+    p_expected_revision
+  );
+
+  return query select v_finalization.finalized, v_result, v_termination,
+    v_finalization.white_rating, v_finalization.black_rating, v_now;
+end;
+$$;
+
+revoke all on function public.finalize_chess_timeout_server(
+  uuid, bigint, text
+) from public, anon, authenticated;
+grant execute on function public.finalize_chess_timeout_server(
+  uuid, bigint, text
+) to service_role;
+
+create or replace function public.create_chess_room(
+  p_name text,
+  p_visibility text,
+  p_request_key uuid,
+  p_rule_version_ids uuid[] default '{}'::uuid[],
+  p_rated boolean default false,
+  p_initial_seconds integer default 600,
+  p_increment_seconds integer default 0,
+  p_owner_color text default 'random',
+  p_delay_seconds integer default 0,
+  p_delay_mode text default 'none'
+)
+returns table (
+  room_id uuid,
+  ruleset_hash text,
+  owner_color text,
+  status text
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_room public.chess_rooms%rowtype;
+  v_room_id uuid;
+  v_rule_count integer := coalesce(cardinality(p_rule_version_ids), 0);
+  v_accessible integer;
+  v_ruleset_type text;
+  v_ruleset_hash text;
+  v_owner_color text;
+  v_season_id uuid;
+  v_configuration jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_request_key is null then
+    raise exception 'REQUEST_KEY_REQUIRED' using errcode = '22023';
+  end if;
+  if p_name is null or char_length(trim(p_name)) not between 3 and 80 then
+    raise exception 'INVALID_ROOM_NAME' using errcode = '22023';
+  end if;
+  if p_visibility not in ('public', 'private', 'unlisted') then
+    raise exception 'INVALID_ROOM_VISIBILITY' using errcode = '22023';
+  end if;
+  if p_initial_seconds not between 30 and 604800
+    or p_increment_seconds not between 0 and 3600
+    or not private.chess_clock_delay_is_valid(p_delay_seconds, p_delay_mode) then
+    raise exception 'INVALID_TIME_CONTROL' using errcode = '22023';
+  end if;
+  if p_owner_color not in ('white', 'black', 'random') then
+    raise exception 'INVALID_OWNER_COLOR' using errcode = '22023';
+  end if;
+  if v_rule_count not between 0 and 8 then
+    raise exception 'INVALID_RULE_COUNT' using errcode = '22023';
+  end if;
+  if (
+    select count(distinct version_id)
+    from unnest(p_rule_version_ids) as version_id
+  ) <> v_rule_count then
+    raise exception 'DUPLICATE_RULE_VERSION' using errcode = '22023';
+  end if;
+
+  v_ruleset_type := case when v_rule_count = 0 then 'standard' else 'custom' end;
+  if p_rated and v_ruleset_type <> 'standard' then
+    raise exception 'CUSTOM_RULES_CANNOT_BE_RATED' using errcode = '22023';
+  end if;
+
+  if v_rule_count > 0 then
+    select count(*) into v_accessible
+    from unnest(p_rule_version_ids) as requested(version_id)
+    where public.can_read_rule_version(requested.version_id);
+    if v_accessible <> v_rule_count then
+      raise exception 'RULE_VERSION_NOT_ACCESSIBLE' using errcode = '42501';
+    end if;
+  end if;
+
+  if p_rated then
+    select season_row.id into v_season_id
+    from public.chess_rating_seasons season_row
+    where season_row.status = 'active'
+      and clock_timestamp() between season_row.starts_at and season_row.ends_at
+    limit 1;
+    if v_season_id is null then
+      raise exception 'NO_ACTIVE_RATING_SEASON' using errcode = '55000';
+    end if;
+  end if;
+
+  v_ruleset_hash := public.compute_chess_ruleset_hash(p_rule_version_ids);
+  v_owner_color := case
+    when p_owner_color in ('white', 'black') then p_owner_color
+    when get_byte(extensions.gen_random_bytes(1), 0) % 2 = 0 then 'white'
+    else 'black'
+  end;
+  v_configuration := jsonb_build_object(
+    'ruleVersionIds', to_jsonb(p_rule_version_ids),
+    'ownerColor', v_owner_color
+  );
+
+  select * into v_room
+  from public.chess_rooms
+  where owner_id = v_user_id and request_key = p_request_key
+  for update;
+
+  if found then
+    if v_room.name <> trim(p_name)
+      or v_room.visibility <> p_visibility
+      or v_room.rated <> p_rated
+      or v_room.initial_seconds <> p_initial_seconds
+      or v_room.increment_seconds <> p_increment_seconds
+      or v_room.delay_seconds <> p_delay_seconds
+      or v_room.delay_mode <> p_delay_mode
+      or v_room.ruleset_hash <> v_ruleset_hash
+      or coalesce(v_room.configuration -> 'ruleVersionIds', '[]'::jsonb)
+        <> to_jsonb(p_rule_version_ids) then
+      raise exception 'IDEMPOTENCY_KEY_REUSED' using errcode = '22023';
+    end if;
+    return query select v_room.id, v_room.ruleset_hash,
+      v_room.configuration ->> 'ownerColor', v_room.status;
+    return;
+  end if;
+
+  insert into public.chess_rooms (
+    owner_id, request_key, name, visibility, ruleset_type, ruleset_hash,
+    rated, season_id, initial_seconds, increment_seconds, delay_seconds,
+    delay_mode, configuration
+  ) values (
+    v_user_id, p_request_key, trim(p_name), p_visibility, v_ruleset_type,
+    v_ruleset_hash, p_rated, v_season_id, p_initial_seconds,
+    p_increment_seconds, p_delay_seconds, p_delay_mode, v_configuration
+  ) returning id into v_room_id;
+
+  insert into public.chess_room_members (
+    room_id, user_id, member_role, color
+  ) values (v_room_id, v_user_id, 'owner', v_owner_color);
+
+  if v_rule_count > 0 then
+    insert into public.chess_room_rule_versions (room_id, rule_version_id, ordinal)
+    select v_room_id, requested.version_id, requested.ordinal::smallint
+    from unnest(p_rule_version_ids)
+      with ordinality as requested(version_id, ordinal);
+  end if;
+
+  return query select v_room_id, v_ruleset_hash, v_owner_color, 'open'::text;
+end;
+$$;
+
+revoke all on function public.create_chess_room(
+  text, text, uuid, uuid[], boolean, integer, integer, text, integer, text
+) from public, anon, authenticated;
+grant execute on function public.create_chess_room(
+  text, text, uuid, uuid[], boolean, integer, integer, text, integer, text
+) to authenticated;
+
+create or replace function public.enqueue_chess_matchmaking(
+  p_request_key uuid,
+  p_rule_version_ids uuid[] default '{}'::uuid[],
+  p_rated boolean default false,
+  p_initial_seconds integer default 600,
+  p_increment_seconds integer default 0,
+  p_rating_window integer default 200,
+  p_delay_seconds integer default 0,
+  p_delay_mode text default 'none'
+)
+returns table (
+  ticket_id uuid,
+  ticket_status text,
+  room_id uuid,
+  match_id uuid
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing public.chess_matchmaking_tickets%rowtype;
+  v_candidate public.chess_matchmaking_tickets%rowtype;
+  v_ticket_id uuid;
+  v_room_id uuid;
+  v_match_id uuid;
+  v_rule_count integer := coalesce(cardinality(p_rule_version_ids), 0);
+  v_ruleset_type text;
+  v_ruleset_hash text;
+  v_season_id uuid;
+  v_rating integer := 1200;
+  v_initial_rating integer := 1200;
+  v_accessible integer;
+  v_candidate_color text;
+  v_user_color text;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if p_request_key is null then
+    raise exception 'REQUEST_KEY_REQUIRED' using errcode = '22023';
+  end if;
+  if v_rule_count not between 0 and 8
+    or p_initial_seconds not between 30 and 604800
+    or p_increment_seconds not between 0 and 3600
+    or not private.chess_clock_delay_is_valid(p_delay_seconds, p_delay_mode)
+    or p_rating_window not between 25 and 1000 then
+    raise exception 'INVALID_MATCHMAKING_PARAMETERS' using errcode = '22023';
+  end if;
+  if (
+    select count(distinct version_id)
+    from unnest(p_rule_version_ids) as version_id
+  ) <> v_rule_count then
+    raise exception 'DUPLICATE_RULE_VERSION' using errcode = '22023';
+  end if;
+
+  perform pg_catalog.pg_advisory_xact_lock(
+    pg_catalog.hashtextextended('chess-player:' || v_user_id::text, 0)
+  );
+
+  select * into v_existing
+  from public.chess_matchmaking_tickets ticket_row
+  where ticket_row.player_id = v_user_id
+    and ticket_row.request_key = p_request_key
+  for update;
+  if found then
+    return query select v_existing.id, v_existing.status,
+      v_existing.matched_room_id, v_existing.matched_match_id;
+    return;
+  end if;
+
+  v_ruleset_type := case when v_rule_count = 0 then 'standard' else 'custom' end;
+  if p_rated and v_ruleset_type <> 'standard' then
+    raise exception 'CUSTOM_RULES_CANNOT_BE_RATED' using errcode = '22023';
+  end if;
+  if v_rule_count > 0 then
+    select count(*) into v_accessible
+    from unnest(p_rule_version_ids) as requested(version_id)
+    where public.can_read_rule_version(requested.version_id);
+    if v_accessible <> v_rule_count then
+      raise exception 'RULE_VERSION_NOT_ACCESSIBLE' using errcode = '42501';
+    end if;
+  end if;
+
+  if p_rated then
+    select season_row.id, season_row.initial_rating
+      into v_season_id, v_initial_rating
+    from public.chess_rating_seasons season_row
+    where season_row.status = 'active'
+      and clock_timestamp() between season_row.starts_at and season_row.ends_at
+    limit 1;
+    if v_season_id is null then
+      raise exception 'NO_ACTIVE_RATING_SEASON' using errcode = '55000';
+    end if;
+    select coalesce(rating_row.rating, v_initial_rating) into v_rating
+    from (select 1) seed
+    left join public.chess_player_ratings rating_row
+      on rating_row.season_id = v_season_id
+      and rating_row.user_id = v_user_id;
+  end if;
+
+  v_ruleset_hash := public.compute_chess_ruleset_hash(p_rule_version_ids);
+  perform pg_catalog.pg_advisory_xact_lock(
+    pg_catalog.hashtextextended(
+      'chess-queue:' || v_ruleset_hash || ':' || p_rated::text || ':'
+      || p_initial_seconds::text || ':' || p_increment_seconds::text || ':'
+      || p_delay_seconds::text || ':' || p_delay_mode,
+      0
+    )
+  );
+
+  update public.chess_matchmaking_tickets
+  set status = case when expires_at <= clock_timestamp() then 'expired' else 'cancelled' end
+  where player_id = v_user_id and status = 'queued';
+  update public.chess_matchmaking_tickets
+  set status = 'expired'
+  where status = 'queued' and expires_at <= clock_timestamp();
+
+  select * into v_candidate
+  from public.chess_matchmaking_tickets ticket_row
+  where ticket_row.status = 'queued'
+    and ticket_row.player_id <> v_user_id
+    and ticket_row.ruleset_hash = v_ruleset_hash
+    and ticket_row.ruleset_type = v_ruleset_type
+    and ticket_row.rule_version_ids = p_rule_version_ids
+    and ticket_row.rated = p_rated
+    and ticket_row.season_id is not distinct from v_season_id
+    and ticket_row.initial_seconds = p_initial_seconds
+    and ticket_row.increment_seconds = p_increment_seconds
+    and ticket_row.delay_seconds = p_delay_seconds
+    and ticket_row.delay_mode = p_delay_mode
+    and abs(ticket_row.player_rating - v_rating)
+      <= least(ticket_row.rating_window, p_rating_window)
+    and ticket_row.expires_at > clock_timestamp()
+  order by ticket_row.created_at
+  limit 1
+  for update skip locked;
+
+  if not found then
+    insert into public.chess_matchmaking_tickets (
+      player_id, request_key, ruleset_type, ruleset_hash, rule_version_ids,
+      rated, season_id, player_rating, rating_window, initial_seconds,
+      increment_seconds, delay_seconds, delay_mode
+    ) values (
+      v_user_id, p_request_key, v_ruleset_type, v_ruleset_hash,
+      p_rule_version_ids, p_rated, v_season_id, v_rating, p_rating_window,
+      p_initial_seconds, p_increment_seconds, p_delay_seconds, p_delay_mode
+    ) returning id into v_ticket_id;
+    return query select v_ticket_id, 'queued'::text, null::uuid, null::uuid;
+    return;
+  end if;
+
+  v_room_id := gen_random_uuid();
+  v_candidate_color := case
+    when get_byte(extensions.gen_random_bytes(1), 0) % 2 = 0 then 'white'
+    else 'black'
+  end;
+  v_user_color := case v_candidate_color when 'white' then 'black' else 'white' end;
+
+  insert into public.chess_rooms (
+    id, owner_id, request_key, name, visibility, ruleset_type, ruleset_hash,
+    rated, season_id, initial_seconds, increment_seconds, delay_seconds,
+    delay_mode, configuration
+  ) values (
+    v_room_id, v_candidate.player_id, v_room_id,
+    'Partie rapide', 'unlisted', v_ruleset_type, v_ruleset_hash,
+    p_rated, v_season_id, p_initial_seconds, p_increment_seconds,
+    p_delay_seconds, p_delay_mode,
+    jsonb_build_object(
+      'source', 'matchmaking',
+      'ruleVersionIds', to_jsonb(p_rule_version_ids)
+    )
+  );
+  insert into public.chess_room_members (
+    room_id, user_id, member_role, color
+  ) values
+    (v_room_id, v_candidate.player_id, 'owner', v_candidate_color),
+    (v_room_id, v_user_id, 'player', v_user_color);
+  if v_rule_count > 0 then
+    insert into public.chess_room_rule_versions (room_id, rule_version_id, ordinal)
+    select v_room_id, requested.version_id, requested.ordinal::smallint
+    from unnest(p_rule_version_ids)
+      with ordinality as requested(version_id, ordinal);
+  end if;
+
+  v_match_id := public.create_chess_match_internal(v_room_id);
+  update public.chess_matchmaking_tickets
+  set status = 'matched', matched_room_id = v_room_id,
+      matched_match_id = v_match_id
+  where id = v_candidate.id;
+
+  insert into public.chess_matchmaking_tickets (
+    player_id, request_key, status, ruleset_type, ruleset_hash,
+    rule_version_ids, rated, season_id, player_rating, rating_window,
+    initial_seconds, increment_seconds, delay_seconds, delay_mode,
+    matched_room_id, matched_match_id
+  ) values (
+    v_user_id, p_request_key, 'matched', v_ruleset_type, v_ruleset_hash,
+    p_rule_version_ids, p_rated, v_season_id, v_rating, p_rating_window,
+    p_initial_seconds, p_increment_seconds, p_delay_seconds, p_delay_mode,
+    v_room_id, v_match_id
+  ) returning id into v_ticket_id;
+
+  return query select v_ticket_id, 'matched'::text, v_room_id, v_match_id;
+end;
+$$;
+
+revoke all on function public.enqueue_chess_matchmaking(
+  uuid, uuid[], boolean, integer, integer, integer, integer, text
+) from public, anon, authenticated;
+grant execute on function public.enqueue_chess_matchmaking(
+  uuid, uuid[], boolean, integer, integer, integer, integer, text
+) to authenticated;
+
+drop function if exists public.get_chess_leaderboard(uuid, text, integer);
+
+create or replace function public.get_chess_leaderboard(
+  p_season_id uuid default null,
+  p_limit integer default 100
+)
+returns table (
+  rank bigint,
+  user_id uuid,
+  rating integer,
+  games_played integer,
+  wins integer,
+  draws integer,
+  losses integer,
+  provisional boolean
+)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  v_season_id uuid := p_season_id;
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if v_season_id is null then
+    select season_row.id into v_season_id
+    from public.chess_rating_seasons season_row
+    where season_row.status in ('active', 'completed')
+    order by (season_row.status = 'active') desc, season_row.ends_at desc
+    limit 1;
+  end if;
+  if v_season_id is null then
+    return;
+  end if;
+  return query
+  select row_number() over (
+      order by rating_row.rating desc, rating_row.games_played desc,
+        rating_row.user_id
+    ),
+    rating_row.user_id, rating_row.rating, rating_row.games_played,
+    rating_row.wins, rating_row.draws, rating_row.losses,
+    rating_row.provisional
+  from public.chess_player_ratings rating_row
+  where rating_row.season_id = v_season_id
+  order by rating_row.rating desc, rating_row.games_played desc,
+    rating_row.user_id
+  limit least(greatest(coalesce(p_limit, 100), 1), 200);
+end;
+$$;
+
+revoke all on function public.get_chess_leaderboard(uuid, integer)
+  from public, anon, authenticated;
+grant execute on function public.get_chess_leaderboard(uuid, integer)
+  to authenticated;
+
+create or replace function public.list_live_chess_matches(
+  p_limit integer default 20
+)
+returns table (
+  match_id uuid,
+  room_id uuid,
+  room_name text,
+  white_player_id uuid,
+  black_player_id uuid,
+  white_rating integer,
+  black_rating integer,
+  rated boolean,
+  initial_seconds integer,
+  increment_seconds integer,
+  delay_seconds integer,
+  delay_mode text,
+  spectator_delay_seconds integer,
+  spectator_count integer,
+  started_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  v_season_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  select season_row.id into v_season_id
+  from public.chess_rating_seasons season_row
+  where season_row.status = 'active'
+  limit 1;
+
+  -- Strongest pairings first so leaderboard players are easy to find.
+  return query
+  select match_row.id, room_row.id, room_row.name,
+    match_row.white_player_id, match_row.black_player_id,
+    white_rating.rating, black_rating.rating, match_row.rated,
+    room_row.initial_seconds, room_row.increment_seconds,
+    room_row.delay_seconds, room_row.delay_mode,
+    room_row.spectator_delay_seconds,
+    private.chess_room_spectator_count(room_row.id),
+    match_row.started_at
+  from public.chess_matches match_row
+  join public.chess_rooms room_row on room_row.id = match_row.room_id
+  left join public.chess_player_ratings white_rating
+    on white_rating.season_id = v_season_id
+    and white_rating.user_id = match_row.white_player_id
+  left join public.chess_player_ratings black_rating
+    on black_rating.season_id = v_season_id
+    and black_rating.user_id = match_row.black_player_id
+  where match_row.status = 'active'
+    and room_row.visibility = 'public'
+    and room_row.allow_spectators
+  order by greatest(
+      coalesce(white_rating.rating, 0),
+      coalesce(black_rating.rating, 0)
+    ) desc,
+    match_row.started_at desc nulls last,
+    match_row.id
+  limit least(greatest(coalesce(p_limit, 20), 1), 50);
+end;
+$$;
+
+revoke all on function public.list_live_chess_matches(integer)
+  from public, anon, authenticated;
+grant execute on function public.list_live_chess_matches(integer)
+  to authenticated;
+
+drop function if exists private.chess_match_rating_after(uuid, uuid);
+drop function if exists private.chess_matchmaking_window(
+  integer, numeric, numeric, numeric
+);
+drop function if exists private.chess_rating_deviation_at(
+  numeric, numeric, timestamptz, timestamptz, numeric
+);
+drop function if exists private.chess_glicko2_update(
+  numeric, numeric, numeric, numeric, numeric, numeric, numeric
+);
+
+update public.chess_matchmaking_tickets
+set status = 'cancelled'
+where rated and ruleset_type <> 'standard' and status = 'queued';
+update public.chess_matchmaking_tickets
+set rated = false, season_id = null
+where rated and ruleset_type <> 'standard';
+update public.chess_rooms
+set rated = false, season_id = null
+where rated and ruleset_type <> 'standard';
+alter table public.chess_rooms
+  add check (not rated or ruleset_type = 'standard');
+alter table public.chess_matchmaking_tickets
+  add check (not rated or ruleset_type = 'standard');
+
+alter table public.chess_matchmaking_tickets
+  drop column if exists rating_deviation;
+
+alter table public.chess_rating_history
+  drop column if exists volatility_after,
+  drop column if exists deviation_after,
+  drop column if exists deviation_before,
+  drop column if exists pool;
+
+delete from public.chess_player_ratings rating_row
+using public.chess_player_ratings kept_row
+where kept_row.season_id = rating_row.season_id
+  and kept_row.user_id = rating_row.user_id
+  and kept_row.pool <> rating_row.pool
+  and (kept_row.games_played, kept_row.pool = 'blitz', kept_row.pool)
+    > (rating_row.games_played, rating_row.pool = 'blitz', rating_row.pool);
+
+drop index if exists public.chess_player_ratings_leaderboard_idx;
+alter table public.chess_player_ratings
+  drop constraint if exists chess_player_ratings_pkey;
+alter table public.chess_player_ratings
+  add constraint chess_player_ratings_pkey primary key (season_id, user_id);
+create index if not exists chess_player_ratings_leaderboard_idx
+  on public.chess_player_ratings (season_id, rating desc, games_played desc, user_id);
+alter table public.chess_player_ratings
+  drop constraint if exists chess_player_ratings_pool_check,
+  drop column if exists last_rated_at,
+  drop column if exists volatility,
+  drop column if exists rating_deviation,
+  drop column if exists pool;
+
+drop function if exists private.chess_room_rating_pool(uuid);
+drop function if exists private.chess_rating_pool(text, text, integer, integer);
+
+alter table public.chess_rating_seasons
+  drop column if exists glicko_tau,
+  drop column if exists initial_volatility,
+  drop column if exists initial_deviation;
+
+commit;
@@ -0,0 +1,5 @@
+begin;
+
+drop function if exists public.get_rule_lobby_blueprints_v2(uuid);
+
+commit;
@@ -0,0 +1,7 @@
+begin;
+
+drop function if exists public.upgrade_rule_lobby_version_server(uuid, uuid, uuid, uuid);
+drop function if exists public.rule_version_upgrade_is_breaking(jsonb, jsonb);
+drop function if exists public.get_rule_version_history_v2(text);
+
+commit;
@@ -0,0 +1,54 @@
+begin;
+
+drop view if exists public.tournament_overview;
+
+create view public.tournament_overview as
+select
+  t.id,
+  t.title,
+  t.description,
+  t.variant_name,
+  t.variant_source,
+  t.variant_rules,
+  t.variant_lobby_id,
+  t.starts_at,
+  t.ends_at,
+  t.status,
+  t.max_participants,
+  t.created_at,
+  t.updated_at,
+  coalesce(count(distinct tr.id), 0)::integer as player_count,
+  coalesce(count(distinct case when tm.status = 'active' then tm.id end), 0)::integer as active_match_count,
+  coalesce(count(distinct case when tm.status = 'completed' then tm.id end), 0)::integer as completed_match_count
+from public.tournaments t
+left join public.tournament_registrations tr on t.id = tr.tournament_id
+left join public.tournament_matches tm on t.id = tm.tournament_id
+group by t.id, t.title, t.description, t.variant_name, t.variant_source,
+         t.variant_rules, t.variant_lobby_id, t.starts_at, t.ends_at,
+         t.status, t.max_participants, t.created_at, t.updated_at;
+
+alter table public.tournament_registrations
+  drop column if exists eliminated_in_round,
+  drop column if exists sonneborn_berger,
+  drop column if exists buchholz,
+  drop column if exists seed,
+  alter column points type integer using floor(points)::integer;
+
+drop index if exists public.tournament_matches_round_slot_idx;
+
+alter table public.tournament_matches
+  drop constraint if exists tournament_matches_bye_check,
+  drop constraint if exists tournament_matches_bracket_check,
+  drop column if exists bracket_slot,
+  drop column if exists bracket,
+  drop column if exists is_bye;
+
+alter table public.tournaments
+  drop constraint if exists tournaments_current_round_check,
+  drop constraint if exists tournaments_round_count_check,
+  drop constraint if exists tournaments_format_check,
+  drop column if exists current_round,
+  drop column if exists round_count,
+  drop column if exists format;
+
+commit;
@@ -0,0 +1,36 @@
+begin;
+
+drop function if exists public.resolve_tournament_match_dispute_server(
+  uuid, boolean, text, uuid, text
+);
+drop trigger if exists chess_matches_record_tournament_result
+  on public.chess_matches;
+drop function if exists private.record_verified_tournament_result();
+drop function if exists public.create_tournament_chess_match_server(uuid);
+
+drop table if exists public.tournament_match_disputes;
+drop table if exists public.tournament_match_reports;
+
+drop trigger if exists tournament_registrations_protect_standings
+  on public.tournament_registrations;
+drop function if exists private.protect_tournament_standings();
+
+create policy "Players can update their matches"
+  on public.tournament_matches for update
+  using (auth.uid() = player1_id or auth.uid() = player2_id);
+
+drop index if exists public.tournament_matches_chess_match_idx;
+alter table public.tournament_matches
+  drop constraint if exists tournament_matches_result_source_check,
+  drop column if exists verified_at,
+  drop column if exists result_source,
+  drop column if exists chess_match_id;
+
+alter table public.tournaments
+  drop constraint if exists tournaments_time_control_check,
+  drop constraint if exists tournaments_rule_version_ids_check,
+  drop column if exists increment_seconds,
+  drop column if exists initial_seconds,
+  drop column if exists rule_version_ids;
+
+commit;
@@ -0,0 +1,8 @@
+begin;
+
+drop function if exists public.submit_personal_chess_puzzle(uuid, text[], integer);
+drop function if exists public.get_due_personal_chess_puzzles(integer);
+drop function if exists public.record_personal_chess_puzzles_server(uuid, text, jsonb);
+drop table if exists public.chess_personal_puzzles;
+
+commit;
@@ -0,0 +1,15 @@
+begin;
+
+drop function if exists public.get_chess_puzzle_rush_leaderboard(text, text, integer);
+drop function if exists public.finish_chess_puzzle_run(uuid);
+drop function if exists public.submit_chess_puzzle_run_move(uuid, text[]);
+drop function if exists public.start_chess_puzzle_run(text, text);
+drop function if exists public.get_chess_puzzle_run_state_internal(uuid);
+drop function if exists public.finish_chess_puzzle_run_internal(uuid);
+drop function if exists public.serve_chess_puzzle_run_puzzle_internal(uuid);
+drop table if exists public.chess_puzzle_run_attempts;
+drop table if exists public.chess_puzzle_runs;
+drop table if exists public.chess_player_puzzle_ratings;
+drop table if exists public.chess_training_puzzles;
+
+commit;
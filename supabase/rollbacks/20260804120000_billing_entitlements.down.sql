@@ -0,0 +1,9 @@
+begin;
+
+drop function if exists public.apply_stripe_entitlement_event_server(
+  text, text, timestamptz, uuid, text, text, text, text, text, timestamptz, boolean
+);
+drop table if exists public.billing_stripe_events;
+drop table if exists public.billing_entitlements;
+
+commit;
@@ -0,0 +1,325 @@
+begin;
+
+-- Matches go back to the standard start position and snapshots drop
+-- initial_fen; rooms pinning a custom board can no longer start a match
+-- that the move validator would accept.
+create or replace function public.create_chess_match_internal(
+  p_room_id uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_room public.chess_rooms%rowtype;
+  v_white uuid;
+  v_black uuid;
+  v_match_id uuid;
+  v_seed bigint;
+  v_rule_state_hash text;
+  v_position_hash text;
+  v_initial_fen constant text :=
+    'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+begin
+  select * into v_room
+  from public.chess_rooms
+  where id = p_room_id
+  for update;
+  if not found then
+    raise exception 'ROOM_NOT_FOUND' using errcode = 'P0002';
+  end if;
+
+  select match_row.id into v_match_id
+  from public.chess_matches match_row
+  where match_row.room_id = p_room_id;
+  if v_match_id is not null then
+    return v_match_id;
+  end if;
+  if v_room.status <> 'open' then
+    raise exception 'ROOM_NOT_OPEN' using errcode = '55000';
+  end if;
+
+  select member_row.user_id into v_white
+  from public.chess_room_members member_row
+  where member_row.room_id = p_room_id
+    and member_row.membership_status = 'active'
+    and member_row.color = 'white';
+  select member_row.user_id into v_black
+  from public.chess_room_members member_row
+  where member_row.room_id = p_room_id
+    and member_row.membership_status = 'active'
+    and member_row.color = 'black';
+  if v_white is null or v_black is null then
+    raise exception 'ROOM_NEEDS_TWO_PLAYERS' using errcode = '55000';
+  end if;
+
+  v_seed := (
+    'x' || substr(encode(extensions.gen_random_bytes(8), 'hex'), 1, 13)
+  )::bit(52)::bigint;
+  v_rule_state_hash := encode(
+    extensions.digest(
+      convert_to(
+        v_initial_fen || ':' || v_room.ruleset_hash || ':' || v_seed::text,
+        'UTF8'
+      ),
+      'sha256'
+    ),
+    'hex'
+  );
+  v_position_hash := encode(
+    extensions.digest(convert_to(v_initial_fen, 'UTF8'), 'sha256'),
+    'hex'
+  );
+
+  insert into public.chess_matches (
+    room_id, white_player_id, black_player_id, status, rated, season_id,
+    ruleset_hash, engine_version, shared_seed, initial_fen, current_fen,
+    clock_state, state, rule_state_hash, position_hash, started_at
+  ) values (
+    p_room_id, v_white, v_black, 'active', v_room.rated, v_room.season_id,
+    v_room.ruleset_hash, v_room.engine_version, v_seed, v_initial_fen,
+    v_initial_fen,
+    private.chess_room_initial_clock_state(p_room_id),
+    jsonb_build_object(
+      'rulesetType', v_room.ruleset_type,
+      'rulesetHash', v_room.ruleset_hash,
+      'engineVersion', v_room.engine_version,
+      'ruleStateHash', v_rule_state_hash
+    ),
+    v_rule_state_hash,
+    v_position_hash,
+    now()
+  ) returning id into v_match_id;
+
+  insert into public.chess_match_events (
+    match_id, revision, event_type, payload
+  ) values (
+    v_match_id,
+    0,
+    'match_started',
+    jsonb_build_object(
+      'whitePlayerId', v_white,
+      'blackPlayerId', v_black,
+      'rulesetHash', v_room.ruleset_hash,
+      'sharedSeed', v_seed,
+      'ruleStateHash', v_rule_state_hash,
+      'positionHash', v_position_hash,
+      'engineVersion', v_room.engine_version
+    )
+  );
+
+  update public.chess_rooms
+  set status = 'in_game', started_at = now(), revision = revision + 1
+  where id = p_room_id;
+
+  return v_match_id;
+end;
+$$;
+
+revoke all on function public.create_chess_match_internal(uuid)
+  from public, anon, authenticated;
+
+drop function if exists public.get_chess_match_snapshot(uuid);
+
+create or replace function public.get_chess_match_snapshot(
+  p_match_id uuid
+)
+returns table (
+  match_id uuid,
+  room_id uuid,
+  match_status text,
+  white_player_id uuid,
+  black_player_id uuid,
+  ruleset_hash text,
+  shared_seed bigint,
+  engine_version text,
+  current_fen text,
+  position_hash text,
+  rule_state jsonb,
+  rule_state_hash text,
+  side_to_move text,
+  ply_count integer,
+  revision bigint,
+  event_sequence bigint,
+  command_sequence bigint,
+  clock_state jsonb,
+  server_now timestamptz,
+  turn_started_at timestamptz,
+  players_presence jsonb,
+  verification_status text,
+  rated boolean,
+  viewer_role text,
+  spectator_delay_seconds integer,
+  spectator_count integer
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_match public.chess_matches%rowtype;
+  v_event public.chess_match_events%rowtype;
+  v_delay integer;
+  v_visible bigint;
+  v_turn_started_at timestamptz;
+begin
+  if v_user_id is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '42501';
+  end if;
+  if not exists (
+    select 1
+    from public.chess_matches match_row
+    join public.chess_room_members member_row
+      on member_row.room_id = match_row.room_id
+    where match_row.id = p_match_id
+      and member_row.user_id = v_user_id
+      and member_row.membership_status = 'active'
+  ) then
+    raise exception 'MATCH_NOT_ACCESSIBLE' using errcode = '42501';
+  end if;
+
+  select * into v_match
+  from public.chess_matches
+  where id = p_match_id;
+  v_delay := private.chess_match_spectator_delay_seconds(p_match_id, v_user_id);
+  v_visible := private.chess_match_visible_revision(p_match_id, v_user_id);
+  v_turn_started_at := coalesce(v_match.last_move_at, v_match.started_at);
+
+  if v_visible < v_match.revision then
+    select count(*) filter (where event_row.event_type = 'move_committed')
+        - count(*) filter (where event_row.event_type = 'takeback_applied'),
+      coalesce(max((event_row.payload ->> 'commandSequence')::bigint), 0)
+      into v_match.ply_count, v_match.command_sequence
+    from public.chess_match_events event_row
+    where event_row.match_id = p_match_id
+      and event_row.revision <= v_visible;
+
+    select * into v_event
+    from public.chess_match_events event_row
+    where event_row.match_id = p_match_id
+      and event_row.revision <= v_visible
+      and event_row.event_type in ('move_committed', 'takeback_applied')
+    order by event_row.revision desc
+    limit 1;
+
+    if v_event.id is null then
+      select event_row.payload ->> 'positionHash',
+        event_row.payload ->> 'ruleStateHash'
+        into v_match.position_hash, v_match.rule_state_hash
+      from public.chess_match_events event_row
+      where event_row.match_id = p_match_id
+        and event_row.event_type = 'match_started';
+      v_match.current_fen := v_match.initial_fen;
+      v_match.side_to_move := 'white';
+      v_match.clock_state :=
+        private.chess_room_initial_clock_state(v_match.room_id);
+      v_turn_started_at := v_match.started_at;
+    else
+      v_match.current_fen := case v_event.event_type
+        when 'move_committed' then v_event.payload ->> 'fenAfter'
+        else v_event.payload ->> 'fen'
+      end;
+      v_match.side_to_move := case v_event.event_type
+        when 'move_committed' then v_event.payload ->> 'nextSide'
+        else v_event.payload ->> 'sideToMove'
+      end;
+      v_match.position_hash := v_event.payload ->> 'positionHash';
+      v_match.rule_state_hash := v_event.payload ->> 'ruleStateHash';
+      v_match.clock_state := v_event.payload -> 'clockState';
+      v_turn_started_at := (v_event.payload ->> 'turnStartedAt')::timestamptz;
+    end if;
+    if v_match.current_fen is null or v_match.position_hash is null
+      or v_match.rule_state_hash is null or v_match.clock_state is null then
+      raise exception 'MATCH_STATE_INTEGRITY_FAILED' using errcode = 'XX000';
+    end if;
+    v_match.revision := v_visible;
+    v_match.state := jsonb_set(
+      v_match.state,
+      '{ruleStateHash}',
+      to_jsonb(v_match.rule_state_hash),
+      true
+    );
+  end if;
+
+  -- Delayed viewers run on a shifted server clock so their clocks stay in
+  -- step with the position they are shown.
+  return query
+  select v_match.id, v_match.room_id, v_match.status,
+    v_match.white_player_id, v_match.black_player_id,
+    v_match.ruleset_hash, v_match.shared_seed, v_match.engine_version,
+    v_match.current_fen, v_match.position_hash, v_match.state,
+    v_match.rule_state_hash, v_match.side_to_move, v_match.ply_count,
+    v_match.revision, v_match.revision + 1,
+    v_match.command_sequence, v_match.clock_state,
+    clock_timestamp() - make_interval(secs => v_delay),
+    v_turn_started_at,
+    coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'userId', member_row.user_id,
+            'color', member_row.color,
+            'role', member_row.member_role,
+            'presence', member_row.presence_status,
+            'lastSeenAt', member_row.last_seen_at,
+            'lastSeenRevision', member_row.last_seen_revision,
+            'abandonmentRequestedAt', member_row.abandonment_requested_at
+          ) order by member_row.color nulls last, member_row.user_id
+        )
+        from public.chess_room_members member_row
+        where member_row.room_id = v_match.room_id
+          and member_row.membership_status = 'active'
+          and member_row.member_role in ('owner', 'player')
+      ),
+      '[]'::jsonb
+    ),
+    v_match.verification_status,
+    v_match.rated,
+    case
+      when v_user_id in (v_match.white_player_id, v_match.black_player_id)
+        then 'player'
+      else 'spectator'
+    end,
+    v_delay,
+    private.chess_room_spectator_count(v_match.room_id);
+end;
+$$;
+
+revoke all on function public.get_chess_match_snapshot(uuid)
+  from public, anon, authenticated;
+grant execute on function public.get_chess_match_snapshot(uuid)
+  to authenticated;
+
+-- Lobby upgrades stop looking at the board.
+create or replace function public.rule_version_upgrade_is_breaking(
+  p_from jsonb,
+  p_to jsonb
+)
+returns boolean
+language sql
+immutable
+set search_path = ''
+as $$
+  select p_to -> 'schemaVersion' is distinct from p_from -> 'schemaVersion'
+    or p_to -> 'ruleKey' is distinct from p_from -> 'ruleKey'
+    or p_to -> 'stateNamespace' is distinct from p_from -> 'stateNamespace'
+    or p_to -> 'initialStateJson' is distinct from p_from -> 'initialStateJson'
+    or exists (
+      select 1
+      from jsonb_array_elements(p_from -> 'actions') previous
+      where not exists (
+        select 1
+        from jsonb_array_elements(p_to -> 'actions') next
+        where next ->> 'id' = previous ->> 'id'
+      )
+    );
+$$;
+
+revoke all on function public.rule_version_upgrade_is_breaking(jsonb, jsonb)
+  from public, anon, authenticated;
+
+notify pgrst, 'reload schema';
+
+commit;
@@ -0,0 +1,142 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('fa000000-0000-4000-8000-000000000001'),
+  ('fa000000-0000-4000-8000-000000000002')
+on conflict (id) do nothing;
+
+do $billing_checkout_then_updates$
+declare
+  v_applied boolean;
+  v_row public.billing_entitlements%rowtype;
+begin
+  v_applied := public.apply_stripe_entitlement_event_server(
+    'evt_testcheckout01', 'checkout.session.completed',
+    '2026-10-01 10:00:00+00', 'fa000000-0000-4000-8000-000000000001',
+    'cus_testbilling01', 'sub_testbilling01', 'pro', 'active', 'monthly',
+    null, null
+  );
+  if not v_applied then
+    raise exception 'CHECKOUT_NOT_APPLIED';
+  end if;
+
+  -- Replaying the same delivery changes nothing.
+  if public.apply_stripe_entitlement_event_server(
+    'evt_testcheckout01', 'checkout.session.completed',
+    '2026-10-01 10:00:00+00', 'fa000000-0000-4000-8000-000000000001',
+    'cus_testbilling01', 'sub_testbilling01', 'starter', 'active', 'monthly',
+    null, null
+  ) then
+    raise exception 'REPLAY_APPLIED';
+  end if;
+
+  -- Found again by subscription id, without a user id.
+  perform public.apply_stripe_entitlement_event_server(
+    'evt_testsubupdate01', 'customer.subscription.updated',
+    '2026-10-01 10:00:05+00', null, 'cus_testbilling01', 'sub_testbilling01',
+    'pro', 'active', 'yearly', '2027-10-01 10:00:00+00', true
+  );
+  -- An older, late delivery is recorded but ignored.
+  if public.apply_stripe_entitlement_event_server(
+    'evt_testsubupdate00', 'customer.subscription.updated',
+    '2026-10-01 09:59:00+00', null, 'cus_testbilling01', 'sub_testbilling01',
+    'starter', 'incomplete', 'monthly', null, false
+  ) then
+    raise exception 'STALE_EVENT_APPLIED';
+  end if;
+  -- A failed invoice only moves the status.
+  perform public.apply_stripe_entitlement_event_server(
+    'evt_testinvoice01', 'invoice.payment_failed',
+    '2026-10-02 10:00:00+00', null, 'cus_testbilling01', 'sub_testbilling01',
+    null, 'past_due', null, null, null
+  );
+
+  select * into v_row
+  from public.billing_entitlements
+  where user_id = 'fa000000-0000-4000-8000-000000000001';
+  if v_row.plan <> 'pro' or v_row.status <> 'past_due'
+    or v_row.billing_interval <> 'yearly' or not v_row.cancel_at_period_end
+    or v_row.current_period_end <> '2027-10-01 10:00:00+00' then
+    raise exception 'ENTITLEMENT_NOT_MERGED';
+  end if;
+
+  if (select count(*) from public.billing_stripe_events
+      where user_id = 'fa000000-0000-4000-8000-000000000001') <> 4 then
+    raise exception 'STRIPE_EVENTS_NOT_RECORDED';
+  end if;
+
+  -- An event for an unknown customer is recorded without an entitlement.
+  if public.apply_stripe_entitlement_event_server(
+    'evt_testorphan01', 'customer.subscription.deleted',
+    '2026-10-03 10:00:00+00', null, 'cus_testunknown01', 'sub_testunknown01',
+    'freemium', 'canceled', null, null, false
+  ) then
+    raise exception 'ORPHAN_EVENT_APPLIED';
+  end if;
+end;
+$billing_checkout_then_updates$;
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'fa000000-0000-4000-8000-000000000002',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $billing_client_access$
+begin
+  if exists (select 1 from public.billing_entitlements) then
+    raise exception 'FOREIGN_ENTITLEMENT_VISIBLE';
+  end if;
+
+  begin
+    perform 1 from public.billing_stripe_events;
+    raise exception 'STRIPE_EVENTS_READABLE';
+  exception
+    when insufficient_privilege then
+      null;
+  end;
+
+  begin
+    perform public.apply_stripe_entitlement_event_server(
+      'evt_testforged01', 'checkout.session.completed', now(),
+      'fa000000-0000-4000-8000-000000000002', null, null, 'club', 'active',
+      null, null, null
+    );
+    raise exception 'CLIENT_GRANTED_ITSELF_A_PLAN';
+  exception
+    when insufficient_privilege then
+      null;
+  end;
+
+  begin
+    insert into public.billing_entitlements (user_id, plan)
+    values ('fa000000-0000-4000-8000-000000000002', 'club');
+    raise exception 'CLIENT_WROTE_ENTITLEMENT';
+  exception
+    when insufficient_privilege then
+      null;
+  end;
+end;
+$billing_client_access$;
+
+select set_config(
+  'request.jwt.claim.sub',
+  'fa000000-0000-4000-8000-000000000001',
+  true
+);
+
+do $billing_own_row$
+begin
+  if not exists (
+    select 1 from public.billing_entitlements
+    where user_id = 'fa000000-0000-4000-8000-000000000001' and plan = 'pro'
+  ) then
+    raise exception 'OWN_ENTITLEMENT_HIDDEN';
+  end if;
+end;
+$billing_own_row$;
+
+rollback;
@@ -0,0 +1,262 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('fb000000-0000-4000-8000-000000000001'),
+  ('fb000000-0000-4000-8000-000000000002')
+on conflict (id) do nothing;
+
+insert into public.rule_compilations (
+  id, user_id, prompt, prompt_hash, model, status, blueprint,
+  compiled_rule, metrics, content_hash, request_key
+) values (
+  'fb000000-0000-4000-8000-000000000300',
+  'fb000000-0000-4000-8000-000000000001',
+  'Board geometry SQL test',
+  repeat('a', 64),
+  'test-model',
+  'validated',
+  '{"actions":[{"id":"test-action"}]}'::jsonb,
+  '{}'::jsonb,
+  $json$
+    {
+      "coverageContractVersion": 1,
+      "intentContract": {
+        "version": 1,
+        "originalPrompt": "[redacted]",
+        "originalPromptHash": "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+        "requirements": [
+          {
+            "id": "test-action",
+            "statement": "The rule exposes one deterministic test action.",
+            "importance": "core",
+            "feasibility": "direct",
+            "approvedAdaptation": ""
+          },
+          {
+            "id": "request-fidelity",
+            "statement": "Every signed clause is represented by compiled logic.",
+            "importance": "core",
+            "feasibility": "direct",
+            "approvedAdaptation": ""
+          }
+        ],
+        "decisions": []
+      },
+      "coverage": {
+        "complete": true,
+        "exactIntentPreserved": true,
+        "score": 100,
+        "summary": "The deterministic test action is implemented.",
+        "requirements": [
+          {
+            "id": "test-action",
+            "status": "implemented",
+            "evidencePaths": ["$.actions[0]"],
+            "explanation": "The first action provides the required behavior.",
+            "adaptation": "",
+            "userApproved": false
+          },
+          {
+            "id": "request-fidelity",
+            "status": "implemented",
+            "evidencePaths": ["$.actions[0]"],
+            "explanation": "The compiled action represents every signed clause.",
+            "adaptation": "",
+            "userApproved": false
+          }
+        ]
+      }
+    }
+  $json$::jsonb,
+  repeat('c', 64),
+  'fb000000-0000-4000-8000-000000000301'
+);
+insert into public.rule_blueprints (
+  id, owner_id, rule_key, title, description, category, visibility
+) values (
+  'fb000000-0000-4000-8000-000000000302',
+  'fb000000-0000-4000-8000-000000000001',
+  'board-geometry-test',
+  'Board geometry test',
+  'Rule version used only to verify variant start positions.',
+  'test',
+  'public'
+);
+insert into public.rule_versions (
+  id, blueprint_id, compilation_id, version_number, schema_version,
+  engine_version, legacy_rule_id, blueprint_json, rule_json,
+  content_hash, visibility, validation, created_by
+) values (
+  'fb000000-0000-4000-8000-000000000303',
+  'fb000000-0000-4000-8000-000000000302',
+  'fb000000-0000-4000-8000-000000000300',
+  1,
+  '2.0.0',
+  '2.0.0',
+  'board-geometry-test-v1',
+  '{"actions":[{"id":"test-action"}]}'::jsonb,
+  '{"board":{"files":6,"ranks":6,"holes":[],"wrapFiles":false,"backRank":["rook","knight","queen","king","knight","rook"],"startFen":"rnqknr/pppppp/6/6/PPPPPP/RNQKNR w - - 0 1"}}'::jsonb,
+  repeat('c', 64),
+  'public',
+  $json$
+    {
+      "metrics": {
+        "coverageContractVersion": 1,
+        "intentContract": {
+          "version": 1,
+          "originalPrompt": "[redacted]",
+          "originalPromptHash": "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+          "requirements": [
+            {
+              "id": "test-action",
+              "statement": "The rule exposes one deterministic test action.",
+              "importance": "core",
+              "feasibility": "direct",
+              "approvedAdaptation": ""
+            },
+            {
+              "id": "request-fidelity",
+              "statement": "Every signed clause is represented by compiled logic.",
+              "importance": "core",
+              "feasibility": "direct",
+              "approvedAdaptation": ""
+            }
+          ],
+          "decisions": []
+        },
+        "coverage": {
+          "complete": true,
+          "exactIntentPreserved": true,
+          "score": 100,
+          "summary": "The deterministic test action is implemented.",
+          "requirements": [
+            {
+              "id": "test-action",
+              "status": "implemented",
+              "evidencePaths": ["$.actions[0]"],
+              "explanation": "The first action provides the required behavior.",
+              "adaptation": "",
+              "userApproved": false
+            },
+            {
+              "id": "request-fidelity",
+              "status": "implemented",
+              "evidencePaths": ["$.actions[0]"],
+              "explanation": "The compiled action represents every signed clause.",
+              "adaptation": "",
+              "userApproved": false
+            }
+          ]
+        }
+      }
+    }
+  $json$::jsonb,
+  'fb000000-0000-4000-8000-000000000001'
+);
+update public.rule_blueprints
+set current_version_id = 'fb000000-0000-4000-8000-000000000303'
+where id = 'fb000000-0000-4000-8000-000000000302';
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'fb000000-0000-4000-8000-000000000001',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $board_geometry_tests$
+declare
+  v_standard_room uuid;
+  v_custom_room uuid;
+  v_standard_match uuid;
+  v_custom_match uuid;
+  v_initial_fen text;
+  v_current_fen text;
+  v_los_alamos constant text := 'rnqknr/pppppp/6/6/PPPPPP/RNQKNR w - - 0 1';
+begin
+  select created.room_id into v_standard_room
+  from public.create_chess_room(
+    'Board geometry standard control',
+    'public',
+    'fb000000-0000-4000-8000-000000000100',
+    '{}'::uuid[],
+    false,
+    600,
+    0,
+    'white'
+  ) created;
+  select created.room_id into v_custom_room
+  from public.create_chess_room(
+    'Board geometry Los Alamos room',
+    'public',
+    'fb000000-0000-4000-8000-000000000101',
+    array['fb000000-0000-4000-8000-000000000303'::uuid],
+    false,
+    600,
+    0,
+    'white'
+  ) created;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'fb000000-0000-4000-8000-000000000002',
+    true
+  );
+  perform public.join_chess_room(v_standard_room, null);
+  perform public.join_chess_room(v_custom_room, null);
+
+  select match_row.id into v_standard_match
+  from public.chess_matches match_row
+  where match_row.room_id = v_standard_room;
+  select match_row.id into v_custom_match
+  from public.chess_matches match_row
+  where match_row.room_id = v_custom_room;
+
+  select snapshot.initial_fen, snapshot.current_fen
+    into v_initial_fen, v_current_fen
+  from public.get_chess_match_snapshot(v_standard_match) snapshot;
+  if v_initial_fen <> 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+    or v_current_fen <> v_initial_fen then
+    raise exception 'STANDARD_START_FEN_CHANGED';
+  end if;
+
+  select snapshot.initial_fen, snapshot.current_fen
+    into v_initial_fen, v_current_fen
+  from public.get_chess_match_snapshot(v_custom_match) snapshot;
+  if v_initial_fen <> v_los_alamos or v_current_fen <> v_los_alamos then
+    raise exception 'VARIANT_START_FEN_IGNORED';
+  end if;
+
+  if (
+    select event_row.payload ->> 'positionHash'
+    from public.chess_match_events event_row
+    where event_row.match_id = v_custom_match
+      and event_row.event_type = 'match_started'
+  ) <> encode(
+    extensions.digest(convert_to(v_los_alamos, 'UTF8'), 'sha256'),
+    'hex'
+  ) then
+    raise exception 'VARIANT_GENESIS_HASH_INVALID';
+  end if;
+
+  if not public.rule_version_upgrade_is_breaking(
+    '{"actions":[]}'::jsonb,
+    '{"actions":[],"board":{"files":6,"ranks":6,"holes":[]}}'::jsonb
+  ) or not public.rule_version_upgrade_is_breaking(
+    '{"actions":[],"board":{"files":6,"ranks":6,"holes":[]}}'::jsonb,
+    '{"actions":[],"board":{"files":6,"ranks":6,"holes":["c3"]}}'::jsonb
+  ) then
+    raise exception 'BOARD_CHANGE_UPGRADE_ALLOWED';
+  end if;
+  if public.rule_version_upgrade_is_breaking(
+    '{"actions":[],"board":{"files":6,"ranks":6,"holes":[]}}'::jsonb,
+    '{"actions":[],"board":{"files":6,"ranks":6,"holes":[]}}'::jsonb
+  ) then
+    raise exception 'SAME_BOARD_UPGRADE_REFUSED';
+  end if;
+end;
+$board_geometry_tests$;
+
+rollback;
@@ -0,0 +1,186 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('f2000000-0000-4000-8000-000000000001'),
+  ('f2000000-0000-4000-8000-000000000002'),
+  ('f2000000-0000-4000-8000-000000000003')
+on conflict (id) do nothing;
+
+do $clock_delay_helper_tests$
+begin
+  if private.chess_clock_charged_ms(
+    '{"delayMs": 5000, "delayMode": "simple"}'::jsonb, 3000
+  ) <> 0
+  or private.chess_clock_charged_ms(
+    '{"delayMs": 5000, "delayMode": "simple"}'::jsonb, 7000
+  ) <> 2000
+  or private.chess_clock_charged_ms(
+    '{"delayMs": 5000, "delayMode": "bronstein"}'::jsonb, 3000
+  ) <> 3000
+  or private.chess_clock_charged_ms('{}'::jsonb, 3000) <> 3000 then
+    raise exception 'CLOCK_DELAY_CHARGE_INVALID';
+  end if;
+  if private.chess_clock_delay_is_valid(3, 'none')
+    or private.chess_clock_delay_is_valid(0, 'simple')
+    or private.chess_clock_delay_is_valid(301, 'bronstein')
+    or private.chess_clock_delay_is_valid(null, 'none')
+    or not private.chess_clock_delay_is_valid(3, 'bronstein') then
+    raise exception 'CLOCK_DELAY_VALIDATION_INVALID';
+  end if;
+end;
+$clock_delay_helper_tests$;
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f2000000-0000-4000-8000-000000000001',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $clock_delay_room_tests$
+declare
+  v_room uuid;
+  v_status text;
+  v_match uuid;
+begin
+  begin
+    perform public.create_chess_room(
+      'Invalid delay room',
+      'public',
+      'f2000000-0000-4000-8000-000000000100',
+      '{}'::uuid[],
+      false,
+      300,
+      0,
+      'white',
+      3,
+      'none'
+    );
+    raise exception 'DELAY_WITHOUT_MODE_ACCEPTED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%INVALID_TIME_CONTROL%' then
+        raise;
+      end if;
+  end;
+
+  select created.room_id into v_room
+  from public.create_chess_room(
+    'Bronstein room',
+    'public',
+    'f2000000-0000-4000-8000-000000000101',
+    '{}'::uuid[],
+    false,
+    300,
+    2,
+    'white',
+    3,
+    'bronstein'
+  ) created;
+  begin
+    perform public.create_chess_room(
+      'Bronstein room',
+      'public',
+      'f2000000-0000-4000-8000-000000000101',
+      '{}'::uuid[],
+      false,
+      300,
+      2,
+      'white',
+      5,
+      'bronstein'
+    );
+    raise exception 'DELAY_IDEMPOTENCY_NOT_ENFORCED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%IDEMPOTENCY_KEY_REUSED%' then
+        raise;
+      end if;
+  end;
+  if not exists (
+    select 1
+    from public.list_open_chess_rooms(50) listed
+    where listed.room_id = v_room
+      and listed.delay_seconds = 3
+      and listed.delay_mode = 'bronstein'
+  ) then
+    raise exception 'ROOM_DELAY_NOT_LISTED';
+  end if;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f2000000-0000-4000-8000-000000000002',
+    true
+  );
+  perform public.join_chess_room(v_room, null);
+
+  -- Same base and increment, different delay: the tickets must not pair.
+  select queued.ticket_status into v_status
+  from public.enqueue_chess_matchmaking(
+    'f2000000-0000-4000-8000-000000000200',
+    '{}'::uuid[], false, 600, 0, 200, 5, 'simple'
+  ) queued;
+  if v_status <> 'queued' then
+    raise exception 'DELAY_TICKET_NOT_QUEUED';
+  end if;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f2000000-0000-4000-8000-000000000003',
+    true
+  );
+  select queued.ticket_status into v_status
+  from public.enqueue_chess_matchmaking(
+    'f2000000-0000-4000-8000-000000000201',
+    '{}'::uuid[], false, 600, 0, 200
+  ) queued;
+  if v_status <> 'queued' then
+    raise exception 'DELAY_BUCKETS_MERGED';
+  end if;
+
+  select queued.ticket_status, queued.match_id into v_status, v_match
+  from public.enqueue_chess_matchmaking(
+    'f2000000-0000-4000-8000-000000000202',
+    '{}'::uuid[], false, 600, 0, 200, 5, 'simple'
+  ) queued;
+  if v_status <> 'matched' or v_match is null then
+    raise exception 'DELAY_BUCKET_NOT_MATCHED';
+  end if;
+end;
+$clock_delay_room_tests$;
+
+reset role;
+
+do $clock_delay_match_tests$
+begin
+  if not exists (
+    select 1
+    from public.chess_matches match_row
+    join public.chess_rooms room_row on room_row.id = match_row.room_id
+    where room_row.name = 'Bronstein room'
+      and match_row.clock_state = jsonb_build_object(
+        'whiteMs', 300000,
+        'blackMs', 300000,
+        'incrementMs', 2000,
+        'delayMs', 3000,
+        'delayMode', 'bronstein'
+      )
+  ) then
+    raise exception 'MATCH_CLOCK_DELAY_MISSING';
+  end if;
+  if not exists (
+    select 1
+    from public.chess_matches match_row
+    join public.chess_rooms room_row on room_row.id = match_row.room_id
+    where room_row.name = 'Partie rapide'
+      and room_row.delay_mode = 'simple'
+      and match_row.clock_state ->> 'delayMs' = '5000'
+  ) then
+    raise exception 'MATCHMAKING_CLOCK_DELAY_MISSING';
+  end if;
+end;
+$clock_delay_match_tests$;
+
+rollback;
@@ -0,0 +1,201 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('f1000000-0000-4000-8000-000000000001'),
+  ('f1000000-0000-4000-8000-000000000002'),
+  ('f1000000-0000-4000-8000-000000000003')
+on conflict (id) do nothing;
+
+do $draw_catalog_tests$
+begin
+  if not has_function_privilege(
+    'authenticated',
+    'public.submit_chess_draw_command(uuid,bigint,uuid,text)',
+    'EXECUTE'
+  ) or has_function_privilege(
+    'anon',
+    'public.submit_chess_draw_command(uuid,bigint,uuid,text)',
+    'EXECUTE'
+  ) then
+    raise exception 'DRAW_COMMAND_ACL_INVALID';
+  end if;
+  if has_table_privilege(
+    'authenticated',
+    'public.chess_match_draw_commands',
+    'INSERT'
+  ) then
+    raise exception 'DRAW_COMMANDS_WRITABLE_BY_CLIENTS';
+  end if;
+end;
+$draw_catalog_tests$;
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f1000000-0000-4000-8000-000000000001',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $draw_command_tests$
+declare
+  v_room uuid;
+  v_match uuid;
+  v_offer uuid;
+  v_offer_again uuid;
+  v_revision bigint;
+begin
+  select created.room_id into v_room
+  from public.create_chess_room(
+    'Draw offer room',
+    'public',
+    'f1000000-0000-4000-8000-000000000100',
+    '{}'::uuid[],
+    false,
+    600,
+    0,
+    'white'
+  ) created;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f1000000-0000-4000-8000-000000000002',
+    true
+  );
+  perform public.join_chess_room(v_room, null);
+
+  select match_row.id into v_match
+  from public.chess_matches match_row
+  where match_row.room_id = v_room;
+
+  -- Black offers while white is to move: the offer lapses at ply 1.
+  select command.command_id, command.authoritative_revision
+    into v_offer, v_revision
+  from public.submit_chess_draw_command(
+    v_match, 0, 'f1000000-0000-4000-8000-000000000200', 'offer'
+  ) command;
+  select command.command_id into v_offer_again
+  from public.submit_chess_draw_command(
+    v_match, 0, 'f1000000-0000-4000-8000-000000000200', 'offer'
+  ) command;
+  if v_offer is null or v_offer_again <> v_offer or v_revision <> 1 then
+    raise exception 'DRAW_OFFER_IDEMPOTENCY_FAILED';
+  end if;
+  if not exists (
+    select 1
+    from public.chess_match_events event_row
+    where event_row.match_id = v_match
+      and event_row.revision = 1
+      and event_row.event_type = 'draw_offered'
+      and event_row.payload ->> 'side' = 'black'
+      and (event_row.payload ->> 'expiresAtPly')::integer = 1
+  ) then
+    raise exception 'DRAW_OFFER_EVENT_MISSING';
+  end if;
+
+  begin
+    perform public.submit_chess_draw_command(
+      v_match, 1, 'f1000000-0000-4000-8000-000000000201', 'accept'
+    );
+    raise exception 'OFFERER_ACCEPTED_OWN_DRAW';
+  exception
+    when no_data_found then
+      if sqlerrm not like '%DRAW_OFFER_NOT_FOUND%' then
+        raise;
+      end if;
+  end;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f1000000-0000-4000-8000-000000000003',
+    true
+  );
+  begin
+    perform public.submit_chess_draw_command(
+      v_match, 1, 'f1000000-0000-4000-8000-000000000202', 'accept'
+    );
+    raise exception 'OUTSIDER_ACCEPTED_DRAW';
+  exception
+    when insufficient_privilege then
+      if sqlerrm not like '%MATCH_PARTICIPANT_REQUIRED%' then
+        raise;
+      end if;
+  end;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f1000000-0000-4000-8000-000000000001',
+    true
+  );
+  begin
+    perform public.submit_chess_draw_command(
+      v_match, 1, 'f1000000-0000-4000-8000-000000000203', 'offer'
+    );
+    raise exception 'SECOND_PENDING_DRAW_OFFER_ACCEPTED';
+  exception
+    when object_not_in_prerequisite_state then
+      if sqlerrm not like '%DRAW_OFFER_PENDING%' then
+        raise;
+      end if;
+  end;
+
+  select command.authoritative_revision into v_revision
+  from public.submit_chess_draw_command(
+    v_match, 1, 'f1000000-0000-4000-8000-000000000204', 'decline'
+  ) command;
+  if v_revision <> 2 then
+    raise exception 'DRAW_DECLINE_REVISION_INVALID';
+  end if;
+
+  -- White may now offer once at this ply; black accepts it.
+  perform public.submit_chess_draw_command(
+    v_match, 2, 'f1000000-0000-4000-8000-000000000205', 'offer'
+  );
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f1000000-0000-4000-8000-000000000002',
+    true
+  );
+  begin
+    perform public.submit_chess_draw_command(
+      v_match, 3, 'f1000000-0000-4000-8000-000000000206', 'offer'
+    );
+    raise exception 'SECOND_PENDING_DRAW_OFFER_ACCEPTED';
+  exception
+    when object_not_in_prerequisite_state then
+      if sqlerrm not like '%DRAW_OFFER_PENDING%' then
+        raise;
+      end if;
+  end;
+  select command.authoritative_revision into v_revision
+  from public.submit_chess_draw_command(
+    v_match, 3, 'f1000000-0000-4000-8000-000000000207', 'accept'
+  ) command;
+  if v_revision <> 4 then
+    raise exception 'DRAW_ACCEPT_REVISION_INVALID';
+  end if;
+end;
+$draw_command_tests$;
+
+reset role;
+
+do $draw_finalization_tests$
+begin
+  if not exists (
+    select 1
+    from public.chess_matches match_row
+    join public.chess_rooms room_row on room_row.id = match_row.room_id
+    where room_row.name = 'Draw offer room'
+      and match_row.status = 'completed'
+      and match_row.result = '1/2-1/2'
+      and match_row.termination = 'draw-agreement'
+      and match_row.revision = 4
+      and match_row.verification_reference like 'player-draw-agreement-v1:%'
+  ) then
+    raise exception 'DRAW_AGREEMENT_NOT_FINALIZED';
+  end if;
+end;
+$draw_finalization_tests$;
+
+rollback;
@@ -0,0 +1,213 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('f4000000-0000-4000-8000-000000000001'),
+  ('f4000000-0000-4000-8000-000000000002')
+on conflict (id) do nothing;
+
+update public.chess_rating_seasons
+set status = 'completed'
+where status = 'active';
+insert into public.chess_rating_seasons (
+  id, slug, name, status, starts_at, ends_at, initial_rating
+)
+values (
+  'f4000000-0000-4000-8000-000000000010',
+  'glicko-test-season',
+  'Glicko test season',
+  'active',
+  now() - interval '1 day',
+  now() + interval '1 day',
+  1500
+);
+
+do $glicko2_helper_tests$
+declare
+  v_update record;
+begin
+  -- Reference values from Glickman's worked example, one game per period.
+  select * into v_update
+  from private.chess_glicko2_update(1500, 200, 0.06, 1400, 30, 1, 0.5);
+  if abs(v_update.rating - 1563.564) > 0.01
+    or abs(v_update.deviation - 175.403) > 0.01
+    or abs(v_update.volatility - 0.0599987) > 0.000001
+    or abs(v_update.expected_score - 0.63947) > 0.00001 then
+    raise exception 'GLICKO2_UPDATE_INVALID: %', row_to_json(v_update);
+  end if;
+
+  select * into v_update
+  from private.chess_glicko2_update(1500, 350, 0.06, 1500, 350, 0.5, 0.5);
+  if abs(v_update.rating - 1500) > 0.001 or v_update.deviation >= 350 then
+    raise exception 'GLICKO2_DRAW_INVALID: %', row_to_json(v_update);
+  end if;
+
+  begin
+    perform private.chess_glicko2_update(1500, 350, 0.06, 1500, 350, 0.7, 0.5);
+    raise exception 'GLICKO2_PARTIAL_SCORE_ACCEPTED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%INVALID_GLICKO2_INPUT%' then
+        raise;
+      end if;
+  end;
+
+  if abs(private.chess_rating_deviation_at(
+      50, 0.06, now() - interval '100 days', now(), 350
+    ) - 115.60) > 0.01
+    or private.chess_rating_deviation_at(
+      300, 0.06, now() - interval '3 years', now(), 350
+    ) <> 350
+    or private.chess_rating_deviation_at(80, 0.06, null, now(), 350) <> 80 then
+    raise exception 'RATING_DEVIATION_DECAY_INVALID';
+  end if;
+
+  if private.chess_rating_pool('standard', 'x', 60, 1) <> 'bullet'
+    or private.chess_rating_pool('standard', 'x', 180, 0) <> 'blitz'
+    or private.chess_rating_pool('standard', 'x', 300, 5) <> 'blitz'
+    or private.chess_rating_pool('standard', 'x', 600, 0) <> 'long'
+    or private.chess_rating_pool(
+      'custom', '0123456789abcdef0123456789abcdef', 60, 0
+    ) <> 'variant:0123456789abcdef0123456789abcdef' then
+    raise exception 'RATING_POOL_CLASSIFICATION_INVALID';
+  end if;
+
+  if private.chess_matchmaking_window(100, 50, 50, 0) <> 171
+    or private.chess_matchmaking_window(100, 350, 350, 30) <> 745
+    or private.chess_matchmaking_window(100, 350, 350, 600) <> 1000 then
+    raise exception 'MATCHMAKING_WINDOW_INVALID';
+  end if;
+end;
+$glicko2_helper_tests$;
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f4000000-0000-4000-8000-000000000001',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $glicko2_rated_room$
+declare
+  v_room uuid;
+begin
+  select created.room_id into v_room
+  from public.create_chess_room(
+    'Glicko blitz room',
+    'public',
+    'f4000000-0000-4000-8000-000000000100',
+    '{}'::uuid[],
+    true,
+    300,
+    0,
+    'white'
+  ) created;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f4000000-0000-4000-8000-000000000002',
+    true
+  );
+  perform public.join_chess_room(v_room, null);
+end;
+$glicko2_rated_room$;
+
+reset role;
+set local role service_role;
+
+do $glicko2_finalize_tests$
+declare
+  v_match uuid;
+  v_white_rating integer;
+  v_black_rating integer;
+  v_finalized boolean;
+  v_history record;
+begin
+  select match_row.id into v_match
+  from public.chess_matches match_row
+  join public.chess_rooms room_row on room_row.id = match_row.room_id
+  where room_row.request_key = 'f4000000-0000-4000-8000-000000000100';
+
+  select finalized.finalized, finalized.white_rating, finalized.black_rating
+    into v_finalized, v_white_rating, v_black_rating
+  from public.finalize_chess_match_server(
+    v_match, '1-0', 'resignation', 'glicko2-test-reference', 0
+  ) finalized;
+  if not v_finalized or v_white_rating <> 1662 or v_black_rating <> 1338 then
+    raise exception 'GLICKO2_FINALIZATION_INVALID: % %',
+      v_white_rating, v_black_rating;
+  end if;
+
+  if (
+    select count(*)
+    from public.chess_player_ratings rating_row
+    where rating_row.season_id = 'f4000000-0000-4000-8000-000000000010'
+      and rating_row.pool = 'blitz'
+      and rating_row.rating_deviation between 290 and 291
+      and rating_row.provisional
+      and rating_row.last_rated_at is not null
+  ) <> 2 then
+    raise exception 'GLICKO2_BLITZ_POOL_NOT_UPDATED';
+  end if;
+
+  select * into v_history
+  from public.chess_rating_history history_row
+  where history_row.match_id = v_match
+    and history_row.user_id = 'f4000000-0000-4000-8000-000000000001';
+  if v_history.pool <> 'blitz'
+    or v_history.deviation_before <> 350
+    or v_history.deviation_after not between 290 and 291
+    or v_history.expected_score <> 0.5 then
+    raise exception 'GLICKO2_HISTORY_INVALID';
+  end if;
+
+  -- A newer game in the pool must not change what the replay reports.
+  update public.chess_player_ratings
+  set rating = 1900
+  where user_id = 'f4000000-0000-4000-8000-000000000001';
+  select finalized.finalized, finalized.white_rating
+    into v_finalized, v_white_rating
+  from public.finalize_chess_match_server(
+    v_match, '1-0', 'resignation', 'glicko2-test-reference', 0
+  ) finalized;
+  if v_finalized or v_white_rating <> 1662 then
+    raise exception 'GLICKO2_REPLAY_NOT_FROM_HISTORY';
+  end if;
+end;
+$glicko2_finalize_tests$;
+
+reset role;
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f4000000-0000-4000-8000-000000000002',
+  true
+);
+
+do $glicko2_leaderboard_tests$
+begin
+  if (
+    select count(*)
+    from public.get_chess_leaderboard(null, 'blitz', 10) entry
+    where entry.rating_deviation between 290 and 291
+  ) <> 2 then
+    raise exception 'BLITZ_LEADERBOARD_INVALID';
+  end if;
+  if exists (select 1 from public.get_chess_leaderboard(null, 'bullet', 10)) then
+    raise exception 'BULLET_LEADERBOARD_LEAKED_BLITZ_RATINGS';
+  end if;
+
+  begin
+    perform public.get_chess_leaderboard(null, 'rapid', 10);
+    raise exception 'UNKNOWN_POOL_ACCEPTED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%INVALID_RATING_POOL%' then
+        raise;
+      end if;
+  end;
+end;
+$glicko2_leaderboard_tests$;
+
+rollback;
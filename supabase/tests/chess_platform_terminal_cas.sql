@@ -184,25 +184,28 @@ select set_config(
 select set_config('request.jwt.claim.role', 'authenticated', true);
 
 do $custom_room_runtime_gate_test$
+declare
+  v_room uuid;
 begin
-  begin
-    perform public.create_chess_room(
-      'Custom room must fail',
-      'public',
-      'e0000000-0000-4000-8000-000000000304',
-      array['e0000000-0000-4000-8000-000000000303'::uuid],
-      false,
-      600,
-      0,
-      'white'
-    );
-    raise exception 'CUSTOM_ROOM_CREATED_WITHOUT_RUNTIME';
-  exception
-    when object_not_in_prerequisite_state then
-      if sqlerrm not like '%CUSTOM_RULES_VALIDATOR_NOT_AVAILABLE%' then
-        raise;
-      end if;
-  end;
+  -- Custom rooms are validated by the variant runtime in process-chess-move.
+  select created.room_id into v_room
+  from public.create_chess_room(
+    'Custom room with runtime',
+    'public',
+    'e0000000-0000-4000-8000-000000000304',
+    array['e0000000-0000-4000-8000-000000000303'::uuid],
+    false,
+    600,
+    0,
+    'white'
+  ) created;
+  if (
+    select room_row.ruleset_type
+    from public.chess_rooms room_row
+    where room_row.id = v_room
+  ) is distinct from 'custom' then
+    raise exception 'CUSTOM_ROOM_NOT_CREATED_AS_CUSTOM';
+  end if;
 end;
 $custom_room_runtime_gate_test$;
 
@@ -0,0 +1,164 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('f9000000-0000-4000-8000-000000000001'),
+  ('f9000000-0000-4000-8000-000000000002')
+on conflict (id) do nothing;
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f9000000-0000-4000-8000-000000000001',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $puzzle_rush_survival$
+declare
+  v_run record;
+  v_step record;
+begin
+  begin
+    perform 1 from public.chess_training_puzzles;
+    raise exception 'TRAINING_PUZZLES_READABLE';
+  exception
+    when insufficient_privilege then
+      null;
+  end;
+
+  select * into v_run from public.start_chess_puzzle_run('survival', 'mateIn2');
+  if v_run.puzzle_id <> 'c4200000-0000-4000-8000-000000000006'
+    or v_run.expires_at is not null or v_run.player_rating <> 1500 then
+    raise exception 'PUZZLE_RUN_NOT_STARTED_EASY';
+  end if;
+
+  select * into v_step
+  from public.submit_chess_puzzle_run_move(v_run.run_id, array['b2b7']);
+  if v_step.outcome <> 'continue' or v_step.reply_move <> 'h8g8'
+    or v_step.score <> 0 then
+    raise exception 'PUZZLE_RUN_REPLY_MISSING';
+  end if;
+
+  select * into v_step
+  from public.submit_chess_puzzle_run_move(
+    v_run.run_id, array['B2B7', 'h8g8', 'a1a8']
+  );
+  if v_step.outcome <> 'solved' or v_step.score <> 1
+    or v_step.rating_change <= 0 or v_step.solution_moves is not null
+    or v_step.puzzle_id <> 'c4200000-0000-4000-8000-000000000007' then
+    raise exception 'PUZZLE_RUN_SOLVE_NOT_SCORED';
+  end if;
+
+  select * into v_step
+  from public.submit_chess_puzzle_run_move(v_run.run_id, array['e1e8']);
+  if v_step.outcome <> 'failed' or v_step.status <> 'finished'
+    or v_step.solution_moves <> array['e2e8', 'd8e8', 'e1e8']
+    or v_step.rating_change >= 0 or v_step.xp_awarded <> 2
+    or v_step.puzzle_id is not null then
+    raise exception 'PUZZLE_RUN_SURVIVAL_NOT_ENDED';
+  end if;
+
+  begin
+    perform public.submit_chess_puzzle_run_move(v_run.run_id, array['e2e8']);
+    raise exception 'PUZZLE_RUN_PLAYED_AFTER_END';
+  exception
+    when object_not_in_prerequisite_state then
+      if sqlerrm not like '%PUZZLE_RUN_FINISHED%' then
+        raise;
+      end if;
+  end;
+
+  if not exists (
+    select 1 from public.get_chess_puzzle_rush_leaderboard('survival', 'mateIn2')
+    where user_id = 'f9000000-0000-4000-8000-000000000001'
+      and rank = 1 and best_score = 1
+  ) then
+    raise exception 'PUZZLE_RUSH_LEADERBOARD_MISSING';
+  end if;
+  if exists (select 1 from public.get_chess_puzzle_rush_leaderboard('survival')) then
+    raise exception 'PUZZLE_RUSH_LEADERBOARD_MIXED_THEMES';
+  end if;
+end;
+$puzzle_rush_survival$;
+
+do $puzzle_rush_timed_start$
+declare
+  v_run record;
+begin
+  select * into v_run from public.start_chess_puzzle_run('three_minutes');
+  if v_run.expires_at is null or v_run.puzzle_id is null
+    or v_run.rule_ids <> '{}'::text[] then
+    raise exception 'PUZZLE_RUSH_NOT_TIMED';
+  end if;
+end;
+$puzzle_rush_timed_start$;
+
+reset role;
+
+update public.chess_puzzle_runs
+set started_at = now() - interval '5 minutes',
+    expires_at = now() - interval '2 minutes'
+where user_id = 'f9000000-0000-4000-8000-000000000001'
+  and status = 'active';
+
+set local role authenticated;
+
+do $puzzle_rush_timeout$
+declare
+  v_run_id uuid;
+  v_step record;
+begin
+  select id into v_run_id
+  from public.chess_puzzle_runs
+  where status = 'active';
+
+  select * into v_step
+  from public.submit_chess_puzzle_run_move(v_run_id, array['d5c7']);
+  if v_step.outcome <> 'timeout' or v_step.status <> 'finished'
+    or v_step.score <> 0 then
+    raise exception 'PUZZLE_RUSH_CLOCK_IGNORED';
+  end if;
+  perform set_config('test.foreign_run', v_run_id::text, true);
+end;
+$puzzle_rush_timeout$;
+
+select set_config(
+  'request.jwt.claim.sub',
+  'f9000000-0000-4000-8000-000000000002',
+  true
+);
+
+do $puzzle_rush_isolation$
+declare
+  v_run record;
+begin
+  if exists (select 1 from public.chess_puzzle_runs) then
+    raise exception 'PUZZLE_RUN_LEAKED';
+  end if;
+
+  select * into v_run from public.start_chess_puzzle_run('three_strikes', 'variant');
+  if cardinality(v_run.rule_ids) = 0 then
+    raise exception 'VARIANT_PUZZLE_WITHOUT_RULES';
+  end if;
+  select * into v_run from public.finish_chess_puzzle_run(v_run.run_id);
+  if v_run.status <> 'finished' or v_run.xp_awarded <> 0
+    or v_run.puzzle_id is not null then
+    raise exception 'PUZZLE_RUN_NOT_FINISHED_ON_REQUEST';
+  end if;
+
+  begin
+    perform public.finish_chess_puzzle_run(
+      current_setting('test.foreign_run')::uuid
+    );
+    raise exception 'FOREIGN_PUZZLE_RUN_FINISHED';
+  exception
+    when no_data_found then
+      if sqlerrm not like '%PUZZLE_RUN_NOT_AVAILABLE%' then
+        raise;
+      end if;
+  end;
+end;
+$puzzle_rush_isolation$;
+
+rollback;
@@ -0,0 +1,248 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('f3000000-0000-4000-8000-000000000001'),
+  ('f3000000-0000-4000-8000-000000000002'),
+  ('f3000000-0000-4000-8000-000000000003')
+on conflict (id) do nothing;
+
+do $spectator_catalog_tests$
+begin
+  if not has_function_privilege(
+    'authenticated',
+    'public.watch_chess_match(uuid)',
+    'EXECUTE'
+  ) or has_function_privilege(
+    'anon',
+    'public.watch_chess_match(uuid)',
+    'EXECUTE'
+  ) or has_function_privilege(
+    'anon',
+    'public.list_live_chess_matches(integer)',
+    'EXECUTE'
+  ) then
+    raise exception 'SPECTATOR_RPC_ACL_INVALID';
+  end if;
+end;
+$spectator_catalog_tests$;
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f3000000-0000-4000-8000-000000000001',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $spectator_watch_tests$
+declare
+  v_room uuid;
+  v_closed_room uuid;
+  v_match uuid;
+  v_closed_match uuid;
+  v_role text;
+  v_delay integer;
+  v_revision bigint;
+  v_count integer;
+begin
+  select created.room_id into v_room
+  from public.create_chess_room(
+    'Spectator room',
+    'public',
+    'f3000000-0000-4000-8000-000000000100',
+    '{}'::uuid[],
+    false,
+    600,
+    0,
+    'white'
+  ) created;
+  begin
+    perform public.configure_chess_room_spectators(v_room, true, 901);
+    raise exception 'OVERSIZED_SPECTATOR_DELAY_ACCEPTED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%INVALID_SPECTATOR_SETTINGS%' then
+        raise;
+      end if;
+  end;
+  perform public.configure_chess_room_spectators(v_room, true, 15);
+
+  select created.room_id into v_closed_room
+  from public.create_chess_room(
+    'Closed spectator room',
+    'public',
+    'f3000000-0000-4000-8000-000000000101',
+    '{}'::uuid[],
+    false,
+    600,
+    0,
+    'white'
+  ) created;
+  perform public.configure_chess_room_spectators(v_closed_room, false, 0);
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f3000000-0000-4000-8000-000000000002',
+    true
+  );
+  select joined.match_id into v_match
+  from public.join_chess_room(v_room, null) joined;
+  select joined.match_id into v_closed_match
+  from public.join_chess_room(v_closed_room, null) joined;
+  begin
+    perform public.configure_chess_room_spectators(v_room, true, 0);
+    raise exception 'NON_OWNER_CONFIGURED_SPECTATORS';
+  exception
+    when no_data_found then
+      if sqlerrm not like '%ROOM_NOT_FOUND%' then
+        raise;
+      end if;
+  end;
+
+  -- Black's draw offer is revision 1: hidden from a delayed spectator.
+  perform public.submit_chess_draw_command(
+    v_match, 0, 'f3000000-0000-4000-8000-000000000200', 'offer'
+  );
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f3000000-0000-4000-8000-000000000003',
+    true
+  );
+  begin
+    perform public.get_chess_match_snapshot(v_match);
+    raise exception 'OUTSIDER_READ_SNAPSHOT';
+  exception
+    when insufficient_privilege then
+      if sqlerrm not like '%MATCH_NOT_ACCESSIBLE%' then
+        raise;
+      end if;
+  end;
+  begin
+    perform public.watch_chess_match(v_closed_match);
+    raise exception 'CLOSED_ROOM_WATCHED';
+  exception
+    when insufficient_privilege then
+      if sqlerrm not like '%SPECTATORS_NOT_ALLOWED%' then
+        raise;
+      end if;
+  end;
+
+  select watched.viewer_role, watched.spectator_delay_seconds
+    into v_role, v_delay
+  from public.watch_chess_match(v_match) watched;
+  perform public.watch_chess_match(v_match);
+  if v_role <> 'spectator' or v_delay <> 15 then
+    raise exception 'SPECTATOR_MEMBERSHIP_INVALID';
+  end if;
+
+  select snapshot.revision, snapshot.viewer_role
+    into v_revision, v_role
+  from public.get_chess_match_snapshot(v_match) snapshot;
+  if v_revision <> 0 or v_role <> 'spectator' then
+    raise exception 'SPECTATOR_DELAY_NOT_APPLIED';
+  end if;
+  select count(*) into v_count
+  from public.get_chess_match_events_since(v_match, -1, 200);
+  if v_count <> 1 then
+    raise exception 'SPECTATOR_REPLAY_NOT_DELAYED';
+  end if;
+  select heartbeat.match_revision into v_revision
+  from public.heartbeat_chess_room(v_room, 0) heartbeat;
+  if v_revision <> 0 then
+    raise exception 'SPECTATOR_HEARTBEAT_NOT_DELAYED';
+  end if;
+  select count(*) into v_count
+  from public.chess_match_events event_row
+  where event_row.match_id = v_match;
+  if v_count <> 1 or exists (
+    select 1 from public.chess_matches match_row where match_row.id = v_match
+  ) then
+    raise exception 'SPECTATOR_RLS_NOT_DELAYED';
+  end if;
+  begin
+    perform public.submit_chess_draw_command(
+      v_match, 1, 'f3000000-0000-4000-8000-000000000201', 'accept'
+    );
+    raise exception 'SPECTATOR_ACCEPTED_DRAW';
+  exception
+    when insufficient_privilege then
+      if sqlerrm not like '%MATCH_PARTICIPANT_REQUIRED%' then
+        raise;
+      end if;
+  end;
+
+  select count(*) into v_count
+  from public.list_live_chess_matches(50) listed
+  where listed.match_id in (v_match, v_closed_match);
+  if v_count <> 1 or not exists (
+    select 1
+    from public.list_live_chess_matches(50) listed
+    where listed.match_id = v_match
+      and listed.spectator_count = 1
+      and listed.spectator_delay_seconds = 15
+  ) then
+    raise exception 'LIVE_MATCH_LISTING_INVALID';
+  end if;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f3000000-0000-4000-8000-000000000001',
+    true
+  );
+  select snapshot.revision, snapshot.viewer_role, snapshot.spectator_count
+    into v_revision, v_role, v_count
+  from public.get_chess_match_snapshot(v_match) snapshot;
+  if v_revision <> 1 or v_role <> 'player' or v_count <> 1 then
+    raise exception 'PLAYER_SNAPSHOT_DELAYED';
+  end if;
+  if exists (
+    select 1
+    from public.get_chess_match_snapshot(v_match) snapshot,
+      jsonb_array_elements(snapshot.players_presence) presence
+    where presence ->> 'role' = 'spectator'
+  ) then
+    raise exception 'SPECTATOR_LISTED_AS_PLAYER';
+  end if;
+end;
+$spectator_watch_tests$;
+
+reset role;
+
+-- Age the journal past the delay: the spectator catches up.
+update public.chess_match_events event_row
+set created_at = event_row.created_at - interval '1 minute'
+from public.chess_matches match_row
+join public.chess_rooms room_row on room_row.id = match_row.room_id
+where event_row.match_id = match_row.id
+  and room_row.name = 'Spectator room';
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f3000000-0000-4000-8000-000000000003',
+  true
+);
+
+do $spectator_catch_up_tests$
+declare
+  v_match uuid;
+  v_revision bigint;
+begin
+  select match_row.id into v_match
+  from public.chess_matches match_row
+  join public.chess_rooms room_row on room_row.id = match_row.room_id
+  where room_row.name = 'Spectator room';
+  if v_match is null then
+    raise exception 'SPECTATOR_MATCH_NOT_VISIBLE';
+  end if;
+  select snapshot.revision into v_revision
+  from public.get_chess_match_snapshot(v_match) snapshot;
+  if v_revision <> 1 then
+    raise exception 'SPECTATOR_DID_NOT_CATCH_UP';
+  end if;
+end;
+$spectator_catch_up_tests$;
+
+rollback;
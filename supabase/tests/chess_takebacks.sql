@@ -0,0 +1,284 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('f2000000-0000-4000-8000-000000000001'),
+  ('f2000000-0000-4000-8000-000000000002')
+on conflict (id) do nothing;
+
+do $takeback_catalog_tests$
+begin
+  if not has_function_privilege(
+    'authenticated',
+    'public.submit_chess_takeback_command(uuid,bigint,uuid,text)',
+    'EXECUTE'
+  ) or has_function_privilege(
+    'anon',
+    'public.submit_chess_takeback_command(uuid,bigint,uuid,text)',
+    'EXECUTE'
+  ) or has_function_privilege(
+    'authenticated',
+    'private.chess_match_takeback_epoch(uuid)',
+    'EXECUTE'
+  ) then
+    raise exception 'TAKEBACK_COMMAND_ACL_INVALID';
+  end if;
+  if has_table_privilege(
+    'authenticated',
+    'public.chess_match_takeback_commands',
+    'INSERT'
+  ) then
+    raise exception 'TAKEBACK_COMMANDS_WRITABLE_BY_CLIENTS';
+  end if;
+end;
+$takeback_catalog_tests$;
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f2000000-0000-4000-8000-000000000001',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $takeback_setup$
+declare
+  v_room uuid;
+  v_match uuid;
+  v_rated boolean;
+begin
+  select created.room_id into v_room
+  from public.create_chess_room(
+    'Takeback room',
+    'public',
+    'f2000000-0000-4000-8000-000000000100',
+    '{}'::uuid[],
+    false,
+    600,
+    5,
+    'white'
+  ) created;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f2000000-0000-4000-8000-000000000002',
+    true
+  );
+  perform public.join_chess_room(v_room, null);
+
+  select match_row.id into v_match
+  from public.chess_matches match_row
+  where match_row.room_id = v_room;
+  select snapshot.rated into v_rated
+  from public.get_chess_match_snapshot(v_match) snapshot;
+  if v_rated is distinct from false then
+    raise exception 'SNAPSHOT_RATED_FLAG_MISSING';
+  end if;
+
+  begin
+    perform public.submit_chess_takeback_command(
+      v_match, 0, 'f2000000-0000-4000-8000-000000000200', 'request'
+    );
+    raise exception 'TAKEBACK_BEFORE_FIRST_MOVE_ACCEPTED';
+  exception
+    when object_not_in_prerequisite_state then
+      if sqlerrm not like '%TAKEBACK_NOTHING_TO_UNDO%' then
+        raise;
+      end if;
+  end;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f2000000-0000-4000-8000-000000000001',
+    true
+  );
+  perform public.submit_chess_move_command(
+    v_match, 0, 'f2000000-0000-4000-8000-000000000201', 'e2e4', 599000
+  );
+end;
+$takeback_setup$;
+
+reset role;
+
+do $takeback_commit$
+declare
+  v_command uuid;
+begin
+  select command_row.id into v_command
+  from public.chess_move_commands command_row
+  where command_row.client_command_id = 'f2000000-0000-4000-8000-000000000201';
+  perform public.commit_chess_move_server(
+    v_command,
+    'e4',
+    'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1',
+    '{"whiteMs":603000,"blackMs":600000,"incrementMs":5000}'::jsonb,
+    'black',
+    'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+    2000,
+    '{"validatedBy":"test-engine"}'::jsonb
+  );
+end;
+$takeback_commit$;
+
+set local role authenticated;
+
+do $takeback_command_tests$
+declare
+  v_match uuid;
+  v_request uuid;
+  v_request_again uuid;
+  v_revision bigint;
+begin
+  select match_row.id into v_match
+  from public.chess_matches match_row
+  join public.chess_rooms room_row on room_row.id = match_row.room_id
+  where room_row.name = 'Takeback room';
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f2000000-0000-4000-8000-000000000002',
+    true
+  );
+  begin
+    perform public.submit_chess_takeback_command(
+      v_match, 1, 'f2000000-0000-4000-8000-000000000202', 'request'
+    );
+    raise exception 'OPPONENT_TOOK_BACK_FOREIGN_MOVE';
+  exception
+    when object_not_in_prerequisite_state then
+      if sqlerrm not like '%TAKEBACK_NOTHING_TO_UNDO%' then
+        raise;
+      end if;
+  end;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f2000000-0000-4000-8000-000000000001',
+    true
+  );
+  select command.command_id, command.authoritative_revision
+    into v_request, v_revision
+  from public.submit_chess_takeback_command(
+    v_match, 1, 'f2000000-0000-4000-8000-000000000203', 'request'
+  ) command;
+  select command.command_id into v_request_again
+  from public.submit_chess_takeback_command(
+    v_match, 1, 'f2000000-0000-4000-8000-000000000203', 'request'
+  ) command;
+  if v_request is null or v_request_again <> v_request or v_revision <> 2 then
+    raise exception 'TAKEBACK_REQUEST_IDEMPOTENCY_FAILED';
+  end if;
+
+  begin
+    perform public.submit_chess_takeback_command(
+      v_match, 2, 'f2000000-0000-4000-8000-000000000204', 'accept'
+    );
+    raise exception 'REQUESTER_ACCEPTED_OWN_TAKEBACK';
+  exception
+    when no_data_found then
+      if sqlerrm not like '%TAKEBACK_NOT_FOUND%' then
+        raise;
+      end if;
+  end;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f2000000-0000-4000-8000-000000000002',
+    true
+  );
+  select command.authoritative_revision into v_revision
+  from public.submit_chess_takeback_command(
+    v_match, 2, 'f2000000-0000-4000-8000-000000000205', 'accept'
+  ) command;
+  if v_revision <> 3 then
+    raise exception 'TAKEBACK_ACCEPT_REVISION_INVALID';
+  end if;
+end;
+$takeback_command_tests$;
+
+reset role;
+
+do $takeback_rewind_tests$
+declare
+  v_match public.chess_matches%rowtype;
+begin
+  select match_row.* into v_match
+  from public.chess_matches match_row
+  join public.chess_rooms room_row on room_row.id = match_row.room_id
+  where room_row.name = 'Takeback room';
+
+  if v_match.ply_count <> 0
+    or v_match.side_to_move <> 'white'
+    or v_match.current_fen <> v_match.initial_fen
+    or v_match.clock_state <> '{"whiteMs":600000,"blackMs":600000,"incrementMs":5000}'::jsonb
+    or v_match.rule_state_hash <> v_match.state ->> 'ruleStateHash'
+    or v_match.position_hash <> encode(
+      extensions.digest(convert_to(v_match.initial_fen, 'UTF8'), 'sha256'),
+      'hex'
+    ) then
+    raise exception 'TAKEBACK_DID_NOT_RESTORE_START';
+  end if;
+  if exists (
+    select 1
+    from public.chess_match_moves move_row
+    where move_row.match_id = v_match.id
+  ) or not exists (
+    select 1
+    from public.chess_move_commands command_row
+    where command_row.match_id = v_match.id
+      and command_row.client_command_id = 'f2000000-0000-4000-8000-000000000201'
+      and command_row.status = 'superseded'
+  ) then
+    raise exception 'TAKEBACK_JOURNAL_NOT_REWOUND';
+  end if;
+  if not exists (
+    select 1
+    from public.chess_match_events event_row
+    where event_row.match_id = v_match.id
+      and event_row.revision = 3
+      and event_row.event_type = 'takeback_applied'
+      and (event_row.payload ->> 'ply')::integer = 1
+      and event_row.payload ->> 'sideToMove' = 'white'
+      and event_row.payload -> 'clockState' = v_match.clock_state
+  ) then
+    raise exception 'TAKEBACK_EVENT_MISSING';
+  end if;
+
+  update public.chess_matches
+  set rated = true
+  where id = v_match.id;
+end;
+$takeback_rewind_tests$;
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f2000000-0000-4000-8000-000000000001',
+  true
+);
+
+do $takeback_rated_tests$
+declare
+  v_match uuid;
+begin
+  select match_row.id into v_match
+  from public.chess_matches match_row
+  join public.chess_rooms room_row on room_row.id = match_row.room_id
+  where room_row.name = 'Takeback room';
+
+  begin
+    perform public.submit_chess_takeback_command(
+      v_match, 3, 'f2000000-0000-4000-8000-000000000206', 'request'
+    );
+    raise exception 'RATED_TAKEBACK_ACCEPTED';
+  exception
+    when object_not_in_prerequisite_state then
+      if sqlerrm not like '%TAKEBACK_RATED_MATCH%' then
+        raise;
+      end if;
+  end;
+end;
+$takeback_rated_tests$;
+
+rollback;
@@ -0,0 +1,55 @@
+begin;
+
+do $fairy_piece_upgrades$
+declare
+  v_camel constant jsonb :=
+    '{"id":"camel","name":"Chameau","betza":"C","glyph":"L","value":3}';
+  v_zebra constant jsonb :=
+    '{"id":"zebra","name":"Zèbre","betza":"Z","glyph":"Z","value":3}';
+  v_from jsonb;
+begin
+  v_from := jsonb_build_object(
+    'actions', '[]'::jsonb,
+    'pieces', jsonb_build_array(v_camel, v_zebra)
+  );
+
+  if public.rule_version_upgrade_is_breaking(
+    v_from,
+    jsonb_build_object(
+      'actions', '[]'::jsonb,
+      'pieces', jsonb_build_array(
+        v_zebra || '{"value":2}'::jsonb,
+        v_camel || '{"name":"Dromadaire"}'::jsonb
+      )
+    )
+  ) then
+    raise exception 'FAIRY_PIECE_TEXT_CHANGE_REFUSED';
+  end if;
+
+  if not public.rule_version_upgrade_is_breaking(
+    v_from,
+    jsonb_build_object('actions', '[]'::jsonb, 'pieces', jsonb_build_array(v_camel))
+  ) then
+    raise exception 'FAIRY_PIECE_REMOVAL_ALLOWED';
+  end if;
+
+  if not public.rule_version_upgrade_is_breaking(
+    v_from,
+    jsonb_build_object(
+      'actions', '[]'::jsonb,
+      'pieces', jsonb_build_array(v_camel || '{"betza":"N"}'::jsonb, v_zebra)
+    )
+  ) then
+    raise exception 'FAIRY_PIECE_MOVEMENT_CHANGE_ALLOWED';
+  end if;
+
+  if public.rule_version_upgrade_is_breaking(
+    '{"actions":[]}'::jsonb,
+    jsonb_build_object('actions', '[]'::jsonb, 'pieces', jsonb_build_array(v_camel))
+  ) then
+    raise exception 'FAIRY_PIECE_ADDITION_REFUSED';
+  end if;
+end;
+$fairy_piece_upgrades$;
+
+rollback;
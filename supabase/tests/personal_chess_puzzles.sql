@@ -0,0 +1,143 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('f8000000-0000-4000-8000-000000000001'),
+  ('f8000000-0000-4000-8000-000000000002')
+on conflict (id) do nothing;
+
+do $personal_puzzles_recording$
+declare
+  v_puzzles constant jsonb := $json$
+    [
+      {
+        "ply": 12,
+        "fen": "r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4",
+        "solution_moves": ["h5f7"],
+        "played_move": "d2d3",
+        "swing_cp": -9000,
+        "themes": ["blunder", "mateIn1"],
+        "rating": 800
+      }
+    ]
+  $json$;
+begin
+  if public.record_personal_chess_puzzles_server(
+    'f8000000-0000-4000-8000-000000000001', 'game-1', v_puzzles
+  ) <> 1 then
+    raise exception 'PERSONAL_PUZZLE_NOT_RECORDED';
+  end if;
+  -- The same position from another game keeps its review history.
+  if public.record_personal_chess_puzzles_server(
+    'f8000000-0000-4000-8000-000000000001', 'game-2', v_puzzles
+  ) <> 0 then
+    raise exception 'PERSONAL_PUZZLE_DUPLICATED';
+  end if;
+
+  begin
+    perform public.record_personal_chess_puzzles_server(
+      'f8000000-0000-4000-8000-000000000001',
+      'game-3',
+      '[{"ply": 1, "fen": "8/8/8/8/8/8/8/8 w - - 0 1", "solution_moves": ["Qxf7#"]}]'
+    );
+    raise exception 'SAN_SOLUTION_ACCEPTED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%INVALID_PUZZLE_MOVE_NOTATION%' then
+        raise;
+      end if;
+  end;
+end;
+$personal_puzzles_recording$;
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f8000000-0000-4000-8000-000000000001',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $personal_puzzles_review$
+declare
+  v_puzzle uuid;
+  v_review record;
+begin
+  begin
+    perform 1 from public.chess_personal_puzzles;
+    raise exception 'PERSONAL_PUZZLE_TABLE_READABLE';
+  exception
+    when insufficient_privilege then
+      null;
+  end;
+
+  select puzzle_id into v_puzzle
+  from public.get_due_personal_chess_puzzles(10);
+  if v_puzzle is null then
+    raise exception 'PERSONAL_PUZZLE_NOT_DUE';
+  end if;
+
+  select * into v_review
+  from public.submit_personal_chess_puzzle(v_puzzle, array['d2d3'], 4000);
+  if v_review.solved or v_review.repetitions <> 0
+    or v_review.solution_moves <> array['h5f7']
+    or v_review.due_at <= now() then
+    raise exception 'PERSONAL_PUZZLE_MISS_NOT_SCHEDULED';
+  end if;
+
+  begin
+    perform public.submit_personal_chess_puzzle(v_puzzle, array['h5f7'], 4000);
+    raise exception 'PERSONAL_PUZZLE_REVIEWED_EARLY';
+  exception
+    when object_not_in_prerequisite_state then
+      if sqlerrm not like '%PUZZLE_NOT_DUE%' then
+        raise;
+      end if;
+  end;
+end;
+$personal_puzzles_review$;
+
+reset role;
+
+update public.chess_personal_puzzles
+set due_at = now() - interval '1 minute'
+where user_id = 'f8000000-0000-4000-8000-000000000001';
+
+set local role authenticated;
+
+do $personal_puzzles_schedule$
+declare
+  v_puzzle uuid;
+  v_review record;
+begin
+  select puzzle_id into v_puzzle
+  from public.get_due_personal_chess_puzzles(10);
+
+  select * into v_review
+  from public.submit_personal_chess_puzzle(v_puzzle, array['H5F7'], 4000);
+  if not v_review.solved or v_review.repetitions <> 1
+    or v_review.interval_days <> 1
+    or v_review.due_at < now() + interval '23 hours' then
+    raise exception 'PERSONAL_PUZZLE_SOLVE_NOT_SCHEDULED';
+  end if;
+  if exists (select 1 from public.get_due_personal_chess_puzzles(10)) then
+    raise exception 'PERSONAL_PUZZLE_STILL_DUE';
+  end if;
+end;
+$personal_puzzles_schedule$;
+
+select set_config(
+  'request.jwt.claim.sub',
+  'f8000000-0000-4000-8000-000000000002',
+  true
+);
+
+do $personal_puzzles_isolation$
+begin
+  if exists (select 1 from public.get_due_personal_chess_puzzles(10)) then
+    raise exception 'PERSONAL_PUZZLE_LEAKED';
+  end if;
+end;
+$personal_puzzles_isolation$;
+
+rollback;
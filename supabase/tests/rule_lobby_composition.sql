@@ -0,0 +1,226 @@
+begin;
+
+do $rule_lobby_blueprints$
+declare
+  v_host constant uuid :=
+    'f5000000-0000-4000-8000-000000000001';
+  v_stranger constant uuid :=
+    'f5000000-0000-4000-8000-000000000002';
+  v_compilation_a constant uuid :=
+    'f5000000-0000-4000-8000-000000000010';
+  v_compilation_b constant uuid :=
+    'f5000000-0000-4000-8000-000000000011';
+  v_blueprint_a constant uuid :=
+    'f5000000-0000-4000-8000-000000000020';
+  v_blueprint_b constant uuid :=
+    'f5000000-0000-4000-8000-000000000021';
+  v_version_a constant uuid :=
+    'f5000000-0000-4000-8000-000000000030';
+  v_version_b constant uuid :=
+    'f5000000-0000-4000-8000-000000000031';
+  v_validation constant jsonb := $json$
+    {
+      "metrics": {
+        "coverageContractVersion": 1,
+        "intentContract": {
+          "version": 1,
+          "originalPrompt": "[redacted]",
+          "originalPromptHash": "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+          "requirements": [
+            {
+              "id": "test-action",
+              "statement": "The rule exposes one deterministic test action.",
+              "importance": "core",
+              "feasibility": "direct",
+              "approvedAdaptation": ""
+            },
+            {
+              "id": "request-fidelity",
+              "statement": "Every signed clause is represented by compiled logic.",
+              "importance": "core",
+              "feasibility": "direct",
+              "approvedAdaptation": ""
+            }
+          ],
+          "decisions": []
+        },
+        "coverage": {
+          "complete": true,
+          "exactIntentPreserved": true,
+          "score": 100,
+          "summary": "The deterministic test action is implemented.",
+          "requirements": [
+            {
+              "id": "test-action",
+              "status": "implemented",
+              "evidencePaths": ["$.actions[0]"],
+              "explanation": "The first action provides the required behavior.",
+              "adaptation": "",
+              "userApproved": false
+            },
+            {
+              "id": "request-fidelity",
+              "status": "implemented",
+              "evidencePaths": ["$.actions[0]"],
+              "explanation": "The compiled action represents every signed clause.",
+              "adaptation": "",
+              "userApproved": false
+            }
+          ]
+        }
+      }
+    }
+  $json$::jsonb;
+  v_lobby uuid;
+  v_keys text[];
+begin
+  insert into auth.users (id)
+  values (v_host), (v_stranger)
+  on conflict (id) do nothing;
+
+  perform set_config('request.jwt.claim.sub', v_host::text, true);
+  perform set_config('request.jwt.claim.role', 'authenticated', true);
+
+  insert into public.rule_compilations (
+    id,
+    user_id,
+    prompt,
+    prompt_hash,
+    model,
+    status,
+    blueprint,
+    compiled_rule,
+    metrics,
+    content_hash,
+    request_key
+  )
+  values
+    (
+      v_compilation_a,
+      v_host,
+      'composition A',
+      'prompt-a',
+      'test-model',
+      'validated',
+      '{"ruleKey":"compose-a","stateNamespace":"shared"}'::jsonb,
+      '{}'::jsonb,
+      v_validation -> 'metrics',
+      'composition-content-a',
+      'f5000000-0000-4000-8000-000000000040'
+    ),
+    (
+      v_compilation_b,
+      v_host,
+      'composition B',
+      'prompt-b',
+      'test-model',
+      'validated',
+      '{"ruleKey":"compose-b","stateNamespace":"shared"}'::jsonb,
+      '{}'::jsonb,
+      v_validation -> 'metrics',
+      'composition-content-b',
+      'f5000000-0000-4000-8000-000000000041'
+    );
+
+  insert into public.rule_blueprints (
+    id,
+    owner_id,
+    rule_key,
+    title,
+    description,
+    category,
+    visibility
+  )
+  values
+    (
+      v_blueprint_a,
+      v_host,
+      'compose-a',
+      'Compose A',
+      'Composition regression A.',
+      'special',
+      'private'
+    ),
+    (
+      v_blueprint_b,
+      v_host,
+      'compose-b',
+      'Compose B',
+      'Composition regression B.',
+      'special',
+      'private'
+    );
+
+  insert into public.rule_versions (
+    id,
+    blueprint_id,
+    compilation_id,
+    version_number,
+    schema_version,
+    engine_version,
+    legacy_rule_id,
+    blueprint_json,
+    rule_json,
+    content_hash,
+    visibility,
+    validation,
+    created_by
+  )
+  values
+    (
+      v_version_a,
+      v_blueprint_a,
+      v_compilation_a,
+      1,
+      '2.0.0',
+      '2.0.0',
+      'compose-a@test-v1',
+      '{"ruleKey":"compose-a","stateNamespace":"shared"}'::jsonb,
+      '{"meta":{},"logic":{}}'::jsonb,
+      'composition-content-a',
+      'private',
+      v_validation,
+      v_host
+    ),
+    (
+      v_version_b,
+      v_blueprint_b,
+      v_compilation_b,
+      1,
+      '2.0.0',
+      '2.0.0',
+      'compose-b@test-v1',
+      '{"ruleKey":"compose-b","stateNamespace":"shared"}'::jsonb,
+      '{"meta":{},"logic":{}}'::jsonb,
+      'composition-content-b',
+      'private',
+      v_validation,
+      v_host
+    );
+
+  select created.lobby_id
+    into v_lobby
+  from public.create_rule_lobby_v2(
+    'Composition lobby',
+    array[v_version_b, v_version_a],
+    'f5000000-0000-4000-8000-000000000050',
+    'ai'
+  ) as created;
+
+  select array_agg(pinned.blueprint_json ->> 'ruleKey' order by pinned.ordinal)
+    into v_keys
+  from public.get_rule_lobby_blueprints_v2(v_lobby) as pinned;
+  if v_keys is distinct from array['compose-b', 'compose-a'] then
+    raise exception 'LOBBY_BLUEPRINTS_NOT_IN_ORDINAL_ORDER: %', v_keys;
+  end if;
+
+  perform set_config('request.jwt.claim.sub', v_stranger::text, true);
+  if exists (
+    select 1 from public.get_rule_lobby_blueprints_v2(v_lobby)
+  ) then
+    raise exception 'LOBBY_BLUEPRINTS_LEAKED_TO_NON_PARTICIPANT';
+  end if;
+end;
+$rule_lobby_blueprints$;
+
+rollback;
@@ -0,0 +1,263 @@
+begin;
+
+do $rule_version_upgrades$
+declare
+  v_host constant uuid :=
+    'f6000000-0000-4000-8000-000000000001';
+  v_blueprint constant uuid :=
+    'f6000000-0000-4000-8000-000000000020';
+  v_version_1 constant uuid :=
+    'f6000000-0000-4000-8000-000000000031';
+  v_version_2 constant uuid :=
+    'f6000000-0000-4000-8000-000000000032';
+  v_version_3 constant uuid :=
+    'f6000000-0000-4000-8000-000000000033';
+  v_validation constant jsonb := $json$
+    {
+      "metrics": {
+        "coverageContractVersion": 1,
+        "intentContract": {
+          "version": 1,
+          "originalPrompt": "[redacted]",
+          "originalPromptHash": "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+          "requirements": [
+            {
+              "id": "test-action",
+              "statement": "The rule exposes one deterministic test action.",
+              "importance": "core",
+              "feasibility": "direct",
+              "approvedAdaptation": ""
+            },
+            {
+              "id": "request-fidelity",
+              "statement": "Every signed clause is represented by compiled logic.",
+              "importance": "core",
+              "feasibility": "direct",
+              "approvedAdaptation": ""
+            }
+          ],
+          "decisions": []
+        },
+        "coverage": {
+          "complete": true,
+          "exactIntentPreserved": true,
+          "score": 100,
+          "summary": "The deterministic test action is implemented.",
+          "requirements": [
+            {
+              "id": "test-action",
+              "status": "implemented",
+              "evidencePaths": ["$.actions[0]"],
+              "explanation": "The first action provides the required behavior.",
+              "adaptation": "",
+              "userApproved": false
+            },
+            {
+              "id": "request-fidelity",
+              "status": "implemented",
+              "evidencePaths": ["$.actions[0]"],
+              "explanation": "The compiled action represents every signed clause.",
+              "adaptation": "",
+              "userApproved": false
+            }
+          ]
+        }
+      }
+    }
+  $json$::jsonb;
+  v_lobby uuid;
+  v_direct_lobby uuid;
+  v_created_hash text;
+  v_upgraded_hash text;
+  v_direct_hash text;
+  v_open_lobbies uuid[];
+begin
+  insert into auth.users (id)
+  values (v_host)
+  on conflict (id) do nothing;
+
+  perform set_config('request.jwt.claim.sub', v_host::text, true);
+  perform set_config('request.jwt.claim.role', 'authenticated', true);
+
+  insert into public.rule_compilations (
+    id,
+    user_id,
+    prompt,
+    prompt_hash,
+    model,
+    status,
+    blueprint,
+    compiled_rule,
+    metrics,
+    content_hash,
+    request_key
+  )
+  select
+    ('f6000000-0000-4000-8000-00000000001' || version_number)::uuid,
+    v_host,
+    'upgrade v' || version_number,
+    'prompt-' || version_number,
+    'test-model',
+    'validated',
+    blueprint,
+    '{}'::jsonb,
+    v_validation -> 'metrics',
+    'upgrade-content-' || version_number,
+    ('f6000000-0000-4000-8000-00000000004' || version_number)::uuid
+  from (
+    values
+      (1, '{"schemaVersion":"2.0.0","ruleKey":"upgrade-me","stateNamespace":"upgrade","initialStateJson":"{}","actions":[{"id":"blast"}]}'::jsonb),
+      (2, '{"schemaVersion":"2.0.0","ruleKey":"upgrade-me","stateNamespace":"upgrade","initialStateJson":"{}","actions":[{"id":"blast"},{"id":"shield"}]}'::jsonb),
+      (3, '{"schemaVersion":"2.0.0","ruleKey":"upgrade-me","stateNamespace":"upgrade","initialStateJson":"{}","actions":[{"id":"shield"}]}'::jsonb)
+  ) as fixture(version_number, blueprint);
+
+  insert into public.rule_blueprints (
+    id,
+    owner_id,
+    rule_key,
+    title,
+    description,
+    category,
+    visibility
+  )
+  values (
+    v_blueprint,
+    v_host,
+    'upgrade-me',
+    'Upgrade me',
+    'Lobby upgrade regression.',
+    'special',
+    'private'
+  );
+
+  insert into public.rule_versions (
+    id,
+    blueprint_id,
+    compilation_id,
+    version_number,
+    schema_version,
+    engine_version,
+    legacy_rule_id,
+    blueprint_json,
+    rule_json,
+    content_hash,
+    visibility,
+    validation,
+    created_by
+  )
+  select
+    ('f6000000-0000-4000-8000-00000000003' || version_number)::uuid,
+    v_blueprint,
+    ('f6000000-0000-4000-8000-00000000001' || version_number)::uuid,
+    version_number,
+    '2.0.0',
+    '2.0.0',
+    'upgrade-me@test-v' || version_number,
+    blueprint,
+    '{"meta":{},"logic":{}}'::jsonb,
+    'upgrade-content-' || version_number,
+    'private',
+    v_validation,
+    v_host
+  from (
+    values
+      (1, '{"schemaVersion":"2.0.0","ruleKey":"upgrade-me","stateNamespace":"upgrade","initialStateJson":"{}","actions":[{"id":"blast"}]}'::jsonb),
+      (2, '{"schemaVersion":"2.0.0","ruleKey":"upgrade-me","stateNamespace":"upgrade","initialStateJson":"{}","actions":[{"id":"blast"},{"id":"shield"}]}'::jsonb),
+      (3, '{"schemaVersion":"2.0.0","ruleKey":"upgrade-me","stateNamespace":"upgrade","initialStateJson":"{}","actions":[{"id":"shield"}]}'::jsonb)
+  ) as fixture(version_number, blueprint);
+
+  select created.lobby_id, created.ruleset_hash
+    into v_lobby, v_created_hash
+  from public.create_rule_lobby_v2(
+    'Upgrade lobby',
+    array[v_version_1],
+    'f6000000-0000-4000-8000-000000000050',
+    'player'
+  ) as created;
+
+  select history.open_lobby_ids
+    into v_open_lobbies
+  from public.get_rule_version_history_v2('upgrade-me') as history
+  where history.version_id = v_version_1;
+  if v_open_lobbies is distinct from array[v_lobby] then
+    raise exception 'OPEN_LOBBY_NOT_LISTED: %', v_open_lobbies;
+  end if;
+
+  -- Upgrades go through `upgrade-rule-lobby-v2`, which checks the
+  -- composition of the upgraded rule set first.
+  if has_function_privilege(
+    'authenticated',
+    'public.upgrade_rule_lobby_version_server(uuid, uuid, uuid, uuid)',
+    'execute'
+  ) then
+    raise exception 'UPGRADE_CALLABLE_BY_CLIENTS';
+  end if;
+
+  begin
+    perform public.upgrade_rule_lobby_version_server(
+      'f6000000-0000-4000-8000-000000000002', v_lobby, v_version_1, v_version_2
+    );
+    raise exception 'FOREIGN_UPGRADE_ACCEPTED';
+  exception
+    when no_data_found then
+      if sqlerrm not like '%LOBBY_NOT_FOUND%' then
+        raise;
+      end if;
+  end;
+
+  -- v3 drops the `blast` action that v1 players can use.
+  begin
+    perform public.upgrade_rule_lobby_version_server(
+      v_host, v_lobby, v_version_1, v_version_3
+    );
+    raise exception 'BREAKING_UPGRADE_ACCEPTED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%RULE_VERSION_UPGRADE_BREAKING%' then
+        raise;
+      end if;
+  end;
+
+  select upgraded.ruleset_hash
+    into v_upgraded_hash
+  from public.upgrade_rule_lobby_version_server(
+    v_host, v_lobby, v_version_1, v_version_2
+  ) as upgraded;
+
+  select created.lobby_id, created.ruleset_hash
+    into v_direct_lobby, v_direct_hash
+  from public.create_rule_lobby_v2(
+    'Direct lobby',
+    array[v_version_2],
+    'f6000000-0000-4000-8000-000000000051',
+    'player'
+  ) as created;
+
+  if v_upgraded_hash = v_created_hash
+    or v_upgraded_hash is distinct from v_direct_hash then
+    raise exception 'UPGRADED_HASH_INVALID';
+  end if;
+
+  if (
+    select l.active_rules
+    from public.lobbies l
+    where l.id = v_lobby
+  ) is distinct from array['upgrade-me@test-v2'] then
+    raise exception 'UPGRADED_LOBBY_RULES_INVALID';
+  end if;
+
+  begin
+    perform public.upgrade_rule_lobby_version_server(
+      v_host, v_lobby, v_version_2, v_version_1
+    );
+    raise exception 'DOWNGRADE_ACCEPTED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%RULE_VERSION_NOT_NEWER%' then
+        raise;
+      end if;
+  end;
+end;
+$rule_version_upgrades$;
+
+rollback;
@@ -0,0 +1,92 @@
+begin;
+
+do $tournament_formats$
+declare
+  v_tournament constant uuid :=
+    'f6000000-0000-4000-8000-000000000001';
+  v_player_a constant uuid :=
+    'f6000000-0000-4000-8000-000000000010';
+  v_player_b constant uuid :=
+    'f6000000-0000-4000-8000-000000000011';
+  v_player_c constant uuid :=
+    'f6000000-0000-4000-8000-000000000012';
+begin
+  insert into public.tournaments (
+    id, title, variant_name, starts_at, ends_at, format
+  ) values (
+    v_tournament, 'Swiss test', 'Classique', now(), now() + interval '2 hours', 'swiss'
+  );
+
+  begin
+    update public.tournaments set format = 'ladder' where id = v_tournament;
+    raise exception 'UNKNOWN_FORMAT_ACCEPTED';
+  exception
+    when check_violation then null;
+  end;
+
+  begin
+    update public.tournaments set current_round = -1 where id = v_tournament;
+    raise exception 'NEGATIVE_ROUND_ACCEPTED';
+  exception
+    when check_violation then null;
+  end;
+
+  if (
+    select o.format
+    from public.tournament_overview o
+    where o.id = v_tournament
+  ) is distinct from 'swiss' then
+    raise exception 'OVERVIEW_FORMAT_MISSING';
+  end if;
+
+  insert into public.tournament_registrations (
+    tournament_id, user_id, points
+  ) values (
+    v_tournament, v_player_a, 1.5
+  );
+
+  if (
+    select r.points
+    from public.tournament_registrations r
+    where r.tournament_id = v_tournament and r.user_id = v_player_a
+  ) <> 1.5 then
+    raise exception 'HALF_POINT_TRUNCATED';
+  end if;
+
+  begin
+    insert into public.tournament_matches (
+      tournament_id, player1_id, player2_id, round, is_bye
+    ) values (
+      v_tournament, v_player_a, v_player_b, 1, true
+    );
+    raise exception 'BYE_WITH_OPPONENT_ACCEPTED';
+  exception
+    when check_violation then null;
+  end;
+
+  insert into public.tournament_matches (
+    tournament_id, player1_id, player2_id, round, bracket, bracket_slot
+  ) values (
+    v_tournament, v_player_a, v_player_b, 1, 'winners', 0
+  );
+
+  begin
+    insert into public.tournament_matches (
+      tournament_id, player1_id, player2_id, round, bracket, bracket_slot
+    ) values (
+      v_tournament, v_player_c, v_player_b, 1, 'winners', 0
+    );
+    raise exception 'DUPLICATE_SLOT_ACCEPTED';
+  exception
+    when unique_violation then null;
+  end;
+
+  insert into public.tournament_matches (
+    tournament_id, player1_id, player2_id, round, bracket, bracket_slot
+  ) values (
+    v_tournament, v_player_c, v_player_b, 1, 'losers', 0
+  );
+end;
+$tournament_formats$;
+
+rollback;
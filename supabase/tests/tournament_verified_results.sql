@@ -0,0 +1,192 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('f7000000-0000-4000-8000-000000000001'),
+  ('f7000000-0000-4000-8000-000000000002')
+on conflict (id) do nothing;
+
+insert into public.tournaments (
+  id, title, variant_name, starts_at, ends_at, status, format,
+  rule_version_ids, initial_seconds, increment_seconds
+) values (
+  'f7000000-0000-4000-8000-000000000100',
+  'Verified Swiss',
+  'Classique',
+  now(),
+  now() + interval '2 hours',
+  'active',
+  'swiss',
+  '{}'::uuid[],
+  300,
+  2
+);
+
+insert into public.tournament_registrations (tournament_id, user_id, display_name)
+values
+  ('f7000000-0000-4000-8000-000000000100', 'f7000000-0000-4000-8000-000000000001', 'Blanc'),
+  ('f7000000-0000-4000-8000-000000000100', 'f7000000-0000-4000-8000-000000000002', 'Noir');
+
+insert into public.tournament_matches (
+  id, tournament_id, player1_id, player2_id, round, status
+) values
+  (
+    'f7000000-0000-4000-8000-000000000200',
+    'f7000000-0000-4000-8000-000000000100',
+    'f7000000-0000-4000-8000-000000000001',
+    'f7000000-0000-4000-8000-000000000002',
+    1,
+    'playing'
+  ),
+  (
+    'f7000000-0000-4000-8000-000000000201',
+    'f7000000-0000-4000-8000-000000000100',
+    'f7000000-0000-4000-8000-000000000002',
+    'f7000000-0000-4000-8000-000000000001',
+    2,
+    'playing'
+  );
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f7000000-0000-4000-8000-000000000001',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $tournament_standings_protection$
+begin
+  begin
+    update public.tournament_registrations
+    set points = 99
+    where tournament_id = 'f7000000-0000-4000-8000-000000000100'
+      and user_id = 'f7000000-0000-4000-8000-000000000001';
+    raise exception 'SELF_SCORED_POINTS_ACCEPTED';
+  exception
+    when insufficient_privilege then
+      if sqlerrm not like '%TOURNAMENT_STANDINGS_READ_ONLY%' then
+        raise;
+      end if;
+  end;
+
+  update public.tournament_matches
+  set status = 'finished', result = 'player1'
+  where id = 'f7000000-0000-4000-8000-000000000200';
+  if exists (
+    select 1
+    from public.tournament_matches
+    where id = 'f7000000-0000-4000-8000-000000000200'
+      and status = 'finished'
+  ) then
+    raise exception 'SELF_REPORTED_RESULT_ACCEPTED';
+  end if;
+
+  begin
+    perform public.create_tournament_chess_match_server(
+      'f7000000-0000-4000-8000-000000000200'
+    );
+    raise exception 'PLAYER_CREATED_TOURNAMENT_MATCH';
+  exception
+    when insufficient_privilege then null;
+  end;
+end;
+$tournament_standings_protection$;
+
+reset role;
+set local role service_role;
+
+do $tournament_verified_results$
+declare
+  v_chess_match uuid;
+  v_replayed uuid;
+  v_white uuid;
+  v_dispute uuid;
+begin
+  v_chess_match := public.create_tournament_chess_match_server(
+    'f7000000-0000-4000-8000-000000000200'
+  );
+  v_replayed := public.create_tournament_chess_match_server(
+    'f7000000-0000-4000-8000-000000000200'
+  );
+  if v_replayed is distinct from v_chess_match then
+    raise exception 'TOURNAMENT_CHESS_MATCH_NOT_IDEMPOTENT';
+  end if;
+
+  select match_row.white_player_id into v_white
+  from public.chess_matches match_row
+  where match_row.id = v_chess_match;
+  if v_white is distinct from 'f7000000-0000-4000-8000-000000000001'::uuid then
+    raise exception 'PLAYER1_NOT_SEATED_AS_WHITE';
+  end if;
+
+  insert into public.tournament_match_disputes (
+    tournament_match_id, opened_by, reason, claimed_result
+  ) values (
+    'f7000000-0000-4000-8000-000000000200',
+    'f7000000-0000-4000-8000-000000000001',
+    'abandoned',
+    'player1'
+  ) returning id into v_dispute;
+
+  perform public.finalize_chess_match_server(
+    v_chess_match, '0-1', 'resignation', 'tournament-test-reference', 0
+  );
+
+  if not exists (
+    select 1
+    from public.tournament_matches tm
+    where tm.id = 'f7000000-0000-4000-8000-000000000200'
+      and tm.status = 'finished'
+      and tm.result = 'player2'
+      and tm.winner_id = 'f7000000-0000-4000-8000-000000000002'
+      and tm.result_source = 'server'
+  ) then
+    raise exception 'VERIFIED_RESULT_NOT_RECORDED';
+  end if;
+  if (
+    select status from public.tournament_match_disputes where id = v_dispute
+  ) <> 'superseded' then
+    raise exception 'DISPUTE_NOT_SUPERSEDED';
+  end if;
+
+  insert into public.tournament_match_disputes (
+    tournament_match_id, opened_by, reason, claimed_result
+  ) values (
+    'f7000000-0000-4000-8000-000000000201',
+    'f7000000-0000-4000-8000-000000000002',
+    'conflicting_reports',
+    'player1'
+  ) returning id into v_dispute;
+
+  if public.resolve_tournament_match_dispute_server(
+    v_dispute, true, null, 'f7000000-0000-4000-8000-000000000001', 'Vérifié'
+  ) <> 'upheld' then
+    raise exception 'DISPUTE_NOT_UPHELD';
+  end if;
+  if not exists (
+    select 1
+    from public.tournament_matches tm
+    where tm.id = 'f7000000-0000-4000-8000-000000000201'
+      and tm.status = 'finished'
+      and tm.result = 'player1'
+      and tm.result_source = 'dispute'
+  ) then
+    raise exception 'DISPUTE_RESULT_NOT_APPLIED';
+  end if;
+
+  begin
+    perform public.resolve_tournament_match_dispute_server(
+      v_dispute, false, null, null, null
+    );
+    raise exception 'DISPUTE_RESOLVED_TWICE';
+  exception
+    when object_not_in_prerequisite_state then
+      if sqlerrm not like '%DISPUTE_ALREADY_RESOLVED%' then
+        raise;
+      end if;
+  end;
+end;
+$tournament_verified_results$;
+
+rollback;
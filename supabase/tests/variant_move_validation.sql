@@ -0,0 +1,370 @@
+begin;
+
+insert into auth.users (id)
+values
+  ('f0000000-0000-4000-8000-000000000001'),
+  ('f0000000-0000-4000-8000-000000000002')
+on conflict (id) do nothing;
+
+insert into public.rule_compilations (
+  id, user_id, prompt, prompt_hash, model, status, blueprint,
+  compiled_rule, metrics, content_hash, request_key
+) values (
+  'f0000000-0000-4000-8000-000000000300',
+  'f0000000-0000-4000-8000-000000000001',
+  'Variant validation SQL test',
+  repeat('a', 64),
+  'test-model',
+  'validated',
+  '{"actions":[{"id":"test-action"}]}'::jsonb,
+  '{}'::jsonb,
+  $json$
+    {
+      "coverageContractVersion": 1,
+      "intentContract": {
+        "version": 1,
+        "originalPrompt": "[redacted]",
+        "originalPromptHash": "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+        "requirements": [
+          {
+            "id": "test-action",
+            "statement": "The rule exposes one deterministic test action.",
+            "importance": "core",
+            "feasibility": "direct",
+            "approvedAdaptation": ""
+          },
+          {
+            "id": "request-fidelity",
+            "statement": "Every signed clause is represented by compiled logic.",
+            "importance": "core",
+            "feasibility": "direct",
+            "approvedAdaptation": ""
+          }
+        ],
+        "decisions": []
+      },
+      "coverage": {
+        "complete": true,
+        "exactIntentPreserved": true,
+        "score": 100,
+        "summary": "The deterministic test action is implemented.",
+        "requirements": [
+          {
+            "id": "test-action",
+            "status": "implemented",
+            "evidencePaths": ["$.actions[0]"],
+            "explanation": "The first action provides the required behavior.",
+            "adaptation": "",
+            "userApproved": false
+          },
+          {
+            "id": "request-fidelity",
+            "status": "implemented",
+            "evidencePaths": ["$.actions[0]"],
+            "explanation": "The compiled action represents every signed clause.",
+            "adaptation": "",
+            "userApproved": false
+          }
+        ]
+      }
+    }
+  $json$::jsonb,
+  repeat('c', 64),
+  'f0000000-0000-4000-8000-000000000301'
+);
+insert into public.rule_blueprints (
+  id, owner_id, rule_key, title, description, category, visibility
+) values (
+  'f0000000-0000-4000-8000-000000000302',
+  'f0000000-0000-4000-8000-000000000001',
+  'variant-validation-test',
+  'Variant validation test',
+  'Rule version used only to verify variant move commands.',
+  'test',
+  'public'
+);
+insert into public.rule_versions (
+  id, blueprint_id, compilation_id, version_number, schema_version,
+  engine_version, legacy_rule_id, blueprint_json, rule_json,
+  content_hash, visibility, validation, created_by
+) values (
+  'f0000000-0000-4000-8000-000000000303',
+  'f0000000-0000-4000-8000-000000000302',
+  'f0000000-0000-4000-8000-000000000300',
+  1,
+  '2.0.0',
+  '2.0.0',
+  'variant-validation-test-v1',
+  '{"actions":[{"id":"test-action"}]}'::jsonb,
+  '{}'::jsonb,
+  repeat('c', 64),
+  'public',
+  $json$
+    {
+      "metrics": {
+        "coverageContractVersion": 1,
+        "intentContract": {
+          "version": 1,
+          "originalPrompt": "[redacted]",
+          "originalPromptHash": "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+          "requirements": [
+            {
+              "id": "test-action",
+              "statement": "The rule exposes one deterministic test action.",
+              "importance": "core",
+              "feasibility": "direct",
+              "approvedAdaptation": ""
+            },
+            {
+              "id": "request-fidelity",
+              "statement": "Every signed clause is represented by compiled logic.",
+              "importance": "core",
+              "feasibility": "direct",
+              "approvedAdaptation": ""
+            }
+          ],
+          "decisions": []
+        },
+        "coverage": {
+          "complete": true,
+          "exactIntentPreserved": true,
+          "score": 100,
+          "summary": "The deterministic test action is implemented.",
+          "requirements": [
+            {
+              "id": "test-action",
+              "status": "implemented",
+              "evidencePaths": ["$.actions[0]"],
+              "explanation": "The first action provides the required behavior.",
+              "adaptation": "",
+              "userApproved": false
+            },
+            {
+              "id": "request-fidelity",
+              "status": "implemented",
+              "evidencePaths": ["$.actions[0]"],
+              "explanation": "The compiled action represents every signed clause.",
+              "adaptation": "",
+              "userApproved": false
+            }
+          ]
+        }
+      }
+    }
+  $json$::jsonb,
+  'f0000000-0000-4000-8000-000000000001'
+);
+update public.rule_blueprints
+set current_version_id = 'f0000000-0000-4000-8000-000000000303'
+where id = 'f0000000-0000-4000-8000-000000000302';
+
+do $variant_catalog_tests$
+begin
+  if exists (
+    select 1
+    from pg_catalog.pg_trigger trigger_row
+    where trigger_row.tgrelid = 'public.chess_rooms'::regclass
+      and trigger_row.tgname = 'chess_rooms_custom_runtime_gate'
+  ) then
+    raise exception 'CUSTOM_ROOM_GATE_STILL_INSTALLED';
+  end if;
+  if to_regprocedure(
+    'public.submit_chess_move_command(uuid,bigint,uuid,text,integer)'
+  ) is not null then
+    raise exception 'LEGACY_SUBMIT_SIGNATURE_STILL_INSTALLED';
+  end if;
+  if not has_function_privilege(
+    'authenticated',
+    'public.submit_chess_move_command(uuid,bigint,uuid,text,integer,jsonb)',
+    'EXECUTE'
+  ) or has_function_privilege(
+    'anon',
+    'public.submit_chess_move_command(uuid,bigint,uuid,text,integer,jsonb)',
+    'EXECUTE'
+  ) then
+    raise exception 'SUBMIT_COMMAND_ACL_INVALID';
+  end if;
+end;
+$variant_catalog_tests$;
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claim.sub',
+  'f0000000-0000-4000-8000-000000000001',
+  true
+);
+select set_config('request.jwt.claim.role', 'authenticated', true);
+
+do $variant_command_tests$
+declare
+  v_standard_room uuid;
+  v_custom_room uuid;
+  v_standard_match uuid;
+  v_custom_match uuid;
+  v_command uuid;
+  v_command_again uuid;
+  v_action constant jsonb :=
+    '{"actionId":"variant-validation-test.test-action","pieceTile":"g1","targetTile":"d4"}'::jsonb;
+begin
+  select created.room_id into v_standard_room
+  from public.create_chess_room(
+    'Variant standard control',
+    'public',
+    'f0000000-0000-4000-8000-000000000100',
+    '{}'::uuid[],
+    false,
+    600,
+    0,
+    'white'
+  ) created;
+  select created.room_id into v_custom_room
+  from public.create_chess_room(
+    'Variant custom room',
+    'public',
+    'f0000000-0000-4000-8000-000000000101',
+    array['f0000000-0000-4000-8000-000000000303'::uuid],
+    false,
+    600,
+    0,
+    'white'
+  ) created;
+
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f0000000-0000-4000-8000-000000000002',
+    true
+  );
+  perform public.join_chess_room(v_standard_room, null);
+  perform public.join_chess_room(v_custom_room, null);
+  perform set_config(
+    'request.jwt.claim.sub',
+    'f0000000-0000-4000-8000-000000000001',
+    true
+  );
+
+  select match_row.id into v_standard_match
+  from public.chess_matches match_row
+  where match_row.room_id = v_standard_room;
+  select match_row.id into v_custom_match
+  from public.chess_matches match_row
+  where match_row.room_id = v_custom_room;
+  if v_custom_match is null
+    or (
+      select match_row.state ->> 'rulesetType'
+      from public.chess_matches match_row
+      where match_row.id = v_custom_match
+    ) <> 'custom' then
+    raise exception 'CUSTOM_MATCH_NOT_CREATED';
+  end if;
+
+  begin
+    perform public.submit_chess_move_command(
+      v_standard_match,
+      0,
+      'f0000000-0000-4000-8000-000000000200',
+      '0000',
+      null,
+      v_action
+    );
+    raise exception 'STANDARD_MATCH_ACCEPTED_RULE_ACTION';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%INVALID_RULE_ACTION%' then
+        raise;
+      end if;
+  end;
+
+  begin
+    perform public.submit_chess_move_command(
+      v_custom_match,
+      0,
+      'f0000000-0000-4000-8000-000000000201',
+      '0000',
+      null,
+      null
+    );
+    raise exception 'NULL_MOVE_WITHOUT_RULE_ACTION_ACCEPTED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%INVALID_RULE_ACTION%' then
+        raise;
+      end if;
+  end;
+
+  begin
+    perform public.submit_chess_move_command(
+      v_custom_match,
+      0,
+      'f0000000-0000-4000-8000-000000000202',
+      'g1f3',
+      null,
+      v_action
+    );
+    raise exception 'RULE_ACTION_ON_REGULAR_MOVE_ACCEPTED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%INVALID_RULE_ACTION%' then
+        raise;
+      end if;
+  end;
+
+  select command.command_id into v_command
+  from public.submit_chess_move_command(
+    v_custom_match,
+    0,
+    'f0000000-0000-4000-8000-000000000203',
+    '0000',
+    null,
+    v_action
+  ) command;
+  select command.command_id into v_command_again
+  from public.submit_chess_move_command(
+    v_custom_match,
+    0,
+    'f0000000-0000-4000-8000-000000000203',
+    '0000',
+    null,
+    v_action
+  ) command;
+  if v_command is null or v_command_again <> v_command then
+    raise exception 'RULE_ACTION_IDEMPOTENCY_FAILED';
+  end if;
+
+  begin
+    perform public.submit_chess_move_command(
+      v_custom_match,
+      0,
+      'f0000000-0000-4000-8000-000000000203',
+      '0000',
+      null,
+      v_action || '{"targetTile":"e5"}'::jsonb
+    );
+    raise exception 'RULE_ACTION_IDEMPOTENCY_KEY_REUSED';
+  exception
+    when invalid_parameter_value then
+      if sqlerrm not like '%IDEMPOTENCY_KEY_REUSED%' then
+        raise;
+      end if;
+  end;
+end;
+$variant_command_tests$;
+
+reset role;
+
+do $variant_command_storage_tests$
+begin
+  if not exists (
+    select 1
+    from public.chess_move_commands command_row
+    where command_row.client_command_id =
+        'f0000000-0000-4000-8000-000000000203'
+      and command_row.uci = '0000'
+      and command_row.rule_action ->> 'targetTile' = 'd4'
+      and command_row.status = 'pending'
+  ) then
+    raise exception 'RULE_ACTION_NOT_JOURNALED';
+  end if;
+end;
+$variant_command_storage_tests$;
+
+rollback;